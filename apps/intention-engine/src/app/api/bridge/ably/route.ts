@@ -10,7 +10,7 @@ const AblyStateSchema = z.object({
   data: z.object({
     restaurantId: z.string(),
     tableId: z.string(),
-    status: z.enum(["vacant", "occupied", "dirty"]),
+    status: z.enum(["vacant", "seated", "ordered", "paying", "dirty", "out_of_service"]),
     updatedAt: z.string(),
   }),
 });
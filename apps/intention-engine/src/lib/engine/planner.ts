@@ -42,6 +42,10 @@ export const DEFAULT_PLAN_CONSTRAINTS: PlanConstraints = {
   max_execution_time_ms: 120000, // 2 minutes
 };
 
+// TableStack table statuses (plus the aggregate 'full') under which a booking
+// should give way to a delivery suggestion
+const UNAVAILABLE_TABLE_STATUSES = ["seated", "ordered", "paying", "dirty", "out_of_service", "full"];
+
 // ============================================================================
 // RAW PLAN OUTPUT (from LLM)
 // Structure expected from the planning model
@@ -581,7 +585,7 @@ export async function generatePlan(
     }
 
     // LIVE STATE GATE: Check operational state before planning for BOOKING intents
-    // If target restaurant table status is 'occupied' or 'dirty', suggest delivery alternative
+    // If the target restaurant's table is in use, being reset or full, suggest delivery alternative
     let liveStateConstraint = "";
     if (intent.type === "ACTION" || intent.type === "SCHEDULE") {
       const intentParams = intent.parameters as Record<string, any>;
@@ -594,7 +598,7 @@ export async function generatePlan(
           
           if (liveState && typeof liveState === 'object') {
             const tableStatus = (liveState as any).table_status || (liveState as any).status;
-            if (tableStatus === 'occupied' || tableStatus === 'dirty' || tableStatus === 'full') {
+            if (UNAVAILABLE_TABLE_STATUSES.includes(tableStatus)) {
               liveStateConstraint = "Constraint: Target table is currently unavailable (occupied/dirty/full). Proactively suggest a delivery alternative via OpenDelivery instead of a booking. Do not attempt table reservation.";
               console.log(`[Live State Gate] Restaurant ${restaurantId} has table status '${tableStatus}'. Adding delivery constraint.`);
             }
@@ -78,6 +78,11 @@ export class ProactiveIntentGenerator {
     HighValueGuestReservation: (data: any) => {
       const { guest, reservation } = data;
       let prompt = `VIP guest ${guest.name} (${guest.visitCount} visits) booked at ${reservation.restaurantName}.`;
+
+      const { allergies = [], dietaryRestrictions = [] } = guest.preferences || {};
+      if (allergies.length > 0 || dietaryRestrictions.length > 0) {
+        prompt += ` Dietary needs on file: ${[...allergies, ...dietaryRestrictions].join(", ")}.`;
+      }
       
       if (guest.defaultDeliveryAddress) {
         prompt += ` Suggest arranging delivery from ${reservation.restaurantName} to ${guest.defaultDeliveryAddress} post-reservation.`;
@@ -19,6 +19,17 @@ export const tableReservationReturnSchema = {
   message: "string"
 };
 
+/**
+ * Summarises the allergies and dietary needs TableStack has stored for the
+ * guest, e.g. "allergies: peanuts; dietary needs: vegan". Empty when none.
+ */
+function describeDietaryNeeds(profile?: { allergies?: string[]; dietaryRestrictions?: string[] }): string {
+  const parts: string[] = [];
+  if (profile?.allergies?.length) parts.push(`allergies: ${profile.allergies.join(", ")}`);
+  if (profile?.dietaryRestrictions?.length) parts.push(`dietary needs: ${profile.dietaryRestrictions.join(", ")}`);
+  return parts.join("; ");
+}
+
 export async function reserve_restaurant(params: TableReservationParams): Promise<{ success: boolean; result?: any; error?: string }> {
   const validated = TableReservationSchema.safeParse(params);
   if (!validated.success) {
@@ -64,12 +75,14 @@ export async function reserve_restaurant(params: TableReservationParams): Promis
 
       if (response.ok) {
         const data = await response.json();
+        const dietaryNeeds = describeDietaryNeeds(data.guestProfile);
         return {
           success: true,
           result: {
             status: "confirmed",
-            message: data.message,
+            message: dietaryNeeds ? `${data.message} The restaurant has on file: ${dietaryNeeds}.` : data.message,
             booking_id: data.bookingId,
+            dietary_needs: data.guestProfile,
           }
         };
       }
@@ -4,9 +4,8 @@ import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { TOOLS } from "@repo/mcp-protocol";
 import { SecurityProvider } from "@repo/auth";
 import { randomUUID } from "crypto";
-import { db, orders, orderItems } from "@repo/database";
-import { eq } from "drizzle-orm";
-import { RealtimeService } from "@repo/shared";
+import { db, orders, orderItems, and, eq, ne } from "@repo/database";
+import { RealtimeService, releaseOrderInventory } from "@repo/shared";
 import { dispatchOrder } from "@/lib/dispatcher";
 
 // Lazy load Redis to avoid build-time initialization
@@ -555,6 +554,21 @@ server.tool(
     };
 
     await redis.setex(`fulfillment:${fulfillmentId}`, 3600, JSON.stringify(cancelledData));
+
+    // Put the order's items back into stock; the status guard makes this run once
+    if (fulfillment.orderId) {
+      try {
+        const [cancelled] = await db.update(orders)
+          .set({ status: "cancelled", cancelledAt: new Date(), cancellationReason: reason, updatedAt: new Date() })
+          .where(and(eq(orders.id, fulfillment.orderId), ne(orders.status, "cancelled")))
+          .returning({ id: orders.id });
+        if (cancelled) {
+          await releaseOrderInventory(cancelled.id);
+        }
+      } catch (error) {
+        console.error(`[Trace:${traceId}] Failed to release inventory for order ${fulfillment.orderId}:`, error);
+      }
+    }
     
     return createResponse({
       fulfillmentId,
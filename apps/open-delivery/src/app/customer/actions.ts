@@ -1,8 +1,18 @@
 "use server";
 
-import { db, restaurants, orders, orderItems, users, sql, restaurantProducts, eq } from "@repo/database";
+import { db, restaurants, orders, orderItems, users, sql, restaurantProducts, eq, and, inArray } from "@repo/database";
 import { currentUser } from "@clerk/nextjs/server";
-import { RealtimeService } from "@repo/shared";
+import { commitInventory, holdInventory, OutOfStockError, RealtimeService } from "@repo/shared";
+import { describeShortage } from "@repo/shared/utils/inventory";
+import {
+  Allergen,
+  AvailabilityWindow,
+  isItemAvailable,
+  MenuVariant,
+  ModifierGroup,
+  priceSelection,
+  SelectedModifier,
+} from "@repo/shared/utils/menu";
 import { revalidatePath } from "next/cache";
 import { randomUUID } from "crypto";
 
@@ -23,6 +33,34 @@ export interface MenuItem {
   description: string | null;
   price: number;
   category: string;
+  variants: MenuVariant[];
+  modifierGroups: ModifierGroup[];
+  allergens: Allergen[];
+  availability: AvailabilityWindow[];
+  /** Whether the item can be ordered right now in the restaurant's local time */
+  isAvailable: boolean;
+}
+
+export interface OrderLine {
+  id: string;
+  name: string;
+  price: number;
+  quantity: number;
+  variantId?: string | null;
+  modifierOptionIds?: string[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Product = typeof restaurantProducts.$inferSelect;
+
+function menuOptions(p: Product) {
+  return {
+    variants: p.variants || [],
+    modifierGroups: (p.modifierGroups || []) as ModifierGroup[],
+    allergens: (p.allergens || []) as Allergen[],
+    availability: (p.availability || []) as AvailabilityWindow[],
+  };
 }
 
 export async function getRealVendors(userLat?: number, userLng?: number): Promise<Vendor[]> {
@@ -76,29 +114,61 @@ export async function getRealVendors(userLat?: number, userLng?: number): Promis
 
 export async function getMenu(restaurantId: string): Promise<MenuItem[]> {
   try {
-    const products = await db
-      .select()
-      .from(restaurantProducts)
-      .where(eq(restaurantProducts.restaurantId, restaurantId));
-
-    return products.map((p: typeof restaurantProducts.$inferSelect) => ({
-      id: p.id,
-      name: p.name,
-      description: p.description,
-      price: p.price,
-      category: p.category,
-    }));
+    const [restaurant, products] = await Promise.all([
+      db.query.restaurants.findFirst({ where: eq(restaurants.id, restaurantId) }),
+      db
+        .select()
+        .from(restaurantProducts)
+        .where(eq(restaurantProducts.restaurantId, restaurantId)),
+    ]);
+    const now = new Date();
+
+    return products.map((p: Product) => {
+      const options = menuOptions(p);
+      return {
+        id: p.id,
+        name: p.name,
+        description: p.description,
+        price: p.price,
+        category: p.category,
+        ...options,
+        isAvailable: isItemAvailable(options.availability, now, restaurant?.timezone || "UTC"),
+      };
+    });
   } catch (error) {
     console.error("Failed to fetch menu:", error);
     throw new Error("Could not load menu items");
   }
 }
 
+/**
+ * Holds stock for the cart while the customer checks out, replacing any
+ * earlier holds for the same checkout. Returns why lines could not be held.
+ */
+export async function holdCart(vendorId: string, checkoutId: string, items: OrderLine[]) {
+  const productIds = items.map((item) => item.id).filter((id) => UUID_PATTERN.test(id));
+  const products: Pick<Product, "id">[] = productIds.length > 0
+    ? await db.query.restaurantProducts.findMany({
+        where: and(eq(restaurantProducts.restaurantId, vendorId), inArray(restaurantProducts.id, productIds)),
+        columns: { id: true },
+      })
+    : [];
+  const known = new Set(products.map((p) => p.id));
+
+  const { expiresAt, shortages } = await holdInventory(
+    checkoutId,
+    items.filter((item) => known.has(item.id)).map((item) => ({ productId: item.id, quantity: item.quantity }))
+  );
+
+  return { expiresAt, problems: shortages.map(describeShortage) };
+}
+
 export async function placeRealOrder(
   vendorId: string,
-  items: Array<{ id: string; name: string; price: number; quantity: number }>,
+  items: OrderLine[],
   deliveryAddress?: string,
-  tipAmount: number = 0
+  tipAmount: number = 0,
+  checkoutId?: string
 ) {
   const user = await currentUser();
 
@@ -114,8 +184,10 @@ export async function placeRealOrder(
     throw new Error("Restaurant not found");
   }
 
+  const lines = await priceOrderLines(vendorId, restaurant.timezone || "UTC", items);
+
   const orderId = randomUUID();
-  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const subtotal = lines.reduce((sum, item) => sum + item.price * item.quantity, 0);
   const tip = Math.max(0, tipAmount); // Ensure non-negative
   const total = subtotal + tip;
 
@@ -167,15 +239,31 @@ export async function placeRealOrder(
 
     // Insert all order items
     await db.insert(orderItems).values(
-      items.map((item) => ({
+      lines.map((item) => ({
         orderId: orderId,
+        productId: item.productId,
         name: item.name,
         quantity: item.quantity,
         price: item.price,
+        variantName: item.variantName,
+        modifiers: item.modifiers,
         createdAt: new Date(),
       }))
     );
 
+    try {
+      await commitInventory(
+        checkoutId || null,
+        orderId,
+        lines
+          .filter((line) => line.productId)
+          .map((line) => ({ productId: line.productId!, quantity: line.quantity }))
+      );
+    } catch (error) {
+      await db.delete(orders).where(eq(orders.id, orderId));
+      throw error;
+    }
+
     await RealtimeService.publish("nervous-system:updates", "delivery.intent_created", {
       orderId: newOrder.id,
       fulfillmentId: newOrder.id,
@@ -183,7 +271,7 @@ export async function placeRealOrder(
       deliveryAddress: newOrder.deliveryAddress,
       price: newOrder.total, // Ensure this matches the key 'price' used in the driver UI
       priority: "standard",
-      items: items.map((item) => ({ name: item.name, quantity: item.quantity, price: item.price })),
+      items: lines.map((item) => ({ name: item.name, quantity: item.quantity, price: item.price })),
       timestamp: new Date().toISOString(),
       traceId: `order-${orderId}`,
     });
@@ -193,6 +281,54 @@ export async function placeRealOrder(
     return { success: true, orderId: newOrder.id, status: "pending" as const };
   } catch (error) {
     console.error("Order placement failed:", error);
+    if (error instanceof OutOfStockError) {
+      throw new Error(error.message);
+    }
     throw new Error("Failed to place order. Please try again.");
   }
 }
+
+/**
+ * Reprices order lines from the restaurant's menu so the client cannot set
+ * its own prices, and checks sizes, modifiers and availability windows. Lines
+ * that are not menu products (the quick "Order now" special) keep their
+ * submitted price.
+ */
+async function priceOrderLines(vendorId: string, timezone: string, items: OrderLine[]) {
+  const productIds = [...new Set(items.map((item) => item.id).filter((id) => UUID_PATTERN.test(id)))];
+  const products: Product[] = productIds.length > 0
+    ? await db.query.restaurantProducts.findMany({
+        where: and(eq(restaurantProducts.restaurantId, vendorId), inArray(restaurantProducts.id, productIds)),
+      })
+    : [];
+  const byId = new Map(products.map((p) => [p.id, p]));
+  const now = new Date();
+
+  return items.map((item) => {
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      throw new Error(`Invalid quantity for ${item.name}`);
+    }
+
+    const product = byId.get(item.id);
+    if (!product) {
+      if (UUID_PATTERN.test(item.id)) throw new Error(`${item.name} is no longer on the menu`);
+      return { ...item, productId: null, variantName: null, modifiers: null as SelectedModifier[] | null };
+    }
+
+    const options = menuOptions(product);
+    if (!isItemAvailable(options.availability, now, timezone)) {
+      throw new Error(`${product.name} is not available right now`);
+    }
+
+    const priced = priceSelection({ name: product.name, price: product.price, ...options }, item);
+    return {
+      id: product.id,
+      name: product.name,
+      quantity: item.quantity,
+      price: priced.unitPrice,
+      productId: product.id,
+      variantName: priced.variantName,
+      modifiers: priced.modifiers.length > 0 ? priced.modifiers : null,
+    };
+  });
+}
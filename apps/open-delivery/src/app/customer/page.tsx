@@ -14,9 +14,10 @@ import {
   Menu,
   DollarSign,
 } from "lucide-react";
-import { getRealVendors, placeRealOrder, getMenu, Vendor, MenuItem } from "./actions";
+import { getRealVendors, placeRealOrder, getMenu, holdCart, Vendor, MenuItem } from "./actions";
 import { useUser } from "@clerk/nextjs";
 import { reverseGeocode } from "@repo/shared/utils/geo";
+import { describeAvailability, describeSelection, ItemSelection, priceSelection } from "@repo/shared/utils/menu";
 
 export const dynamic = "force-dynamic";
 
@@ -35,7 +36,27 @@ interface OrderStatus {
 }
 
 interface CartItem extends MenuItem {
+  /** Item id plus the chosen size and modifiers */
+  key: string;
   quantity: number;
+  variantId: string | null;
+  modifierOptionIds: string[];
+  /** e.g. "Large · Bacon" */
+  selectionLabel: string;
+}
+
+interface Customization {
+  item: MenuItem;
+  variantId: string | null;
+  modifierOptionIds: string[];
+}
+
+function hasOptions(item: MenuItem): boolean {
+  return item.variants.length > 0 || item.modifierGroups.length > 0;
+}
+
+function cartKey(itemId: string, selection: ItemSelection = {}): string {
+  return [itemId, selection.variantId || "", [...(selection.modifierOptionIds || [])].sort().join(",")].join(":");
 }
 
 export default function CustomerDashboard() {
@@ -49,6 +70,10 @@ export default function CustomerDashboard() {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [isLoadingMenu, setIsLoadingMenu] = useState(false);
   const [cart, setCart] = useState<CartItem[]>([]);
+  const [customizing, setCustomizing] = useState<Customization | null>(null);
+  // Identifies this cart's stock holds; renewed after each order
+  const [checkoutId, setCheckoutId] = useState(() => crypto.randomUUID());
+  const [stockProblems, setStockProblems] = useState<string[]>([]);
   const [showMenuModal, setShowMenuModal] = useState(false);
   const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [cityLabel, setCityLabel] = useState("Detecting location...");
@@ -113,6 +138,21 @@ export default function CustomerDashboard() {
     loadVendors();
   }, [location?.lat, location?.lng]);
 
+  // Hold stock for the cart; debounced so quick quantity changes send one request
+  useEffect(() => {
+    if (!selectedVendor) return;
+    const timer = setTimeout(() => {
+      holdCart(
+        selectedVendor.id,
+        checkoutId,
+        cart.map((item) => ({ id: item.id, name: item.name, price: item.price, quantity: item.quantity }))
+      )
+        .then(({ problems }) => setStockProblems(problems))
+        .catch((err) => console.error("Failed to hold stock", err));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [selectedVendor, checkoutId, cart]);
+
   useEffect(() => {
     if (!activeOrder) return;
     let ably: Ably.Realtime | null = null;
@@ -166,6 +206,7 @@ export default function CustomerDashboard() {
         const items = await getMenu(vendor.id);
         setMenuItems(items);
         setCart([]);
+        setCustomizing(null);
         setShowMenuModal(true);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to load menu");
@@ -176,27 +217,62 @@ export default function CustomerDashboard() {
     [isSignedIn]
   );
 
-  const handleAddToCart = useCallback((item: MenuItem) => {
+  const handleAddToCart = useCallback((item: MenuItem, selection: ItemSelection = {}) => {
+    let priced;
+    try {
+      priced = priceSelection(item, selection);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Choose your options");
+      return;
+    }
+
+    const key = cartKey(item.id, selection);
+    setError(null);
+    setCustomizing(null);
     setCart((prev) => {
-      const existing = prev.find((i) => i.id === item.id);
+      const existing = prev.find((i) => i.key === key);
       if (existing) {
         return prev.map((i) =>
-          i.id === item.id ? { ...i, quantity: i.quantity + 1 } : i
+          i.key === key ? { ...i, quantity: i.quantity + 1 } : i
         );
       }
-      return [...prev, { ...item, quantity: 1 }];
+      return [...prev, {
+        ...item,
+        key,
+        price: priced.unitPrice,
+        quantity: 1,
+        variantId: selection.variantId || null,
+        modifierOptionIds: selection.modifierOptionIds || [],
+        selectionLabel: describeSelection(priced),
+      }];
     });
   }, []);
 
-  const handleRemoveFromCart = useCallback((itemId: string) => {
+  const handleRemoveFromCart = useCallback((key: string) => {
     setCart((prev) => {
-      const existing = prev.find((i) => i.id === itemId);
+      const existing = prev.find((i) => i.key === key);
       if (existing && existing.quantity > 1) {
         return prev.map((i) =>
-          i.id === itemId ? { ...i, quantity: i.quantity - 1 } : i
+          i.key === key ? { ...i, quantity: i.quantity - 1 } : i
         );
       }
-      return prev.filter((i) => i.id !== itemId);
+      return prev.filter((i) => i.key !== key);
+    });
+  }, []);
+
+  const toggleModifier = useCallback((groupId: string, optionId: string) => {
+    setCustomizing((prev) => {
+      if (!prev) return prev;
+      const group = prev.item.modifierGroups.find((g) => g.id === groupId);
+      if (!group) return prev;
+      const selected = prev.modifierOptionIds;
+      if (selected.includes(optionId)) {
+        return { ...prev, modifierOptionIds: selected.filter((id) => id !== optionId) };
+      }
+      // Single-choice groups behave like radio buttons
+      const groupIds = group.options.map((o) => o.id);
+      const kept = group.maxSelections === 1 ? selected.filter((id) => !groupIds.includes(id)) : selected;
+      return { ...prev, modifierOptionIds: [...kept, optionId] };
     });
   }, []);
 
@@ -212,8 +288,10 @@ export default function CustomerDashboard() {
         name: item.name,
         price: item.price,
         quantity: item.quantity,
+        variantId: item.variantId,
+        modifierOptionIds: item.modifierOptionIds,
       }));
-      const result = await placeRealOrder(selectedVendor.id, orderItems, deliveryAddress || undefined, tip);
+      const result = await placeRealOrder(selectedVendor.id, orderItems, deliveryAddress || undefined, tip, checkoutId);
 
       setActiveOrder({
         orderId: result.orderId,
@@ -224,13 +302,14 @@ export default function CustomerDashboard() {
       });
       setShowMenuModal(false);
       setCart([]);
+      setCheckoutId(crypto.randomUUID());
       setTip(5.0); // Reset tip for next order
     } catch (err) {
       setError(err instanceof Error ? err.message : "Order failed");
     } finally {
       setIsPlacingOrder(false);
     }
-  }, [selectedVendor, cart, deliveryAddress, tip]);
+  }, [selectedVendor, cart, deliveryAddress, tip, checkoutId]);
 
   const handleOrderNow = useCallback(
     async (vendor: Vendor) => {
@@ -483,22 +562,44 @@ export default function CustomerDashboard() {
                 ) : (
                   <div className="space-y-4">
                     {menuItems.map((item) => {
-                      const inCart = cart.find((c) => c.id === item.id);
+                      const inCart = cart.find((c) => c.key === cartKey(item.id));
+                      const isCustomizing = customizing?.item.id === item.id;
                       return (
                         <div
                           key={item.id}
-                          className="flex justify-between items-center p-4 border rounded-xl hover:border-blue-300 transition-colors"
+                          className={`p-4 border rounded-xl transition-colors ${item.isAvailable ? "hover:border-blue-300" : "opacity-60"}`}
                         >
+                        <div className="flex justify-between items-center">
                           <div className="flex-1">
                             <h3 className="font-semibold text-gray-900">{item.name}</h3>
                             <p className="text-sm text-gray-500">{item.description || "No description"}</p>
-                            <p className="text-blue-600 font-bold mt-1">${item.price.toFixed(2)}</p>
+                            {item.allergens.length > 0 && (
+                              <p className="text-xs text-red-600 capitalize mt-1">
+                                Contains: {item.allergens.map((a) => a.replace("_", " ")).join(", ")}
+                              </p>
+                            )}
+                            <p className="text-blue-600 font-bold mt-1">
+                              {item.variants.length > 0 ? "from " : ""}${(item.price + (item.variants.length > 0 ? Math.min(...item.variants.map((v) => v.priceDelta)) : 0)).toFixed(2)}
+                            </p>
                           </div>
                           <div className="flex items-center gap-2">
+                            {!item.isAvailable ? (
+                              <span className="text-xs text-gray-500 text-right">
+                                Available {describeAvailability(item.availability)}
+                              </span>
+                            ) : hasOptions(item) ? (
+                              <button
+                                onClick={() => setCustomizing(isCustomizing ? null : { item, variantId: item.variants[0]?.id || null, modifierOptionIds: [] })}
+                                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                              >
+                                {isCustomizing ? "Close" : "Choose"}
+                              </button>
+                            ) : (
+                            <>
                             {inCart ? (
                               <>
                                 <button
-                                  onClick={() => handleRemoveFromCart(item.id)}
+                                  onClick={() => handleRemoveFromCart(inCart.key)}
                                   className="w-8 h-8 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center font-bold transition-colors"
                                 >
                                   -
@@ -512,8 +613,62 @@ export default function CustomerDashboard() {
                             >
                               {inCart ? "Add More" : "Add to Cart"}
                             </button>
+                            </>
+                            )}
                           </div>
                         </div>
+                        {isCustomizing && customizing && (
+                          <div className="mt-3 pt-3 border-t space-y-3 text-sm">
+                            {item.variants.length > 0 && (
+                              <div>
+                                <p className="font-medium text-gray-700 mb-1">Size</p>
+                                <div className="flex flex-wrap gap-2">
+                                  {item.variants.map((variant) => (
+                                    <label key={variant.id} className="flex items-center gap-1">
+                                      <input
+                                        type="radio"
+                                        checked={customizing.variantId === variant.id}
+                                        onChange={() => setCustomizing({ ...customizing, variantId: variant.id })}
+                                      />
+                                      {variant.name}
+                                      {variant.priceDelta !== 0 && ` (${variant.priceDelta > 0 ? "+" : "-"}$${Math.abs(variant.priceDelta).toFixed(2)})`}
+                                    </label>
+                                  ))}
+                                </div>
+                              </div>
+                            )}
+                            {item.modifierGroups.map((group) => (
+                              <div key={group.id}>
+                                <p className="font-medium text-gray-700 mb-1">
+                                  {group.name}
+                                  <span className="text-xs text-gray-400 ml-1">
+                                    {group.minSelections > 0 ? `choose ${group.minSelections === group.maxSelections ? group.minSelections : `${group.minSelections}-${group.maxSelections}`}` : `up to ${group.maxSelections}`}
+                                  </span>
+                                </p>
+                                <div className="flex flex-wrap gap-2">
+                                  {group.options.map((option) => (
+                                    <label key={option.id} className="flex items-center gap-1">
+                                      <input
+                                        type="checkbox"
+                                        checked={customizing.modifierOptionIds.includes(option.id)}
+                                        onChange={() => toggleModifier(group.id, option.id)}
+                                      />
+                                      {option.name}
+                                      {option.priceDelta !== 0 && ` (+$${option.priceDelta.toFixed(2)})`}
+                                    </label>
+                                  ))}
+                                </div>
+                              </div>
+                            ))}
+                            <button
+                              onClick={() => handleAddToCart(item, customizing)}
+                              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                            >
+                              Add to Cart
+                            </button>
+                          </div>
+                        )}
+                        </div>
                       );
                     })}
                   </div>
@@ -534,10 +689,16 @@ export default function CustomerDashboard() {
                 ) : (
                   <div className="space-y-4">
                     {cart.map((item) => (
-                      <div key={item.id} className="flex justify-between items-start">
+                      <div key={item.key} className="flex justify-between items-start">
                         <div className="flex-1">
                           <p className="font-medium text-sm">{item.name}</p>
-                          <p className="text-xs text-gray-500">Qty: {item.quantity}</p>
+                          {item.selectionLabel && <p className="text-xs text-gray-500">{item.selectionLabel}</p>}
+                          <p className="text-xs text-gray-500">
+                            Qty: {item.quantity}
+                            <button onClick={() => handleRemoveFromCart(item.key)} className="ml-2 text-gray-400 hover:text-red-600">
+                              remove one
+                            </button>
+                          </p>
                         </div>
                         <p className="font-semibold text-sm">
                           ${(item.price * item.quantity).toFixed(2)}
@@ -619,9 +780,18 @@ export default function CustomerDashboard() {
                         </div>
                       </div>
                     </div>
+                    {stockProblems.length > 0 && (
+                      <div className="text-sm text-red-600 space-y-1">
+                        {stockProblems.map((problem) => (
+                          <p key={problem} className="flex items-center gap-1">
+                            <AlertCircle className="h-4 w-4 shrink-0" /> {problem}
+                          </p>
+                        ))}
+                      </div>
+                    )}
                     <button
                       onClick={handleCheckout}
-                      disabled={isPlacingOrder || cart.length === 0}
+                      disabled={isPlacingOrder || cart.length === 0 || stockProblems.length > 0}
                       className="w-full bg-blue-600 text-white py-3 rounded-lg font-bold hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                     >
                       {isPlacingOrder ? (
@@ -1,5 +1,6 @@
 import 'dotenv/config';
-import { db, restaurants, restaurantTables, users, restaurantReservations, restaurantWaitlist, eq } from "@repo/database";
+import { db, restaurants, restaurantTables, users, restaurantReservations, restaurantWaitlist, apiKeys, eq } from "@repo/database";
+import { API_KEY_SCOPES, displayPrefix, hashApiKey } from "./src/lib/api-key-scopes";
 
 /**
  * Enhanced Seed Script
@@ -60,6 +61,17 @@ async function seed() {
 
   console.log(`   ✅ ${restaurant2.name} (ID: ${restaurant2.id})`);
 
+  for (const [restaurantId, key] of [[restaurant.id, 'pk_test_123456789'], [restaurant2.id, 'pk_test_987654321']]) {
+    await db.insert(apiKeys).values({
+      restaurantId,
+      name: 'Demo',
+      keyHash: await hashApiKey(key),
+      keyPrefix: displayPrefix(key),
+      scopes: [...API_KEY_SCOPES],
+      createdBy: 'seed',
+    }).onConflictDoNothing();
+  }
+
   // ==========================================================================
   // RESTAURANT TABLES
   // ==========================================================================
@@ -69,11 +81,11 @@ async function seed() {
   await db.delete(restaurantTables).where(eq(restaurantTables.restaurantId, restaurant.id));
 
   const tables = [
-    { tableNumber: '1', minCapacity: 2, maxCapacity: 2, xPos: 100, yPos: 100, tableType: 'square', status: 'available' },
-    { tableNumber: '2', minCapacity: 2, maxCapacity: 2, xPos: 250, yPos: 100, tableType: 'square', status: 'occupied' },
-    { tableNumber: '3', minCapacity: 4, maxCapacity: 4, xPos: 100, yPos: 250, tableType: 'square', status: 'available' },
-    { tableNumber: '4', minCapacity: 6, maxCapacity: 8, xPos: 250, yPos: 250, tableType: 'round', status: 'available' },
-    { tableNumber: '5', minCapacity: 2, maxCapacity: 2, xPos: 400, yPos: 100, tableType: 'booth', status: 'occupied' },
+    { tableNumber: '1', minCapacity: 2, maxCapacity: 2, xPos: 100, yPos: 100, tableType: 'square', status: 'vacant' },
+    { tableNumber: '2', minCapacity: 2, maxCapacity: 2, xPos: 250, yPos: 100, tableType: 'square', status: 'seated' },
+    { tableNumber: '3', minCapacity: 4, maxCapacity: 4, xPos: 100, yPos: 250, tableType: 'square', status: 'vacant' },
+    { tableNumber: '4', minCapacity: 6, maxCapacity: 8, xPos: 250, yPos: 250, tableType: 'round', status: 'vacant' },
+    { tableNumber: '5', minCapacity: 2, maxCapacity: 2, xPos: 400, yPos: 100, tableType: 'booth', status: 'seated' },
   ];
 
   for (const table of tables) {
@@ -1,5 +1,6 @@
 import 'dotenv/config';
-import { db, restaurants, restaurantTables, restaurantProducts, inventoryLevels, eq } from "@repo/database";
+import { db, restaurants, restaurantTables, restaurantProducts, inventoryLevels, apiKeys, eq } from "@repo/database";
+import { API_KEY_SCOPES, displayPrefix, hashApiKey } from "./src/lib/api-key-scopes";
 
 async function seed() {
   console.log('🌱 Seeding demo restaurant...');
@@ -22,6 +23,15 @@ async function seed() {
 
   console.log(`✅ Created/Updated restaurant: ${restaurant.name} (ID: ${restaurant.id})`);
 
+  await db.insert(apiKeys).values({
+    restaurantId: restaurant.id,
+    name: 'Demo',
+    keyHash: await hashApiKey('pk_test_123456789'),
+    keyPrefix: displayPrefix('pk_test_123456789'),
+    scopes: [...API_KEY_SCOPES],
+    createdBy: 'seed',
+  }).onConflictDoNothing();
+
   // Clear existing tables for this restaurant to avoid duplicates
   await db.delete(restaurantTables).where(eq(restaurantTables.restaurantId, restaurant.id));
 
@@ -0,0 +1,103 @@
+/**
+ * API Key Scopes Tests
+ *
+ * Tests:
+ * - Key generation and hashing
+ * - Active, expired and revoked keys
+ * - How long a rotated-out key keeps working
+ * - Key and grace period validation
+ *
+ * Run: pnpm test -- api-key-scopes.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  displayPrefix,
+  generateKeySecret,
+  hashApiKey,
+  hasScope,
+  isKeyActive,
+  rotationExpiry,
+  validateApiKeyInput,
+  validateGraceHours,
+} from '../lib/api-key-scopes';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+describe('generateKeySecret', () => {
+  it('generates distinct prefixed keys', () => {
+    const a = generateKeySecret();
+    const b = generateKeySecret();
+    expect(a).toMatch(/^ts_[0-9a-f]{48}$/);
+    expect(a).not.toBe(b);
+    expect(displayPrefix(a)).toBe(a.slice(0, 9));
+  });
+});
+
+describe('hashApiKey', () => {
+  it('hashes deterministically to hex SHA-256', async () => {
+    const hash = await hashApiKey('pk_test_123456789');
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashApiKey('pk_test_123456789')).toBe(hash);
+    expect(await hashApiKey('pk_test_987654321')).not.toBe(hash);
+  });
+});
+
+describe('isKeyActive', () => {
+  it('accepts keys without expiry and keys expiring later', () => {
+    expect(isKeyActive({ expiresAt: null, revokedAt: null }, NOW)).toBe(true);
+    expect(isKeyActive({ expiresAt: new Date('2026-03-11T00:00:00Z'), revokedAt: null }, NOW)).toBe(true);
+  });
+
+  it('rejects expired and revoked keys', () => {
+    expect(isKeyActive({ expiresAt: NOW, revokedAt: null }, NOW)).toBe(false);
+    expect(isKeyActive({ expiresAt: null, revokedAt: new Date('2026-03-01T00:00:00Z') }, NOW)).toBe(false);
+  });
+});
+
+describe('hasScope', () => {
+  it('only grants the scopes a key was issued with', () => {
+    const key = { scopes: ['availability:read'] };
+    expect(hasScope(key, 'availability:read')).toBe(true);
+    expect(hasScope(key, 'reservations:write')).toBe(false);
+  });
+});
+
+describe('rotationExpiry', () => {
+  it('keeps the old key working for the grace window', () => {
+    expect(rotationExpiry(null, 24, NOW)).toEqual(new Date('2026-03-11T12:00:00Z'));
+  });
+
+  it('never extends a key past its own expiry', () => {
+    const soon = new Date('2026-03-10T15:00:00Z');
+    expect(rotationExpiry(soon, 24, NOW)).toEqual(soon);
+  });
+
+  it('stops the old key at once with no grace', () => {
+    expect(rotationExpiry(null, 0, NOW)).toEqual(NOW);
+  });
+});
+
+describe('validateApiKeyInput', () => {
+  it('accepts a named key with known scopes', () => {
+    expect(validateApiKeyInput({ name: 'Website widget', scopes: ['availability:read'], expiresInDays: 90 })).toBeNull();
+    expect(validateApiKeyInput({ name: 'POS', scopes: ['inventory:read'], expiresInDays: null })).toBeNull();
+  });
+
+  it('rejects missing names, empty or unknown scopes and bad expiries', () => {
+    expect(validateApiKeyInput({ name: ' ', scopes: ['availability:read'], expiresInDays: null })).toBe('Name is required');
+    expect(validateApiKeyInput({ name: 'POS', scopes: [], expiresInDays: null })).toBe('Choose at least one scope');
+    expect(validateApiKeyInput({ name: 'POS', scopes: ['admin'], expiresInDays: null })).toBe('Unknown scope: admin');
+    expect(validateApiKeyInput({ name: 'POS', scopes: ['inventory:read'], expiresInDays: 0 })).toMatch(/Expiry/);
+    expect(validateApiKeyInput({ name: 'POS', scopes: ['inventory:read'], expiresInDays: 1000 })).toMatch(/Expiry/);
+  });
+});
+
+describe('validateGraceHours', () => {
+  it('allows up to a week', () => {
+    expect(validateGraceHours(0)).toBeNull();
+    expect(validateGraceHours(168)).toBeNull();
+    expect(validateGraceHours(169)).toMatch(/Grace period/);
+    expect(validateGraceHours(1.5)).toMatch(/Grace period/);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Availability Cache Events Tests
+ *
+ * Tests:
+ * - Service days touched by reservation events, in the restaurant's timezone
+ * - Days covered by private event buyouts
+ * - Floor and settings changes clearing every cached day
+ * - Cache keys and query fields
+ * - Hit rate and metrics days
+ *
+ * Run: pnpm test -- availability-events.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  affectedServiceDates,
+  availabilityDayKey,
+  availabilityQueryField,
+  hitRate,
+  metricsDates,
+  serviceDateOf,
+} from '../lib/availability-events';
+
+function booking(start: string, minutes = 90) {
+  const startTime = new Date(start);
+  return { startTime, endTime: new Date(startTime.getTime() + minutes * 60000) };
+}
+
+describe('affectedServiceDates', () => {
+  it('covers the booking day and the lookback into the previous one', () => {
+    // 07:00 in New York: searches from the previous evening can see it
+    expect(affectedServiceDates({ type: 'RESERVATION_CREATED', reservations: [booking('2026-03-10T11:00:00Z')] }, 'America/New_York'))
+      .toEqual(['2026-03-09', '2026-03-10']);
+  });
+
+  it('stays on one day for a booking in the middle of service', () => {
+    expect(affectedServiceDates({ type: 'RESERVATION_CANCELLED', reservations: [booking('2026-03-10T19:00:00Z')] }, 'UTC'))
+      .toEqual(['2026-03-10']);
+  });
+
+  it('uses the restaurant timezone for the service day', () => {
+    // 23:00 UTC is already lunchtime the next day in Auckland
+    expect(affectedServiceDates({ type: 'RESERVATION_CREATED', reservations: [booking('2026-03-10T23:00:00Z')] }, 'Pacific/Auckland'))
+      .toEqual(['2026-03-11']);
+  });
+
+  it('reaches into the next day for late bookings', () => {
+    expect(affectedServiceDates({ type: 'RESERVATION_CREATED', reservations: [booking('2026-03-10T22:30:00Z')] }, 'UTC'))
+      .toEqual(['2026-03-10', '2026-03-11']);
+  });
+
+  it('covers both the old and new days of a modified booking', () => {
+    expect(affectedServiceDates({
+      type: 'RESERVATION_MODIFIED',
+      previous: booking('2026-03-10T19:00:00Z'),
+      current: booking('2026-03-14T19:00:00Z'),
+    }, 'UTC')).toEqual(['2026-03-10', '2026-03-14']);
+  });
+
+  it('merges the days of several bookings', () => {
+    expect(affectedServiceDates({
+      type: 'RESERVATION_CREATED',
+      reservations: [booking('2026-03-17T19:00:00Z'), booking('2026-03-10T19:00:00Z'), booking('2026-03-10T18:00:00Z')],
+    }, 'UTC')).toEqual(['2026-03-10', '2026-03-17']);
+  });
+
+  it('covers every day a private event spans', () => {
+    expect(affectedServiceDates({ type: 'PRIVATE_EVENT_BOOKED', events: [booking('2026-03-10T18:00:00Z', 8 * 60)] }, 'UTC'))
+      .toEqual(['2026-03-10', '2026-03-11']);
+    expect(affectedServiceDates({ type: 'PRIVATE_EVENT_CANCELLED', events: [booking('2026-03-10T12:00:00Z', 120)] }, 'UTC'))
+      .toEqual(['2026-03-10']);
+  });
+
+  it('clears every day for floor, table and settings changes', () => {
+    expect(affectedServiceDates({ type: 'TABLE_STATUS_CHANGED' }, 'UTC')).toBe('all');
+    expect(affectedServiceDates({ type: 'FLOOR_CHANGED' }, 'UTC')).toBe('all');
+    expect(affectedServiceDates({ type: 'SETTINGS_CHANGED' }, 'UTC')).toBe('all');
+  });
+});
+
+describe('cache keys', () => {
+  it('files table searches under their local service day', () => {
+    const query = { kind: 'tables' as const, at: new Date('2026-03-10T02:00:00Z'), partySize: 4 };
+    expect(serviceDateOf(query, 'America/Los_Angeles')).toBe('2026-03-09');
+    expect(availabilityDayKey('r1', '2026-03-09')).toBe('availability:r1:2026-03-09');
+  });
+
+  it('distinguishes queries by every input', () => {
+    const at = new Date('2026-03-10T19:00:00Z');
+    const fields = [
+      availabilityQueryField({ kind: 'tables', at, partySize: 4 }),
+      availabilityQueryField({ kind: 'tables', at, partySize: 2 }),
+      availabilityQueryField({ kind: 'tables', at, partySize: 4, section: 'patio' }),
+      availabilityQueryField({ kind: 'slots', date: '2026-03-10', partySize: 4, interval: 15 }),
+      availabilityQueryField({ kind: 'slots', date: '2026-03-10', partySize: 4, interval: 30 }),
+    ];
+    expect(new Set(fields).size).toBe(fields.length);
+    expect(availabilityQueryField({ kind: 'tables', at, partySize: 4, section: null })).toBe(fields[0]);
+  });
+});
+
+describe('metrics', () => {
+  it('computes the hit rate', () => {
+    expect(hitRate({ hits: 3, misses: 1 })).toBe(0.75);
+    expect(hitRate({ hits: 0, misses: 0 })).toBeNull();
+  });
+
+  it('lists UTC days newest first', () => {
+    expect(metricsDates(new Date('2026-03-01T23:30:00-05:00'), 3)).toEqual(['2026-03-02', '2026-03-01', '2026-02-28']);
+  });
+});
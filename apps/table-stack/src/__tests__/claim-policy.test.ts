@@ -0,0 +1,61 @@
+/**
+ * Claim Policy Tests
+ *
+ * Tests:
+ * - Claims proven by the listing's email are approved at once
+ * - Mismatched, repeated and competing claims go to review
+ * - Platform admin list parsing
+ * - Dispute explanation validation
+ *
+ * Run: pnpm test -- claim-policy.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assessClaim, isPlatformAdmin, validateClaimEvidence } from '../lib/claim-policy';
+
+const LISTING = { ownerId: 'shadow', ownerEmail: 'Bookings@Trattoria.example', isClaimed: false };
+
+describe('assessClaim', () => {
+  it('approves a claimant with the listing email verified', () => {
+    expect(assessClaim(LISTING, { userId: 'user_1', verifiedEmails: ['bookings@trattoria.example'] }, 0))
+      .toEqual({ outcome: 'claim' });
+  });
+
+  it('sends other emails to review', () => {
+    expect(assessClaim(LISTING, { userId: 'user_1', verifiedEmails: ['sam@gmail.example'] }, 0))
+      .toEqual({ outcome: 'review', reason: 'email_mismatch' });
+  });
+
+  it('sends claims on a listing with a claim under review to review', () => {
+    expect(assessClaim(LISTING, { userId: 'user_1', verifiedEmails: ['bookings@trattoria.example'] }, 1))
+      .toEqual({ outcome: 'review', reason: 'competing_claim' });
+  });
+
+  it('treats claims on a claimed listing as disputes, except by its owner', () => {
+    const claimed = { ...LISTING, ownerId: 'user_2', isClaimed: true };
+    expect(assessClaim(claimed, { userId: 'user_1', verifiedEmails: ['bookings@trattoria.example'] }, 0))
+      .toEqual({ outcome: 'review', reason: 'already_claimed' });
+    expect(assessClaim(claimed, { userId: 'user_2', verifiedEmails: [] }, 0)).toEqual({ outcome: 'owner' });
+  });
+});
+
+describe('isPlatformAdmin', () => {
+  it('matches ids from a comma-separated list', () => {
+    expect(isPlatformAdmin('user_2', 'user_1, user_2')).toBe(true);
+    expect(isPlatformAdmin('user_3', 'user_1,user_2')).toBe(false);
+  });
+
+  it('denies everyone when no admins are configured', () => {
+    expect(isPlatformAdmin('user_1', undefined)).toBe(false);
+    expect(isPlatformAdmin('user_1', '')).toBe(false);
+    expect(isPlatformAdmin(null, 'user_1')).toBe(false);
+  });
+});
+
+describe('validateClaimEvidence', () => {
+  it('requires a real explanation', () => {
+    expect(validateClaimEvidence('I own it')).toMatch(/at least 20/);
+    expect(validateClaimEvidence('I am the general manager and run the booking inbox.')).toBeNull();
+    expect(validateClaimEvidence('x'.repeat(2001))).toMatch(/under 2000/);
+  });
+});
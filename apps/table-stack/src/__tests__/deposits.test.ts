@@ -0,0 +1,161 @@
+/**
+ * Deposit Lifecycle Tests
+ *
+ * Tests:
+ * - Stripe webhook signatures against a local signing secret
+ * - Recorded webhook events mapped to deposit updates
+ * - Cancellation refunds and no-show captures
+ *
+ * Run: pnpm test -- deposits.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { signStripePayload, verifyStripeSignature, StripeSignatureError } from '../lib/stripe';
+import { depositUpdateForEvent, refundForCancellation, settleCancellation, settleNoShow } from '../lib/deposits';
+
+const secret = 'whsec_test_local';
+const now = new Date('2026-03-14T19:00:00Z');
+const timestamp = Math.floor(now.getTime() / 1000);
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', 'stripe', `${name}.json`), 'utf8');
+}
+
+describe('verifyStripeSignature', () => {
+  const payload = fixture('payment_intent.succeeded');
+
+  it('accepts a payload signed with the secret', async () => {
+    const header = await signStripePayload(payload, secret, timestamp);
+    const event = await verifyStripeSignature(payload, header, secret, now);
+    expect(event.id).toBe('evt_3PkPaid0000000002');
+  });
+
+  it('accepts any matching v1 signature, as during secret rolls', async () => {
+    const header = await signStripePayload(payload, secret, timestamp);
+    const rolled = `t=${timestamp},v1=${'0'.repeat(64)},${header.split(',')[1]}`;
+    await expect(verifyStripeSignature(payload, rolled, secret, now)).resolves.toBeTruthy();
+  });
+
+  it('rejects tampered payloads and the wrong secret', async () => {
+    const header = await signStripePayload(payload, secret, timestamp);
+    await expect(verifyStripeSignature(payload.replace('2500', '1'), header, secret, now))
+      .rejects.toThrow(StripeSignatureError);
+    await expect(verifyStripeSignature(payload, header, 'whsec_other', now))
+      .rejects.toThrow('No matching signature');
+  });
+
+  it('rejects stale, missing and malformed headers', async () => {
+    const stale = await signStripePayload(payload, secret, timestamp - 301);
+    await expect(verifyStripeSignature(payload, stale, secret, now)).rejects.toThrow('tolerance');
+    await expect(verifyStripeSignature(payload, null, secret, now)).rejects.toThrow('Missing');
+    await expect(verifyStripeSignature(payload, 'v1=abc', secret, now)).rejects.toThrow('Malformed');
+  });
+});
+
+describe('depositUpdateForEvent', () => {
+  const event = (name: string) => JSON.parse(fixture(name));
+
+  it('holds and confirms on an authorised PaymentIntent', () => {
+    expect(depositUpdateForEvent(event('payment_intent.amount_capturable_updated'))).toEqual({
+      reservationId: '6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f',
+      paymentIntentId: 'pi_3PkHold0000000001',
+      update: { depositStatus: 'held' },
+      from: [null, 'pending'],
+      confirms: true,
+    });
+  });
+
+  it('marks charged deposits paid, including captured holds', () => {
+    const change = depositUpdateForEvent(event('payment_intent.succeeded'));
+    expect(change?.update).toEqual({ depositStatus: 'paid' });
+    expect(change?.from).toContain('held');
+    expect(change?.confirms).toBe(true);
+  });
+
+  it('releases cancelled PaymentIntents without confirming', () => {
+    const change = depositUpdateForEvent(event('payment_intent.canceled'));
+    expect(change?.update).toEqual({ depositStatus: 'released' });
+    expect(change?.confirms).toBe(false);
+  });
+
+  it('finds refunded charges by PaymentIntent', () => {
+    expect(depositUpdateForEvent(event('charge.refunded'))).toMatchObject({
+      reservationId: null,
+      paymentIntentId: 'pi_3PkPaid0000000002',
+      update: { depositStatus: 'partially_refunded', refundedAmount: 1250 },
+    });
+  });
+
+  it('ignores unrelated events', () => {
+    expect(depositUpdateForEvent({ id: 'evt_1', type: 'customer.created', data: { object: {} } })).toBeNull();
+  });
+});
+
+describe('refundForCancellation', () => {
+  const start = new Date('2026-03-15T19:00:00Z');
+  const policy = { windowHours: 24, lateRefundPercent: 50 };
+
+  it('refunds in full outside the window', () => {
+    expect(refundForCancellation(2500, start, new Date('2026-03-14T19:00:00Z'), policy)).toBe(2500);
+  });
+
+  it('refunds the late percentage inside the window', () => {
+    expect(refundForCancellation(2500, start, new Date('2026-03-14T19:01:00Z'), policy)).toBe(1250);
+    expect(refundForCancellation(2501, start, new Date('2026-03-15T18:00:00Z'), policy)).toBe(1250);
+  });
+
+  it('defaults to a 24 hour window with no late refund', () => {
+    const late = new Date('2026-03-15T12:00:00Z');
+    expect(refundForCancellation(2500, start, late, { windowHours: null, lateRefundPercent: null })).toBe(0);
+  });
+});
+
+describe('settleCancellation', () => {
+  const start = new Date('2026-03-15T19:00:00Z');
+  const early = new Date('2026-03-13T19:00:00Z');
+  const late = new Date('2026-03-15T18:00:00Z');
+  const policy = { windowHours: 24, lateRefundPercent: 20 };
+
+  it('releases held deposits refunded in full', () => {
+    expect(settleCancellation({ amount: 2500, status: 'held' }, start, early, policy)).toEqual({
+      action: 'release',
+      update: { depositStatus: 'released', refundedAmount: 2500 },
+    });
+  });
+
+  it('captures only the fee from held deposits cancelled late', () => {
+    expect(settleCancellation({ amount: 2500, status: 'held' }, start, late, policy)).toEqual({
+      action: 'capture',
+      amount: 2000,
+      update: { depositStatus: 'partially_refunded', refundedAmount: 500 },
+    });
+  });
+
+  it('refunds paid deposits', () => {
+    expect(settleCancellation({ amount: 2500, status: 'paid' }, start, early, policy)).toMatchObject({
+      action: 'refund',
+      amount: 2500,
+      update: { depositStatus: 'refunded' },
+    });
+    expect(settleCancellation({ amount: 2500, status: 'paid' }, start, late, { ...policy, lateRefundPercent: 0 }))
+      .toEqual({ action: 'none' });
+  });
+
+  it('leaves unpaid and settled deposits alone', () => {
+    expect(settleCancellation({ amount: 2500, status: 'pending' }, start, early, policy)).toEqual({ action: 'none' });
+    expect(settleCancellation({ amount: 2500, status: 'refunded' }, start, early, policy)).toEqual({ action: 'none' });
+  });
+});
+
+describe('settleNoShow', () => {
+  it('captures held deposits in full and keeps paid ones', () => {
+    expect(settleNoShow({ amount: 2500, status: 'held' })).toEqual({
+      action: 'capture',
+      amount: 2500,
+      update: { depositStatus: 'paid', refundedAmount: 0 },
+    });
+    expect(settleNoShow({ amount: 2500, status: 'paid' })).toEqual({ action: 'none' });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Email Templates Tests
+ *
+ * Tests:
+ * - Locale copy and dates in the restaurant's timezone
+ * - Branding, with fallbacks for unusable values
+ * - Escaping of guest and restaurant names
+ * - Reminder timing and stale reminders
+ *
+ * Run: pnpm test -- email-templates.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EmailContext,
+  isReminderCurrent,
+  reminderSchedule,
+  renderEmail,
+  resolveLocale,
+  validateBranding,
+} from '../lib/email-templates';
+
+const START = new Date('2026-03-10T19:30:00Z');
+
+function context(overrides: Partial<EmailContext['restaurant']> = {}, guestName = 'Sam'): EmailContext {
+  return {
+    restaurant: { name: 'Harbour Grill', timezone: 'Europe/Paris', emailLocale: 'en', emailBranding: null, ...overrides },
+    reservation: { guestName, partySize: 4, startTime: START },
+    actionUrl: 'https://table-stack.vercel.app/book/manage/r1',
+  };
+}
+
+describe('renderEmail', () => {
+  it('renders the confirmation in the restaurant timezone', () => {
+    const email = renderEmail('confirmation', context());
+    expect(email.subject).toBe('Your reservation at Harbour Grill is confirmed');
+    expect(email.html).toContain('Tuesday, March 10, 2026');
+    expect(email.html).toContain('8:30');
+    expect(email.html).toContain('Manage reservation');
+    expect(email.from).toBe('"Harbour Grill" <notifications@tablestack.io>');
+  });
+
+  it('uses the restaurant locale', () => {
+    const email = renderEmail('reminder', context({ emailLocale: 'fr' }));
+    expect(email.subject).toBe('Rappel : votre réservation chez Harbour Grill');
+    expect(email.html).toContain('mardi 10 mars 2026');
+    expect(email.html).toContain('lang="fr"');
+  });
+
+  it('falls back to English for unknown locales', () => {
+    expect(resolveLocale('it')).toBe('en');
+    expect(resolveLocale(null)).toBe('en');
+    expect(renderEmail('cancellation', context({ emailLocale: 'it' })).subject).toMatch(/has been cancelled/);
+  });
+
+  it('leaves reservation details and the button out where they do not apply', () => {
+    const thankYou = renderEmail('thank_you', context());
+    expect(thankYou.html).not.toContain('Party size');
+    expect(thankYou.html).toContain('Book again');
+
+    const cancellation = renderEmail('cancellation', context());
+    expect(cancellation.html).toContain('Party size');
+    expect(cancellation.html).not.toContain('<a ');
+  });
+
+  it('asks new guests to verify through the action link', () => {
+    const email = renderEmail('verification', { ...context({ emailLocale: 'es' }), actionUrl: 'https://table-stack.vercel.app/verify/tok<1>' });
+    expect(email.subject).toBe('Confirma tu reserva en Harbour Grill');
+    expect(email.html).toContain('href="https://table-stack.vercel.app/verify/tok&lt;1&gt;"');
+    expect(email.html).toContain('Confirmar reserva');
+    expect(email.html).toContain('Personas');
+  });
+
+  it('applies branding', () => {
+    const email = renderEmail('confirmation', context({
+      emailBranding: {
+        logoUrl: 'https://cdn.example.com/logo.png',
+        accentColor: '#ff6600',
+        senderName: 'Harbour Grill Bookings',
+        replyTo: 'hello@harbour.example',
+        footer: '12 Harbour Street',
+      },
+    }));
+    expect(email.html).toContain('src="https://cdn.example.com/logo.png"');
+    expect(email.html).toContain('background:#ff6600');
+    expect(email.html).toContain('12 Harbour Street');
+    expect(email.from).toBe('"Harbour Grill Bookings" <notifications@tablestack.io>');
+    expect(email.replyTo).toBe('hello@harbour.example');
+  });
+
+  it('ignores unusable branding values', () => {
+    const email = renderEmail('confirmation', context({
+      emailBranding: { logoUrl: 'javascript:alert(1)', accentColor: 'red;display:none', replyTo: 'nobody' },
+    }));
+    expect(email.html).not.toContain('javascript:');
+    expect(email.html).toContain('background:#2563eb');
+    expect(email.replyTo).toBeUndefined();
+  });
+
+  it('escapes names in the body and keeps them out of the sender address', () => {
+    const email = renderEmail('confirmation', context({ name: 'Fish <& Chips>', emailBranding: { senderName: 'Evil" <x@y.z>' } }, '<b>Sam</b>'));
+    expect(email.html).toContain('&lt;b&gt;Sam&lt;/b&gt;');
+    expect(email.html).toContain('Fish &lt;&amp; Chips&gt;');
+    expect(email.from).toBe('"Evil x@y.z" <notifications@tablestack.io>');
+  });
+});
+
+describe('validateBranding', () => {
+  it('accepts complete branding', () => {
+    expect(validateBranding({ logoUrl: 'https://cdn.example.com/logo.png', accentColor: '#2563EB', replyTo: 'a@b.co' })).toBeNull();
+  });
+
+  it('rejects unusable values', () => {
+    expect(validateBranding({ logoUrl: 'http://cdn.example.com/logo.png' })).toMatch(/HTTPS/);
+    expect(validateBranding({ accentColor: 'blue' })).toMatch(/Accent/);
+    expect(validateBranding({ replyTo: 'not an email' })).toMatch(/Reply-to/);
+    expect(validateBranding({ senderName: 'x'.repeat(61) })).toMatch(/60/);
+  });
+});
+
+describe('reminders', () => {
+  it('schedules reminders 24 and 2 hours ahead', () => {
+    expect(reminderSchedule(START, new Date('2026-03-08T12:00:00Z'))).toEqual([
+      { leadHours: 24, sendAt: new Date('2026-03-09T19:30:00Z') },
+      { leadHours: 2, sendAt: new Date('2026-03-10T17:30:00Z') },
+    ]);
+  });
+
+  it('skips reminders whose time has passed', () => {
+    expect(reminderSchedule(START, new Date('2026-03-10T16:30:00Z')).map(r => r.leadHours)).toEqual([2]);
+    expect(reminderSchedule(START, new Date('2026-03-10T18:00:00Z'))).toEqual([]);
+  });
+
+  it('only sends reminders for the time they were scheduled for', () => {
+    const now = new Date('2026-03-10T17:30:00Z');
+    const reservation = { status: 'confirmed', seatedAt: null, startTime: START };
+    expect(isReminderCurrent(START.toISOString(), reservation, now)).toBe(true);
+    expect(isReminderCurrent('2026-03-10T18:30:00.000Z', reservation, now)).toBe(false);
+    expect(isReminderCurrent(START.toISOString(), { ...reservation, status: 'cancelled' }, now)).toBe(false);
+    expect(isReminderCurrent(START.toISOString(), { ...reservation, seatedAt: now }, now)).toBe(false);
+  });
+});
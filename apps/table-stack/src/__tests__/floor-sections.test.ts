@@ -0,0 +1,94 @@
+/**
+ * Floor Section Tests
+ *
+ * Tests:
+ * - Closing sections for a shift
+ * - Matching guest section requests by name, room or id
+ * - Filtering tables by section
+ * - Legacy proximity adjacency stays within a section
+ *
+ * Run: pnpm test -- floor-sections.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FloorSection, isSectionOpenAt, matchesSection, roomOf, tablesOpenAt, validateSection } from '../lib/floor-sections';
+import { buildAdjacencyGraph } from '../lib/table-combinations';
+
+const now = new Date('2026-03-14T19:00:00Z');
+
+const patio: FloorSection = { id: 's1', name: 'Patio', room: null, isEnabled: true, disabledUntil: null };
+const bar: FloorSection = { id: 's2', name: 'Bar', room: 'Main Room', isEnabled: true, disabledUntil: null };
+const windowSeats: FloorSection = { id: 's3', name: 'Window', room: 'Main Room', isEnabled: true, disabledUntil: null };
+
+const tables = [
+  { id: 't1', sectionId: 's1' },
+  { id: 't2', sectionId: 's2' },
+  { id: 't3', sectionId: 's3' },
+  { id: 't4', sectionId: null },
+];
+
+describe('isSectionOpenAt', () => {
+  it('closes a disabled section until it reopens', () => {
+    const closed = { isEnabled: false, disabledUntil: new Date('2026-03-14T22:00:00Z') };
+    expect(isSectionOpenAt(closed, now)).toBe(false);
+    expect(isSectionOpenAt(closed, new Date('2026-03-14T22:00:00Z'))).toBe(true);
+  });
+
+  it('keeps a section disabled without an end indefinitely', () => {
+    expect(isSectionOpenAt({ isEnabled: false, disabledUntil: null }, now)).toBe(false);
+  });
+});
+
+describe('matchesSection', () => {
+  it('matches the name or room case-insensitively, or the id', () => {
+    expect(matchesSection(patio, 'patio')).toBe(true);
+    expect(matchesSection(bar, ' main room ')).toBe(true);
+    expect(matchesSection(bar, 's2')).toBe(true);
+    expect(matchesSection(bar, 'patio')).toBe(false);
+  });
+});
+
+describe('roomOf', () => {
+  it('falls back to the section name and the default room', () => {
+    expect(roomOf(bar)).toBe('Main Room');
+    expect(roomOf(patio)).toBe('Patio');
+    expect(roomOf(null)).toBe('Main');
+  });
+});
+
+describe('tablesOpenAt', () => {
+  it('keeps every open table without a section request', () => {
+    expect(tablesOpenAt(tables, [patio, bar, windowSeats], now).map(t => t.id)).toEqual(['t1', 't2', 't3', 't4']);
+  });
+
+  it('keeps only the requested section or room', () => {
+    expect(tablesOpenAt(tables, [patio, bar, windowSeats], now, 'Patio').map(t => t.id)).toEqual(['t1']);
+    expect(tablesOpenAt(tables, [patio, bar, windowSeats], now, 'main room').map(t => t.id)).toEqual(['t2', 't3']);
+    expect(tablesOpenAt(tables, [patio, bar, windowSeats], now, 'rooftop')).toEqual([]);
+  });
+
+  it('drops tables in closed sections', () => {
+    const closedPatio = { ...patio, isEnabled: false, disabledUntil: new Date('2026-03-14T22:00:00Z') };
+    expect(tablesOpenAt(tables, [closedPatio, bar, windowSeats], now).map(t => t.id)).toEqual(['t2', 't3', 't4']);
+    expect(tablesOpenAt(tables, [closedPatio, bar, windowSeats], new Date('2026-03-14T23:00:00Z'), 'patio').map(t => t.id)).toEqual(['t1']);
+  });
+});
+
+describe('validateSection', () => {
+  it('requires a name', () => {
+    expect(validateSection({ name: 'Patio' })).toBeNull();
+    expect(validateSection({ name: '  ' })).toMatch(/required/);
+  });
+});
+
+describe('buildAdjacencyGraph', () => {
+  it('only treats nearby tables in the same section as neighbours', () => {
+    const graph = buildAdjacencyGraph([
+      { id: 'a', tableNumber: '1', maxCapacity: 2, xPos: 0, yPos: 0, sectionId: 's1' },
+      { id: 'b', tableNumber: '2', maxCapacity: 2, xPos: 50, yPos: 0, sectionId: 's1' },
+      { id: 'c', tableNumber: '3', maxCapacity: 2, xPos: 0, yPos: 50, sectionId: 's2' },
+    ]);
+    expect(Array.from(graph.get('a')!)).toEqual(['b']);
+    expect(graph.get('c')!.size).toBe(0);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Guest Profile Tests
+ *
+ * Tests:
+ * - Note list normalisation and validation
+ * - Duplicate grouping and primary selection
+ * - Merged profile fields
+ * - Visit timeline across reservations and orders
+ *
+ * Run: pnpm test -- guest-profile.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildVisitTimeline,
+  choosePrimaryProfile,
+  findDuplicateGroups,
+  MAX_NOTE_ITEMS,
+  MergeableProfile,
+  mergeProfileFields,
+  normalizeNoteList,
+  parseNoteList,
+  validateGuestNotes,
+} from '../lib/guest-profile';
+
+function profile(overrides: Partial<MergeableProfile> = {}): MergeableProfile {
+  return {
+    id: 'p1',
+    email: 'ada@example.com',
+    name: 'Ada Lovelace',
+    defaultDeliveryAddress: null,
+    visitCount: 0,
+    seatedCount: 0,
+    noShowCount: 0,
+    preferences: null,
+    allergies: [],
+    dietaryRestrictions: [],
+    seatingPreferences: [],
+    tags: [],
+    lastVisitAt: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('note lists', () => {
+  it('trims labels and drops blanks and case-insensitive repeats', () => {
+    expect(normalizeNoteList(['  Peanuts ', 'shellfish', 'peanuts', '', 'tree   nuts'])).toEqual(['Peanuts', 'shellfish', 'tree nuts']);
+    expect(normalizeNoteList(null)).toEqual([]);
+  });
+
+  it('parses comma and newline separated input', () => {
+    expect(parseNoteList('vegan, gluten free\nno pork,')).toEqual(['vegan', 'gluten free', 'no pork']);
+  });
+
+  it('rejects too many or too long labels', () => {
+    expect(validateGuestNotes({ allergies: ['peanuts'], tags: ['VIP'] })).toBeNull();
+    expect(validateGuestNotes({ tags: Array.from({ length: MAX_NOTE_ITEMS + 1 }, (_, i) => `tag ${i}`) })).toMatch(/tags/);
+    expect(validateGuestNotes({ dietaryRestrictions: ['x'.repeat(61)] })).toMatch(/longer than 60/);
+  });
+});
+
+describe('duplicates', () => {
+  it('groups profiles whose emails differ only in case or spacing', () => {
+    const groups = findDuplicateGroups([
+      profile({ id: 'a', email: 'Ada@Example.com' }),
+      profile({ id: 'b', email: 'grace@example.com' }),
+      profile({ id: 'c', email: ' ada@example.com' }),
+    ]);
+    expect(groups.map(g => g.map(p => p.id))).toEqual([['a', 'c']]);
+  });
+
+  it('keeps the profile with the most visits, then the oldest', () => {
+    const older = profile({ id: 'older', visitCount: 3, createdAt: new Date('2025-01-01T00:00:00Z') });
+    const busier = profile({ id: 'busier', visitCount: 5 });
+    const newer = profile({ id: 'newer', visitCount: 3, createdAt: new Date('2026-06-01T00:00:00Z') });
+    expect(choosePrimaryProfile([newer, older, busier]).id).toBe('busier');
+    expect(choosePrimaryProfile([newer, older]).id).toBe('older');
+  });
+
+  it('sums history, combines notes and recomputes reliability', () => {
+    const merged = mergeProfileFields(
+      profile({
+        email: 'Ada@Example.com',
+        visitCount: 4,
+        seatedCount: 4,
+        noShowCount: 0,
+        allergies: ['Peanuts'],
+        tags: ['VIP'],
+        preferences: 'Likes the window',
+        lastVisitAt: new Date('2026-03-01T00:00:00Z'),
+      }),
+      [profile({
+        id: 'p2',
+        name: 'A. Lovelace',
+        defaultDeliveryAddress: '1 Analytical Way',
+        visitCount: 1,
+        seatedCount: 1,
+        noShowCount: 2,
+        allergies: ['peanuts', 'Shellfish'],
+        dietaryRestrictions: ['Vegetarian'],
+        preferences: 'Likes the window',
+        lastVisitAt: new Date('2026-05-01T00:00:00Z'),
+      })]
+    );
+
+    expect(merged).toMatchObject({
+      email: 'ada@example.com',
+      name: 'Ada Lovelace',
+      defaultDeliveryAddress: '1 Analytical Way',
+      visitCount: 5,
+      seatedCount: 5,
+      noShowCount: 2,
+      reliabilityScore: 78,
+      allergies: ['Peanuts', 'Shellfish'],
+      dietaryRestrictions: ['Vegetarian'],
+      tags: ['VIP'],
+      preferences: 'Likes the window',
+    });
+    expect(merged.lastVisitAt?.toISOString()).toBe('2026-05-01T00:00:00.000Z');
+  });
+});
+
+describe('buildVisitTimeline', () => {
+  it('interleaves reservations and orders newest first', () => {
+    const timeline = buildVisitTimeline(
+      [
+        { id: 'r1', startTime: new Date('2026-03-01T19:00:00Z'), partySize: 2, status: 'confirmed', seatedAt: new Date('2026-03-01T19:05:00Z'), tableNumber: '4' },
+        { id: 'r2', startTime: new Date('2026-05-01T19:00:00Z'), partySize: 4, status: 'noshow', seatedAt: null, tableNumber: null },
+      ],
+      [
+        { id: 'o1', createdAt: new Date('2026-04-01T12:00:00Z'), status: 'delivered', total: 32.5, itemCount: 3 },
+        { id: 'o2', createdAt: null, status: 'pending', total: 10, itemCount: 1 },
+      ]
+    );
+
+    expect(timeline.map(e => [e.kind, e.id, e.status])).toEqual([
+      ['reservation', 'r2', 'noshow'],
+      ['order', 'o1', 'delivered'],
+      ['reservation', 'r1', 'seated'],
+    ]);
+  });
+});
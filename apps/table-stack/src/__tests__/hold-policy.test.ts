@@ -0,0 +1,173 @@
+/**
+ * Booking Hold Tests
+ *
+ * Tests:
+ * - Whether a hold covers a booking (expiry, time, party size, tables)
+ * - Lock keys and hold lengths
+ * - Concurrent bookings under table locks never overlap on a table,
+ *   including tables inside combinations
+ *
+ * Run: pnpm test -- hold-policy.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  heldTableIds,
+  holdMismatch,
+  HoldState,
+  TableLockStore,
+  tableLockKeys,
+  TablesBusyError,
+  validateHoldMinutes,
+  withTableLocks,
+} from '../lib/hold-policy';
+import { BookedWindow, occupiedTableIdsBetween } from '../lib/slot-grid';
+
+const NOW = new Date('2026-03-10T18:00:00Z');
+const START = new Date('2026-03-10T19:00:00Z');
+
+function hold(overrides: Partial<HoldState> = {}): HoldState {
+  return {
+    restaurantId: 'r1',
+    tableId: null,
+    combinedTableIds: ['t1', 't2'],
+    partySize: 6,
+    startTime: START,
+    status: 'held',
+    expiresAt: new Date(NOW.getTime() + 5 * 60000),
+    ...overrides,
+  };
+}
+
+/** Lock store with Redis semantics: every key or none, freed only by its owner */
+function memoryLockStore(): TableLockStore & { locked: () => number } {
+  const owners = new Map<string, string>();
+  return {
+    async acquire(keys, owner) {
+      if (keys.some(key => owners.has(key))) return false;
+      keys.forEach(key => owners.set(key, owner));
+      return true;
+    },
+    async release(keys, owner) {
+      keys.forEach(key => { if (owners.get(key) === owner) owners.delete(key); });
+    },
+    locked: () => owners.size,
+  };
+}
+
+const pause = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Books like the reserve route: check for conflicts, then write, with a
+ * database round trip's delay in between.
+ */
+async function book(bookings: BookedWindow[], tables: string[], startTime: Date, latencyMs: number) {
+  const endTime = new Date(startTime.getTime() + 90 * 60000);
+  const occupied = occupiedTableIdsBetween(bookings, startTime, endTime);
+  await pause(latencyMs);
+  if (tables.some(id => occupied.has(id))) return false;
+
+  bookings.push({
+    tableId: tables.length === 1 ? tables[0] : null,
+    combinedTableIds: tables.length > 1 ? tables : null,
+    startTime,
+    endTime,
+    partySize: 2,
+  });
+  return true;
+}
+
+function overlappingPairs(bookings: BookedWindow[]) {
+  const pairs: [BookedWindow, BookedWindow][] = [];
+  bookings.forEach((a, i) => bookings.slice(i + 1).forEach(b => {
+    const shared = heldTableIds(a).some(id => heldTableIds(b).includes(id));
+    if (shared && a.startTime < b.endTime && b.startTime < a.endTime) pairs.push([a, b]);
+  }));
+  return pairs;
+}
+
+// Singles and adjacent combinations competing for the same three tables
+const REQUESTS = [['t1'], ['t2'], ['t3'], ['t1', 't2'], ['t2', 't3'], ['t1', 't2', 't3']];
+
+describe('holdMismatch', () => {
+  it('accepts a booking the hold covers', () => {
+    expect(holdMismatch(hold(), { restaurantId: 'r1', startTime: START, partySize: 6 }, NOW)).toBeNull();
+    expect(holdMismatch(hold(), { restaurantId: 'r1', startTime: START, partySize: 4, tableIds: ['t2', 't1'] }, NOW)).toBeNull();
+  });
+
+  it('rejects holds that are no longer live', () => {
+    expect(holdMismatch(hold({ expiresAt: NOW }), { restaurantId: 'r1', startTime: START, partySize: 6 }, NOW)).toMatch(/expired/);
+    expect(holdMismatch(hold({ status: 'converted' }), { restaurantId: 'r1', startTime: START, partySize: 6 }, NOW)).toMatch(/expired/);
+  });
+
+  it('rejects bookings outside the hold', () => {
+    expect(holdMismatch(hold(), { restaurantId: 'r2', startTime: START, partySize: 6 }, NOW)).toMatch(/restaurant/);
+    expect(holdMismatch(hold(), { restaurantId: 'r1', startTime: new Date('2026-03-10T19:15:00Z'), partySize: 6 }, NOW)).toMatch(/time/);
+    expect(holdMismatch(hold(), { restaurantId: 'r1', startTime: START, partySize: 7 }, NOW)).toMatch(/at most 6/);
+    expect(holdMismatch(hold(), { restaurantId: 'r1', startTime: START, partySize: 6, tableIds: ['t1'] }, NOW)).toMatch(/tables/);
+  });
+});
+
+describe('holds', () => {
+  it('lists held tables', () => {
+    expect(heldTableIds({ tableId: 't1', combinedTableIds: null })).toEqual(['t1']);
+    expect(heldTableIds({ tableId: null, combinedTableIds: ['t1', 't2'] })).toEqual(['t1', 't2']);
+  });
+
+  it('locks each table once, in a stable order', () => {
+    expect(tableLockKeys(['t2', 't1', 't2'])).toEqual(['table-lock:t1', 'table-lock:t2']);
+  });
+
+  it('limits hold length', () => {
+    expect(validateHoldMinutes(5)).toBeNull();
+    expect(validateHoldMinutes(0)).toMatch(/between 1 and 15/);
+    expect(validateHoldMinutes(16)).toMatch(/between 1 and 15/);
+    expect(validateHoldMinutes(2.5)).toMatch(/between 1 and 15/);
+  });
+});
+
+describe('withTableLocks', () => {
+  it('releases the tables when the critical section throws', async () => {
+    const store = memoryLockStore();
+    await expect(withTableLocks(store, ['t1'], async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(store.locked()).toBe(0);
+  });
+
+  it('gives up when the tables stay locked', async () => {
+    const store = memoryLockStore();
+    await store.acquire(['table-lock:t1'], 'someone-else', 10_000);
+    await expect(withTableLocks(store, ['t1', 't2'], async () => 'booked', { attempts: 3, retryMs: 1 }))
+      .rejects.toBeInstanceOf(TablesBusyError);
+    // Nothing is left half-locked
+    expect(store.locked()).toBe(1);
+  });
+
+  it('double-books without locks, which is what the locks prevent', async () => {
+    const bookings: BookedWindow[] = [];
+    await Promise.all([book(bookings, ['t1'], START, 5), book(bookings, ['t1', 't2'], START, 5)]);
+    expect(overlappingPairs(bookings)).toHaveLength(1);
+  });
+
+  it('never lets concurrent bookings overlap on a table, combinations included', async () => {
+    const store = memoryLockStore();
+    const bookings: BookedWindow[] = [];
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+    const attempts = Array.from({ length: 60 }, (_, i) => {
+      const tables = REQUESTS[i % REQUESTS.length];
+      const startTime = new Date(START.getTime() + Math.floor(random() * 8) * 15 * 60000);
+      return withTableLocks(store, tables, () => book(bookings, tables, startTime, 1 + Math.floor(random() * 4)), { attempts: 50, retryMs: 1 })
+        .catch(error => {
+          if (error instanceof TablesBusyError) return false;
+          throw error;
+        });
+    });
+    const results = await Promise.all(attempts);
+
+    expect(results.filter(Boolean).length).toBeGreaterThan(0);
+    expect(bookings).toHaveLength(results.filter(Boolean).length);
+    expect(overlappingPairs(bookings)).toEqual([]);
+    expect(store.locked()).toBe(0);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Host Stand Tests
+ *
+ * Tests:
+ * - Walk-in validation and the guest details recorded
+ * - Tables a walk-in can be seated at
+ * - Upcoming and late arrivals
+ *
+ * Run: pnpm test -- host-stand.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addMinutes } from 'date-fns';
+import {
+  ArrivalReservation,
+  upcomingArrivals,
+  validateWalkIn,
+  walkInGuest,
+  walkInTableError,
+  WALK_IN_GUEST_NAME,
+} from '../lib/host-stand';
+
+const now = new Date('2026-03-14T19:00:00Z');
+
+function reservation(id: string, startOffset: number, overrides: Partial<ArrivalReservation> = {}): ArrivalReservation {
+  return {
+    id,
+    status: 'confirmed',
+    isVerified: true,
+    seatedAt: null,
+    startTime: addMinutes(now, startOffset),
+    endTime: addMinutes(now, startOffset + 90),
+    ...overrides,
+  };
+}
+
+describe('validateWalkIn', () => {
+  it('accepts a party with a table and no contact', () => {
+    expect(validateWalkIn({ partySize: 2, tableIds: ['t1'] })).toBeNull();
+  });
+
+  it('needs a sensible party size and at least one table', () => {
+    expect(validateWalkIn({ partySize: 0, tableIds: ['t1'] })).toMatch(/Party size/);
+    expect(validateWalkIn({ partySize: 2.5, tableIds: ['t1'] })).toMatch(/Party size/);
+    expect(validateWalkIn({ partySize: 2, tableIds: [] })).toBe('Choose a table for the party');
+    expect(validateWalkIn({ partySize: 2, tableIds: ['t1', 't1'] })).toBe('A table was chosen twice');
+    expect(validateWalkIn({ partySize: 12, tableIds: ['t1', 't2', 't3', 't4', 't5'] })).toMatch(/At most 4 tables/);
+  });
+
+  it('checks an email when one is given', () => {
+    expect(validateWalkIn({ partySize: 2, tableIds: ['t1'], guestEmail: 'not-an-email' })).toMatch(/not a valid email/);
+    expect(validateWalkIn({ partySize: 2, tableIds: ['t1'], guestEmail: '  ' })).toBeNull();
+  });
+});
+
+describe('walkInGuest', () => {
+  it('records anonymous walk-ins under a generic name and no email', () => {
+    expect(walkInGuest({ guestName: ' ', guestEmail: null })).toEqual({ guestName: WALK_IN_GUEST_NAME, guestEmail: '' });
+  });
+
+  it('normalizes a given contact', () => {
+    expect(walkInGuest({ guestName: ' Ada ', guestEmail: ' Ada@Example.com ' }))
+      .toEqual({ guestName: 'Ada', guestEmail: 'ada@example.com' });
+  });
+});
+
+describe('walkInTableError', () => {
+  const table = { id: 't1', tableNumber: '4', maxCapacity: 2, status: 'vacant' };
+
+  it('seats a party at a vacant table that fits', () => {
+    expect(walkInTableError([table], 2)).toBeNull();
+  });
+
+  it('refuses tables that are not vacant', () => {
+    expect(walkInTableError([{ ...table, status: 'dirty' }], 2)).toBe('Table 4 is dirty');
+    expect(walkInTableError([table, { ...table, id: 't2', tableNumber: '5', status: 'out_of_service' }], 3))
+      .toBe('Table 5 is out of service');
+  });
+
+  it('refuses a single table too small for the party', () => {
+    expect(walkInTableError([table], 3)).toBe('Table 4 seats at most 2');
+  });
+
+  it('leaves combination capacity to the combination check', () => {
+    expect(walkInTableError([table, { ...table, id: 't2', tableNumber: '5' }], 4)).toBeNull();
+  });
+});
+
+describe('upcomingArrivals', () => {
+  it('lists unseated parties due within the window, soonest first', () => {
+    const arrivals = upcomingArrivals([
+      reservation('later', 90),
+      reservation('soon', 15),
+      reservation('too-late-to-list', 150),
+    ], now, 120);
+
+    expect(arrivals.map(a => a.id)).toEqual(['soon', 'later']);
+    expect(arrivals[0]).toMatchObject({ minutesUntil: 15, isLate: false });
+  });
+
+  it('keeps late parties until their reservation ends', () => {
+    const arrivals = upcomingArrivals([
+      reservation('late', -20),
+      reservation('over', -100),
+    ], now);
+
+    expect(arrivals.map(a => a.id)).toEqual(['late']);
+    expect(arrivals[0]).toMatchObject({ minutesUntil: -20, isLate: true });
+  });
+
+  it('leaves out seated, cancelled and unverified reservations', () => {
+    const arrivals = upcomingArrivals([
+      reservation('seated', 10, { seatedAt: now }),
+      reservation('cancelled', 10, { status: 'cancelled' }),
+      reservation('unverified', 10, { isVerified: false }),
+    ], now);
+
+    expect(arrivals).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Inventory Hold Tests
+ *
+ * Tests:
+ * - Cart lines aggregated per product
+ * - Sellable stock after holds
+ * - Low-stock threshold crossing
+ * - Shortage messages
+ *
+ * Run: pnpm test -- inventory-holds.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aggregateStockLines, crossesLowStock, describeShortage, sellableQuantity } from '@repo/shared/utils/inventory';
+
+describe('aggregateStockLines', () => {
+  it('sums lines for the same product', () => {
+    expect(aggregateStockLines([
+      { productId: 'burger', quantity: 1 },
+      { productId: 'fries', quantity: 2 },
+      { productId: 'burger', quantity: 3 },
+    ])).toEqual([
+      { productId: 'burger', quantity: 4 },
+      { productId: 'fries', quantity: 2 },
+    ]);
+  });
+
+  it('rejects zero and fractional quantities', () => {
+    expect(() => aggregateStockLines([{ productId: 'burger', quantity: 0 }])).toThrow(/whole numbers/);
+    expect(() => aggregateStockLines([{ productId: 'burger', quantity: 1.5 }])).toThrow(/whole numbers/);
+  });
+});
+
+describe('sellableQuantity', () => {
+  it('sets held units aside and never goes negative', () => {
+    expect(sellableQuantity({ availableQuantity: 10, heldQuantity: 3 })).toBe(7);
+    expect(sellableQuantity({ availableQuantity: 2, heldQuantity: 5 })).toBe(0);
+  });
+});
+
+describe('crossesLowStock', () => {
+  it('fires only on the change that reaches the threshold', () => {
+    expect(crossesLowStock(6, 5, 5)).toBe(true);
+    expect(crossesLowStock(8, 2, 5)).toBe(true);
+    expect(crossesLowStock(5, 4, 5)).toBe(false);
+    expect(crossesLowStock(9, 6, 5)).toBe(false);
+  });
+
+  it('never fires without a threshold', () => {
+    expect(crossesLowStock(1, 0, null)).toBe(false);
+  });
+});
+
+describe('describeShortage', () => {
+  it('distinguishes sold out from limited stock', () => {
+    expect(describeShortage({ productId: 'p', name: 'Croissant', requested: 2, available: 0 })).toBe('Croissant is sold out');
+    expect(describeShortage({ productId: 'p', name: 'Croissant', requested: 4, available: 1 })).toBe('Only 1 Croissant left');
+  });
+});
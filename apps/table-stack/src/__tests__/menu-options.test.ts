@@ -0,0 +1,129 @@
+/**
+ * Menu Options Tests
+ *
+ * Tests:
+ * - Option validation (selection limits, duplicate ids, allergens, times)
+ * - Pricing sizes and modifiers, including required choices
+ * - Availability windows, including windows past midnight
+ *
+ * Run: pnpm test -- menu-options.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  describeAvailability,
+  describeSelection,
+  isAvailableAt,
+  isItemAvailable,
+  MenuItemForPricing,
+  priceSelection,
+  validateMenuOptions,
+} from '@repo/shared/utils/menu';
+
+const burger: MenuItemForPricing = {
+  name: 'Burger',
+  price: 12,
+  allergens: ['gluten'],
+  variants: [
+    { id: 'single', name: 'Single', priceDelta: 0 },
+    { id: 'double', name: 'Double', priceDelta: 4.5 },
+  ],
+  modifierGroups: [
+    {
+      id: 'cheese',
+      name: 'Cheese',
+      minSelections: 1,
+      maxSelections: 1,
+      options: [
+        { id: 'cheddar', name: 'Cheddar', priceDelta: 0, allergens: ['milk'] },
+        { id: 'none', name: 'No cheese', priceDelta: 0 },
+      ],
+    },
+    {
+      id: 'extras',
+      name: 'Extras',
+      minSelections: 0,
+      maxSelections: 2,
+      options: [
+        { id: 'bacon', name: 'Bacon', priceDelta: 2 },
+        { id: 'egg', name: 'Fried egg', priceDelta: 1.3, allergens: ['eggs'] },
+        { id: 'onion', name: 'Onion rings', priceDelta: 1.1 },
+      ],
+    },
+  ],
+};
+
+describe('validateMenuOptions', () => {
+  it('accepts a well-formed item', () => {
+    expect(validateMenuOptions({ ...burger, allergens: ['gluten'], availability: [{ startTime: '07:00', endTime: '11:00' }] } as any)).toBeNull();
+  });
+
+  it('rejects impossible selection limits', () => {
+    const group = { ...burger.modifierGroups![0], minSelections: 3, maxSelections: 3 };
+    expect(validateMenuOptions({ modifierGroups: [group] })).toMatch(/more selections than it has options/);
+    expect(validateMenuOptions({ modifierGroups: [{ ...group, minSelections: 2, maxSelections: 1 }] })).toMatch(/fewer selections/);
+  });
+
+  it('rejects duplicate ids, unknown allergens and bad times', () => {
+    expect(validateMenuOptions({ variants: [burger.variants![0], burger.variants![0]] })).toMatch(/used twice/);
+    expect(validateMenuOptions({ allergens: ['chocolate' as any] })).toMatch(/Unknown allergen/);
+    expect(validateMenuOptions({ availability: [{ startTime: '7am', endTime: '11:00' }] })).toMatch(/HH:mm/);
+  });
+});
+
+describe('priceSelection', () => {
+  it('adds size and modifier deltas and collects allergens', () => {
+    const priced = priceSelection(burger, { variantId: 'double', modifierOptionIds: ['cheddar', 'bacon', 'egg'] });
+    expect(priced.unitPrice).toBe(19.8);
+    expect(priced.variantName).toBe('Double');
+    expect(priced.allergens).toEqual(['gluten', 'eggs', 'milk']);
+    expect(describeSelection(priced)).toBe('Double · Cheddar, Bacon, Fried egg');
+  });
+
+  it('requires a size and the minimum selections', () => {
+    expect(() => priceSelection(burger, { modifierOptionIds: ['cheddar'] })).toThrow(/Choose a size/);
+    expect(() => priceSelection(burger, { variantId: 'single' })).toThrow(/Choose an option for "Cheese"/);
+  });
+
+  it('rejects too many or unknown options', () => {
+    expect(() => priceSelection(burger, { variantId: 'single', modifierOptionIds: ['none', 'bacon', 'egg', 'onion'] })).toThrow(/at most 2/);
+    expect(() => priceSelection(burger, { variantId: 'single', modifierOptionIds: ['none', 'truffle'] })).toThrow(/Unknown option/);
+  });
+
+  it('prices plain items at their base price', () => {
+    expect(priceSelection({ name: 'Soda', price: 2.5 }).unitPrice).toBe(2.5);
+  });
+});
+
+describe('availability', () => {
+  const breakfast = [{ days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] as any, startTime: '07:00', endTime: '11:00' }];
+  const lateNight = [{ days: ['friday'] as any, startTime: '22:00', endTime: '02:00' }];
+
+  it('is always available without windows', () => {
+    expect(isAvailableAt([], 'sunday', '03:00')).toBe(true);
+  });
+
+  it('matches the day and the end-exclusive time range', () => {
+    expect(isAvailableAt(breakfast, 'monday', '07:00')).toBe(true);
+    expect(isAvailableAt(breakfast, 'monday', '11:00')).toBe(false);
+    expect(isAvailableAt(breakfast, 'saturday', '08:00')).toBe(false);
+  });
+
+  it('carries windows past midnight into the next morning', () => {
+    expect(isAvailableAt(lateNight, 'friday', '23:30')).toBe(true);
+    expect(isAvailableAt(lateNight, 'saturday', '01:30')).toBe(true);
+    expect(isAvailableAt(lateNight, 'friday', '01:30')).toBe(false);
+  });
+
+  it('evaluates in the restaurant timezone', () => {
+    // Monday 14:00 UTC is 10:00 in New York
+    const at = new Date('2026-03-16T14:00:00Z');
+    expect(isItemAvailable(breakfast, at, 'America/New_York')).toBe(true);
+    expect(isItemAvailable(breakfast, at, 'UTC')).toBe(false);
+  });
+
+  it('describes windows for guests', () => {
+    expect(describeAvailability(breakfast)).toBe('07:00–11:00 (weekdays)');
+    expect(describeAvailability(lateNight)).toBe('22:00–02:00 (Fri)');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Operations Report Tests
+ *
+ * Tests:
+ * - Range validation and the comparison range
+ * - Covers per service period and turn times by party size
+ * - No-show and cancellation rates
+ * - Table utilisation against service hours
+ * - Delivery order volume
+ *
+ * Run: pnpm test -- operations-report.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildOperationsReport,
+  OUTSIDE_SERVICE,
+  percentChange,
+  previousRange,
+  ReportReservation,
+  serviceMinutes,
+  validateReportRange,
+} from '../lib/operations-report';
+import { ServiceSchedule } from '../lib/service-schedule';
+
+// Lunch 12:00-14:00 and dinner 18:00-22:00 every day
+const periods = [
+  { name: 'Lunch', startTime: '12:00', endTime: '14:00' },
+  { name: 'Dinner', startTime: '18:00', endTime: '22:00' },
+];
+const schedule: ServiceSchedule = {
+  weekly: { monday: periods, tuesday: periods, wednesday: periods, thursday: periods, friday: periods, saturday: periods, sunday: periods },
+  exceptions: [],
+};
+
+const range = { from: '2026-03-02', to: '2026-03-03' };
+const now = new Date('2026-03-10T00:00:00Z');
+
+function booking(overrides: Partial<ReportReservation> = {}): ReportReservation {
+  return {
+    startTime: new Date('2026-03-02T19:00:00Z'),
+    endTime: new Date('2026-03-02T20:30:00Z'),
+    partySize: 2,
+    status: 'confirmed',
+    seatedAt: null,
+    tableId: 't1',
+    combinedTableIds: null,
+    ...overrides,
+  };
+}
+
+describe('ranges', () => {
+  it('validates dates and order', () => {
+    expect(validateReportRange(range)).toBeNull();
+    expect(validateReportRange({ from: '2026-03-05', to: '2026-03-01' })).toMatch(/before the start/);
+    expect(validateReportRange({ from: 'March', to: '2026-03-01' })).toMatch(/yyyy-MM-dd/);
+  });
+
+  it('compares with the preceding range of the same length', () => {
+    expect(previousRange(range)).toEqual({ from: '2026-02-28', to: '2026-03-01' });
+  });
+
+  it('reports relative change, or null without a baseline', () => {
+    expect(percentChange(15, 10)).toBe(0.5);
+    expect(percentChange(5, 0)).toBeNull();
+  });
+});
+
+describe('buildOperationsReport', () => {
+  const report = buildOperationsReport({
+    range,
+    timezone: 'UTC',
+    schedule,
+    tableIds: ['t1', 't2'],
+    now,
+    reservations: [
+      booking({ seatedAt: new Date('2026-03-02T19:10:00Z') }),
+      booking({ startTime: new Date('2026-03-02T12:30:00Z'), endTime: new Date('2026-03-02T13:30:00Z'), partySize: 4, tableId: null, combinedTableIds: ['t1', 't2'] }),
+      booking({ startTime: new Date('2026-03-03T16:00:00Z'), endTime: new Date('2026-03-03T17:00:00Z'), partySize: 1 }),
+      booking({ status: 'noshow', partySize: 6 }),
+      booking({ status: 'cancelled', partySize: 3 }),
+    ],
+    orders: [
+      { createdAt: new Date('2026-03-02T18:00:00Z'), status: 'delivered', total: 30 },
+      { createdAt: new Date('2026-03-03T18:00:00Z'), status: 'pending', total: 20 },
+      { createdAt: new Date('2026-03-03T19:00:00Z'), status: 'cancelled', total: 99 },
+    ],
+  });
+
+  it('counts covers per service, including bookings outside service', () => {
+    expect(report.covers).toBe(7);
+    expect(report.coversByService).toEqual([
+      { service: 'Lunch', reservations: 1, covers: 4 },
+      { service: 'Dinner', reservations: 1, covers: 2 },
+      { service: OUTSIDE_SERVICE, reservations: 1, covers: 1 },
+    ]);
+  });
+
+  it('averages turn time from seating by party size', () => {
+    expect(report.turnTimes).toEqual([
+      { partySize: '1-2', reservations: 2, averageMinutes: 70 },
+      { partySize: '3-4', reservations: 1, averageMinutes: 60 },
+    ]);
+  });
+
+  it('computes no-show and cancellation rates over all bookings', () => {
+    expect(report.reservations).toBe(5);
+    expect(report.noShowRate).toBe(0.2);
+    expect(report.cancellationRate).toBe(0.2);
+  });
+
+  it('measures utilisation against service hours, counting combined tables', () => {
+    expect(serviceMinutes(range, schedule)).toBe(720);
+    // t1: 80 + 60 + 60 minutes, t2: 60 minutes, of 720
+    expect(report.tableUtilisation).toEqual({ t1: 0.278, t2: 0.083 });
+  });
+
+  it('summarises delivery orders, leaving out cancellations', () => {
+    expect(report.delivery).toEqual({
+      orders: 2,
+      cancelled: 1,
+      revenue: 50,
+      averageOrderValue: 25,
+      byDay: [{ date: '2026-03-02', orders: 1 }, { date: '2026-03-03', orders: 1 }],
+    });
+  });
+
+  it('ignores bookings that have not started yet', () => {
+    const upcoming = buildOperationsReport({
+      range, timezone: 'UTC', schedule, tableIds: ['t1'], orders: [],
+      reservations: [booking()],
+      now: new Date('2026-03-02T10:00:00Z'),
+    });
+    expect(upcoming.covers).toBe(0);
+    expect(upcoming.reservations).toBe(1);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Private Events Tests
+ *
+ * Tests:
+ * - Event and deposit schedule validation
+ * - Event windows from local times, including past midnight
+ * - Tables blocked by venue and section buyouts
+ * - Deposit totals and overdue instalments
+ *
+ * Run: pnpm test -- private-events.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  eventBookedWindows,
+  eventTableIds,
+  eventWindow,
+  PrivateEventInput,
+  summarizeDeposits,
+  validateDepositSchedule,
+  validatePrivateEvent,
+} from '../lib/private-events';
+import { coversStartingBetween, occupiedTableIdsBetween } from '../lib/slot-grid';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+function input(overrides: Partial<PrivateEventInput> = {}): PrivateEventInput {
+  return {
+    name: 'Launch party',
+    scope: 'venue',
+    sectionId: null,
+    startTime: new Date('2026-03-14T18:00:00Z'),
+    endTime: new Date('2026-03-14T23:00:00Z'),
+    guestCount: 60,
+    minimumSpend: 500000,
+    depositSchedule: [],
+    contactName: 'Ana Ruiz',
+    contactEmail: 'ana@example.com',
+    ...overrides,
+  };
+}
+
+const tables = [
+  { id: 't1', sectionId: 'main' },
+  { id: 't2', sectionId: 'main' },
+  { id: 't3', sectionId: 'private-room' },
+  { id: 't4', sectionId: null },
+];
+
+describe('validatePrivateEvent', () => {
+  it('accepts a complete event', () => {
+    expect(validatePrivateEvent(input(), now)).toBeNull();
+    expect(validatePrivateEvent(input({ scope: 'section', sectionId: 'private-room' }), now)).toBeNull();
+  });
+
+  it('requires a name, area and contact', () => {
+    expect(validatePrivateEvent(input({ name: '  ' }), now)).toBe('Event name is required');
+    expect(validatePrivateEvent(input({ scope: 'bar' as any }), now)).toBe('Choose a section or the whole venue');
+    expect(validatePrivateEvent(input({ scope: 'section' }), now)).toBe('Choose the section to book');
+    expect(validatePrivateEvent(input({ contactName: '' }), now)).toBe('Contact name is required');
+    expect(validatePrivateEvent(input({ contactEmail: 'ana' }), now)).toBe('Contact email is not a valid email address');
+  });
+
+  it('rejects bad windows', () => {
+    expect(validatePrivateEvent(input({ endTime: new Date('2026-03-14T18:00:00Z') }), now))
+      .toBe('Event must end after it starts');
+    expect(validatePrivateEvent(input({ endTime: new Date('2026-03-15T19:00:00Z') }), now))
+      .toBe('Events can last at most 24 hours');
+    expect(validatePrivateEvent(input(), new Date('2026-03-15T00:00:00Z'))).toBe('Event has already ended');
+  });
+
+  it('rejects bad guest counts and spends', () => {
+    expect(validatePrivateEvent(input({ guestCount: 0 }), now)).toBe('Guest count must be at least 1');
+    expect(validatePrivateEvent(input({ minimumSpend: -1 }), now)).toBe('Minimum spend cannot be negative');
+  });
+
+  it('checks the deposit schedule', () => {
+    expect(validatePrivateEvent(input({ depositSchedule: [{ amount: 0, dueDate: '2026-03-07' }] }), now))
+      .toBe('Deposit amounts must be positive');
+  });
+});
+
+describe('validateDepositSchedule', () => {
+  it('keeps deposits within the minimum spend', () => {
+    const schedule = [{ amount: 200000, dueDate: '2026-03-07' }, { amount: 300000, dueDate: '2026-03-12' }];
+    expect(validateDepositSchedule(schedule, 500000)).toBeNull();
+    expect(validateDepositSchedule(schedule, 400000)).toBe('Deposits cannot add up to more than the minimum spend');
+    expect(validateDepositSchedule(schedule, 0)).toBeNull();
+  });
+
+  it('requires real due dates', () => {
+    expect(validateDepositSchedule([{ amount: 100, dueDate: 'next week' }], 0))
+      .toBe('Deposit due dates must be dates (yyyy-MM-dd)');
+  });
+});
+
+describe('eventWindow', () => {
+  it('converts local times in the restaurant timezone', () => {
+    expect(eventWindow('2026-07-04', '18:00', '22:00', 'America/New_York')).toEqual({
+      startTime: new Date('2026-07-04T22:00:00Z'),
+      endTime: new Date('2026-07-05T02:00:00Z'),
+    });
+  });
+
+  it('runs past midnight when the end is before the start', () => {
+    expect(eventWindow('2026-03-14', '20:00', '02:00', 'UTC')).toEqual({
+      startTime: new Date('2026-03-14T20:00:00Z'),
+      endTime: new Date('2026-03-15T02:00:00Z'),
+    });
+  });
+});
+
+describe('eventTableIds', () => {
+  it('blocks every table for a venue buyout', () => {
+    expect(eventTableIds({ scope: 'venue', sectionId: null }, tables)).toEqual(['t1', 't2', 't3', 't4']);
+  });
+
+  it('blocks the section tables for a section buyout', () => {
+    expect(eventTableIds({ scope: 'section', sectionId: 'private-room' }, tables)).toEqual(['t3']);
+  });
+
+  it('blocks nothing once the section is deleted', () => {
+    expect(eventTableIds({ scope: 'section', sectionId: null }, tables)).toEqual([]);
+  });
+});
+
+describe('eventBookedWindows', () => {
+  const event = {
+    id: 'e1',
+    scope: 'section',
+    sectionId: 'main',
+    startTime: new Date('2026-03-14T18:00:00Z'),
+    endTime: new Date('2026-03-14T23:00:00Z'),
+  };
+
+  it('holds the event tables without counting covers', () => {
+    expect(eventBookedWindows([event], tables)).toEqual([{
+      privateEventId: 'e1',
+      tableId: null,
+      combinedTableIds: ['t1', 't2'],
+      startTime: event.startTime,
+      endTime: event.endTime,
+      partySize: 0,
+    }]);
+  });
+
+  it('occupies the tables for the availability checks', () => {
+    const windows = eventBookedWindows([event], tables);
+    expect(occupiedTableIdsBetween(windows, new Date('2026-03-14T22:00:00Z'), new Date('2026-03-14T23:30:00Z')))
+      .toEqual(new Set(['t1', 't2']));
+    expect(occupiedTableIdsBetween(windows, new Date('2026-03-14T23:00:00Z'), new Date('2026-03-15T00:30:00Z')).size).toBe(0);
+    expect(coversStartingBetween(windows, event.startTime, event.endTime)).toBe(0);
+  });
+
+  it('drops events with no tables', () => {
+    expect(eventBookedWindows([{ ...event, sectionId: 'patio' }], tables)).toEqual([]);
+  });
+});
+
+describe('summarizeDeposits', () => {
+  const schedule = [
+    { amount: 30000, dueDate: '2026-03-12' },
+    { amount: 20000, dueDate: '2026-03-01', paidAt: '2026-02-28T10:00:00Z' },
+    { amount: 10000, dueDate: '2026-03-05' },
+  ];
+
+  it('totals paid and outstanding amounts', () => {
+    const summary = summarizeDeposits(schedule, '2026-03-08');
+    expect(summary.total).toBe(60000);
+    expect(summary.paid).toBe(20000);
+    expect(summary.outstanding).toBe(40000);
+  });
+
+  it('flags unpaid instalments past their due date', () => {
+    const summary = summarizeDeposits(schedule, '2026-03-08');
+    expect(summary.overdue).toEqual([{ amount: 10000, dueDate: '2026-03-05' }]);
+    expect(summary.nextDue).toEqual({ amount: 10000, dueDate: '2026-03-05' });
+  });
+
+  it('is not overdue on the due date', () => {
+    expect(summarizeDeposits(schedule, '2026-03-05').overdue).toEqual([]);
+  });
+});
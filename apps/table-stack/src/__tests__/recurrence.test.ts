@@ -0,0 +1,140 @@
+/**
+ * Recurrence Rule Tests
+ *
+ * Tests:
+ * - Parsing and validating the supported RRULE subset
+ * - Expanding weekly, daily and monthly series
+ * - Exceptions, end dates, COUNT and UNTIL
+ * - Local start times across DST changes
+ *
+ * Run: pnpm test -- recurrence.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  describeRecurrence,
+  expandOccurrences,
+  occurrenceStart,
+  parseRecurrenceRule,
+  validateRecurrenceRule,
+} from '../lib/recurrence';
+
+describe('validateRecurrenceRule', () => {
+  it('accepts the supported subset, with or without the RRULE: prefix', () => {
+    expect(validateRecurrenceRule('FREQ=WEEKLY;BYDAY=FR')).toBeNull();
+    expect(validateRecurrenceRule('RRULE:FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=6')).toBeNull();
+    expect(validateRecurrenceRule('freq=daily;interval=2;until=20261231T235959Z')).toBeNull();
+  });
+
+  it('rejects unsupported or malformed rules', () => {
+    expect(validateRecurrenceRule('')).toMatch(/required/);
+    expect(validateRecurrenceRule('FREQ=YEARLY')).toMatch(/FREQ/);
+    expect(validateRecurrenceRule('FREQ=WEEKLY;BYDAY=XX')).toMatch(/BYDAY/);
+    expect(validateRecurrenceRule('FREQ=MONTHLY;BYDAY=1FR')).toMatch(/BYDAY/);
+    expect(validateRecurrenceRule('FREQ=WEEKLY;BYSETPOS=1')).toMatch(/BYSETPOS/);
+    expect(validateRecurrenceRule('FREQ=WEEKLY;COUNT=3;UNTIL=20261231')).toMatch(/COUNT and UNTIL/);
+    expect(validateRecurrenceRule('FREQ=WEEKLY;UNTIL=20260230')).toMatch(/UNTIL/);
+  });
+
+  it('throws when parsing an invalid rule', () => {
+    expect(() => parseRecurrenceRule('FREQ=HOURLY')).toThrow(/FREQ/);
+  });
+});
+
+describe('expandOccurrences', () => {
+  it('repeats every Friday from the first date', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=FR');
+    expect(expandOccurrences(rule, { firstDate: '2026-10-23' }, '2026-10-01', '2026-11-13')).toEqual([
+      '2026-10-23',
+      '2026-10-30',
+      '2026-11-06',
+      '2026-11-13',
+    ]);
+  });
+
+  it('defaults a weekly rule to the weekday of the first date', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2');
+    expect(expandOccurrences(rule, { firstDate: '2026-10-21' }, '2026-10-21', '2026-11-30')).toEqual([
+      '2026-10-21',
+      '2026-11-04',
+      '2026-11-18',
+    ]);
+  });
+
+  it('handles several weekdays and skips those before the first date', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO,TH');
+    expect(expandOccurrences(rule, { firstDate: '2026-10-21' }, '2026-10-01', '2026-10-31')).toEqual([
+      '2026-10-22',
+      '2026-10-26',
+      '2026-10-29',
+    ]);
+  });
+
+  it('skips exception dates and stops at the end date', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=FR');
+    const anchor = { firstDate: '2026-10-23', exceptionDates: ['2026-10-30'], endDate: '2026-11-10' };
+    expect(expandOccurrences(rule, anchor, '2026-10-01', '2026-12-31')).toEqual(['2026-10-23', '2026-11-06']);
+  });
+
+  it('counts exception dates towards COUNT', () => {
+    const rule = parseRecurrenceRule('FREQ=DAILY;COUNT=3');
+    const anchor = { firstDate: '2026-10-20', exceptionDates: ['2026-10-21'] };
+    expect(expandOccurrences(rule, anchor, '2026-10-01', '2026-12-31')).toEqual(['2026-10-20', '2026-10-22']);
+  });
+
+  it('applies COUNT from the first date even when the window starts later', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;COUNT=4');
+    expect(expandOccurrences(rule, { firstDate: '2026-10-23' }, '2026-11-01', '2026-12-31')).toEqual([
+      '2026-11-06',
+      '2026-11-13',
+    ]);
+  });
+
+  it('stops at UNTIL', () => {
+    const rule = parseRecurrenceRule('FREQ=DAILY;INTERVAL=3;UNTIL=20261101');
+    expect(expandOccurrences(rule, { firstDate: '2026-10-24' }, '2026-10-01', '2026-12-31')).toEqual([
+      '2026-10-24',
+      '2026-10-27',
+      '2026-10-30',
+    ]);
+  });
+
+  it('skips monthly dates the month does not have and counts back from month end', () => {
+    const onThe31st = parseRecurrenceRule('FREQ=MONTHLY');
+    expect(expandOccurrences(onThe31st, { firstDate: '2026-10-31' }, '2026-10-01', '2027-01-31')).toEqual([
+      '2026-10-31',
+      '2026-12-31',
+      '2027-01-31',
+    ]);
+
+    const lastDay = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1');
+    expect(expandOccurrences(lastDay, { firstDate: '2026-11-01' }, '2026-11-01', '2027-02-28')).toEqual([
+      '2026-11-30',
+      '2026-12-31',
+      '2027-01-31',
+      '2027-02-28',
+    ]);
+  });
+
+  it('returns nothing when the window is before the series', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY');
+    expect(expandOccurrences(rule, { firstDate: '2026-12-04' }, '2026-10-01', '2026-11-30')).toEqual([]);
+  });
+});
+
+describe('occurrenceStart', () => {
+  it('keeps the local time across a DST change', () => {
+    expect(occurrenceStart('2026-10-23', '19:00', 'Europe/London').toISOString()).toBe('2026-10-23T18:00:00.000Z');
+    expect(occurrenceStart('2026-10-30', '19:00', 'Europe/London').toISOString()).toBe('2026-10-30T19:00:00.000Z');
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('describes common schedules', () => {
+    expect(describeRecurrence(parseRecurrenceRule('FREQ=WEEKLY;BYDAY=FR'), '2026-10-23')).toBe('Every Friday');
+    expect(describeRecurrence(parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'), '2026-10-22'))
+      .toBe('Every 2 weeks on Monday, Thursday');
+    expect(describeRecurrence(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=6'), '2026-10-31'))
+      .toBe('Every month on the last day, 6 times');
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Guest Reliability Tests
+ *
+ * Tests:
+ * - Smoothed reliability score
+ * - No-show deposit policy
+ *
+ * Run: pnpm test -- reliability.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { reliabilityScore, requiredDeposit } from '../lib/reliability';
+
+describe('reliabilityScore', () => {
+  it('starts new guests at 100', () => {
+    expect(reliabilityScore({ seatedCount: 0, noShowCount: 0 })).toBe(100);
+    expect(reliabilityScore({ seatedCount: null, noShowCount: null })).toBe(100);
+  });
+
+  it('does not collapse after a single no-show', () => {
+    expect(reliabilityScore({ seatedCount: 0, noShowCount: 1 })).toBe(67);
+  });
+
+  it('approaches the honoured share as history grows', () => {
+    expect(reliabilityScore({ seatedCount: 18, noShowCount: 2 })).toBe(91);
+    expect(reliabilityScore({ seatedCount: 0, noShowCount: 8 })).toBe(20);
+  });
+});
+
+describe('requiredDeposit', () => {
+  const policy = { noShowThreshold: 2, amount: 2500 };
+
+  it('requires the deposit once the threshold is reached', () => {
+    expect(requiredDeposit(policy, { seatedCount: 5, noShowCount: 1 })).toBe(0);
+    expect(requiredDeposit(policy, { seatedCount: 5, noShowCount: 2 })).toBe(2500);
+  });
+
+  it('never requires a deposit when the policy is off or the guest is new', () => {
+    expect(requiredDeposit({ noShowThreshold: null, amount: 2500 }, { seatedCount: 0, noShowCount: 9 })).toBe(0);
+    expect(requiredDeposit({ noShowThreshold: 2, amount: 0 }, { seatedCount: 0, noShowCount: 9 })).toBe(0);
+    expect(requiredDeposit(policy, null)).toBe(0);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Reservation Import/Export Format Tests
+ *
+ * Tests:
+ * - CSV parsing (quoting, header aliases, local times, row errors)
+ * - iCalendar parsing (folding, TZID, ATTENDEE, party size fallbacks)
+ * - Table, capacity, conflict and duplicate checks
+ * - Export round trips for CSV and iCalendar
+ *
+ * Run: pnpm test -- reservation-formats.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkImportRows,
+  ExportableReservation,
+  ImportRow,
+  parseCsv,
+  reservationsToCsv,
+  reservationsToIcs,
+  rowsFromCsv,
+  rowsFromIcs,
+  toCsv,
+} from '../lib/reservation-formats';
+
+const TZ = 'America/New_York';
+
+const tables = [
+  { id: 't1', tableNumber: '1', maxCapacity: 2 },
+  { id: 't2', tableNumber: '2', maxCapacity: 4 },
+  { id: 't3', tableNumber: '3', maxCapacity: 4 },
+];
+
+function row(overrides: Partial<ImportRow> = {}): ImportRow {
+  return {
+    line: 2,
+    externalId: null,
+    guestName: 'Ada Lovelace',
+    guestEmail: 'ada@example.com',
+    partySize: 2,
+    startTime: new Date('2026-11-06T23:00:00Z'),
+    endTime: null,
+    tableNumber: '2',
+    status: 'confirmed',
+    ...overrides,
+  };
+}
+
+describe('parseCsv', () => {
+  it('handles quoted commas, doubled quotes, line breaks and CRLF', () => {
+    const text = '﻿name,notes\r\n"Smith, Jo","said ""hi""\nthen left"\r\n\r\nBo,\r\n';
+    expect(parseCsv(text)).toEqual([
+      ['name', 'notes'],
+      ['Smith, Jo', 'said "hi"\nthen left'],
+      ['Bo', ''],
+    ]);
+  });
+
+  it('escapes cells and neutralises spreadsheet formulas', () => {
+    expect(toCsv([['a,b', 'say "x"', '=SUM(A1)', 4, null]])).toBe('"a,b","say ""x""",\'=SUM(A1),4,\r\n');
+  });
+});
+
+describe('rowsFromCsv', () => {
+  it('matches header aliases and reads local times in the restaurant timezone', () => {
+    const csv = [
+      'Customer,E-mail,Covers,Date,Time,Table No,Status',
+      'Grace Hopper,GRACE@example.com,4,2026-11-06,19:00,#2,Completed',
+      'Alan Turing,alan@example.com,2,2026-11-06,7:30,,Canceled',
+    ].join('\n');
+
+    const { rows, issues } = rowsFromCsv(csv, TZ);
+    expect(issues).toEqual([]);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      line: 2,
+      guestName: 'Grace Hopper',
+      guestEmail: 'grace@example.com',
+      partySize: 4,
+      tableNumber: '2',
+      status: 'confirmed',
+    });
+    expect(rows[0].startTime.toISOString()).toBe('2026-11-07T00:00:00.000Z');
+    expect(rows[1]).toMatchObject({ tableNumber: null, status: 'cancelled' });
+    expect(rows[1].startTime.toISOString()).toBe('2026-11-06T12:30:00.000Z');
+  });
+
+  it('keeps explicit offsets', () => {
+    const csv = 'name,email,party,start\nAda,ada@example.com,2,2026-11-06T19:00:00Z';
+    expect(rowsFromCsv(csv, TZ).rows[0].startTime.toISOString()).toBe('2026-11-06T19:00:00.000Z');
+  });
+
+  it('reports bad rows by line and keeps the good ones', () => {
+    const csv = [
+      'name,email,party,start,status',
+      'Ada,ada@example.com,2,2026-11-06 19:00,',
+      ',nobody,0,tomorrow,maybe',
+    ].join('\n');
+
+    const { rows, issues } = rowsFromCsv(csv, TZ);
+    expect(rows).toHaveLength(1);
+    expect(issues.map(i => i.line)).toEqual([3, 3, 3, 3, 3]);
+    expect(issues.every(i => i.kind === 'invalid')).toBe(true);
+  });
+
+  it('rejects a file without the required columns', () => {
+    const { rows, issues } = rowsFromCsv('name,phone\nAda,555', TZ);
+    expect(rows).toEqual([]);
+    expect(issues[0].message).toMatch(/header/);
+  });
+});
+
+describe('rowsFromIcs', () => {
+  it('reads events with TZID, folded lines, attendees and summary fallbacks', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'UID:abc-123',
+      'DTSTART;TZID=Europe/London:20261106T190000',
+      'DURATION:PT2H',
+      'SUMMARY:Dinner - party of 3',
+      'ATTENDEE;CN="Hopper, Grace":mailto:grace@example.com',
+      'LOCATION:Main room\\, Table 3',
+      'DESCRIPTION:Window seat please and a very long note that continues on the',
+      '  next line',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261107',
+      'SUMMARY:Staff party',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    const { rows, issues } = rowsFromIcs(ics, TZ);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      externalId: 'abc-123',
+      guestName: 'Hopper, Grace',
+      guestEmail: 'grace@example.com',
+      partySize: 3,
+      tableNumber: '3',
+      status: 'confirmed',
+    });
+    expect(rows[0].startTime.toISOString()).toBe('2026-11-06T19:00:00.000Z');
+    expect(rows[0].endTime?.toISOString()).toBe('2026-11-06T21:00:00.000Z');
+    expect(issues).toEqual([{ line: 2, kind: 'invalid', message: 'All-day events have no start time' }]);
+  });
+
+  it('reports a calendar without events', () => {
+    expect(rowsFromIcs('BEGIN:VCALENDAR\r\nEND:VCALENDAR', TZ).issues[0].message).toMatch(/No events/);
+  });
+});
+
+describe('checkImportRows', () => {
+  it('assigns tables and fills in the default duration', () => {
+    const { accepted, issues } = checkImportRows([row()], tables, [], 90);
+    expect(issues).toEqual([]);
+    expect(accepted[0].tableId).toBe('t2');
+    expect(accepted[0].endTime.toISOString()).toBe('2026-11-07T00:30:00.000Z');
+  });
+
+  it('rejects unknown tables and parties that do not fit', () => {
+    const { accepted, issues } = checkImportRows(
+      [row({ line: 2, tableNumber: '9' }), row({ line: 3, tableNumber: '1', partySize: 4 })],
+      tables,
+      [],
+      90
+    );
+    expect(accepted).toEqual([]);
+    expect(issues.map(i => i.message)).toEqual([
+      'Table 9 does not exist',
+      'Party of 4 does not fit table 1 (seats 2)',
+    ]);
+  });
+
+  it('accepts combined tables against their total seats', () => {
+    const { accepted } = checkImportRows([row({ tableNumber: '2+3', partySize: 8 })], tables, [], 90);
+    expect(accepted[0]).toMatchObject({ tableId: null, combinedTableIds: ['t2', 't3'] });
+  });
+
+  it('flags conflicts with existing bookings and within the file', () => {
+    const existing = [{
+      tableId: null,
+      combinedTableIds: ['t2', 't3'],
+      startTime: new Date('2026-11-06T22:30:00Z'),
+      endTime: new Date('2026-11-06T23:30:00Z'),
+      partySize: 6,
+      guestEmail: 'other@example.com',
+    }];
+    const rows = [
+      row({ line: 2 }),
+      row({ line: 3, tableNumber: '1', guestEmail: 'a@example.com', startTime: new Date('2026-11-07T01:00:00Z') }),
+      row({ line: 4, tableNumber: '1', guestEmail: 'b@example.com', startTime: new Date('2026-11-07T02:00:00Z') }),
+      row({ line: 5, tableNumber: '1', guestEmail: 'c@example.com', startTime: new Date('2026-11-07T02:00:00Z'), status: 'cancelled' }),
+    ];
+
+    const { accepted, issues } = checkImportRows(rows, tables, existing, 90);
+    expect(accepted.map(r => r.line)).toEqual([3, 5]);
+    expect(issues.map(i => [i.line, i.kind])).toEqual([[2, 'conflict'], [4, 'conflict']]);
+  });
+
+  it('treats holds and private events as taken tables', () => {
+    const existing = [{
+      tableId: null,
+      combinedTableIds: ['t1', 't2'],
+      startTime: new Date('2026-11-06T22:00:00Z'),
+      endTime: new Date('2026-11-07T03:00:00Z'),
+      partySize: 0,
+      guestEmail: null,
+    }];
+    const { accepted, issues } = checkImportRows([row(), row({ line: 3, tableNumber: null })], tables, existing, 90);
+    expect(accepted.map(r => r.line)).toEqual([3]);
+    expect(issues.map(i => [i.line, i.kind])).toEqual([[2, 'conflict']]);
+  });
+
+  it('skips rows already booked so a file can be imported twice', () => {
+    const existing = [{
+      tableId: 't2',
+      combinedTableIds: null,
+      startTime: new Date('2026-11-06T23:00:00Z'),
+      endTime: new Date('2026-11-07T00:30:00Z'),
+      partySize: 2,
+      guestEmail: 'ADA@example.com',
+    }];
+    const { accepted, issues } = checkImportRows([row(), row({ line: 3, tableNumber: null })], tables, existing, 90);
+    expect(accepted).toEqual([]);
+    expect(issues.map(i => i.kind)).toEqual(['duplicate', 'duplicate']);
+  });
+});
+
+describe('export round trip', () => {
+  const reservations: ExportableReservation[] = [
+    {
+      id: 'r1',
+      guestName: 'Smith, Jo',
+      guestEmail: 'jo@example.com',
+      partySize: 6,
+      startTime: new Date('2026-11-06T23:00:00Z'),
+      endTime: new Date('2026-11-07T01:00:00Z'),
+      status: 'noshow',
+      tableNumber: '2+3',
+    },
+    {
+      id: 'r2',
+      guestName: 'Ada Lovelace',
+      guestEmail: 'ada@example.com',
+      partySize: 2,
+      startTime: new Date('2026-11-07T00:00:00Z'),
+      endTime: new Date('2026-11-07T01:30:00Z'),
+      status: 'cancelled',
+      tableNumber: null,
+    },
+  ];
+
+  const expected = [
+    { externalId: 'r1', guestName: 'Smith, Jo', partySize: 6, tableNumber: '2+3', status: 'noshow' },
+    { externalId: 'r2', guestName: 'Ada Lovelace', partySize: 2, tableNumber: null, status: 'cancelled' },
+  ];
+
+  it('imports its own CSV export', () => {
+    const { rows, issues } = rowsFromCsv(reservationsToCsv(reservations), TZ);
+    expect(issues).toEqual([]);
+    expect(rows).toMatchObject(expected);
+    expect(rows[0].endTime?.toISOString()).toBe('2026-11-07T01:00:00.000Z');
+  });
+
+  it('imports its own iCalendar export', () => {
+    const ics = reservationsToIcs(reservations, { name: 'Bistro', slug: 'bistro' }, new Date('2026-10-18T00:00:00Z'));
+    expect(ics.split('\r\n').every(line => line.length <= 75)).toBe(true);
+
+    const { rows, issues } = rowsFromIcs(ics, TZ);
+    expect(issues).toEqual([]);
+    expect(rows).toMatchObject(expected.map(e => ({ ...e, externalId: `${e.externalId}@bistro` })));
+    expect(rows[1].startTime.toISOString()).toBe('2026-11-07T00:00:00.000Z');
+  });
+});
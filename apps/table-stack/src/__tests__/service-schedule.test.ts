@@ -0,0 +1,122 @@
+/**
+ * Service Schedule Tests
+ *
+ * Tests:
+ * - Legacy opening/closing fallback
+ * - Split services and dated exceptions
+ * - Timezone-aware open checks
+ * - End of the current shift
+ * - Period validation
+ *
+ * Run: pnpm test -- service-schedule.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isOpenAt,
+  servicePeriodsForDate,
+  ServiceSchedule,
+  shiftEndAfter,
+  validateServicePeriods,
+  weeklyScheduleFor,
+} from '../lib/service-schedule';
+
+const lunch = { name: 'Lunch', startTime: '11:30', endTime: '14:00' };
+const dinner = { name: 'Dinner', startTime: '17:30', endTime: '22:00' };
+
+// 2026-03-10 is a Tuesday, 2026-03-15 a Sunday
+const schedule: ServiceSchedule = {
+  weekly: {
+    tuesday: [lunch, dinner],
+    sunday: [lunch],
+  },
+  exceptions: [
+    { date: '2026-12-25', isClosed: true, reason: 'Christmas Day' },
+    { date: '2026-03-15', isClosed: false, periods: [{ startTime: '10:00', endTime: '15:00' }] },
+  ],
+};
+
+describe('weeklyScheduleFor', () => {
+  it('derives one period per open day from legacy fields', () => {
+    const weekly = weeklyScheduleFor({
+      openingTime: '09:00',
+      closingTime: '21:00',
+      daysOpen: 'monday, friday',
+    });
+
+    expect(weekly).toEqual({
+      monday: [{ startTime: '09:00', endTime: '21:00' }],
+      friday: [{ startTime: '09:00', endTime: '21:00' }],
+    });
+  });
+
+  it('prefers the structured schedule when present', () => {
+    const weekly = weeklyScheduleFor({
+      openingTime: '09:00',
+      closingTime: '21:00',
+      daysOpen: 'monday',
+      serviceSchedule: { tuesday: [dinner] },
+    });
+
+    expect(weekly).toEqual({ tuesday: [dinner] });
+  });
+});
+
+describe('servicePeriodsForDate', () => {
+  it('returns the weekday periods', () => {
+    expect(servicePeriodsForDate('2026-03-10', schedule)).toEqual([lunch, dinner]);
+    expect(servicePeriodsForDate('2026-03-11', schedule)).toEqual([]);
+  });
+
+  it('applies closures and special hours', () => {
+    expect(servicePeriodsForDate('2026-12-25', schedule)).toEqual([]);
+    expect(servicePeriodsForDate('2026-03-15', schedule)).toEqual([{ startTime: '10:00', endTime: '15:00' }]);
+  });
+});
+
+describe('isOpenAt', () => {
+  it('rejects times between split services', () => {
+    expect(isOpenAt(new Date('2026-03-10T12:00:00Z'), 'UTC', schedule)).toBe(true);
+    expect(isOpenAt(new Date('2026-03-10T15:30:00Z'), 'UTC', schedule)).toBe(false);
+    expect(isOpenAt(new Date('2026-03-10T22:00:00Z'), 'UTC', schedule)).toBe(true);
+  });
+
+  it('evaluates the instant in the restaurant timezone', () => {
+    // 01:00 UTC Wednesday is 21:00 Tuesday in New York (EDT)
+    expect(isOpenAt(new Date('2026-06-10T01:00:00Z'), 'America/New_York', {
+      weekly: { tuesday: [dinner] },
+      exceptions: [],
+    })).toBe(true);
+  });
+});
+
+describe('shiftEndAfter', () => {
+  it('ends the current period, or the next one that day', () => {
+    expect(shiftEndAfter(new Date('2026-03-10T12:00:00Z'), 'UTC', schedule)).toEqual(new Date('2026-03-10T14:00:00Z'));
+    expect(shiftEndAfter(new Date('2026-03-10T15:30:00Z'), 'UTC', schedule)).toEqual(new Date('2026-03-10T22:00:00Z'));
+  });
+
+  it('returns null once service is over for the day', () => {
+    expect(shiftEndAfter(new Date('2026-03-10T23:00:00Z'), 'UTC', schedule)).toBeNull();
+    expect(shiftEndAfter(new Date('2026-03-11T12:00:00Z'), 'UTC', schedule)).toBeNull();
+  });
+
+  it('converts the end back from the restaurant timezone', () => {
+    expect(shiftEndAfter(new Date('2026-06-10T01:00:00Z'), 'America/New_York', {
+      weekly: { tuesday: [dinner] },
+      exceptions: [],
+    })).toEqual(new Date('2026-06-10T02:00:00Z'));
+  });
+});
+
+describe('validateServicePeriods', () => {
+  it('accepts non-overlapping periods', () => {
+    expect(validateServicePeriods([dinner, lunch])).toBeNull();
+  });
+
+  it('rejects malformed, inverted and overlapping periods', () => {
+    expect(validateServicePeriods([{ startTime: '25:00', endTime: '26:00' }])).toMatch(/Invalid time/);
+    expect(validateServicePeriods([{ startTime: '14:00', endTime: '11:00' }])).toMatch(/start before/);
+    expect(validateServicePeriods([lunch, { startTime: '13:00', endTime: '15:00' }])).toMatch(/overlap/);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Slot Grid & Cover Pacing Tests
+ *
+ * Tests:
+ * - Slot generation in the restaurant's timezone
+ * - Per-slot table occupancy
+ * - Cover pacing windows
+ * - Refusing bookings for taken tables or pacing
+ *
+ * Run: pnpm test -- slot-grid.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BookedWindow,
+  bookingRefusal,
+  coversStartingBetween,
+  exceedsCoverPacing,
+  generateServiceSlots,
+  isSlotInterval,
+  occupiedTableIdsBetween,
+  pacingWindowFor,
+} from '../lib/slot-grid';
+
+const at = (iso: string) => new Date(iso);
+
+const booking = (start: string, end: string, partySize: number, tableId: string | null, combinedTableIds: string[] | null = null): BookedWindow => ({
+  tableId,
+  combinedTableIds,
+  startTime: at(start),
+  endTime: at(end),
+  partySize,
+});
+
+describe('generateServiceSlots', () => {
+  it('generates slots between opening and closing inclusive', () => {
+    const slots = generateServiceSlots('2026-03-10', '17:00', '18:00', 15, 'UTC');
+
+    expect(slots.map(s => s.toISOString())).toEqual([
+      '2026-03-10T17:00:00.000Z',
+      '2026-03-10T17:15:00.000Z',
+      '2026-03-10T17:30:00.000Z',
+      '2026-03-10T17:45:00.000Z',
+      '2026-03-10T18:00:00.000Z',
+    ]);
+  });
+
+  it('interprets times in the restaurant timezone', () => {
+    const slots = generateServiceSlots('2026-07-01', '19:00', '19:30', 30, 'America/New_York');
+
+    expect(slots.map(s => s.toISOString())).toEqual([
+      '2026-07-01T23:00:00.000Z',
+      '2026-07-01T23:30:00.000Z',
+    ]);
+  });
+
+  it('only accepts supported intervals', () => {
+    expect(isSlotInterval(15)).toBe(true);
+    expect(isSlotInterval(30)).toBe(true);
+    expect(isSlotInterval(20)).toBe(false);
+  });
+});
+
+describe('occupiedTableIdsBetween', () => {
+  const bookings = [
+    booking('2026-03-10T18:00:00Z', '2026-03-10T19:30:00Z', 2, 't1'),
+    booking('2026-03-10T19:00:00Z', '2026-03-10T20:30:00Z', 8, null, ['t2', 't3']),
+  ];
+
+  it('includes single and combined tables that overlap the window', () => {
+    const occupied = occupiedTableIdsBetween(bookings, at('2026-03-10T19:15:00Z'), at('2026-03-10T20:45:00Z'));
+    expect(occupied).toEqual(new Set(['t1', 't2', 't3']));
+  });
+
+  it('treats back-to-back bookings as free', () => {
+    const occupied = occupiedTableIdsBetween(bookings, at('2026-03-10T19:30:00Z'), at('2026-03-10T21:00:00Z'));
+    expect(occupied).toEqual(new Set(['t2', 't3']));
+  });
+});
+
+describe('cover pacing', () => {
+  const bookings = [
+    booking('2026-03-10T19:00:00Z', '2026-03-10T20:30:00Z', 8, 't1'),
+    booking('2026-03-10T19:10:00Z', '2026-03-10T20:40:00Z', 10, 't2'),
+    booking('2026-03-10T19:15:00Z', '2026-03-10T20:45:00Z', 6, 't3'),
+  ];
+
+  it('aligns pacing windows', () => {
+    const window = pacingWindowFor(at('2026-03-10T19:07:00Z'), 15);
+    expect(window.start.toISOString()).toBe('2026-03-10T19:00:00.000Z');
+    expect(window.end.toISOString()).toBe('2026-03-10T19:15:00.000Z');
+  });
+
+  it('counts covers starting within a window', () => {
+    expect(coversStartingBetween(bookings, at('2026-03-10T19:00:00Z'), at('2026-03-10T19:15:00Z'))).toBe(18);
+  });
+
+  it('rejects bookings that would exceed the limit', () => {
+    const policy = { maxCovers: 20, windowMinutes: 15 };
+
+    expect(exceedsCoverPacing(bookings, at('2026-03-10T19:05:00Z'), 2, policy)).toBe(false);
+    expect(exceedsCoverPacing(bookings, at('2026-03-10T19:05:00Z'), 3, policy)).toBe(true);
+    expect(exceedsCoverPacing(bookings, at('2026-03-10T19:15:00Z'), 4, policy)).toBe(false);
+  });
+
+  it('never paces when no limit is configured', () => {
+    expect(exceedsCoverPacing(bookings, at('2026-03-10T19:05:00Z'), 50, { maxCovers: null, windowMinutes: 15 })).toBe(false);
+  });
+});
+
+describe('bookingRefusal', () => {
+  const bookings = [
+    booking('2026-03-10T19:00:00Z', '2026-03-10T20:30:00Z', 8, 't1'),
+    booking('2026-03-10T19:10:00Z', '2026-03-10T20:40:00Z', 10, null, ['t2', 't3']),
+  ];
+  const policy = { maxCovers: 20, windowMinutes: 15 };
+
+  it('accepts free tables within the pacing limit', () => {
+    expect(bookingRefusal(bookings, ['t4'], at('2026-03-10T19:05:00Z'), at('2026-03-10T20:35:00Z'), 2, policy)).toBeNull();
+  });
+
+  it('reports the tables taken by overlapping bookings', () => {
+    expect(bookingRefusal(bookings, ['t3', 't4'], at('2026-03-10T19:05:00Z'), at('2026-03-10T20:35:00Z'), 2, policy))
+      .toEqual({ conflicts: ['t3'] });
+  });
+
+  it('lets a booking start as the one before it ends', () => {
+    expect(bookingRefusal(bookings, ['t1'], at('2026-03-10T20:30:00Z'), at('2026-03-10T22:00:00Z'), 2, policy)).toBeNull();
+  });
+
+  it('refuses a party that would exceed the pacing limit', () => {
+    expect(bookingRefusal(bookings, ['t4'], at('2026-03-10T19:05:00Z'), at('2026-03-10T20:35:00Z'), 3, policy))
+      .toEqual({ paced: true });
+  });
+
+  it('reports conflicts before pacing', () => {
+    expect(bookingRefusal(bookings, ['t1'], at('2026-03-10T19:05:00Z'), at('2026-03-10T20:35:00Z'), 3, policy))
+      .toEqual({ conflicts: ['t1'] });
+  });
+
+  it('skips pacing without a policy', () => {
+    expect(bookingRefusal(bookings, ['t4'], at('2026-03-10T19:05:00Z'), at('2026-03-10T20:35:00Z'), 50, null)).toBeNull();
+  });
+});
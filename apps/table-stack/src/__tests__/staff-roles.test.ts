@@ -0,0 +1,84 @@
+/**
+ * Staff Roles Tests
+ *
+ * Tests:
+ * - Role permissions (hosts seat tables but cannot touch API keys or payouts)
+ * - Picking the strongest of several memberships
+ * - Which roles owners and managers may hand out or change
+ * - Invite validation
+ *
+ * Run: pnpm test -- staff-roles.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  assignableRoles,
+  can,
+  canManageMember,
+  strongestRole,
+  validateStaffInvite,
+} from '../lib/staff-roles';
+
+describe('can', () => {
+  it('lets hosts run the floor but not the back office', () => {
+    expect(can('host', 'floor:operate')).toBe(true);
+    expect(can('host', 'reservations:manage')).toBe(true);
+    expect(can('host', 'api-keys:manage')).toBe(false);
+    expect(can('host', 'billing:manage')).toBe(false);
+    expect(can('host', 'floor:edit')).toBe(false);
+  });
+
+  it('lets kitchen staff update stock and see bookings only', () => {
+    expect(can('kitchen', 'menu:stock')).toBe(true);
+    expect(can('kitchen', 'reservations:view')).toBe(true);
+    expect(can('kitchen', 'reservations:manage')).toBe(false);
+    expect(can('kitchen', 'menu:manage')).toBe(false);
+  });
+
+  it('keeps payouts and API keys with owners', () => {
+    expect(can('manager', 'settings:manage')).toBe(true);
+    expect(can('manager', 'billing:manage')).toBe(false);
+    expect(can('manager', 'api-keys:manage')).toBe(false);
+    expect(can('owner', 'api-keys:manage')).toBe(true);
+  });
+
+  it('denies users without a role', () => {
+    expect(can(null, 'dashboard:view')).toBe(false);
+    expect(can(undefined, 'reservations:view')).toBe(false);
+  });
+});
+
+describe('strongestRole', () => {
+  it('picks the most capable membership', () => {
+    expect(strongestRole(['kitchen', 'manager', 'host'])).toBe('manager');
+    expect(strongestRole([null, 'host'])).toBe('host');
+    expect(strongestRole([])).toBeNull();
+  });
+});
+
+describe('assigning roles', () => {
+  it('lets managers appoint hosts and kitchen staff only', () => {
+    expect(assignableRoles('owner')).toEqual(['owner', 'manager', 'host', 'kitchen']);
+    expect(assignableRoles('manager')).toEqual(['host', 'kitchen']);
+    expect(assignableRoles('host')).toEqual([]);
+  });
+
+  it('stops managers promoting staff or touching other managers', () => {
+    expect(canManageMember('manager', 'host', 'kitchen')).toBe(true);
+    expect(canManageMember('manager', 'host', 'manager')).toBe(false);
+    expect(canManageMember('manager', 'manager')).toBe(false);
+    expect(canManageMember('owner', 'manager', 'host')).toBe(true);
+  });
+});
+
+describe('validateStaffInvite', () => {
+  it('accepts a valid invite', () => {
+    expect(validateStaffInvite({ email: ' Sam@Example.com ', role: 'host' }, 'manager')).toBeNull();
+  });
+
+  it('rejects bad emails, unknown roles and roles above the inviter', () => {
+    expect(validateStaffInvite({ email: 'sam', role: 'host' }, 'owner')).toMatch(/valid email/);
+    expect(validateStaffInvite({ email: 'sam@example.com', role: 'chef' }, 'owner')).toBe('Unknown role');
+    expect(validateStaffInvite({ email: 'sam@example.com', role: 'owner' }, 'manager')).toMatch(/cannot invite/);
+  });
+});
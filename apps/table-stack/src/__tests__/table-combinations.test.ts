@@ -0,0 +1,231 @@
+/**
+ * Table Combination Engine Tests
+ *
+ * Tests:
+ * - Adjacency graph construction (declared edges and proximity fallback)
+ * - N-table combination search and ranking
+ * - Validation of caller-supplied combinations
+ * - Which tables a party can be offered, now and later
+ * - Picking the option to book
+ * - Keeping tables when a reservation is modified
+ * - Reassigning tables to a moved reservation
+ *
+ * Run: pnpm test -- table-combinations.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildAdjacencyGraph,
+  findTableCombinations,
+  validateTableCombination,
+  canKeepTables,
+  parseCombinationId,
+  pickBestTables,
+  reassignedTables,
+  selectTablesForParty,
+  tableIdsOf,
+  CombinableTable,
+} from '../lib/table-combinations';
+
+// A row of four-tops (t1..t3) with a two-top (t4) at the end, plus an
+// isolated six-top (t5) that cannot be joined with anything.
+const tables: CombinableTable[] = [
+  { id: 't1', tableNumber: '1', maxCapacity: 4, combinableWith: ['t2'] },
+  { id: 't2', tableNumber: '2', maxCapacity: 4, combinableWith: ['t3'] },
+  { id: 't3', tableNumber: '3', maxCapacity: 4, combinableWith: ['t4'] },
+  { id: 't4', tableNumber: '4', maxCapacity: 2, combinableWith: [] },
+  { id: 't5', tableNumber: '5', maxCapacity: 6, combinableWith: [] },
+];
+
+describe('buildAdjacencyGraph', () => {
+  it('treats declared edges as undirected', () => {
+    const graph = buildAdjacencyGraph(tables);
+
+    expect(graph.get('t2')).toEqual(new Set(['t1', 't3']));
+    expect(graph.get('t4')).toEqual(new Set(['t3']));
+    expect(graph.get('t5')!.size).toBe(0);
+  });
+
+  it('falls back to floor plan proximity when no edges are declared', () => {
+    const graph = buildAdjacencyGraph([
+      { id: 'a', tableNumber: 'A', maxCapacity: 2, xPos: 0, yPos: 0 },
+      { id: 'b', tableNumber: 'B', maxCapacity: 2, xPos: 100, yPos: 0 },
+      { id: 'c', tableNumber: 'C', maxCapacity: 2, xPos: 400, yPos: 0 },
+    ]);
+
+    expect(graph.get('a')).toEqual(new Set(['b']));
+    expect(graph.get('c')!.size).toBe(0);
+  });
+});
+
+describe('findTableCombinations', () => {
+  it('finds three-table combinations and ranks them by wasted seats', () => {
+    const graph = buildAdjacencyGraph(tables);
+    const combinations = findTableCombinations(tables, 10, graph);
+
+    // t1+t2+t3+t4 also seats 10 but is not minimal, so it is never suggested
+    expect(combinations.map(c => c.id)).toEqual(['t2+t3+t4', 't1+t2+t3']);
+    expect(combinations[0]).toMatchObject({
+      tableNumber: '2+3+4',
+      combinedTableIds: ['t2', 't3', 't4'],
+      maxCapacity: 10,
+      wastedSeats: 0,
+      isCombined: true,
+    });
+  });
+
+  it('only returns minimal groups', () => {
+    const graph = buildAdjacencyGraph(tables);
+    const combinations = findTableCombinations(tables, 6, graph);
+
+    expect(combinations.map(c => c.id)).toEqual(['t3+t4', 't1+t2', 't2+t3']);
+  });
+
+  it('skips tables that are not candidates', () => {
+    const graph = buildAdjacencyGraph(tables);
+    const withoutT2 = tables.filter(t => t.id !== 't2');
+
+    expect(findTableCombinations(withoutT2, 8, graph)).toEqual([]);
+  });
+
+  it('respects the maximum number of tables', () => {
+    const graph = buildAdjacencyGraph(tables);
+
+    expect(findTableCombinations(tables, 10, graph, { maxTables: 2 })).toEqual([]);
+  });
+});
+
+describe('validateTableCombination', () => {
+  it('accepts a connected group with enough seats', () => {
+    expect(validateTableCombination(tables, ['t1', 't2', 't3'], 12)).toEqual({ valid: true });
+  });
+
+  it('rejects tables that are not adjacent', () => {
+    const result = validateTableCombination(tables, ['t1', 't3'], 8);
+    expect(result.valid).toBe(false);
+    expect(result.error).toMatch(/adjacent/);
+  });
+
+  it('rejects groups that are too small for the party', () => {
+    expect(validateTableCombination(tables, ['t3', 't4'], 8).valid).toBe(false);
+  });
+
+  it('rejects unknown tables and single-table combinations', () => {
+    expect(validateTableCombination(tables, ['t1', 'missing'], 2).error).toMatch(/Unknown/);
+    expect(validateTableCombination(tables, ['t1', 't1'], 2).valid).toBe(false);
+  });
+});
+
+describe('selectTablesForParty', () => {
+  const floor = [
+    { id: 'a', tableNumber: 'A', maxCapacity: 4, status: 'seated' },
+    { id: 'b', tableNumber: 'B', maxCapacity: 4, status: 'dirty' },
+    { id: 'c', tableNumber: 'C', maxCapacity: 4, status: 'out_of_service' },
+    { id: 'd', tableNumber: 'D', maxCapacity: 4, status: 'vacant', isActive: false },
+    { id: 'e', tableNumber: 'E', maxCapacity: 4, status: 'vacant' },
+  ];
+
+  it('offers busy tables for later windows, leaving overlaps to the bookings', () => {
+    expect(selectTablesForParty(floor, new Set(['e']), 2).map(t => t.id)).toEqual(['a', 'b']);
+  });
+
+  it('only offers vacant tables to a party sitting down now', () => {
+    expect(selectTablesForParty(floor, new Set(), 2, { live: true }).map(t => t.id)).toEqual(['e']);
+  });
+
+  it('never offers out-of-service or inactive tables', () => {
+    const ids = selectTablesForParty(floor, new Set(), 2).map(t => t.id);
+    expect(ids).not.toContain('c');
+    expect(ids).not.toContain('d');
+  });
+});
+
+describe('pickBestTables', () => {
+  const floor = [
+    { id: 'big', tableNumber: 'B', maxCapacity: 8, minCapacity: 5, status: 'vacant' },
+    { id: 'small', tableNumber: 'S', maxCapacity: 4, minCapacity: 1, status: 'vacant' },
+  ];
+
+  it('prefers a table whose minimum the party meets', () => {
+    const best = pickBestTables(selectTablesForParty(floor, new Set(), 2), 2);
+    expect(best && tableIdsOf(best)).toEqual(['small']);
+  });
+
+  it('falls back to the first table when the party is below every minimum', () => {
+    const best = pickBestTables(selectTablesForParty(floor, new Set(['small']), 2), 2);
+    expect(best && tableIdsOf(best)).toEqual(['big']);
+  });
+
+  it('books every table of a combination', () => {
+    const best = pickBestTables(selectTablesForParty(tables, new Set(), 10), 10);
+    expect(best?.isCombined).toBe(true);
+    expect(best && tableIdsOf(best)).toEqual(['t2', 't3', 't4']);
+  });
+
+  it('returns null when nothing fits', () => {
+    expect(pickBestTables([], 2)).toBeNull();
+  });
+});
+
+describe('canKeepTables', () => {
+  it('keeps a free table that still seats the party', () => {
+    expect(canKeepTables(tables, new Set(), ['t1'], 4)).toBe(true);
+    expect(canKeepTables(tables, new Set(), ['t1'], 5)).toBe(false);
+  });
+
+  it('keeps a combination only while it is free and large enough', () => {
+    expect(canKeepTables(tables, new Set(), ['t1', 't2'], 8)).toBe(true);
+    expect(canKeepTables(tables, new Set(['t2']), ['t1', 't2'], 8)).toBe(false);
+    expect(canKeepTables(tables, new Set(), ['t1', 't2'], 9)).toBe(false);
+  });
+
+  it('never keeps an empty assignment', () => {
+    expect(canKeepTables(tables, new Set(), [], 2)).toBe(false);
+  });
+});
+
+describe('reassignedTables', () => {
+  it('keeps the current table while it is free and seats the party', () => {
+    expect(reassignedTables({ tableId: 't1', combinedTableIds: null }, tables, new Set(), 4))
+      .toEqual({ tableId: 't1', combinedTableIds: null });
+  });
+
+  it('keeps a current combination as it is', () => {
+    expect(reassignedTables({ tableId: null, combinedTableIds: ['t1', 't2'] }, tables, new Set(['t5']), 7))
+      .toEqual({ tableId: null, combinedTableIds: ['t1', 't2'] });
+  });
+
+  it('moves to a free table when the current one is taken', () => {
+    expect(reassignedTables({ tableId: 't1', combinedTableIds: null }, tables, new Set(['t1', 't2', 't3']), 4))
+      .toEqual({ tableId: 't5', combinedTableIds: null });
+  });
+
+  it('moves off a table the party has outgrown, to a combination if need be', () => {
+    expect(reassignedTables({ tableId: 't1', combinedTableIds: null }, tables, new Set(), 6))
+      .toEqual({ tableId: 't5', combinedTableIds: null });
+    expect(reassignedTables({ tableId: 't5', combinedTableIds: null }, tables, new Set(), 8))
+      .toEqual({ tableId: null, combinedTableIds: ['t1', 't2'] });
+  });
+
+  it('only moves a party sitting down now to a vacant table', () => {
+    const floor = [
+      { id: 'a', tableNumber: 'A', maxCapacity: 4, status: 'seated' },
+      { id: 'b', tableNumber: 'B', maxCapacity: 4, status: 'vacant' },
+    ];
+    expect(reassignedTables({ tableId: null, combinedTableIds: null }, floor, new Set(), 2, { live: true }))
+      .toEqual({ tableId: 'b', combinedTableIds: null });
+  });
+
+  it('returns null when nothing seats the party', () => {
+    expect(reassignedTables({ tableId: 't1', combinedTableIds: null }, tables, new Set(['t1', 't2', 't3', 't4', 't5']), 2))
+      .toBeNull();
+    expect(reassignedTables({ tableId: 't1', combinedTableIds: null }, tables, new Set(), 20)).toBeNull();
+  });
+});
+
+describe('parseCombinationId', () => {
+  it('splits a combination ID into table IDs', () => {
+    expect(parseCombinationId('t1+t2+t3')).toEqual(['t1', 't2', 't3']);
+    expect(parseCombinationId('t1')).toEqual(['t1']);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Table Lifecycle Tests
+ *
+ * Tests:
+ * - Allowed and refused status transitions
+ * - Per-restaurant status timers and overdue tables
+ * - Measured turns and time in each status from history
+ *
+ * Run: pnpm test -- table-lifecycle.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addMinutes } from 'date-fns';
+import {
+  currentStatus,
+  DEFAULT_TABLE_STATUS_TIMERS,
+  isStatusOverdue,
+  nextStatuses,
+  resolveStatusTimers,
+  StatusChange,
+  summarizeTableTurns,
+  TABLE_STATUSES,
+  transitionError,
+  validateStatusTimers,
+} from '../lib/table-lifecycle';
+
+const now = new Date('2026-03-14T20:00:00Z');
+
+function change(tableId: string, fromStatus: string, toStatus: string, minutes: number): StatusChange {
+  return { tableId, fromStatus, toStatus, changedAt: addMinutes(now, minutes) };
+}
+
+describe('transitions', () => {
+  it('follows the service cycle', () => {
+    const cycle = ['vacant', 'seated', 'ordered', 'paying', 'dirty', 'vacant'] as const;
+    for (let i = 0; i < cycle.length - 1; i++) {
+      expect(transitionError(cycle[i], cycle[i + 1])).toBeNull();
+    }
+  });
+
+  it('allows the shortcuts a floor needs', () => {
+    expect(transitionError('seated', 'vacant')).toBeNull();
+    expect(transitionError('seated', 'paying')).toBeNull();
+    expect(transitionError('ordered', 'dirty')).toBeNull();
+    expect(transitionError('dirty', 'out_of_service')).toBeNull();
+    expect(transitionError('out_of_service', 'vacant')).toBeNull();
+  });
+
+  it('refuses skipping the reset or taking busy tables out of service', () => {
+    expect(transitionError('paying', 'vacant')).toBe('A paying table cannot be set to vacant');
+    expect(transitionError('vacant', 'dirty')).toBe('A vacant table cannot be set to dirty');
+    expect(transitionError('ordered', 'out_of_service')).toMatch(/cannot be set to out of service/);
+    expect(transitionError('out_of_service', 'seated')).toMatch(/cannot/);
+  });
+
+  it('refuses setting the status a table already has', () => {
+    expect(transitionError('dirty', 'dirty')).toBe('Table is already dirty');
+  });
+
+  it('never lets a status lead to itself', () => {
+    for (const status of TABLE_STATUSES) {
+      expect(nextStatuses(status)).not.toContain(status);
+    }
+  });
+
+  it('reads missing and retired statuses as vacant', () => {
+    expect(currentStatus(null)).toBe('vacant');
+    expect(currentStatus('occupied')).toBe('vacant');
+    expect(currentStatus('paying')).toBe('paying');
+  });
+});
+
+describe('status timers', () => {
+  it('fills in defaults for timers a restaurant has not set', () => {
+    expect(resolveStatusTimers(null)).toEqual(DEFAULT_TABLE_STATUS_TIMERS);
+    expect(resolveStatusTimers({ dirty: 10 })).toEqual({ ...DEFAULT_TABLE_STATUS_TIMERS, dirty: 10 });
+  });
+
+  it('validates timer lengths', () => {
+    expect(validateStatusTimers({ seated: 10, dirty: 240 })).toBeNull();
+    expect(validateStatusTimers({ paying: 0 })).toBe('Paying timer must be between 1 and 240 minutes');
+    expect(validateStatusTimers({ ordered: 7.5 })).toMatch(/Ordered timer/);
+  });
+
+  it('flags tables once their status timer runs out', () => {
+    const timers = resolveStatusTimers({ seated: 10 });
+    expect(isStatusOverdue({ status: 'seated', statusChangedAt: addMinutes(now, -9) }, timers, now)).toBe(false);
+    expect(isStatusOverdue({ status: 'seated', statusChangedAt: addMinutes(now, -10) }, timers, now)).toBe(true);
+    expect(isStatusOverdue({ status: 'dirty', statusChangedAt: addMinutes(now, -20) }, timers, now)).toBe(true);
+  });
+
+  it('never flags vacant or out-of-service tables', () => {
+    const timers = resolveStatusTimers(null);
+    expect(isStatusOverdue({ status: 'vacant', statusChangedAt: addMinutes(now, -600) }, timers, now)).toBe(false);
+    expect(isStatusOverdue({ status: 'out_of_service', statusChangedAt: addMinutes(now, -600) }, timers, now)).toBe(false);
+    expect(isStatusOverdue({ status: 'seated', statusChangedAt: null }, timers, now)).toBe(false);
+  });
+});
+
+describe('summarizeTableTurns', () => {
+  it('measures turns from seating until the party leaves', () => {
+    const summary = summarizeTableTurns([
+      change('t1', 'vacant', 'seated', 0),
+      change('t1', 'seated', 'ordered', 10),
+      change('t1', 'ordered', 'paying', 70),
+      change('t1', 'paying', 'dirty', 80),
+      change('t1', 'dirty', 'vacant', 90),
+      // Another table's turn, out of order, with no order through the table
+      change('t2', 'paying', 'dirty', 40),
+      change('t2', 'vacant', 'seated', 0),
+      change('t2', 'seated', 'paying', 20),
+    ]);
+
+    expect(summary.turns).toBe(2);
+    expect(summary.averageTurnMinutes).toBe(60);
+    expect(summary.averageStatusMinutes).toEqual({ seated: 15, ordered: 60, paying: 15, dirty: 10 });
+  });
+
+  it('leaves out turns still in progress', () => {
+    const summary = summarizeTableTurns([
+      change('t1', 'vacant', 'seated', 0),
+      change('t1', 'seated', 'ordered', 10),
+    ]);
+    expect(summary.turns).toBe(0);
+    expect(summary.averageTurnMinutes).toBe(0);
+    expect(summary.averageStatusMinutes).toEqual({ seated: 10 });
+  });
+
+  it('does not count a party seated by mistake', () => {
+    const summary = summarizeTableTurns([
+      change('t1', 'vacant', 'seated', 0),
+      change('t1', 'seated', 'vacant', 2),
+    ]);
+    expect(summary.turns).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Turn Time Tests
+ *
+ * Tests:
+ * - Default duration fallback
+ * - Party size, service period and weekday matching
+ * - Rule precedence
+ *
+ * Run: pnpm test -- turn-times.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveTurnTime, TurnTimeRule, validateTurnTimeRules } from '../lib/turn-times';
+
+const rules: TurnTimeRule[] = [
+  { minPartySize: 1, maxPartySize: 2, durationMinutes: 75 },
+  { minPartySize: 1, maxPartySize: 2, durationMinutes: 60, servicePeriods: ['Lunch'] },
+  { minPartySize: 3, maxPartySize: 6, durationMinutes: 105 },
+  { minPartySize: 7, maxPartySize: 20, durationMinutes: 150 },
+  { minPartySize: 7, maxPartySize: 20, durationMinutes: 180, days: ['friday', 'saturday'] },
+  { minPartySize: 7, maxPartySize: 10, durationMinutes: 165 },
+];
+
+describe('resolveTurnTime', () => {
+  it('falls back to the default duration', () => {
+    expect(resolveTurnTime([], 90, { partySize: 2, weekday: 'monday' })).toBe(90);
+    expect(resolveTurnTime(null, null, { partySize: 2, weekday: 'monday' })).toBe(90);
+    expect(resolveTurnTime(rules, 90, { partySize: 30, weekday: 'monday' })).toBe(90);
+  });
+
+  it('matches by party size range', () => {
+    expect(resolveTurnTime(rules, 90, { partySize: 2, weekday: 'monday', servicePeriod: 'Dinner' })).toBe(75);
+    expect(resolveTurnTime(rules, 90, { partySize: 4, weekday: 'monday' })).toBe(105);
+  });
+
+  it('prefers rules scoped to the service period', () => {
+    expect(resolveTurnTime(rules, 90, { partySize: 2, weekday: 'monday', servicePeriod: 'lunch' })).toBe(60);
+  });
+
+  it('prefers rules scoped to the weekday over catch-all rules', () => {
+    expect(resolveTurnTime(rules, 90, { partySize: 12, weekday: 'saturday' })).toBe(180);
+    expect(resolveTurnTime(rules, 90, { partySize: 12, weekday: 'tuesday' })).toBe(150);
+  });
+
+  it('breaks ties with the narrower party size range', () => {
+    expect(resolveTurnTime(rules, 90, { partySize: 8, weekday: 'tuesday' })).toBe(165);
+  });
+});
+
+describe('validateTurnTimeRules', () => {
+  it('accepts valid rules', () => {
+    expect(validateTurnTimeRules(rules)).toBeNull();
+  });
+
+  it('rejects inverted ranges and out-of-bounds durations', () => {
+    expect(validateTurnTimeRules([{ minPartySize: 4, maxPartySize: 2, durationMinutes: 90 }])).toMatch(/party size/);
+    expect(validateTurnTimeRules([{ minPartySize: 1, maxPartySize: 2, durationMinutes: 5 }])).toMatch(/between/);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Waitlist Tests
+ *
+ * Tests:
+ * - Wait quotes from seated reservations, dirty and out-of-service tables
+ *   and upcoming bookings
+ * - Queue position and parties ahead
+ * - Choosing the party for a vacated table
+ *
+ * Run: pnpm test -- waitlist.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addMinutes } from 'date-fns';
+import { averageTurnMinutes, nextFreeStart, quoteWait, selectPartyForTable, WaitlistTable } from '../lib/waitlist';
+import { BookedWindow } from '../lib/slot-grid';
+
+const now = new Date('2026-03-14T19:00:00Z');
+const turnMinutesFor = () => 60;
+
+function booking(tableId: string, startOffset: number, endOffset: number): BookedWindow {
+  return {
+    tableId,
+    combinedTableIds: null,
+    startTime: addMinutes(now, startOffset),
+    endTime: addMinutes(now, endOffset),
+    partySize: 2,
+  };
+}
+
+const twoTop: WaitlistTable = { id: 't1', minCapacity: 1, maxCapacity: 2, status: 'seated' };
+const fourTop: WaitlistTable = { id: 't2', minCapacity: 2, maxCapacity: 4, status: 'ordered' };
+
+describe('quoteWait', () => {
+  it('quotes zero for a vacant table with no upcoming bookings', () => {
+    const quote = quoteWait({
+      now,
+      tables: [{ ...twoTop, status: 'vacant' }],
+      bookings: [],
+      partiesAhead: [],
+      partySize: 2,
+      turnMinutesFor,
+    });
+    expect(quote).toEqual({ position: 1, quotedWaitMinutes: 0 });
+  });
+
+  it('waits for the earliest seated reservation to end, rounded up', () => {
+    const quote = quoteWait({
+      now,
+      tables: [twoTop, fourTop],
+      bookings: [booking('t1', -50, 22), booking('t2', -30, 40)],
+      partiesAhead: [],
+      partySize: 2,
+      turnMinutesFor,
+    });
+    expect(quote.quotedWaitMinutes).toBe(25);
+  });
+
+  it('seats parties ahead first', () => {
+    const quote = quoteWait({
+      now,
+      tables: [twoTop, fourTop],
+      bookings: [booking('t1', -50, 20), booking('t2', -30, 40)],
+      partiesAhead: [{ id: 'w1', partySize: 2 }],
+      partySize: 2,
+      turnMinutesFor,
+    });
+    expect(quote).toEqual({ position: 2, quotedWaitMinutes: 40 });
+  });
+
+  it('skips tables that an upcoming booking needs during the turn', () => {
+    const quote = quoteWait({
+      now,
+      tables: [{ ...twoTop, status: 'vacant' }],
+      bookings: [booking('t1', 30, 120)],
+      partiesAhead: [],
+      partySize: 2,
+      turnMinutesFor,
+    });
+    expect(quote.quotedWaitMinutes).toBe(120);
+  });
+
+  it('allows time to reset dirty tables', () => {
+    const quote = quoteWait({
+      now,
+      tables: [{ ...fourTop, status: 'dirty' }],
+      bookings: [],
+      partiesAhead: [],
+      partySize: 3,
+      turnMinutesFor,
+    });
+    expect(quote.quotedWaitMinutes).toBe(5);
+  });
+
+  it('does not quote parties no single table seats', () => {
+    const quote = quoteWait({
+      now,
+      tables: [twoTop, fourTop],
+      bookings: [],
+      partiesAhead: [{ id: 'w1', partySize: 2 }],
+      partySize: 8,
+      turnMinutesFor,
+    });
+    expect(quote).toEqual({ position: 2, quotedWaitMinutes: null });
+  });
+
+  it('never offers tables that are out of service', () => {
+    const quote = quoteWait({
+      now,
+      tables: [{ ...fourTop, status: 'out_of_service' }],
+      bookings: [],
+      partiesAhead: [],
+      partySize: 3,
+      turnMinutesFor,
+    });
+    expect(quote.quotedWaitMinutes).toBeNull();
+  });
+});
+
+describe('nextFreeStart', () => {
+  it('counts tables held as part of a combination', () => {
+    const combined: BookedWindow = { ...booking('t1', 10, 70), combinedTableIds: ['t1', 't2'] };
+    expect(nextFreeStart('t2', [combined], now, 60)).toEqual(addMinutes(now, 70));
+  });
+});
+
+describe('selectPartyForTable', () => {
+  const queue = [
+    { id: 'w1', partySize: 6 },
+    { id: 'w2', partySize: 1 },
+    { id: 'w3', partySize: 3 },
+  ];
+
+  it('picks the first party in queue order that fits', () => {
+    expect(selectPartyForTable(queue, fourTop)?.id).toBe('w3');
+    expect(selectPartyForTable(queue, twoTop)?.id).toBe('w2');
+  });
+
+  it('returns null when nobody fits', () => {
+    expect(selectPartyForTable(queue, { ...fourTop, maxCapacity: 20, minCapacity: 10 })).toBeNull();
+  });
+});
+
+describe('averageTurnMinutes', () => {
+  it('averages booked durations', () => {
+    expect(averageTurnMinutes([booking('t1', 0, 60), booking('t1', 0, 90)])).toBe(75);
+    expect(averageTurnMinutes([])).toBeNull();
+  });
+});
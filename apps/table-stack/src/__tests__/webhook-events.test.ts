@@ -0,0 +1,138 @@
+/**
+ * Webhook Events Tests
+ *
+ * Tests:
+ * - Retry backoff and when a delivery gives up
+ * - Endpoint validation
+ * - Event payloads
+ *
+ * Run: pnpm test -- webhook-events.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  afterAttempt,
+  buildEnvelope,
+  generateWebhookSecret,
+  MAX_DELIVERY_ATTEMPTS,
+  reservationEventData,
+  reservationModifiedEventData,
+  retryDelayMs,
+  truncateError,
+  validateSubscriptionInput,
+} from '../lib/webhook-events';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+describe('retryDelayMs', () => {
+  it('doubles the delay after each failure', () => {
+    expect(retryDelayMs(1)).toBe(60_000);
+    expect(retryDelayMs(2)).toBe(120_000);
+    expect(retryDelayMs(5)).toBe(16 * 60_000);
+  });
+
+  it('caps the delay at six hours', () => {
+    expect(retryDelayMs(20)).toBe(6 * 60 * 60_000);
+  });
+});
+
+describe('afterAttempt', () => {
+  it('marks successful deliveries delivered', () => {
+    expect(afterAttempt(3, true, NOW)).toEqual({ status: 'delivered', nextAttemptAt: null });
+  });
+
+  it('schedules a retry after a failure', () => {
+    expect(afterAttempt(1, false, NOW)).toEqual({
+      status: 'pending',
+      nextAttemptAt: new Date('2026-03-10T12:01:00Z'),
+    });
+  });
+
+  it('gives up after the last attempt', () => {
+    expect(afterAttempt(MAX_DELIVERY_ATTEMPTS, false, NOW)).toEqual({ status: 'failed', nextAttemptAt: null });
+  });
+});
+
+describe('validateSubscriptionInput', () => {
+  it('accepts an HTTPS endpoint with known events', () => {
+    expect(validateSubscriptionInput({ url: 'https://partner.example.com/hooks', events: ['reservation.created'] })).toBeNull();
+  });
+
+  it('rejects plain HTTP, credentials and bad URLs', () => {
+    expect(validateSubscriptionInput({ url: 'http://partner.example.com', events: ['reservation.created'] })).toBe('Endpoint must use HTTPS');
+    expect(validateSubscriptionInput({ url: 'https://user:pw@partner.example.com', events: ['reservation.created'] })).toMatch(/credentials/);
+    expect(validateSubscriptionInput({ url: 'partner', events: ['reservation.created'] })).toBe('Enter a valid URL');
+  });
+
+  it('only allows localhost when asked to', () => {
+    const input = { url: 'http://localhost:4000/hooks', events: ['waitlist.updated'] };
+    expect(validateSubscriptionInput(input)).toMatch(/publicly reachable/);
+    expect(validateSubscriptionInput(input, { allowLocalhost: true })).toBeNull();
+  });
+
+  it('requires known events', () => {
+    expect(validateSubscriptionInput({ url: 'https://partner.example.com', events: [] })).toBe('Choose at least one event');
+    expect(validateSubscriptionInput({ url: 'https://partner.example.com', events: ['order.created'] })).toBe('Unknown event: order.created');
+  });
+});
+
+describe('payloads', () => {
+  it('wraps event data in an envelope', () => {
+    expect(buildEnvelope('evt-1', 'waitlist.updated', 'rest-1', { id: 'w1' }, NOW)).toEqual({
+      id: 'evt-1',
+      type: 'waitlist.updated',
+      restaurantId: 'rest-1',
+      createdAt: '2026-03-10T12:00:00.000Z',
+      data: { id: 'w1' },
+    });
+  });
+
+  it('lists combined tables and leaves out guest contact details', () => {
+    const data = reservationEventData({
+      id: 'r1',
+      status: 'confirmed',
+      guestName: 'Sam',
+      partySize: 6,
+      startTime: NOW,
+      endTime: new Date('2026-03-10T13:30:00Z'),
+      tableId: null,
+      combinedTableIds: ['t1', 't2'],
+      isVerified: true,
+    });
+    expect(data.tableIds).toEqual(['t1', 't2']);
+    expect(data).not.toHaveProperty('guestEmail');
+  });
+
+  it('sends a modified reservation with what it replaced', () => {
+    const previous = {
+      id: 'r1',
+      status: 'confirmed',
+      guestName: 'Sam',
+      partySize: 2,
+      startTime: NOW,
+      endTime: new Date('2026-03-10T13:30:00Z'),
+      tableId: 't1',
+    };
+    const data = reservationModifiedEventData(previous, {
+      ...previous,
+      partySize: 6,
+      startTime: new Date('2026-03-10T19:00:00Z'),
+      endTime: new Date('2026-03-10T21:00:00Z'),
+      tableId: null,
+      combinedTableIds: ['t1', 't2'],
+    });
+    expect(data).toMatchObject({ id: 'r1', partySize: 6, startTime: '2026-03-10T19:00:00.000Z', tableIds: ['t1', 't2'] });
+    expect(data.previous).toEqual({
+      startTime: '2026-03-10T12:00:00.000Z',
+      endTime: '2026-03-10T13:30:00.000Z',
+      partySize: 2,
+      tableIds: ['t1'],
+    });
+  });
+
+  it('generates distinct secrets and truncates long errors', () => {
+    expect(generateWebhookSecret()).toMatch(/^whsec_[0-9a-f]{64}$/);
+    expect(generateWebhookSecret()).not.toBe(generateWebhookSecret());
+    expect(truncateError('x'.repeat(1000))).toHaveLength(500);
+  });
+});
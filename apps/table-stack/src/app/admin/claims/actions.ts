@@ -0,0 +1,42 @@
+"use server";
+
+import { currentUser } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { isPlatformAdmin } from "@/lib/claim-policy";
+import { approveClaim, ClaimNotPendingError, rejectClaim } from "@/lib/claims";
+
+async function requireAdmin() {
+  const user = await currentUser();
+  if (!user || !isPlatformAdmin(user.id, process.env.PLATFORM_ADMIN_USER_IDS)) {
+    throw new Error("Unauthorized");
+  }
+  return user;
+}
+
+export async function approveRestaurantClaim(claimId: string, formData: FormData) {
+  const admin = await requireAdmin();
+
+  try {
+    await approveClaim(claimId, admin.id, formData.get('note') as string | null);
+    revalidatePath('/admin/claims');
+    return { success: true };
+  } catch (error) {
+    if (error instanceof ClaimNotPendingError) throw new Error(error.message);
+    console.error('Failed to approve claim:', error);
+    throw new Error('Failed to approve claim');
+  }
+}
+
+export async function rejectRestaurantClaim(claimId: string, formData: FormData) {
+  const admin = await requireAdmin();
+
+  try {
+    await rejectClaim(claimId, admin.id, formData.get('note') as string | null);
+    revalidatePath('/admin/claims');
+    return { success: true };
+  } catch (error) {
+    if (error instanceof ClaimNotPendingError) throw new Error(error.message);
+    console.error('Failed to reject claim:', error);
+    throw new Error('Failed to reject claim');
+  }
+}
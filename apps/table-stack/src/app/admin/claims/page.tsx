@@ -0,0 +1,100 @@
+import { notFound, redirect } from 'next/navigation';
+import { currentUser } from '@clerk/nextjs/server';
+import { Check, ShieldAlert, X } from 'lucide-react';
+import { DISPUTE_REASON_LABELS, isDisputeReason, isPlatformAdmin } from '@/lib/claim-policy';
+import { listClaimsForReview } from '@/lib/claims';
+import { approveRestaurantClaim, rejectRestaurantClaim } from './actions';
+
+export default async function ClaimReviewPage() {
+  const user = await currentUser();
+
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  if (!isPlatformAdmin(user.id, process.env.PLATFORM_ADMIN_USER_IDS)) {
+    notFound();
+  }
+
+  const claims = await listClaimsForReview();
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+          <ShieldAlert className="w-8 h-8 text-amber-500" />
+          Disputed Claims
+        </h1>
+        <p className="text-gray-500">Claims for shadow listings that could not be confirmed automatically</p>
+      </header>
+
+      {claims.length === 0 && (
+        <p className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 text-sm text-gray-500">No claims waiting for review.</p>
+      )}
+
+      <div className="space-y-6">
+        {claims.map(claim => (
+          <section key={claim.id} className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">{claim.restaurant.name}</h2>
+                <p className="text-sm text-gray-500">
+                  Listing email {claim.restaurant.ownerEmail}
+                  {claim.restaurant.isClaimed ? ' · currently claimed' : ' · unclaimed'}
+                </p>
+              </div>
+              <span className="text-xs font-medium bg-amber-50 text-amber-700 px-2 py-1 rounded">
+                {isDisputeReason(claim.reason) ? DISPUTE_REASON_LABELS[claim.reason] : claim.reason}
+              </span>
+            </div>
+
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm mb-4">
+              <div>
+                <dt className="text-gray-500">Claimant</dt>
+                <dd className="text-gray-900">{claim.claimantEmail}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Submitted</dt>
+                <dd className="text-gray-900">{claim.createdAt?.toLocaleString()}</dd>
+              </div>
+              <div className="md:col-span-2">
+                <dt className="text-gray-500">Explanation</dt>
+                <dd className="text-gray-900 whitespace-pre-wrap">{claim.evidence}</dd>
+              </div>
+            </dl>
+
+            <form className="flex flex-wrap items-end gap-3">
+              <label className="flex-1 min-w-64 text-sm font-medium text-gray-700">
+                Note to claimant
+                <input
+                  type="text"
+                  name="note"
+                  maxLength={500}
+                  className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </label>
+              <button
+                formAction={async (formData) => {
+                  'use server';
+                  await approveRestaurantClaim(claim.id, formData);
+                }}
+                className="flex items-center gap-1 bg-green-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-green-700 transition-colors"
+              >
+                <Check className="w-4 h-4" /> Approve
+              </button>
+              <button
+                formAction={async (formData) => {
+                  'use server';
+                  await rejectRestaurantClaim(claim.id, formData);
+                }}
+                className="flex items-center gap-1 bg-white border border-red-300 text-red-600 px-4 py-2 rounded-lg font-medium hover:bg-red-50 transition-colors"
+              >
+                <X className="w-4 h-4" /> Reject
+              </button>
+            </form>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
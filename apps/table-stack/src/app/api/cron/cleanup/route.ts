@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db, eq, lt, and } from "@repo/database";
-import { restaurantReservations, restaurantTables } from "@repo/database";
+import { requeueExpiredNotifications } from "@/lib/waitlist-queue";
+import { detectNoShows } from "@/lib/no-shows";
+import { extendReservationSeries } from "@/lib/reservation-series";
+import { sendDueWebhookDeliveries } from "@/lib/webhooks";
+import { expireBookingHolds } from "@/lib/booking-holds";
+import { resetDirtyTables } from "@/lib/table-status";
+import { expireUnverifiedReservations } from "@/lib/bookings";
 
 export const runtime = 'edge';
 
@@ -11,33 +16,39 @@ export async function GET(req: NextRequest) {
   }
 
   try {
-    const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000);
-    const twentyMinutesAgo = new Date(Date.now() - 20 * 60 * 1000);
-
-    // 1. Remove expired unverified restaurantReservations
-    const deletedReservations = await db.delete(restaurantReservations)
-      .where(
-        and(
-          eq(restaurantReservations.isVerified, false),
-          lt(restaurantReservations.createdAt, fifteenMinutesAgo)
-        )
-      );
-
-    // 2. Auto-archive "dirty" tables to "vacant"
-    const cleanedTables = await db.update(restaurantTables)
-      .set({ status: 'vacant', updatedAt: new Date() })
-      .where(
-        and(
-          eq(restaurantTables.status, 'dirty'),
-          lt(restaurantTables.updatedAt, twentyMinutesAgo)
-        )
-      );
+    // 1. Remove expired unverified reservations; those awaiting a deposit are
+    // kept while their checkout can still be paid
+    const expiredReservationsRemoved = await expireUnverifiedReservations();
+
+    // 2. Reset "dirty" tables to "vacant" once their restaurant's dirty timer
+    // runs out; each is offered to the waitlist as it is vacated
+    const cleanedTables = await resetDirtyTables();
+
+    // 3. Flag reservations never seated within the grace period as no-shows
+    const noShowsFlagged = await detectNoShows();
+
+    // 4. Requeue waitlist parties that did not respond to their notification
+    const waitlistRequeued = await requeueExpiredNotifications();
+
+    // 5. Book standing reservation occurrences entering the booking horizon
+    const seriesOccurrencesBooked = await extendReservationSeries();
+
+    // 6. Send queued webhook deliveries and retry those whose backoff has elapsed
+    const webhooksDelivered = await sendDueWebhookDeliveries();
+
+    // 7. Record booking holds that lapsed (they stopped blocking tables on expiry)
+    const bookingHoldsExpired = await expireBookingHolds();
 
     return NextResponse.json({ 
       message: 'Cleanup successful',
       timestamp: new Date().toISOString(),
-      expiredReservationsRemoved: deletedReservations.rowCount,
-      dirtyTablesCleaned: cleanedTables.rowCount,
+      expiredReservationsRemoved,
+      dirtyTablesCleaned: cleanedTables.length,
+      noShowsFlagged,
+      waitlistRequeued,
+      seriesOccurrencesBooked,
+      webhooksDelivered,
+      bookingHoldsExpired,
     });
   } catch (error) {
     console.error('Cleanup Error:', error);
@@ -2,12 +2,32 @@ import { NextRequest, NextResponse } from "next/server";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { TOOLS } from "@repo/mcp-protocol";
-import { db, restaurants, restaurantTables, restaurantReservations, eq, gte, or, and } from "@repo/database";
-import { sql } from 'drizzle-orm';
+import { db, restaurants, eq } from "@repo/database";
 import { addMinutes, parseISO } from 'date-fns';
-import { toZonedTime, format } from 'date-fns-tz';
 import { SecurityProvider } from "@repo/auth";
 import { randomUUID } from "crypto";
+import {
+  getAvailableTables as findAvailableTables,
+  validateCombinationForRestaurant,
+  getAvailabilityGrid,
+  getServiceSchedule,
+  isRestaurantOpenAt,
+  getTurnTimeMinutes,
+  turnTimeFor,
+} from "@/lib/availability";
+import { withAvailabilityCache } from "@/lib/availability-cache";
+import { sendConfirmationEmail } from "@/lib/reservation-emails";
+import { isOpenAt } from "@/lib/service-schedule";
+import { parseCombinationId } from "@/lib/table-combinations";
+import { DEFAULT_SLOT_INTERVAL, isSlotInterval } from "@/lib/slot-grid";
+import { joinWaitlist } from "@/lib/waitlist-queue";
+import { getRequiredDeposit } from "@/lib/no-shows";
+import { openDepositCheckout } from "@/lib/deposit-settlement";
+import { cancelReservationSeries, createReservationSeries, skipSeriesOccurrence } from "@/lib/reservation-series";
+import { findGuestProfile } from "@/lib/guests";
+import { BookingHold, findHoldForBooking, HoldUnavailableError, placeBookingHold, releaseBookingHold } from "@/lib/booking-holds";
+import { bookTables } from "@/lib/bookings";
+import { DEFAULT_HOLD_MINUTES, heldTableIds, TablesBusyError } from "@/lib/hold-policy";
 
 // Create a singleton server instance
 const server = new McpServer({
@@ -46,103 +66,11 @@ async function getAvailableTables(
   startTime: Date, 
   partySize: number, 
   duration: number,
-  traceId: string
+  traceId: string,
+  section?: string
 ) {
   console.log(`[Trace:${traceId}] Getting available tables for restaurant ${restaurantId}`);
-  const endTime = addMinutes(startTime, duration);
-
-  const occupiedTableIdsResult = await db
-    .select({ tableId: restaurantReservations.tableId })
-    .from(restaurantReservations)
-    .where(
-      and(
-        eq(restaurantReservations.restaurantId, restaurantId),
-        or(
-          eq(restaurantReservations.status, 'confirmed'),
-          and(
-            eq(restaurantReservations.isVerified, false),
-            gte(restaurantReservations.createdAt, new Date(Date.now() - 15 * 60 * 1000))
-          )
-        ),
-        sql`(${restaurantReservations.startTime}, ${restaurantReservations.endTime}) OVERLAPS (${sql.placeholder(startTime.toISOString())}::timestamptz, ${sql.placeholder(endTime.toISOString())}::timestamptz)`
-      )
-    );
-
-  const occupiedTableIds = occupiedTableIdsResult.map((r: any) => r.tableId).filter(Boolean) as string[];
-
-  const occupiedCombinedTableIdsResult = await db
-    .select({ combinedTableIds: restaurantReservations.combinedTableIds })
-    .from(restaurantReservations)
-    .where(
-      and(
-        eq(restaurantReservations.restaurantId, restaurantId),
-        or(
-          eq(restaurantReservations.status, 'confirmed'),
-          and(
-            eq(restaurantReservations.isVerified, false),
-            gte(restaurantReservations.createdAt, new Date(Date.now() - 15 * 60 * 1000))
-          )
-        ),
-        sql`(${restaurantReservations.startTime}, ${restaurantReservations.endTime}) OVERLAPS (${sql.placeholder(startTime.toISOString())}::timestamptz, ${sql.placeholder(endTime.toISOString())}::timestamptz)`
-      )
-    );
-
-  occupiedCombinedTableIdsResult.forEach((r: any) => {
-    if (r.combinedTableIds) {
-      occupiedTableIds.push(...(r.combinedTableIds as string[]));
-    }
-  });
-
-  const allTables = await db
-    .select()
-    .from(restaurantTables)
-    .where(
-      and(
-        eq(restaurantTables.restaurantId, restaurantId),
-        eq(restaurantTables.isActive, true),
-        eq(restaurantTables.status, 'vacant')
-      )
-    );
-
-  const availableIndividualTables = allTables.filter((t: any) => 
-    !occupiedTableIds.includes(t.id) && t.maxCapacity >= partySize
-  );
-
-  if (availableIndividualTables.length > 0) {
-    return availableIndividualTables.map((t: any) => ({ ...t, isCombined: false }));
-  }
-
-  const vacantTables = allTables.filter((t: any) => !occupiedTableIds.includes(t.id));
-  const suggestedCombos: any[] = [];
-
-  for (let i = 0; i < vacantTables.length; i++) {
-    for (let j = i + 1; j < vacantTables.length; j++) {
-      const t1 = vacantTables[i];
-      const t2 = vacantTables[j];
-      const combinedCapacity = t1.maxCapacity + t2.maxCapacity;
-      
-      if (combinedCapacity >= partySize) {
-        const distance = Math.sqrt(
-          Math.pow((t1.xPos || 0) - (t2.xPos || 0), 2) + 
-          Math.pow((t1.yPos || 0) - (t2.yPos || 0), 2)
-        );
-
-        if (distance < 120) {
-          suggestedCombos.push({
-            id: `${t1.id}+${t2.id}`,
-            tableNumber: `${t1.tableNumber}+${t2.tableNumber}`,
-            combinedTableIds: [t1.id, t2.id],
-            maxCapacity: combinedCapacity,
-            isCombined: true,
-            table1: t1,
-            table2: t2,
-          });
-        }
-      }
-    }
-  }
-
-  return suggestedCombos;
+  return findAvailableTables(restaurantId, startTime, partySize, duration, { section });
 }
 
 // Existing getAvailability tool with traceId support
@@ -150,7 +78,7 @@ server.tool(
   TOOLS.tableStack.getAvailability.name,
   TOOLS.tableStack.getAvailability.description,
   TOOLS.tableStack.getAvailability.schema.shape,
-  async ({ restaurantId, date, partySize }, _extra: any) => {
+  async ({ restaurantId, date, partySize, section }, _extra: any) => {
     const traceId = _extra?.traceId || randomUUID();
     
     const restaurant = await db.query.restaurants.findFirst({
@@ -162,68 +90,172 @@ server.tool(
     }
 
     const requestedDate = parseISO(date);
-    const timezone = restaurant.timezone || 'UTC';
-    const restaurantTime = toZonedTime(requestedDate, timezone);
-    
-    const dayOfWeek = format(restaurantTime, 'eeee', { timeZone: timezone }).toLowerCase();
-    const openDays = restaurant.daysOpen?.split(',').map((d: string) => d.trim().toLowerCase()) || [];
-    
-    if (!openDays.includes(dayOfWeek)) {
-      return createResponse({ 
-        message: 'Restaurant is closed on this day', 
-        availableTables: [] 
-      }, traceId);
-    }
-
-    const timeStr = format(restaurantTime, 'HH:mm', { timeZone: timezone });
-    if (timeStr < (restaurant.openingTime || '00:00') || timeStr > (restaurant.closingTime || '23:59')) {
-      return createResponse({ 
-        message: 'Restaurant is closed at this time', 
-        availableTables: [] 
-      }, traceId);
-    }
 
-    const duration = restaurant.defaultDurationMinutes || 90;
-    const availableTables = await getAvailableTables(restaurantId, requestedDate, partySize, duration, traceId);
-
-    const suggestedSlots: any[] = [];
-    if (availableTables.length === 0) {
-      const offsets = [-30, 30, -60, 60];
-      for (const offset of offsets) {
-        const suggestedTime = addMinutes(requestedDate, offset);
-        const suggestedZonedTime = toZonedTime(suggestedTime, timezone);
-        const suggestedTimeStr = format(suggestedZonedTime, 'HH:mm', { timeZone: timezone });
-        
-        if (suggestedTimeStr < (restaurant.openingTime || '00:00') || suggestedTimeStr > (restaurant.closingTime || '23:59')) {
-          continue;
+    const { value, cache } = await withAvailabilityCache(
+      restaurant,
+      { kind: 'tables', at: requestedDate, partySize, section },
+      async () => {
+        const timezone = restaurant.timezone || 'UTC';
+        const schedule = await getServiceSchedule(restaurant);
+
+        if (!isOpenAt(requestedDate, timezone, schedule)) {
+          return {
+            message: 'Restaurant is closed at this time',
+            availableTables: [],
+          };
         }
 
-        const tables = await getAvailableTables(restaurantId, suggestedTime, partySize, duration, traceId);
-        if (tables.length > 0) {
-          suggestedSlots.push({
-            time: suggestedTime.toISOString(),
-            availableTables: tables,
-          });
+        const duration = turnTimeFor(restaurant, schedule, requestedDate, partySize);
+        const availableTables = await getAvailableTables(restaurantId, requestedDate, partySize, duration, traceId, section);
+
+        const suggestedSlots: any[] = [];
+        if (availableTables.length === 0) {
+          const offsets = [-30, 30, -60, 60];
+          for (const offset of offsets) {
+            const suggestedTime = addMinutes(requestedDate, offset);
+
+            if (!isOpenAt(suggestedTime, timezone, schedule)) {
+              continue;
+            }
+
+            const suggestedDuration = turnTimeFor(restaurant, schedule, suggestedTime, partySize);
+            const tables = await getAvailableTables(restaurantId, suggestedTime, partySize, suggestedDuration, traceId, section);
+            if (tables.length > 0) {
+              suggestedSlots.push({
+                time: suggestedTime.toISOString(),
+                availableTables: tables,
+              });
+            }
+          }
         }
+
+        return {
+          restaurantId,
+          requestedTime: requestedDate.toISOString(),
+          partySize,
+          section,
+          availableTables,
+          suggestedSlots: suggestedSlots.length > 0 ? suggestedSlots : undefined,
+        };
       }
+    );
+    console.log(`[Trace:${traceId}] Availability cache ${cache}`);
+
+    return createResponse(value, traceId);
+  }
+);
+
+// Day-long slot grid with cover pacing
+server.tool(
+  TOOLS.tableStack.getAvailabilitySlots.name,
+  TOOLS.tableStack.getAvailabilitySlots.description,
+  TOOLS.tableStack.getAvailabilitySlots.schema.shape,
+  async ({ restaurantId, date, partySize, interval, section }, _extra: any) => {
+    const traceId = _extra?.traceId || randomUUID();
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return createResponse({ error: "Restaurant not found" }, traceId, true);
     }
 
+    const serviceDate = date.slice(0, 10);
+    const slotInterval = interval
+      ?? (isSlotInterval(restaurant.slotIntervalMinutes ?? 0) ? restaurant.slotIntervalMinutes! : DEFAULT_SLOT_INTERVAL);
+
+    // Closed days and exceptions yield an empty grid
+    console.log(`[Trace:${traceId}] Building ${slotInterval}-minute slot grid for restaurant ${restaurantId}`);
+    const { value: slots } = await withAvailabilityCache(
+      restaurant,
+      { kind: 'slots', date: serviceDate, partySize, interval: slotInterval, section },
+      () => getAvailabilityGrid(restaurant, serviceDate, partySize, slotInterval, section)
+    );
+
     return createResponse({
       restaurantId,
-      requestedTime: requestedDate.toISOString(),
+      date: serviceDate,
       partySize,
-      availableTables,
-      suggestedSlots: suggestedSlots.length > 0 ? suggestedSlots : undefined,
+      section,
+      interval: slotInterval,
+      timezone: restaurant.timezone || 'UTC',
+      slots,
     }, traceId);
   }
 );
 
+// Holds tables while the user confirms; bookTable takes the hold token
+server.tool(
+  TOOLS.tableStack.holdTable.name,
+  TOOLS.tableStack.holdTable.description,
+  TOOLS.tableStack.holdTable.schema.shape,
+  async ({ restaurantId, tableId, partySize, startTime, section, holdMinutes }, _extra: any) => {
+    const traceId = _extra?.traceId || randomUUID();
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return createResponse({ error: "Restaurant not found" }, traceId, true);
+    }
+
+    try {
+      const hold = await placeBookingHold(restaurant, {
+        startTime: parseISO(startTime),
+        partySize,
+        tableIds: tableId ? parseCombinationId(tableId) : undefined,
+        section,
+        minutes: holdMinutes ?? DEFAULT_HOLD_MINUTES,
+      });
+      console.log(`[Trace:${traceId}] Placed hold ${hold.id} until ${hold.expiresAt.toISOString()}`);
+
+      return createResponse({
+        status: "held",
+        hold_token: hold.token,
+        tableId: heldTableIds(hold).join('+'),
+        expires_at: hold.expiresAt.toISOString(),
+        message: "Tables held. Pass hold_token to bookTable before the hold expires.",
+      }, traceId);
+    } catch (error) {
+      if (error instanceof HoldUnavailableError || error instanceof TablesBusyError) {
+        return createResponse({ error: error.message }, traceId, true);
+      }
+      throw error;
+    }
+  }
+);
+
+server.tool(
+  TOOLS.tableStack.releaseTableHold.name,
+  TOOLS.tableStack.releaseTableHold.description,
+  TOOLS.tableStack.releaseTableHold.schema.shape,
+  async ({ restaurantId, holdToken }, _extra: any) => {
+    const traceId = _extra?.traceId || randomUUID();
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return createResponse({ error: "Restaurant not found" }, traceId, true);
+    }
+
+    if (!(await releaseBookingHold(restaurant, holdToken))) {
+      return createResponse({ error: "Hold not found or no longer active" }, traceId, true);
+    }
+
+    return createResponse({ status: "released", message: "Hold released" }, traceId);
+  }
+);
+
 // Existing bookTable tool with traceId support
 server.tool(
   TOOLS.tableStack.bookTable.name,
   TOOLS.tableStack.bookTable.description,
   TOOLS.tableStack.bookTable.schema.shape,
-  async ({ restaurantId, tableId, guestName, guestEmail, partySize, startTime }, _extra: any) => {
+  async ({ restaurantId, tableId, guestName, guestEmail, partySize, startTime, holdToken }, _extra: any) => {
     const traceId = _extra?.traceId || randomUUID();
     
     const restaurant = await db.query.restaurants.findFirst({
@@ -235,27 +267,84 @@ server.tool(
     }
 
     const start = parseISO(startTime);
-    const duration = restaurant.defaultDurationMinutes || 90;
+    const duration = await getTurnTimeMinutes(restaurant, start, partySize);
     const end = addMinutes(start, duration);
 
-    const isCombined = tableId.includes('+');
-    const tableIds = isCombined ? tableId.split('+') : [tableId];
+    if (!(await isRestaurantOpenAt(restaurant, start))) {
+      return createResponse({ error: "Restaurant is closed at this time" }, traceId, true);
+    }
 
-    const [newReservation] = await db.insert(restaurantReservations).values({
-      restaurantId,
-      tableId: isCombined ? null : tableId,
-      combinedTableIds: isCombined ? tableIds : null,
-      guestName,
-      guestEmail,
-      partySize,
-      startTime: start,
-      endTime: end,
-      status: 'confirmed',
-      isVerified: true,
-    }).returning();
+    const tableIds = parseCombinationId(tableId);
+    const isCombined = tableIds.length > 1;
+
+    let hold: BookingHold | null = null;
+    if (holdToken) {
+      try {
+        hold = await findHoldForBooking(holdToken, { restaurantId, startTime: start, partySize, tableIds });
+      } catch (error) {
+        if (error instanceof HoldUnavailableError) {
+          return createResponse({ error: error.message }, traceId, true);
+        }
+        throw error;
+      }
+    }
+
+    if (isCombined) {
+      const validation = await validateCombinationForRestaurant(restaurantId, tableIds, partySize, start);
+      if (!validation.valid) {
+        return createResponse({ error: validation.error }, traceId, true);
+      }
+    }
+
+    const depositAmount = await getRequiredDeposit(restaurant, guestEmail);
+
+    let outcome;
+    try {
+      outcome = await bookTables(restaurant, {
+        restaurantId,
+        tableId: isCombined ? null : tableId,
+        combinedTableIds: isCombined ? tableIds : null,
+        guestName,
+        guestEmail,
+        partySize,
+        startTime: start,
+        endTime: end,
+        status: 'confirmed',
+        isVerified: depositAmount === 0,
+        depositAmount,
+        depositStatus: depositAmount > 0 ? 'pending' : null,
+      }, { hold });
+    } catch (error) {
+      if (error instanceof TablesBusyError) {
+        return createResponse({ error: error.message }, traceId, true);
+      }
+      throw error;
+    }
+
+    if (outcome.conflicts) {
+      return createResponse({ error: "Table is no longer available", conflictingTableIds: outcome.conflicts }, traceId, true);
+    }
+
+    if (outcome.paced) {
+      return createResponse({ error: "Too many guests are already arriving around this time. Please choose another slot." }, traceId, true);
+    }
+
+    const newReservation = outcome.reservation;
 
     console.log(`[Trace:${traceId}] Created reservation ${newReservation.id} for ${guestName}`);
 
+    if (depositAmount > 0) {
+      return createResponse({
+        status: "pending_deposit",
+        message: "The guest must pay a deposit before this reservation is confirmed",
+        booking_id: newReservation.id,
+        deposit_amount: depositAmount,
+        deposit_checkout_url: await openDepositCheckout(newReservation, restaurant),
+      }, traceId);
+    }
+
+    await sendConfirmationEmail(newReservation, restaurant);
+
     return createResponse({
       status: "confirmed",
       message: "Reservation confirmed successfully",
@@ -288,7 +377,7 @@ server.tool(
     }
 
     const requestedDate = parseISO(date);
-    const duration = restaurant.defaultDurationMinutes || 90;
+    const duration = await getTurnTimeMinutes(restaurant, requestedDate, partySize);
     const availableTables = await getAvailableTables(restaurantId, requestedDate, partySize, duration, traceId);
 
     const isValid = availableTables.length > 0;
@@ -306,6 +395,155 @@ server.tool(
   }
 );
 
+// Waitlist tool: joins the queue and returns the quoted wait and position
+server.tool(
+  TOOLS.tableManagement.addToWaitlist.name,
+  TOOLS.tableManagement.addToWaitlist.description,
+  TOOLS.tableManagement.addToWaitlist.schema.shape,
+  async ({ restaurantId, guestName, guestEmail, partySize }, _extra: any) => {
+    const traceId = _extra?.traceId || randomUUID();
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return createResponse({ error: "Restaurant not found" }, traceId, true);
+    }
+
+    console.log(`[Trace:${traceId}] Adding party of ${partySize} to waitlist for restaurant ${restaurantId}`);
+    const { entry, position, quotedWaitMinutes } = await joinWaitlist(restaurant, { guestName, guestEmail, partySize });
+
+    return createResponse({
+      waitlistId: entry.id,
+      status: entry.status,
+      position,
+      quotedWaitMinutes,
+      message: quotedWaitMinutes !== null
+        ? `Added to the waitlist at position ${position}. Estimated wait: ${quotedWaitMinutes} minutes.`
+        : `Added to the waitlist at position ${position}. No single table seats this party, so the host will confirm the wait.`,
+    }, traceId);
+  }
+);
+
+// Guest CRM: what the restaurant knows about a guest, minus host-only notes
+server.tool(
+  TOOLS.tableManagement.getGuestProfile.name,
+  TOOLS.tableManagement.getGuestProfile.description,
+  TOOLS.tableManagement.getGuestProfile.schema.shape,
+  async ({ restaurantId, guestEmail }, _extra: any) => {
+    const traceId = _extra?.traceId || randomUUID();
+
+    try {
+      const profile = await findGuestProfile(restaurantId, guestEmail);
+      if (!profile) {
+        return createResponse({ found: false, message: "No guest profile for this email yet." }, traceId);
+      }
+
+      return createResponse({
+        found: true,
+        name: profile.name,
+        allergies: profile.allergies || [],
+        dietaryRestrictions: profile.dietaryRestrictions || [],
+        seatingPreferences: profile.seatingPreferences || [],
+        tags: profile.tags || [],
+        visitCount: profile.visitCount || 0,
+        lastVisitAt: profile.lastVisitAt,
+      }, traceId);
+    } catch (error: any) {
+      return createResponse({ error: error.message }, traceId, true);
+    }
+  }
+);
+
+// Standing reservations: books every date of an RRULE a rolling horizon ahead
+server.tool(
+  TOOLS.tableManagement.createReservationSeries.name,
+  TOOLS.tableManagement.createReservationSeries.description,
+  TOOLS.tableManagement.createReservationSeries.schema.shape,
+  async (args, _extra: any) => {
+    const traceId = _extra?.traceId || randomUUID();
+
+    try {
+      const { series, description, booked, skipped } = await createReservationSeries(args);
+      console.log(`[Trace:${traceId}] Created reservation series ${series.id} with ${booked.length} occurrences`);
+
+      return createResponse({
+        status: "confirmed",
+        seriesId: series.id,
+        schedule: description,
+        bookedOccurrences: booked.map(r => ({
+          booking_id: r.id,
+          date: r.occurrenceDate,
+          startTime: r.startTime,
+          tableId: r.tableId,
+          combinedTableIds: r.combinedTableIds || undefined,
+        })),
+        skippedOccurrences: skipped.length > 0 ? skipped : undefined,
+        message: skipped.length > 0
+          ? `Standing reservation created (${description}). ${booked.length} dates booked; ${skipped.length} could not be seated.`
+          : `Standing reservation created (${description}). ${booked.length} dates booked.`,
+      }, traceId);
+    } catch (error: any) {
+      return createResponse({ error: error.message }, traceId, true);
+    }
+  }
+);
+
+server.tool(
+  TOOLS.tableManagement.cancelReservationSeries.name,
+  TOOLS.tableManagement.cancelReservationSeries.description,
+  TOOLS.tableManagement.cancelReservationSeries.schema.shape,
+  async ({ seriesId, fromDate }, _extra: any) => {
+    const traceId = _extra?.traceId || randomUUID();
+
+    try {
+      const result = await cancelReservationSeries(seriesId, { fromDate });
+      if (!result) {
+        return createResponse({ error: "Reservation series not found" }, traceId, true);
+      }
+
+      console.log(`[Trace:${traceId}] Cancelled ${result.cancelled.length} occurrences of series ${seriesId}`);
+      return createResponse({
+        seriesId,
+        status: result.series.status,
+        endDate: result.series.endDate,
+        cancelledBookingIds: result.cancelled.map(r => r.id),
+        message: fromDate
+          ? `Standing reservation cancelled from ${fromDate}.`
+          : "Standing reservation cancelled.",
+      }, traceId);
+    } catch (error: any) {
+      return createResponse({ error: error.message }, traceId, true);
+    }
+  }
+);
+
+server.tool(
+  TOOLS.tableManagement.skipSeriesOccurrence.name,
+  TOOLS.tableManagement.skipSeriesOccurrence.description,
+  TOOLS.tableManagement.skipSeriesOccurrence.schema.shape,
+  async ({ seriesId, date }, _extra: any) => {
+    const traceId = _extra?.traceId || randomUUID();
+
+    try {
+      const result = await skipSeriesOccurrence(seriesId, date);
+      if (!result) {
+        return createResponse({ error: "Reservation series not found" }, traceId, true);
+      }
+
+      return createResponse({
+        seriesId,
+        date,
+        cancelledBookingId: result.cancelled?.id,
+        message: `${date} skipped; the rest of the standing reservation is unchanged.`,
+      }, traceId);
+    } catch (error: any) {
+      return createResponse({ error: error.message }, traceId, true);
+    }
+  }
+);
+
 // Operational State tool with traceId
 server.tool(
   (TOOLS.tableStack as any).getLiveOperationalState?.name || "get_live_operational_state",
@@ -13,12 +13,60 @@ export async function GET() {
         inputSchema: zodToJsonSchema(TOOLS.tableStack.getAvailability.schema),
         requires_confirmation: (TOOL_METADATA as any).check_availability.requires_confirmation,
       },
+      {
+        name: TOOLS.tableStack.getAvailabilitySlots.name,
+        description: TOOLS.tableStack.getAvailabilitySlots.description,
+        inputSchema: zodToJsonSchema(TOOLS.tableStack.getAvailabilitySlots.schema),
+        requires_confirmation: false,
+      },
       {
         name: TOOLS.tableStack.bookTable.name,
         description: TOOLS.tableStack.bookTable.description,
         inputSchema: zodToJsonSchema(TOOLS.tableStack.bookTable.schema),
         requires_confirmation: (TOOL_METADATA as any).book_tablestack_reservation.requires_confirmation,
       },
+      {
+        name: TOOLS.tableStack.holdTable.name,
+        description: TOOLS.tableStack.holdTable.description,
+        inputSchema: zodToJsonSchema(TOOLS.tableStack.holdTable.schema),
+        requires_confirmation: false,
+      },
+      {
+        name: TOOLS.tableStack.releaseTableHold.name,
+        description: TOOLS.tableStack.releaseTableHold.description,
+        inputSchema: zodToJsonSchema(TOOLS.tableStack.releaseTableHold.schema),
+        requires_confirmation: false,
+      },
+      {
+        name: TOOLS.tableManagement.addToWaitlist.name,
+        description: TOOLS.tableManagement.addToWaitlist.description,
+        inputSchema: zodToJsonSchema(TOOLS.tableManagement.addToWaitlist.schema),
+        requires_confirmation: (TOOL_METADATA as any).add_to_waitlist.requires_confirmation,
+      },
+      {
+        name: TOOLS.tableManagement.getGuestProfile.name,
+        description: TOOLS.tableManagement.getGuestProfile.description,
+        inputSchema: zodToJsonSchema(TOOLS.tableManagement.getGuestProfile.schema),
+        requires_confirmation: (TOOL_METADATA as any).get_guest_profile.requires_confirmation,
+      },
+      {
+        name: TOOLS.tableManagement.createReservationSeries.name,
+        description: TOOLS.tableManagement.createReservationSeries.description,
+        inputSchema: zodToJsonSchema(TOOLS.tableManagement.createReservationSeries.schema),
+        requires_confirmation: (TOOL_METADATA as any).create_reservation_series.requires_confirmation,
+      },
+      {
+        name: TOOLS.tableManagement.cancelReservationSeries.name,
+        description: TOOLS.tableManagement.cancelReservationSeries.description,
+        inputSchema: zodToJsonSchema(TOOLS.tableManagement.cancelReservationSeries.schema),
+        requires_confirmation: (TOOL_METADATA as any).cancel_reservation_series.requires_confirmation,
+      },
+      {
+        name: TOOLS.tableManagement.skipSeriesOccurrence.name,
+        description: TOOLS.tableManagement.skipSeriesOccurrence.description,
+        inputSchema: zodToJsonSchema(TOOLS.tableManagement.skipSeriesOccurrence.schema),
+        requires_confirmation: (TOOL_METADATA as any).skip_series_occurrence.requires_confirmation,
+      },
       {
         name: (TOOLS.tableStack as any).getLiveOperationalState.name,
         description: (TOOLS.tableStack as any).getLiveOperationalState.description,
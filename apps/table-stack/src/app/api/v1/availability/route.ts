@@ -1,123 +1,22 @@
 export const dynamic = 'force-dynamic';
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from "@repo/database";
-import { restaurantTables, restaurantReservations, restaurants } from "@repo/database";
-import { and, eq, gte, or, sql } from '@repo/database';
+import { restaurants } from "@repo/database";
+import { eq } from '@repo/database';
 import { addMinutes, parseISO } from 'date-fns';
-import { toZonedTime, format } from 'date-fns-tz';
-import { validateRequest } from '@/lib/auth';
+import { isAuthorized, validateRequest } from '@/lib/auth';
+import { getAvailableTables, getServiceSchedule, turnTimeFor } from '@/lib/availability';
+import { withAvailabilityCache } from '@/lib/availability-cache';
+import { isOpenAt } from '@/lib/service-schedule';
 
 export const runtime = 'edge';
 
-async function getAvailableTables(restaurantId: string, startTime: Date, partySize: number, duration: number) {
-  const endTime = addMinutes(startTime, duration);
-
-  const occupiedTableIdsQuery = db
-    .select({ tableId: restaurantReservations.tableId })
-    .from(restaurantReservations)
-    .where(
-      and(
-        eq(restaurantReservations.restaurantId, restaurantId),
-        or(
-          eq(restaurantReservations.status, 'confirmed'),
-          and(
-            eq(restaurantReservations.isVerified, false),
-            gte(restaurantReservations.createdAt, new Date(Date.now() - 15 * 60 * 1000))
-          )
-        ),
-        sql`(${restaurantReservations.startTime}, ${restaurantReservations.endTime}) OVERLAPS (${sql.placeholder(startTime.toISOString())}::timestamptz, ${sql.placeholder(endTime.toISOString())}::timestamptz)`
-      )
-    );
-
-  const occupiedTableIdsResult = await occupiedTableIdsQuery;
-  const occupiedTableIds = occupiedTableIdsResult.map((r: { tableId: string | null }) => r.tableId).filter(Boolean) as string[];
-
-  // Also check combinedTableIds from restaurantReservations
-  const occupiedCombinedTableIdsQuery = await db
-    .select({ combinedTableIds: restaurantReservations.combinedTableIds })
-    .from(restaurantReservations)
-    .where(
-      and(
-        eq(restaurantReservations.restaurantId, restaurantId),
-        or(
-          eq(restaurantReservations.status, 'confirmed'),
-          and(
-            eq(restaurantReservations.isVerified, false),
-            gte(restaurantReservations.createdAt, new Date(Date.now() - 15 * 60 * 1000))
-          )
-        ),
-        sql`(${restaurantReservations.startTime}, ${restaurantReservations.endTime}) OVERLAPS (${sql.placeholder(startTime.toISOString())}::timestamptz, ${sql.placeholder(endTime.toISOString())}::timestamptz)`
-      )
-    );
-
-  occupiedCombinedTableIdsQuery.forEach((r: { combinedTableIds: string[] | null }) => {
-    if (r.combinedTableIds) {
-      occupiedTableIds.push(...r.combinedTableIds);
-    }
-  });
-
-  const allTables = await db
-    .select()
-    .from(restaurantTables)
-    .where(
-      and(
-        eq(restaurantTables.restaurantId, restaurantId),
-        eq(restaurantTables.isActive, true),
-        eq(restaurantTables.status, 'vacant')
-      )
-    );
-
-  const availableIndividualTables = allTables.filter((t: any) => 
-    !occupiedTableIds.includes(t.id) && t.maxCapacity >= partySize
-  );
-
-  if (availableIndividualTables.length > 0) {
-    return availableIndividualTables.map((t: any) => ({ ...t, isCombined: false }));
-  }
-
-  // If no individual table fits, try joining two tables
-  // For simplicity, we only try joining TWO adjacent tables
-  const vacantTables = allTables.filter((t: any) => !occupiedTableIds.includes(t.id));
-  const suggestedCombos: any[] = [];
-
-  for (let i = 0; i < vacantTables.length; i++) {
-    for (let j = i + 1; j < vacantTables.length; j++) {
-      const t1 = vacantTables[i];
-      const t2 = vacantTables[j];
-
-      // Join capacity (e.g., two 2-tops = 4-top)
-      const combinedCapacity = t1.maxCapacity + t2.maxCapacity;
-      
-      if (combinedCapacity >= partySize) {
-        // Check adjacency (distance formula with threshold)
-        const distance = Math.sqrt(
-          Math.pow((t1.xPos || 0) - (t2.xPos || 0), 2) + 
-          Math.pow((t1.yPos || 0) - (t2.yPos || 0), 2)
-        );
-
-        if (distance < 120) { // Adjacency threshold in floor plan units
-          suggestedCombos.push({
-            id: `${t1.id}+${t2.id}`,
-            tableNumber: `${t1.tableNumber}+${t2.tableNumber}`,
-            combinedTableIds: [t1.id, t2.id],
-            maxCapacity: combinedCapacity,
-            isCombined: true,
-            table1: t1,
-            table2: t2,
-          });
-        }
-      }
-    }
-  }
-
-  return suggestedCombos;
-}
-
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
   const restaurantId = searchParams.get('restaurantId');
   const date = searchParams.get('date');
   const partySize = parseInt(searchParams.get('partySize') || '0');
+  const section = searchParams.get('section');
 
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -133,10 +32,10 @@ export async function GET(req: NextRequest) {
     const { error, status, context } = await validateRequest(req);
     if (error) return NextResponse.json({ message: error }, { status });
     
-    if (restaurantId !== context!.restaurantId) {
+    if (!isAuthorized(context, restaurantId, 'availability:read')) {
       return NextResponse.json({ message: 'Unauthorized access to this restaurant data' }, { status: 403 });
     }
-    targetRestaurantId = context!.restaurantId;
+    targetRestaurantId = restaurantId;
   } else {
     // If no API key, we allow public availability checks for a specific restaurant
     targetRestaurantId = restaurantId;
@@ -152,54 +51,63 @@ export async function GET(req: NextRequest) {
     }
 
     const requestedDate = parseISO(date);
-    const timezone = restaurant.timezone || 'UTC';
-    const restaurantTime = toZonedTime(requestedDate, timezone);
-    
-    const dayOfWeek = format(restaurantTime, 'eeee', { timeZone: timezone }).toLowerCase();
-    const openDays = restaurant.daysOpen?.split(',').map((d: string) => d.trim().toLowerCase()) || [];
-    
-    if (!openDays.includes(dayOfWeek)) {
-      return NextResponse.json({ message: 'Restaurant is closed on this day', availableTables: [] });
+    if (isNaN(requestedDate.getTime())) {
+      return NextResponse.json({ message: 'Missing or invalid parameters' }, { status: 400 });
     }
 
-    const timeStr = format(restaurantTime, 'HH:mm', { timeZone: timezone });
-    if (timeStr < (restaurant.openingTime || '00:00') || timeStr > (restaurant.closingTime || '23:59')) {
-      return NextResponse.json({ message: 'Restaurant is closed at this time', availableTables: [] });
-    }
+    const { value, cache } = await withAvailabilityCache(
+      restaurant,
+      { kind: 'tables', at: requestedDate, partySize, section },
+      async () => {
+        const timezone = restaurant.timezone || 'UTC';
+        const schedule = await getServiceSchedule(restaurant);
 
-    const duration = restaurant.defaultDurationMinutes || 90;
-    const availableTables = await getAvailableTables(targetRestaurantId, requestedDate, partySize, duration);
-
-    const suggestedSlots: { time: string, availableTables: typeof availableTables }[] = [];
-
-    if (availableTables.length === 0) {
-      const offsets = [-30, 30, -60, 60];
-      for (const offset of offsets) {
-        const suggestedTime = addMinutes(requestedDate, offset);
-        const suggestedZonedTime = toZonedTime(suggestedTime, timezone);
-        const suggestedTimeStr = format(suggestedZonedTime, 'HH:mm', { timeZone: timezone });
-        
-        if (suggestedTimeStr < (restaurant.openingTime || '00:00') || suggestedTimeStr > (restaurant.closingTime || '23:59')) {
-          continue;
+        if (!isOpenAt(requestedDate, timezone, schedule)) {
+          return { message: 'Restaurant is closed at this time', availableTables: [] };
         }
 
-        const tables = await getAvailableTables(targetRestaurantId, suggestedTime, partySize, duration);
-        if (tables.length > 0) {
-          suggestedSlots.push({
-            time: suggestedTime.toISOString(),
-            availableTables: tables,
-          });
+        const duration = turnTimeFor(restaurant, schedule, requestedDate, partySize);
+        const availableTables = await getAvailableTables(targetRestaurantId, requestedDate, partySize, duration, { section });
+
+        const suggestedSlots: { time: string, availableTables: typeof availableTables }[] = [];
+
+        if (availableTables.length === 0) {
+          const offsets = [-30, 30, -60, 60];
+          for (const offset of offsets) {
+            const suggestedTime = addMinutes(requestedDate, offset);
+
+            if (!isOpenAt(suggestedTime, timezone, schedule)) {
+              continue;
+            }
+
+            const tables = await getAvailableTables(
+              targetRestaurantId,
+              suggestedTime,
+              partySize,
+              turnTimeFor(restaurant, schedule, suggestedTime, partySize),
+              { section }
+            );
+            if (tables.length > 0) {
+              suggestedSlots.push({
+                time: suggestedTime.toISOString(),
+                availableTables: tables,
+              });
+            }
+          }
         }
+
+        return {
+          restaurantId: targetRestaurantId,
+          requestedTime: requestedDate.toISOString(),
+          partySize,
+          section: section || undefined,
+          availableTables,
+          suggestedSlots: suggestedSlots.length > 0 ? suggestedSlots : undefined,
+        };
       }
-    }
+    );
 
-    return NextResponse.json({
-      restaurantId: targetRestaurantId,
-      requestedTime: requestedDate.toISOString(),
-      partySize,
-      availableTables,
-      suggestedSlots: suggestedSlots.length > 0 ? suggestedSlots : undefined,
-    });
+    return NextResponse.json(value, { headers: { 'x-cache': cache.toUpperCase() } });
   } catch (error) {
     console.error('Availability Error:', error);
     return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
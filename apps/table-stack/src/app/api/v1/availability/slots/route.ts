@@ -0,0 +1,82 @@
+export const dynamic = 'force-dynamic';
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from "@repo/database";
+import { restaurants } from "@repo/database";
+import { eq } from '@repo/database';
+import { isAuthorized, validateRequest } from '@/lib/auth';
+import { getAvailabilityGrid } from '@/lib/availability';
+import { withAvailabilityCache } from '@/lib/availability-cache';
+import { DEFAULT_SLOT_INTERVAL, isSlotInterval } from '@/lib/slot-grid';
+
+export const runtime = 'edge';
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const restaurantId = searchParams.get('restaurantId');
+  const date = searchParams.get('date');
+  const partySize = parseInt(searchParams.get('partySize') || '0');
+  const section = searchParams.get('section');
+  const intervalParam = searchParams.get('interval');
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+  if (!restaurantId || restaurantId === 'undefined' || !uuidRegex.test(restaurantId) || !date || !dateRegex.test(date) || isNaN(partySize) || partySize < 1) {
+    return NextResponse.json({ message: 'Missing or invalid parameters' }, { status: 400 });
+  }
+
+  if (intervalParam && !isSlotInterval(parseInt(intervalParam))) {
+    return NextResponse.json({ message: 'Interval must be 15 or 30 minutes' }, { status: 400 });
+  }
+
+  // Determine target restaurant ID
+  let targetRestaurantId: string;
+
+  const apiKey = req.headers.get('x-api-key');
+  if (apiKey) {
+    const { error, status, context } = await validateRequest(req);
+    if (error) return NextResponse.json({ message: error }, { status });
+
+    if (!isAuthorized(context, restaurantId, 'availability:read')) {
+      return NextResponse.json({ message: 'Unauthorized access to this restaurant data' }, { status: 403 });
+    }
+    targetRestaurantId = restaurantId;
+  } else {
+    // If no API key, we allow public availability checks for a specific restaurant
+    targetRestaurantId = restaurantId;
+  }
+
+  try {
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, targetRestaurantId),
+    });
+
+    if (!restaurant) {
+      return NextResponse.json({ message: 'Restaurant not found' }, { status: 404 });
+    }
+
+    const interval = intervalParam
+      ? parseInt(intervalParam)
+      : isSlotInterval(restaurant.slotIntervalMinutes ?? 0) ? restaurant.slotIntervalMinutes! : DEFAULT_SLOT_INTERVAL;
+
+    // Closed days and exceptions yield an empty grid
+    const { value: slots, cache } = await withAvailabilityCache(
+      restaurant,
+      { kind: 'slots', date, partySize, interval, section },
+      () => getAvailabilityGrid(restaurant, date, partySize, interval, section)
+    );
+
+    return NextResponse.json({
+      restaurantId: targetRestaurantId,
+      date,
+      partySize,
+      section: section || undefined,
+      interval,
+      timezone: restaurant.timezone || 'UTC',
+      slots,
+    }, { headers: { 'x-cache': cache.toUpperCase() } });
+  } catch (error) {
+    console.error('Availability Slots Error:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,56 +1,84 @@
 export const dynamic = 'force-dynamic';
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from "@repo/database";
-import { restaurantReservations } from "@repo/database";
+import { restaurants } from "@repo/database";
 import { eq } from '@repo/database';
+import { IdempotencyService } from '@repo/shared';
 import { NotifyService } from '@/lib/notifications';
+import { sendConfirmationEmail } from '@/lib/reservation-emails';
+import { redis } from '@/lib/redis';
+import { StripeEvent, StripeSignatureError, verifyStripeSignature } from '@/lib/stripe';
+import { depositUpdateForEvent } from '@/lib/deposits';
+import { applyWebhookDepositUpdate } from '@/lib/deposit-settlement';
 
 export const runtime = 'edge';
 
+/**
+ * Stripe webhook for reservation deposits. Events are signature-checked
+ * against STRIPE_WEBHOOK_SECRET and processed at most once per event id;
+ * a failed event releases its idempotency key so Stripe's retry is handled.
+ */
 export async function POST(req: NextRequest) {
-  // Stripe Webhook handling placeholder
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('Checkout Webhook Error: STRIPE_WEBHOOK_SECRET is not configured');
+    return NextResponse.json({ message: 'Webhook not configured' }, { status: 500 });
+  }
+
+  let event: StripeEvent;
   try {
-    const body = await req.json();
-    
-    // In a real app, you would verify the Stripe signature here
-    // const sig = req.headers.get('stripe-signature');
-    // const event = stripe.webhooks.constructEvent(body, sig, endpointSecret);
-
-    const event = body; // Assume body is the event for now
-
-    if (event.type === 'payment_intent.succeeded') {
-      const paymentIntent = event.data.object;
-      const reservationId = paymentIntent.metadata.reservationId;
-
-      if (reservationId) {
-        const reservation = await db.query.restaurantReservations.findFirst({
-          where: eq(restaurantReservations.id, reservationId),
-          with: {
-            restaurant: true,
-          },
-        });
+    const payload = await req.text();
+    event = await verifyStripeSignature(payload, req.headers.get('stripe-signature'), secret);
+  } catch (error) {
+    if (error instanceof StripeSignatureError || error instanceof SyntaxError) {
+      return NextResponse.json({ message: `Invalid webhook: ${error.message}` }, { status: 400 });
+    }
+    console.error('Checkout Webhook Error:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
 
-        if (reservation) {
-          await db.update(restaurantReservations)
-            .set({ isVerified: true, status: 'confirmed' })
-            .where(eq(restaurantReservations.id, reservationId));
-          
-          if (reservation.restaurant && reservation.restaurant.ownerEmail) {
-            await NotifyService.notifyOwner(reservation.restaurant.ownerEmail, {
-              guestName: reservation.guestName,
-              partySize: reservation.partySize,
-              startTime: reservation.startTime,
-            });
-          }
-          
-          console.log(`Reservation ${reservationId} verified via payment.`);
-        }
+  const idempotencyService = new IdempotencyService(redis);
+  if (await idempotencyService.isDuplicate(event.id, 'stripe_webhook')) {
+    return NextResponse.json({ received: true, duplicate: true });
+  }
+
+  try {
+    const change = depositUpdateForEvent(event);
+    if (!change) {
+      return NextResponse.json({ received: true });
+    }
+
+    const reservation = await applyWebhookDepositUpdate(change);
+    if (!reservation) {
+      // Unknown reservation, or an event older than what we already recorded
+      return NextResponse.json({ received: true });
+    }
+
+    await NotifyService.broadcast(reservation.restaurantId, 'reservation.deposit_updated', {
+      id: reservation.id,
+      depositStatus: reservation.depositStatus,
+      refundedAmount: reservation.refundedAmount,
+    });
+
+    if (change.confirms && reservation.status === 'confirmed') {
+      const restaurant = await db.query.restaurants.findFirst({
+        where: eq(restaurants.id, reservation.restaurantId),
+      });
+      if (restaurant?.ownerEmail) {
+        await NotifyService.notifyOwner(restaurant.ownerEmail, {
+          guestName: reservation.guestName,
+          partySize: reservation.partySize,
+          startTime: reservation.startTime,
+        });
       }
+      if (restaurant) await sendConfirmationEmail(reservation, restaurant);
+      console.log(`Reservation ${reservation.id} verified via payment.`);
     }
 
     return NextResponse.json({ received: true });
   } catch (error) {
     console.error('Checkout Webhook Error:', error);
+    await redis.del(await idempotencyService.getKey(event.id, 'stripe_webhook'));
     return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
   }
 }
@@ -1,7 +1,8 @@
 export const dynamic = 'force-dynamic';
 import { NextRequest, NextResponse } from 'next/server';
-import { validateRequest, verifySignature } from '@/lib/auth';
+import { isAuthorized, validateRequest, verifySignature } from '@/lib/auth';
 import { NotifyService } from '@/lib/notifications';
+import { emitWebhookEvent } from '@/lib/webhooks';
 
 export const runtime = 'edge';
 
@@ -36,10 +37,12 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ message: 'Missing restaurantId' }, { status: 400 });
     }
 
-    if (!context!.isInternal && targetRestaurantId !== context!.restaurantId) {
+    if (!isAuthorized(context, targetRestaurantId, 'deliveries:write')) {
       return NextResponse.json({ message: 'Unauthorized access to this restaurant' }, { status: 403 });
     }
 
+    const loggedAt = new Date().toISOString();
+
     // Broadcast to dashboard
     await NotifyService.broadcast(targetRestaurantId, 'DELIVERY_LOG_ENTRY', {
       orderId,
@@ -48,7 +51,12 @@ export async function POST(req: NextRequest) {
       customerId,
       priceDetails,
       status: 'dispatched',
-      timestamp: new Date().toISOString()
+      timestamp: loggedAt
+    });
+    await emitWebhookEvent(targetRestaurantId, 'delivery.status_changed', {
+      orderId,
+      status: 'dispatched',
+      timestamp: loggedAt
     });
 
     return NextResponse.json({ message: 'Delivery log entry created' });
@@ -1,7 +1,8 @@
 export const dynamic = 'force-dynamic';
 import { NextRequest, NextResponse } from 'next/server';
-import { validateRequest } from '@/lib/auth';
+import { isAuthorized, validateRequest } from '@/lib/auth';
 import { NotifyService } from '@/lib/notifications';
+import { emitWebhookEvent } from '@/lib/webhooks';
 
 export const runtime = 'edge';
 
@@ -21,14 +22,20 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ message: 'Missing restaurantId' }, { status: 400 });
     }
 
-    if (!context!.isInternal && targetRestaurantId !== context!.restaurantId) {
+    if (!isAuthorized(context, targetRestaurantId, 'deliveries:write')) {
       return NextResponse.json({ message: 'Unauthorized access to this restaurant' }, { status: 403 });
     }
 
+    const timestamp = new Date().toISOString();
     await NotifyService.notifyExternalDelivery(targetRestaurantId, {
       orderId,
       status: deliveryStatus,
-      timestamp: new Date().toISOString()
+      timestamp
+    });
+    await emitWebhookEvent(targetRestaurantId, 'delivery.status_changed', {
+      orderId,
+      status: deliveryStatus,
+      timestamp
     });
 
     return NextResponse.json({ message: 'Delivery update broadcasted' });
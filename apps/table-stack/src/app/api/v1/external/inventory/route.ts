@@ -1,19 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db, restaurantProducts, inventoryLevels } from "@repo/database";
-import { eq } from '@repo/database';
+import { eq, sql } from '@repo/database';
 import { SecurityProvider } from '@repo/auth';
+import { releaseExpiredHolds } from '@repo/shared';
+import { isAuthorized, validateRequest } from '@/lib/auth';
 
 export async function GET(req: NextRequest) {
-  // Security: Require a header x-internal-key that matches INTERNAL_SYSTEM_KEY.
+  const { searchParams } = new URL(req.url);
+  const restaurantId = searchParams.get('restaurantId');
+
+  // Security: Require a header x-internal-key that matches INTERNAL_SYSTEM_KEY,
+  // or an API key with the inventory:read scope for a single restaurant.
   const internalKey = req.headers.get('x-internal-key');
   if (!SecurityProvider.validateInternalKey(internalKey)) {
-    return new NextResponse('Unauthorized', { status: 401 });
+    if (!req.headers.get('x-api-key')) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+    const { error, status, context } = await validateRequest(req);
+    if (error) return NextResponse.json({ message: error }, { status });
+    if (!restaurantId || !isAuthorized(context, restaurantId, 'inventory:read')) {
+      return NextResponse.json({ message: 'Unauthorized access to this restaurant' }, { status: 403 });
+    }
   }
 
-  const { searchParams } = new URL(req.url);
-  const restaurantId = searchParams.get('restaurantId');
-
   try {
+    await releaseExpiredHolds();
+
+    // availableQuantity excludes stock held by in-flight checkouts
     const query = db
       .select({
         id: restaurantProducts.id,
@@ -21,7 +34,8 @@ export async function GET(req: NextRequest) {
         description: restaurantProducts.description,
         price: restaurantProducts.price,
         category: restaurantProducts.category,
-        availableQuantity: inventoryLevels.availableQuantity,
+        availableQuantity: sql<number>`greatest(${inventoryLevels.availableQuantity} - ${inventoryLevels.heldQuantity}, 0)`.mapWith(Number),
+        heldQuantity: inventoryLevels.heldQuantity,
         restaurantId: restaurantProducts.restaurantId,
       })
       .from(restaurantProducts)
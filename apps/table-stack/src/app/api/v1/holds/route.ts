@@ -0,0 +1,125 @@
+export const dynamic = 'force-dynamic';
+import { NextRequest, NextResponse } from 'next/server';
+import { db, restaurants } from "@repo/database";
+import { eq } from '@repo/database';
+import { parseISO } from 'date-fns';
+import { isAuthorized, validateRequest } from '@/lib/auth';
+import { HoldUnavailableError, placeBookingHold, releaseBookingHold } from '@/lib/booking-holds';
+import { DEFAULT_HOLD_MINUTES, heldTableIds, TablesBusyError, validateHoldMinutes } from '@/lib/hold-policy';
+
+export const runtime = 'edge';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Holds tables for a slot. Pass the returned `holdToken` to /api/v1/reserve
+ * to book them, or DELETE it to let them go early.
+ */
+export async function POST(req: NextRequest) {
+  const { error, status, context } = await validateRequest(req);
+  if (error) return NextResponse.json({ message: error }, { status });
+
+  try {
+    const { restaurantId, tableId, combinedTableIds, partySize, startTime, section, holdMinutes } = await req.json();
+
+    if (!restaurantId || !uuidRegex.test(restaurantId)) {
+      return NextResponse.json({ message: 'Missing or invalid restaurantId (UUID expected)' }, { status: 400 });
+    }
+
+    if (!isAuthorized(context, restaurantId, 'reservations:write')) {
+      return NextResponse.json({ message: 'Unauthorized access to this restaurant' }, { status: 403 });
+    }
+
+    const start = typeof startTime === 'string' ? parseISO(startTime) : null;
+    if (!start || isNaN(start.getTime()) || !Number.isInteger(partySize) || partySize < 1) {
+      return NextResponse.json({ message: 'Missing or invalid startTime or partySize' }, { status: 400 });
+    }
+
+    const tableIds: string[] = Array.isArray(combinedTableIds) && combinedTableIds.length > 0
+      ? combinedTableIds
+      : tableId ? [tableId] : [];
+    if (!tableIds.every(id => typeof id === 'string' && uuidRegex.test(id))) {
+      return NextResponse.json({ message: 'Invalid table ID' }, { status: 400 });
+    }
+
+    const minutes = holdMinutes ?? DEFAULT_HOLD_MINUTES;
+    const minutesError = validateHoldMinutes(minutes);
+    if (minutesError) return NextResponse.json({ message: minutesError }, { status: 400 });
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return NextResponse.json({ message: 'Restaurant not found' }, { status: 404 });
+    }
+
+    // Shadow listings have no floor plan to hold tables on
+    if (restaurant.isShadow) {
+      return NextResponse.json({ message: 'This restaurant does not take holds' }, { status: 400 });
+    }
+
+    const hold = await placeBookingHold(restaurant, {
+      startTime: start,
+      partySize,
+      tableIds,
+      section: typeof section === 'string' ? section : undefined,
+      minutes,
+    });
+
+    return NextResponse.json({
+      holdToken: hold.token,
+      restaurantId,
+      tableIds: heldTableIds(hold),
+      partySize: hold.partySize,
+      startTime: hold.startTime.toISOString(),
+      endTime: hold.endTime.toISOString(),
+      expiresAt: hold.expiresAt.toISOString(),
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof HoldUnavailableError || error instanceof TablesBusyError) {
+      return NextResponse.json({ message: error.message }, { status: 409 });
+    }
+    console.error('Hold Error:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Releases a hold before it expires: DELETE /api/v1/holds?restaurantId=…&token=…
+ */
+export async function DELETE(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const restaurantId = searchParams.get('restaurantId');
+  const token = searchParams.get('token');
+
+  if (!restaurantId || !uuidRegex.test(restaurantId) || !token || !uuidRegex.test(token)) {
+    return NextResponse.json({ message: 'Missing or invalid restaurantId or token' }, { status: 400 });
+  }
+
+  const { error, status, context } = await validateRequest(req);
+  if (error) return NextResponse.json({ message: error }, { status });
+
+  if (!isAuthorized(context, restaurantId, 'reservations:write')) {
+    return NextResponse.json({ message: 'Unauthorized access to this restaurant' }, { status: 403 });
+  }
+
+  try {
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return NextResponse.json({ message: 'Restaurant not found' }, { status: 404 });
+    }
+
+    if (!(await releaseBookingHold(restaurant, token))) {
+      return NextResponse.json({ message: 'Hold not found or no longer active' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Hold released' });
+  } catch (error) {
+    console.error('Hold Release Error:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
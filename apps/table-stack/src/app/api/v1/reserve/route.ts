@@ -1,17 +1,50 @@
 export const dynamic = 'force-dynamic';
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from "@repo/database";
-import { restaurants, restaurantReservations, guestProfiles, restaurantTables } from "@repo/database";
-import { and, eq, gte, lte, or, sql } from '@repo/database';
+import { restaurants, guestProfiles } from "@repo/database";
+import { eq, or } from '@repo/database';
 import { addMinutes, parseISO } from 'date-fns';
 import { NotifyService } from '@/lib/notifications';
-import { validateRequest } from '@/lib/auth';
+import { isAuthorized, validateRequest } from '@/lib/auth';
 import { IdempotencyService, IDEMPOTENCY_KEY_HEADER } from '@repo/shared';
 import { withNervousSystemTracing, injectTracingHeaders } from '@repo/shared/tracing';
 import { redis } from '@/lib/redis';
+import {
+  getAvailableTables,
+  validateCombinationForRestaurant,
+  isRestaurantOpenAt,
+  getTurnTimeMinutes,
+} from '@/lib/availability';
+import { getRequiredDeposit } from '@/lib/no-shows';
+import { openDepositCheckout } from '@/lib/deposit-settlement';
+import { sendVerificationEmail } from '@/lib/reservation-emails';
+import { BookingHold, findHoldForBooking, HoldUnavailableError } from '@/lib/booking-holds';
+import { bookTables } from '@/lib/bookings';
+import { TablesBusyError } from '@/lib/hold-policy';
+import { findGuestProfile, GuestProfile } from '@/lib/guests';
+import { normalizeEmail } from '@/lib/guest-profile';
+import { pickBestTables } from '@/lib/table-combinations';
 
 export const runtime = 'edge';
 
+/** Structured guest notes shared with listeners and the rejection feed */
+function guestPreferences(profile: GuestProfile): Record<string, unknown> {
+  return {
+    allergies: profile.allergies || [],
+    dietaryRestrictions: profile.dietaryRestrictions || [],
+    seatingPreferences: profile.seatingPreferences || [],
+    tags: profile.tags || [],
+  };
+}
+
+/** What the kitchen needs to know, returned to the booking agent */
+function dietaryNeeds(profile: GuestProfile) {
+  return {
+    allergies: profile.allergies || [],
+    dietaryRestrictions: profile.dietaryRestrictions || [],
+  };
+}
+
 export async function POST(req: NextRequest) {
   const { error, status, context } = await validateRequest(req);
   if (error) return NextResponse.json({ message: error }, { status });
@@ -37,6 +70,8 @@ export async function POST(req: NextRequest) {
       guestEmail, 
       partySize, 
       startTime,
+      section,
+      holdToken,
       metadata
     } = body;
 
@@ -72,7 +107,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ message: 'Restaurant identifier missing' }, { status: 400 });
     }
 
-    if (restaurantId && restaurantId !== targetRestaurantId) {
+    if ((restaurantId && restaurantId !== targetRestaurantId) || !isAuthorized(context, targetRestaurantId, 'reservations:write')) {
       return NextResponse.json({ message: 'Unauthorized access to this restaurant' }, { status: 403 });
     }
 
@@ -90,122 +125,120 @@ export async function POST(req: NextRequest) {
     }
 
     // Fetch guest profile for metadata propagation
-    const existingProfile = await db.query.guestProfiles.findFirst({
-      where: and(
-        eq(guestProfiles.restaurantId, targetRestaurantId),
-        eq(guestProfiles.email, guestEmail)
-      )
-    });
+    const existingProfile = await findGuestProfile(targetRestaurantId, guestEmail);
 
     // For shadow restaurants, we skip table conflict checks and just allow the booking
     const isShadow = restaurant.isShadow;
 
     const start = parseISO(startTime);
-    const end = addMinutes(start, 90);
+    const duration = await getTurnTimeMinutes(restaurant, start, partySize);
+    const end = addMinutes(start, duration);
+
+    if (!isShadow && !(await isRestaurantOpenAt(restaurant, start))) {
+      return NextResponse.json({ message: 'Restaurant is closed at this time' }, { status: 400 });
+    }
 
     let assignedTableId = tableId;
+    let assignedCombinedTableIds: string[] | null =
+      Array.isArray(combinedTableIds) && combinedTableIds.length > 0 ? combinedTableIds : null;
 
-    if (!isShadow && !assignedTableId && (!combinedTableIds || !Array.isArray(combinedTableIds) || combinedTableIds.length === 0)) {
-      // Auto-assign logic: find first vacant table matching partySize
-      const availableTable = await db.query.restaurantTables.findFirst({
-        where: and(
-          eq(restaurantTables.restaurantId, targetRestaurantId),
-          eq(restaurantTables.isActive, true),
-          lte(restaurantTables.minCapacity, partySize),
-          gte(restaurantTables.maxCapacity, partySize),
-          sql`NOT EXISTS (
-            SELECT 1 FROM ${restaurantReservations} r
-            WHERE r.table_id = ${restaurantTables.id}
-            AND r.status = 'confirmed'
-            AND (${restaurantReservations.startTime}, ${restaurantReservations.endTime}) OVERLAPS (${sql.placeholder(start.toISOString())}, ${sql.placeholder(end.toISOString())})
-          )`
-        ),
+    // A hold fixes the tables; its own claim on them is left out of the checks below
+    let hold: BookingHold | null = null;
+    if (holdToken) {
+      hold = await findHoldForBooking(holdToken, {
+        restaurantId: targetRestaurantId,
+        startTime: start,
+        partySize,
+        tableIds: assignedCombinedTableIds || (assignedTableId ? [assignedTableId] : undefined),
       });
+      assignedTableId = hold.tableId;
+      assignedCombinedTableIds = hold.combinedTableIds;
+    }
 
-      if (!availableTable) {
-        await NotifyService.notifyRejection(targetRestaurantId, {
-          guestEmail,
-          partySize,
-          startTime,
-          restaurantName: restaurant.name,
-          visitCount: existingProfile?.visitCount || 0,
-          preferences: existingProfile?.preferences || {}
-        });
-        return NextResponse.json({ message: 'No suitable tables available for this time and party size' }, { status: 409 });
+    if (!isShadow && assignedCombinedTableIds) {
+      const validation = await validateCombinationForRestaurant(targetRestaurantId, assignedCombinedTableIds, partySize, start);
+      if (!validation.valid) {
+        return NextResponse.json({ message: validation.error }, { status: 400 });
       }
-      assignedTableId = availableTable.id;
     }
 
-    if (!isShadow) {
-      const tablesToCheck = assignedTableId ? [assignedTableId] : combinedTableIds;
-
-      // Enhanced Conflict Detection for both single and combined tables
-      const conflict = await db.query.restaurantReservations.findFirst({
-        where: and(
-          eq(restaurantReservations.restaurantId, targetRestaurantId),
-          or(
-            eq(restaurantReservations.status, 'confirmed'),
-            and(
-              eq(restaurantReservations.isVerified, false),
-              gte(restaurantReservations.createdAt, new Date(Date.now() - 15 * 60 * 1000))
-            )
-          ),
-          // Use overlap logic
-          sql`(${restaurantReservations.startTime}, ${restaurantReservations.endTime}) OVERLAPS (${sql.placeholder(start.toISOString())}, ${sql.placeholder(end.toISOString())})`,
-          // Check if ANY of the tables we want are occupied
-          or(
-            // Check if it matches our single tableId
-            assignedTableId ? eq(restaurantReservations.tableId, assignedTableId) : undefined,
-            // OR if our tableId is part of someone else's combinedTables
-            assignedTableId ? sql`${restaurantReservations.combinedTableIds} @> ${sql.placeholder(JSON.stringify([assignedTableId]))}::jsonb` : undefined,
-            // OR if our combinedTableIds contains a tableId that is someone's single tableId
-            combinedTableIds ? sql`${restaurantReservations.tableId} = ANY(${sql.raw(`ARRAY['${tablesToCheck.join("','")}']::uuid[]`)})` : undefined,
-            // OR if our combinedTableIds overlap with someone else's combinedTableIds
-            combinedTableIds ? sql`${restaurantReservations.combinedTableIds} ?| ${sql.raw(`ARRAY['${tablesToCheck.join("','")}']`)}` : undefined
-          )
-        ),
-      });
+    if (!isShadow && !assignedTableId && !assignedCombinedTableIds) {
+      // Auto-assign logic: prefer a single table that fits, otherwise the
+      // adjacent combination wasting the fewest seats, in the requested section if any
+      const best = pickBestTables(await getAvailableTables(targetRestaurantId, start, partySize, duration, {
+        section: typeof section === 'string' ? section : undefined,
+      }), partySize);
 
-      if (conflict) {
+      if (!best) {
         await NotifyService.notifyRejection(targetRestaurantId, {
           guestEmail,
           partySize,
           startTime,
           restaurantName: restaurant.name,
           visitCount: existingProfile?.visitCount || 0,
-          preferences: existingProfile?.preferences || {}
+          preferences: existingProfile ? guestPreferences(existingProfile) : {}
         });
-        return NextResponse.json({ message: 'One or more tables are no longer available' }, { status: 409 });
+        return NextResponse.json({ message: 'No suitable tables available for this time and party size' }, { status: 409 });
+      }
+
+      if (best.isCombined) {
+        assignedCombinedTableIds = best.combinedTableIds;
+      } else {
+        assignedTableId = best.id;
       }
     }
 
-    const [newReservation] = await db.insert(restaurantReservations).values({
+    // Guests with a history of no-shows pay a deposit instead of verifying by email
+    const depositAmount = isShadow ? 0 : await getRequiredDeposit(restaurant, guestEmail);
+
+    // Conflict detection covers single tables and tables inside combinations
+    const outcome = await bookTables(restaurant, {
       restaurantId: targetRestaurantId,
       tableId: assignedTableId || null,
-      combinedTableIds: combinedTableIds || null,
+      combinedTableIds: assignedTableId ? null : assignedCombinedTableIds,
       guestName,
       guestEmail,
       partySize,
       startTime: start,
       endTime: end,
       isVerified: isShadow ? true : false,
+      depositAmount,
+      depositStatus: depositAmount > 0 ? 'pending' : null,
       metadata: metadata || null,
-    }).returning();
+    }, { hold, pacing: !isShadow });
 
-    // Upsert Guest Profile
-    const [profile] = await db.insert(guestProfiles).values({
-      restaurantId: targetRestaurantId,
-      email: guestEmail,
-      name: guestName,
-      visitCount: 1,
-    }).onConflictDoUpdate({
-      target: [guestProfiles.restaurantId, guestProfiles.email],
-      set: {
-        name: guestName, // Update name if it changed
-        visitCount: sql.raw(`${guestProfiles.visitCount} + 1`),
-        updatedAt: new Date(),
-      }
-    }).returning();
+    if (outcome.conflicts) {
+      await NotifyService.notifyRejection(targetRestaurantId, {
+        guestEmail,
+        partySize,
+        startTime,
+        restaurantName: restaurant.name,
+        visitCount: existingProfile?.visitCount || 0,
+        preferences: existingProfile ? guestPreferences(existingProfile) : {}
+      });
+      return NextResponse.json({ message: 'One or more tables are no longer available' }, { status: 409 });
+    }
+
+    if (outcome.paced) {
+      return NextResponse.json({ message: 'Too many guests are already arriving around this time' }, { status: 409 });
+    }
+
+    const newReservation = outcome.reservation;
+
+    // Upsert Guest Profile; visits are counted when the party is seated
+    const [profile] = existingProfile
+      ? await db.update(guestProfiles)
+          .set({ name: guestName, updatedAt: new Date() }) // Update name if it changed
+          .where(eq(guestProfiles.id, existingProfile.id))
+          .returning()
+      : await db.insert(guestProfiles).values({
+          restaurantId: targetRestaurantId,
+          email: normalizeEmail(guestEmail),
+          name: guestName,
+        }).onConflictDoUpdate({
+          target: [guestProfiles.restaurantId, guestProfiles.email],
+          set: { name: guestName, updatedAt: new Date() },
+        }).returning();
 
     // High-Value Guest Hook: Trigger logistics if guest is frequent
     if ((profile.visitCount ?? 0) >= 5) {
@@ -224,7 +257,7 @@ export async function POST(req: NextRequest) {
             email: profile.email,
             visitCount: profile.visitCount,
             defaultDeliveryAddress: profile.defaultDeliveryAddress,
-            preferences: profile.preferences || {},
+            preferences: guestPreferences(profile),
           },
           reservation: {
             id: newReservation.id,
@@ -259,28 +292,32 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({
         message: 'Shadow reservation created. Restaurant has been notified.',
         bookingId: newReservation.id,
+        guestProfile: dietaryNeeds(profile),
       });
     }
 
-    // Send Verification Notification
-    const verifyUrl = `${new URL(req.url).origin}/verify/${newReservation.verificationToken}`;
-    
-    await NotifyService.sendNotification({
-      to: guestEmail,
-      subject: `Confirm your reservation at ${restaurant.name}`,
-      html: `
-        <h1>Hello ${guestName},</h1>
-        <p>Please confirm your reservation for ${partySize} people on ${start.toLocaleString()}.</p>
-        <p><a href="${verifyUrl}">Click here to confirm your booking</a></p>
-        <p>This link will expire in 15 minutes.</p>
-      `,
-    });
+    if (depositAmount > 0) {
+      return NextResponse.json({
+        message: 'A deposit is required to confirm this reservation.',
+        bookingId: newReservation.id,
+        depositRequired: true,
+        depositAmount,
+        depositCheckoutUrl: await openDepositCheckout(newReservation, restaurant),
+        guestProfile: dietaryNeeds(profile),
+      }, { status: 202 });
+    }
+
+    await sendVerificationEmail(newReservation, restaurant);
 
     return NextResponse.json({
       message: 'Reservation created. Please check your email to verify.',
       bookingId: newReservation.id,
+      guestProfile: dietaryNeeds(profile),
     });
   } catch (error) {
+    if (error instanceof HoldUnavailableError || error instanceof TablesBusyError) {
+      return NextResponse.json({ message: error.message }, { status: 409 });
+    }
     console.error('Reservation Error:', error);
     return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
   }
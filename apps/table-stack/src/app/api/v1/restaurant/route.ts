@@ -3,7 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from "@repo/database";
 import { restaurants } from "@repo/database";
 import { eq } from '@repo/database';
-import { validateRequest } from '@/lib/auth';
+import { isAuthorized, validateRequest } from '@/lib/auth';
 
 export const runtime = 'edge';
 
@@ -77,6 +77,10 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ message: 'Restaurant ID not found in context' }, { status: 403 });
     }
 
+    if (!isAuthorized(context, restaurantId, 'restaurant:read')) {
+      return NextResponse.json({ message: 'API key is missing the restaurant:read scope' }, { status: 403 });
+    }
+
     const restaurant = await db.query.restaurants.findFirst({
       where: eq(restaurants.id, restaurantId),
     });
@@ -4,6 +4,7 @@ import { db } from "@repo/database";
 import { restaurantReservations } from "@repo/database";
 import { eq } from '@repo/database';
 import { NotifyService } from '@/lib/notifications';
+import { sendConfirmationEmail } from '@/lib/reservation-emails';
 
 export const runtime = 'edge';
 
@@ -33,10 +34,16 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ message: 'Reservation already verified' });
     }
 
+    // Deposit reservations are confirmed by the payment webhook instead
+    if ((reservation.depositAmount ?? 0) > 0) {
+      return NextResponse.json({ message: 'A deposit is required to confirm this reservation' }, { status: 402 });
+    }
+
     // Mark as verified
-    await db.update(restaurantReservations)
+    const [verified] = await db.update(restaurantReservations)
       .set({ isVerified: true, status: 'confirmed' })
-      .where(eq(restaurantReservations.id, reservation.id));
+      .where(eq(restaurantReservations.id, reservation.id))
+      .returning();
 
     // Notify owner
     if (reservation.restaurant && reservation.restaurant.ownerEmail) {
@@ -46,6 +53,7 @@ export async function GET(req: NextRequest) {
         startTime: reservation.startTime,
       });
     }
+    await sendConfirmationEmail(verified, reservation.restaurant);
 
     return NextResponse.json({ message: 'Verification successful' });
   } catch (error) {
@@ -1,8 +1,9 @@
 export const dynamic = 'force-dynamic';
 import { NextRequest, NextResponse } from 'next/server';
-import { db, restaurantWaitlist } from "@repo/database";
-import { and, eq } from '@repo/database';
-import { validateRequest } from '@/lib/auth';
+import { db, restaurants } from "@repo/database";
+import { eq } from '@repo/database';
+import { isAuthorized, validateRequest } from '@/lib/auth';
+import { getWaitlistQuotes, joinWaitlist } from '@/lib/waitlist-queue';
 
 export const runtime = 'edge';
 
@@ -21,18 +22,21 @@ export async function GET(req: NextRequest) {
   const { error, status, context } = await validateRequest(req);
   if (error) return NextResponse.json({ message: error }, { status });
 
-  if (!context?.isInternal && restaurantId !== context?.restaurantId) {
+  if (!isAuthorized(context, restaurantId, 'reservations:read')) {
     return NextResponse.json({ message: 'Unauthorized access' }, { status: 403 });
   }
 
   try {
-    const entries = await db.query.restaurantWaitlist.findMany({
-      where: and(
-        eq(restaurantWaitlist.restaurantId, restaurantId),
-        eq(restaurantWaitlist.status, 'waiting')
-      ),
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, restaurantId),
     });
 
+    if (!restaurant) {
+      return NextResponse.json({ message: 'Restaurant not found' }, { status: 404 });
+    }
+
+    const entries = await getWaitlistQuotes(restaurant);
+
     return NextResponse.json({
       restaurantId,
       waitlistCount: entries.length,
@@ -43,3 +47,45 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
   }
 }
+
+export async function POST(req: NextRequest) {
+  const { error, status, context } = await validateRequest(req);
+  if (error) return NextResponse.json({ message: error }, { status });
+
+  try {
+    const { restaurantId, guestName, guestEmail, partySize } = await req.json();
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+    if (!restaurantId || !uuidRegex.test(restaurantId)) {
+      return NextResponse.json({ message: 'Missing or invalid restaurantId (UUID expected)' }, { status: 400 });
+    }
+
+    if (!isAuthorized(context, restaurantId, 'reservations:write')) {
+      return NextResponse.json({ message: 'Unauthorized access' }, { status: 403 });
+    }
+
+    if (!guestName || !guestEmail || !Number.isInteger(partySize) || partySize < 1) {
+      return NextResponse.json({ message: 'Missing required guest fields' }, { status: 400 });
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return NextResponse.json({ message: 'Restaurant not found' }, { status: 404 });
+    }
+
+    const { entry, position, quotedWaitMinutes } = await joinWaitlist(restaurant, { guestName, guestEmail, partySize });
+
+    return NextResponse.json({
+      waitlistId: entry.id,
+      status: entry.status,
+      position,
+      quotedWaitMinutes,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Waitlist API Error:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
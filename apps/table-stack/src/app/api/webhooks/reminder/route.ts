@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyQStashWebhook } from '@repo/shared';
+import { sendDueReminder } from '@/lib/reservation-emails';
+
+const ReminderMessageSchema = z.object({
+  reservationId: z.string().uuid(),
+  startTime: z.string().datetime(),
+  leadHours: z.number().int().positive(),
+});
+
+/**
+ * Delivery target for reminder messages scheduled through QStash.
+ * Stale reminders are acknowledged without sending so QStash does not retry.
+ */
+export async function POST(req: NextRequest) {
+  const rawBody = await req.text();
+
+  // Signing keys are only optional outside production
+  const hasSigningKey = !!process.env.QSTASH_CURRENT_SIGNING_KEY;
+  if (hasSigningKey || process.env.NODE_ENV === 'production') {
+    const isValid = await verifyQStashWebhook(
+      rawBody,
+      req.headers.get('upstash-signature'),
+      req.headers.get('upstash-key-id')
+    );
+    if (!isValid) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return new NextResponse('Invalid JSON', { status: 400 });
+  }
+
+  const message = ReminderMessageSchema.safeParse(body);
+  if (!message.success) {
+    return new NextResponse('Invalid reminder message', { status: 400 });
+  }
+
+  try {
+    const result = await sendDueReminder(message.data);
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error('Reminder delivery error:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
@@ -1,23 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { resend } from '@/lib/resend';
+import { db, restaurantReservations, eq } from '@repo/database';
+import { sendReservationEmail } from '@/lib/reservation-emails';
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { status, guestEmail, guestName } = body;
+    const { status, reservationId } = body;
 
     // Check if the reservation is marked as "Fulfilled"
     if (status === 'Fulfilled' || status === 'fulfilled') {
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+      if (typeof reservationId !== 'string' || !uuidRegex.test(reservationId)) {
+        return new NextResponse('reservationId is required', { status: 400 });
+      }
+
+      // The thank-you goes to the guest on file, in the restaurant's template
+      const reservation = await db.query.restaurantReservations.findFirst({
+        where: eq(restaurantReservations.id, reservationId),
+        with: { restaurant: true },
+      });
+      if (!reservation) {
+        return new NextResponse('Reservation not found', { status: 404 });
+      }
+
       if (!process.env.RESEND_API_KEY) {
         console.warn('RESEND_API_KEY is missing. Skipping email notification.');
       } else {
         try {
-          await resend.emails.send({
-            from: 'TableStack <onboarding@resend.dev>',
-            to: [guestEmail],
-            subject: 'Thank You for Visiting!',
-            html: `<p>Hi ${guestName},</p><p>Thank you for dining with us! We hope to see you again soon.</p>`,
-          });
+          await sendReservationEmail('thank_you', reservation, reservation.restaurant);
         } catch (emailError) {
           console.error('Failed to send thank you email:', emailError);
         }
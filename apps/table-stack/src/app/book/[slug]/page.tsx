@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
-import { format, addMinutes } from "date-fns";
+import { format } from "date-fns";
 import { fromZonedTime, toZonedTime } from "date-fns-tz";
 import { DayPicker } from "react-day-picker";
 import "react-day-picker/dist/style.css";
@@ -78,8 +78,7 @@ export default function BookingPage({ params }: { params: Promise<{ slug: string
       throw new Error("Fully booked for this time. Please try another slot.");
     }
 
-    // 2. Create reservation
-    const duration = restaurant.defaultDurationMinutes || 90;
+    // 2. Create reservation (the server applies the turn time)
     const res = await createReservation({
       restaurantId: restaurant.id,
       tableId: availData.availableTables[0].id,
@@ -87,10 +86,9 @@ export default function BookingPage({ params }: { params: Promise<{ slug: string
       guestEmail: data.guestInfo.email,
       partySize: data.partySize,
       startTime: checkTime.toISOString(),
-      endTime: addMinutes(checkTime, duration).toISOString(),
     });
     
-    return res.id;
+    return { id: res.id, depositAmount: res.depositAmount, depositCheckoutUrl: res.depositCheckoutUrl };
   };
 
   if (!restaurant) {
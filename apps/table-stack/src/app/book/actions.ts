@@ -1,8 +1,18 @@
 "use server";
 
-import { db, restaurants, restaurantReservations, restaurantWaitlist, eq } from "@repo/database";
+import { db, restaurants, restaurantReservations, eq } from "@repo/database";
 import { revalidatePath } from "next/cache";
 import { NotifyService } from "@/lib/notifications";
+import { addMinutes } from "date-fns";
+import { getTurnTimeMinutes, isRestaurantOpenAt, reassignTables, validateCombinationForRestaurant } from "@/lib/availability";
+import { parseCombinationId } from "@/lib/table-combinations";
+import { joinWaitlist } from "@/lib/waitlist-queue";
+import { getRequiredDeposit } from "@/lib/no-shows";
+import { openDepositCheckout, settleCancelledReservationDeposit } from "@/lib/deposit-settlement";
+import { cancelReservationSeries, recordSeriesException } from "@/lib/reservation-series";
+import { publishReservationEvent } from "@/lib/reservation-events";
+import { bookTables, moveReservation } from "@/lib/bookings";
+import { sendCancellationEmail, sendConfirmationEmail, sendModificationEmail } from "@/lib/reservation-emails";
 
 export async function createReservation(data: {
   restaurantId: string;
@@ -11,50 +21,86 @@ export async function createReservation(data: {
   guestEmail: string;
   partySize: number;
   startTime: string;
-  endTime: string;
 }) {
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
   
-  if (!uuidRegex.test(data.restaurantId) || !uuidRegex.test(data.tableId)) {
+  // Combined tables arrive as "id1+id2" from the availability endpoints
+  const tableIds = parseCombinationId(data.tableId);
+  const isCombined = tableIds.length > 1;
+
+  if (!uuidRegex.test(data.restaurantId) || !tableIds.every(id => uuidRegex.test(id))) {
     throw new Error("Invalid restaurant or table ID");
   }
 
-  const [reservation] = await db.insert(restaurantReservations).values({
+  const restaurant = await db.query.restaurants.findFirst({
+    where: eq(restaurants.id, data.restaurantId),
+  });
+
+  if (!restaurant) throw new Error("Restaurant not found");
+
+  // Table hold length follows the restaurant's turn time rules
+  const startTime = new Date(data.startTime);
+  const endTime = addMinutes(startTime, await getTurnTimeMinutes(restaurant, startTime, data.partySize));
+
+  if (!(await isRestaurantOpenAt(restaurant, startTime))) {
+    throw new Error("The restaurant is not taking bookings at this time.");
+  }
+
+  if (isCombined) {
+    const validation = await validateCombinationForRestaurant(data.restaurantId, tableIds, data.partySize, startTime);
+    if (!validation.valid) throw new Error(validation.error);
+  }
+
+  // Guests with a history of no-shows stay unconfirmed until their deposit is paid
+  const depositAmount = await getRequiredDeposit(restaurant, data.guestEmail);
+
+  const outcome = await bookTables(restaurant, {
     restaurantId: data.restaurantId,
-    tableId: data.tableId,
+    tableId: isCombined ? null : data.tableId,
+    combinedTableIds: isCombined ? tableIds : null,
     guestName: data.guestName,
     guestEmail: data.guestEmail,
     partySize: data.partySize,
-    startTime: new Date(data.startTime),
-    endTime: new Date(data.endTime),
+    startTime,
+    endTime,
     status: 'confirmed',
-    isVerified: true, // Auto-verify for this demo
-  }).returning();
-
-  const restaurant = await db.query.restaurants.findFirst({
-    where: eq(restaurants.id, data.restaurantId),
+    isVerified: depositAmount === 0, // Auto-verify for this demo unless a deposit is due
+    depositAmount,
+    depositStatus: depositAmount > 0 ? 'pending' : null,
   });
 
-  if (restaurant) {
-    // Notify via email
-    await NotifyService.notifyOwner(restaurant.ownerEmail, {
-      guestName: data.guestName,
-      partySize: data.partySize,
-      startTime: new Date(data.startTime),
-    });
+  if (outcome.conflicts) {
+    throw new Error("This table was just booked. Please choose another time.");
+  }
+  if (outcome.paced) {
+    throw new Error("Too many guests are already arriving around this time. Please choose another slot.");
+  }
+  const reservation = outcome.reservation;
 
-    // Real-time update via Ably
-    await NotifyService.broadcast(restaurant.id, 'reservation.created', {
-      id: reservation.id,
-      guestName: reservation.guestName,
-      partySize: reservation.partySize,
-      startTime: reservation.startTime,
-      tableId: reservation.tableId,
-    });
+  if (depositAmount > 0) {
+    revalidatePath(`/dashboard/${data.restaurantId}`);
+    return { ...reservation, depositCheckoutUrl: await openDepositCheckout(reservation, restaurant) };
   }
 
+  // Notify via email
+  await NotifyService.notifyOwner(restaurant.ownerEmail, {
+    guestName: data.guestName,
+    partySize: data.partySize,
+    startTime: new Date(data.startTime),
+  });
+  await sendConfirmationEmail(reservation, restaurant);
+
+  // Real-time update via Ably
+  await NotifyService.broadcast(restaurant.id, 'reservation.created', {
+    id: reservation.id,
+    guestName: reservation.guestName,
+    partySize: reservation.partySize,
+    startTime: reservation.startTime,
+    tableId: reservation.tableId,
+  });
+
   revalidatePath(`/dashboard/${data.restaurantId}`);
-  return reservation;
+  return { ...reservation, depositCheckoutUrl: null };
 }
 
 export async function cancelReservation(reservationId: string) {
@@ -64,10 +110,33 @@ export async function cancelReservation(reservationId: string) {
     .returning();
 
   if (reservation) {
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, reservation.restaurantId),
+    });
+
+    // Refund per the restaurant's cancellation window; a Stripe failure leaves
+    // the deposit for staff to settle rather than blocking the cancellation
+    if (reservation.depositStatus && restaurant) {
+      try {
+        await settleCancelledReservationDeposit(reservation, restaurant);
+      } catch (error) {
+        console.error('Deposit settlement failed:', error);
+      }
+    }
+
+    // A cancelled occurrence of a standing reservation must not be re-booked
+    if (reservation.seriesId && reservation.occurrenceDate) {
+      await recordSeriesException(reservation.seriesId, reservation.occurrenceDate);
+    }
+
     // Real-time update via Ably
     await NotifyService.broadcast(reservation.restaurantId, 'RESERVATION_CANCELLED', {
       id: reservation.id,
     });
+    if (restaurant) {
+      await publishReservationEvent(restaurant, { type: 'RESERVATION_CANCELLED', reservations: [reservation] });
+      await sendCancellationEmail(reservation, restaurant);
+    }
 
     revalidatePath(`/dashboard/${reservation.restaurantId}`);
     revalidatePath(`/book/manage/${reservationId}`);
@@ -75,6 +144,130 @@ export async function cancelReservation(reservationId: string) {
   return reservation;
 }
 
+/**
+ * Ends the standing reservation a booking belongs to, cancelling this and
+ * every later occurrence. Earlier occurrences are kept.
+ */
+export async function cancelStandingReservation(reservationId: string) {
+  const reservation = await db.query.restaurantReservations.findFirst({
+    where: eq(restaurantReservations.id, reservationId),
+  });
+
+  if (!reservation?.seriesId) throw new Error("This reservation is not part of a standing booking");
+
+  const result = await cancelReservationSeries(reservation.seriesId, {
+    fromDate: reservation.occurrenceDate,
+    restaurantId: reservation.restaurantId,
+  });
+
+  revalidatePath(`/dashboard/${reservation.restaurantId}`);
+  revalidatePath(`/book/manage/${reservationId}`);
+  return result;
+}
+
+/**
+ * Lets a guest move their reservation to a new time and/or party size. The
+ * reservation keeps its id and verification state; its tables are kept when
+ * they still work and reassigned otherwise.
+ */
+export async function modifyReservation(reservationId: string, changes: {
+  startTime: string;
+  partySize: number;
+}) {
+  const reservation = await db.query.restaurantReservations.findFirst({
+    where: eq(restaurantReservations.id, reservationId),
+    with: {
+      restaurant: true,
+    },
+  });
+
+  if (!reservation) throw new Error("Reservation not found");
+  if (reservation.status !== 'confirmed' || reservation.seatedAt) {
+    throw new Error("This reservation can no longer be changed.");
+  }
+
+  const { restaurant } = reservation;
+  const startTime = new Date(changes.startTime);
+  if (isNaN(startTime.getTime()) || startTime <= new Date()) {
+    throw new Error("Please choose a time in the future.");
+  }
+  if (!Number.isInteger(changes.partySize) || changes.partySize < 1) {
+    throw new Error("Invalid party size");
+  }
+
+  const endTime = addMinutes(startTime, await getTurnTimeMinutes(restaurant, startTime, changes.partySize));
+
+  if (!(await isRestaurantOpenAt(restaurant, startTime))) {
+    throw new Error("The restaurant is not taking bookings at this time.");
+  }
+
+  const tables = await reassignTables(reservation, startTime, endTime, changes.partySize);
+  if (!tables) {
+    throw new Error("No tables are available for that time and party size.");
+  }
+
+  // The tables were picked before the lock, so they are checked again under it
+  const outcome = await moveReservation(restaurant, reservation, {
+    ...tables,
+    startTime,
+    endTime,
+    partySize: changes.partySize,
+  });
+  if (outcome.conflicts) {
+    throw new Error("No tables are available for that time and party size.");
+  }
+  if (outcome.paced) {
+    throw new Error("Too many guests are already arriving around this time. Please choose another slot.");
+  }
+  const updated = outcome.reservation;
+
+  // Real-time update via Ably
+  await NotifyService.broadcast(restaurant.id, 'RESERVATION_MODIFIED', {
+    id: updated.id,
+    guestName: updated.guestName,
+    partySize: updated.partySize,
+    startTime: updated.startTime,
+    tableId: updated.tableId,
+    combinedTableIds: updated.combinedTableIds,
+  });
+  await sendModificationEmail(updated, restaurant);
+
+  // Nervous System Event, validated against the event registry
+  const { ReservationModifiedEventSchema } = await import('@repo/mcp-protocol');
+  const snapshot = (r: typeof reservation) => ({
+    reservationTime: r.startTime.toISOString(),
+    partySize: r.partySize,
+    tableId: r.tableId,
+    combinedTableIds: r.combinedTableIds,
+  });
+  const event = ReservationModifiedEventSchema.safeParse({
+    eventType: 'RESERVATION_MODIFIED',
+    version: 'v1',
+    timestamp: new Date().toISOString(),
+    publisher: { service: 'table-stack', version: '0.1.0' },
+    payload: {
+      restaurantId: restaurant.id,
+      reservationId: updated.id,
+      modifiedAt: new Date().toISOString(),
+      modifiedBy: 'guest',
+      previous: snapshot(reservation),
+      current: snapshot(updated),
+    },
+  });
+
+  if (event.success) {
+    const { RealtimeService } = await import('@repo/shared');
+    await RealtimeService.publishNervousSystemEvent('RESERVATION_MODIFIED', event.data)
+      .catch(err => console.error('Nervous System Event failed:', err));
+  } else {
+    console.error('RESERVATION_MODIFIED event failed validation:', event.error.message);
+  }
+
+  revalidatePath(`/dashboard/${restaurant.id}`);
+  revalidatePath(`/book/manage/${reservationId}`);
+  return updated;
+}
+
 export async function addToWaitlist(data: {
   restaurantId: string;
   guestName: string;
@@ -87,23 +280,8 @@ export async function addToWaitlist(data: {
 
   if (!restaurant) throw new Error("Restaurant not found");
 
-  const [entry] = await db.insert(restaurantWaitlist).values({
-    restaurantId: data.restaurantId,
-    guestName: data.guestName,
-    guestEmail: data.guestEmail,
-    partySize: data.partySize,
-    status: 'waiting',
-  }).returning();
-
-  if (entry) {
-    await NotifyService.broadcast(data.restaurantId, 'restaurantWaitlist-updated', {
-      id: entry.id,
-      guestName: entry.guestName,
-      partySize: entry.partySize,
-      status: entry.status,
-    });
-  }
+  const { entry, position, quotedWaitMinutes } = await joinWaitlist(restaurant, data);
 
   revalidatePath(`/dashboard/${data.restaurantId}`);
-  return entry;
+  return { ...entry, position, quotedWaitMinutes };
 }
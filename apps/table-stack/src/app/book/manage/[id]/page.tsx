@@ -1,9 +1,12 @@
 import { db, restaurantReservations, eq } from "@repo/database";
 import { notFound } from "next/navigation";
 import { format } from "date-fns";
-import { Calendar, Clock, Users, MapPin, XCircle, CheckCircle } from "lucide-react";
-import { cancelReservation } from "../../actions";
+import { formatInTimeZone } from "date-fns-tz";
+import { Calendar, Clock, Users, MapPin, XCircle, CheckCircle, Repeat } from "lucide-react";
+import { cancelReservation, cancelStandingReservation } from "../../actions";
+import { describeRecurrence, parseRecurrenceRule } from "@/lib/recurrence";
 import Link from "next/link";
+import ModifyReservationForm from "@/components/ModifyReservationForm";
 
 export default async function ManageBookingPage(props: { params: Promise<{ id: string }> }) {
   const params = await props.params;
@@ -14,6 +17,7 @@ export default async function ManageBookingPage(props: { params: Promise<{ id: s
     with: {
       restaurant: true,
       table: true,
+      series: true,
     },
   });
 
@@ -22,6 +26,9 @@ export default async function ManageBookingPage(props: { params: Promise<{ id: s
   }
 
   const isCancelled = reservation.status === 'cancelled';
+  const canModify = reservation.status === 'confirmed' && !reservation.seatedAt && new Date(reservation.startTime) > new Date();
+  const timezone = reservation.restaurant.timezone || 'UTC';
+  const series = reservation.series?.status === 'active' ? reservation.series : null;
 
   return (
     <div className="min-h-screen bg-gray-50 py-12 px-4">
@@ -65,8 +72,24 @@ export default async function ManageBookingPage(props: { params: Promise<{ id: s
               <MapPin className="w-5 h-5 text-blue-600" />
               <span>Table #{reservation.table?.tableNumber || 'Assigned on arrival'}</span>
             </div>
+            {series && (
+              <div className="flex items-center gap-3 text-gray-700">
+                <Repeat className="w-5 h-5 text-blue-600" />
+                <span>{describeRecurrence(parseRecurrenceRule(series.rrule), series.firstDate)} at {series.startTime}</span>
+              </div>
+            )}
           </div>
 
+          {canModify && (
+            <ModifyReservationForm
+              reservationId={reservationId}
+              restaurantId={reservation.restaurantId}
+              initialDate={formatInTimeZone(reservation.startTime, timezone, 'yyyy-MM-dd')}
+              initialTime={formatInTimeZone(reservation.startTime, timezone, 'HH:mm')}
+              initialPartySize={reservation.partySize}
+            />
+          )}
+
           {!isCancelled && (
             <form action={async () => {
               'use server';
@@ -76,7 +99,21 @@ export default async function ManageBookingPage(props: { params: Promise<{ id: s
                 type="submit"
                 className="w-full py-3 rounded-xl border-2 border-red-100 text-red-600 font-bold hover:bg-red-50 transition flex items-center justify-center gap-2"
               >
-                <XCircle className="w-5 h-5" /> Cancel Reservation
+                <XCircle className="w-5 h-5" /> {series ? 'Cancel This Date Only' : 'Cancel Reservation'}
+              </button>
+            </form>
+          )}
+
+          {!isCancelled && series && (
+            <form action={async () => {
+              'use server';
+              await cancelStandingReservation(reservationId);
+            }}>
+              <button
+                type="submit"
+                className="w-full py-3 rounded-xl bg-red-600 text-white font-bold hover:bg-red-700 transition flex items-center justify-center gap-2"
+              >
+                <Repeat className="w-5 h-5" /> Cancel This and All Future Dates
               </button>
             </form>
           )}
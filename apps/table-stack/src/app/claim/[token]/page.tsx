@@ -0,0 +1,110 @@
+import { notFound, redirect } from 'next/navigation';
+import { currentUser } from '@clerk/nextjs/server';
+import Link from 'next/link';
+import { Clock, ShieldCheck, Store } from 'lucide-react';
+import { assessClaim, DISPUTE_REASON_LABELS } from '@/lib/claim-policy';
+import { countCarriedOverBookings, findListingByClaimToken, getPendingClaims } from '@/lib/claims';
+import { claimRestaurant, disputeClaim } from '../actions';
+
+export default async function ClaimPage(props: { params: Promise<{ token: string }> }) {
+  const { token } = await props.params;
+  const user = await currentUser();
+
+  if (!user) {
+    redirect(`/sign-in?redirect_url=${encodeURIComponent(`/claim/${token}`)}`);
+  }
+
+  const listing = await findListingByClaimToken(token);
+  if (!listing) {
+    notFound();
+  }
+
+  const verifiedEmails = user.emailAddresses
+    .filter(address => address.verification?.status === 'verified')
+    .map(address => address.emailAddress);
+  const [pending, carriedOver] = await Promise.all([
+    getPendingClaims(listing.id),
+    countCarriedOverBookings(listing.id),
+  ]);
+  const ownClaim = pending.find(claim => claim.claimantId === user.id);
+  const assessment = assessClaim(listing, { userId: user.id, verifiedEmails }, pending.length);
+
+  if (assessment.outcome === 'owner') {
+    redirect(`/dashboard/${listing.slug}`);
+  }
+
+  return (
+    <div className="p-8 max-w-2xl mx-auto">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+          <Store className="w-8 h-8 text-gray-400" />
+          Claim {listing.name}
+        </h1>
+        <p className="text-gray-500 mt-2">
+          Guests are already booking {listing.name} through TableStack. Claim it to manage those bookings yourself.
+        </p>
+      </header>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        {ownClaim ? (
+          <div className="flex items-start gap-3">
+            <Clock className="w-5 h-5 text-amber-500 mt-1" />
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Your claim is under review</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                We&apos;ll email {ownClaim.claimantEmail} once it has been reviewed.
+              </p>
+            </div>
+          </div>
+        ) : assessment.outcome === 'claim' ? (
+          <>
+            <div className="flex items-start gap-3 mb-6">
+              <ShieldCheck className="w-5 h-5 text-green-600 mt-1" />
+              <p className="text-sm text-gray-700">
+                Your email matches this listing. Claiming it makes you the owner and keeps
+                {' '}{carriedOver.reservations} upcoming {carriedOver.reservations === 1 ? 'reservation' : 'reservations'} and
+                {' '}{carriedOver.waitlist} waitlist {carriedOver.waitlist === 1 ? 'entry' : 'entries'}.
+              </p>
+            </div>
+            <form action={async () => {
+              'use server';
+              await claimRestaurant(token);
+            }}>
+              <button type="submit" className="bg-blue-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors">
+                Claim Restaurant
+              </button>
+            </form>
+          </>
+        ) : (
+          <>
+            <h2 className="text-lg font-semibold text-gray-900">We need to check this claim</h2>
+            <p className="text-sm text-gray-500 mt-1 mb-4">
+              {DISPUTE_REASON_LABELS[assessment.reason]}. Tell us how you are connected to {listing.name} and our team will review it.
+            </p>
+            <form action={async (formData) => {
+              'use server';
+              await disputeClaim(token, formData);
+            }} className="space-y-4">
+              <textarea
+                name="evidence"
+                required
+                minLength={20}
+                maxLength={2000}
+                rows={5}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                placeholder="e.g. I am the general manager; the listing email is our old booking inbox."
+              />
+              <button type="submit" className="bg-gray-900 text-white px-6 py-2 rounded-lg font-medium hover:bg-gray-700 transition-colors">
+                Submit for Review
+              </button>
+            </form>
+          </>
+        )}
+      </section>
+
+      <p className="text-xs text-gray-400 mt-6">
+        Not your restaurant? <Link href="/" className="underline">Return home</Link>.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use server";
+
+import { currentUser } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { assessClaim, validateClaimEvidence } from "@/lib/claim-policy";
+import { claimListing, DuplicateClaimError, findListingByClaimToken, getPendingClaims, submitClaimForReview } from "@/lib/claims";
+
+async function loadClaim(token: string) {
+  const user = await currentUser();
+  if (!user) throw new Error("Unauthorized");
+
+  const listing = await findListingByClaimToken(token);
+  if (!listing) throw new Error("This claim link is not valid");
+
+  const verifiedEmails = user.emailAddresses
+    .filter(address => address.verification?.status === 'verified')
+    .map(address => address.emailAddress);
+  const pending = await getPendingClaims(listing.id);
+  const assessment = assessClaim(listing, { userId: user.id, verifiedEmails }, pending.length);
+
+  const email = user.primaryEmailAddress?.emailAddress ?? user.emailAddresses[0]?.emailAddress;
+  if (!email) throw new Error("Add an email address to your account first");
+
+  return { listing, assessment, claimant: { userId: user.id, email: verifiedEmails[0] ?? email } };
+}
+
+export async function claimRestaurant(token: string) {
+  const { listing, assessment, claimant } = await loadClaim(token);
+
+  if (assessment.outcome === 'review') {
+    throw new Error("This claim needs to be reviewed. Tell us how you are connected to the restaurant.");
+  }
+
+  if (assessment.outcome === 'claim') {
+    const claimed = await claimListing(listing.id, {
+      userId: claimant.userId,
+      // The listing's own address is the one that proved control
+      email: listing.ownerEmail,
+    });
+    if (!claimed) throw new Error("This restaurant has just been claimed by someone else");
+  }
+
+  revalidatePath(`/claim/${token}`);
+  redirect(`/dashboard/${listing.slug}`);
+}
+
+export async function disputeClaim(token: string, formData: FormData) {
+  const { listing, assessment, claimant } = await loadClaim(token);
+
+  if (assessment.outcome !== 'review') {
+    throw new Error("This claim does not need review");
+  }
+
+  const evidence = (formData.get('evidence') as string | null) ?? '';
+  const error = validateClaimEvidence(evidence);
+  if (error) throw new Error(error);
+
+  try {
+    await submitClaimForReview(listing.id, claimant, assessment.reason, evidence);
+    revalidatePath(`/claim/${token}`);
+    return { success: true };
+  } catch (error) {
+    if (error instanceof DuplicateClaimError) throw new Error(error.message);
+    console.error('Failed to submit claim for review:', error);
+    throw new Error('Failed to submit claim for review');
+  }
+}
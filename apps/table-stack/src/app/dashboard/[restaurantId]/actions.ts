@@ -1,15 +1,63 @@
 'use server';
 
-import { db, restaurantTables, restaurants, restaurantReservations, restaurantWaitlist, restaurantProducts, inventoryLevels } from '@repo/database';
+import { db, restaurantTables, restaurants, staffMembers, restaurantReservations, restaurantWaitlist, restaurantProducts, inventoryLevels, restaurantScheduleExceptions, restaurantSections } from '@repo/database';
 import { signBridgeToken } from '@repo/auth';
 import { redirect } from 'next/navigation';
 import { currentUser } from '@clerk/nextjs/server';
 import { revalidatePath } from 'next/cache';
 import { eq, and } from '@repo/database';
 import { z } from 'zod';
+import { addMinutes } from 'date-fns';
 import Ably from 'ably';
 import { NotifyService } from '@/lib/notifications';
-import { generateApiKey } from '@/lib/auth';
+import { TIME_PATTERN, WEEKDAYS, shiftEndAfter, validateServicePeriods } from '@/lib/service-schedule';
+import { validateSection } from '@/lib/floor-sections';
+import { getServiceSchedule, getTurnTimeMinutes, reassignTables } from '@/lib/availability';
+import { moveReservation, TablesUnavailableError } from '@/lib/bookings';
+import { TablesBusyError } from '@/lib/hold-policy';
+import { validateTurnTimeRules } from '@/lib/turn-times';
+import { markReservationSeated, seatReservationAtTable } from '@/lib/no-shows';
+import { importReservations } from '@/lib/reservation-import';
+import { mergeGuestProfiles, updateGuestNotes } from '@/lib/guests';
+import { GuestNotes, normalizeNoteList, validateGuestNotes } from '@/lib/guest-profile';
+import { ALLERGENS, MENU_WEEKDAYS, MenuItemOptions, validateMenuOptions } from '@repo/shared/utils/menu';
+import { createApiKey, revokeApiKey, rotateApiKey } from '@/lib/api-keys';
+import { ApiKeyScope, DEFAULT_ROTATION_GRACE_HOURS, validateApiKeyInput, validateGraceHours } from '@/lib/api-key-scopes';
+import { createWebhookSubscription, deleteWebhookSubscription, emitWebhookEvent, redeliverWebhook, setWebhookSubscriptionActive, WebhookSubscriptionPausedError } from '@/lib/webhooks';
+import { validateSubscriptionInput, waitlistEventData, WebhookEvent } from '@/lib/webhook-events';
+import { sendCancellationEmail, sendModificationEmail } from '@/lib/reservation-emails';
+import { invalidateAvailability } from '@/lib/availability-cache';
+import { publishReservationEvent } from '@/lib/reservation-events';
+import { EMAIL_LOCALES, EmailBranding, validateBranding } from '@/lib/email-templates';
+import { DuplicateInviteError, findStaffMember, getStaffRole, inviteStaff, joinOrganisation, leaveOrganisation } from '@/lib/staff';
+import { can, canManageMember, isStaffRole, Permission, StaffRole, validateStaffInvite } from '@/lib/staff-roles';
+import { isTableStatus, TableStatus, TIMED_STATUSES, TableStatusTimers, validateStatusTimers } from '@/lib/table-lifecycle';
+import { changeTableStatus, TableTransitionError } from '@/lib/table-status';
+import { seatWalkIn, WalkInError } from '@/lib/walk-ins';
+import { validateWalkIn, WalkInInput } from '@/lib/host-stand';
+import { cancelPrivateEvent, createPrivateEvent, PrivateEventError, setDepositInstalmentPaid, upcomingEventsForSection } from '@/lib/buyouts';
+import { eventWindow, PrivateEventInput, validatePrivateEvent } from '@/lib/private-events';
+
+const ServicePeriodSchema = z.object({
+  name: z.string().optional(),
+  startTime: z.string().regex(TIME_PATTERN),
+  endTime: z.string().regex(TIME_PATTERN),
+});
+
+const ScheduleExceptionSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  isClosed: z.boolean(),
+  periods: z.array(ServicePeriodSchema).nullable().optional(),
+  reason: z.string().nullable().optional(),
+});
+
+const TurnTimeRuleSchema = z.object({
+  minPartySize: z.number().int().min(1),
+  maxPartySize: z.number().int().min(1),
+  durationMinutes: z.number().int().min(15).max(480),
+  servicePeriods: z.array(z.string()).optional(),
+  days: z.array(z.enum(WEEKDAYS)).optional(),
+});
 
 const SettingsSchema = z.object({
   openingTime: z.string().nullable(),
@@ -17,21 +65,108 @@ const SettingsSchema = z.object({
   daysOpen: z.string().nullable(),
   timezone: z.string().nullable(),
   defaultDurationMinutes: z.number().min(15).max(480),
+  slotIntervalMinutes: z.union([z.literal(15), z.literal(30)]),
+  pacingMaxCovers: z.number().int().min(1).nullable(),
+  pacingWindowMinutes: z.number().int().min(5).max(120),
+  waitlistResponseMinutes: z.number().int().min(1).max(60),
+  noShowGraceMinutes: z.number().int().min(5).max(240).nullable(),
+  depositNoShowThreshold: z.number().int().min(1).nullable(),
+  noShowDepositAmount: z.number().int().min(0),
+  cancellationWindowHours: z.number().int().min(0).max(168),
+  lateCancellationRefundPercent: z.number().int().min(0).max(100),
+  serviceSchedule: z.record(z.enum(WEEKDAYS), z.array(ServicePeriodSchema)).optional(),
+  turnTimeRules: z.array(TurnTimeRuleSchema).optional(),
+  emailLocale: z.enum(EMAIL_LOCALES),
+  emailBranding: z.object({
+    logoUrl: z.string().optional(),
+    accentColor: z.string().optional(),
+    senderName: z.string().optional(),
+    replyTo: z.string().optional(),
+    footer: z.string().optional(),
+  }).nullable(),
+  tableStatusTimers: z.object({
+    seated: z.number().optional(),
+    ordered: z.number().optional(),
+    paying: z.number().optional(),
+    dirty: z.number().optional(),
+  }).nullable(),
 });
 
-async function verifyOwnership(restaurantId: string) {
+const PrivateEventFormSchema = z.object({
+  name: z.string(),
+  area: z.string().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  startTime: z.string().regex(TIME_PATTERN),
+  endTime: z.string().regex(TIME_PATTERN),
+  guestCount: z.number().int(),
+  minimumSpend: z.number().int(),
+  depositSchedule: z.array(z.object({
+    amount: z.number().int(),
+    dueDate: z.string(),
+  })),
+  contactName: z.string(),
+  contactEmail: z.string(),
+  contactPhone: z.string().nullable(),
+  notes: z.string().nullable(),
+});
+
+const MenuOptionsSchema = z.object({
+  variants: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    priceDelta: z.number(),
+  })),
+  modifierGroups: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    minSelections: z.number().int().min(0),
+    maxSelections: z.number().int().min(1),
+    options: z.array(z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      priceDelta: z.number(),
+      allergens: z.array(z.enum(ALLERGENS)).optional(),
+    })),
+  })),
+  allergens: z.array(z.enum(ALLERGENS)),
+  availability: z.array(z.object({
+    days: z.array(z.enum(MENU_WEEKDAYS)).optional(),
+    startTime: z.string().regex(TIME_PATTERN),
+    endTime: z.string().regex(TIME_PATTERN),
+  })),
+});
+
+function parseLowStockThreshold(value: string | null): number | null {
+  if (!value) return null;
+  const threshold = parseInt(value);
+  if (!Number.isInteger(threshold) || threshold < 0) {
+    throw new Error('Low-stock threshold must be a whole number');
+  }
+  return threshold;
+}
+
+function parseMenuOptions(options: unknown): Partial<MenuItemOptions> {
+  const parsed = MenuOptionsSchema.partial().safeParse(options);
+  if (!parsed.success) {
+    throw new Error('Invalid menu item options');
+  }
+  const error = validateMenuOptions(parsed.data);
+  if (error) throw new Error(error);
+  return parsed.data;
+}
+
+async function authorize(restaurantId: string, permission: Permission) {
   const user = await currentUser();
   if (!user) throw new Error('Unauthorized');
 
   const restaurant = await db.query.restaurants.findFirst({
-    where: and(
-      eq(restaurants.id, restaurantId),
-      eq(restaurants.ownerId, user.id)
-    ),
+    where: eq(restaurants.id, restaurantId),
   });
-
   if (!restaurant) throw new Error('Forbidden');
-  return restaurant;
+
+  const role = await getStaffRole(restaurant, user.id);
+  if (!role || !can(role, permission)) throw new Error('Forbidden');
+  return { restaurant, role, user };
 }
 
 export async function redirectToStoreFront(restaurantId?: string) {
@@ -61,13 +196,18 @@ export async function goToDelivery() {
 }
 
 export async function deleteReservation(reservationId: string, restaurantId: string) {
-  await verifyOwnership(restaurantId);
+  const { restaurant } = await authorize(restaurantId, 'reservations:manage');
   try {
-    await db.delete(restaurantReservations)
+    const [reservation] = await db.delete(restaurantReservations)
       .where(and(
         eq(restaurantReservations.id, reservationId),
         eq(restaurantReservations.restaurantId, restaurantId)
-      ));
+      ))
+      .returning();
+    if (reservation && reservation.status !== 'cancelled') {
+      await publishReservationEvent(restaurant, { type: 'RESERVATION_CANCELLED', reservations: [reservation] });
+      await sendCancellationEmail(reservation, restaurant);
+    }
     revalidatePath(`/dashboard/${restaurantId}`);
   } catch (error) {
     console.error('Failed to delete reservation:', error);
@@ -75,24 +215,76 @@ export async function deleteReservation(reservationId: string, restaurantId: str
   }
 }
 
+export async function seatReservation(reservationId: string, restaurantId: string) {
+  await authorize(restaurantId, 'floor:operate');
+  try {
+    await markReservationSeated(reservationId, restaurantId);
+    revalidatePath(`/dashboard/${restaurantId}`);
+  } catch (error) {
+    console.error('Failed to seat reservation:', error);
+    throw new Error('Failed to seat reservation');
+  }
+}
+
+export async function addWalkIn(restaurantId: string, input: WalkInInput) {
+  const { restaurant, user } = await authorize(restaurantId, 'floor:operate');
+  const error = validateWalkIn(input);
+  if (error) throw new Error(error);
+
+  try {
+    const reservation = await seatWalkIn(restaurant, input, user.id);
+    revalidatePath(`/dashboard/${restaurantId}`);
+    revalidatePath(`/dashboard/${restaurantId}/host`);
+    return reservation;
+  } catch (error) {
+    if (error instanceof WalkInError) throw new Error(error.message);
+    console.error('Failed to seat walk-in:', error);
+    throw new Error('Failed to seat walk-in');
+  }
+}
+
 export async function updateReservation(
   reservationId: string, 
   restaurantId: string, 
   updates: { guestName?: string, partySize?: number, startTime?: Date }
 ) {
-  await verifyOwnership(restaurantId);
+  const { restaurant } = await authorize(restaurantId, 'reservations:manage');
   try {
-    await db.update(restaurantReservations)
-      .set({
-        ...updates,
-        ...(updates.startTime ? { endTime: new Date(updates.startTime.getTime() + 90 * 60000) } : {}), // Default to 90 min if updated
-      })
-      .where(and(
+    const previous = await db.query.restaurantReservations.findFirst({
+      where: and(
         eq(restaurantReservations.id, reservationId),
         eq(restaurantReservations.restaurantId, restaurantId)
-      ));
+      ),
+    });
+    if (!previous) throw new TablesUnavailableError('Reservation not found');
+
+    if (updates.startTime || updates.partySize) {
+      const startTime = updates.startTime ?? previous.startTime;
+      const partySize = updates.partySize ?? previous.partySize;
+      const endTime = addMinutes(startTime, await getTurnTimeMinutes(restaurant, startTime, partySize));
+      const tables = await reassignTables(previous, startTime, endTime, partySize);
+      if (!tables) throw new TablesUnavailableError('No tables are available for that time and party size.');
+
+      // Staff may seat past the pacing limit, but never on taken tables
+      const outcome = await moveReservation(restaurant, previous, {
+        ...tables,
+        startTime,
+        endTime,
+        partySize,
+        guestName: updates.guestName,
+      }, { pacing: false });
+      if (!outcome.reservation) throw new TablesUnavailableError('No tables are available for that time and party size.');
+
+      // Guests hear about new times and party sizes; reminders follow the new time
+      await sendModificationEmail(outcome.reservation, restaurant);
+    } else if (updates.guestName !== undefined) {
+      await db.update(restaurantReservations)
+        .set({ guestName: updates.guestName })
+        .where(eq(restaurantReservations.id, reservationId));
+    }
     revalidatePath(`/dashboard/${restaurantId}`);
   } catch (error) {
+    if (error instanceof TablesUnavailableError || error instanceof TablesBusyError) throw new Error(error.message);
     console.error('Failed to update reservation:', error);
     throw new Error('Failed to update reservation');
   }
@@ -102,7 +294,7 @@ export async function updateRestaurantSettings(
   restaurantId: string,
   formData: FormData
 ) {
-  await verifyOwnership(restaurantId);
+  const { restaurant } = await authorize(restaurantId, 'settings:manage');
 
   const rawData = {
     openingTime: formData.get('openingTime'),
@@ -110,9 +302,49 @@ export async function updateRestaurantSettings(
     daysOpen: formData.get('daysOpen'),
     timezone: formData.get('timezone'),
     defaultDurationMinutes: parseInt(formData.get('defaultDurationMinutes') as string || '90'),
+    slotIntervalMinutes: parseInt(formData.get('slotIntervalMinutes') as string || '15'),
+    pacingMaxCovers: formData.get('pacingMaxCovers') ? parseInt(formData.get('pacingMaxCovers') as string) : null,
+    pacingWindowMinutes: parseInt(formData.get('pacingWindowMinutes') as string || '15'),
+    waitlistResponseMinutes: parseInt(formData.get('waitlistResponseMinutes') as string || '10'),
+    noShowGraceMinutes: formData.get('noShowGraceMinutes') ? parseInt(formData.get('noShowGraceMinutes') as string) : null,
+    depositNoShowThreshold: formData.get('depositNoShowThreshold') ? parseInt(formData.get('depositNoShowThreshold') as string) : null,
+    // Entered in dollars, stored in cents like depositAmount
+    noShowDepositAmount: Math.round(parseFloat(formData.get('noShowDepositAmount') as string || '0') * 100),
+    cancellationWindowHours: parseInt(formData.get('cancellationWindowHours') as string || '24'),
+    lateCancellationRefundPercent: parseInt(formData.get('lateCancellationRefundPercent') as string || '0'),
+    serviceSchedule: formData.get('serviceSchedule')
+      ? JSON.parse(formData.get('serviceSchedule') as string)
+      : undefined,
+    turnTimeRules: formData.get('turnTimeRules')
+      ? JSON.parse(formData.get('turnTimeRules') as string)
+      : undefined,
+    emailLocale: formData.get('emailLocale') || 'en',
+    emailBranding: emailBrandingFrom(formData),
+    tableStatusTimers: statusTimersFrom(formData),
   };
 
   const validated = SettingsSchema.parse(rawData);
+  const exceptions = formData.get('scheduleExceptions')
+    ? z.array(ScheduleExceptionSchema).parse(JSON.parse(formData.get('scheduleExceptions') as string))
+    : undefined;
+
+  const periodLists = [
+    ...Object.values(validated.serviceSchedule || {}),
+    ...(exceptions || []).filter(e => !e.isClosed).map(e => e.periods || []),
+  ];
+  for (const periods of periodLists) {
+    const periodError = validateServicePeriods(periods);
+    if (periodError) throw new Error(periodError);
+  }
+
+  const turnTimeError = validateTurnTimeRules(validated.turnTimeRules || []);
+  if (turnTimeError) throw new Error(turnTimeError);
+
+  const brandingError = validated.emailBranding && validateBranding(validated.emailBranding);
+  if (brandingError) throw new Error(brandingError);
+
+  const timerError = validated.tableStatusTimers && validateStatusTimers(validated.tableStatusTimers);
+  if (timerError) throw new Error(timerError);
 
   try {
     await db.update(restaurants)
@@ -120,7 +352,26 @@ export async function updateRestaurantSettings(
         ...validated,
       })
       .where(eq(restaurants.id, restaurantId));
-    
+
+    if (exceptions) {
+      // Exceptions are edited as a whole list, so replace them wholesale
+      await db.delete(restaurantScheduleExceptions)
+        .where(eq(restaurantScheduleExceptions.restaurantId, restaurantId));
+
+      if (exceptions.length > 0) {
+        await db.insert(restaurantScheduleExceptions).values(
+          exceptions.map(e => ({
+            restaurantId,
+            date: e.date,
+            isClosed: e.isClosed,
+            periods: e.isClosed ? null : e.periods || [],
+            reason: e.reason || null,
+          }))
+        );
+      }
+    }
+
+    await invalidateAvailability(restaurant, { type: 'SETTINGS_CHANGED' });
     revalidatePath(`/dashboard/${restaurantId}`);
   } catch (error) {
     console.error('Failed to update restaurant settings:', error);
@@ -128,15 +379,40 @@ export async function updateRestaurantSettings(
   }
 }
 
+// Blank fields fall back to the default look, so they are left out
+function emailBrandingFrom(formData: FormData): EmailBranding | null {
+  const branding: EmailBranding = {};
+  for (const key of ['logoUrl', 'accentColor', 'senderName', 'replyTo', 'footer'] as const) {
+    const value = (formData.get(key) as string | null)?.trim();
+    if (value) branding[key] = value;
+  }
+  return Object.keys(branding).length > 0 ? branding : null;
+}
+
+// Blank timers fall back to the defaults, so they are left out
+function statusTimersFrom(formData: FormData): Partial<TableStatusTimers> | null {
+  const timers: Partial<TableStatusTimers> = {};
+  for (const status of TIMED_STATUSES) {
+    const value = (formData.get(`${status}TimerMinutes`) as string | null)?.trim();
+    if (value) timers[status] = Number(value);
+  }
+  return Object.keys(timers).length > 0 ? timers : null;
+}
+
 export async function updateTablePositions(
-  tables: { id: string, xPos: number | null, yPos: number | null }[],
+  tables: { id: string, xPos: number | null, yPos: number | null, rotation?: number | null }[],
   restaurantId: string
 ) {
-  await verifyOwnership(restaurantId);
+  await authorize(restaurantId, 'floor:edit');
   try {
     for (const table of tables) {
       await db.update(restaurantTables)
-        .set({ xPos: table.xPos, yPos: table.yPos, updatedAt: new Date() })
+        .set({
+          xPos: table.xPos,
+          yPos: table.yPos,
+          ...(table.rotation !== undefined ? { rotation: normaliseRotation(table.rotation) } : {}),
+          updatedAt: new Date(),
+        })
         .where(and(
           eq(restaurantTables.id, table.id),
           eq(restaurantTables.restaurantId, restaurantId)
@@ -151,30 +427,15 @@ export async function updateTablePositions(
 
 export async function updateTableStatus(
   tableId: string,
-  status: 'vacant' | 'occupied' | 'dirty',
+  status: TableStatus,
   restaurantId: string
 ) {
-  await verifyOwnership(restaurantId);
-  try {
-    const [table] = await db.update(restaurantTables)
-      .set({ status, updatedAt: new Date() })
-      .where(and(
-        eq(restaurantTables.id, tableId),
-        eq(restaurantTables.restaurantId, restaurantId)
-      ))
-      .returning();
+  const { restaurant, user } = await authorize(restaurantId, 'floor:operate');
+  if (!isTableStatus(status)) throw new Error('Invalid table status');
 
-    // 1. Real-time update via Ably
-    if (process.env.ABLY_API_KEY) {
-      const ably = new Ably.Rest(process.env.ABLY_API_KEY);
-      const channel = ably.channels.get(`restaurant:${restaurantId}`);
-      await channel.publish('table-status-update', {
-        restaurantId,
-        tableId: table.id,
-        status: table.status,
-        updatedAt: table.updatedAt?.toISOString() || new Date().toISOString(),
-      });
-    }
+  try {
+    // 1. Validated transition, recorded and broadcast to the floor plan
+    const table = await changeTableStatus(restaurant, tableId, status, { changedBy: user.id });
 
     // 2. Delivery Hotspot Hook: Notify OpenDeliver when a table is vacant
     const openDeliverWebhookUrl = process.env.OPEN_DELIVER_WEBHOOK_URL || 'http://localhost:3001/api/webhooks';
@@ -298,15 +559,41 @@ export async function updateTableStatus(
       }
     }
 
+    // 4. Seating: a seated table means its current reservation has arrived
+    if (status === 'seated') {
+      await seatReservationAtTable(restaurantId, table.id)
+        .catch(err => console.error('Failed to record seating:', err));
+    }
+
     revalidatePath(`/dashboard/${restaurantId}`);
   } catch (error) {
+    if (error instanceof TableTransitionError) throw new Error(error.message);
     console.error('Failed to update table status:', error);
     throw new Error('Failed to update status');
   }
 }
 
-export async function addTable(restaurantId: string) {
-  await verifyOwnership(restaurantId);
+/** Degrees in [0, 360) */
+function normaliseRotation(rotation: number | null) {
+  return (((Math.round(rotation || 0)) % 360) + 360) % 360;
+}
+
+/**
+ * Returns the section id if it belongs to the restaurant, null to clear the
+ * section, and throws for anything else.
+ */
+async function ownedSectionId(sectionId: string | null, restaurantId: string) {
+  if (!sectionId) return null;
+  const section = await db.query.restaurantSections.findFirst({
+    where: and(eq(restaurantSections.id, sectionId), eq(restaurantSections.restaurantId, restaurantId)),
+  });
+  if (!section) throw new Error('Section not found');
+  return section.id;
+}
+
+export async function addTable(restaurantId: string, sectionId: string | null = null) {
+  const { restaurant } = await authorize(restaurantId, 'floor:edit');
+  const section = await ownedSectionId(sectionId, restaurantId);
   try {
     // Find highest table number to suggest next
     const existingTables = await db.query.restaurantTables.findMany({
@@ -325,8 +612,10 @@ export async function addTable(restaurantId: string) {
       xPos: 50,
       yPos: 50,
       status: 'vacant',
+      sectionId: section,
     });
-    
+
+    await invalidateAvailability(restaurant, { type: 'FLOOR_CHANGED' });
     revalidatePath(`/dashboard/${restaurantId}`);
   } catch (error) {
     console.error('Failed to add table:', error);
@@ -335,13 +624,14 @@ export async function addTable(restaurantId: string) {
 }
 
 export async function deleteTable(tableId: string, restaurantId: string) {
-  await verifyOwnership(restaurantId);
+  const { restaurant } = await authorize(restaurantId, 'floor:edit');
   try {
     await db.delete(restaurantTables)
       .where(and(
         eq(restaurantTables.id, tableId),
         eq(restaurantTables.restaurantId, restaurantId)
       ));
+    await invalidateAvailability(restaurant, { type: 'FLOOR_CHANGED' });
     revalidatePath(`/dashboard/${restaurantId}`);
   } catch (error) {
     console.error('Failed to delete table:', error);
@@ -349,24 +639,277 @@ export async function deleteTable(tableId: string, restaurantId: string) {
   }
 }
 
+/** Largest import file accepted, in bytes */
+const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Imports bookings from an uploaded CSV or iCalendar (.ics) file. With
+ * `dryRun` the file is only checked, so the owner can review problems
+ * before anything is written.
+ */
+export async function importReservationsFile(restaurantId: string, formData: FormData, dryRun: boolean) {
+  const { restaurant } = await authorize(restaurantId, 'reservations:manage');
+
+  const file = formData.get('file');
+  if (!(file instanceof File) || file.size === 0) throw new Error('Choose a CSV or iCalendar file to import');
+  if (file.size > MAX_IMPORT_FILE_BYTES) throw new Error('Import files must be 5 MB or smaller');
+
+  const name = file.name.toLowerCase();
+  if (!name.endsWith('.csv') && !name.endsWith('.ics')) throw new Error('Only .csv and .ics files can be imported');
+
+  try {
+    const summary = await importReservations(restaurant, await file.text(), name.endsWith('.ics') ? 'ics' : 'csv', { dryRun });
+    if (!dryRun) revalidatePath(`/dashboard/${restaurantId}`);
+    return summary;
+  } catch (error) {
+    console.error('Failed to import reservations:', error);
+    throw new Error('Failed to import reservations');
+  }
+}
+
+/**
+ * Saves a guest's structured notes (allergies, dietary needs, seating
+ * preferences, tags) and free-text host notes.
+ */
+export async function updateGuestProfile(
+  profileId: string,
+  restaurantId: string,
+  input: GuestNotes & { preferences: string | null }
+) {
+  await authorize(restaurantId, 'guests:manage');
+
+  const notes: GuestNotes = {
+    allergies: normalizeNoteList(input.allergies),
+    dietaryRestrictions: normalizeNoteList(input.dietaryRestrictions),
+    seatingPreferences: normalizeNoteList(input.seatingPreferences),
+    tags: normalizeNoteList(input.tags),
+  };
+  const error = validateGuestNotes(notes);
+  if (error) throw new Error(error);
+  if (input.preferences && input.preferences.length > 2000) throw new Error('Notes must be 2000 characters or fewer');
+
+  try {
+    const profile = await updateGuestNotes(profileId, restaurantId, { ...notes, preferences: input.preferences });
+    revalidatePath(`/dashboard/${restaurantId}`);
+    return profile;
+  } catch (error) {
+    console.error('Failed to update guest profile:', error);
+    throw new Error('Failed to update guest profile');
+  }
+}
+
+/**
+ * Merges duplicate guest profiles (same email, different casing) into one.
+ */
+export async function mergeDuplicateGuests(restaurantId: string, profileIds: string[]) {
+  await authorize(restaurantId, 'guests:manage');
+  if (profileIds.length < 2) throw new Error('Select at least two profiles to merge');
+
+  try {
+    const profile = await mergeGuestProfiles(restaurantId, profileIds);
+    revalidatePath(`/dashboard/${restaurantId}`);
+    return profile;
+  } catch (error) {
+    console.error('Failed to merge guest profiles:', error);
+    throw new Error('Failed to merge guest profiles');
+  }
+}
+
+export async function addSection(restaurantId: string, input: { name: string, room?: string | null }) {
+  await authorize(restaurantId, 'floor:edit');
+
+  const error = validateSection(input);
+  if (error) throw new Error(error);
+
+  try {
+    const existing = await db.query.restaurantSections.findMany({
+      where: eq(restaurantSections.restaurantId, restaurantId),
+    });
+
+    const [section] = await db.insert(restaurantSections).values({
+      restaurantId,
+      name: input.name.trim(),
+      room: input.room?.trim() || null,
+      sortOrder: existing.length,
+    }).returning();
+
+    revalidatePath(`/dashboard/${restaurantId}`);
+    return section;
+  } catch (error) {
+    console.error('Failed to add section:', error);
+    throw new Error('Failed to add section');
+  }
+}
+
+export async function updateSection(
+  sectionId: string,
+  restaurantId: string,
+  input: { name: string, room?: string | null, sortOrder?: number }
+) {
+  await authorize(restaurantId, 'floor:edit');
+
+  const error = validateSection(input);
+  if (error) throw new Error(error);
+
+  try {
+    await db.update(restaurantSections)
+      .set({
+        name: input.name.trim(),
+        room: input.room?.trim() || null,
+        ...(input.sortOrder !== undefined ? { sortOrder: input.sortOrder } : {}),
+      })
+      .where(and(
+        eq(restaurantSections.id, sectionId),
+        eq(restaurantSections.restaurantId, restaurantId)
+      ));
+    revalidatePath(`/dashboard/${restaurantId}`);
+  } catch (error) {
+    console.error('Failed to update section:', error);
+    throw new Error('Failed to update section');
+  }
+}
+
+/**
+ * Deletes a section. Its tables stay on the floor without a section.
+ */
+export async function deleteSection(sectionId: string, restaurantId: string) {
+  const { restaurant } = await authorize(restaurantId, 'floor:edit');
+  const [event] = await upcomingEventsForSection(restaurantId, sectionId);
+  if (event) throw new Error(`This section is booked for ${event.name}. Cancel the event first.`);
+
+  try {
+    await db.delete(restaurantSections)
+      .where(and(
+        eq(restaurantSections.id, sectionId),
+        eq(restaurantSections.restaurantId, restaurantId)
+      ));
+    await invalidateAvailability(restaurant, { type: 'FLOOR_CHANGED' });
+    revalidatePath(`/dashboard/${restaurantId}`);
+  } catch (error) {
+    console.error('Failed to delete section:', error);
+    throw new Error('Failed to delete section');
+  }
+}
+
+/**
+ * Opens or closes a section for bookings. With `forShift`, a closed section
+ * reopens by itself when the current service period ends.
+ */
+export async function setSectionEnabled(
+  sectionId: string,
+  restaurantId: string,
+  isEnabled: boolean,
+  forShift = false
+) {
+  const { restaurant } = await authorize(restaurantId, 'floor:operate');
+
+  let disabledUntil: Date | null = null;
+  if (!isEnabled && forShift) {
+    const schedule = await getServiceSchedule(restaurant);
+    disabledUntil = shiftEndAfter(new Date(), restaurant.timezone || 'UTC', schedule);
+    if (!disabledUntil) throw new Error('There is no shift left today to close this section for.');
+  }
+
+  try {
+    const [section] = await db.update(restaurantSections)
+      .set({ isEnabled, disabledUntil })
+      .where(and(
+        eq(restaurantSections.id, sectionId),
+        eq(restaurantSections.restaurantId, restaurantId)
+      ))
+      .returning();
+
+    if (section) {
+      await NotifyService.broadcast(restaurantId, 'SECTION_UPDATED', {
+        id: section.id,
+        isEnabled: section.isEnabled,
+        disabledUntil: section.disabledUntil,
+      });
+      await invalidateAvailability(restaurant, { type: 'FLOOR_CHANGED' });
+    }
+
+    revalidatePath(`/dashboard/${restaurantId}`);
+    return section;
+  } catch (error) {
+    console.error('Failed to update section status:', error);
+    throw new Error('Failed to update section status');
+  }
+}
+
 export async function updateTableDetails(
   tableId: string,
   restaurantId: string,
-  details: { tableNumber: string, minCapacity: number, maxCapacity: number }
+  details: {
+    tableNumber: string,
+    minCapacity: number,
+    maxCapacity: number,
+    combinableWith?: string[],
+    tableType?: 'square' | 'round' | 'booth',
+    sectionId?: string | null,
+    rotation?: number,
+    width?: number,
+    height?: number,
+  }
 ) {
-  await verifyOwnership(restaurantId);
+  const { restaurant } = await authorize(restaurantId, 'floor:edit');
+  const sectionId = details.sectionId !== undefined
+    ? await ownedSectionId(details.sectionId, restaurantId)
+    : undefined;
+  if ((details.width !== undefined && (details.width < 40 || details.width > 400)) ||
+      (details.height !== undefined && (details.height < 40 || details.height > 400))) {
+    throw new Error('Table size must be between 40 and 400');
+  }
+
   try {
+    const tables = await db.select({
+      id: restaurantTables.id,
+      combinableWith: restaurantTables.combinableWith,
+    })
+      .from(restaurantTables)
+      .where(eq(restaurantTables.restaurantId, restaurantId));
+
+    const knownIds = new Set(tables.map((t: { id: string }) => t.id));
+    const neighbours = details.combinableWith
+      ? Array.from(new Set(details.combinableWith)).filter(id => id !== tableId && knownIds.has(id))
+      : undefined;
+
     await db.update(restaurantTables)
       .set({
         tableNumber: details.tableNumber,
         minCapacity: details.minCapacity,
         maxCapacity: details.maxCapacity,
+        ...(neighbours ? { combinableWith: neighbours } : {}),
+        ...(details.tableType ? { tableType: details.tableType } : {}),
+        ...(sectionId !== undefined ? { sectionId } : {}),
+        ...(details.rotation !== undefined ? { rotation: normaliseRotation(details.rotation) } : {}),
+        ...(details.width !== undefined ? { width: Math.round(details.width) } : {}),
+        ...(details.height !== undefined ? { height: Math.round(details.height) } : {}),
         updatedAt: new Date(),
       })
       .where(and(
         eq(restaurantTables.id, tableId),
         eq(restaurantTables.restaurantId, restaurantId)
       ));
+
+    // Keep the adjacency graph symmetric so both sides agree on each edge
+    if (neighbours) {
+      for (const other of tables as { id: string; combinableWith: string[] | null }[]) {
+        if (other.id === tableId) continue;
+        const current = other.combinableWith || [];
+        const shouldLink = neighbours.includes(other.id);
+        const isLinked = current.includes(tableId);
+        if (shouldLink === isLinked) continue;
+
+        await db.update(restaurantTables)
+          .set({
+            combinableWith: shouldLink ? [...current, tableId] : current.filter(id => id !== tableId),
+            updatedAt: new Date(),
+          })
+          .where(eq(restaurantTables.id, other.id));
+      }
+    }
+
+    await invalidateAvailability(restaurant, { type: 'FLOOR_CHANGED' });
     revalidatePath(`/dashboard/${restaurantId}`);
   } catch (error) {
     console.error('Failed to update table details:', error);
@@ -379,10 +922,15 @@ export async function updateWaitlistStatus(
   restaurantId: string,
   status: 'waiting' | 'notified' | 'seated'
 ) {
-  await verifyOwnership(restaurantId);
+  await authorize(restaurantId, 'reservations:manage');
 
   const [entry] = await db.update(restaurantWaitlist)
-    .set({ status, updatedAt: new Date() })
+    .set({
+      status,
+      notifiedAt: status === 'notified' ? new Date() : null,
+      notifiedTableId: null,
+      updatedAt: new Date(),
+    })
     .where(and(
       eq(restaurantWaitlist.id, waitlistId),
       eq(restaurantWaitlist.restaurantId, restaurantId)
@@ -405,25 +953,67 @@ export async function updateWaitlistStatus(
     });
   }
 
+  await emitWebhookEvent(restaurantId, 'waitlist.updated', waitlistEventData(entry));
+
   revalidatePath(`/dashboard/${restaurantId}`);
   return entry;
 }
 
-export async function regenerateApiKey(restaurantId: string) {
-  await verifyOwnership(restaurantId);
-  
-  const newKey = generateApiKey();
-  
-  await db.update(restaurants)
-    .set({ apiKey: newKey })
-    .where(eq(restaurants.id, restaurantId));
-    
-  revalidatePath(`/dashboard/${restaurantId}`);
-  return { apiKey: newKey };
+export async function createRestaurantApiKey(restaurantId: string, formData: FormData) {
+  const { user } = await authorize(restaurantId, 'api-keys:manage');
+
+  const name = (formData.get('name') as string | null) ?? '';
+  const scopes = formData.getAll('scopes') as string[];
+  const expiresInDays = formData.get('expiresInDays') ? parseInt(formData.get('expiresInDays') as string) : null;
+  const error = validateApiKeyInput({ name, scopes, expiresInDays });
+  if (error) throw new Error(error);
+
+  try {
+    const issued = await createApiKey(restaurantId, {
+      name,
+      scopes: scopes as ApiKeyScope[],
+      expiresAt: expiresInDays !== null ? new Date(Date.now() + expiresInDays * 86_400_000) : null,
+    }, user.id);
+
+    revalidatePath(`/dashboard/${restaurantId}`);
+    return issued;
+  } catch (error) {
+    console.error('Failed to create API key:', error);
+    throw new Error('Failed to create API key');
+  }
+}
+
+export async function rotateRestaurantApiKey(keyId: string, restaurantId: string, graceHours: number = DEFAULT_ROTATION_GRACE_HOURS) {
+  const { user } = await authorize(restaurantId, 'api-keys:manage');
+
+  const error = validateGraceHours(graceHours);
+  if (error) throw new Error(error);
+
+  try {
+    const issued = await rotateApiKey(restaurantId, keyId, graceHours, user.id);
+    revalidatePath(`/dashboard/${restaurantId}`);
+    return issued;
+  } catch (error) {
+    console.error('Failed to rotate API key:', error);
+    throw new Error('Failed to rotate API key');
+  }
+}
+
+export async function revokeRestaurantApiKey(keyId: string, restaurantId: string) {
+  await authorize(restaurantId, 'api-keys:manage');
+
+  try {
+    await revokeApiKey(restaurantId, keyId);
+    revalidatePath(`/dashboard/${restaurantId}`);
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to revoke API key:', error);
+    throw new Error('Failed to revoke API key');
+  }
 }
 
 export async function createStripeConnectAccount(restaurantId: string) {
-  await verifyOwnership(restaurantId);
+  await authorize(restaurantId, 'billing:manage');
 
   // Mock Stripe Connect onboarding
   const mockStripeAccountId = `acct_${Math.random().toString(36).substring(2, 12)}`;
@@ -439,7 +1029,7 @@ export async function createStripeConnectAccount(restaurantId: string) {
 // Menu Management Actions
 
 export async function getMenuItems(restaurantId: string) {
-  await verifyOwnership(restaurantId);
+  await authorize(restaurantId, 'menu:view');
   
   try {
     const products = await db
@@ -449,7 +1039,13 @@ export async function getMenuItems(restaurantId: string) {
         description: restaurantProducts.description,
         price: restaurantProducts.price,
         category: restaurantProducts.category,
+        variants: restaurantProducts.variants,
+        modifierGroups: restaurantProducts.modifierGroups,
+        allergens: restaurantProducts.allergens,
+        availability: restaurantProducts.availability,
         availableQuantity: inventoryLevels.availableQuantity,
+        heldQuantity: inventoryLevels.heldQuantity,
+        lowStockThreshold: inventoryLevels.lowStockThreshold,
       })
       .from(restaurantProducts)
       .leftJoin(inventoryLevels, eq(restaurantProducts.id, inventoryLevels.productId))
@@ -466,18 +1062,23 @@ export async function createMenuItem(
   restaurantId: string,
   formData: FormData
 ) {
-  await verifyOwnership(restaurantId);
+  await authorize(restaurantId, 'menu:manage');
 
   const name = formData.get('name') as string;
   const description = formData.get('description') as string;
   const price = parseFloat(formData.get('price') as string);
   const category = formData.get('category') as string;
   const quantity = parseInt(formData.get('quantity') as string) || 50;
+  const lowStockThreshold = parseLowStockThreshold(formData.get('lowStockThreshold') as string | null);
 
   if (!name || !price || !category) {
     throw new Error('Name, price, and category are required');
   }
 
+  const options = formData.get('options')
+    ? parseMenuOptions(JSON.parse(formData.get('options') as string))
+    : {};
+
   try {
     const [product] = await db.insert(restaurantProducts).values({
       restaurantId,
@@ -485,12 +1086,14 @@ export async function createMenuItem(
       description,
       price,
       category,
+      ...options,
     }).returning();
 
     // Create inventory entry
     await db.insert(inventoryLevels).values({
       productId: product.id,
       availableQuantity: quantity,
+      lowStockThreshold,
     });
 
     revalidatePath(`/dashboard/${restaurantId}`);
@@ -504,20 +1107,40 @@ export async function createMenuItem(
 export async function updateMenuItem(
   productId: string,
   restaurantId: string,
-  updates: { name?: string; description?: string; price?: number; category?: string }
+  updates: { name?: string; description?: string; price?: number; category?: string; lowStockThreshold?: number | null } & Partial<MenuItemOptions>
 ) {
-  await verifyOwnership(restaurantId);
+  await authorize(restaurantId, 'menu:manage');
+
+  const { variants, modifierGroups, allergens, availability, lowStockThreshold, ...fields } = updates;
+  if (lowStockThreshold !== undefined && lowStockThreshold !== null && !(Number.isInteger(lowStockThreshold) && lowStockThreshold >= 0)) {
+    throw new Error('Low-stock threshold must be a whole number');
+  }
+  if (fields.name !== undefined && !fields.name.trim()) {
+    throw new Error('Name is required');
+  }
+  if (fields.price !== undefined && !(fields.price > 0)) {
+    throw new Error('Price must be greater than zero');
+  }
+  const options = parseMenuOptions({ variants, modifierGroups, allergens, availability });
 
   try {
-    await db.update(restaurantProducts)
+    const [product] = await db.update(restaurantProducts)
       .set({
-        ...updates,
+        ...fields,
+        ...options,
         updatedAt: new Date(),
       })
       .where(and(
         eq(restaurantProducts.id, productId),
         eq(restaurantProducts.restaurantId, restaurantId)
-      ));
+      ))
+      .returning({ id: restaurantProducts.id });
+
+    if (product && lowStockThreshold !== undefined) {
+      await db.update(inventoryLevels)
+        .set({ lowStockThreshold, updatedAt: new Date() })
+        .where(eq(inventoryLevels.productId, product.id));
+    }
 
     revalidatePath(`/dashboard/${restaurantId}`);
     return { success: true };
@@ -527,17 +1150,31 @@ export async function updateMenuItem(
   }
 }
 
+/**
+ * Returns the product id if it belongs to the restaurant and throws
+ * otherwise. Stock rows are keyed by product alone, so writes to them are
+ * checked here first.
+ */
+async function ownedProductId(productId: string, restaurantId: string) {
+  const product = await db.query.restaurantProducts.findFirst({
+    where: and(eq(restaurantProducts.id, productId), eq(restaurantProducts.restaurantId, restaurantId)),
+  });
+  if (!product) throw new Error('Menu item not found');
+  return product.id;
+}
+
 export async function updateMenuItemQuantity(
   productId: string,
   restaurantId: string,
   quantity: number
 ) {
-  await verifyOwnership(restaurantId);
+  await authorize(restaurantId, 'menu:stock');
+  const ownedId = await ownedProductId(productId, restaurantId);
 
   try {
     await db.update(inventoryLevels)
       .set({ availableQuantity: quantity, updatedAt: new Date() })
-      .where(eq(inventoryLevels.productId, productId));
+      .where(eq(inventoryLevels.productId, ownedId));
 
     revalidatePath(`/dashboard/${restaurantId}`);
     return { success: true };
@@ -548,11 +1185,12 @@ export async function updateMenuItemQuantity(
 }
 
 export async function deleteMenuItem(productId: string, restaurantId: string) {
-  await verifyOwnership(restaurantId);
+  await authorize(restaurantId, 'menu:manage');
+  const ownedId = await ownedProductId(productId, restaurantId);
 
   try {
     // Delete inventory first (cascade should handle this, but being explicit)
-    await db.delete(inventoryLevels).where(eq(inventoryLevels.productId, productId));
+    await db.delete(inventoryLevels).where(eq(inventoryLevels.productId, ownedId));
     
     // Delete product
     await db.delete(restaurantProducts)
@@ -568,3 +1206,250 @@ export async function deleteMenuItem(productId: string, restaurantId: string) {
     throw new Error('Failed to delete menu item');
   }
 }
+
+// Staff and Organisation Actions
+
+export async function inviteStaffMember(restaurantId: string, formData: FormData) {
+  const { restaurant, role, user } = await authorize(restaurantId, 'staff:manage');
+
+  const invite = {
+    email: (formData.get('email') as string | null) ?? '',
+    role: (formData.get('role') as string | null) ?? '',
+  };
+  const error = validateStaffInvite(invite, role);
+  if (error) throw new Error(error);
+  const organisationWide = formData.get('scope') === 'organisation';
+  if (organisationWide && role !== 'owner') {
+    throw new Error('Only owners can invite staff to every location');
+  }
+  if (organisationWide && !restaurant.organisationId) {
+    throw new Error('This restaurant is not part of an organisation');
+  }
+
+  try {
+    await inviteStaff(restaurant, { email: invite.email, role: invite.role as StaffRole, organisationWide }, user.id);
+    revalidatePath(`/dashboard/${restaurantId}/staff`);
+    return { success: true };
+  } catch (error) {
+    if (error instanceof DuplicateInviteError) throw new Error(error.message);
+    console.error('Failed to invite staff member:', error);
+    throw new Error('Failed to invite staff member');
+  }
+}
+
+export async function updateStaffRole(memberId: string, restaurantId: string, newRole: string) {
+  const { restaurant, role } = await authorize(restaurantId, 'staff:manage');
+
+  if (!isStaffRole(newRole)) throw new Error('Unknown role');
+  const member = await findStaffMember(restaurant, memberId);
+  if (!member || !isStaffRole(member.role)) throw new Error('Staff member not found');
+  if (!canManageMember(role, member.role, newRole)) throw new Error('Forbidden');
+
+  try {
+    await db.update(staffMembers)
+      .set({ role: newRole })
+      .where(eq(staffMembers.id, member.id));
+
+    revalidatePath(`/dashboard/${restaurantId}/staff`);
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to update staff role:', error);
+    throw new Error('Failed to update staff role');
+  }
+}
+
+export async function removeStaffMember(memberId: string, restaurantId: string) {
+  const { restaurant, role } = await authorize(restaurantId, 'staff:manage');
+
+  const member = await findStaffMember(restaurant, memberId);
+  if (!member || !isStaffRole(member.role)) throw new Error('Staff member not found');
+  if (!canManageMember(role, member.role)) throw new Error('Forbidden');
+
+  try {
+    await db.delete(staffMembers).where(eq(staffMembers.id, member.id));
+
+    revalidatePath(`/dashboard/${restaurantId}/staff`);
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to remove staff member:', error);
+    throw new Error('Failed to remove staff member');
+  }
+}
+
+export async function setRestaurantOrganisation(restaurantId: string, formData: FormData) {
+  const { restaurant, user } = await authorize(restaurantId, 'organisation:manage');
+
+  const organisationId = formData.get('organisationId') as string | null;
+  const name = ((formData.get('name') as string | null) ?? '').trim();
+  if (!organisationId && !name) {
+    throw new Error('Choose an organisation or enter a name for a new one');
+  }
+
+  try {
+    await joinOrganisation(restaurant, user.id, organisationId ? { organisationId } : { name });
+    revalidatePath(`/dashboard/${restaurantId}/staff`);
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to set organisation:', error);
+    throw new Error('Failed to set organisation');
+  }
+}
+
+export async function removeFromOrganisation(restaurantId: string) {
+  const { restaurant } = await authorize(restaurantId, 'organisation:manage');
+
+  try {
+    await leaveOrganisation(restaurant);
+    revalidatePath(`/dashboard/${restaurantId}/staff`);
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to leave organisation:', error);
+    throw new Error('Failed to leave organisation');
+  }
+}
+
+// Private Event Actions
+
+/**
+ * Books a private event from the events form. The area is 'venue' or a
+ * section id; times are local to the restaurant, and money is entered in
+ * dollars and stored in cents.
+ */
+export async function createRestaurantEvent(restaurantId: string, formData: FormData) {
+  const { restaurant, user } = await authorize(restaurantId, 'events:manage');
+
+  const toCents = (value: FormDataEntryValue | null) => Math.round(parseFloat((value as string) || '0') * 100);
+  const form = PrivateEventFormSchema.parse({
+    name: formData.get('name') ?? '',
+    area: formData.get('area') ?? '',
+    date: formData.get('date'),
+    startTime: formData.get('startTime'),
+    endTime: formData.get('endTime'),
+    guestCount: parseInt(formData.get('guestCount') as string || '0'),
+    minimumSpend: toCents(formData.get('minimumSpend')),
+    depositSchedule: formData.get('depositSchedule')
+      ? JSON.parse(formData.get('depositSchedule') as string)
+      : [],
+    contactName: formData.get('contactName') ?? '',
+    contactEmail: formData.get('contactEmail') ?? '',
+    contactPhone: (formData.get('contactPhone') as string | null) || null,
+    notes: (formData.get('notes') as string | null) || null,
+  });
+
+  const input: PrivateEventInput = {
+    ...eventWindow(form.date, form.startTime, form.endTime, restaurant.timezone || 'UTC'),
+    name: form.name,
+    scope: form.area === 'venue' ? 'venue' : 'section',
+    sectionId: form.area === 'venue' ? null : form.area,
+    guestCount: form.guestCount,
+    minimumSpend: form.minimumSpend,
+    depositSchedule: form.depositSchedule,
+    contactName: form.contactName,
+    contactEmail: form.contactEmail,
+    contactPhone: form.contactPhone,
+    notes: form.notes,
+  };
+  const error = validatePrivateEvent(input, new Date());
+  if (error) throw new Error(error);
+
+  try {
+    const event = await createPrivateEvent(restaurant, input, user.id);
+    revalidatePath(`/dashboard/${restaurantId}`);
+    revalidatePath(`/dashboard/${restaurantId}/events`);
+    return { success: true, eventId: event.id };
+  } catch (error) {
+    if (error instanceof PrivateEventError) throw new Error(error.message);
+    console.error('Failed to book private event:', error);
+    throw new Error('Failed to book private event');
+  }
+}
+
+export async function cancelRestaurantEvent(eventId: string, restaurantId: string) {
+  const { restaurant } = await authorize(restaurantId, 'events:manage');
+
+  try {
+    await cancelPrivateEvent(restaurant, eventId);
+    revalidatePath(`/dashboard/${restaurantId}`);
+    revalidatePath(`/dashboard/${restaurantId}/events`);
+  } catch (error) {
+    console.error('Failed to cancel private event:', error);
+    throw new Error('Failed to cancel private event');
+  }
+}
+
+export async function setRestaurantEventDepositPaid(eventId: string, restaurantId: string, instalment: number, paid: boolean) {
+  await authorize(restaurantId, 'events:manage');
+
+  try {
+    await setDepositInstalmentPaid(restaurantId, eventId, instalment, paid);
+    revalidatePath(`/dashboard/${restaurantId}/events`);
+  } catch (error) {
+    if (error instanceof PrivateEventError) throw new Error(error.message);
+    console.error('Failed to record deposit:', error);
+    throw new Error('Failed to record deposit');
+  }
+}
+
+// Webhook Actions
+
+export async function createWebhookEndpoint(restaurantId: string, formData: FormData) {
+  const { user } = await authorize(restaurantId, 'webhooks:manage');
+
+  const url = (formData.get('url') as string | null) ?? '';
+  const events = formData.getAll('events') as string[];
+  const error = validateSubscriptionInput({ url, events }, { allowLocalhost: process.env.NODE_ENV !== 'production' });
+  if (error) throw new Error(error);
+
+  try {
+    await createWebhookSubscription(restaurantId, {
+      url,
+      description: formData.get('description') as string | null,
+      events: events as WebhookEvent[],
+    }, user.id);
+    revalidatePath(`/dashboard/${restaurantId}/webhooks`);
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to create webhook endpoint:', error);
+    throw new Error('Failed to create webhook endpoint');
+  }
+}
+
+export async function setWebhookEndpointActive(subscriptionId: string, restaurantId: string, isActive: boolean) {
+  await authorize(restaurantId, 'webhooks:manage');
+
+  try {
+    await setWebhookSubscriptionActive(restaurantId, subscriptionId, isActive);
+    revalidatePath(`/dashboard/${restaurantId}/webhooks`);
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to update webhook endpoint:', error);
+    throw new Error('Failed to update webhook endpoint');
+  }
+}
+
+export async function deleteWebhookEndpoint(subscriptionId: string, restaurantId: string) {
+  await authorize(restaurantId, 'webhooks:manage');
+
+  try {
+    await deleteWebhookSubscription(restaurantId, subscriptionId);
+    revalidatePath(`/dashboard/${restaurantId}/webhooks`);
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to delete webhook endpoint:', error);
+    throw new Error('Failed to delete webhook endpoint');
+  }
+}
+
+export async function redeliverWebhookEvent(deliveryId: string, restaurantId: string) {
+  await authorize(restaurantId, 'webhooks:manage');
+
+  try {
+    await redeliverWebhook(restaurantId, deliveryId);
+    revalidatePath(`/dashboard/${restaurantId}/webhooks`);
+    return { success: true };
+  } catch (error) {
+    if (error instanceof WebhookSubscriptionPausedError) throw new Error(error.message);
+    console.error('Failed to redeliver webhook:', error);
+    throw new Error('Failed to redeliver webhook');
+  }
+}
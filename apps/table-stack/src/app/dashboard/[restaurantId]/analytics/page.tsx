@@ -0,0 +1,281 @@
+import { db } from "@repo/database";
+import { restaurants } from "@repo/database";
+import { eq } from '@repo/database';
+import { notFound, redirect } from 'next/navigation';
+import { currentUser } from '@clerk/nextjs/server';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
+import { ArrowLeft, BarChart3, Clock, Gauge, Timer, Truck, UserX, Users } from 'lucide-react';
+import { UserMenu } from '@/components/nav/UserMenu';
+import UtilisationHeatmap from '@/components/dashboard/UtilisationHeatmap';
+import { getAnalyticsReport } from '@/lib/analytics';
+import { getAvailabilityCacheStats } from '@/lib/availability-cache';
+import { getStaffRole } from '@/lib/staff';
+import { can } from '@/lib/staff-roles';
+import { percentChange, ReportRange, trailingRange, validateReportRange } from '@/lib/operations-report';
+import { TABLE_STATUS_LABELS, TIMED_STATUSES } from '@/lib/table-lifecycle';
+
+/** Range shown when none is picked */
+const DEFAULT_RANGE_DAYS = 28;
+/** Days of availability cache metrics shown */
+const CACHE_STATS_DAYS = 7;
+
+function Change({ current, previous, lowerIsBetter = false }: { current: number; previous: number; lowerIsBetter?: boolean }) {
+  const change = percentChange(current, previous);
+  if (change === null) return <span className="text-xs text-gray-400">no prior data</span>;
+  const good = lowerIsBetter ? change < 0 : change > 0;
+  return (
+    <span className={`text-xs font-medium ${change === 0 ? 'text-gray-500' : good ? 'text-green-600' : 'text-red-600'}`}>
+      {change > 0 ? '+' : ''}{Math.round(change * 100)}% vs previous
+    </span>
+  );
+}
+
+function percent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+export default async function AnalyticsPage(props: {
+  params: Promise<{ restaurantId: string }>;
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) {
+  const { restaurantId } = await props.params;
+  const searchParams = await props.searchParams;
+  const user = await currentUser();
+
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  // UUID regex check
+  const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(restaurantId);
+
+  const restaurant = await db.query.restaurants.findFirst({
+    where: isUuid
+      ? eq(restaurants.id, restaurantId)
+      : eq(restaurants.slug, restaurantId),
+  });
+
+  if (!restaurant) {
+    notFound();
+  }
+
+  if (!can(await getStaffRole(restaurant, user.id), 'analytics:view')) {
+    redirect('/dashboard');
+  }
+
+  const timezone = restaurant.timezone || 'UTC';
+  const today = format(toZonedTime(new Date(), timezone), 'yyyy-MM-dd');
+  const requested: ReportRange = {
+    from: searchParams.from || trailingRange(today, DEFAULT_RANGE_DAYS).from,
+    to: searchParams.to || today,
+  };
+  const rangeError = validateReportRange(requested);
+  const range = rangeError ? trailingRange(today, DEFAULT_RANGE_DAYS) : requested;
+
+  const [{ current, previous, tables }, cacheStats] = await Promise.all([
+    getAnalyticsReport(restaurant, range),
+    getAvailabilityCacheStats(restaurant.id, CACHE_STATS_DAYS),
+  ]);
+  const maxDailyOrders = Math.max(1, ...current.delivery.byDay.map(d => d.orders));
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto">
+      <header className="mb-8 flex justify-between items-center">
+        <div>
+          <Link href={`/dashboard/${restaurantId}`} className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1 mb-2">
+            <ArrowLeft className="w-4 h-4" /> Dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Analytics</h1>
+          <p className="text-gray-500">
+            {range.from} to {range.to}, compared with {previous.range.from} to {previous.range.to}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <form className="flex items-end gap-2 text-sm">
+            <label className="flex flex-col text-gray-600">
+              From
+              <input type="date" name="from" defaultValue={range.from} className="px-2 py-1 border rounded" />
+            </label>
+            <label className="flex flex-col text-gray-600">
+              To
+              <input type="date" name="to" defaultValue={range.to} className="px-2 py-1 border rounded" />
+            </label>
+            <button type="submit" className="px-3 py-1.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700">
+              Apply
+            </button>
+          </form>
+          <UserMenu restaurantId={restaurantId} />
+        </div>
+      </header>
+
+      {rangeError && (
+        <p className="mb-6 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+          {rangeError}. Showing the last {DEFAULT_RANGE_DAYS} days instead.
+        </p>
+      )}
+
+      <section className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+        <div className="bg-blue-50 p-6 rounded-xl border border-blue-100">
+          <h3 className="text-blue-900 font-semibold mb-2 flex items-center gap-2"><Users className="w-4 h-4" /> Covers</h3>
+          <p className="text-3xl font-bold text-blue-600">{current.covers}</p>
+          <Change current={current.covers} previous={previous.covers} />
+        </div>
+        <div className="bg-red-50 p-6 rounded-xl border border-red-100">
+          <h3 className="text-red-900 font-semibold mb-2 flex items-center gap-2"><UserX className="w-4 h-4" /> No-shows</h3>
+          <p className="text-3xl font-bold text-red-600">{percent(current.noShowRate)}</p>
+          <Change current={current.noShowRate} previous={previous.noShowRate} lowerIsBetter />
+        </div>
+        <div className="bg-amber-50 p-6 rounded-xl border border-amber-100">
+          <h3 className="text-amber-900 font-semibold mb-2">Cancellations</h3>
+          <p className="text-3xl font-bold text-amber-600">{percent(current.cancellationRate)}</p>
+          <Change current={current.cancellationRate} previous={previous.cancellationRate} lowerIsBetter />
+        </div>
+        <div className="bg-green-50 p-6 rounded-xl border border-green-100">
+          <h3 className="text-green-900 font-semibold mb-2 flex items-center gap-2"><BarChart3 className="w-4 h-4" /> Utilisation</h3>
+          <p className="text-3xl font-bold text-green-600">{percent(current.averageUtilisation)}</p>
+          <Change current={current.averageUtilisation} previous={previous.averageUtilisation} />
+        </div>
+      </section>
+
+      <section className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-lg font-bold text-gray-900 mb-4">Covers per service</h2>
+          <table className="w-full text-sm">
+            <thead className="text-gray-500 text-left">
+              <tr><th className="pb-2">Service</th><th className="pb-2 text-right">Bookings</th><th className="pb-2 text-right">Covers</th><th className="pb-2 text-right">Previous</th></tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {current.coversByService.map(row => (
+                <tr key={row.service}>
+                  <td className="py-2 text-gray-900">{row.service}</td>
+                  <td className="py-2 text-right">{row.reservations}</td>
+                  <td className="py-2 text-right font-semibold">{row.covers}</td>
+                  <td className="py-2 text-right text-gray-500">
+                    {previous.coversByService.find(p => p.service === row.service)?.covers ?? 0}
+                  </td>
+                </tr>
+              ))}
+              {current.coversByService.length === 0 && (
+                <tr><td colSpan={4} className="py-4 text-center text-gray-400">No covers in this range</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-lg font-bold text-gray-900 mb-4 flex items-center gap-2"><Clock className="w-5 h-5" /> Average turn time</h2>
+          <table className="w-full text-sm">
+            <thead className="text-gray-500 text-left">
+              <tr><th className="pb-2">Party size</th><th className="pb-2 text-right">Bookings</th><th className="pb-2 text-right">Minutes</th><th className="pb-2 text-right">Previous</th></tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {current.turnTimes.map(row => (
+                <tr key={row.partySize}>
+                  <td className="py-2 text-gray-900">{row.partySize}</td>
+                  <td className="py-2 text-right">{row.reservations}</td>
+                  <td className="py-2 text-right font-semibold">{row.averageMinutes}</td>
+                  <td className="py-2 text-right text-gray-500">
+                    {previous.turnTimes.find(p => p.partySize === row.partySize)?.averageMinutes ?? '—'}
+                  </td>
+                </tr>
+              ))}
+              {current.turnTimes.length === 0 && (
+                <tr><td colSpan={4} className="py-4 text-center text-gray-400">No seated parties in this range</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 mb-8">
+        <h2 className="text-lg font-bold text-gray-900 mb-1 flex items-center gap-2"><Timer className="w-5 h-5" /> Measured turns</h2>
+        <p className="text-sm text-gray-500 mb-4">From table status changes: seated until the party left, and average minutes in each status</p>
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">Turns</p>
+            <p className="text-2xl font-bold text-gray-900">{current.measuredTurns.turns}</p>
+            <Change current={current.measuredTurns.turns} previous={previous.measuredTurns.turns} />
+          </div>
+          <div>
+            <p className="text-gray-500">Average turn</p>
+            <p className="text-2xl font-bold text-gray-900">{current.measuredTurns.turns > 0 ? current.measuredTurns.averageTurnMinutes : '—'}</p>
+            {current.measuredTurns.turns > 0 && previous.measuredTurns.turns > 0 && (
+              <Change current={current.measuredTurns.averageTurnMinutes} previous={previous.measuredTurns.averageTurnMinutes} lowerIsBetter />
+            )}
+          </div>
+          {TIMED_STATUSES.map(status => (
+            <div key={status}>
+              <p className="text-gray-500">{TABLE_STATUS_LABELS[status]}</p>
+              <p className="text-2xl font-bold text-gray-900">{current.measuredTurns.averageStatusMinutes[status] ?? '—'}</p>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 mb-8">
+        <h2 className="text-lg font-bold text-gray-900 mb-1">Table utilisation</h2>
+        <p className="text-sm text-gray-500 mb-4">Share of service hours each table was occupied</p>
+        <UtilisationHeatmap tables={tables} utilisation={current.tableUtilisation} />
+      </section>
+
+      <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 mb-8">
+        <h2 className="text-lg font-bold text-gray-900 mb-1 flex items-center gap-2"><Gauge className="w-5 h-5" /> Availability cache</h2>
+        <p className="text-sm text-gray-500 mb-4">Availability lookups over the last {CACHE_STATS_DAYS} days</p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">Hit rate</p>
+            <p className="text-2xl font-bold text-gray-900">{cacheStats.hitRate === null ? '—' : percent(cacheStats.hitRate)}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Hits</p>
+            <p className="text-2xl font-bold text-gray-900">{cacheStats.hits}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Misses</p>
+            <p className="text-2xl font-bold text-gray-900">{cacheStats.misses}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Invalidations</p>
+            <p className="text-2xl font-bold text-gray-900">{cacheStats.invalidations}</p>
+          </div>
+        </div>
+      </section>
+
+      <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+        <h2 className="text-lg font-bold text-gray-900 mb-4 flex items-center gap-2"><Truck className="w-5 h-5" /> Delivery orders</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 text-sm">
+          <div>
+            <p className="text-gray-500">Orders</p>
+            <p className="text-2xl font-bold text-gray-900">{current.delivery.orders}</p>
+            <Change current={current.delivery.orders} previous={previous.delivery.orders} />
+          </div>
+          <div>
+            <p className="text-gray-500">Revenue</p>
+            <p className="text-2xl font-bold text-gray-900">${current.delivery.revenue.toFixed(2)}</p>
+            <Change current={current.delivery.revenue} previous={previous.delivery.revenue} />
+          </div>
+          <div>
+            <p className="text-gray-500">Average order</p>
+            <p className="text-2xl font-bold text-gray-900">${current.delivery.averageOrderValue.toFixed(2)}</p>
+            <Change current={current.delivery.averageOrderValue} previous={previous.delivery.averageOrderValue} />
+          </div>
+        </div>
+        <div className="flex items-end gap-px h-32" aria-label="Orders per day">
+          {current.delivery.byDay.map(day => (
+            <div
+              key={day.date}
+              title={`${day.date}: ${day.orders} orders`}
+              className="flex-1 bg-blue-500 rounded-t"
+              style={{ height: `${(day.orders / maxDailyOrders) * 100}%`, minHeight: day.orders > 0 ? 2 : 0 }}
+            />
+          ))}
+        </div>
+        {current.delivery.cancelled > 0 && (
+          <p className="text-xs text-gray-500 mt-2">{current.delivery.cancelled} cancelled orders not counted</p>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { db, restaurants, eq } from "@repo/database";
+import { notFound, redirect } from 'next/navigation';
+import { currentUser } from '@clerk/nextjs/server';
+import Link from 'next/link';
+import { formatInTimeZone } from 'date-fns-tz';
+import { ArrowLeft, CalendarPlus, PartyPopper, Trash2 } from 'lucide-react';
+import { UserMenu } from '@/components/nav/UserMenu';
+import DepositScheduleEditor from '@/components/dashboard/DepositScheduleEditor';
+import { getStaffRole } from '@/lib/staff';
+import { can } from '@/lib/staff-roles';
+import { listUpcomingPrivateEvents } from '@/lib/buyouts';
+import { MAX_EVENT_HOURS, summarizeDeposits } from '@/lib/private-events';
+import { cancelRestaurantEvent, createRestaurantEvent, setRestaurantEventDepositPaid } from '../actions';
+
+const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export default async function PrivateEventsPage(props: { params: Promise<{ restaurantId: string }> }) {
+  const { restaurantId } = await props.params;
+  const user = await currentUser();
+
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  // UUID regex check
+  const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(restaurantId);
+
+  const restaurant = await db.query.restaurants.findFirst({
+    where: isUuid
+      ? eq(restaurants.id, restaurantId)
+      : eq(restaurants.slug, restaurantId),
+    with: {
+      sections: {
+        orderBy: (section: any, { asc }: any) => [asc(section.sortOrder), asc(section.name)],
+      },
+    },
+  });
+
+  if (!restaurant) {
+    notFound();
+  }
+
+  const role = await getStaffRole(restaurant, user.id);
+  if (!can(role, 'events:manage')) {
+    redirect('/dashboard');
+  }
+
+  const restaurantInternalId = restaurant.id;
+  const timezone = restaurant.timezone || 'UTC';
+  const now = new Date();
+  const today = formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+  const events = await listUpcomingPrivateEvents(restaurantInternalId, now);
+  const sectionNames = new Map<string, string>(restaurant.sections.map((s: any) => [s.id, s.name]));
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      <header className="mb-8 flex justify-between items-center">
+        <div>
+          <Link href={`/dashboard/${restaurantId}`} className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1 mb-2">
+            <ArrowLeft className="w-4 h-4" /> Dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Private Events</h1>
+          <p className="text-gray-500">Buy out a section or all of {restaurant.name}. Booked tables are not offered to guests.</p>
+        </div>
+        <UserMenu restaurantId={restaurantInternalId} />
+      </header>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 mb-8">
+        <h2 className="text-xl font-semibold mb-4 flex items-center gap-2"><CalendarPlus className="w-5 h-5" /> Book an Event</h2>
+        <form action={async (formData) => {
+          'use server';
+          await createRestaurantEvent(restaurantInternalId, formData);
+        }} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="text-sm font-medium text-gray-700">
+            Event
+            <input type="text" name="name" required maxLength={100} className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg" placeholder="Sofia's 40th" />
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            Area
+            <select name="area" defaultValue="venue" className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg">
+              <option value="venue">Whole venue</option>
+              {restaurant.sections.map((section: any) => (
+                <option key={section.id} value={section.id}>{section.name}{section.room ? ` (${section.room})` : ''}</option>
+              ))}
+            </select>
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-sm font-medium text-gray-700">
+              Date
+              <input type="date" name="date" required min={today} className="mt-1 w-full px-2 py-2 border border-gray-300 rounded-lg" />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              From
+              <input type="time" name="startTime" required className="mt-1 w-full px-2 py-2 border border-gray-300 rounded-lg" />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Until
+              <input type="time" name="endTime" required className="mt-1 w-full px-2 py-2 border border-gray-300 rounded-lg" />
+            </label>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-sm font-medium text-gray-700">
+              Guests
+              <input type="number" name="guestCount" required min={1} className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg" />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Minimum Spend ($)
+              <input type="number" name="minimumSpend" min={0} step="0.01" defaultValue="0.00" className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg" />
+            </label>
+          </div>
+          <label className="text-sm font-medium text-gray-700">
+            Contact Name
+            <input type="text" name="contactName" required className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg" />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-sm font-medium text-gray-700">
+              Contact Email
+              <input type="email" name="contactEmail" required className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg" />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Contact Phone
+              <input type="tel" name="contactPhone" className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg" placeholder="Optional" />
+            </label>
+          </div>
+          <label className="md:col-span-2 text-sm font-medium text-gray-700">
+            Notes
+            <textarea name="notes" rows={2} className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg" placeholder="Set menu, AV, cake at 21:00" />
+          </label>
+          <div className="md:col-span-2">
+            <DepositScheduleEditor />
+          </div>
+          <div className="md:col-span-2 flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              Times are in {timezone}; an end time before the start runs past midnight. Events last up to {MAX_EVENT_HOURS} hours, and every table in the area must be free.
+            </p>
+            <button type="submit" className="bg-purple-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-purple-700 transition-colors">
+              Book Event
+            </button>
+          </div>
+        </form>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <h2 className="text-xl font-semibold mb-4 flex items-center gap-2"><PartyPopper className="w-5 h-5" /> Upcoming Events</h2>
+        {events.length === 0 && <p className="text-sm text-gray-500">No private events booked.</p>}
+        <div className="space-y-6">
+          {events.map((event) => {
+            const deposits = summarizeDeposits(event.depositSchedule || [], today);
+            const isCancelled = event.status === 'cancelled';
+            return (
+              <div key={event.id} className={`border rounded-xl p-4 ${isCancelled ? 'border-gray-200 opacity-60' : 'border-purple-200 bg-purple-50/40'}`}>
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">
+                      {event.name}
+                      {isCancelled && <span className="ml-2 text-xs font-medium text-red-600">Cancelled</span>}
+                    </h3>
+                    <p className="text-sm text-gray-600">
+                      {formatInTimeZone(event.startTime, timezone, 'EEE d MMM, HH:mm')} – {formatInTimeZone(event.endTime, timezone, 'HH:mm')}
+                      {' · '}
+                      {event.scope === 'venue' ? 'Whole venue' : (event.sectionId && sectionNames.get(event.sectionId)) || 'Deleted section'}
+                      {' · '}
+                      {event.guestCount} guests
+                      {event.minimumSpend > 0 && ` · ${dollars(event.minimumSpend)} minimum spend`}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {event.contactName} · {event.contactEmail}{event.contactPhone ? ` · ${event.contactPhone}` : ''}
+                    </p>
+                    {event.notes && <p className="text-sm text-gray-500 mt-1">{event.notes}</p>}
+                  </div>
+                  {!isCancelled && (
+                    <form action={async () => {
+                      'use server';
+                      await cancelRestaurantEvent(event.id, restaurantInternalId);
+                    }}>
+                      <button type="submit" title="Cancel event" className="text-red-600 hover:text-red-900 transition-colors">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </form>
+                  )}
+                </div>
+
+                {deposits.total > 0 && (
+                  <div className="mt-4">
+                    <p className="text-sm text-gray-700">
+                      Deposits: {dollars(deposits.paid)} of {dollars(deposits.total)} paid
+                      {deposits.overdue.length > 0 && (
+                        <span className="ml-2 font-semibold text-red-600">{deposits.overdue.length} overdue</span>
+                      )}
+                    </p>
+                    <ul className="mt-2 divide-y divide-gray-100 text-sm">
+                      {(event.depositSchedule || []).map((instalment, index) => (
+                        <li key={index} className="py-1 flex items-center justify-between">
+                          <span className={!instalment.paidAt && instalment.dueDate < today ? 'text-red-600' : 'text-gray-600'}>
+                            {dollars(instalment.amount)} due {instalment.dueDate}
+                            {instalment.paidAt && ` · paid ${formatInTimeZone(new Date(instalment.paidAt), timezone, 'd MMM')}`}
+                          </span>
+                          {!isCancelled && (
+                            <form action={async () => {
+                              'use server';
+                              await setRestaurantEventDepositPaid(event.id, restaurantInternalId, index, !instalment.paidAt);
+                            }}>
+                              <button type="submit" className="text-xs font-medium text-purple-700 hover:text-purple-900">
+                                {instalment.paidAt ? 'Undo' : 'Mark paid'}
+                              </button>
+                            </form>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    </div>
+  );
+}
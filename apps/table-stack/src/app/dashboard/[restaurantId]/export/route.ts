@@ -0,0 +1,67 @@
+export const dynamic = 'force-dynamic';
+import { NextRequest, NextResponse } from 'next/server';
+import { db, restaurants, eq } from "@repo/database";
+import { currentUser } from '@clerk/nextjs/server';
+import { fromZonedTime } from 'date-fns-tz';
+import { getReservationsForExport } from '@/lib/reservation-import';
+import { getStaffRole } from '@/lib/staff';
+import { can } from '@/lib/staff-roles';
+import { exportFileName, reservationsToCsv, reservationsToIcs } from '@/lib/reservation-formats';
+
+const STATUSES = ['confirmed', 'cancelled', 'noshow'];
+
+/**
+ * Downloads the restaurant's reservations as CSV or iCalendar. `from` and
+ * `to` are local dates (inclusive); `status` optionally narrows the export.
+ */
+export async function GET(req: NextRequest, props: { params: Promise<{ restaurantId: string }> }) {
+  const { restaurantId } = await props.params;
+  const { searchParams } = new URL(req.url);
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+  const status = searchParams.get('status') || null;
+  const format = searchParams.get('format') === 'ics' ? 'ics' : 'csv';
+
+  const user = await currentUser();
+  if (!user) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+  if (!uuidRegex.test(restaurantId) || !from || !dateRegex.test(from) || !to || !dateRegex.test(to) || from > to) {
+    return NextResponse.json({ message: 'Missing or invalid parameters' }, { status: 400 });
+  }
+
+  if (status && !STATUSES.includes(status)) {
+    return NextResponse.json({ message: 'Status must be confirmed, cancelled or noshow' }, { status: 400 });
+  }
+
+  try {
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant || !can(await getStaffRole(restaurant, user.id), 'reservations:manage')) {
+      return NextResponse.json({ message: 'Restaurant not found' }, { status: 404 });
+    }
+
+    const timezone = restaurant.timezone || 'UTC';
+    const start = fromZonedTime(`${from}T00:00:00`, timezone);
+    const end = fromZonedTime(`${to}T23:59:59.999`, timezone);
+
+    const reservations = await getReservationsForExport(restaurant.id, { from: start, to: end, status });
+    const body = format === 'ics' ? reservationsToIcs(reservations, restaurant) : reservationsToCsv(reservations);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'ics' ? 'text/calendar; charset=utf-8' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${exportFileName(restaurant.slug, start, end, timezone, format)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Reservation Export Error:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { db, restaurants, restaurantReservations, and, eq, gte } from "@repo/database";
+import { notFound, redirect } from 'next/navigation';
+import { currentUser } from '@clerk/nextjs/server';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { UserMenu } from '@/components/nav/UserMenu';
+import HostStand from '@/components/dashboard/HostStand';
+import { getStaffRole } from '@/lib/staff';
+import { can } from '@/lib/staff-roles';
+import { resolveStatusTimers } from '@/lib/table-lifecycle';
+import type { WalkInInput } from '@/lib/host-stand';
+import { addWalkIn, seatReservation, updateTableStatus } from '../actions';
+
+export default async function HostStandPage(props: { params: Promise<{ restaurantId: string }> }) {
+  const { restaurantId } = await props.params;
+  const user = await currentUser();
+
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  // UUID regex check
+  const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(restaurantId);
+
+  // Reservations still running or yet to start: arrivals and the parties at tables
+  const restaurant = await db.query.restaurants.findFirst({
+    where: isUuid
+      ? eq(restaurants.id, restaurantId)
+      : eq(restaurants.slug, restaurantId),
+    with: {
+      tables: {
+        orderBy: (table: any, { asc }: any) => [asc(table.tableNumber)],
+      },
+      restaurantReservations: {
+        where: and(
+          eq(restaurantReservations.status, 'confirmed'),
+          gte(restaurantReservations.endTime, new Date())
+        ),
+        orderBy: (res: any, { asc }: any) => [asc(res.startTime)],
+      },
+    },
+  });
+
+  if (!restaurant) {
+    notFound();
+  }
+
+  const role = await getStaffRole(restaurant, user.id);
+  if (!can(role, 'floor:operate')) {
+    redirect('/dashboard');
+  }
+
+  const restaurantInternalId = restaurant.id;
+
+  async function handleSeatWalkIn(input: WalkInInput) {
+    'use server';
+    await addWalkIn(restaurantInternalId, input);
+  }
+
+  async function handleSeatTable(tableId: string) {
+    'use server';
+    await updateTableStatus(tableId, 'seated', restaurantInternalId);
+  }
+
+  async function handleSeatReservation(reservationId: string) {
+    'use server';
+    await seatReservation(reservationId, restaurantInternalId);
+  }
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto">
+      <header className="mb-8 flex justify-between items-center">
+        <div>
+          <Link href={`/dashboard/${restaurantId}`} className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1 mb-2">
+            <ArrowLeft className="w-4 h-4" /> Dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Host Stand</h1>
+          <p className="text-gray-500">Seat walk-ins and arrivals at {restaurant.name}</p>
+        </div>
+        <UserMenu restaurantId={restaurantInternalId} />
+      </header>
+
+      <HostStand
+        restaurantId={restaurantInternalId}
+        initialTables={restaurant.tables}
+        reservations={restaurant.restaurantReservations}
+        statusTimers={resolveStatusTimers(restaurant.tableStatusTimers)}
+        onSeatWalkIn={handleSeatWalkIn}
+        onSeatTable={handleSeatTable}
+        onSeatReservation={handleSeatReservation}
+      />
+    </div>
+  );
+}
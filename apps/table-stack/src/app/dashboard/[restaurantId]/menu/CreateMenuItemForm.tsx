@@ -1,30 +1,84 @@
 'use client';
 
 import { useState } from 'react';
-import { createMenuItem } from '../actions';
-import { Plus, X } from 'lucide-react';
+import { createMenuItem, updateMenuItem } from '../actions';
+import { Edit, Plus, X } from 'lucide-react';
+import { MenuItemOptions, validateMenuOptions } from '@repo/shared/utils/menu';
+import MenuOptionsEditor from './MenuOptionsEditor';
+
+interface EditableMenuItem extends Partial<MenuItemOptions> {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  category: string;
+  lowStockThreshold: number | null;
+}
 
 interface CreateMenuItemFormProps {
   restaurantId: string;
+  /** Edits this item instead of creating one */
+  item?: EditableMenuItem;
 }
 
-export default function CreateMenuItemForm({ restaurantId }: CreateMenuItemFormProps) {
+function initialOptions(item?: EditableMenuItem): MenuItemOptions {
+  return {
+    variants: item?.variants || [],
+    modifierGroups: item?.modifierGroups || [],
+    allergens: item?.allergens || [],
+    availability: item?.availability || [],
+  };
+}
+
+export default function CreateMenuItemForm({ restaurantId, item }: CreateMenuItemFormProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [options, setOptions] = useState<MenuItemOptions>(() => initialOptions(item));
 
   const handleSubmit = async (formData: FormData) => {
+    const invalid = validateMenuOptions(options);
+    if (invalid) {
+      alert(invalid);
+      return;
+    }
+
     setIsSubmitting(true);
     try {
-      await createMenuItem(restaurantId, formData);
+      if (item) {
+        await updateMenuItem(item.id, restaurantId, {
+          name: formData.get('name') as string,
+          description: formData.get('description') as string,
+          price: parseFloat(formData.get('price') as string),
+          category: formData.get('category') as string,
+          lowStockThreshold: formData.get('lowStockThreshold') ? parseInt(formData.get('lowStockThreshold') as string) : null,
+          ...options,
+        });
+      } else {
+        formData.set('options', JSON.stringify(options));
+        await createMenuItem(restaurantId, formData);
+        setOptions(initialOptions());
+      }
       setIsOpen(false);
     } catch (error) {
-      console.error('Failed to create menu item:', error);
-      alert('Failed to create menu item. Please try again.');
+      console.error(`Failed to ${item ? 'update' : 'create'} menu item:`, error);
+      alert(`Failed to ${item ? 'update' : 'create'} menu item. Please try again.`);
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  if (!isOpen && item) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+        title="Edit item"
+      >
+        <Edit className="w-4 h-4" />
+      </button>
+    );
+  }
+
   if (!isOpen) {
     return (
       <button
@@ -39,9 +93,9 @@ export default function CreateMenuItemForm({ restaurantId }: CreateMenuItemFormP
 
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
-      <div className="bg-white rounded-2xl max-w-lg w-full">
+      <div className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         <div className="p-6 border-b flex justify-between items-center">
-          <h2 className="text-xl font-bold text-gray-900">Add Menu Item</h2>
+          <h2 className="text-xl font-bold text-gray-900">{item ? 'Edit Menu Item' : 'Add Menu Item'}</h2>
           <button
             onClick={() => setIsOpen(false)}
             className="p-2 hover:bg-gray-100 rounded-full transition-colors"
@@ -59,6 +113,7 @@ export default function CreateMenuItemForm({ restaurantId }: CreateMenuItemFormP
               type="text"
               name="name"
               required
+              defaultValue={item?.name}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
               placeholder="e.g., Margherita Pizza"
             />
@@ -71,6 +126,7 @@ export default function CreateMenuItemForm({ restaurantId }: CreateMenuItemFormP
             <textarea
               name="description"
               rows={3}
+              defaultValue={item?.description || ''}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none resize-none"
               placeholder="Describe the dish..."
             />
@@ -85,6 +141,7 @@ export default function CreateMenuItemForm({ restaurantId }: CreateMenuItemFormP
                 type="number"
                 name="price"
                 required
+                defaultValue={item?.price}
                 step="0.01"
                 min="0"
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
@@ -100,6 +157,7 @@ export default function CreateMenuItemForm({ restaurantId }: CreateMenuItemFormP
                 type="text"
                 name="category"
                 required
+                defaultValue={item?.category}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
                 placeholder="e.g., Main Course"
                 list="category-suggestions"
@@ -116,7 +174,7 @@ export default function CreateMenuItemForm({ restaurantId }: CreateMenuItemFormP
             </div>
           </div>
 
-          <div>
+          {!item && <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Initial Stock Quantity
             </label>
@@ -128,8 +186,25 @@ export default function CreateMenuItemForm({ restaurantId }: CreateMenuItemFormP
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
             />
             <p className="text-xs text-gray-500 mt-1">Number of items available for order</p>
+          </div>}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Low-Stock Alert At
+            </label>
+            <input
+              type="number"
+              name="lowStockThreshold"
+              min="0"
+              defaultValue={item?.lowStockThreshold ?? ''}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              placeholder="No alert"
+            />
+            <p className="text-xs text-gray-500 mt-1">Get a live alert when orders bring stock down to this level</p>
           </div>
 
+          <MenuOptionsEditor options={options} onChange={setOptions} />
+
           <div className="pt-4 flex gap-3">
             <button
               type="button"
@@ -143,7 +218,7 @@ export default function CreateMenuItemForm({ restaurantId }: CreateMenuItemFormP
               disabled={isSubmitting}
               className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
             >
-              {isSubmitting ? 'Adding...' : 'Add Item'}
+              {isSubmitting ? 'Saving...' : item ? 'Save Changes' : 'Add Item'}
             </button>
           </div>
         </form>
@@ -0,0 +1,244 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  Allergen,
+  ALLERGENS,
+  AvailabilityWindow,
+  MENU_WEEKDAYS,
+  MenuItemOptions,
+  ModifierGroup,
+  MenuWeekday,
+} from '@repo/shared/utils/menu';
+
+interface MenuOptionsEditorProps {
+  options: MenuItemOptions;
+  onChange: (options: MenuItemOptions) => void;
+}
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded text-sm';
+
+function newId(): string {
+  return crypto.randomUUID().slice(0, 8);
+}
+
+function allergenLabel(allergen: Allergen): string {
+  return allergen.replace('_', ' ');
+}
+
+/**
+ * Allergens, size variants, modifier groups and availability windows of a
+ * menu item. Prices are entered as deltas on the item's base price.
+ */
+export default function MenuOptionsEditor({ options, onChange }: MenuOptionsEditorProps) {
+  const set = (patch: Partial<MenuItemOptions>) => onChange({ ...options, ...patch });
+
+  const toggleAllergen = (allergen: Allergen) => set({
+    allergens: options.allergens.includes(allergen)
+      ? options.allergens.filter(a => a !== allergen)
+      : [...options.allergens, allergen],
+  });
+
+  const updateGroup = (index: number, patch: Partial<ModifierGroup>) => set({
+    modifierGroups: options.modifierGroups.map((g, i) => i === index ? { ...g, ...patch } : g),
+  });
+
+  const updateWindow = (index: number, patch: Partial<AvailabilityWindow>) => set({
+    availability: options.availability.map((w, i) => i === index ? { ...w, ...patch } : w),
+  });
+
+  const toggleDay = (index: number, day: MenuWeekday) => {
+    const days = options.availability[index].days || [];
+    updateWindow(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day] });
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <p className="font-medium text-gray-700 mb-1">Allergens</p>
+        <div className="flex flex-wrap gap-2">
+          {ALLERGENS.map(allergen => (
+            <label key={allergen} className="flex items-center gap-1 capitalize">
+              <input
+                type="checkbox"
+                checked={options.allergens.includes(allergen)}
+                onChange={() => toggleAllergen(allergen)}
+              />
+              {allergenLabel(allergen)}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-1">
+          <p className="font-medium text-gray-700">Sizes</p>
+          <button
+            type="button"
+            onClick={() => set({ variants: [...options.variants, { id: newId(), name: '', priceDelta: 0 }] })}
+            className="flex items-center gap-1 text-blue-600 hover:underline"
+          >
+            <Plus className="w-3 h-3" /> Add size
+          </button>
+        </div>
+        {options.variants.map((variant, i) => (
+          <div key={variant.id} className="flex gap-2 mb-1">
+            <input
+              value={variant.name}
+              onChange={(e) => set({ variants: options.variants.map((v, j) => j === i ? { ...v, name: e.target.value } : v) })}
+              placeholder="e.g., Large"
+              className={`${inputClass} flex-1`}
+            />
+            <input
+              type="number"
+              step="0.01"
+              value={variant.priceDelta}
+              onChange={(e) => set({ variants: options.variants.map((v, j) => j === i ? { ...v, priceDelta: Number(e.target.value) } : v) })}
+              className={`${inputClass} w-24`}
+              title="Price change"
+            />
+            <button type="button" onClick={() => set({ variants: options.variants.filter((_, j) => j !== i) })} className="text-gray-400 hover:text-red-600">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-1">
+          <p className="font-medium text-gray-700">Modifiers</p>
+          <button
+            type="button"
+            onClick={() => set({
+              modifierGroups: [...options.modifierGroups, { id: newId(), name: '', minSelections: 0, maxSelections: 1, options: [] }],
+            })}
+            className="flex items-center gap-1 text-blue-600 hover:underline"
+          >
+            <Plus className="w-3 h-3" /> Add group
+          </button>
+        </div>
+        {options.modifierGroups.map((group, i) => (
+          <div key={group.id} className="border border-gray-200 rounded-lg p-2 mb-2 space-y-1">
+            <div className="flex gap-2 items-center">
+              <input
+                value={group.name}
+                onChange={(e) => updateGroup(i, { name: e.target.value })}
+                placeholder="e.g., Add-ons"
+                className={`${inputClass} flex-1`}
+              />
+              <label className="flex items-center gap-1 text-gray-500">
+                min
+                <input
+                  type="number"
+                  min="0"
+                  value={group.minSelections}
+                  onChange={(e) => updateGroup(i, { minSelections: parseInt(e.target.value) || 0 })}
+                  className={`${inputClass} w-14`}
+                />
+              </label>
+              <label className="flex items-center gap-1 text-gray-500">
+                max
+                <input
+                  type="number"
+                  min="1"
+                  value={group.maxSelections}
+                  onChange={(e) => updateGroup(i, { maxSelections: parseInt(e.target.value) || 1 })}
+                  className={`${inputClass} w-14`}
+                />
+              </label>
+              <button
+                type="button"
+                onClick={() => set({ modifierGroups: options.modifierGroups.filter((_, j) => j !== i) })}
+                className="text-gray-400 hover:text-red-600"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {group.options.map((option, k) => (
+              <div key={option.id} className="flex gap-2 pl-4">
+                <input
+                  value={option.name}
+                  onChange={(e) => updateGroup(i, { options: group.options.map((o, j) => j === k ? { ...o, name: e.target.value } : o) })}
+                  placeholder="e.g., Bacon"
+                  className={`${inputClass} flex-1`}
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  value={option.priceDelta}
+                  onChange={(e) => updateGroup(i, { options: group.options.map((o, j) => j === k ? { ...o, priceDelta: Number(e.target.value) } : o) })}
+                  className={`${inputClass} w-24`}
+                  title="Price change"
+                />
+                <select
+                  value={option.allergens?.[0] || ''}
+                  onChange={(e) => updateGroup(i, {
+                    options: group.options.map((o, j) => j === k ? { ...o, allergens: e.target.value ? [e.target.value as Allergen] : [] } : o),
+                  })}
+                  className={`${inputClass} w-28 capitalize`}
+                  title="Allergen this option adds"
+                >
+                  <option value="">No allergen</option>
+                  {ALLERGENS.map(a => <option key={a} value={a}>{allergenLabel(a)}</option>)}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => updateGroup(i, { options: group.options.filter((_, j) => j !== k) })}
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateGroup(i, { options: [...group.options, { id: newId(), name: '', priceDelta: 0 }] })}
+              className="pl-4 text-blue-600 hover:underline"
+            >
+              + Add option
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-1">
+          <p className="font-medium text-gray-700">Available</p>
+          <button
+            type="button"
+            onClick={() => set({ availability: [...options.availability, { startTime: '07:00', endTime: '11:00' }] })}
+            className="flex items-center gap-1 text-blue-600 hover:underline"
+          >
+            <Plus className="w-3 h-3" /> Add window
+          </button>
+        </div>
+        {options.availability.length === 0 && <p className="text-gray-400">All day, every day</p>}
+        {options.availability.map((window, i) => (
+          <div key={i} className="mb-2">
+            <div className="flex gap-2 items-center">
+              <input type="time" value={window.startTime} onChange={(e) => updateWindow(i, { startTime: e.target.value })} className={inputClass} />
+              <span className="text-gray-500">to</span>
+              <input type="time" value={window.endTime} onChange={(e) => updateWindow(i, { endTime: e.target.value })} className={inputClass} />
+              <button
+                type="button"
+                onClick={() => set({ availability: options.availability.filter((_, j) => j !== i) })}
+                className="text-gray-400 hover:text-red-600"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex gap-2 mt-1">
+              {MENU_WEEKDAYS.map(day => (
+                <label key={day} className="flex items-center gap-1 capitalize text-gray-600">
+                  <input type="checkbox" checked={(window.days || []).includes(day)} onChange={() => toggleDay(i, day)} />
+                  {day.slice(0, 3)}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+        {options.availability.length > 0 && <p className="text-xs text-gray-500">No days ticked means every day.</p>}
+      </div>
+    </div>
+  );
+}
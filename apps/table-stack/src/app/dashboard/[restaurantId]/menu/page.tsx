@@ -5,7 +5,10 @@ import { notFound, redirect } from 'next/navigation';
 import { currentUser } from '@clerk/nextjs/server';
 import { getMenuItems } from '../actions';
 import { UserMenu } from '@/components/nav/UserMenu';
-import { Plus, Edit, Package, DollarSign, Tag } from 'lucide-react';
+import { Plus, Package, DollarSign, Tag, Clock, AlertTriangle } from 'lucide-react';
+import { describeAvailability, MenuItemOptions } from '@repo/shared/utils/menu';
+import { getStaffRole } from '@/lib/staff';
+import { can } from '@/lib/staff-roles';
 import CreateMenuItemForm from './CreateMenuItemForm';
 import DeleteMenuItemButton from './DeleteMenuItemButton';
 
@@ -31,11 +34,13 @@ export default async function MenuManagementPage(props: { params: Promise<{ rest
     notFound();
   }
 
-  if (restaurant.ownerId !== user.id) {
-    redirect('/onboarding');
+  const role = await getStaffRole(restaurant, user.id);
+  if (!can(role, 'menu:view')) {
+    redirect('/dashboard');
   }
+  const canEdit = can(role, 'menu:manage');
 
-  const menuItems = await getMenuItems(restaurantId);
+  const menuItems = await getMenuItems(restaurant.id);
 
   // Group items by category
   const categories = Array.from(new Set(menuItems.map((item: { category: string }) => item.category))) as string[];
@@ -48,7 +53,7 @@ export default async function MenuManagementPage(props: { params: Promise<{ rest
           <p className="text-gray-500">Manage your restaurant&apos;s menu items and pricing</p>
         </div>
         <div className="flex items-center gap-4">
-          <CreateMenuItemForm restaurantId={restaurantId} />
+          {canEdit && <CreateMenuItemForm restaurantId={restaurantId} />}
           <UserMenu restaurantId={restaurantId} />
         </div>
       </header>
@@ -57,8 +62,8 @@ export default async function MenuManagementPage(props: { params: Promise<{ rest
         <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-12 text-center">
           <Package className="w-16 h-16 text-gray-300 mx-auto mb-4" />
           <h2 className="text-xl font-semibold text-gray-900 mb-2">No Menu Items</h2>
-          <p className="text-gray-500 mb-6">Start by adding your first menu item</p>
-          <CreateMenuItemForm restaurantId={restaurantId} />
+          <p className="text-gray-500 mb-6">{canEdit ? 'Start by adding your first menu item' : 'A manager has not added any items yet'}</p>
+          {canEdit && <CreateMenuItemForm restaurantId={restaurantId} />}
         </div>
       ) : (
         <div className="space-y-8">
@@ -77,7 +82,7 @@ export default async function MenuManagementPage(props: { params: Promise<{ rest
               <div className="divide-y divide-gray-100">
                 {menuItems
                   .filter((item: { category: string }) => item.category === category)
-                  .map((item: { id: string | null; name: string; description: string | null; price: number | null; availableQuantity: number | null; category: string }) => (
+                  .map((item: { id: string; name: string; description: string | null; price: number; availableQuantity: number | null; heldQuantity: number | null; lowStockThreshold: number | null; category: string } & Partial<MenuItemOptions>) => (
                     <div
                       key={item.id}
                       className="p-6 hover:bg-gray-50 transition-colors flex items-center justify-between group"
@@ -85,13 +90,21 @@ export default async function MenuManagementPage(props: { params: Promise<{ rest
                       <div className="flex-1">
                         <div className="flex items-center gap-3 mb-1">
                           <h3 className="text-lg font-semibold text-gray-900">{item.name}</h3>
-                          {item.availableQuantity !== null && item.availableQuantity < 10 && (
+                          {item.availableQuantity !== null && (item.lowStockThreshold !== null ? item.availableQuantity <= item.lowStockThreshold : item.availableQuantity < 10) && (
                             <span className="text-xs bg-amber-100 text-amber-700 px-2 py-1 rounded-full font-medium">
                               Low Stock ({item.availableQuantity})
                             </span>
                           )}
                         </div>
                         <p className="text-gray-500 text-sm mb-2">{item.description || 'No description'}</p>
+                        {(item.variants?.length || item.modifierGroups?.length) ? (
+                          <p className="text-gray-500 text-sm mb-2">
+                            {[
+                              item.variants?.length ? `Sizes: ${item.variants.map(v => v.name).join(', ')}` : null,
+                              item.modifierGroups?.length ? `Modifiers: ${item.modifierGroups.map(g => g.name).join(', ')}` : null,
+                            ].filter(Boolean).join(' · ')}
+                          </p>
+                        ) : null}
                         <div className="flex items-center gap-4 text-sm text-gray-500">
                           <div className="flex items-center gap-1">
                             <DollarSign className="w-4 h-4" />
@@ -99,24 +112,36 @@ export default async function MenuManagementPage(props: { params: Promise<{ rest
                           </div>
                           <div className="flex items-center gap-1">
                             <Package className="w-4 h-4" />
-                            <span>Stock: {item.availableQuantity ?? 'N/A'}</span>
+                            <span>
+                              Stock: {item.availableQuantity ?? 'N/A'}
+                              {item.heldQuantity ? ` (${item.heldQuantity} in checkouts)` : ''}
+                            </span>
                           </div>
+                          {item.availability?.length ? (
+                            <div className="flex items-center gap-1">
+                              <Clock className="w-4 h-4" />
+                              <span>{describeAvailability(item.availability)}</span>
+                            </div>
+                          ) : null}
+                          {item.allergens?.length ? (
+                            <div className="flex items-center gap-1 text-red-600 capitalize">
+                              <AlertTriangle className="w-4 h-4" />
+                              <span>{item.allergens.map(a => a.replace('_', ' ')).join(', ')}</span>
+                            </div>
+                          ) : null}
                         </div>
                       </div>
 
-                      <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <button
-                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-                          title="Edit item"
-                        >
-                          <Edit className="w-4 h-4" />
-                        </button>
-                        <DeleteMenuItemButton 
-                          productId={item.id!} 
-                          restaurantId={restaurantId} 
-                          itemName={item.name} 
-                        />
-                      </div>
+                      {canEdit && (
+                        <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <CreateMenuItemForm restaurantId={restaurantId} item={item} />
+                          <DeleteMenuItemButton 
+                            productId={item.id!} 
+                            restaurantId={restaurantId} 
+                            itemName={item.name} 
+                          />
+                        </div>
+                      )}
                     </div>
                   ))}
               </div>
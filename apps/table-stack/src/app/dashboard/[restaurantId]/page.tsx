@@ -3,13 +3,31 @@ import { notFound, redirect } from 'next/navigation';
 import { currentUser } from '@clerk/nextjs/server';
 import FloorPlan from '@/components/dashboard/FloorPlan';
 import LiveView from '@/components/dashboard/LiveView';
-import { updateTablePositions, updateTableStatus, updateRestaurantSettings, addTable, deleteTable, updateTableDetails, deleteReservation, updateWaitlistStatus, regenerateApiKey, createStripeConnectAccount } from './actions';
-import { Trash2, Bell, UserCheck, CreditCard, Store, Utensils } from 'lucide-react';
+import ServiceScheduleEditor from '@/components/dashboard/ServiceScheduleEditor';
+import TurnTimeRulesEditor from '@/components/dashboard/TurnTimeRulesEditor';
+import ReservationTransfer from '@/components/dashboard/ReservationTransfer';
+import ApiKeyManager from '@/components/dashboard/ApiKeyManager';
+import GuestPanel from '@/components/dashboard/GuestPanel';
+import { getGuestDetails } from '@/lib/guests';
+import { listUpcomingPrivateEvents } from '@/lib/buyouts';
+import { listApiKeys } from '@/lib/api-keys';
+import type { GuestNotes } from '@/lib/guest-profile';
+import { weeklyScheduleFor } from '@/lib/service-schedule';
+import { getStaffRole } from '@/lib/staff';
+import { can, ROLE_LABELS } from '@/lib/staff-roles';
+import { EMAIL_LOCALE_LABELS, EMAIL_LOCALES } from '@/lib/email-templates';
+import { DEFAULT_TABLE_STATUS_TIMERS, MAX_STATUS_TIMER_MINUTES, resolveStatusTimers, TABLE_STATUS_LABELS, TableStatus, TIMED_STATUSES } from '@/lib/table-lifecycle';
+import { updateTablePositions, updateTableStatus, updateRestaurantSettings, addTable, deleteTable, updateTableDetails, addSection, deleteSection, setSectionEnabled, deleteReservation, seatReservation, updateWaitlistStatus, createRestaurantApiKey, rotateRestaurantApiKey, revokeRestaurantApiKey, createStripeConnectAccount, importReservationsFile, updateGuestProfile, mergeDuplicateGuests } from './actions';
+import { Trash2, Bell, UserCheck, CreditCard, Store, Utensils, BarChart3, Users, Webhook, ConciergeBell, PartyPopper } from 'lucide-react';
 import { UserMenu } from '@/components/nav/UserMenu';
 import Link from 'next/link';
 
-export default async function DashboardPage(props: { params: Promise<{ restaurantId: string }> }) {
+export default async function DashboardPage(props: {
+  params: Promise<{ restaurantId: string }>;
+  searchParams: Promise<{ reservation?: string }>;
+}) {
   const params = await props.params;
+  const { reservation: selectedReservationId } = await props.searchParams;
   const restaurantId = params.restaurantId;
   const user = await currentUser();
 
@@ -31,7 +49,13 @@ export default async function DashboardPage(props: { params: Promise<{ restauran
         orderBy: (res: any, { asc }: any) => [asc(res.startTime)],
       },
       restaurantWaitlist: {
-        orderBy: (wait: any, { desc }: any) => [desc(wait.createdAt)],
+        orderBy: (wait: any, { asc }: any) => [asc(wait.queuedAt)],
+      },
+      scheduleExceptions: {
+        orderBy: (exception: any, { asc }: any) => [asc(exception.date)],
+      },
+      sections: {
+        orderBy: (section: any, { asc }: any) => [asc(section.sortOrder), asc(section.name)],
       }
     },
   });
@@ -42,26 +66,27 @@ export default async function DashboardPage(props: { params: Promise<{ restauran
 
   const restaurantInternalId = restaurant.id;
 
-  if (restaurant.ownerId !== user.id) {
-    redirect('/onboarding');
+  const role = await getStaffRole(restaurant, user.id);
+  if (!role) {
+    redirect('/dashboard');
   }
 
-  async function handleSave(tables: { id: string, xPos: number | null, yPos: number | null }[]) {
+  async function handleSave(tables: { id: string, xPos: number | null, yPos: number | null, rotation?: number | null }[]) {
     'use server';
     await updateTablePositions(
-      tables.map(t => ({ id: t.id, xPos: t.xPos, yPos: t.yPos })),
+      tables.map(t => ({ id: t.id, xPos: t.xPos, yPos: t.yPos, rotation: t.rotation ?? 0 })),
       restaurantInternalId
     );
   }
 
-  async function handleStatusChange(tableId: string, status: 'vacant' | 'occupied' | 'dirty') {
+  async function handleStatusChange(tableId: string, status: TableStatus) {
     'use server';
     await updateTableStatus(tableId, status, restaurantInternalId);
   }
 
-  async function handleAddTable() {
+  async function handleAddTable(sectionId: string | null) {
     'use server';
-    await addTable(restaurantInternalId);
+    await addTable(restaurantInternalId, sectionId);
   }
 
   async function handleDeleteTable(tableId: string) {
@@ -69,39 +94,105 @@ export default async function DashboardPage(props: { params: Promise<{ restauran
     await deleteTable(tableId, restaurantInternalId);
   }
 
-  async function handleUpdateDetails(tableId: string, details: { tableNumber: string, minCapacity: number, maxCapacity: number }) {
+  async function handleUpdateDetails(tableId: string, details: Parameters<typeof updateTableDetails>[2]) {
     'use server';
     await updateTableDetails(tableId, restaurantInternalId, details);
   }
 
+  async function handleAddSection(input: { name: string, room: string | null }) {
+    'use server';
+    await addSection(restaurantInternalId, input);
+  }
+
+  async function handleToggleSection(sectionId: string, isEnabled: boolean, forShift: boolean) {
+    'use server';
+    await setSectionEnabled(sectionId, restaurantInternalId, isEnabled, forShift);
+  }
+
+  async function handleImport(formData: FormData, dryRun: boolean) {
+    'use server';
+    return importReservationsFile(restaurantInternalId, formData, dryRun);
+  }
+
+  async function handleCreateApiKey(formData: FormData) {
+    'use server';
+    return createRestaurantApiKey(restaurantInternalId, formData);
+  }
+
+  async function handleRotateApiKey(keyId: string, graceHours: number) {
+    'use server';
+    return rotateRestaurantApiKey(keyId, restaurantInternalId, graceHours);
+  }
+
+  async function handleRevokeApiKey(keyId: string) {
+    'use server';
+    await revokeRestaurantApiKey(keyId, restaurantInternalId);
+  }
+
+  async function handleDeleteSection(sectionId: string) {
+    'use server';
+    await deleteSection(sectionId, restaurantInternalId);
+  }
+
+  const apiKeyList = can(role, 'api-keys:manage') ? await listApiKeys(restaurantInternalId) : [];
+
+  // Confirmed buyouts share the reservation list, in start time order
+  const privateEvents = (await listUpcomingPrivateEvents(restaurantInternalId)).filter(e => e.status === 'confirmed');
+  const sectionNames = new Map<string, string>(restaurant.sections.map((s: any) => [s.id, s.name]));
+  const calendar: ({ kind: 'reservation'; startTime: Date; reservation: any } | { kind: 'event'; startTime: Date; event: typeof privateEvents[number] })[] = [
+    ...restaurant.restaurantReservations.map((reservation: any) => ({ kind: 'reservation' as const, startTime: new Date(reservation.startTime), reservation })),
+    ...privateEvents.map(event => ({ kind: 'event' as const, startTime: new Date(event.startTime), event })),
+  ].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  // Guest details for the reservation picked in the list below
+  const selectedReservation = restaurant.restaurantReservations.find((r: any) => r.id === selectedReservationId);
+  const guest = selectedReservation ? await getGuestDetails(restaurantInternalId, selectedReservation.guestEmail) : null;
+
+  async function handleSaveGuest(notes: GuestNotes & { preferences: string | null }) {
+    'use server';
+    if (!guest) return;
+    await updateGuestProfile(guest.profile.id, restaurantInternalId, notes);
+  }
+
+  async function handleMergeGuests(profileIds: string[]) {
+    'use server';
+    await mergeDuplicateGuests(restaurantInternalId, profileIds);
+  }
+
   return (
     <div className="p-8 max-w-7xl mx-auto">
       <LiveView restaurantId={restaurantInternalId} />
       <header className="mb-8 flex justify-between items-center">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">{restaurant.name} Dashboard</h1>
-          <p className="text-gray-500">Manage your floor plan and restaurantReservations</p>
+          <p className="text-gray-500">Manage your floor plan and restaurantReservations · Signed in as {ROLE_LABELS[role]}</p>
         </div>
         <div className="flex items-center gap-6">
+          {can(role, 'floor:operate') && (
+            <Link href={`/dashboard/${restaurantId}/host`} className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors">
+              <ConciergeBell className="w-4 h-4" />
+              Host Stand
+            </Link>
+          )}
+          {can(role, 'events:manage') && (
+            <Link href={`/dashboard/${restaurantId}/events`} className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors">
+              <PartyPopper className="w-4 h-4" />
+              Events
+            </Link>
+          )}
+          {can(role, 'staff:manage') && (
+            <Link href={`/dashboard/${restaurantId}/staff`} className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors">
+              <Users className="w-4 h-4" />
+              Staff
+            </Link>
+          )}
+          {can(role, 'webhooks:manage') && (
+            <Link href={`/dashboard/${restaurantId}/webhooks`} className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors">
+              <Webhook className="w-4 h-4" />
+              Webhooks
+            </Link>
+          )}
           <UserMenu restaurantId={restaurantInternalId} />
-          <div className="bg-gray-100 px-4 py-2 rounded-lg flex items-center space-x-4">
-          <div>
-            <span className="text-sm font-medium text-gray-600">API Key: </span>
-            <code className="text-sm bg-gray-200 px-2 py-1 rounded">{restaurant.apiKey}</code>
-          </div>
-          <form action={async () => {
-            'use server';
-            await regenerateApiKey(restaurantInternalId);
-          }}>
-            <button 
-              type="submit"
-              className="text-xs bg-white border border-gray-300 px-2 py-1 rounded hover:bg-gray-50 transition-colors"
-              title="Regenerate API Key"
-            >
-              Regenerate
-            </button>
-          </form>
-        </div>
         </div>
       </header>
 
@@ -109,80 +200,290 @@ export default async function DashboardPage(props: { params: Promise<{ restauran
         <h2 className="text-xl font-semibold mb-6">Floor Plan Editor</h2>
         <FloorPlan 
           initialTables={restaurant.tables} 
+          sections={restaurant.sections}
           restaurantReservations={restaurant.restaurantReservations.filter((r: any) => r.status === 'confirmed')}
           onSave={handleSave} 
           onStatusChange={handleStatusChange}
+          statusTimers={resolveStatusTimers(restaurant.tableStatusTimers)}
           onAdd={handleAddTable}
           onDelete={handleDeleteTable}
           onUpdateDetails={handleUpdateDetails}
+          onAddSection={handleAddSection}
+          onToggleSection={handleToggleSection}
+          onDeleteSection={handleDeleteSection}
           restaurantId={restaurantInternalId}
         />
       </section>
 
-      <section className="mt-8 bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
-        <h2 className="text-xl font-semibold mb-6">Restaurant Settings</h2>
-        <form action={async (formData) => {
-          'use server';
-          await updateRestaurantSettings(restaurantInternalId, formData);
-        }} className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Opening Time (HH:mm)</label>
-            <input 
-              type="text" 
-              name="openingTime" 
-              defaultValue={restaurant.openingTime || '09:00'} 
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-              placeholder="09:00"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Closing Time (HH:mm)</label>
-            <input 
-              type="text" 
-              name="closingTime" 
-              defaultValue={restaurant.closingTime || '22:00'} 
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-              placeholder="22:00"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Timezone</label>
-            <input 
-              type="text" 
-              name="timezone" 
-              defaultValue={restaurant.timezone || 'UTC'} 
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-              placeholder="America/New_York"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Default Duration (minutes)</label>
-            <input 
-              type="number" 
-              name="defaultDurationMinutes" 
-              defaultValue={restaurant.defaultDurationMinutes || 90} 
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-            />
-          </div>
-          <div className="md:col-span-2">
-            <label className="block text-sm font-medium text-gray-700 mb-1">Days Open (comma separated)</label>
-            <input 
-              type="text" 
-              name="daysOpen" 
-              defaultValue={restaurant.daysOpen || 'monday,tuesday,wednesday,thursday,friday,saturday,sunday'} 
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-            />
-          </div>
-          <div className="md:col-span-2">
-            <button 
-              type="submit" 
-              className="bg-blue-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors"
-            >
-              Save Settings
-            </button>
-          </div>
-        </form>
-      </section>
+      {can(role, 'settings:manage') && (
+        <section className="mt-8 bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h2 className="text-xl font-semibold mb-6">Restaurant Settings</h2>
+          <form action={async (formData) => {
+            'use server';
+            await updateRestaurantSettings(restaurantInternalId, formData);
+          }} className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Opening Time (HH:mm)</label>
+              <input 
+                type="text" 
+                name="openingTime" 
+                defaultValue={restaurant.openingTime || '09:00'} 
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                placeholder="09:00"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Closing Time (HH:mm)</label>
+              <input 
+                type="text" 
+                name="closingTime" 
+                defaultValue={restaurant.closingTime || '22:00'} 
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                placeholder="22:00"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Timezone</label>
+              <input 
+                type="text" 
+                name="timezone" 
+                defaultValue={restaurant.timezone || 'UTC'} 
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                placeholder="America/New_York"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Default Duration (minutes)</label>
+              <input 
+                type="number" 
+                name="defaultDurationMinutes" 
+                defaultValue={restaurant.defaultDurationMinutes || 90} 
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Booking Slot Interval</label>
+              <select 
+                name="slotIntervalMinutes" 
+                defaultValue={restaurant.slotIntervalMinutes || 15} 
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                <option value={15}>Every 15 minutes</option>
+                <option value={30}>Every 30 minutes</option>
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Max Covers per Window</label>
+                <input 
+                  type="number" 
+                  name="pacingMaxCovers" 
+                  min={1}
+                  defaultValue={restaurant.pacingMaxCovers ?? ''} 
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  placeholder="No limit"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Pacing Window (minutes)</label>
+                <input 
+                  type="number" 
+                  name="pacingWindowMinutes" 
+                  defaultValue={restaurant.pacingWindowMinutes || 15} 
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Waitlist Response Time (minutes)</label>
+              <input 
+                type="number" 
+                name="waitlistResponseMinutes" 
+                min={1}
+                max={60}
+                defaultValue={restaurant.waitlistResponseMinutes || 10} 
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">No-Show Grace Period (minutes)</label>
+              <input 
+                type="number" 
+                name="noShowGraceMinutes" 
+                min={5}
+                defaultValue={restaurant.noShowGraceMinutes ?? ''} 
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                placeholder="Detection off"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Deposit After No-Shows</label>
+                <input 
+                  type="number" 
+                  name="depositNoShowThreshold" 
+                  min={1}
+                  defaultValue={restaurant.depositNoShowThreshold ?? ''} 
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  placeholder="Never"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Deposit Amount ($)</label>
+                <input 
+                  type="number" 
+                  name="noShowDepositAmount" 
+                  min={0}
+                  step="0.01"
+                  defaultValue={((restaurant.noShowDepositAmount || 0) / 100).toFixed(2)} 
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Free Cancellation (hours before)</label>
+                <input 
+                  type="number" 
+                  name="cancellationWindowHours" 
+                  min={0}
+                  max={168}
+                  defaultValue={restaurant.cancellationWindowHours ?? 24} 
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Late Cancellation Refund (%)</label>
+                <input 
+                  type="number" 
+                  name="lateCancellationRefundPercent" 
+                  min={0}
+                  max={100}
+                  defaultValue={restaurant.lateCancellationRefundPercent ?? 0} 
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </div>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Days Open (comma separated)</label>
+              <input 
+                type="text" 
+                name="daysOpen" 
+                defaultValue={restaurant.daysOpen || 'monday,tuesday,wednesday,thursday,friday,saturday,sunday'} 
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <p className="text-xs text-gray-500 mb-4">Service periods below take precedence over the opening and closing times above.</p>
+              <ServiceScheduleEditor
+                initialSchedule={weeklyScheduleFor(restaurant)}
+                initialExceptions={restaurant.scheduleExceptions}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <TurnTimeRulesEditor initialRules={restaurant.turnTimeRules || []} />
+            </div>
+            <div className="md:col-span-2">
+              <h3 className="text-sm font-semibold text-gray-900 mb-1">Table Timers (minutes)</h3>
+              <p className="text-xs text-gray-500 mb-4">Seated, ordered and paying tables are flagged on the floor plan after this long. Dirty tables are reset to vacant.</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {TIMED_STATUSES.map(status => (
+                  <div key={status}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{TABLE_STATUS_LABELS[status]}</label>
+                    <input
+                      type="number"
+                      name={`${status}TimerMinutes`}
+                      min={1}
+                      max={MAX_STATUS_TIMER_MINUTES}
+                      defaultValue={restaurant.tableStatusTimers?.[status] ?? ''}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                      placeholder={String(DEFAULT_TABLE_STATUS_TIMERS[status])}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="md:col-span-2">
+              <h3 className="text-sm font-semibold text-gray-900 mb-1">Guest Emails</h3>
+              <p className="text-xs text-gray-500 mb-4">Confirmations, reminders, changes, cancellations and thank-you emails use this language and branding. Blank fields use the TableStack defaults.</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Email Language</label>
+                  <select
+                    name="emailLocale"
+                    defaultValue={restaurant.emailLocale || 'en'}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  >
+                    {EMAIL_LOCALES.map(locale => (
+                      <option key={locale} value={locale}>{EMAIL_LOCALE_LABELS[locale]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Sender Name</label>
+                  <input
+                    type="text"
+                    name="senderName"
+                    maxLength={60}
+                    defaultValue={restaurant.emailBranding?.senderName ?? ''}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder={restaurant.name}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reply-To Address</label>
+                  <input
+                    type="email"
+                    name="replyTo"
+                    defaultValue={restaurant.emailBranding?.replyTo ?? ''}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="bookings@example.com"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Accent Colour</label>
+                  <input
+                    type="text"
+                    name="accentColor"
+                    defaultValue={restaurant.emailBranding?.accentColor ?? ''}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="#2563eb"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Logo URL</label>
+                  <input
+                    type="url"
+                    name="logoUrl"
+                    defaultValue={restaurant.emailBranding?.logoUrl ?? ''}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="https://example.com/logo.png"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Footer</label>
+                  <textarea
+                    name="footer"
+                    maxLength={500}
+                    rows={2}
+                    defaultValue={restaurant.emailBranding?.footer ?? ''}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="12 Harbour Street · Open Tuesday to Sunday"
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="md:col-span-2">
+              <button 
+                type="submit" 
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+              >
+                Save Settings
+              </button>
+            </div>
+          </form>
+        </section>
+      )}
 
       <section className="mt-8 bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
         <h2 className="text-xl font-semibold mb-6 text-orange-600">Active Waitlist</h2>
@@ -193,6 +494,7 @@ export default async function DashboardPage(props: { params: Promise<{ restauran
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Guest</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Party</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Joined</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quoted</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
               </tr>
@@ -203,6 +505,9 @@ export default async function DashboardPage(props: { params: Promise<{ restauran
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{w.guestName}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{w.partySize}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{new Date(w.createdAt!).toLocaleTimeString()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {w.quotedWaitMinutes != null ? `${w.quotedWaitMinutes} min` : '-'}
+                  </td>
                   <td className={`px-6 py-4 whitespace-nowrap text-sm font-semibold capitalize ${
                     w.status === 'notified' ? 'text-blue-600' : 'text-orange-600'
                   }`}>
@@ -232,7 +537,7 @@ export default async function DashboardPage(props: { params: Promise<{ restauran
               ))}
               {restaurant.restaurantWaitlist.filter((w: any) => w.status !== 'seated').length === 0 && (
                 <tr>
-                  <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">Waitlist is currently empty.</td>
+                  <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">Waitlist is currently empty.</td>
                 </tr>
               )}
             </tbody>
@@ -242,6 +547,20 @@ export default async function DashboardPage(props: { params: Promise<{ restauran
 
       <section className="mt-8 bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
         <h2 className="text-xl font-semibold mb-6">Recent Reservations</h2>
+        {selectedReservation && !guest && (
+          <p className="mb-6 text-sm text-gray-500">No guest profile yet for {selectedReservation.guestEmail}.</p>
+        )}
+        {guest && (
+          <GuestPanel
+            key={`${guest.profile.id}-${guest.profile.updatedAt}`}
+            profile={guest.profile}
+            duplicates={guest.duplicates}
+            timeline={guest.timeline}
+            closeHref={`/dashboard/${restaurantId}`}
+            onSave={handleSaveGuest}
+            onMerge={handleMergeGuests}
+          />
+        )}
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead>
@@ -254,29 +573,75 @@ export default async function DashboardPage(props: { params: Promise<{ restauran
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {restaurant.restaurantReservations.map((res: any) => (
-                <tr key={res.id}>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{res.guestName}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{res.partySize}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{new Date(res.startTime).toLocaleString()}</td>
-                  <td className={`px-6 py-4 whitespace-nowrap text-sm font-semibold capitalize ${
-                    res.status === 'confirmed' ? 'text-green-600' : 'text-red-600'
-                  }`}>
-                    {res.status}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <form action={async () => {
-                      'use server';
-                      await deleteReservation(res.id, restaurantInternalId);
-                    }} className="inline">
-                      <button type="submit" className="text-red-600 hover:text-red-900 transition-colors">
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </form>
-                  </td>
-                </tr>
-              ))}
-              {restaurant.restaurantReservations.length === 0 && (
+              {calendar.map((entry) => {
+                if (entry.kind === 'event') {
+                  const event = entry.event;
+                  return (
+                    <tr key={`event-${event.id}`} className="bg-purple-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-purple-900">
+                        <span className="flex items-center gap-2">
+                          <PartyPopper className="w-4 h-4" />
+                          {event.name}
+                        </span>
+                        <span className="text-xs font-normal text-purple-700">
+                          Private event · {event.scope === 'venue' ? 'Whole venue' : (event.sectionId && sectionNames.get(event.sectionId)) || 'Deleted section'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-purple-700">{event.guestCount}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-purple-700">
+                        {new Date(event.startTime).toLocaleString()} – {new Date(event.endTime).toLocaleTimeString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-purple-600">buyout</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        {can(role, 'events:manage') && (
+                          <Link href={`/dashboard/${restaurantId}/events`} className="text-purple-600 hover:text-purple-900">
+                            Manage
+                          </Link>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                }
+                const res = entry.reservation;
+                return (
+                  <tr key={res.id} className={res.id === selectedReservationId ? 'bg-blue-50' : ''}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      <Link href={`/dashboard/${restaurantId}?reservation=${res.id}`} scroll={false} className="hover:text-blue-600 hover:underline">
+                        {res.guestName}
+                      </Link>
+                      {res.isWalkIn && <span className="ml-2 text-xs font-normal text-gray-500">walk-in</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{res.partySize}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{new Date(res.startTime).toLocaleString()}</td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm font-semibold capitalize ${
+                      res.status === 'confirmed' ? 'text-green-600' : 'text-red-600'
+                    }`}>
+                      {res.status === 'confirmed' && res.seatedAt ? 'seated' : res.status}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                      {res.status === 'confirmed' && !res.seatedAt && (
+                        <form action={async () => {
+                          'use server';
+                          await seatReservation(res.id, restaurantInternalId);
+                        }} className="inline">
+                          <button type="submit" title="Mark Seated" className="text-green-600 hover:text-green-900 transition-colors">
+                            <UserCheck className="w-4 h-4" />
+                          </button>
+                        </form>
+                      )}
+                      <form action={async () => {
+                        'use server';
+                        await deleteReservation(res.id, restaurantInternalId);
+                      }} className="inline">
+                        <button type="submit" className="text-red-600 hover:text-red-900 transition-colors">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </form>
+                    </td>
+                  </tr>
+                );
+              })}
+              {calendar.length === 0 && (
                 <tr>
                   <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">No restaurantReservations found.</td>
                 </tr>
@@ -286,7 +651,18 @@ export default async function DashboardPage(props: { params: Promise<{ restauran
         </div>
       </section>
 
-      <section className="mt-12 grid grid-cols-1 md:grid-cols-3 gap-6">
+      <ReservationTransfer restaurantId={restaurantInternalId} onImport={handleImport} />
+
+      {can(role, 'api-keys:manage') && (
+        <ApiKeyManager
+          keys={apiKeyList}
+          onCreate={handleCreateApiKey}
+          onRotate={handleRotateApiKey}
+          onRevoke={handleRevokeApiKey}
+        />
+      )}
+
+      <section className="mt-12 grid grid-cols-1 md:grid-cols-4 gap-6">
         <div className="bg-blue-50 p-6 rounded-xl border border-blue-100">
           <h3 className="text-blue-900 font-semibold mb-2">Total Tables</h3>
           <p className="text-3xl font-bold text-blue-600">{restaurant.tables.length}</p>
@@ -303,6 +679,19 @@ export default async function DashboardPage(props: { params: Promise<{ restauran
           <p className="text-sm text-amber-700">Manage your menu items and pricing</p>
         </Link>
 
+        {can(role, 'analytics:view') && (
+          <Link href={`/dashboard/${restaurantId}/analytics`} className="bg-green-50 p-6 rounded-xl border border-green-100 hover:shadow-md transition-shadow group">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-green-900 font-semibold flex items-center gap-2">
+                <BarChart3 className="w-4 h-4" />
+                Analytics
+              </h3>
+              <span className="text-green-600 group-hover:translate-x-1 transition-transform">→</span>
+            </div>
+            <p className="text-sm text-green-700">Covers, turn times, no-shows and table utilisation</p>
+          </Link>
+        )}
+
         <div className="bg-purple-50 p-6 rounded-xl border border-purple-100 md:col-span-1 flex justify-between items-center">
           <div>
             <h3 className="text-purple-900 font-semibold mb-2 flex items-center">
@@ -318,7 +707,7 @@ export default async function DashboardPage(props: { params: Promise<{ restauran
               <p className="text-sm text-purple-600">Connect your Stripe account to start accepting deposits.</p>
             )}
           </div>
-          {!restaurant.stripeAccountId && (
+          {!restaurant.stripeAccountId && can(role, 'billing:manage') && (
             <form action={async () => {
               'use server';
               await createStripeConnectAccount(restaurantInternalId);
@@ -0,0 +1,217 @@
+import { db } from "@repo/database";
+import { restaurants } from "@repo/database";
+import { eq } from '@repo/database';
+import { notFound, redirect } from 'next/navigation';
+import { currentUser } from '@clerk/nextjs/server';
+import Link from 'next/link';
+import { ArrowLeft, Building2, Trash2, UserPlus } from 'lucide-react';
+import { UserMenu } from '@/components/nav/UserMenu';
+import { getOwnedOrganisations, getStaffRole, listStaff } from '@/lib/staff';
+import { assignableRoles, can, canManageMember, isStaffRole, ROLE_LABELS } from '@/lib/staff-roles';
+import { inviteStaffMember, removeFromOrganisation, removeStaffMember, setRestaurantOrganisation, updateStaffRole } from '../actions';
+
+export default async function StaffPage(props: { params: Promise<{ restaurantId: string }> }) {
+  const { restaurantId } = await props.params;
+  const user = await currentUser();
+
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  // UUID regex check
+  const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(restaurantId);
+
+  const restaurant = await db.query.restaurants.findFirst({
+    where: isUuid
+      ? eq(restaurants.id, restaurantId)
+      : eq(restaurants.slug, restaurantId),
+    with: { organisation: true },
+  });
+
+  if (!restaurant) {
+    notFound();
+  }
+
+  const role = await getStaffRole(restaurant, user.id);
+  if (!can(role, 'staff:manage')) {
+    redirect('/dashboard');
+  }
+
+  const restaurantInternalId = restaurant.id;
+  const canManageOrganisation = can(role, 'organisation:manage');
+  const [members, ownedOrganisations] = await Promise.all([
+    listStaff(restaurant),
+    canManageOrganisation ? getOwnedOrganisations(user.id) : Promise.resolve([]),
+  ]);
+  const invitable = assignableRoles(role);
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      <header className="mb-8 flex justify-between items-center">
+        <div>
+          <Link href={`/dashboard/${restaurantId}`} className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1 mb-2">
+            <ArrowLeft className="w-4 h-4" /> Dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Staff</h1>
+          <p className="text-gray-500">Who can operate {restaurant.name}, and what they can do</p>
+        </div>
+        <UserMenu restaurantId={restaurantInternalId} />
+      </header>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 mb-8">
+        <h2 className="text-xl font-semibold mb-4 flex items-center gap-2"><UserPlus className="w-5 h-5" /> Invite</h2>
+        <form action={async (formData) => {
+          'use server';
+          await inviteStaffMember(restaurantInternalId, formData);
+        }} className="flex flex-wrap items-end gap-4">
+          <label className="flex-1 min-w-64 text-sm font-medium text-gray-700">
+            Email
+            <input
+              type="email"
+              name="email"
+              required
+              className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              placeholder="name@example.com"
+            />
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            Role
+            <select name="role" defaultValue="host" className="mt-1 block px-4 py-2 border border-gray-300 rounded-lg">
+              {invitable.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+          </label>
+          {restaurant.organisation && role === 'owner' && (
+            <label className="text-sm font-medium text-gray-700">
+              Access
+              <select name="scope" defaultValue="restaurant" className="mt-1 block px-4 py-2 border border-gray-300 rounded-lg">
+                <option value="restaurant">This location</option>
+                <option value="organisation">All {restaurant.organisation.name} locations</option>
+              </select>
+            </label>
+          )}
+          <button type="submit" className="bg-blue-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors">
+            Send Invite
+          </button>
+        </form>
+        <p className="text-xs text-gray-500 mt-3">Invites become active when the person signs in with this email address.</p>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 mb-8">
+        <h2 className="text-xl font-semibold mb-4">Team</h2>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Access</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            <tr>
+              <td className="px-4 py-3 text-sm font-medium text-gray-900">{restaurant.ownerEmail}</td>
+              <td className="px-4 py-3 text-sm text-gray-700">Owner</td>
+              <td className="px-4 py-3 text-sm text-gray-500">This location</td>
+              <td className="px-4 py-3 text-sm text-green-600">Active</td>
+              <td />
+            </tr>
+            {members.map(member => {
+              const memberRole = isStaffRole(member.role) ? member.role : null;
+              const manageable = memberRole !== null && canManageMember(role, memberRole);
+              return (
+                <tr key={member.id}>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{member.email}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {manageable ? (
+                      <form action={async (formData) => {
+                        'use server';
+                        await updateStaffRole(member.id, restaurantInternalId, formData.get('role') as string);
+                      }} className="flex items-center gap-2">
+                        <select name="role" defaultValue={memberRole} className="px-2 py-1 border border-gray-300 rounded">
+                          {invitable.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                        </select>
+                        <button type="submit" className="text-xs bg-white border border-gray-300 px-2 py-1 rounded hover:bg-gray-50">Save</button>
+                      </form>
+                    ) : (
+                      memberRole ? ROLE_LABELS[memberRole] : member.role
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-500">
+                    {member.organisationId ? `All ${restaurant.organisation?.name ?? 'organisation'} locations` : 'This location'}
+                  </td>
+                  <td className={`px-4 py-3 text-sm capitalize ${member.status === 'active' ? 'text-green-600' : 'text-amber-600'}`}>
+                    {member.status}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {manageable && (
+                      <form action={async () => {
+                        'use server';
+                        await removeStaffMember(member.id, restaurantInternalId);
+                      }} className="inline">
+                        <button type="submit" title="Remove" className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </form>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+
+      {canManageOrganisation && (
+        <section className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h2 className="text-xl font-semibold mb-2 flex items-center gap-2"><Building2 className="w-5 h-5" /> Organisation</h2>
+          {restaurant.organisation ? (
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-700">
+                Part of <strong>{restaurant.organisation.name}</strong>. Staff invited to all locations can work here.
+              </p>
+              <form action={async () => {
+                'use server';
+                await removeFromOrganisation(restaurantInternalId);
+              }}>
+                <button type="submit" className="text-sm text-red-600 hover:text-red-800">Remove from organisation</button>
+              </form>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500 mb-4">
+                Group your locations so you can switch between them and invite staff to all of them at once.
+              </p>
+              <form action={async (formData) => {
+                'use server';
+                await setRestaurantOrganisation(restaurantInternalId, formData);
+              }} className="flex flex-wrap items-end gap-4">
+                {ownedOrganisations.length > 0 && (
+                  <label className="text-sm font-medium text-gray-700">
+                    Existing organisation
+                    <select name="organisationId" defaultValue="" className="mt-1 block px-4 py-2 border border-gray-300 rounded-lg">
+                      <option value="">New organisation…</option>
+                      {ownedOrganisations.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                    </select>
+                  </label>
+                )}
+                <label className="flex-1 min-w-64 text-sm font-medium text-gray-700">
+                  New organisation name
+                  <input
+                    type="text"
+                    name="name"
+                    className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="e.g. Harbour Group"
+                  />
+                </label>
+                <button type="submit" className="bg-gray-900 text-white px-6 py-2 rounded-lg font-medium hover:bg-gray-700 transition-colors">
+                  Join Organisation
+                </button>
+              </form>
+            </>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
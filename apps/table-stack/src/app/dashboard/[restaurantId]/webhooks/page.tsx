@@ -0,0 +1,225 @@
+import { db } from "@repo/database";
+import { restaurants } from "@repo/database";
+import { eq } from '@repo/database';
+import { notFound, redirect } from 'next/navigation';
+import { currentUser } from '@clerk/nextjs/server';
+import Link from 'next/link';
+import { ArrowLeft, Pause, Play, RotateCw, Trash2, Webhook } from 'lucide-react';
+import { UserMenu } from '@/components/nav/UserMenu';
+import { getStaffRole } from '@/lib/staff';
+import { can } from '@/lib/staff-roles';
+import { listWebhookDeliveries, listWebhookSubscriptions } from '@/lib/webhooks';
+import { isWebhookEvent, MAX_DELIVERY_ATTEMPTS, WEBHOOK_EVENT_LABELS, WEBHOOK_EVENTS } from '@/lib/webhook-events';
+import { createWebhookEndpoint, deleteWebhookEndpoint, redeliverWebhookEvent, setWebhookEndpointActive } from '../actions';
+
+const STATUS_STYLES: Record<string, string> = {
+  delivered: 'text-green-600',
+  pending: 'text-amber-600',
+  failed: 'text-red-600',
+};
+
+export default async function WebhooksPage(props: { params: Promise<{ restaurantId: string }> }) {
+  const { restaurantId } = await props.params;
+  const user = await currentUser();
+
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  // UUID regex check
+  const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(restaurantId);
+
+  const restaurant = await db.query.restaurants.findFirst({
+    where: isUuid
+      ? eq(restaurants.id, restaurantId)
+      : eq(restaurants.slug, restaurantId),
+  });
+
+  if (!restaurant) {
+    notFound();
+  }
+
+  const role = await getStaffRole(restaurant, user.id);
+  if (!can(role, 'webhooks:manage')) {
+    redirect('/dashboard');
+  }
+
+  const restaurantInternalId = restaurant.id;
+  const [subscriptions, deliveries] = await Promise.all([
+    listWebhookSubscriptions(restaurantInternalId),
+    listWebhookDeliveries(restaurantInternalId),
+  ]);
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto">
+      <header className="mb-8 flex justify-between items-center">
+        <div>
+          <Link href={`/dashboard/${restaurantId}`} className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1 mb-2">
+            <ArrowLeft className="w-4 h-4" /> Dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Webhooks</h1>
+          <p className="text-gray-500">Notify partner systems when something changes at {restaurant.name}</p>
+        </div>
+        <UserMenu restaurantId={restaurantInternalId} />
+      </header>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 mb-8">
+        <h2 className="text-xl font-semibold mb-4 flex items-center gap-2"><Webhook className="w-5 h-5" /> Add Endpoint</h2>
+        <form action={async (formData) => {
+          'use server';
+          await createWebhookEndpoint(restaurantInternalId, formData);
+        }} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="text-sm font-medium text-gray-700">
+            URL
+            <input
+              type="url"
+              name="url"
+              required
+              className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              placeholder="https://partner.example.com/webhooks/table-stack"
+            />
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            Description
+            <input
+              type="text"
+              name="description"
+              maxLength={100}
+              className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              placeholder="e.g. Booking widget"
+            />
+          </label>
+          <fieldset className="md:col-span-2">
+            <legend className="text-sm font-medium text-gray-700 mb-2">Events</legend>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {WEBHOOK_EVENTS.map(event => (
+                <label key={event} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" name="events" value={event} />
+                  {WEBHOOK_EVENT_LABELS[event]}
+                  <code className="text-xs text-gray-400">{event}</code>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <div className="md:col-span-2">
+            <button type="submit" className="bg-blue-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors">
+              Add Endpoint
+            </button>
+          </div>
+        </form>
+        <p className="text-xs text-gray-500 mt-3">
+          Requests are signed with the endpoint&apos;s secret: the x-signature header is the hex HMAC-SHA256 of
+          {' '}<code>{'{x-timestamp}.{body}'}</code>. Failed deliveries are retried with increasing delays, up to {MAX_DELIVERY_ATTEMPTS} attempts.
+        </p>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 mb-8">
+        <h2 className="text-xl font-semibold mb-4">Endpoints</h2>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Endpoint</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Events</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Signing Secret</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {subscriptions.map(subscription => (
+              <tr key={subscription.id} className={subscription.isActive ? '' : 'opacity-50'}>
+                <td className="px-4 py-3 text-sm">
+                  <div className="font-medium text-gray-900 break-all">{subscription.url}</div>
+                  {subscription.description && <div className="text-gray-500">{subscription.description}</div>}
+                  {!subscription.isActive && <div className="text-amber-600 text-xs">Paused</div>}
+                </td>
+                <td className="px-4 py-3 text-xs text-gray-600">
+                  {subscription.events.map(event => isWebhookEvent(event) ? WEBHOOK_EVENT_LABELS[event] : event).join(', ')}
+                </td>
+                <td className="px-4 py-3 text-sm">
+                  <details>
+                    <summary className="cursor-pointer text-blue-600 text-xs">Reveal</summary>
+                    <code className="text-xs bg-gray-100 px-2 py-1 rounded break-all">{subscription.secret}</code>
+                  </details>
+                </td>
+                <td className="px-4 py-3 text-right whitespace-nowrap">
+                  <form action={async () => {
+                    'use server';
+                    await setWebhookEndpointActive(subscription.id, restaurantInternalId, !subscription.isActive);
+                  }} className="inline">
+                    <button type="submit" title={subscription.isActive ? 'Pause' : 'Resume'} className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors">
+                      {subscription.isActive ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </button>
+                  </form>
+                  <form action={async () => {
+                    'use server';
+                    await deleteWebhookEndpoint(subscription.id, restaurantInternalId);
+                  }} className="inline">
+                    <button type="submit" title="Delete" className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </form>
+                </td>
+              </tr>
+            ))}
+            {subscriptions.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-4 py-4 text-center text-sm text-gray-500">No endpoints yet.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <h2 className="text-xl font-semibold mb-4">Recent Deliveries</h2>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Endpoint</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {deliveries.map(delivery => (
+              <tr key={delivery.id}>
+                <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">{delivery.createdAt?.toLocaleString()}</td>
+                <td className="px-4 py-3 text-sm"><code className="text-xs">{delivery.eventType}</code></td>
+                <td className="px-4 py-3 text-xs text-gray-600 break-all">{delivery.subscription.url}</td>
+                <td className="px-4 py-3 text-sm">
+                  <span className={`capitalize ${STATUS_STYLES[delivery.status] ?? 'text-gray-600'}`}>{delivery.status}</span>
+                  {delivery.responseStatus !== null && <span className="text-gray-500"> · HTTP {delivery.responseStatus}</span>}
+                  {delivery.errorMessage && <div className="text-xs text-gray-500 break-all">{delivery.errorMessage}</div>}
+                  {delivery.status === 'pending' && delivery.attempts > 0 && delivery.nextAttemptAt && (
+                    <div className="text-xs text-gray-500">Next retry {delivery.nextAttemptAt.toLocaleString()}</div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-700">{delivery.attempts}</td>
+                <td className="px-4 py-3 text-right">
+                  {delivery.status !== 'pending' && (
+                    <form action={async () => {
+                      'use server';
+                      await redeliverWebhookEvent(delivery.id, restaurantInternalId);
+                    }} className="inline">
+                      <button type="submit" title="Redeliver" className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors">
+                        <RotateCw className="w-4 h-4" />
+                      </button>
+                    </form>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {deliveries.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-4 text-center text-sm text-gray-500">No deliveries yet.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
-import { db, restaurants, eq } from "@repo/database";
 import { currentUser } from '@clerk/nextjs/server';
 import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { Store } from 'lucide-react';
+import { acceptStaffInvites, getAccessibleRestaurants } from '@/lib/staff';
 
 export default async function DashboardRootPage() {
   const user = await currentUser();
@@ -8,13 +10,45 @@ export default async function DashboardRootPage() {
     redirect('/sign-in');
   }
 
-  const restaurant = await db.query.restaurants.findFirst({
-    where: eq(restaurants.ownerId, user.id),
-  });
+  // Staff invited by email get access the first time they sign in
+  await acceptStaffInvites(
+    user.id,
+    user.emailAddresses
+      .filter(address => address.verification?.status === 'verified')
+      .map(address => address.emailAddress)
+  );
 
-  if (restaurant) {
-    redirect(`/dashboard/${restaurant.slug || restaurant.id}`);
-  } else {
+  const restaurants = await getAccessibleRestaurants(user.id);
+
+  if (restaurants.length === 0) {
     redirect('/onboarding');
   }
+
+  if (restaurants.length === 1) {
+    redirect(`/dashboard/${restaurants[0].slug || restaurants[0].id}`);
+  }
+
+  return (
+    <div className="p-8 max-w-3xl mx-auto">
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">Your Restaurants</h1>
+      <p className="text-gray-500 mb-8">Choose a location to manage</p>
+      <ul className="bg-white rounded-2xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+        {restaurants.map(restaurant => (
+          <li key={restaurant.id}>
+            <Link
+              href={`/dashboard/${restaurant.slug || restaurant.id}`}
+              className="flex items-center gap-3 px-6 py-4 hover:bg-gray-50 transition-colors"
+            >
+              <Store className="w-5 h-5 text-gray-400" />
+              <div className="flex-1">
+                <p className="font-medium text-gray-900">{restaurant.name}</p>
+                {restaurant.address && <p className="text-sm text-gray-500">{restaurant.address}</p>}
+              </div>
+              <span className="text-gray-400">→</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
 }
@@ -6,8 +6,9 @@ import { currentUser } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
-import crypto from "crypto";
 import { geocode } from "@repo/shared/utils/geo";
+import { createApiKey } from "@/lib/api-keys";
+import { API_KEY_SCOPES, generateKeySecret } from "@/lib/api-key-scopes";
 
 const onboardingSchema = z.object({
   name: z.string().min(2),
@@ -57,7 +58,7 @@ export async function createRestaurant(data: z.infer<typeof onboardingSchema>) {
     return { error: `Could not geocode address "${validated.address}". Please check the address and try again.` };
   }
 
-  const apiKey = `ts_${crypto.randomBytes(16).toString("hex")}`;
+  const apiKey = generateKeySecret();
 
   const [restaurant] = await db.insert(restaurants).values({
     name: validated.name,
@@ -77,6 +78,10 @@ export async function createRestaurant(data: z.infer<typeof onboardingSchema>) {
     isShadow: false,
   }).returning();
 
+  // Requests authenticate against api_keys only; register the restaurant's
+  // key there as the "Default" key, as migration 0019 did for earlier ones
+  await createApiKey(restaurant.id, { name: 'Default', scopes: [...API_KEY_SCOPES], expiresAt: null }, user.id, apiKey);
+
   if (validated.tables.length > 0) {
     await db.insert(restaurantTables).values(
       validated.tables.map(table => ({
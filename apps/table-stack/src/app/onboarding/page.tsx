@@ -5,7 +5,7 @@ import { useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { createRestaurant } from "./actions";
-import { Table as TableIcon, Plus, ChevronRight, ChevronLeft, Settings, Save } from "lucide-react";
+import { Table as TableIcon, Plus, ChevronRight, ChevronLeft, Settings, Save, Upload } from "lucide-react";
 import {
   DndContext,
   useSensor,
@@ -365,6 +365,16 @@ export default function OnboardingPage() {
                       <p className="text-blue-700 text-sm text-balance">TableStack will automatically optimize your seating to maximize capacity.</p>
                     </div>
                   </div>
+
+                  <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 flex gap-4">
+                    <div className="bg-gray-700 p-2 rounded-lg h-fit">
+                      <Upload className="text-white w-5 h-5" />
+                    </div>
+                    <div>
+                      <h3 className="font-bold text-gray-900">Bringing existing bookings?</h3>
+                      <p className="text-gray-600 text-sm text-balance">Once setup is complete, import them from a CSV or iCalendar file under Import &amp; Export on your dashboard.</p>
+                    </div>
+                  </div>
                 </div>
               </div>
 
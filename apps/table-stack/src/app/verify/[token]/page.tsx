@@ -3,6 +3,7 @@ import { restaurantReservations } from "@repo/database";
 import { eq } from '@repo/database';
 import { notFound } from 'next/navigation';
 import { NotifyService } from '@/lib/notifications';
+import { sendConfirmationEmail } from '@/lib/reservation-emails';
 
 export default async function VerifyPage(props: { params: Promise<{ token: string }> }) {
   const params = await props.params;
@@ -28,10 +29,21 @@ export default async function VerifyPage(props: { params: Promise<{ token: strin
     );
   }
 
+  // Deposit reservations are confirmed by the payment webhook instead
+  if ((reservation.depositAmount ?? 0) > 0) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen py-2">
+        <h1 className="text-4xl font-bold text-amber-600">Deposit Required</h1>
+        <p className="mt-4 text-xl">Your reservation will be confirmed once your deposit of ${((reservation.depositAmount ?? 0) / 100).toFixed(2)} is paid.</p>
+      </div>
+    );
+  }
+
   // Update verification status
-  await db.update(restaurantReservations)
+  const [verified] = await db.update(restaurantReservations)
     .set({ isVerified: true, status: 'confirmed' })
-    .where(eq(restaurantReservations.id, reservation.id));
+    .where(eq(restaurantReservations.id, reservation.id))
+    .returning();
 
   // Notify owner
   if (reservation.restaurant && reservation.restaurant.ownerEmail) {
@@ -41,6 +53,7 @@ export default async function VerifyPage(props: { params: Promise<{ token: strin
       startTime: reservation.startTime,
     });
   }
+  await sendConfirmationEmail(verified, reservation.restaurant);
 
   return (
     <div className="flex flex-col items-center justify-center min-h-screen py-2">
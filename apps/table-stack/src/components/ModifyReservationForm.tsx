@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Users, Calendar, Clock, AlertCircle, Pencil } from "lucide-react";
+import { modifyReservation } from '@/app/book/actions';
+
+interface TimeSlot {
+  time: string;
+  localTime: string;
+  available: boolean;
+}
+
+/**
+ * Lets a guest pick a new date, time and party size for their reservation.
+ * Slots come from the availability grid; the server re-checks everything.
+ */
+export default function ModifyReservationForm({
+  reservationId,
+  restaurantId,
+  initialDate,
+  initialTime,
+  initialPartySize,
+}: {
+  reservationId: string;
+  restaurantId: string;
+  initialDate: string;
+  initialTime: string;
+  initialPartySize: number;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [date, setDate] = useState(initialDate);
+  const [partySize, setPartySize] = useState(initialPartySize);
+  const [slots, setSlots] = useState<TimeSlot[]>([]);
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isOpen || !date) return;
+    let cancelled = false;
+
+    fetch(`/api/v1/availability/slots?restaurantId=${restaurantId}&date=${date}&partySize=${partySize}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (cancelled) return;
+        const loaded: TimeSlot[] = data?.slots ?? [];
+        setSlots(loaded);
+        // Keep the guest's current time selected when it is still offered
+        setSelectedTime(current =>
+          loaded.find(s => s.time === current)?.time ??
+          loaded.find(s => s.localTime === initialTime)?.time ??
+          null
+        );
+      })
+      .catch(() => {
+        if (!cancelled) setSlots([]);
+      });
+
+    return () => { cancelled = true; };
+  }, [isOpen, date, partySize, restaurantId, initialTime]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedTime) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await modifyReservation(reservationId, { startTime: selectedTime, partySize });
+      setIsOpen(false);
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || "Failed to update reservation");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="w-full py-3 rounded-xl border-2 border-blue-100 text-blue-600 font-bold hover:bg-blue-50 transition flex items-center justify-center gap-2"
+      >
+        <Pencil className="w-5 h-5" /> Change Reservation
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 p-4 border border-gray-100 rounded-xl">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="space-y-1">
+          <span className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <Calendar className="w-4 h-4" /> Date
+          </span>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="w-full px-3 py-2 border rounded-lg"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <Users className="w-4 h-4" /> Guests
+          </span>
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={partySize}
+            onChange={(e) => setPartySize(parseInt(e.target.value) || 1)}
+            className="w-full px-3 py-2 border rounded-lg"
+          />
+        </label>
+      </div>
+
+      <div className="space-y-1">
+        <span className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <Clock className="w-4 h-4" /> Time
+        </span>
+        {slots.length === 0 ? (
+          <p className="text-sm text-gray-500">No times available on this date.</p>
+        ) : (
+          <div className="grid grid-cols-4 gap-2">
+            {slots.map(slot => (
+              <button
+                type="button"
+                key={slot.time}
+                disabled={!slot.available && slot.time !== selectedTime}
+                onClick={() => setSelectedTime(slot.time)}
+                className={`py-2 rounded-lg text-sm font-medium transition ${
+                  selectedTime === slot.time
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed'
+                }`}
+              >
+                {slot.localTime}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 text-red-600 rounded-lg flex items-center gap-2 text-sm">
+          <AlertCircle className="w-4 h-4" /> {error}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="flex-1 py-2 rounded-lg border border-gray-200 text-gray-600 font-medium"
+        >
+          Keep Current
+        </button>
+        <button
+          type="submit"
+          disabled={!selectedTime || isLoading}
+          className="flex-1 py-2 rounded-lg bg-blue-600 text-white font-bold disabled:opacity-50"
+        >
+          {isLoading ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,11 +1,12 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { format, addMinutes } from "date-fns";
 import { toZonedTime } from "date-fns-tz";
 import { DayPicker } from "react-day-picker";
 import { Users, Clock, ChevronRight, AlertCircle, CheckCircle, User } from "lucide-react";
 import "react-day-picker/dist/style.css";
+import { DEPOSIT_CHECKOUT_MINUTES } from "@/lib/deposits";
 
 interface Table {
   id: string;
@@ -13,6 +14,20 @@ interface Table {
   maxCapacity: number;
 }
 
+interface TimeSlot {
+  time: string;
+  localTime: string;
+  available: boolean;
+  reason?: 'fully_booked' | 'pacing_limit' | 'private_event';
+}
+
+interface Booking {
+  id: string;
+  depositAmount?: number | null;
+  /** Stripe Checkout page for the deposit */
+  depositCheckoutUrl?: string | null;
+}
+
 interface Restaurant {
   id: string;
   name: string;
@@ -27,7 +42,7 @@ export default function ReservationForm({
   onBook 
 }: { 
   restaurant: Restaurant;
-  onBook: (data: any) => Promise<string>;
+  onBook: (data: any) => Promise<Booking>;
 }) {
   const [date, setDate] = useState<Date | undefined>(new Date());
   const [partySize, setPartySize] = useState(2);
@@ -35,7 +50,34 @@ export default function ReservationForm({
   const [guestInfo, setGuestInfo] = useState({ name: "", email: "" });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [successId, setSuccessId] = useState<string | null>(null);
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [slots, setSlots] = useState<TimeSlot[] | null>(null);
+
+  // Load the day's bookable slots; falls back to the static grid on failure
+  useEffect(() => {
+    if (!date) return;
+    let cancelled = false;
+
+    fetch(`/api/v1/availability/slots?restaurantId=${restaurant.id}&date=${format(date, 'yyyy-MM-dd')}&partySize=${partySize}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (cancelled) return;
+        const loaded: TimeSlot[] | null = data?.slots ?? null;
+        setSlots(loaded);
+        if (loaded) {
+          setSelectedHour(current =>
+            loaded.some(s => s.available && s.localTime === current)
+              ? current
+              : loaded.find(s => s.available)?.localTime ?? current
+          );
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setSlots(null);
+      });
+
+    return () => { cancelled = true; };
+  }, [date, partySize, restaurant.id]);
 
   const generateTimeSlots = () => {
     const slots = [];
@@ -60,13 +102,13 @@ export default function ReservationForm({
     setIsLoading(true);
     setError(null);
     try {
-      const id = await onBook({
+      const result = await onBook({
         date,
         partySize,
         time: selectedHour,
         guestInfo
       });
-      setSuccessId(id);
+      setBooking(result);
     } catch (err: any) {
       setError(err.message || "Failed to book");
     } finally {
@@ -74,7 +116,32 @@ export default function ReservationForm({
     }
   };
 
-  if (successId) {
+  if (booking && (booking.depositAmount ?? 0) > 0) {
+    return (
+      <div className="text-center py-8 space-y-4">
+        <div className="bg-amber-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto">
+          <AlertCircle className="text-amber-600 w-10 h-10" />
+        </div>
+        <h2 className="text-2xl font-bold">Deposit Required</h2>
+        <p className="text-gray-500">
+          Your table at {restaurant.name} is held for {DEPOSIT_CHECKOUT_MINUTES} minutes. Pay the ${((booking.depositAmount ?? 0) / 100).toFixed(2)} deposit to confirm it.
+        </p>
+        {booking.depositCheckoutUrl ? (
+          <a
+            href={booking.depositCheckoutUrl}
+            className="inline-flex items-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-xl font-bold hover:bg-blue-700 transition"
+          >
+            Pay Deposit <ChevronRight className="w-4 h-4" />
+          </a>
+        ) : (
+          <p className="text-sm text-red-600">We could not open the payment page. Please try booking again in a few minutes.</p>
+        )}
+        <button onClick={() => setBooking(null)} className="text-blue-600 font-medium">Make another booking</button>
+      </div>
+    );
+  }
+
+  if (booking) {
     return (
       <div className="text-center py-8 space-y-4">
         <div className="bg-green-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto">
@@ -82,7 +149,7 @@ export default function ReservationForm({
         </div>
         <h2 className="text-2xl font-bold">Confirmed!</h2>
         <p className="text-gray-500">Your table at {restaurant.name} is reserved.</p>
-        <button onClick={() => setSuccessId(null)} className="text-blue-600 font-medium">Make another booking</button>
+        <button onClick={() => setBooking(null)} className="text-blue-600 font-medium">Make another booking</button>
       </div>
     );
   }
@@ -158,17 +225,22 @@ export default function ReservationForm({
             <label className="flex items-center gap-2 text-sm font-bold text-gray-900 mb-3">
               <Clock className="w-4 h-4" /> Select Time
             </label>
+            {slots && slots.length === 0 && (
+              <p className="text-sm text-gray-500">No times left on this day. Please pick another date.</p>
+            )}
             <div className="grid grid-cols-4 gap-2">
-              {generateTimeSlots().map(time => (
+              {(slots ?? generateTimeSlots().map(time => ({ time, localTime: time, available: true } as TimeSlot))).map(slot => (
                 <button
                   type="button"
-                  key={time}
-                  onClick={() => setSelectedHour(time)}
-                  className={`py-2 rounded-xl border-2 text-sm font-bold transition ${
-                    selectedHour === time ? "bg-blue-600 border-blue-600 text-white shadow-lg shadow-blue-200" : "bg-white text-gray-700 hover:bg-gray-50 border-gray-100"
+                  key={slot.localTime}
+                  disabled={!slot.available}
+                  title={slot.reason === 'pacing_limit' ? 'Kitchen is at capacity for this time' : slot.reason === 'private_event' ? 'Booked for a private event' : slot.reason === 'fully_booked' ? 'Fully booked' : undefined}
+                  onClick={() => setSelectedHour(slot.localTime)}
+                  className={`py-2 rounded-xl border-2 text-sm font-bold transition disabled:opacity-40 disabled:line-through disabled:cursor-not-allowed ${
+                    selectedHour === slot.localTime ? "bg-blue-600 border-blue-600 text-white shadow-lg shadow-blue-200" : "bg-white text-gray-700 hover:bg-gray-50 border-gray-100"
                   }`}
                 >
-                  {time}
+                  {slot.localTime}
                 </button>
               ))}
             </div>
@@ -0,0 +1,209 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Copy, KeyRound, RefreshCw, Trash2 } from 'lucide-react';
+import { API_KEY_SCOPES, ApiKeyScope, DEFAULT_ROTATION_GRACE_HOURS, isKeyActive, SCOPE_LABELS } from '@/lib/api-key-scopes';
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date | null;
+}
+
+const GRACE_OPTIONS = [
+  { hours: 0, label: 'Immediately' },
+  { hours: 1, label: 'After 1 hour' },
+  { hours: DEFAULT_ROTATION_GRACE_HOURS, label: 'After 24 hours' },
+  { hours: 72, label: 'After 3 days' },
+  { hours: 168, label: 'After 7 days' },
+];
+
+function formatDate(value: Date | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+/**
+ * Named API keys with scopes. New and rotated keys are shown once; after
+ * that only their prefix is known.
+ */
+export default function ApiKeyManager({
+  keys,
+  onCreate,
+  onRotate,
+  onRevoke,
+}: {
+  keys: ApiKeyRow[];
+  onCreate: (formData: FormData) => Promise<{ secret: string }>;
+  onRotate: (keyId: string, graceHours: number) => Promise<{ secret: string }>;
+  onRevoke: (keyId: string) => Promise<unknown>;
+}) {
+  const [secret, setSecret] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [graceHours, setGraceHours] = useState(DEFAULT_ROTATION_GRACE_HOURS);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const result = await action();
+      if (result && typeof result === 'object' && 'secret' in result) {
+        setSecret((result as { secret: string }).secret);
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const now = new Date();
+
+  return (
+    <section className="mt-8 bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <h2 className="text-xl font-semibold mb-6 flex items-center gap-2"><KeyRound className="w-5 h-5" /> API Keys</h2>
+
+      {secret && (
+        <div className="mb-6 p-4 rounded-lg bg-green-50 border border-green-200">
+          <p className="text-sm text-green-800 mb-2">Copy this key now. It will not be shown again.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-sm bg-white border border-green-200 px-3 py-2 rounded break-all">{secret}</code>
+            <button
+              type="button"
+              onClick={() => navigator.clipboard.writeText(secret)}
+              className="p-2 text-green-700 hover:bg-green-100 rounded-lg"
+              title="Copy"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+            <button type="button" onClick={() => setSecret(null)} className="text-sm text-green-700 hover:underline">Done</button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      <table className="min-w-full divide-y divide-gray-200 mb-8">
+        <thead>
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Key</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scopes</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Used</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {keys.map(key => {
+            const active = isKeyActive({ expiresAt: key.expiresAt ? new Date(key.expiresAt) : null, revokedAt: key.revokedAt }, now);
+            return (
+              <tr key={key.id} className={active ? '' : 'opacity-50'}>
+                <td className="px-4 py-3 text-sm font-medium text-gray-900">{key.name}</td>
+                <td className="px-4 py-3 text-sm"><code className="bg-gray-100 px-2 py-1 rounded">{key.keyPrefix}…</code></td>
+                <td className="px-4 py-3 text-xs text-gray-600">{key.scopes.join(', ')}</td>
+                <td className="px-4 py-3 text-sm text-gray-500">
+                  {key.revokedAt ? 'Revoked' : key.expiresAt ? formatDate(key.expiresAt) : 'Never'}
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-500">{formatDate(key.lastUsedAt)}</td>
+                <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                  {active && (
+                    <>
+                      <button
+                        type="button"
+                        disabled={isWorking}
+                        onClick={() => run(() => onRotate(key.id, graceHours))}
+                        title="Rotate"
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg disabled:opacity-50"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        disabled={isWorking}
+                        onClick={() => confirm(`Revoke "${key.name}"? Integrations using it stop working at once.`) && run(() => onRevoke(key.id))}
+                        title="Revoke"
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+          {keys.length === 0 && (
+            <tr>
+              <td colSpan={6} className="px-4 py-4 text-center text-sm text-gray-500">No API keys yet.</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <label className="flex items-center gap-2 text-sm text-gray-600 mb-6">
+        When rotating, keep the old key working
+        <select
+          value={graceHours}
+          onChange={e => setGraceHours(Number(e.target.value))}
+          className="px-2 py-1 border border-gray-300 rounded"
+        >
+          {GRACE_OPTIONS.map(option => <option key={option.hours} value={option.hours}>{option.label.toLowerCase()}</option>)}
+        </select>
+      </label>
+
+      <form
+        action={formData => run(() => onCreate(formData))}
+        className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t border-gray-100 pt-6"
+      >
+        <label className="text-sm font-medium text-gray-700">
+          Name
+          <input
+            type="text"
+            name="name"
+            required
+            maxLength={60}
+            placeholder="e.g. Website widget"
+            className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          Expires after (days)
+          <input
+            type="number"
+            name="expiresInDays"
+            min={1}
+            placeholder="Never"
+            className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+        </label>
+        <fieldset className="md:col-span-2">
+          <legend className="text-sm font-medium text-gray-700 mb-2">Scopes</legend>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {API_KEY_SCOPES.map((scope: ApiKeyScope) => (
+              <label key={scope} className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" name="scopes" value={scope} />
+                {SCOPE_LABELS[scope]}
+                <code className="text-xs text-gray-400">{scope}</code>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <div className="md:col-span-2">
+          <button
+            type="submit"
+            disabled={isWorking}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Create Key
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
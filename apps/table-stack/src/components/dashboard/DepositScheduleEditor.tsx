@@ -0,0 +1,63 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface InstalmentRow {
+  amount: string;
+  dueDate: string;
+}
+
+/**
+ * Edits a private event's deposit schedule. Submitted with the event form as
+ * a JSON hidden input, amounts converted from dollars to cents.
+ */
+export default function DepositScheduleEditor() {
+  const [rows, setRows] = useState<InstalmentRow[]>([]);
+
+  const updateRow = (index: number, changes: Partial<InstalmentRow>) => {
+    setRows(rows.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+  };
+
+  const schedule = rows
+    .filter(r => r.amount && r.dueDate)
+    .map(r => ({ amount: Math.round(parseFloat(r.amount) * 100), dueDate: r.dueDate }));
+
+  return (
+    <div className="space-y-2">
+      <input type="hidden" name="depositSchedule" value={JSON.stringify(schedule)} />
+      <h3 className="text-sm font-medium text-gray-700">Deposit Schedule</h3>
+      {rows.map((row, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2 py-2 border-b border-gray-100 text-sm">
+          <span className="text-gray-500">$</span>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={row.amount}
+            onChange={(e) => updateRow(index, { amount: e.target.value })}
+            className="w-28 px-2 py-1 border rounded"
+            placeholder="500.00"
+          />
+          <span className="text-gray-500">due</span>
+          <input
+            type="date"
+            value={row.dueDate}
+            onChange={(e) => updateRow(index, { dueDate: e.target.value })}
+            className="px-2 py-1 border rounded"
+          />
+          <button type="button" onClick={() => setRows(rows.filter((_, i) => i !== index))} className="p-1 text-red-500 hover:text-red-700">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => setRows([...rows, { amount: '', dueDate: '' }])}
+        className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+      >
+        <Plus className="w-4 h-4" /> Add instalment
+      </button>
+    </div>
+  );
+}
@@ -13,9 +13,21 @@ import {
   useDroppable,
 } from '@dnd-kit/core';
 import { CSS } from '@dnd-kit/utilities';
-import { Table, Trash2, CheckCircle, AlertCircle, LucideIcon, Plus, Settings2, X, Save } from 'lucide-react';
+import { Table, Trash2, CheckCircle, AlertCircle, LucideIcon, Plus, Settings2, X, Save, Ban, RotateCw, Utensils, CreditCard, Wrench, Clock } from 'lucide-react';
 import Ably from 'ably';
 import { useRouter } from 'next/navigation';
+import { DEFAULT_ROOM, isSectionOpenAt, roomOf } from '@/lib/floor-sections';
+import {
+  currentStatus,
+  DEFAULT_TABLE_STATUS_TIMERS,
+  isStatusOverdue,
+  isTableStatus,
+  nextStatuses,
+  TABLE_STATUS_LABELS,
+  TABLE_STATUSES,
+  TableStatus,
+  TableStatusTimers,
+} from '@/lib/table-lifecycle';
 
 interface RestaurantTable {
   id: string;
@@ -26,8 +38,34 @@ interface RestaurantTable {
   yPos: number | null;
   tableType: string | null;
   status: string | null;
+  statusChangedAt?: Date | null;
+  combinableWith?: string[] | null;
+  sectionId?: string | null;
+  rotation?: number | null;
+  width?: number | null;
+  height?: number | null;
+}
+
+interface FloorPlanSection {
+  id: string;
+  name: string;
+  room: string | null;
+  isEnabled: boolean;
+  disabledUntil: Date | null;
 }
 
+type TableDetails = {
+  tableNumber: string,
+  minCapacity: number,
+  maxCapacity: number,
+  combinableWith?: string[],
+  tableType?: 'square' | 'round' | 'booth',
+  sectionId?: string | null,
+  rotation?: number,
+  width?: number,
+  height?: number,
+};
+
 interface Reservation {
   id: string;
   tableId: string | null;
@@ -37,35 +75,44 @@ interface Reservation {
   endTime: Date;
 }
 
+const STATUS_STYLES: Record<TableStatus, { icon: LucideIcon; table: string; zone: string; badge: string }> = {
+  vacant: { icon: CheckCircle, table: 'border-gray-200 bg-white', zone: 'border-green-500 bg-green-50 text-green-700', badge: 'bg-green-100 text-green-700' },
+  seated: { icon: AlertCircle, table: 'border-red-500 bg-red-50', zone: 'border-red-500 bg-red-50 text-red-700', badge: 'bg-red-100 text-red-700' },
+  ordered: { icon: Utensils, table: 'border-orange-500 bg-orange-50', zone: 'border-orange-500 bg-orange-50 text-orange-700', badge: 'bg-orange-100 text-orange-700' },
+  paying: { icon: CreditCard, table: 'border-indigo-500 bg-indigo-50', zone: 'border-indigo-500 bg-indigo-50 text-indigo-700', badge: 'bg-indigo-100 text-indigo-700' },
+  dirty: { icon: Trash2, table: 'border-yellow-500 bg-yellow-50', zone: 'border-yellow-500 bg-yellow-50 text-yellow-700', badge: 'bg-yellow-100 text-yellow-700' },
+  out_of_service: { icon: Wrench, table: 'border-gray-400 bg-gray-100', zone: 'border-gray-500 bg-gray-100 text-gray-700', badge: 'bg-gray-200 text-gray-700' },
+};
+
 interface DraggableTableProps {
   table: RestaurantTable;
   reservation?: Reservation;
+  isOverdue?: boolean;
   isSelected?: boolean;
   onSelect?: (id: string) => void;
   onDelete?: (id: string) => void;
   onEdit?: (table: RestaurantTable) => void;
 }
 
-function DraggableTable({ table, reservation, isSelected, onSelect, onDelete, onEdit }: DraggableTableProps) {
+function DraggableTable({ table, reservation, isOverdue, isSelected, onSelect, onDelete, onEdit }: DraggableTableProps) {
   const { attributes, listeners, setNodeRef, transform } = useDraggable({
     id: table.id,
     data: table,
   });
 
   const style = {
-    transform: CSS.Translate.toString(transform),
+    transform: `${CSS.Translate.toString(transform) ?? ''} rotate(${table.rotation || 0}deg)`,
     left: `${table.xPos}px`,
     top: `${table.yPos}px`,
+    width: `${table.width || 96}px`,
+    height: `${table.height || 96}px`,
     position: 'absolute' as const,
   };
 
   const getStatusColor = () => {
-    if (reservation) return 'border-purple-500 bg-purple-50';
-    switch (table.status) {
-      case 'occupied': return 'border-red-500 bg-red-50';
-      case 'dirty': return 'border-yellow-500 bg-yellow-50';
-      default: return 'border-gray-200 bg-white';
-    }
+    const status = currentStatus(table.status);
+    if (reservation && status === 'vacant') return 'border-purple-500 bg-purple-50';
+    return STATUS_STYLES[status].table;
   };
 
   return (
@@ -73,10 +120,15 @@ function DraggableTable({ table, reservation, isSelected, onSelect, onDelete, on
       ref={setNodeRef}
       style={style}
       onClick={(e) => { e.stopPropagation(); onSelect?.(table.id); }}
-      className={`group p-4 border-2 rounded-lg shadow-md flex flex-col items-center justify-center w-24 h-24 cursor-pointer transition-all ${getStatusColor()} ${
+      className={`group p-4 border-2 rounded-lg shadow-md flex flex-col items-center justify-center cursor-pointer transition-all ${getStatusColor()} ${
         table.tableType === 'round' ? 'rounded-full' : ''
       } ${isSelected ? 'ring-4 ring-blue-500 border-blue-500' : ''}`}
     >
+      {isOverdue && (
+        <span className="absolute -top-2 -left-2 p-1 bg-red-600 text-white rounded-full shadow" title={`${TABLE_STATUS_LABELS[currentStatus(table.status)]} longer than expected`}>
+          <Clock className="w-3 h-3" />
+        </span>
+      )}
       <div {...listeners} {...attributes} className="cursor-move flex flex-col items-center justify-center">
         <Table className="w-6 h-6 mb-1" />
         <span className="font-bold">#{table.tableNumber}</span>
@@ -143,21 +195,31 @@ function StatusZone({
 
 export default function FloorPlan({ 
   initialTables, 
+  sections = [],
   restaurantReservations = [], 
   onSave, 
   onStatusChange,
+  statusTimers = DEFAULT_TABLE_STATUS_TIMERS,
   onAdd,
   onDelete,
   onUpdateDetails,
+  onAddSection,
+  onToggleSection,
+  onDeleteSection,
   restaurantId 
 }: { 
   initialTables: RestaurantTable[], 
+  sections?: FloorPlanSection[],
   restaurantReservations?: Reservation[],
   onSave: (tables: any[]) => Promise<void>,
-  onStatusChange: (tableId: string, status: 'vacant' | 'occupied' | 'dirty') => Promise<void>,
-  onAdd: () => Promise<void>,
+  onStatusChange: (tableId: string, status: TableStatus) => Promise<void>,
+  statusTimers?: TableStatusTimers,
+  onAdd: (sectionId: string | null) => Promise<void>,
   onDelete: (id: string) => Promise<void>,
-  onUpdateDetails: (id: string, details: { tableNumber: string, minCapacity: number, maxCapacity: number }) => Promise<void>,
+  onUpdateDetails: (id: string, details: TableDetails) => Promise<void>,
+  onAddSection?: (input: { name: string, room: string | null }) => Promise<void>,
+  onToggleSection?: (sectionId: string, isEnabled: boolean, forShift: boolean) => Promise<void>,
+  onDeleteSection?: (sectionId: string) => Promise<void>,
   restaurantId?: string
 }) {
   const [tables, setTables] = useState(initialTables);
@@ -165,8 +227,32 @@ export default function FloorPlan({
   const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
   const [editingTable, setEditingTable] = useState<RestaurantTable | null>(null);
   const [listMode, setListMode] = useState(false);
+  const [newSection, setNewSection] = useState<{ name: string, room: string } | null>(null);
+  const [statusError, setStatusError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
   const router = useRouter();
 
+  // Status timers are checked against a clock that ticks once a minute
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const selectedTable = tables.find((t) => t.id === selectedTableId);
+  const allowedStatuses = selectedTable ? nextStatuses(currentStatus(selectedTable.status)) : [];
+
+  // Each room is its own canvas; tables outside any section sit in the default room
+  const sectionById = new Map(sections.map((s) => [s.id, s]));
+  const roomOfTable = (table: RestaurantTable) => roomOf(table.sectionId ? sectionById.get(table.sectionId) : null);
+  const rooms = Array.from(new Set([
+    ...sections.map((s) => roomOf(s)),
+    ...(sections.length === 0 || tables.some((t) => !t.sectionId || !sectionById.has(t.sectionId)) ? [DEFAULT_ROOM] : []),
+  ]));
+  const [activeRoom, setActiveRoom] = useState(rooms[0]);
+  const currentRoom = rooms.includes(activeRoom) ? activeRoom : rooms[0];
+  const roomSections = sections.filter((s) => roomOf(s) === currentRoom);
+  const roomTables = tables.filter((t) => roomOfTable(t) === currentRoom);
+
   useEffect(() => {
     setTables(initialTables);
   }, [initialTables]);
@@ -187,6 +273,21 @@ export default function FloorPlan({
       router.refresh();
     });
 
+    channel.subscribe('RESERVATION_MODIFIED', () => {
+      router.refresh();
+    });
+
+    channel.subscribe('SECTION_UPDATED', () => {
+      router.refresh();
+    });
+
+    channel.subscribe('table-status-update', (message) => {
+      const { tableId, status, updatedAt } = message.data;
+      setTables((prev) =>
+        prev.map((t) => (t.id === tableId ? { ...t, status, statusChangedAt: new Date(updatedAt) } : t))
+      );
+    });
+
     return () => {
       channel.unsubscribe();
       ably.close();
@@ -209,12 +310,8 @@ export default function FloorPlan({
   function handleDragEnd(event: DragEndEvent) {
     const { active, delta, over } = event;
     
-    if (over && ['vacant', 'occupied', 'dirty'].includes(over.id as string)) {
-      const newStatus = over.id as 'vacant' | 'occupied' | 'dirty';
-      setTables((prev) =>
-        prev.map((t) => (t.id === active.id ? { ...t, status: newStatus } : t))
-      );
-      onStatusChange(active.id as string, newStatus);
+    if (over && isTableStatus(over.id)) {
+      changeStatus(active.id as string, over.id);
     } else {
       setTables((prev) =>
         prev.map((t) => {
@@ -239,48 +336,78 @@ export default function FloorPlan({
       tableNumber: editingTable.tableNumber,
       minCapacity: editingTable.minCapacity,
       maxCapacity: editingTable.maxCapacity,
+      combinableWith: editingTable.combinableWith || [],
+      tableType: (editingTable.tableType || 'square') as 'square' | 'round' | 'booth',
+      sectionId: editingTable.sectionId ?? null,
+      rotation: editingTable.rotation || 0,
+      width: editingTable.width || 96,
+      height: editingTable.height || 96,
     });
+    const neighbours = editingTable.combinableWith || [];
+    setTables((prev) =>
+      prev.map((t) => {
+        if (t.id === editingTable.id) return editingTable;
+        const current = (t.combinableWith || []).filter((id) => id !== editingTable.id);
+        return { ...t, combinableWith: neighbours.includes(t.id) ? [...current, editingTable.id] : current };
+      })
+    );
     setEditingTable(null);
   };
 
-  const handleStatusClick = async (status: 'vacant' | 'occupied' | 'dirty') => {
+  // Moves the lifecycle does not allow are ignored; a refused change is rolled back
+  const changeStatus = async (tableId: string, status: TableStatus) => {
+    const table = tables.find((t) => t.id === tableId);
+    if (!table || !nextStatuses(currentStatus(table.status)).includes(status)) return;
+
+    setStatusError(null);
+    setTables((prev) =>
+      prev.map((t) => (t.id === tableId ? { ...t, status, statusChangedAt: new Date() } : t))
+    );
+    try {
+      await onStatusChange(tableId, status);
+    } catch (e) {
+      setTables((prev) => prev.map((t) => (t.id === tableId ? table : t)));
+      setStatusError(e instanceof Error ? e.message : 'Failed to update status');
+    }
+  };
+
+  const handleStatusClick = async (status: TableStatus) => {
+    if (!selectedTableId) return;
+    await changeStatus(selectedTableId, status);
+  };
+
+  const handleRotate = () => {
     if (!selectedTableId) return;
     setTables((prev) =>
-      prev.map((t) => (t.id === selectedTableId ? { ...t, status } : t))
+      prev.map((t) => (t.id === selectedTableId ? { ...t, rotation: ((t.rotation || 0) + 45) % 360 } : t))
     );
-    await onStatusChange(selectedTableId, status);
+  };
+
+  const handleAddSection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSection || !onAddSection) return;
+    await onAddSection({ name: newSection.name, room: newSection.room || null });
+    setActiveRoom(newSection.room || newSection.name);
+    setNewSection(null);
   };
 
   return (
     <div className="flex flex-col gap-4">
       <div className="flex justify-between items-center mb-4">
-        <div className="flex gap-4 flex-1">
-          <StatusZone 
-            id="vacant" 
-            label="Set Vacant" 
-            icon={CheckCircle} 
-            colorClass="border-green-500 bg-green-50 text-green-700" 
-            onClick={() => handleStatusClick('vacant')}
-            disabled={!selectedTableId}
-          />
-          <StatusZone 
-            id="occupied" 
-            label="Set Occupied" 
-            icon={AlertCircle} 
-            colorClass="border-red-500 bg-red-50 text-red-700" 
-            onClick={() => handleStatusClick('occupied')}
-            disabled={!selectedTableId}
-          />
-          <StatusZone 
-            id="dirty" 
-            label="Set Dirty" 
-            icon={Trash2} 
-            colorClass="border-yellow-500 bg-yellow-50 text-yellow-700" 
-            onClick={() => handleStatusClick('dirty')}
-            disabled={!selectedTableId}
-          />
+        <div className="flex flex-wrap gap-4 flex-1">
+          {TABLE_STATUSES.map((status) => (
+            <StatusZone
+              key={status}
+              id={status}
+              label={TABLE_STATUS_LABELS[status]}
+              icon={STATUS_STYLES[status].icon}
+              colorClass={STATUS_STYLES[status].zone}
+              onClick={() => handleStatusClick(status)}
+              disabled={!allowedStatuses.includes(status)}
+            />
+          ))}
           <button
-            onClick={() => onAdd()}
+            onClick={() => onAdd(roomSections[0]?.id ?? null)}
             className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition"
           >
             <Plus className="w-5 h-5" /> Add Table
@@ -297,6 +424,82 @@ export default function FloorPlan({
         </div>
       </div>
 
+      {statusError && (
+        <p className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{statusError}</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {rooms.map((room) => (
+          <button
+            key={room}
+            onClick={() => { setActiveRoom(room); setSelectedTableId(null); }}
+            className={`px-4 py-1.5 rounded-full text-sm font-semibold transition ${
+              room === currentRoom ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {room}
+          </button>
+        ))}
+        {onAddSection && (newSection ? (
+          <form onSubmit={handleAddSection} className="flex items-center gap-2">
+            <input
+              autoFocus
+              placeholder="Section (e.g. Patio)"
+              value={newSection.name}
+              onChange={(e) => setNewSection({ ...newSection, name: e.target.value })}
+              className="px-3 py-1.5 border rounded-lg text-sm"
+            />
+            <input
+              placeholder="Room (optional)"
+              value={newSection.room}
+              onChange={(e) => setNewSection({ ...newSection, room: e.target.value })}
+              className="px-3 py-1.5 border rounded-lg text-sm"
+            />
+            <button type="submit" disabled={!newSection.name.trim()} className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-semibold disabled:opacity-50">Add</button>
+            <button type="button" onClick={() => setNewSection(null)} className="text-gray-400 hover:text-gray-600"><X className="w-4 h-4" /></button>
+          </form>
+        ) : (
+          <button
+            onClick={() => setNewSection({ name: '', room: currentRoom === DEFAULT_ROOM ? '' : currentRoom })}
+            className="px-3 py-1.5 rounded-full text-sm font-semibold text-blue-600 hover:bg-blue-50 flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" /> Section
+          </button>
+        ))}
+      </div>
+
+      {roomSections.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {roomSections.map((section) => {
+            const isOpen = isSectionOpenAt(section, new Date());
+            return (
+              <div key={section.id} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm ${isOpen ? 'border-gray-200' : 'border-red-200 bg-red-50'}`}>
+                <span className="font-medium">{section.name}</span>
+                {!isOpen && (
+                  <span className="text-xs text-red-600">
+                    Closed{section.disabledUntil ? ` until ${new Date(section.disabledUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : ''}
+                  </span>
+                )}
+                {onToggleSection && (isOpen ? (
+                  <button onClick={() => onToggleSection(section.id, false, true)} className="text-xs text-gray-500 hover:text-red-600 flex items-center gap-1" title="Stop taking bookings here until the end of this shift">
+                    <Ban className="w-3 h-3" /> Close for shift
+                  </button>
+                ) : (
+                  <button onClick={() => onToggleSection(section.id, true, false)} className="text-xs text-green-700 hover:underline">
+                    Reopen
+                  </button>
+                ))}
+                {onDeleteSection && (
+                  <button onClick={() => onDeleteSection(section.id)} className="text-gray-300 hover:text-red-600" title="Delete section">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {listMode ? (
         <div className="bg-white border-2 border-gray-100 rounded-xl overflow-hidden shadow-sm">
           <table className="min-w-full divide-y divide-gray-200">
@@ -306,24 +509,25 @@ export default function FloorPlan({
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Capacity</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Section</th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {tables.map((table) => (
+              {roomTables.map((table) => (
                 <tr key={table.id} className={selectedTableId === table.id ? 'bg-blue-50' : ''} onClick={() => setSelectedTableId(table.id)}>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-gray-900">#{table.tableNumber}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{table.minCapacity}-{table.maxCapacity}</td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`px-2 py-1 text-xs font-semibold rounded-full capitalize ${
-                      table.status === 'occupied' ? 'bg-red-100 text-red-700' :
-                      table.status === 'dirty' ? 'bg-yellow-100 text-yellow-700' :
-                      'bg-green-100 text-green-700'
-                    }`}>
-                      {table.status || 'vacant'}
+                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[currentStatus(table.status)].badge}`}>
+                      {TABLE_STATUS_LABELS[currentStatus(table.status)]}
                     </span>
+                    {isStatusOverdue({ status: table.status, statusChangedAt: table.statusChangedAt ?? null }, statusTimers, now) && (
+                      <Clock className="inline w-4 h-4 ml-2 text-red-600" />
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 capitalize">{table.tableType || 'square'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{(table.sectionId && sectionById.get(table.sectionId)?.name) || '—'}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
                     <button onClick={() => setEditingTable(table)} className="text-blue-600 hover:text-blue-900"><Settings2 className="w-4 h-4" /></button>
                     <button onClick={() => onDelete(table.id)} className="text-red-600 hover:text-red-900"><Trash2 className="w-4 h-4" /></button>
@@ -348,13 +552,14 @@ export default function FloorPlan({
               backgroundSize: '20px 20px' 
             }} />
             
-            {tables.map((table) => {
+            {roomTables.map((table) => {
               const tableReservation = restaurantReservations.find(r => r.tableId === table.id);
               return (
                 <DraggableTable 
                   key={table.id} 
                   table={table} 
                   reservation={tableReservation}
+                  isOverdue={isStatusOverdue({ status: table.status, statusChangedAt: table.statusChangedAt ?? null }, statusTimers, now)}
                   isSelected={selectedTableId === table.id}
                   onSelect={(id) => setSelectedTableId(id)}
                   onDelete={onDelete}
@@ -365,9 +570,16 @@ export default function FloorPlan({
 
             <DragOverlay>
               {activeTable ? (
-                <div className={`p-4 border-2 border-blue-500 rounded-lg bg-white shadow-xl flex flex-col items-center justify-center w-24 h-24 opacity-80 ${
-                  activeTable.tableType === 'round' ? 'rounded-full' : ''
-                }`}>
+                <div
+                  style={{
+                    width: `${activeTable.width || 96}px`,
+                    height: `${activeTable.height || 96}px`,
+                    transform: `rotate(${activeTable.rotation || 0}deg)`,
+                  }}
+                  className={`p-4 border-2 border-blue-500 rounded-lg bg-white shadow-xl flex flex-col items-center justify-center opacity-80 ${
+                    activeTable.tableType === 'round' ? 'rounded-full' : ''
+                  }`}
+                >
                   <Table className="w-6 h-6 mb-1" />
                   <span className="font-bold">#{activeTable.tableNumber}</span>
                 </div>
@@ -375,6 +587,14 @@ export default function FloorPlan({
             </DragOverlay>
           </DndContext>
 
+          <button
+            onClick={(e) => { e.stopPropagation(); handleRotate(); }}
+            disabled={!selectedTableId}
+            className="absolute bottom-4 left-4 bg-white border border-gray-200 px-4 py-2 rounded-lg font-semibold hover:bg-gray-50 transition shadow flex items-center gap-2 disabled:opacity-40"
+          >
+            <RotateCw className="w-4 h-4" /> Rotate
+          </button>
+
           <button
             onClick={() => onSave(tables)}
             className="absolute bottom-4 right-4 bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 transition shadow-lg flex items-center gap-2"
@@ -424,6 +644,93 @@ export default function FloorPlan({
                   />
                 </div>
               </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Section</label>
+                  <select
+                    value={editingTable.sectionId || ''}
+                    onChange={(e) => setEditingTable({ ...editingTable, sectionId: e.target.value || null })}
+                    className="w-full px-4 py-2 border rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">None</option>
+                    {sections.map((s) => (
+                      <option key={s.id} value={s.id}>{s.room ? `${s.room} / ${s.name}` : s.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Shape</label>
+                  <select
+                    value={editingTable.tableType || 'square'}
+                    onChange={(e) => setEditingTable({ ...editingTable, tableType: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="square">Square</option>
+                    <option value="round">Round</option>
+                    <option value="booth">Booth</option>
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Width</label>
+                  <input
+                    type="number"
+                    min={40}
+                    max={400}
+                    value={editingTable.width || 96}
+                    onChange={(e) => setEditingTable({ ...editingTable, width: parseInt(e.target.value) })}
+                    className="w-full px-4 py-2 border rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Height</label>
+                  <input
+                    type="number"
+                    min={40}
+                    max={400}
+                    value={editingTable.height || 96}
+                    onChange={(e) => setEditingTable({ ...editingTable, height: parseInt(e.target.value) })}
+                    className="w-full px-4 py-2 border rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Rotation</label>
+                  <input
+                    type="number"
+                    step={15}
+                    value={editingTable.rotation || 0}
+                    onChange={(e) => setEditingTable({ ...editingTable, rotation: parseInt(e.target.value) || 0 })}
+                    className="w-full px-4 py-2 border rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              {tables.length > 1 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Can Combine With</label>
+                  <div className="grid grid-cols-3 gap-2 max-h-32 overflow-y-auto">
+                    {tables.filter((t) => t.id !== editingTable.id).map((t) => {
+                      const neighbours = editingTable.combinableWith || [];
+                      const checked = neighbours.includes(t.id);
+                      return (
+                        <label key={t.id} className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={checked}
+                            onChange={() => setEditingTable({
+                              ...editingTable,
+                              combinableWith: checked
+                                ? neighbours.filter((id) => id !== t.id)
+                                : [...neighbours, t.id],
+                            })}
+                          />
+                          #{t.tableNumber}
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
               <button
                 type="submit"
                 className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold hover:bg-blue-700 transition"
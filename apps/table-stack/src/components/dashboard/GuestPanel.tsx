@@ -0,0 +1,216 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, Calendar, Copy, Save, ShoppingBag, Star, X } from 'lucide-react';
+import { GuestNotes, NOTE_LIST_FIELDS, NoteListField, noteListLabel, parseNoteList, SUGGESTED_TAGS, TimelineEntry } from '@/lib/guest-profile';
+
+type Profile = { [field in NoteListField]: string[] | null } & {
+  id: string;
+  email: string;
+  name: string;
+  visitCount: number | null;
+  noShowCount: number | null;
+  reliabilityScore: number | null;
+  preferences: string | null;
+  lastVisitAt: Date | null;
+};
+
+const FIELD_STYLES: Record<NoteListField, string> = {
+  allergies: 'bg-red-100 text-red-700',
+  dietaryRestrictions: 'bg-green-100 text-green-700',
+  seatingPreferences: 'bg-blue-100 text-blue-700',
+  tags: 'bg-purple-100 text-purple-700',
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  seated: 'text-green-600',
+  confirmed: 'text-blue-600',
+  delivered: 'text-green-600',
+  cancelled: 'text-gray-400',
+  noshow: 'text-red-600',
+};
+
+/**
+ * Guest details for the selected reservation: structured notes the host can
+ * edit, the visit timeline across reservations and delivery orders, and a
+ * merge prompt when duplicate profiles exist for the same email.
+ */
+export default function GuestPanel({
+  profile,
+  duplicates,
+  timeline,
+  closeHref,
+  onSave,
+  onMerge,
+}: {
+  profile: Profile;
+  duplicates: Profile[];
+  timeline: TimelineEntry[];
+  closeHref: string;
+  onSave: (notes: GuestNotes & { preferences: string | null }) => Promise<void>;
+  onMerge: (profileIds: string[]) => Promise<void>;
+}) {
+  const [drafts, setDrafts] = useState<Record<NoteListField, string>>(() =>
+    Object.fromEntries(NOTE_LIST_FIELDS.map(field => [field, (profile[field] || []).join(', ')])) as Record<NoteListField, string>
+  );
+  const [notes, setNotes] = useState(profile.preferences || '');
+  const [isEditing, setIsEditing] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+      setIsEditing(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const save = () => run(() => onSave({
+    allergies: parseNoteList(drafts.allergies),
+    dietaryRestrictions: parseNoteList(drafts.dietaryRestrictions),
+    seatingPreferences: parseNoteList(drafts.seatingPreferences),
+    tags: parseNoteList(drafts.tags),
+    preferences: notes.trim() || null,
+  }));
+
+  const addTag = (tag: string) => {
+    const tags = parseNoteList(drafts.tags);
+    if (!tags.some(t => t.toLowerCase() === tag.toLowerCase())) {
+      setDrafts({ ...drafts, tags: [...tags, tag].join(', ') });
+    }
+  };
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-xl p-5 bg-gray-50">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            {profile.name}
+            {(profile.tags || []).some(t => t.toLowerCase() === 'vip') && <Star className="w-4 h-4 text-amber-500 fill-amber-400" />}
+          </h3>
+          <p className="text-sm text-gray-500">
+            {profile.email} · {profile.visitCount || 0} visits · {profile.noShowCount || 0} no-shows · reliability {profile.reliabilityScore ?? 100}%
+            {profile.lastVisitAt && <> · last visit {new Date(profile.lastVisitAt).toLocaleDateString()}</>}
+          </p>
+        </div>
+        <Link href={closeHref} scroll={false} className="text-gray-400 hover:text-gray-600" title="Close">
+          <X className="w-5 h-5" />
+        </Link>
+      </div>
+
+      {duplicates.length > 0 && (
+        <div className="mb-4 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800 flex items-center justify-between gap-4">
+          <span className="flex items-center gap-2">
+            <Copy className="w-4 h-4 shrink-0" />
+            {duplicates.length === 1 ? 'Another profile uses' : `${duplicates.length} other profiles use`} this email
+            ({duplicates.map(d => d.email).join(', ')}).
+          </span>
+          <button
+            type="button"
+            disabled={isWorking}
+            onClick={() => run(() => onMerge([profile.id, ...duplicates.map(d => d.id)]))}
+            className="px-3 py-1 rounded bg-amber-600 text-white font-medium hover:bg-amber-700 disabled:opacity-50 shrink-0"
+          >
+            Merge Profiles
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          {isEditing ? (
+            <>
+              {NOTE_LIST_FIELDS.map(field => (
+                <label key={field} className="block text-sm">
+                  <span className="text-gray-600">{noteListLabel(field)}</span>
+                  <input
+                    value={drafts[field]}
+                    onChange={(e) => setDrafts({ ...drafts, [field]: e.target.value })}
+                    placeholder="Comma separated"
+                    className="mt-1 w-full px-2 py-1 border rounded"
+                  />
+                  {field === 'tags' && (
+                    <span className="mt-1 flex flex-wrap gap-1">
+                      {SUGGESTED_TAGS.map(tag => (
+                        <button key={tag} type="button" onClick={() => addTag(tag)} className="px-1.5 rounded text-xs bg-white border hover:bg-gray-100">
+                          + {tag}
+                        </button>
+                      ))}
+                    </span>
+                  )}
+                </label>
+              ))}
+              <label className="block text-sm">
+                <span className="text-gray-600">Host notes</span>
+                <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} className="mt-1 w-full px-2 py-1 border rounded" />
+              </label>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  disabled={isWorking}
+                  onClick={save}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" /> Save
+                </button>
+                <button type="button" onClick={() => setIsEditing(false)} className="px-3 py-1.5 rounded-lg border text-sm">
+                  Cancel
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              {NOTE_LIST_FIELDS.map(field => (
+                <div key={field} className="text-sm">
+                  <span className="text-gray-500 flex items-center gap-1">
+                    {field === 'allergies' && (profile.allergies || []).length > 0 && <AlertTriangle className="w-3 h-3 text-red-600" />}
+                    {noteListLabel(field)}
+                  </span>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {(profile[field] || []).map(label => (
+                      <span key={label} className={`px-2 py-0.5 rounded-full text-xs font-medium ${FIELD_STYLES[field]}`}>{label}</span>
+                    ))}
+                    {(profile[field] || []).length === 0 && <span className="text-xs text-gray-400">None recorded</span>}
+                  </div>
+                </div>
+              ))}
+              {profile.preferences && <p className="text-sm text-gray-700 whitespace-pre-line">{profile.preferences}</p>}
+              <button type="button" onClick={() => setIsEditing(true)} className="text-sm text-blue-600 hover:underline">
+                Edit guest notes
+              </button>
+            </>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Visit timeline</h4>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-200 text-sm">
+            {timeline.map(entry => (
+              <li key={`${entry.kind}-${entry.id}`} className="py-1.5 flex items-center gap-2">
+                {entry.kind === 'reservation'
+                  ? <Calendar className="w-4 h-4 text-gray-400 shrink-0" />
+                  : <ShoppingBag className="w-4 h-4 text-gray-400 shrink-0" />}
+                <span className="text-gray-500 w-36 shrink-0">{new Date(entry.at).toLocaleString()}</span>
+                <span className="text-gray-800 flex-1">
+                  {entry.kind === 'reservation'
+                    ? `Party of ${entry.partySize}${entry.tableNumber ? `, table ${entry.tableNumber}` : ''}`
+                    : `Delivery, ${entry.itemCount} items, $${entry.total.toFixed(2)}`}
+                </span>
+                <span className={`capitalize ${STATUS_STYLES[entry.status] || 'text-gray-600'}`}>{entry.status}</span>
+              </li>
+            ))}
+            {timeline.length === 0 && <li className="py-1.5 text-gray-400">No visits yet.</li>}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Ably from 'ably';
+import { useRouter } from 'next/navigation';
+import { Clock, DoorOpen, UserCheck, Users } from 'lucide-react';
+import {
+  currentStatus,
+  DEFAULT_TABLE_STATUS_TIMERS,
+  isOccupied,
+  isStatusOverdue,
+  TABLE_STATUS_LABELS,
+  TableStatus,
+  TableStatusTimers,
+} from '@/lib/table-lifecycle';
+import { ARRIVALS_WINDOW_MINUTES, upcomingArrivals, WalkInInput } from '@/lib/host-stand';
+
+interface HostTable {
+  id: string;
+  tableNumber: string;
+  minCapacity: number;
+  maxCapacity: number;
+  status: string | null;
+  statusChangedAt: Date | null;
+}
+
+interface HostReservation {
+  id: string;
+  guestName: string;
+  partySize: number;
+  startTime: Date;
+  endTime: Date;
+  status: string | null;
+  isVerified: boolean | null;
+  seatedAt: Date | null;
+  tableId: string | null;
+  combinedTableIds: string[] | null;
+  isWalkIn: boolean | null;
+}
+
+const TILE_STYLES: Record<TableStatus, string> = {
+  vacant: 'border-green-500 bg-green-50',
+  seated: 'border-red-500 bg-red-50',
+  ordered: 'border-orange-500 bg-orange-50',
+  paying: 'border-indigo-500 bg-indigo-50',
+  dirty: 'border-yellow-500 bg-yellow-50',
+  out_of_service: 'border-gray-400 bg-gray-100',
+};
+
+function tablesOf(reservation: HostReservation): string[] {
+  return reservation.combinedTableIds?.length ? reservation.combinedTableIds : reservation.tableId ? [reservation.tableId] : [];
+}
+
+export default function HostStand({
+  restaurantId,
+  initialTables,
+  reservations,
+  statusTimers = DEFAULT_TABLE_STATUS_TIMERS,
+  onSeatWalkIn,
+  onSeatTable,
+  onSeatReservation,
+}: {
+  restaurantId: string,
+  initialTables: HostTable[],
+  reservations: HostReservation[],
+  statusTimers?: TableStatusTimers,
+  onSeatWalkIn: (input: WalkInInput) => Promise<void>,
+  onSeatTable: (tableId: string) => Promise<void>,
+  onSeatReservation: (reservationId: string) => Promise<void>,
+}) {
+  const [tables, setTables] = useState(initialTables);
+  const [selectedTableIds, setSelectedTableIds] = useState<string[]>([]);
+  const [walkIn, setWalkIn] = useState({ partySize: 2, guestName: '', guestEmail: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+  const router = useRouter();
+
+  // Arrivals and status timers are checked against a clock that ticks once a minute
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    setTables(initialTables);
+  }, [initialTables]);
+
+  useEffect(() => {
+    const ably = new Ably.Realtime({ authUrl: '/api/ably/auth' });
+    const channel = ably.channels.get(`restaurant:${restaurantId}`);
+
+    channel.subscribe('table-status-update', (message) => {
+      const { tableId, status, updatedAt } = message.data;
+      setTables((prev) =>
+        prev.map((t) => (t.id === tableId ? { ...t, status, statusChangedAt: new Date(updatedAt) } : t))
+      );
+      setSelectedTableIds((prev) => (status === 'vacant' ? prev : prev.filter((id) => id !== tableId)));
+    });
+
+    // Bookings made, changed, cancelled or seated elsewhere change the arrivals list
+    for (const event of ['reservation.created', 'reservation.seated', 'NEW_RESERVATION', 'RESERVATION_CANCELLED', 'RESERVATION_MODIFIED']) {
+      channel.subscribe(event, () => router.refresh());
+    }
+
+    return () => {
+      channel.unsubscribe();
+      ably.close();
+    };
+  }, [restaurantId, router]);
+
+  const tableById = new Map(tables.map((t) => [t.id, t]));
+  const tableNumbers = (ids: string[]) => ids.map((id) => tableById.get(id)?.tableNumber ?? '?').join(' + ');
+  const arrivals = upcomingArrivals(reservations, now);
+
+  // The party currently at each table, for the floor tiles
+  const partyAt = new Map<string, HostReservation>();
+  for (const reservation of reservations) {
+    if (!reservation.seatedAt || reservation.status !== 'confirmed' || reservation.endTime < now) continue;
+    for (const id of tablesOf(reservation)) partyAt.set(id, reservation);
+  }
+
+  const selectedSeats = selectedTableIds.reduce((sum, id) => sum + (tableById.get(id)?.maxCapacity ?? 0), 0);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleTable = (table: HostTable) => {
+    if (currentStatus(table.status) !== 'vacant') return;
+    setSelectedTableIds((prev) => (prev.includes(table.id) ? prev.filter((id) => id !== table.id) : [...prev, table.id]));
+  };
+
+  const seatWalkIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await onSeatWalkIn({
+        partySize: walkIn.partySize,
+        tableIds: selectedTableIds,
+        guestName: walkIn.guestName || null,
+        guestEmail: walkIn.guestEmail || null,
+      });
+      setSelectedTableIds([]);
+      setWalkIn({ partySize: 2, guestName: '', guestEmail: '' });
+    });
+  };
+
+  // Marked seated directly as well, since seating a table only seats a
+  // reservation due within half an hour
+  const seatArrival = (reservation: HostReservation) => {
+    run(async () => {
+      for (const id of tablesOf(reservation)) await onSeatTable(id);
+      await onSeatReservation(reservation.id);
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <section className="lg:col-span-2 bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <h2 className="text-xl font-semibold mb-1">Floor</h2>
+        <p className="text-sm text-gray-500 mb-6">Pick vacant tables to seat a walk-in. Pick several to combine them.</p>
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+          {tables.map((table) => {
+            const status = currentStatus(table.status);
+            const party = isOccupied(table.status) ? partyAt.get(table.id) : undefined;
+            const isSelected = selectedTableIds.includes(table.id);
+            return (
+              <button
+                key={table.id}
+                type="button"
+                onClick={() => toggleTable(table)}
+                disabled={status !== 'vacant'}
+                className={`relative p-4 border-2 rounded-xl text-left transition-all ${TILE_STYLES[status]} ${
+                  isSelected ? 'ring-4 ring-blue-500 border-blue-500' : ''
+                } ${status === 'vacant' ? 'hover:shadow-md cursor-pointer' : 'cursor-default'}`}
+              >
+                {isStatusOverdue(table, statusTimers, now) && (
+                  <Clock className="absolute top-2 right-2 w-4 h-4 text-red-600" aria-label="Past its timer" />
+                )}
+                <div className="font-bold text-gray-900">Table {table.tableNumber}</div>
+                <div className="text-xs text-gray-500">{table.minCapacity}-{table.maxCapacity} seats</div>
+                <div className="text-xs font-semibold mt-2 text-gray-700">{TABLE_STATUS_LABELS[status]}</div>
+                {party && (
+                  <div className="text-xs text-gray-600 mt-1 truncate">
+                    {party.guestName} · {party.partySize}{party.isWalkIn ? ' · walk-in' : ''}
+                  </div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </section>
+
+      <div className="space-y-8">
+        <section className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h2 className="text-xl font-semibold mb-4 flex items-center gap-2"><DoorOpen className="w-5 h-5" /> Walk-in</h2>
+          <form onSubmit={seatWalkIn} className="space-y-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Party size
+              <input
+                type="number"
+                min={1}
+                value={walkIn.partySize}
+                onChange={(e) => setWalkIn({ ...walkIn, partySize: parseInt(e.target.value) || 1 })}
+                className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Name
+              <input
+                type="text"
+                value={walkIn.guestName}
+                onChange={(e) => setWalkIn({ ...walkIn, guestName: e.target.value })}
+                className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                placeholder="Optional"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Email
+              <input
+                type="email"
+                value={walkIn.guestEmail}
+                onChange={(e) => setWalkIn({ ...walkIn, guestEmail: e.target.value })}
+                className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                placeholder="Optional, links the guest profile"
+              />
+            </label>
+            <p className="text-sm text-gray-600">
+              {selectedTableIds.length === 0
+                ? 'No table picked'
+                : `Table ${tableNumbers(selectedTableIds)} · ${selectedSeats} seats`}
+            </p>
+            <button
+              type="submit"
+              disabled={busy || selectedTableIds.length === 0}
+              className="w-full bg-blue-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Seat walk-in
+            </button>
+          </form>
+          {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+        </section>
+
+        <section className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h2 className="text-xl font-semibold mb-4 flex items-center gap-2"><Users className="w-5 h-5" /> Arrivals</h2>
+          {arrivals.length === 0 ? (
+            <p className="text-sm text-gray-500">No one is due in the next {ARRIVALS_WINDOW_MINUTES / 60} hours.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {arrivals.map((arrival) => {
+                const ids = tablesOf(arrival);
+                const ready = ids.every((id) => currentStatus(tableById.get(id)?.status ?? null) === 'vacant');
+                return (
+                  <li key={arrival.id} className="py-3 flex items-center justify-between gap-4">
+                    <div>
+                      <div className="font-medium text-gray-900">{arrival.guestName} · {arrival.partySize}</div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(arrival.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        {ids.length > 0 && ` · Table ${tableNumbers(ids)}`}
+                        {' · '}
+                        <span className={arrival.isLate ? 'text-red-600 font-semibold' : ''}>
+                          {arrival.isLate ? `${-arrival.minutesUntil} min late` : arrival.minutesUntil === 0 ? 'due now' : `in ${arrival.minutesUntil} min`}
+                        </span>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => seatArrival(arrival)}
+                      disabled={busy || !ready}
+                      title={ready ? 'Seat party' : 'Their table is not vacant yet'}
+                      className="flex items-center gap-1 text-sm font-medium text-green-700 hover:text-green-900 disabled:text-gray-400"
+                    >
+                      <UserCheck className="w-4 h-4" /> Seat
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
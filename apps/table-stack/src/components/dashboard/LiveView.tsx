@@ -25,6 +25,17 @@ export default function LiveView({ restaurantId }: { restaurantId: string }) {
       }, 5000);
     });
 
+    channel.subscribe('low_stock', (message) => {
+      setNotification({
+        id: message.data.productId,
+        message: `Low Stock: ${message.data.name} is down to ${message.data.availableQuantity}`,
+      });
+
+      setTimeout(() => {
+        setNotification(null);
+      }, 5000);
+    });
+
     return () => {
       channel.unsubscribe();
       ably.close();
@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Download, Upload, AlertTriangle, CheckCircle } from 'lucide-react';
+
+interface ImportIssue {
+  line: number;
+  kind: 'invalid' | 'conflict' | 'duplicate';
+  message: string;
+}
+
+interface ImportSummary {
+  total: number;
+  imported: number;
+  guestsUpserted: number;
+  issues: ImportIssue[];
+  dryRun: boolean;
+}
+
+const ISSUE_STYLES: Record<ImportIssue['kind'], string> = {
+  invalid: 'bg-red-100 text-red-700',
+  conflict: 'bg-amber-100 text-amber-700',
+  duplicate: 'bg-gray-100 text-gray-600',
+};
+
+/**
+ * Bulk import of bookings from CSV or iCalendar, with a dry-run preview,
+ * and export of a date range in either format.
+ */
+export default function ReservationTransfer({
+  restaurantId,
+  onImport,
+}: {
+  restaurantId: string;
+  onImport: (formData: FormData, dryRun: boolean) => Promise<ImportSummary>;
+}) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const today = new Date().toISOString().slice(0, 10);
+  const [from, setFrom] = useState(today);
+  const [to, setTo] = useState(today);
+  const [status, setStatus] = useState('');
+  const [format, setFormat] = useState<'csv' | 'ics'>('csv');
+
+  const runImport = async (dryRun: boolean) => {
+    const file = fileInput.current?.files?.[0];
+    if (!file) {
+      setError('Choose a CSV or iCalendar file first');
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    setIsWorking(true);
+    setError(null);
+    try {
+      setSummary(await onImport(formData, dryRun));
+      if (!dryRun && fileInput.current) fileInput.current.value = '';
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const exportUrl = `/dashboard/${restaurantId}/export?${new URLSearchParams({
+    from,
+    to,
+    format,
+    ...(status ? { status } : {}),
+  }).toString()}`;
+
+  return (
+    <section className="mt-8 bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <h2 className="text-xl font-semibold mb-6">Import &amp; Export</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+            <Upload className="w-4 h-4" /> Import bookings
+          </h3>
+          <p className="text-xs text-gray-500">
+            CSV with guest name, email, party size and start time (or date and time) columns, plus optional
+            table and status; or an iCalendar (.ics) export from another system.
+          </p>
+          <input ref={fileInput} type="file" accept=".csv,.ics,text/csv,text/calendar" className="block text-sm" />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={isWorking}
+              onClick={() => runImport(true)}
+              className="px-4 py-2 rounded-lg border border-gray-300 text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+            >
+              Check File
+            </button>
+            <button
+              type="button"
+              disabled={isWorking}
+              onClick={() => runImport(false)}
+              className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              Import
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {summary && (
+            <div className="text-sm space-y-2">
+              <p className="flex items-center gap-2 text-gray-800">
+                {summary.issues.length === 0
+                  ? <CheckCircle className="w-4 h-4 text-green-600" />
+                  : <AlertTriangle className="w-4 h-4 text-amber-600" />}
+                {summary.dryRun
+                  ? `${summary.imported} of ${summary.total} rows ready to import for ${summary.guestsUpserted} guests.`
+                  : `Imported ${summary.imported} of ${summary.total} rows; ${summary.guestsUpserted} guest profiles updated.`}
+              </p>
+              {summary.issues.length > 0 && (
+                <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 border rounded-lg">
+                  {summary.issues.map((issue, i) => (
+                    <li key={i} className="px-3 py-1.5 flex items-start gap-2">
+                      <span className="text-gray-400 w-12 shrink-0">#{issue.line}</span>
+                      <span className={`px-1.5 rounded text-xs capitalize shrink-0 ${ISSUE_STYLES[issue.kind]}`}>{issue.kind}</span>
+                      <span className="text-gray-700">{issue.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+            <Download className="w-4 h-4" /> Export bookings
+          </h3>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="px-2 py-1 border rounded" />
+            <span className="text-gray-400">to</span>
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="px-2 py-1 border rounded" />
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select value={status} onChange={(e) => setStatus(e.target.value)} className="px-2 py-1 border rounded">
+              <option value="">All statuses</option>
+              <option value="confirmed">Confirmed</option>
+              <option value="cancelled">Cancelled</option>
+              <option value="noshow">No-show</option>
+            </select>
+            <select value={format} onChange={(e) => setFormat(e.target.value as 'csv' | 'ics')} className="px-2 py-1 border rounded">
+              <option value="csv">CSV</option>
+              <option value="ics">iCalendar (.ics)</option>
+            </select>
+          </div>
+          <a
+            href={exportUrl}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-900 text-white text-sm font-medium hover:bg-gray-800 ${
+              from > to ? 'pointer-events-none opacity-50' : ''
+            }`}
+          >
+            <Download className="w-4 h-4" /> Download
+          </a>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ServicePeriod {
+  name?: string;
+  startTime: string;
+  endTime: string;
+}
+
+interface ScheduleException {
+  date: string;
+  isClosed: boolean;
+  periods?: ServicePeriod[] | null;
+  reason?: string | null;
+}
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+/**
+ * Edits the weekly service periods and dated exceptions. The values are
+ * submitted with the surrounding settings form as JSON hidden inputs.
+ */
+export default function ServiceScheduleEditor({
+  initialSchedule,
+  initialExceptions,
+}: {
+  initialSchedule: Record<string, ServicePeriod[]>;
+  initialExceptions: ScheduleException[];
+}) {
+  const [schedule, setSchedule] = useState<Record<string, ServicePeriod[]>>(initialSchedule);
+  const [exceptions, setExceptions] = useState<ScheduleException[]>(initialExceptions);
+
+  const updatePeriod = (day: string, index: number, changes: Partial<ServicePeriod>) => {
+    setSchedule({
+      ...schedule,
+      [day]: (schedule[day] || []).map((p, i) => (i === index ? { ...p, ...changes } : p)),
+    });
+  };
+
+  const addPeriod = (day: string) => {
+    setSchedule({
+      ...schedule,
+      [day]: [...(schedule[day] || []), { name: '', startTime: '17:00', endTime: '22:00' }],
+    });
+  };
+
+  const removePeriod = (day: string, index: number) => {
+    setSchedule({ ...schedule, [day]: (schedule[day] || []).filter((_, i) => i !== index) });
+  };
+
+  const updateException = (index: number, changes: Partial<ScheduleException>) => {
+    setExceptions(exceptions.map((e, i) => (i === index ? { ...e, ...changes } : e)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <input type="hidden" name="serviceSchedule" value={JSON.stringify(schedule)} />
+      <input type="hidden" name="scheduleExceptions" value={JSON.stringify(exceptions)} />
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Weekly Service Periods</h3>
+        <div className="space-y-2">
+          {WEEKDAYS.map(day => (
+            <div key={day} className="flex flex-wrap items-center gap-2 py-2 border-b border-gray-100">
+              <span className="w-28 text-sm font-medium capitalize text-gray-900">{day}</span>
+              {(schedule[day] || []).length === 0 && (
+                <span className="text-sm text-gray-400">Closed</span>
+              )}
+              {(schedule[day] || []).map((period, index) => (
+                <div key={index} className="flex items-center gap-1 bg-gray-50 rounded-lg px-2 py-1">
+                  <input
+                    type="text"
+                    value={period.name || ''}
+                    onChange={(e) => updatePeriod(day, index, { name: e.target.value })}
+                    className="w-20 px-2 py-1 text-sm border rounded"
+                    placeholder="Dinner"
+                  />
+                  <input
+                    type="time"
+                    value={period.startTime}
+                    onChange={(e) => updatePeriod(day, index, { startTime: e.target.value })}
+                    className="px-2 py-1 text-sm border rounded"
+                  />
+                  <span className="text-gray-400">-</span>
+                  <input
+                    type="time"
+                    value={period.endTime}
+                    onChange={(e) => updatePeriod(day, index, { endTime: e.target.value })}
+                    className="px-2 py-1 text-sm border rounded"
+                  />
+                  <button type="button" onClick={() => removePeriod(day, index)} className="p-1 text-red-500 hover:text-red-700">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button type="button" onClick={() => addPeriod(day)} className="p-1 text-blue-600 hover:text-blue-800" title="Add service period">
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Closures &amp; Special Hours</h3>
+        <div className="space-y-2">
+          {exceptions.map((exception, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <input
+                type="date"
+                value={exception.date}
+                onChange={(e) => updateException(index, { date: e.target.value })}
+                className="px-2 py-1 text-sm border rounded"
+              />
+              <select
+                value={exception.isClosed ? 'closed' : 'special'}
+                onChange={(e) => updateException(index, {
+                  isClosed: e.target.value === 'closed',
+                  periods: e.target.value === 'closed' ? null : [{ startTime: '17:00', endTime: '22:00' }],
+                })}
+                className="px-2 py-1 text-sm border rounded"
+              >
+                <option value="closed">Closed</option>
+                <option value="special">Special hours</option>
+              </select>
+              {!exception.isClosed && (exception.periods || []).map((period, periodIndex) => (
+                <span key={periodIndex} className="flex items-center gap-1">
+                  <input
+                    type="time"
+                    value={period.startTime}
+                    onChange={(e) => updateException(index, {
+                      periods: (exception.periods || []).map((p, i) => (i === periodIndex ? { ...p, startTime: e.target.value } : p)),
+                    })}
+                    className="px-2 py-1 text-sm border rounded"
+                  />
+                  <span className="text-gray-400">-</span>
+                  <input
+                    type="time"
+                    value={period.endTime}
+                    onChange={(e) => updateException(index, {
+                      periods: (exception.periods || []).map((p, i) => (i === periodIndex ? { ...p, endTime: e.target.value } : p)),
+                    })}
+                    className="px-2 py-1 text-sm border rounded"
+                  />
+                </span>
+              ))}
+              <input
+                type="text"
+                value={exception.reason || ''}
+                onChange={(e) => updateException(index, { reason: e.target.value })}
+                className="flex-1 min-w-[8rem] px-2 py-1 text-sm border rounded"
+                placeholder="Reason (e.g. Christmas Day)"
+              />
+              <button type="button" onClick={() => setExceptions(exceptions.filter((_, i) => i !== index))} className="p-1 text-red-500 hover:text-red-700">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setExceptions([...exceptions, { date: '', isClosed: true, periods: null, reason: '' }])}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="w-4 h-4" /> Add closure or special hours
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
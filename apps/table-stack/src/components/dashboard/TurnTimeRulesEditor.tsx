@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface TurnTimeRule {
+  minPartySize: number;
+  maxPartySize: number;
+  durationMinutes: number;
+  servicePeriods?: string[];
+  days?: string[];
+}
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+/**
+ * Edits turn time rules. Submitted with the settings form as a JSON hidden
+ * input; bookings matching no rule use the default duration.
+ */
+export default function TurnTimeRulesEditor({ initialRules }: { initialRules: TurnTimeRule[] }) {
+  const [rules, setRules] = useState<TurnTimeRule[]>(initialRules);
+
+  const updateRule = (index: number, changes: Partial<TurnTimeRule>) => {
+    setRules(rules.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+  };
+
+  const toggleDay = (index: number, day: string) => {
+    const days = rules[index].days || [];
+    updateRule(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day] });
+  };
+
+  return (
+    <div className="space-y-2">
+      <input type="hidden" name="turnTimeRules" value={JSON.stringify(rules)} />
+      <h3 className="text-sm font-medium text-gray-700">Turn Times</h3>
+      {rules.map((rule, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2 py-2 border-b border-gray-100 text-sm">
+          <span className="text-gray-500">Party</span>
+          <input
+            type="number"
+            min={1}
+            value={rule.minPartySize}
+            onChange={(e) => updateRule(index, { minPartySize: parseInt(e.target.value) })}
+            className="w-16 px-2 py-1 border rounded"
+          />
+          <span className="text-gray-400">-</span>
+          <input
+            type="number"
+            min={1}
+            value={rule.maxPartySize}
+            onChange={(e) => updateRule(index, { maxPartySize: parseInt(e.target.value) })}
+            className="w-16 px-2 py-1 border rounded"
+          />
+          <span className="text-gray-500">for</span>
+          <input
+            type="number"
+            min={15}
+            step={15}
+            value={rule.durationMinutes}
+            onChange={(e) => updateRule(index, { durationMinutes: parseInt(e.target.value) })}
+            className="w-20 px-2 py-1 border rounded"
+          />
+          <span className="text-gray-500">min during</span>
+          <input
+            type="text"
+            value={(rule.servicePeriods || []).join(', ')}
+            onChange={(e) => updateRule(index, {
+              servicePeriods: e.target.value.split(',').map(p => p.trim()).filter(Boolean),
+            })}
+            className="w-32 px-2 py-1 border rounded"
+            placeholder="Any service"
+          />
+          <div className="flex gap-1">
+            {WEEKDAYS.map(day => (
+              <button
+                type="button"
+                key={day}
+                onClick={() => toggleDay(index, day)}
+                className={`px-1.5 py-0.5 rounded text-xs capitalize ${
+                  (rule.days || []).includes(day) ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600'
+                }`}
+              >
+                {day.slice(0, 2)}
+              </button>
+            ))}
+          </div>
+          <button type="button" onClick={() => setRules(rules.filter((_, i) => i !== index))} className="p-1 text-red-500 hover:text-red-700">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => setRules([...rules, { minPartySize: 1, maxPartySize: 2, durationMinutes: 75, servicePeriods: [], days: [] }])}
+        className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+      >
+        <Plus className="w-4 h-4" /> Add turn time rule
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import React from 'react';
+import { HeatmapTable } from '@/lib/analytics';
+
+function heat(share: number): string {
+  // Light blue when idle through deep blue when always occupied
+  return `rgba(37, 99, 235, ${(0.08 + 0.92 * share).toFixed(2)})`;
+}
+
+/**
+ * Table utilisation drawn over the floor plan, one canvas per room, using
+ * the same positions and sizes as the editable floor plan.
+ */
+export default function UtilisationHeatmap({
+  tables,
+  utilisation,
+}: {
+  tables: HeatmapTable[];
+  utilisation: Record<string, number>;
+}) {
+  const rooms = Array.from(new Set(tables.map(t => t.room)));
+
+  if (tables.length === 0) {
+    return <p className="text-sm text-gray-500">No active tables.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {rooms.map(room => {
+        const roomTables = tables.filter(t => t.room === room);
+        const width = Math.max(...roomTables.map(t => t.xPos + t.width)) + 24;
+        const height = Math.max(...roomTables.map(t => t.yPos + t.height)) + 24;
+
+        return (
+          <div key={room}>
+            {rooms.length > 1 && <h4 className="text-sm font-medium text-gray-700 mb-2">{room}</h4>}
+            <div className="overflow-x-auto border border-gray-200 rounded-xl bg-gray-50">
+              <div className="relative" style={{ width, height }}>
+                {roomTables.map(table => {
+                  const share = utilisation[table.id] ?? 0;
+                  return (
+                    <div
+                      key={table.id}
+                      title={`Table ${table.tableNumber}: ${Math.round(share * 100)}% occupied`}
+                      className={`absolute flex flex-col items-center justify-center text-xs font-medium border border-blue-300 ${
+                        table.tableType === 'round' ? 'rounded-full' : 'rounded-lg'
+                      } ${share > 0.5 ? 'text-white' : 'text-blue-900'}`}
+                      style={{
+                        left: table.xPos,
+                        top: table.yPos,
+                        width: table.width,
+                        height: table.height,
+                        transform: `rotate(${table.rotation}deg)`,
+                        backgroundColor: heat(share),
+                      }}
+                    >
+                      <span>{table.tableNumber}</span>
+                      <span>{Math.round(share * 100)}%</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
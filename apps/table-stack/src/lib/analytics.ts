@@ -0,0 +1,118 @@
+import { db, orders, restaurantReservations, restaurantTables, tableStatusHistory, and, eq, gte, lt } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import { getFloorSections, getServiceSchedule } from './availability';
+import { roomOf } from './floor-sections';
+import { ScheduleSource } from './service-schedule';
+import { StatusChange } from './table-lifecycle';
+import {
+  buildOperationsReport,
+  OperationsReport,
+  previousRange,
+  rangeBounds,
+  ReportOrder,
+  ReportRange,
+  ReportReservation,
+} from './operations-report';
+
+export interface HeatmapTable {
+  id: string;
+  tableNumber: string;
+  room: string;
+  xPos: number;
+  yPos: number;
+  width: number;
+  height: number;
+  rotation: number;
+  tableType: string;
+}
+
+export interface AnalyticsReport {
+  current: OperationsReport;
+  /** The preceding range of the same length */
+  previous: OperationsReport;
+  tables: HeatmapTable[];
+}
+
+type AnalyticsRestaurant = ScheduleSource & { id: string; timezone: string | null };
+
+async function loadRange(restaurantId: string, range: ReportRange, timezone: string) {
+  const { start, end } = rangeBounds(range, timezone);
+
+  const [reservations, deliveryOrders, statusChanges]: [ReportReservation[], ReportOrder[], StatusChange[]] = await Promise.all([
+    db
+      .select({
+        startTime: restaurantReservations.startTime,
+        endTime: restaurantReservations.endTime,
+        partySize: restaurantReservations.partySize,
+        status: restaurantReservations.status,
+        seatedAt: restaurantReservations.seatedAt,
+        tableId: restaurantReservations.tableId,
+        combinedTableIds: restaurantReservations.combinedTableIds,
+      })
+      .from(restaurantReservations)
+      .where(and(
+        eq(restaurantReservations.restaurantId, restaurantId),
+        eq(restaurantReservations.isVerified, true),
+        gte(restaurantReservations.startTime, start),
+        lt(restaurantReservations.startTime, end)
+      ))
+      .then((rows: ReportReservation[]) => rows.map(r => ({ ...r, status: r.status || 'confirmed' }))),
+    db
+      .select({ createdAt: orders.createdAt, status: orders.status, total: orders.total })
+      .from(orders)
+      .where(and(eq(orders.storeId, restaurantId), gte(orders.createdAt, start), lt(orders.createdAt, end))),
+    db
+      .select({
+        tableId: tableStatusHistory.tableId,
+        fromStatus: tableStatusHistory.fromStatus,
+        toStatus: tableStatusHistory.toStatus,
+        changedAt: tableStatusHistory.changedAt,
+      })
+      .from(tableStatusHistory)
+      .where(and(
+        eq(tableStatusHistory.restaurantId, restaurantId),
+        gte(tableStatusHistory.changedAt, start),
+        lt(tableStatusHistory.changedAt, end)
+      )),
+  ]);
+
+  return { reservations, orders: deliveryOrders, statusChanges };
+}
+
+/**
+ * Operations report for a range and the range before it, plus the floor plan
+ * for the utilisation heatmap. Covers active tables only.
+ */
+export async function getAnalyticsReport(restaurant: AnalyticsRestaurant, range: ReportRange): Promise<AnalyticsReport> {
+  const timezone = restaurant.timezone || 'UTC';
+  const previous = previousRange(range);
+
+  const [schedule, tables, sections, currentData, previousData] = await Promise.all([
+    getServiceSchedule(restaurant),
+    db.query.restaurantTables.findMany({
+      where: and(eq(restaurantTables.restaurantId, restaurant.id), eq(restaurantTables.isActive, true)),
+    }) as Promise<InferSelectModel<typeof restaurantTables>[]>,
+    getFloorSections(restaurant.id),
+    loadRange(restaurant.id, range, timezone),
+    loadRange(restaurant.id, previous, timezone),
+  ]);
+
+  const tableIds = tables.map(t => t.id);
+  const sectionById = new Map(sections.map(s => [s.id, s]));
+
+  return {
+    current: buildOperationsReport({ range, timezone, schedule, tableIds, ...currentData }),
+    previous: buildOperationsReport({ range: previous, timezone, schedule, tableIds, ...previousData }),
+    tables: tables.map(t => ({
+      id: t.id,
+      tableNumber: t.tableNumber,
+      room: roomOf(t.sectionId ? sectionById.get(t.sectionId) : null),
+      xPos: t.xPos || 0,
+      yPos: t.yPos || 0,
+      width: t.width || 96,
+      height: t.height || 96,
+      rotation: t.rotation || 0,
+      tableType: t.tableType || 'square',
+    })),
+  };
+}
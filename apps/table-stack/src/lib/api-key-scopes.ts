@@ -0,0 +1,131 @@
+/**
+ * API Key Scopes
+ *
+ * A restaurant can have several named API keys, one per integration. Each key
+ * carries the scopes it was issued with and may expire. Only a SHA-256 hash
+ * of the key is stored; the key itself is shown once, when it is created.
+ *
+ * Rotating a key issues a replacement with the same name and scopes, and
+ * keeps the old key working for a grace window so integrations can switch
+ * over without downtime.
+ *
+ * Calls made with a dashboard user's service token are checked against the
+ * user's staff role instead, using the permission each scope maps to.
+ *
+ * Pure helpers only; storing and looking up keys lives in ./api-keys.
+ */
+
+import { Permission } from './staff-roles';
+
+export const API_KEY_SCOPES = [
+  'restaurant:read',
+  'availability:read',
+  'reservations:read',
+  'reservations:write',
+  'inventory:read',
+  'deliveries:write',
+] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'restaurant:read': 'Read restaurant profile',
+  'availability:read': 'Read availability',
+  'reservations:read': 'Read reservations and waitlist',
+  'reservations:write': 'Create reservations and waitlist entries',
+  'inventory:read': 'Read menu stock',
+  'deliveries:write': 'Post delivery updates',
+};
+
+/** Staff permission a user-scoped call needs for each scope */
+export const SCOPE_PERMISSIONS: Record<ApiKeyScope, Permission> = {
+  'restaurant:read': 'dashboard:view',
+  'availability:read': 'reservations:view',
+  'reservations:read': 'reservations:view',
+  'reservations:write': 'reservations:manage',
+  'inventory:read': 'menu:view',
+  'deliveries:write': 'orders:manage',
+};
+
+/** Prefix every generated key starts with */
+export const API_KEY_PREFIX = 'ts_';
+
+/** Characters of the key kept for display, e.g. "ts_3f9a1c" */
+const DISPLAY_PREFIX_LENGTH = 9;
+
+export const DEFAULT_ROTATION_GRACE_HOURS = 24;
+export const MAX_ROTATION_GRACE_HOURS = 24 * 7;
+export const MAX_KEY_LIFETIME_DAYS = 365 * 2;
+
+export interface StoredApiKey {
+  scopes: string[];
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * A new random key, e.g. "ts_" followed by 48 hex characters.
+ */
+export function generateKeySecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return API_KEY_PREFIX + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hex SHA-256 of the key, the form keys are stored and looked up in.
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** The start of the key, shown in the dashboard to tell keys apart */
+export function displayPrefix(key: string): string {
+  return key.slice(0, DISPLAY_PREFIX_LENGTH);
+}
+
+/**
+ * True when the key has not been revoked and has not expired.
+ */
+export function isKeyActive(key: Pick<StoredApiKey, 'expiresAt' | 'revokedAt'>, now: Date = new Date()): boolean {
+  if (key.revokedAt) return false;
+  return key.expiresAt === null || key.expiresAt > now;
+}
+
+export function hasScope(key: Pick<StoredApiKey, 'scopes'>, scope: ApiKeyScope): boolean {
+  return key.scopes.includes(scope);
+}
+
+/**
+ * When the key being rotated out stops working: after the grace window, or
+ * at its own expiry if that comes first.
+ */
+export function rotationExpiry(current: Date | null, graceHours: number, now: Date = new Date()): Date {
+  const graceEnd = new Date(now.getTime() + graceHours * 3_600_000);
+  return current && current < graceEnd ? current : graceEnd;
+}
+
+/**
+ * Returns an error message for an invalid key request, or null.
+ */
+export function validateApiKeyInput(input: { name: string; scopes: string[]; expiresInDays: number | null }): string | null {
+  if (!input.name.trim()) return 'Name is required';
+  if (input.name.trim().length > 60) return 'Name must be 60 characters or fewer';
+  if (input.scopes.length === 0) return 'Choose at least one scope';
+  const unknown = input.scopes.find(scope => !isApiKeyScope(scope));
+  if (unknown) return `Unknown scope: ${unknown}`;
+  if (input.expiresInDays !== null && !(Number.isInteger(input.expiresInDays) && input.expiresInDays >= 1 && input.expiresInDays <= MAX_KEY_LIFETIME_DAYS)) {
+    return `Expiry must be between 1 and ${MAX_KEY_LIFETIME_DAYS} days`;
+  }
+  return null;
+}
+
+export function validateGraceHours(hours: number): string | null {
+  if (!Number.isInteger(hours) || hours < 0 || hours > MAX_ROTATION_GRACE_HOURS) {
+    return `Grace period must be between 0 and ${MAX_ROTATION_GRACE_HOURS} hours`;
+  }
+  return null;
+}
@@ -0,0 +1,122 @@
+import { db, apiKeys, and, eq, isNull, lt, or } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import {
+  ApiKeyScope,
+  displayPrefix,
+  generateKeySecret,
+  hashApiKey,
+  isKeyActive,
+  rotationExpiry,
+} from './api-key-scopes';
+
+/** lastUsedAt is only rewritten when older than this, to spare a write per request */
+const LAST_USED_RESOLUTION_MS = 5 * 60_000;
+
+export type ApiKey = InferSelectModel<typeof apiKeys>;
+
+/** A key as listed in the dashboard, without its hash */
+export type ApiKeySummary = Omit<ApiKey, 'keyHash'>;
+
+export interface IssuedApiKey {
+  key: ApiKeySummary;
+  /** The key itself; only available now */
+  secret: string;
+}
+
+function summarize({ keyHash, ...key }: ApiKey): ApiKeySummary {
+  return key;
+}
+
+/**
+ * The active key matching `secret`, recording that it was used. Null for
+ * unknown, revoked or expired keys.
+ */
+export async function findActiveApiKey(secret: string, now: Date = new Date()): Promise<ApiKey | null> {
+  const key: ApiKey | undefined = await db.query.apiKeys.findFirst({
+    where: eq(apiKeys.keyHash, await hashApiKey(secret)),
+  });
+  if (!key || !isKeyActive(key, now)) return null;
+
+  await db.update(apiKeys)
+    .set({ lastUsedAt: now })
+    .where(and(
+      eq(apiKeys.id, key.id),
+      or(isNull(apiKeys.lastUsedAt), lt(apiKeys.lastUsedAt, new Date(now.getTime() - LAST_USED_RESOLUTION_MS)))
+    ))
+    .catch((err: unknown) => console.error('Failed to record API key use:', err));
+
+  return key;
+}
+
+export async function listApiKeys(restaurantId: string): Promise<ApiKeySummary[]> {
+  const keys: ApiKey[] = await db.query.apiKeys.findMany({
+    where: eq(apiKeys.restaurantId, restaurantId),
+    orderBy: (key: any, { desc }: any) => [desc(key.createdAt)],
+  });
+  return keys.map(summarize);
+}
+
+/**
+ * Issues a key. `secret` is only passed to register a key the restaurant
+ * already holds; otherwise a new one is generated.
+ */
+export async function createApiKey(
+  restaurantId: string,
+  input: { name: string; scopes: ApiKeyScope[]; expiresAt: Date | null },
+  createdBy: string,
+  secret: string = generateKeySecret()
+): Promise<IssuedApiKey> {
+  const [key] = await db.insert(apiKeys).values({
+    restaurantId,
+    name: input.name.trim(),
+    keyHash: await hashApiKey(secret),
+    keyPrefix: displayPrefix(secret),
+    scopes: input.scopes,
+    expiresAt: input.expiresAt,
+    createdBy,
+  }).returning();
+
+  return { key: summarize(key), secret };
+}
+
+/**
+ * Issues a replacement with the same name and scopes, and lets the old key
+ * keep working for `graceHours`. A key that expires gets a replacement with
+ * the same lifetime, counted from now.
+ */
+export async function rotateApiKey(
+  restaurantId: string,
+  keyId: string,
+  graceHours: number,
+  createdBy: string,
+  now: Date = new Date()
+): Promise<IssuedApiKey> {
+  const current: ApiKey | undefined = await db.query.apiKeys.findFirst({
+    where: and(eq(apiKeys.id, keyId), eq(apiKeys.restaurantId, restaurantId)),
+  });
+  if (!current || !isKeyActive(current, now)) {
+    throw new Error('API key not found or no longer active');
+  }
+
+  const lifetime = current.expiresAt && current.createdAt
+    ? current.expiresAt.getTime() - current.createdAt.getTime()
+    : null;
+
+  const issued = await createApiKey(restaurantId, {
+    name: current.name,
+    scopes: current.scopes as ApiKeyScope[],
+    expiresAt: lifetime !== null ? new Date(now.getTime() + lifetime) : null,
+  }, createdBy);
+
+  await db.update(apiKeys)
+    .set({ expiresAt: rotationExpiry(current.expiresAt, graceHours, now) })
+    .where(eq(apiKeys.id, current.id));
+
+  return issued;
+}
+
+export async function revokeApiKey(restaurantId: string, keyId: string): Promise<void> {
+  await db.update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.id, keyId), eq(apiKeys.restaurantId, restaurantId), isNull(apiKeys.revokedAt)));
+}
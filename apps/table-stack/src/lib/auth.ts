@@ -2,10 +2,18 @@ import { NextRequest } from 'next/server';
 import { db, restaurants, eq } from "@repo/database";
 import { redis } from './redis';
 import { verifyServiceToken, SecurityProvider } from '@repo/auth';
+import { getStaffRole } from './staff';
+import { can, StaffRole } from './staff-roles';
+import { findActiveApiKey } from './api-keys';
+import { ApiKeyScope, isApiKeyScope, SCOPE_PERMISSIONS } from './api-key-scopes';
 
 export interface AuthContext {
   restaurantId?: string;
   isInternal?: boolean;
+  /** Scopes of the API key the request was made with */
+  scopes?: ApiKeyScope[];
+  /** Role of the dashboard user a service token was issued for */
+  role?: StaffRole;
 }
 
 /**
@@ -33,10 +41,22 @@ export async function validateRequest(req: NextRequest): Promise<{
     const token = authHeader.substring(7);
     const payload = await verifyServiceToken(token);
     if (payload) {
+      const restaurantId = payload.restaurantId as string | undefined;
+      const clerkUserId = payload.clerkUserId as string | undefined;
+      if (clerkUserId) {
+        const restaurant = restaurantId
+          ? await db.query.restaurants.findFirst({ where: eq(restaurants.id, restaurantId) })
+          : undefined;
+        const role = restaurant ? await getStaffRole(restaurant, clerkUserId) : null;
+        if (!role) {
+          return { error: 'No access to this restaurant', status: 403 };
+        }
+        return { context: { restaurantId, role } };
+      }
       return {
         context: {
           isInternal: true,
-          restaurantId: payload.restaurantId as string | undefined,
+          restaurantId,
         },
       };
     }
@@ -67,21 +87,32 @@ export async function validateRequest(req: NextRequest): Promise<{
     return { error: 'Missing API key', status: 401 };
   }
 
-  const restaurant = await db.query.restaurants.findFirst({
-    where: eq(restaurants.apiKey, apiKey),
-  });
+  const key = await findActiveApiKey(apiKey);
 
-  if (!restaurant) {
-    return { error: 'Invalid API key', status: 403 };
+  if (!key) {
+    return { error: 'Invalid or expired API key', status: 403 };
   }
 
   return {
     context: {
-      restaurantId: restaurant.id,
+      restaurantId: key.restaurantId,
+      scopes: key.scopes.filter(isApiKeyScope),
     },
   };
 }
 
+/**
+ * True when the caller may use the scope at the restaurant: API keys need the
+ * scope itself, user tokens the staff permission behind it. System calls may
+ * act on any restaurant.
+ */
+export function isAuthorized(context: AuthContext | undefined, restaurantId: string, scope: ApiKeyScope): boolean {
+  if (context?.isInternal) return true;
+  if (!context || context.restaurantId !== restaurantId) return false;
+  if (context.scopes) return context.scopes.includes(scope);
+  return can(context.role, SCOPE_PERMISSIONS[scope]);
+}
+
 async function rateLimit(identifier: string, limit: number, window: number) {
   const key = `ratelimit:${identifier}`;
   const current = await redis.incr(key);
@@ -97,13 +128,6 @@ async function rateLimit(identifier: string, limit: number, window: number) {
   };
 }
 
-/**
- * Generates a new random API key.
- */
-export function generateApiKey() {
-  return `ts_${Math.random().toString(36).substring(2)}${Math.random().toString(36).substring(2)}`;
-}
-
 /**
  * Signs a webhook payload using HMAC-SHA256.
  */
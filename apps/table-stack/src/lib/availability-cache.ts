@@ -0,0 +1,125 @@
+import { redis } from './redis';
+import {
+  affectedServiceDates,
+  AVAILABILITY_CACHE_TTL_SECONDS,
+  availabilityDayKey,
+  availabilityIndexKey,
+  availabilityQueryField,
+  AvailabilityEvent,
+  AvailabilityQuery,
+  CACHE_METRICS_TTL_SECONDS,
+  cacheMetricsKey,
+  CacheMetrics,
+  hitRate,
+  metricsDates,
+  serviceDateOf,
+} from './availability-events';
+
+export interface CachedRestaurant {
+  id: string;
+  timezone: string | null;
+}
+
+/**
+ * Answers an availability query from the cache, computing and storing it on
+ * a miss. Redis errors fall through to `compute`, so the cache can only make
+ * lookups faster, never fail them.
+ */
+export async function withAvailabilityCache<T>(
+  restaurant: CachedRestaurant,
+  query: AvailabilityQuery,
+  compute: () => Promise<T>
+): Promise<{ value: T; cache: 'hit' | 'miss' }> {
+  const date = serviceDateOf(query, restaurant.timezone || 'UTC');
+  const key = availabilityDayKey(restaurant.id, date);
+  const field = availabilityQueryField(query);
+
+  try {
+    const cached = await redis.hget<T>(key, field);
+    if (cached !== null && cached !== undefined) {
+      await countCacheEvent(restaurant.id, 'hits');
+      return { value: cached, cache: 'hit' };
+    }
+  } catch (error) {
+    console.error('Availability cache read failed:', error);
+  }
+
+  const value = await compute();
+
+  try {
+    const pipeline = redis.pipeline();
+    pipeline.hset(key, { [field]: value });
+    pipeline.expire(key, AVAILABILITY_CACHE_TTL_SECONDS);
+    pipeline.sadd(availabilityIndexKey(restaurant.id), date);
+    pipeline.expire(availabilityIndexKey(restaurant.id), AVAILABILITY_CACHE_TTL_SECONDS);
+    await pipeline.exec();
+  } catch (error) {
+    console.error('Availability cache write failed:', error);
+  }
+  await countCacheEvent(restaurant.id, 'misses');
+
+  return { value, cache: 'miss' };
+}
+
+/**
+ * Drops the cached days an availability change touches. Never throws: a
+ * failed invalidation leaves entries that expire on their own within the
+ * cache TTL.
+ */
+export async function invalidateAvailability(restaurant: CachedRestaurant, event: AvailabilityEvent) {
+  try {
+    const indexKey = availabilityIndexKey(restaurant.id);
+    const affected = affectedServiceDates(event, restaurant.timezone || 'UTC');
+    const dates = affected === 'all' ? await redis.smembers(indexKey) : affected;
+    if (dates.length === 0) return;
+
+    await redis.del(...dates.map(date => availabilityDayKey(restaurant.id, date)));
+    if (affected === 'all') {
+      await redis.del(indexKey);
+    } else {
+      await redis.srem(indexKey, ...dates);
+    }
+    await countCacheEvent(restaurant.id, 'invalidations');
+  } catch (error) {
+    console.error(`Availability cache invalidation failed for ${event.type}:`, error);
+  }
+}
+
+/**
+ * Cache effectiveness for a restaurant over the last `days` days.
+ */
+export async function getAvailabilityCacheStats(
+  restaurantId: string,
+  days = 7
+): Promise<CacheMetrics & { hitRate: number | null }> {
+  const totals: CacheMetrics = { hits: 0, misses: 0, invalidations: 0 };
+
+  try {
+    const pipeline = redis.pipeline();
+    for (const date of metricsDates(new Date(), days)) {
+      pipeline.hgetall(cacheMetricsKey(restaurantId, date));
+    }
+    const rows = await pipeline.exec<(Record<string, number> | null)[]>();
+    for (const row of rows) {
+      totals.hits += Number(row?.hits ?? 0);
+      totals.misses += Number(row?.misses ?? 0);
+      totals.invalidations += Number(row?.invalidations ?? 0);
+    }
+  } catch (error) {
+    console.error('Failed to load availability cache stats:', error);
+  }
+
+  return { ...totals, hitRate: hitRate(totals) };
+}
+
+async function countCacheEvent(restaurantId: string, counter: keyof CacheMetrics) {
+  try {
+    const key = cacheMetricsKey(restaurantId, metricsDates(new Date(), 1)[0]);
+    const pipeline = redis.pipeline();
+    pipeline.hincrby(key, counter, 1);
+    pipeline.expire(key, CACHE_METRICS_TTL_SECONDS);
+    await pipeline.exec();
+  } catch (error) {
+    console.error('Failed to record availability cache metrics:', error);
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Availability Cache Events
+ *
+ * Availability answers are cached in Redis per restaurant and service day
+ * (yyyy-MM-dd in the restaurant's timezone). Each day is one hash holding
+ * every cached query for that day: table searches by time, party size and
+ * section, and slot grids by party size, interval and section.
+ *
+ * Changes that affect availability are described as events and turned into
+ * the days they touch:
+ * - RESERVATION_CREATED / RESERVATION_CANCELLED: the days a query could see
+ *   the bookings from. A search at time T looks at bookings overlapping T up
+ *   to T + turn time, and suggests times an hour either side; slot grids also
+ *   count arrivals within the pacing window. So a booking can change answers
+ *   from the longest turn time plus an hour before it starts until two hours
+ *   after it ends.
+ * - RESERVATION_MODIFIED: the days of both the old and the new booking.
+ * - HOLD_PLACED / HOLD_RELEASED: as for bookings, since live holds occupy
+ *   tables the same way.
+ * - PRIVATE_EVENT_BOOKED / PRIVATE_EVENT_CANCELLED: as for bookings, since
+ *   events block their tables the same way.
+ * - TABLE_STATUS_CHANGED, FLOOR_CHANGED, SETTINGS_CHANGED: every cached day.
+ *
+ * Entries also expire after a couple of minutes, which bounds staleness from
+ * things no event reports: unverified reservations and booking holds
+ * lapsing, sections reopening at their `disabledUntil`, slots slipping into
+ * the past, and an answer computed just before an invalidation being stored
+ * just after it.
+ *
+ * Hits, misses and invalidations are counted per restaurant per UTC day.
+ *
+ * Pure helpers only; Redis access lives in ./availability-cache.
+ */
+
+import { addMinutes, eachDayOfInterval, format, parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+
+export const AVAILABILITY_CACHE_TTL_SECONDS = 120;
+export const CACHE_METRICS_TTL_SECONDS = 30 * 24 * 60 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest turn time the settings allow plus the hour searched for suggestions
+const LOOKBACK_MINUTES = 480 + 60;
+// Suggestion hour plus the longest pacing window
+const LOOKAHEAD_MINUTES = 60 + 120;
+
+export interface BookingWindow {
+  startTime: Date;
+  endTime: Date;
+}
+
+export type AvailabilityEvent =
+  | { type: 'RESERVATION_CREATED' | 'RESERVATION_CANCELLED'; reservations: BookingWindow[] }
+  | { type: 'RESERVATION_MODIFIED'; previous: BookingWindow; current: BookingWindow }
+  | { type: 'HOLD_PLACED' | 'HOLD_RELEASED'; holds: BookingWindow[] }
+  | { type: 'PRIVATE_EVENT_BOOKED' | 'PRIVATE_EVENT_CANCELLED'; events: BookingWindow[] }
+  | { type: 'TABLE_STATUS_CHANGED' | 'FLOOR_CHANGED' | 'SETTINGS_CHANGED' };
+
+export type AvailabilityQuery =
+  | { kind: 'tables'; at: Date; partySize: number; section?: string | null }
+  | { kind: 'slots'; date: string; partySize: number; interval: number; section?: string | null };
+
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  invalidations: number;
+}
+
+export function availabilityDayKey(restaurantId: string, date: string): string {
+  return `availability:${restaurantId}:${date}`;
+}
+
+/** Set of the days currently cached for a restaurant */
+export function availabilityIndexKey(restaurantId: string): string {
+  return `availability:${restaurantId}:days`;
+}
+
+export function cacheMetricsKey(restaurantId: string, utcDate: string): string {
+  return `availability-metrics:${restaurantId}:${utcDate}`;
+}
+
+/**
+ * The service day a query belongs to.
+ */
+export function serviceDateOf(query: AvailabilityQuery, timezone: string): string {
+  return query.kind === 'slots' ? query.date : formatInTimeZone(query.at, timezone, 'yyyy-MM-dd');
+}
+
+/**
+ * Hash field for a query within its day.
+ */
+export function availabilityQueryField(query: AvailabilityQuery): string {
+  const section = query.section || '*';
+  return query.kind === 'tables'
+    ? `tables|${query.at.toISOString()}|${query.partySize}|${section}`
+    : `slots|${query.interval}|${query.partySize}|${section}`;
+}
+
+/**
+ * Service days whose cached answers the event may have changed, or 'all'.
+ */
+export function affectedServiceDates(event: AvailabilityEvent, timezone: string): string[] | 'all' {
+  switch (event.type) {
+    case 'RESERVATION_CREATED':
+    case 'RESERVATION_CANCELLED':
+      return datesAround(event.reservations, timezone);
+    case 'RESERVATION_MODIFIED':
+      return datesAround([event.previous, event.current], timezone);
+    case 'HOLD_PLACED':
+    case 'HOLD_RELEASED':
+      return datesAround(event.holds, timezone);
+    case 'PRIVATE_EVENT_BOOKED':
+    case 'PRIVATE_EVENT_CANCELLED':
+      return datesAround(event.events, timezone);
+    default:
+      return 'all';
+  }
+}
+
+/**
+ * Share of lookups answered from the cache, or null before any lookup.
+ */
+export function hitRate(metrics: Pick<CacheMetrics, 'hits' | 'misses'>): number | null {
+  const lookups = metrics.hits + metrics.misses;
+  return lookups === 0 ? null : metrics.hits / lookups;
+}
+
+/**
+ * The last `days` UTC dates ending today, newest first.
+ */
+export function metricsDates(now: Date, days: number): string[] {
+  return Array.from({ length: days }, (_, i) => formatInTimeZone(new Date(now.getTime() - i * DAY_MS), 'UTC', 'yyyy-MM-dd'));
+}
+
+function datesAround(windows: BookingWindow[], timezone: string): string[] {
+  const dates = new Set<string>();
+  for (const window of windows) {
+    const from = formatInTimeZone(addMinutes(window.startTime, -LOOKBACK_MINUTES), timezone, 'yyyy-MM-dd');
+    const to = formatInTimeZone(addMinutes(window.endTime, LOOKAHEAD_MINUTES), timezone, 'yyyy-MM-dd');
+    for (const day of eachDayOfInterval({ start: parseISO(from), end: parseISO(to) })) {
+      dates.add(format(day, 'yyyy-MM-dd'));
+    }
+  }
+  return Array.from(dates).sort();
+}
@@ -0,0 +1,465 @@
+import { db, bookingHolds, privateEvents, restaurantTables, restaurantReservations, restaurantScheduleExceptions, restaurantSections, and, eq, gt, gte, ne, or, sql } from "@repo/database";
+import { addMinutes } from 'date-fns';
+import { toZonedTime, format } from 'date-fns-tz';
+import {
+  reassignedTables,
+  selectTablesForParty,
+  validateTableCombination,
+} from './table-combinations';
+import {
+  BookedWindow,
+  bookingRefusal,
+  DEFAULT_PACING_WINDOW_MINUTES,
+  exceedsCoverPacing,
+  generateServiceSlots,
+  occupiedTableIdsBetween,
+  pacingWindowFor,
+  PacingPolicy,
+} from './slot-grid';
+import {
+  isOpenAt,
+  ScheduleException,
+  ScheduleSource,
+  ServiceSchedule,
+  servicePeriodAt,
+  servicePeriodsForDate,
+  weeklyScheduleFor,
+} from './service-schedule';
+import { resolveTurnTime, TurnTimeRule } from './turn-times';
+import { FloorSection, tablesOpenAt } from './floor-sections';
+import { EventBlock, eventBookedWindows } from './private-events';
+import type { InferSelectModel } from "@repo/database";
+
+type RestaurantTable = InferSelectModel<typeof restaurantTables>;
+
+/** Unverified reservations hold their tables for this long after creation */
+export const UNVERIFIED_HOLD_MINUTES = 15;
+
+/**
+ * Restaurant fields used by the slot grid, pacing and turn time checks.
+ */
+export interface SlotGridRestaurant extends ScheduleSource {
+  id: string;
+  timezone: string | null;
+  defaultDurationMinutes: number | null;
+  pacingMaxCovers?: number | null;
+  pacingWindowMinutes?: number | null;
+  turnTimeRules?: TurnTimeRule[] | null;
+}
+
+export interface AvailabilitySlot {
+  time: string;
+  localTime: string;
+  available: boolean;
+  availableTables: number;
+  tableId?: string;
+  reason?: 'fully_booked' | 'pacing_limit' | 'private_event';
+}
+
+function pacingPolicyFor(restaurant: SlotGridRestaurant): PacingPolicy {
+  return {
+    maxCovers: restaurant.pacingMaxCovers ?? null,
+    windowMinutes: restaurant.pacingWindowMinutes || DEFAULT_PACING_WINDOW_MINUTES,
+  };
+}
+
+/**
+ * Loads a restaurant's floor sections.
+ */
+export async function getFloorSections(restaurantId: string): Promise<FloorSection[]> {
+  return db
+    .select({
+      id: restaurantSections.id,
+      name: restaurantSections.name,
+      room: restaurantSections.room,
+      isEnabled: restaurantSections.isEnabled,
+      disabledUntil: restaurantSections.disabledUntil,
+    })
+    .from(restaurantSections)
+    .where(eq(restaurantSections.restaurantId, restaurantId));
+}
+
+async function getActiveTablesAndSections(restaurantId: string) {
+  const [tables, sections]: [RestaurantTable[], FloorSection[]] = await Promise.all([
+    db
+      .select()
+      .from(restaurantTables)
+      .where(
+        and(
+          eq(restaurantTables.restaurantId, restaurantId),
+          eq(restaurantTables.isActive, true)
+        )
+      ),
+    getFloorSections(restaurantId),
+  ]);
+  return { tables, sections };
+}
+
+/**
+ * Loads the tables in service for a restaurant at `at` (default now),
+ * leaving out closed sections. `section` narrows them to one section or
+ * room, e.g. when a guest asks for the patio.
+ */
+export async function getActiveTables(
+  restaurantId: string,
+  options: { at?: Date; section?: string | null } = {}
+) {
+  const { tables, sections } = await getActiveTablesAndSections(restaurantId);
+  return tablesOpenAt(tables, sections, options.at ?? new Date(), options.section);
+}
+
+/**
+ * Loads the weekly schedule and dated exceptions for a restaurant.
+ */
+export async function getServiceSchedule(restaurant: ScheduleSource & { id: string }): Promise<ServiceSchedule> {
+  const exceptions: ScheduleException[] = await db
+    .select({
+      date: restaurantScheduleExceptions.date,
+      isClosed: restaurantScheduleExceptions.isClosed,
+      periods: restaurantScheduleExceptions.periods,
+      reason: restaurantScheduleExceptions.reason,
+    })
+    .from(restaurantScheduleExceptions)
+    .where(eq(restaurantScheduleExceptions.restaurantId, restaurant.id));
+
+  return { weekly: weeklyScheduleFor(restaurant), exceptions };
+}
+
+/**
+ * True when the restaurant is in service at the given instant.
+ */
+export async function isRestaurantOpenAt(
+  restaurant: ScheduleSource & { id: string; timezone: string | null },
+  instant: Date
+): Promise<boolean> {
+  const schedule = await getServiceSchedule(restaurant);
+  return isOpenAt(instant, restaurant.timezone || 'UTC', schedule);
+}
+
+/**
+ * Turn time for a booking starting at `startTime`, using the service period
+ * and weekday it falls into.
+ */
+export function turnTimeFor(
+  restaurant: SlotGridRestaurant,
+  schedule: ServiceSchedule,
+  startTime: Date,
+  partySize: number
+): number {
+  const { weekday, period } = servicePeriodAt(startTime, restaurant.timezone || 'UTC', schedule);
+
+  return resolveTurnTime(restaurant.turnTimeRules, restaurant.defaultDurationMinutes, {
+    partySize,
+    weekday,
+    servicePeriod: period?.name,
+  });
+}
+
+/**
+ * Loads the schedule and returns the turn time for a booking, in minutes.
+ */
+export async function getTurnTimeMinutes(
+  restaurant: SlotGridRestaurant,
+  startTime: Date,
+  partySize: number
+): Promise<number> {
+  const schedule = await getServiceSchedule(restaurant);
+  return turnTimeFor(restaurant, schedule, startTime, partySize);
+}
+
+/**
+ * Loads every confirmed or recently-created unverified reservation, every
+ * live booking hold and every private event overlapping the given window.
+ * Events come back holding all the tables they buy out.
+ * `excludeReservationId` leaves out a reservation being modified so it does
+ * not conflict with itself; `excludeHoldId` does the same for the hold a
+ * booking is made under.
+ */
+export async function getOverlappingBookings(
+  restaurantId: string,
+  startTime: Date,
+  endTime: Date,
+  excludeReservationId?: string,
+  excludeHoldId?: string
+): Promise<BookedWindow[]> {
+  const overlaps = (start: unknown, end: unknown) =>
+    sql`(${start}, ${end}) OVERLAPS (${sql.placeholder(startTime.toISOString())}::timestamptz, ${sql.placeholder(endTime.toISOString())}::timestamptz)`;
+
+  const [reservations, holds, events]: [BookedWindow[], BookedWindow[], BookedWindow[]] = await Promise.all([
+    db
+      .select({
+        tableId: restaurantReservations.tableId,
+        combinedTableIds: restaurantReservations.combinedTableIds,
+        startTime: restaurantReservations.startTime,
+        endTime: restaurantReservations.endTime,
+        partySize: restaurantReservations.partySize,
+      })
+      .from(restaurantReservations)
+      .where(
+        and(
+          eq(restaurantReservations.restaurantId, restaurantId),
+          excludeReservationId ? ne(restaurantReservations.id, excludeReservationId) : undefined,
+          or(
+            eq(restaurantReservations.status, 'confirmed'),
+            and(
+              eq(restaurantReservations.isVerified, false),
+              gte(restaurantReservations.createdAt, new Date(Date.now() - UNVERIFIED_HOLD_MINUTES * 60 * 1000))
+            )
+          ),
+          overlaps(restaurantReservations.startTime, restaurantReservations.endTime)
+        )
+      ),
+    db
+      .select({
+        tableId: bookingHolds.tableId,
+        combinedTableIds: bookingHolds.combinedTableIds,
+        startTime: bookingHolds.startTime,
+        endTime: bookingHolds.endTime,
+        partySize: bookingHolds.partySize,
+      })
+      .from(bookingHolds)
+      .where(
+        and(
+          eq(bookingHolds.restaurantId, restaurantId),
+          eq(bookingHolds.status, 'held'),
+          gt(bookingHolds.expiresAt, new Date()),
+          excludeHoldId ? ne(bookingHolds.id, excludeHoldId) : undefined,
+          overlaps(bookingHolds.startTime, bookingHolds.endTime)
+        )
+      ),
+    getPrivateEventBlocks(restaurantId, overlaps(privateEvents.startTime, privateEvents.endTime)),
+  ]);
+
+  return [...reservations, ...holds, ...events];
+}
+
+/**
+ * Confirmed private events matching `window`, each holding the tables it
+ * buys out. Tables are read from the current floor, inactive ones included,
+ * so every table in scope stays blocked.
+ */
+async function getPrivateEventBlocks(restaurantId: string, window: ReturnType<typeof sql>): Promise<BookedWindow[]> {
+  const events: EventBlock[] = await db
+    .select({
+      id: privateEvents.id,
+      scope: privateEvents.scope,
+      sectionId: privateEvents.sectionId,
+      startTime: privateEvents.startTime,
+      endTime: privateEvents.endTime,
+    })
+    .from(privateEvents)
+    .where(and(
+      eq(privateEvents.restaurantId, restaurantId),
+      eq(privateEvents.status, 'confirmed'),
+      window
+    ));
+  if (events.length === 0) return [];
+
+  const tables = await db
+    .select({ id: restaurantTables.id, sectionId: restaurantTables.sectionId })
+    .from(restaurantTables)
+    .where(eq(restaurantTables.restaurantId, restaurantId));
+  return eventBookedWindows(events, tables);
+}
+
+/**
+ * Returns the IDs of every table (single or combined) held by a confirmed or
+ * recently-created unverified reservation, or a live hold, overlapping the
+ * given window.
+ */
+export async function getOccupiedTableIds(
+  restaurantId: string,
+  startTime: Date,
+  endTime: Date,
+  excludeReservationId?: string,
+  excludeHoldId?: string
+): Promise<Set<string>> {
+  const bookings = await getOverlappingBookings(restaurantId, startTime, endTime, excludeReservationId, excludeHoldId);
+  return occupiedTableIdsBetween(bookings, startTime, endTime);
+}
+
+/**
+ * Finds tables for a party: single tables that fit, or - when none do -
+ * adjacent table combinations ranked by wasted seats. `section` limits the
+ * search to one section or room. Tables' live status only counts for a
+ * booking that has already started, such as a walk-in.
+ */
+export async function getAvailableTables(
+  restaurantId: string,
+  startTime: Date,
+  partySize: number,
+  duration: number,
+  options: { excludeReservationId?: string; section?: string | null } = {}
+) {
+  const endTime = addMinutes(startTime, duration);
+  const occupiedTableIds = await getOccupiedTableIds(restaurantId, startTime, endTime, options.excludeReservationId);
+  const allTables = await getActiveTables(restaurantId, { at: startTime, section: options.section });
+
+  return selectTablesForParty(allTables, occupiedTableIds, partySize, { live: startTime <= new Date() });
+}
+
+/**
+ * Builds the bookable slot grid for one service day (yyyy-MM-dd in the
+ * restaurant's timezone), covering every service period of that day. Slots
+ * already in the past are omitted; a closed day yields no slots.
+ *
+ * Reservations are loaded once for the whole day and matched to each slot in
+ * memory, so the cost does not grow with the number of slots. `section`
+ * limits the grid to one section or room.
+ */
+export async function getAvailabilityGrid(
+  restaurant: SlotGridRestaurant,
+  date: string,
+  partySize: number,
+  interval: number,
+  section?: string | null
+): Promise<AvailabilitySlot[]> {
+  const timezone = restaurant.timezone || 'UTC';
+  const pacing = pacingPolicyFor(restaurant);
+  const now = new Date();
+
+  const schedule = await getServiceSchedule(restaurant);
+  const slots = servicePeriodsForDate(date, schedule)
+    .flatMap(period => generateServiceSlots(date, period.startTime, period.endTime, interval, timezone))
+    .filter(slot => slot > now)
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  if (slots.length === 0) return [];
+
+  const durations = slots.map(slot => turnTimeFor(restaurant, schedule, slot, partySize));
+  const windowStart = pacingWindowFor(slots[0], pacing.windowMinutes).start;
+  const windowEnd = addMinutes(slots[slots.length - 1], Math.max(...durations, pacing.windowMinutes));
+
+  const [bookings, { tables, sections }] = await Promise.all([
+    getOverlappingBookings(restaurant.id, windowStart, windowEnd),
+    getActiveTablesAndSections(restaurant.id),
+  ]);
+
+  return slots.map((slot, i) => {
+    const occupied = occupiedTableIdsBetween(bookings, slot, addMinutes(slot, durations[i]));
+    const openTables = tablesOpenAt(tables, sections, slot, section);
+    const options = selectTablesForParty(openTables, occupied, partySize);
+    const paced = exceedsCoverPacing(bookings, slot, partySize, pacing);
+
+    return {
+      time: slot.toISOString(),
+      localTime: format(toZonedTime(slot, timezone), 'HH:mm', { timeZone: timezone }),
+      available: options.length > 0 && !paced,
+      availableTables: options.length,
+      tableId: options[0]?.id,
+      reason: options.length === 0
+        ? (blockedByPrivateEvent(bookings, openTables, slot, addMinutes(slot, durations[i]), partySize) ? 'private_event' : 'fully_booked')
+        : paced ? 'pacing_limit' : undefined,
+    };
+  });
+}
+
+/**
+ * True when a party finding no table would have found one were it not for
+ * a private event.
+ */
+function blockedByPrivateEvent(
+  bookings: BookedWindow[],
+  tables: RestaurantTable[],
+  start: Date,
+  end: Date,
+  partySize: number
+): boolean {
+  const withoutEvents = bookings.filter(b => !b.privateEventId);
+  if (withoutEvents.length === bookings.length) return false;
+  return selectTablesForParty(tables, occupiedTableIdsBetween(withoutEvents, start, end), partySize).length > 0;
+}
+
+/**
+ * True when a new booking of `partySize` at `startTime` fits within the
+ * restaurant's cover pacing limit (always true if pacing is disabled).
+ */
+export async function isWithinCoverPacing(
+  restaurant: SlotGridRestaurant,
+  startTime: Date,
+  partySize: number,
+  excludeReservationId?: string,
+  excludeHoldId?: string
+): Promise<boolean> {
+  const pacing = pacingPolicyFor(restaurant);
+  if (!pacing.maxCovers) return true;
+
+  const window = pacingWindowFor(startTime, pacing.windowMinutes);
+  const bookings = await getOverlappingBookings(restaurant.id, window.start, window.end, excludeReservationId, excludeHoldId);
+  return !exceedsCoverPacing(bookings, startTime, partySize, pacing);
+}
+
+/**
+ * Validates a combination against the restaurant's table layout at the
+ * booking time `at` (default now).
+ */
+export async function validateCombinationForRestaurant(
+  restaurantId: string,
+  tableIds: string[],
+  partySize: number,
+  at?: Date
+) {
+  const allTables = await getActiveTables(restaurantId, { at });
+  return validateTableCombination(allTables, tableIds, partySize);
+}
+
+/**
+ * Returns the subset of `tableIds` already taken during the given window.
+ */
+export async function findConflictingTableIds(
+  restaurantId: string,
+  tableIds: string[],
+  startTime: Date,
+  endTime: Date,
+  excludeReservationId?: string,
+  excludeHoldId?: string
+): Promise<string[]> {
+  const occupied = await getOccupiedTableIds(restaurantId, startTime, endTime, excludeReservationId, excludeHoldId);
+  return tableIds.filter(id => occupied.has(id));
+}
+
+/**
+ * Checks a booking against everything else on the restaurant's books with
+ * `bookingRefusal`, loading the bookings once for both the table check and,
+ * unless `pacing` is false, the cover pacing window. The exclusions are as
+ * for `getOverlappingBookings`.
+ */
+export async function checkBooking(
+  restaurant: SlotGridRestaurant,
+  tableIds: string[],
+  startTime: Date,
+  endTime: Date,
+  partySize: number,
+  options: { excludeReservationId?: string; excludeHoldId?: string; pacing?: boolean } = {}
+): Promise<{ conflicts: string[] } | { paced: true } | null> {
+  const pacing = options.pacing === false ? null : pacingPolicyFor(restaurant);
+  const window = pacing?.maxCovers ? pacingWindowFor(startTime, pacing.windowMinutes) : { start: startTime, end: endTime };
+
+  const bookings = await getOverlappingBookings(
+    restaurant.id,
+    window.start < startTime ? window.start : startTime,
+    window.end > endTime ? window.end : endTime,
+    options.excludeReservationId,
+    options.excludeHoldId
+  );
+  return bookingRefusal(bookings, tableIds, startTime, endTime, partySize, pacing);
+}
+
+/**
+ * Tables for a reservation moving to a new time or party size. It keeps its
+ * current tables when they are still free and large enough; otherwise the
+ * best single table or combination is picked. Returns null when nothing fits.
+ */
+export async function reassignTables(
+  reservation: { id: string; restaurantId: string; tableId: string | null; combinedTableIds: string[] | null },
+  startTime: Date,
+  endTime: Date,
+  partySize: number
+): Promise<{ tableId: string | null; combinedTableIds: string[] | null } | null> {
+  const [occupied, allTables] = await Promise.all([
+    getOccupiedTableIds(reservation.restaurantId, startTime, endTime, reservation.id),
+    getActiveTables(reservation.restaurantId, { at: startTime }),
+  ]);
+
+  return reassignedTables(reservation, allTables, occupied, partySize, { live: startTime <= new Date() });
+}
@@ -0,0 +1,178 @@
+import { db, bookingHolds, restaurants, and, eq, lt } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import { addMinutes } from 'date-fns';
+import { redis } from './redis';
+import {
+  findConflictingTableIds,
+  getAvailableTables,
+  getTurnTimeMinutes,
+  isRestaurantOpenAt,
+  isWithinCoverPacing,
+  validateCombinationForRestaurant,
+} from './availability';
+import { invalidateAvailability } from './availability-cache';
+import { pickBestTables, tableIdsOf } from './table-combinations';
+import {
+  DEFAULT_HOLD_MINUTES,
+  HeldBooking,
+  holdMismatch,
+  TableLockStore,
+  withTableLocks,
+} from './hold-policy';
+
+type Restaurant = InferSelectModel<typeof restaurants>;
+export type BookingHold = InferSelectModel<typeof bookingHolds>;
+
+export class HoldUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HoldUnavailableError';
+  }
+}
+
+// Takes every key or none, so two callers never each hold part of a set
+const ACQUIRE_LOCKS_SCRIPT = `
+for _, key in ipairs(KEYS) do
+  if redis.call('EXISTS', key) == 1 then return 0 end
+end
+for _, key in ipairs(KEYS) do
+  redis.call('SET', key, ARGV[1], 'PX', ARGV[2])
+end
+return 1
+`;
+
+// Leaves keys alone once they have expired and been taken by someone else
+const RELEASE_LOCKS_SCRIPT = `
+for _, key in ipairs(KEYS) do
+  if redis.call('GET', key) == ARGV[1] then redis.call('DEL', key) end
+end
+return 1
+`;
+
+const redisTableLocks: TableLockStore = {
+  async acquire(keys, owner, ttlMs) {
+    return (await redis.eval(ACQUIRE_LOCKS_SCRIPT, keys, [owner, String(ttlMs)])) === 1;
+  },
+  async release(keys, owner) {
+    await redis.eval(RELEASE_LOCKS_SCRIPT, keys, [owner]);
+  },
+};
+
+/**
+ * Runs `critical` - a conflict check and the write it guards - while holding
+ * the lock on every table in `tableIds`. Throws TablesBusyError when the
+ * tables stay locked by another booking.
+ */
+export function lockTables<T>(tableIds: string[], critical: () => Promise<T>): Promise<T> {
+  return withTableLocks(redisTableLocks, tableIds, critical);
+}
+
+/**
+ * Holds tables for a slot for `minutes`. Named tables must be free (and form
+ * a valid combination when there are several); without them the best single
+ * table or combination is picked, as the reserve route would. Throws
+ * HoldUnavailableError when nothing can be held.
+ */
+export async function placeBookingHold(
+  restaurant: Restaurant,
+  request: { startTime: Date; partySize: number; tableIds?: string[]; section?: string | null; minutes?: number }
+): Promise<BookingHold> {
+  const { startTime, partySize } = request;
+  const duration = await getTurnTimeMinutes(restaurant, startTime, partySize);
+  const endTime = addMinutes(startTime, duration);
+
+  if (!(await isRestaurantOpenAt(restaurant, startTime))) {
+    throw new HoldUnavailableError('Restaurant is closed at this time');
+  }
+
+  let tableIds = request.tableIds || [];
+  if (tableIds.length > 1) {
+    const validation = await validateCombinationForRestaurant(restaurant.id, tableIds, partySize, startTime);
+    if (!validation.valid) throw new HoldUnavailableError(validation.error || 'Invalid table combination');
+  }
+
+  if (tableIds.length === 0) {
+    const best = pickBestTables(await getAvailableTables(restaurant.id, startTime, partySize, duration, { section: request.section }), partySize);
+    if (!best) throw new HoldUnavailableError('No suitable tables available for this time and party size');
+    tableIds = tableIdsOf(best);
+  }
+
+  const hold: BookingHold = await lockTables(tableIds, async () => {
+    const conflicts = await findConflictingTableIds(restaurant.id, tableIds, startTime, endTime);
+    if (conflicts.length > 0) throw new HoldUnavailableError('One or more tables are no longer available');
+
+    if (!(await isWithinCoverPacing(restaurant, startTime, partySize))) {
+      throw new HoldUnavailableError('Too many guests are already arriving around this time');
+    }
+
+    const [created] = await db.insert(bookingHolds).values({
+      restaurantId: restaurant.id,
+      tableId: tableIds.length === 1 ? tableIds[0] : null,
+      combinedTableIds: tableIds.length > 1 ? tableIds : null,
+      partySize,
+      startTime,
+      endTime,
+      expiresAt: addMinutes(new Date(), request.minutes ?? DEFAULT_HOLD_MINUTES),
+    }).returning();
+    return created;
+  });
+
+  await invalidateAvailability(restaurant, { type: 'HOLD_PLACED', holds: [hold] });
+  return hold;
+}
+
+/**
+ * The hold a booking is made under. Throws HoldUnavailableError when the
+ * token is unknown or the hold does not cover the booking.
+ */
+export async function findHoldForBooking(token: string, booking: HeldBooking): Promise<BookingHold> {
+  const hold: BookingHold | undefined = await db.query.bookingHolds.findFirst({
+    where: eq(bookingHolds.token, token),
+  });
+  if (!hold) throw new HoldUnavailableError('Hold not found');
+
+  const mismatch = holdMismatch(hold, booking, new Date());
+  if (mismatch) throw new HoldUnavailableError(mismatch);
+  return hold;
+}
+
+/**
+ * Marks a hold as used by the reservation booked under it. Call after the
+ * reservation exists, so the tables are never left unclaimed in between.
+ */
+export async function convertBookingHold(holdId: string, reservationId: string): Promise<void> {
+  await db.update(bookingHolds)
+    .set({ status: 'converted', reservationId })
+    .where(eq(bookingHolds.id, holdId));
+}
+
+/**
+ * Lets a hold's tables go before it expires. Returns false when the token is
+ * unknown or the hold was already used, released or expired.
+ */
+export async function releaseBookingHold(restaurant: Restaurant, token: string): Promise<boolean> {
+  const [released]: BookingHold[] = await db.update(bookingHolds)
+    .set({ status: 'released' })
+    .where(and(
+      eq(bookingHolds.token, token),
+      eq(bookingHolds.restaurantId, restaurant.id),
+      eq(bookingHolds.status, 'held')
+    ))
+    .returning();
+  if (!released) return false;
+
+  await invalidateAvailability(restaurant, { type: 'HOLD_RELEASED', holds: [released] });
+  return true;
+}
+
+/**
+ * Marks holds past their expiry as expired. They stopped blocking tables
+ * when they expired; this only keeps the status column truthful.
+ */
+export async function expireBookingHolds(now: Date = new Date()): Promise<number> {
+  const expired = await db.update(bookingHolds)
+    .set({ status: 'expired' })
+    .where(and(eq(bookingHolds.status, 'held'), lt(bookingHolds.expiresAt, now)))
+    .returning({ id: bookingHolds.id });
+  return expired.length;
+}
@@ -0,0 +1,174 @@
+import { db, restaurants, restaurantReservations, and, eq, inArray, isNull, lt, ne, or } from "@repo/database";
+import type { InferInsertModel, InferSelectModel } from "@repo/database";
+import { subMinutes } from 'date-fns';
+import { checkBooking, SlotGridRestaurant, UNVERIFIED_HOLD_MINUTES } from './availability';
+import { BookingHold, convertBookingHold, lockTables } from './booking-holds';
+import { heldTableIds, HeldTables } from './hold-policy';
+import { PENDING_DEPOSIT_HOLD_MINUTES } from './deposits';
+import { publishReservationEvent } from './reservation-events';
+import { reservationEventData, reservationModifiedEventData, WebhookEvent } from './webhook-events';
+import { webhookDeliveriesFor, writeWithWebhookDeliveries } from './webhooks';
+
+type Reservation = InferSelectModel<typeof restaurantReservations>;
+type NewReservation = InferInsertModel<typeof restaurantReservations>;
+
+/** A booking or move that cannot have the tables or time it asked for */
+export class TablesUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TablesUnavailableError';
+  }
+}
+
+/**
+ * What became of a booking or move: written, refused because some of its
+ * tables are taken (`conflicts` lists them), or refused by cover pacing.
+ */
+export type BookingOutcome =
+  | { reservation: Reservation; conflicts?: undefined; paced?: undefined }
+  | { conflicts: string[]; reservation?: undefined; paced?: undefined }
+  | { paced: true; reservation?: undefined; conflicts?: undefined };
+
+/**
+ * Webhook deliveries to write with a booking or move. A failed lookup must
+ * not fail the booking, so it queues nothing.
+ */
+async function reservationDeliveries(restaurantId: string, type: WebhookEvent, data: Record<string, unknown>) {
+  return webhookDeliveriesFor(restaurantId, type, data).catch(error => {
+    console.error(`Failed to queue webhook event ${type}:`, error);
+    return [];
+  });
+}
+
+/**
+ * Writes a new reservation on the tables in `values` and reports it. The
+ * tables are checked free and the reservation written under their locks, so
+ * no other booking, hold or move can claim them in between; its
+ * reservation.created webhooks are queued in the same batch. `hold` is the
+ * hold the booking is made under, left out of the checks and marked
+ * converted once the reservation exists. Cover pacing is checked unless
+ * `pacing` is false. Throws TablesBusyError when the tables stay locked.
+ */
+export async function bookTables(
+  restaurant: SlotGridRestaurant,
+  values: NewReservation,
+  options: { hold?: BookingHold | null; pacing?: boolean } = {}
+): Promise<BookingOutcome> {
+  const tableIds = heldTableIds({ tableId: values.tableId ?? null, combinedTableIds: values.combinedTableIds ?? null });
+  const holdId = options.hold?.id;
+
+  // Settled before the write so the webhook payload matches the row exactly
+  const row = {
+    ...values,
+    id: values.id ?? crypto.randomUUID(),
+    status: values.status ?? 'confirmed',
+    tableId: values.tableId ?? null,
+    isVerified: values.isVerified ?? false,
+  };
+  const deliveries = await reservationDeliveries(restaurant.id, 'reservation.created', reservationEventData(row));
+
+  const outcome: BookingOutcome = await lockTables(tableIds, async () => {
+    const refusal = await checkBooking(restaurant, tableIds, row.startTime, row.endTime, row.partySize, {
+      excludeHoldId: holdId,
+      pacing: options.pacing,
+    });
+    if (refusal) return refusal;
+
+    const [reservation]: Reservation[] = await writeWithWebhookDeliveries(
+      db.insert(restaurantReservations).values(row).returning(),
+      deliveries
+    );
+    return { reservation };
+  });
+  if (!outcome.reservation) return outcome;
+
+  if (holdId) await convertBookingHold(holdId, outcome.reservation.id);
+  await publishReservationEvent(restaurant, { type: 'RESERVATION_CREATED', reservations: [outcome.reservation] }, { webhooksQueued: true });
+  return outcome;
+}
+
+/**
+ * Moves a reservation to a new time, party size and tables - and guest
+ * name, when given - and reports it. The move is checked and written under
+ * the locks of its new tables like a new booking, with its
+ * reservation.modified webhooks. The reservation's own claim is left out of
+ * the checks.
+ */
+export async function moveReservation(
+  restaurant: SlotGridRestaurant,
+  reservation: Reservation,
+  changes: HeldTables & { startTime: Date; endTime: Date; partySize: number; guestName?: string },
+  options: { pacing?: boolean } = {}
+): Promise<BookingOutcome> {
+  const tableIds = heldTableIds(changes);
+  const fields = {
+    startTime: changes.startTime,
+    endTime: changes.endTime,
+    partySize: changes.partySize,
+    tableId: changes.tableId,
+    combinedTableIds: changes.combinedTableIds,
+    guestName: changes.guestName ?? reservation.guestName,
+  };
+  const deliveries = await reservationDeliveries(
+    restaurant.id,
+    'reservation.modified',
+    reservationModifiedEventData(reservation, { ...reservation, ...fields })
+  );
+
+  const outcome: BookingOutcome = await lockTables(tableIds, async () => {
+    const refusal = await checkBooking(restaurant, tableIds, changes.startTime, changes.endTime, changes.partySize, {
+      excludeReservationId: reservation.id,
+      pacing: options.pacing,
+    });
+    if (refusal) return refusal;
+
+    const [moved]: Reservation[] = await writeWithWebhookDeliveries(
+      db.update(restaurantReservations)
+        .set(fields)
+        .where(eq(restaurantReservations.id, reservation.id))
+        .returning(),
+      deliveries
+    );
+    return { reservation: moved };
+  });
+  if (!outcome.reservation) return outcome;
+
+  await publishReservationEvent(
+    restaurant,
+    { type: 'RESERVATION_MODIFIED', previous: reservation, current: outcome.reservation },
+    { webhooksQueued: true }
+  );
+  return outcome;
+}
+
+/**
+ * Deletes unverified reservations whose verification window has passed -
+ * UNVERIFIED_HOLD_MINUTES, or PENDING_DEPOSIT_HOLD_MINUTES while a deposit
+ * checkout is open - and reports them cancelled. Returns how many went.
+ */
+export async function expireUnverifiedReservations(now: Date = new Date()): Promise<number> {
+  const expired: Reservation[] = await db.delete(restaurantReservations)
+    .where(and(
+      eq(restaurantReservations.isVerified, false),
+      or(
+        lt(restaurantReservations.createdAt, subMinutes(now, PENDING_DEPOSIT_HOLD_MINUTES)),
+        and(
+          lt(restaurantReservations.createdAt, subMinutes(now, UNVERIFIED_HOLD_MINUTES)),
+          or(isNull(restaurantReservations.depositStatus), ne(restaurantReservations.depositStatus, 'pending'))
+        )
+      )
+    ))
+    .returning();
+  if (expired.length === 0) return 0;
+
+  const owners = await db.query.restaurants.findMany({
+    where: inArray(restaurants.id, [...new Set(expired.map(r => r.restaurantId))]),
+  });
+  for (const restaurant of owners) {
+    await publishReservationEvent(restaurant, {
+      type: 'RESERVATION_CANCELLED',
+      reservations: expired.filter(r => r.restaurantId === restaurant.id),
+    });
+  }
+  return expired.length;
+}
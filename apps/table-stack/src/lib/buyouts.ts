@@ -0,0 +1,157 @@
+import { db, privateEvents, restaurants, restaurantSections, restaurantTables, and, eq, gt } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import { NotifyService } from './notifications';
+import { findConflictingTableIds } from './availability';
+import { invalidateAvailability } from './availability-cache';
+import { lockTables } from './booking-holds';
+import {
+  eventTableIds,
+  PrivateEventInput,
+  sortDepositSchedule,
+  validatePrivateEvent,
+} from './private-events';
+
+type Restaurant = InferSelectModel<typeof restaurants>;
+export type PrivateEvent = InferSelectModel<typeof privateEvents>;
+
+export class PrivateEventError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrivateEventError';
+  }
+}
+
+/**
+ * Books a private event. Every table it buys out must be free for the whole
+ * window; reservations already holding them have to be moved or cancelled
+ * first. Throws PrivateEventError when the event is invalid or clashes.
+ */
+export async function createPrivateEvent(
+  restaurant: Restaurant,
+  input: PrivateEventInput,
+  createdBy: string,
+  now: Date = new Date()
+): Promise<PrivateEvent> {
+  const invalid = validatePrivateEvent(input, now);
+  if (invalid) throw new PrivateEventError(invalid);
+
+  const sectionId = input.scope === 'section' ? input.sectionId! : null;
+  if (sectionId) {
+    const section = await db.query.restaurantSections.findFirst({
+      where: and(eq(restaurantSections.id, sectionId), eq(restaurantSections.restaurantId, restaurant.id)),
+    });
+    if (!section) throw new PrivateEventError('Section not found');
+  }
+
+  const tables: { id: string; sectionId: string | null; tableNumber: string }[] = await db
+    .select({ id: restaurantTables.id, sectionId: restaurantTables.sectionId, tableNumber: restaurantTables.tableNumber })
+    .from(restaurantTables)
+    .where(eq(restaurantTables.restaurantId, restaurant.id));
+  const tableIds = eventTableIds({ scope: input.scope, sectionId }, tables);
+  if (tableIds.length === 0) throw new PrivateEventError('There are no tables to book for this event');
+
+  // Checked and written under the table locks, like any booking
+  const event: PrivateEvent = await lockTables(tableIds, async () => {
+    const conflicts = await findConflictingTableIds(restaurant.id, tableIds, input.startTime, input.endTime);
+    if (conflicts.length > 0) {
+      const booked = tables.filter(t => conflicts.includes(t.id)).map(t => t.tableNumber).join(', ');
+      throw new PrivateEventError(`Table ${booked} is already booked during the event`);
+    }
+
+    const [created] = await db.insert(privateEvents).values({
+      restaurantId: restaurant.id,
+      name: input.name.trim(),
+      scope: input.scope,
+      sectionId,
+      startTime: input.startTime,
+      endTime: input.endTime,
+      guestCount: input.guestCount,
+      minimumSpend: input.minimumSpend,
+      depositSchedule: sortDepositSchedule(input.depositSchedule).map(i => ({ ...i, paidAt: i.paidAt ?? null })),
+      contactName: input.contactName.trim(),
+      contactEmail: input.contactEmail.trim(),
+      contactPhone: input.contactPhone?.trim() || null,
+      notes: input.notes?.trim() || null,
+      createdBy,
+    }).returning();
+    return created;
+  });
+
+  await invalidateAvailability(restaurant, { type: 'PRIVATE_EVENT_BOOKED', events: [event] });
+  await NotifyService.broadcast(restaurant.id, 'PRIVATE_EVENT_UPDATED', { id: event.id, status: event.status });
+  return event;
+}
+
+/**
+ * Cancels an event and frees its tables. Returns null when the event is
+ * unknown or already cancelled.
+ */
+export async function cancelPrivateEvent(restaurant: Restaurant, eventId: string): Promise<PrivateEvent | null> {
+  const [cancelled]: PrivateEvent[] = await db.update(privateEvents)
+    .set({ status: 'cancelled', updatedAt: new Date() })
+    .where(and(
+      eq(privateEvents.id, eventId),
+      eq(privateEvents.restaurantId, restaurant.id),
+      eq(privateEvents.status, 'confirmed')
+    ))
+    .returning();
+  if (!cancelled) return null;
+
+  await invalidateAvailability(restaurant, { type: 'PRIVATE_EVENT_CANCELLED', events: [cancelled] });
+  await NotifyService.broadcast(restaurant.id, 'PRIVATE_EVENT_UPDATED', { id: cancelled.id, status: cancelled.status });
+  return cancelled;
+}
+
+/**
+ * Records a deposit instalment as paid, or clears a payment recorded by
+ * mistake. `instalment` indexes the schedule in due date order.
+ */
+export async function setDepositInstalmentPaid(
+  restaurantId: string,
+  eventId: string,
+  instalment: number,
+  paid: boolean
+): Promise<PrivateEvent> {
+  const event: PrivateEvent | undefined = await db.query.privateEvents.findFirst({
+    where: and(eq(privateEvents.id, eventId), eq(privateEvents.restaurantId, restaurantId)),
+  });
+  if (!event) throw new PrivateEventError('Event not found');
+
+  const schedule = event.depositSchedule || [];
+  if (!schedule[instalment]) throw new PrivateEventError('Deposit instalment not found');
+
+  const [updated] = await db.update(privateEvents)
+    .set({
+      depositSchedule: schedule.map((i, index) => (
+        index === instalment ? { ...i, paidAt: paid ? (i.paidAt || new Date().toISOString()) : null } : i
+      )),
+      updatedAt: new Date(),
+    })
+    .where(eq(privateEvents.id, eventId))
+    .returning();
+  return updated;
+}
+
+/**
+ * Events not yet over, soonest first, cancelled ones included.
+ */
+export async function listUpcomingPrivateEvents(restaurantId: string, now: Date = new Date()): Promise<PrivateEvent[]> {
+  return db.query.privateEvents.findMany({
+    where: and(eq(privateEvents.restaurantId, restaurantId), gt(privateEvents.endTime, now)),
+    orderBy: (event: any, { asc }: any) => [asc(event.startTime)],
+  });
+}
+
+/**
+ * Confirmed events still to come that buy out the section.
+ */
+export async function upcomingEventsForSection(restaurantId: string, sectionId: string, now: Date = new Date()): Promise<PrivateEvent[]> {
+  return db.query.privateEvents.findMany({
+    where: and(
+      eq(privateEvents.restaurantId, restaurantId),
+      eq(privateEvents.sectionId, sectionId),
+      eq(privateEvents.status, 'confirmed'),
+      gt(privateEvents.endTime, now)
+    ),
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * Claim Policy
+ *
+ * When a guest books a restaurant that is not on TableStack, a shadow listing
+ * is created and its email address is sent a claim link. Following the link
+ * while signed in with that address, verified, proves control of the
+ * listing: ownership moves to the user straight away and the listing becomes
+ * a normal managed restaurant. Bookings and waitlist entries are kept.
+ *
+ * Everything else is disputed and waits for a platform admin:
+ * - email_mismatch: the user's verified emails do not include the listing's
+ * - already_claimed: someone else has taken the listing over
+ * - competing_claim: another claim for the listing is already under review
+ *
+ * Platform admins are listed by Clerk user id in PLATFORM_ADMIN_USER_IDS.
+ *
+ * Pure helpers only; claims are stored and applied in ./claims.
+ */
+
+import { normalizeEmail } from './guest-profile';
+
+export const DISPUTE_REASONS = ['email_mismatch', 'already_claimed', 'competing_claim'] as const;
+export type DisputeReason = typeof DISPUTE_REASONS[number];
+
+export const DISPUTE_REASON_LABELS: Record<DisputeReason, string> = {
+  email_mismatch: 'Email does not match the listing',
+  already_claimed: 'Listing already claimed',
+  competing_claim: 'Another claim is under review',
+};
+
+export type ClaimStatus = 'pending' | 'approved' | 'rejected';
+
+const MIN_EVIDENCE_LENGTH = 20;
+const MAX_EVIDENCE_LENGTH = 2000;
+
+export interface ClaimableListing {
+  ownerId: string;
+  ownerEmail: string;
+  isClaimed: boolean | null;
+}
+
+export type ClaimAssessment =
+  | { outcome: 'owner' }
+  | { outcome: 'claim' }
+  | { outcome: 'review'; reason: DisputeReason };
+
+/**
+ * What happens when this user follows the listing's claim link.
+ */
+export function assessClaim(
+  listing: ClaimableListing,
+  claimant: { userId: string; verifiedEmails: string[] },
+  pendingClaims: number
+): ClaimAssessment {
+  if (listing.ownerId === claimant.userId) return { outcome: 'owner' };
+  if (listing.isClaimed) return { outcome: 'review', reason: 'already_claimed' };
+  if (pendingClaims > 0) return { outcome: 'review', reason: 'competing_claim' };
+
+  const listingEmail = normalizeEmail(listing.ownerEmail);
+  return claimant.verifiedEmails.some(email => normalizeEmail(email) === listingEmail)
+    ? { outcome: 'claim' }
+    : { outcome: 'review', reason: 'email_mismatch' };
+}
+
+export function isDisputeReason(value: unknown): value is DisputeReason {
+  return typeof value === 'string' && (DISPUTE_REASONS as readonly string[]).includes(value);
+}
+
+/**
+ * True when the user is listed in `adminIds`, a comma-separated list of Clerk
+ * user ids.
+ */
+export function isPlatformAdmin(userId: string | null | undefined, adminIds: string | undefined): boolean {
+  if (!userId || !adminIds) return false;
+  return adminIds.split(',').map(id => id.trim()).filter(Boolean).includes(userId);
+}
+
+/**
+ * Returns an error message when the explanation sent with a disputed claim
+ * is unusable, or null.
+ */
+export function validateClaimEvidence(evidence: string): string | null {
+  const text = evidence.trim();
+  if (text.length < MIN_EVIDENCE_LENGTH) {
+    return `Tell us how you are connected to the restaurant (at least ${MIN_EVIDENCE_LENGTH} characters)`;
+  }
+  if (text.length > MAX_EVIDENCE_LENGTH) return `Keep it under ${MAX_EVIDENCE_LENGTH} characters`;
+  return null;
+}
@@ -0,0 +1,183 @@
+import { db, restaurants, restaurantClaims, restaurantReservations, restaurantWaitlist, and, eq, gte, ne, sql } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import { NotifyService } from './notifications';
+import { DisputeReason } from './claim-policy';
+import { normalizeEmail } from './guest-profile';
+
+type Restaurant = InferSelectModel<typeof restaurants>;
+export type RestaurantClaim = InferSelectModel<typeof restaurantClaims>;
+
+export interface Claimant {
+  userId: string;
+  email: string;
+}
+
+export class DuplicateClaimError extends Error {
+  constructor() {
+    super('You already have a claim for this restaurant under review');
+    this.name = 'DuplicateClaimError';
+  }
+}
+
+export class ClaimNotPendingError extends Error {
+  constructor() {
+    super('This claim has already been reviewed');
+    this.name = 'ClaimNotPendingError';
+  }
+}
+
+/**
+ * The shadow listing a claim link points at, claimed or not.
+ */
+export async function findListingByClaimToken(token: string): Promise<Restaurant | null> {
+  const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(token);
+  if (!isUuid) return null;
+
+  const restaurant: Restaurant | undefined = await db.query.restaurants.findFirst({
+    where: eq(restaurants.claimToken, token),
+  });
+  return restaurant ?? null;
+}
+
+export async function getPendingClaims(restaurantId: string): Promise<RestaurantClaim[]> {
+  return db.query.restaurantClaims.findMany({
+    where: and(eq(restaurantClaims.restaurantId, restaurantId), eq(restaurantClaims.status, 'pending')),
+  });
+}
+
+/**
+ * Upcoming bookings and waiting parties that carry over to the new owner.
+ */
+export async function countCarriedOverBookings(restaurantId: string): Promise<{ reservations: number; waitlist: number }> {
+  const [[reservations], [waitlist]]: [{ count: number }[], { count: number }[]] = await Promise.all([
+    db.select({ count: sql<number>`count(*)::int` })
+      .from(restaurantReservations)
+      .where(and(
+        eq(restaurantReservations.restaurantId, restaurantId),
+        gte(restaurantReservations.startTime, new Date()),
+        ne(restaurantReservations.status, 'cancelled')
+      )),
+    db.select({ count: sql<number>`count(*)::int` })
+      .from(restaurantWaitlist)
+      .where(and(eq(restaurantWaitlist.restaurantId, restaurantId), ne(restaurantWaitlist.status, 'seated'))),
+  ]);
+  return { reservations: reservations.count, waitlist: waitlist.count };
+}
+
+/**
+ * Hands an unclaimed listing to the claimant and records the approved claim.
+ * Returns false when someone else claimed it first.
+ */
+export async function claimListing(restaurantId: string, claimant: Claimant): Promise<boolean> {
+  const [restaurant] = await db.update(restaurants)
+    .set(ownershipFor(claimant))
+    .where(and(eq(restaurants.id, restaurantId), eq(restaurants.isClaimed, false)))
+    .returning({ id: restaurants.id });
+  if (!restaurant) return false;
+
+  await db.insert(restaurantClaims).values({
+    restaurantId,
+    claimantId: claimant.userId,
+    claimantEmail: normalizeEmail(claimant.email),
+    status: 'approved',
+    reviewedAt: new Date(),
+  });
+  return true;
+}
+
+/**
+ * Queues a disputed claim for a platform admin.
+ */
+export async function submitClaimForReview(
+  restaurantId: string,
+  claimant: Claimant,
+  reason: DisputeReason,
+  evidence: string
+): Promise<RestaurantClaim> {
+  const pending = await getPendingClaims(restaurantId);
+  if (pending.some(claim => claim.claimantId === claimant.userId)) {
+    throw new DuplicateClaimError();
+  }
+
+  const [claim] = await db.insert(restaurantClaims).values({
+    restaurantId,
+    claimantId: claimant.userId,
+    claimantEmail: normalizeEmail(claimant.email),
+    status: 'pending',
+    reason,
+    evidence: evidence.trim(),
+  }).returning();
+  return claim;
+}
+
+/**
+ * The admin review queue, oldest first.
+ */
+export async function listClaimsForReview(): Promise<(RestaurantClaim & { restaurant: Restaurant })[]> {
+  return db.query.restaurantClaims.findMany({
+    where: eq(restaurantClaims.status, 'pending'),
+    with: { restaurant: true },
+    orderBy: (claim: any, { asc }: any) => [asc(claim.createdAt)],
+  });
+}
+
+/**
+ * Gives the restaurant to the claimant, replacing any current owner, and
+ * closes the other claims for it.
+ */
+export async function approveClaim(claimId: string, reviewerId: string, note: string | null): Promise<void> {
+  const claim = await reviewPendingClaim(claimId, 'approved', reviewerId, note);
+
+  const [restaurant]: Restaurant[] = await db.update(restaurants)
+    .set(ownershipFor({ userId: claim.claimantId, email: claim.claimantEmail }))
+    .where(eq(restaurants.id, claim.restaurantId))
+    .returning();
+
+  const competing: RestaurantClaim[] = await db.update(restaurantClaims)
+    .set({ status: 'rejected', reviewedBy: reviewerId, reviewNote: 'Another claim was approved', reviewedAt: new Date() })
+    .where(and(eq(restaurantClaims.restaurantId, claim.restaurantId), eq(restaurantClaims.status, 'pending')))
+    .returning();
+
+  await NotifyService.sendClaimDecision(claim.claimantEmail, restaurant.name, true, note);
+  for (const other of competing) {
+    await NotifyService.sendClaimDecision(other.claimantEmail, restaurant.name, false, null);
+  }
+}
+
+export async function rejectClaim(claimId: string, reviewerId: string, note: string | null): Promise<void> {
+  const claim = await reviewPendingClaim(claimId, 'rejected', reviewerId, note);
+
+  const restaurant = await db.query.restaurants.findFirst({
+    where: eq(restaurants.id, claim.restaurantId),
+  });
+  if (restaurant) {
+    await NotifyService.sendClaimDecision(claim.claimantEmail, restaurant.name, false, note);
+  }
+}
+
+function ownershipFor(claimant: Claimant) {
+  return {
+    ownerId: claimant.userId,
+    ownerEmail: normalizeEmail(claimant.email),
+    isShadow: false,
+    isClaimed: true,
+  };
+}
+
+/**
+ * Marks a pending claim reviewed. Guarded on status so two admins cannot
+ * decide the same claim.
+ */
+async function reviewPendingClaim(
+  claimId: string,
+  status: 'approved' | 'rejected',
+  reviewerId: string,
+  note: string | null
+): Promise<RestaurantClaim> {
+  const [claim] = await db.update(restaurantClaims)
+    .set({ status, reviewedBy: reviewerId, reviewNote: note?.trim() || null, reviewedAt: new Date() })
+    .where(and(eq(restaurantClaims.id, claimId), eq(restaurantClaims.status, 'pending')))
+    .returning();
+  if (!claim) throw new ClaimNotPendingError();
+  return claim;
+}
@@ -0,0 +1,151 @@
+import { db, restaurantReservations, and, eq, inArray, isNull, or } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import { addMinutes } from 'date-fns';
+import {
+  CancellationPolicy,
+  DEPOSIT_CHECKOUT_MINUTES,
+  DepositSettlement,
+  DepositStatus,
+  WebhookDepositUpdate,
+  settleCancellation,
+  settleNoShow,
+} from './deposits';
+import { cancelPaymentIntent, capturePaymentIntent, createDepositCheckout, refundPaymentIntent } from './stripe';
+
+type Reservation = InferSelectModel<typeof restaurantReservations>;
+
+const appUrl = () => process.env.NEXT_PUBLIC_APP_URL || 'https://table-stack.vercel.app';
+
+function depositStatusGuard(from: (DepositStatus | null)[]) {
+  const statuses = from.filter((s): s is DepositStatus => s !== null);
+  return or(
+    from.includes(null) ? isNull(restaurantReservations.depositStatus) : undefined,
+    statuses.length > 0 ? inArray(restaurantReservations.depositStatus, statuses) : undefined
+  );
+}
+
+/**
+ * Carries out a settlement against Stripe and records it. The Stripe call is
+ * keyed on the reservation and reason so a retry never moves money twice;
+ * the update is guarded on the status the settlement was computed from.
+ */
+async function applySettlement(
+  reservation: Reservation,
+  settlement: DepositSettlement,
+  reason: 'cancellation' | 'noshow'
+): Promise<Reservation | null> {
+  if (settlement.action === 'none') return null;
+
+  const paymentIntentId = reservation.stripePaymentIntentId;
+  if (!paymentIntentId) {
+    console.warn(`Reservation ${reservation.id} has a ${reservation.depositStatus} deposit but no PaymentIntent`);
+    return null;
+  }
+
+  const idempotencyKey = `deposit_${reason}_${reservation.id}`;
+  if (settlement.action === 'release') {
+    await cancelPaymentIntent(paymentIntentId, idempotencyKey);
+  } else if (settlement.action === 'capture') {
+    await capturePaymentIntent(paymentIntentId, settlement.amount, idempotencyKey);
+  } else {
+    await refundPaymentIntent(paymentIntentId, settlement.amount, idempotencyKey);
+  }
+
+  const [updated] = await db.update(restaurantReservations)
+    .set(settlement.update)
+    .where(and(
+      eq(restaurantReservations.id, reservation.id),
+      eq(restaurantReservations.depositStatus, reservation.depositStatus)
+    ))
+    .returning();
+
+  return updated ?? null;
+}
+
+/**
+ * Refunds, releases or partially captures the deposit of a cancelled
+ * reservation according to its restaurant's cancellation window.
+ */
+export async function settleCancelledReservationDeposit(
+  reservation: Reservation,
+  restaurant: { cancellationWindowHours?: number | null; lateCancellationRefundPercent?: number | null },
+  cancelledAt: Date = new Date()
+) {
+  if (!reservation.depositAmount || !reservation.depositStatus) return null;
+
+  const policy: CancellationPolicy = {
+    windowHours: restaurant.cancellationWindowHours ?? null,
+    lateRefundPercent: restaurant.lateCancellationRefundPercent ?? null,
+  };
+  const settlement = settleCancellation(
+    { amount: reservation.depositAmount, status: reservation.depositStatus as DepositStatus },
+    reservation.startTime,
+    cancelledAt,
+    policy
+  );
+
+  return applySettlement(reservation, settlement, 'cancellation');
+}
+
+/**
+ * Captures the held deposit of a reservation flagged as a no-show.
+ */
+export async function captureNoShowDeposit(reservation: Reservation) {
+  if (!reservation.depositAmount || !reservation.depositStatus) return null;
+
+  const settlement = settleNoShow({
+    amount: reservation.depositAmount,
+    status: reservation.depositStatus as DepositStatus,
+  });
+
+  return applySettlement(reservation, settlement, 'noshow');
+}
+
+/**
+ * Opens the Checkout page where the guest pays a pending deposit and returns
+ * its URL. A Stripe failure is logged and yields null: the reservation stays
+ * unverified and lapses like any other.
+ */
+export async function openDepositCheckout(
+  reservation: Reservation,
+  restaurant: { name: string }
+): Promise<string | null> {
+  if (!reservation.depositAmount || reservation.depositStatus !== 'pending') return null;
+
+  try {
+    const checkout = await createDepositCheckout({
+      reservationId: reservation.id,
+      amount: reservation.depositAmount,
+      description: `Deposit for ${restaurant.name}, party of ${reservation.partySize}`,
+      guestEmail: reservation.guestEmail,
+      returnUrl: `${appUrl()}/book/manage/${reservation.id}`,
+      expiresAt: addMinutes(new Date(), DEPOSIT_CHECKOUT_MINUTES),
+    });
+    return checkout.url;
+  } catch (error) {
+    console.error(`Failed to open deposit checkout for reservation ${reservation.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Records a deposit update reported by a Stripe webhook. Returns the updated
+ * reservation, or null when it is unknown or already past the update.
+ */
+export async function applyWebhookDepositUpdate(change: WebhookDepositUpdate): Promise<Reservation | null> {
+  const target = change.reservationId
+    ? eq(restaurantReservations.id, change.reservationId)
+    : eq(restaurantReservations.stripePaymentIntentId, change.paymentIntentId);
+
+  const [updated] = await db.update(restaurantReservations)
+    .set({
+      ...change.update,
+      stripePaymentIntentId: change.paymentIntentId,
+      // Status is left alone so a late payment never revives a cancelled reservation
+      ...(change.confirms ? { isVerified: true } : {}),
+    })
+    .where(and(target, depositStatusGuard(change.from)))
+    .returning();
+
+  return updated ?? null;
+}
@@ -0,0 +1,184 @@
+/**
+ * Deposit Lifecycle
+ *
+ * A reservation that needs a deposit starts 'pending'. Stripe then reports
+ * the PaymentIntent as authorised ('held', capture_method=manual) or charged
+ * ('paid'). From there:
+ * - A cancellation refunds the deposit in full when it is made at least the
+ *   restaurant's cancellation window ahead of the reservation, and the late
+ *   cancellation percentage otherwise. Held deposits are released or
+ *   partially captured; paid ones are refunded.
+ * - A no-show captures a held deposit in full.
+ *
+ * The guest pays through a Stripe Checkout page opened when the reservation
+ * is made; its PaymentIntent carries the reservation id in metadata.
+ *
+ * Pure helpers only; the Stripe calls and database updates live in
+ * ./deposit-settlement and the checkout webhook.
+ */
+
+import { differenceInMinutes } from 'date-fns';
+import type { StripeEvent } from './stripe';
+
+export type DepositStatus = 'pending' | 'held' | 'paid' | 'released' | 'refunded' | 'partially_refunded';
+
+export const DEFAULT_CANCELLATION_WINDOW_HOURS = 24;
+
+/** Deposit checkouts can be paid for this long (Stripe's shortest expiry) */
+export const DEPOSIT_CHECKOUT_MINUTES = 30;
+
+/**
+ * Unpaid reservations awaiting a deposit are kept this long, a little past
+ * their checkout, so a payment made at the last minute lands first.
+ */
+export const PENDING_DEPOSIT_HOLD_MINUTES = DEPOSIT_CHECKOUT_MINUTES + 5;
+
+export interface CancellationPolicy {
+  /** Cancellations at least this long before the reservation get a full refund */
+  windowHours: number | null;
+  /** Share of the deposit refunded for later cancellations, 0-100 */
+  lateRefundPercent: number | null;
+}
+
+export interface DepositState {
+  /** Deposit in cents */
+  amount: number;
+  status: DepositStatus | null;
+}
+
+export interface DepositUpdate {
+  depositStatus: DepositStatus;
+  refundedAmount?: number;
+}
+
+export type DepositSettlement =
+  | { action: 'none' }
+  | { action: 'release'; update: DepositUpdate }
+  | { action: 'capture'; amount: number; update: DepositUpdate }
+  | { action: 'refund'; amount: number; update: DepositUpdate };
+
+/**
+ * Cents returned to a guest who cancels at `cancelledAt`.
+ */
+export function refundForCancellation(
+  amount: number,
+  startTime: Date,
+  cancelledAt: Date,
+  policy: CancellationPolicy
+): number {
+  if (amount <= 0) return 0;
+
+  const windowHours = policy.windowHours ?? DEFAULT_CANCELLATION_WINDOW_HOURS;
+  if (differenceInMinutes(startTime, cancelledAt) >= windowHours * 60) return amount;
+
+  const percent = Math.min(100, Math.max(0, policy.lateRefundPercent ?? 0));
+  return Math.floor((amount * percent) / 100);
+}
+
+/**
+ * What to do with a deposit when its reservation is cancelled. Deposits that
+ * were never paid, or were already settled, are left alone.
+ */
+export function settleCancellation(
+  deposit: DepositState,
+  startTime: Date,
+  cancelledAt: Date,
+  policy: CancellationPolicy
+): DepositSettlement {
+  const refund = refundForCancellation(deposit.amount, startTime, cancelledAt, policy);
+
+  if (deposit.status === 'held') {
+    if (refund >= deposit.amount) {
+      return { action: 'release', update: { depositStatus: 'released', refundedAmount: deposit.amount } };
+    }
+    return {
+      action: 'capture',
+      amount: deposit.amount - refund,
+      update: { depositStatus: refund > 0 ? 'partially_refunded' : 'paid', refundedAmount: refund },
+    };
+  }
+
+  if (deposit.status === 'paid' && refund > 0) {
+    return {
+      action: 'refund',
+      amount: refund,
+      update: { depositStatus: refund >= deposit.amount ? 'refunded' : 'partially_refunded', refundedAmount: refund },
+    };
+  }
+
+  return { action: 'none' };
+}
+
+/**
+ * What to do with a deposit when its guest does not show up. Paid deposits
+ * are simply kept.
+ */
+export function settleNoShow(deposit: DepositState): DepositSettlement {
+  if (deposit.status !== 'held' || deposit.amount <= 0) return { action: 'none' };
+  return { action: 'capture', amount: deposit.amount, update: { depositStatus: 'paid', refundedAmount: 0 } };
+}
+
+export interface WebhookDepositUpdate {
+  /** Set for PaymentIntent events, which carry the reservation in metadata */
+  reservationId: string | null;
+  paymentIntentId: string;
+  update: DepositUpdate;
+  /** Statuses the reservation may be in for the update to apply */
+  from: (DepositStatus | null)[];
+  /** Whether the reservation becomes verified and confirmed */
+  confirms: boolean;
+}
+
+/**
+ * Maps a Stripe event to the deposit update it implies, or null for events
+ * the lifecycle ignores. The `from` guard makes out-of-order and repeated
+ * deliveries harmless.
+ */
+export function depositUpdateForEvent(event: StripeEvent): WebhookDepositUpdate | null {
+  const object = event.data?.object;
+  if (!object) return null;
+
+  switch (event.type) {
+    case 'payment_intent.amount_capturable_updated':
+      return {
+        reservationId: object.metadata?.reservationId ?? null,
+        paymentIntentId: object.id,
+        update: { depositStatus: 'held' },
+        from: [null, 'pending'],
+        confirms: true,
+      };
+    case 'payment_intent.succeeded':
+      return {
+        reservationId: object.metadata?.reservationId ?? null,
+        paymentIntentId: object.id,
+        update: { depositStatus: 'paid' },
+        from: [null, 'pending', 'held'],
+        confirms: true,
+      };
+    case 'payment_intent.canceled':
+      return {
+        reservationId: object.metadata?.reservationId ?? null,
+        paymentIntentId: object.id,
+        update: { depositStatus: 'released' },
+        from: [null, 'pending', 'held'],
+        confirms: false,
+      };
+    case 'charge.refunded': {
+      if (!object.payment_intent) return null;
+      const refunded: number = object.amount_refunded ?? 0;
+      const captured: number = object.amount_captured ?? object.amount ?? 0;
+      return {
+        reservationId: null,
+        paymentIntentId: object.payment_intent,
+        update: {
+          depositStatus: refunded >= captured ? 'refunded' : 'partially_refunded',
+          refundedAmount: refunded,
+        },
+        from: ['paid', 'partially_refunded', 'refunded'],
+        confirms: false,
+      };
+    }
+    default:
+      return null;
+  }
+}
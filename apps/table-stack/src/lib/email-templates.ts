@@ -0,0 +1,388 @@
+/**
+ * Guest Email Templates
+ *
+ * Every email a guest receives about a reservation is rendered here from one
+ * layout: the request to verify a new booking, confirmation, reminder,
+ * modification, cancellation and the post-visit thank-you. Copy is kept per locale (en, es, fr, de) and the
+ * restaurant picks its language with `emailLocale`. Dates and times are
+ * written in that language and in the restaurant's timezone.
+ *
+ * Restaurants can brand their emails with `emailBranding`: a logo, an accent
+ * colour for the header and button, the sender name, a reply-to address and
+ * a footer line. Anything missing or unusable falls back to the TableStack
+ * defaults, so a bad value never breaks an email.
+ *
+ * Reminders go out 24 hours and 2 hours before the reservation. Each reminder
+ * message carries the start time it was scheduled for; when it arrives it is
+ * only sent if the reservation is still confirmed for that time.
+ *
+ * Pure helpers only; sending and scheduling live in ./reservation-emails.
+ */
+
+export const EMAIL_TEMPLATES = ['verification', 'confirmation', 'reminder', 'modification', 'cancellation', 'thank_you'] as const;
+export type EmailTemplate = typeof EMAIL_TEMPLATES[number];
+
+export const EMAIL_LOCALES = ['en', 'es', 'fr', 'de'] as const;
+export type EmailLocale = typeof EMAIL_LOCALES[number];
+
+export const EMAIL_LOCALE_LABELS: Record<EmailLocale, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+};
+
+export const REMINDER_LEAD_HOURS = [24, 2] as const;
+
+export const SENDER_ADDRESS = 'notifications@tablestack.io';
+const DEFAULT_ACCENT = '#2563eb';
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const EMAIL_ADDRESS = /^[^\s@<>"]+@[^\s@<>"]+\.[^\s@<>"]+$/;
+const MAX_SENDER_NAME_LENGTH = 60;
+const MAX_FOOTER_LENGTH = 500;
+
+export interface EmailBranding {
+  logoUrl?: string;
+  accentColor?: string;
+  senderName?: string;
+  replyTo?: string;
+  footer?: string;
+}
+
+export interface EmailContext {
+  restaurant: {
+    name: string;
+    timezone: string | null;
+    emailLocale: string | null;
+    emailBranding: EmailBranding | null;
+  };
+  reservation: {
+    guestName: string;
+    partySize: number;
+    startTime: Date;
+  };
+  /** Button target: the manage page, the verify link, or the booking page for thank-you emails */
+  actionUrl?: string;
+}
+
+export interface RenderedEmail {
+  from: string;
+  replyTo?: string;
+  subject: string;
+  html: string;
+}
+
+interface TemplateCopy {
+  subject: string;
+  heading: string;
+  body: string;
+  action?: string;
+}
+
+interface LocaleCopy {
+  date: string;
+  time: string;
+  partySize: string;
+  templates: Record<EmailTemplate, TemplateCopy>;
+}
+
+// {restaurant} and {guest} are substituted after escaping
+const COPY: Record<EmailLocale, LocaleCopy> = {
+  en: {
+    date: 'Date',
+    time: 'Time',
+    partySize: 'Party size',
+    templates: {
+      verification: {
+        subject: 'Confirm your reservation at {restaurant}',
+        heading: 'Hello {guest}',
+        body: 'Please confirm your reservation at {restaurant}. Unconfirmed bookings are released after 15 minutes.',
+        action: 'Confirm reservation',
+      },
+      confirmation: {
+        subject: 'Your reservation at {restaurant} is confirmed',
+        heading: 'See you soon, {guest}',
+        body: 'Your table at {restaurant} is booked.',
+        action: 'Manage reservation',
+      },
+      reminder: {
+        subject: 'Reminder: your reservation at {restaurant}',
+        heading: 'Hi {guest}',
+        body: 'This is a reminder of your upcoming reservation at {restaurant}.',
+        action: 'Manage reservation',
+      },
+      modification: {
+        subject: 'Your reservation at {restaurant} has changed',
+        heading: 'Hi {guest}',
+        body: 'Your reservation at {restaurant} has been updated. Here are the new details.',
+        action: 'Manage reservation',
+      },
+      cancellation: {
+        subject: 'Your reservation at {restaurant} has been cancelled',
+        heading: 'Hi {guest}',
+        body: 'Your reservation at {restaurant} has been cancelled. We hope to see you another time.',
+      },
+      thank_you: {
+        subject: 'Thank you for visiting {restaurant}',
+        heading: 'Hi {guest}',
+        body: 'Thank you for dining with us at {restaurant}! We hope to see you again soon.',
+        action: 'Book again',
+      },
+    },
+  },
+  es: {
+    date: 'Fecha',
+    time: 'Hora',
+    partySize: 'Personas',
+    templates: {
+      verification: {
+        subject: 'Confirma tu reserva en {restaurant}',
+        heading: 'Hola, {guest}',
+        body: 'Confirma tu reserva en {restaurant}. Las reservas sin confirmar se liberan a los 15 minutos.',
+        action: 'Confirmar reserva',
+      },
+      confirmation: {
+        subject: 'Tu reserva en {restaurant} está confirmada',
+        heading: 'Hasta pronto, {guest}',
+        body: 'Tu mesa en {restaurant} está reservada.',
+        action: 'Gestionar reserva',
+      },
+      reminder: {
+        subject: 'Recordatorio: tu reserva en {restaurant}',
+        heading: 'Hola, {guest}',
+        body: 'Te recordamos tu próxima reserva en {restaurant}.',
+        action: 'Gestionar reserva',
+      },
+      modification: {
+        subject: 'Tu reserva en {restaurant} ha cambiado',
+        heading: 'Hola, {guest}',
+        body: 'Tu reserva en {restaurant} se ha actualizado. Estos son los nuevos detalles.',
+        action: 'Gestionar reserva',
+      },
+      cancellation: {
+        subject: 'Tu reserva en {restaurant} ha sido cancelada',
+        heading: 'Hola, {guest}',
+        body: 'Tu reserva en {restaurant} ha sido cancelada. Esperamos verte en otra ocasión.',
+      },
+      thank_you: {
+        subject: 'Gracias por visitar {restaurant}',
+        heading: 'Hola, {guest}',
+        body: '¡Gracias por comer con nosotros en {restaurant}! Esperamos verte pronto.',
+        action: 'Reservar de nuevo',
+      },
+    },
+  },
+  fr: {
+    date: 'Date',
+    time: 'Heure',
+    partySize: 'Personnes',
+    templates: {
+      verification: {
+        subject: 'Confirmez votre réservation chez {restaurant}',
+        heading: 'Bonjour {guest}',
+        body: 'Merci de confirmer votre réservation chez {restaurant}. Les réservations non confirmées sont libérées au bout de 15 minutes.',
+        action: 'Confirmer la réservation',
+      },
+      confirmation: {
+        subject: 'Votre réservation chez {restaurant} est confirmée',
+        heading: 'À bientôt, {guest}',
+        body: 'Votre table chez {restaurant} est réservée.',
+        action: 'Gérer la réservation',
+      },
+      reminder: {
+        subject: 'Rappel : votre réservation chez {restaurant}',
+        heading: 'Bonjour {guest}',
+        body: 'Petit rappel de votre prochaine réservation chez {restaurant}.',
+        action: 'Gérer la réservation',
+      },
+      modification: {
+        subject: 'Votre réservation chez {restaurant} a été modifiée',
+        heading: 'Bonjour {guest}',
+        body: 'Votre réservation chez {restaurant} a été mise à jour. Voici les nouveaux détails.',
+        action: 'Gérer la réservation',
+      },
+      cancellation: {
+        subject: 'Votre réservation chez {restaurant} a été annulée',
+        heading: 'Bonjour {guest}',
+        body: 'Votre réservation chez {restaurant} a été annulée. Nous espérons vous accueillir une autre fois.',
+      },
+      thank_you: {
+        subject: 'Merci de votre visite chez {restaurant}',
+        heading: 'Bonjour {guest}',
+        body: 'Merci d’avoir dîné chez {restaurant} ! Au plaisir de vous revoir bientôt.',
+        action: 'Réserver à nouveau',
+      },
+    },
+  },
+  de: {
+    date: 'Datum',
+    time: 'Uhrzeit',
+    partySize: 'Personen',
+    templates: {
+      verification: {
+        subject: 'Bestätigen Sie Ihre Reservierung bei {restaurant}',
+        heading: 'Hallo {guest}',
+        body: 'Bitte bestätigen Sie Ihre Reservierung bei {restaurant}. Unbestätigte Reservierungen werden nach 15 Minuten freigegeben.',
+        action: 'Reservierung bestätigen',
+      },
+      confirmation: {
+        subject: 'Ihre Reservierung bei {restaurant} ist bestätigt',
+        heading: 'Bis bald, {guest}',
+        body: 'Ihr Tisch bei {restaurant} ist reserviert.',
+        action: 'Reservierung verwalten',
+      },
+      reminder: {
+        subject: 'Erinnerung: Ihre Reservierung bei {restaurant}',
+        heading: 'Hallo {guest}',
+        body: 'Wir möchten Sie an Ihre bevorstehende Reservierung bei {restaurant} erinnern.',
+        action: 'Reservierung verwalten',
+      },
+      modification: {
+        subject: 'Ihre Reservierung bei {restaurant} wurde geändert',
+        heading: 'Hallo {guest}',
+        body: 'Ihre Reservierung bei {restaurant} wurde aktualisiert. Hier sind die neuen Details.',
+        action: 'Reservierung verwalten',
+      },
+      cancellation: {
+        subject: 'Ihre Reservierung bei {restaurant} wurde storniert',
+        heading: 'Hallo {guest}',
+        body: 'Ihre Reservierung bei {restaurant} wurde storniert. Wir hoffen, Sie ein anderes Mal begrüßen zu dürfen.',
+      },
+      thank_you: {
+        subject: 'Danke für Ihren Besuch bei {restaurant}',
+        heading: 'Hallo {guest}',
+        body: 'Vielen Dank für Ihren Besuch bei {restaurant}! Wir freuen uns auf Ihr nächstes Mal.',
+        action: 'Erneut reservieren',
+      },
+    },
+  },
+};
+
+export function isEmailLocale(value: unknown): value is EmailLocale {
+  return typeof value === 'string' && (EMAIL_LOCALES as readonly string[]).includes(value);
+}
+
+export function resolveLocale(value: string | null | undefined): EmailLocale {
+  return isEmailLocale(value) ? value : 'en';
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Returns an error message when the branding cannot be used, or null.
+ */
+export function validateBranding(branding: EmailBranding): string | null {
+  if (branding.logoUrl && !isHttpsUrl(branding.logoUrl)) return 'Logo must be an HTTPS image URL';
+  if (branding.accentColor && !HEX_COLOR.test(branding.accentColor)) return 'Accent colour must look like #2563eb';
+  if (branding.replyTo && !EMAIL_ADDRESS.test(branding.replyTo)) return 'Reply-to must be an email address';
+  if (branding.senderName && branding.senderName.length > MAX_SENDER_NAME_LENGTH) {
+    return `Sender name must be at most ${MAX_SENDER_NAME_LENGTH} characters`;
+  }
+  if (branding.footer && branding.footer.length > MAX_FOOTER_LENGTH) {
+    return `Footer must be at most ${MAX_FOOTER_LENGTH} characters`;
+  }
+  return null;
+}
+
+export function renderEmail(template: EmailTemplate, context: EmailContext): RenderedEmail {
+  const { restaurant, reservation } = context;
+  const locale = resolveLocale(restaurant.emailLocale);
+  const copy = COPY[locale];
+  const text = copy.templates[template];
+  const branding = restaurant.emailBranding ?? {};
+  const accent = branding.accentColor && HEX_COLOR.test(branding.accentColor) ? branding.accentColor : DEFAULT_ACCENT;
+
+  const fill = (value: string, escape: boolean) => {
+    const restaurantName = escape ? escapeHtml(restaurant.name) : restaurant.name;
+    const guestName = escape ? escapeHtml(reservation.guestName) : reservation.guestName;
+    return value.replace(/\{restaurant\}/g, restaurantName).replace(/\{guest\}/g, guestName);
+  };
+
+  const when = formatReservationTime(reservation.startTime, restaurant.timezone || 'UTC', locale);
+  const details = template === 'thank_you' ? '' : `
+      <table role="presentation" style="margin:16px 0;border-collapse:collapse">
+        <tr><td style="padding:4px 16px 4px 0;color:#6b7280">${copy.date}</td><td style="padding:4px 0">${escapeHtml(when.date)}</td></tr>
+        <tr><td style="padding:4px 16px 4px 0;color:#6b7280">${copy.time}</td><td style="padding:4px 0">${escapeHtml(when.time)}</td></tr>
+        <tr><td style="padding:4px 16px 4px 0;color:#6b7280">${copy.partySize}</td><td style="padding:4px 0">${reservation.partySize}</td></tr>
+      </table>`;
+  const button = text.action && context.actionUrl ? `
+      <p style="margin:24px 0"><a href="${escapeHtml(context.actionUrl)}" style="background:${accent};color:#ffffff;padding:12px 20px;border-radius:8px;text-decoration:none;display:inline-block">${text.action}</a></p>` : '';
+  const logo = branding.logoUrl && isHttpsUrl(branding.logoUrl)
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(restaurant.name)}" style="max-height:48px;display:block">`
+    : `<strong style="color:#ffffff;font-size:20px">${escapeHtml(restaurant.name)}</strong>`;
+  const footer = branding.footer ? `<p style="color:#6b7280;font-size:12px;margin-top:32px">${escapeHtml(branding.footer)}</p>` : '';
+
+  const html = `
+<div lang="${locale}" style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;max-width:560px;margin:0 auto;color:#111827">
+  <div style="background:${accent};padding:20px 24px;border-radius:12px 12px 0 0">${logo}</div>
+  <div style="padding:24px;border:1px solid #e5e7eb;border-top:none;border-radius:0 0 12px 12px">
+      <h1 style="font-size:22px;margin:0 0 12px">${fill(text.heading, true)}</h1>
+      <p style="margin:0">${fill(text.body, true)}</p>${details}${button}
+      ${footer}
+  </div>
+</div>`;
+
+  return {
+    from: `${senderName(branding.senderName || restaurant.name)} <${SENDER_ADDRESS}>`,
+    replyTo: branding.replyTo && EMAIL_ADDRESS.test(branding.replyTo) ? branding.replyTo : undefined,
+    subject: fill(text.subject, false),
+    html,
+  };
+}
+
+/**
+ * Date and time of the reservation as guests of this locale write them, in
+ * the restaurant's timezone.
+ */
+export function formatReservationTime(startTime: Date, timezone: string, locale: EmailLocale): { date: string; time: string } {
+  return {
+    date: new Intl.DateTimeFormat(locale, { timeZone: timezone, weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' }).format(startTime),
+    time: new Intl.DateTimeFormat(locale, { timeZone: timezone, hour: 'numeric', minute: '2-digit' }).format(startTime),
+  };
+}
+
+/**
+ * When each reminder should go out. Reminders whose time has already passed
+ * are left out, so a booking made 3 hours ahead only gets the 2 hour one.
+ */
+export function reminderSchedule(startTime: Date, now: Date = new Date()): { leadHours: number; sendAt: Date }[] {
+  return REMINDER_LEAD_HOURS
+    .map(leadHours => ({ leadHours, sendAt: new Date(startTime.getTime() - leadHours * 60 * 60_000) }))
+    .filter(reminder => reminder.sendAt > now);
+}
+
+/**
+ * True when a reminder scheduled for `scheduledStartTime` still describes the
+ * reservation: it has not been cancelled, seated or moved since.
+ */
+export function isReminderCurrent(
+  scheduledStartTime: string,
+  reservation: { status: string | null; seatedAt: Date | null; startTime: Date },
+  now: Date = new Date()
+): boolean {
+  if (reservation.status !== 'confirmed' || reservation.seatedAt) return false;
+  if (reservation.startTime <= now) return false;
+  return new Date(scheduledStartTime).getTime() === reservation.startTime.getTime();
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Display names go into the From header; quotes, angle brackets and line
+// breaks would let them spoof the address
+function senderName(name: string): string {
+  const clean = name.replace(/["<>\r\n\\]/g, '').trim().slice(0, MAX_SENDER_NAME_LENGTH);
+  return `"${clean || 'TableStack'}"`;
+}
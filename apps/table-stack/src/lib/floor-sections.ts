@@ -0,0 +1,92 @@
+/**
+ * Floor Sections
+ *
+ * Tables can belong to a named section (patio, bar, private room). Sections
+ * that share a room are drawn on the same floor plan canvas; a section
+ * without a room is a room of its own.
+ *
+ * Hosts can close a section for a shift. A closed section's tables are left
+ * out of availability until it is re-enabled or its `disabledUntil` passes.
+ *
+ * Guests and agents can ask for a section by name ("patio") or by room; the
+ * match is case-insensitive. Section ids are accepted too.
+ *
+ * Pure helpers only; loading sections lives in ./availability.
+ */
+
+export interface FloorSection {
+  id: string;
+  name: string;
+  room: string | null;
+  isEnabled: boolean;
+  disabledUntil: Date | null;
+}
+
+export interface SectionedTable {
+  sectionId?: string | null;
+}
+
+/** Room shown for tables that are not in any section */
+export const DEFAULT_ROOM = 'Main';
+
+/**
+ * The floor plan canvas a section is drawn on.
+ */
+export function roomOf(section: Pick<FloorSection, 'name' | 'room'> | null | undefined): string {
+  if (!section) return DEFAULT_ROOM;
+  return section.room?.trim() || section.name;
+}
+
+/**
+ * True when the section takes bookings at `at`.
+ */
+export function isSectionOpenAt(section: Pick<FloorSection, 'isEnabled' | 'disabledUntil'>, at: Date): boolean {
+  if (section.isEnabled) return true;
+  return section.disabledUntil !== null && at >= section.disabledUntil;
+}
+
+/**
+ * True when a guest's section request ("patio", "Main Room", an id) refers
+ * to this section.
+ */
+export function matchesSection(section: FloorSection, query: string): boolean {
+  const wanted = query.trim().toLowerCase();
+  if (!wanted) return true;
+  return (
+    section.id === query.trim() ||
+    section.name.toLowerCase() === wanted ||
+    (section.room?.toLowerCase() ?? '') === wanted
+  );
+}
+
+/**
+ * Tables bookable at `at`: tables in closed sections are dropped, and when a
+ * section is requested only its tables are kept. Tables outside any section
+ * are only kept when no section is requested.
+ */
+export function tablesOpenAt<T extends SectionedTable>(
+  tables: T[],
+  sections: FloorSection[],
+  at: Date,
+  section?: string | null
+): T[] {
+  const byId = new Map(sections.map(s => [s.id, s]));
+
+  return tables.filter(table => {
+    const tableSection = table.sectionId ? byId.get(table.sectionId) : undefined;
+    if (tableSection && !isSectionOpenAt(tableSection, at)) return false;
+    if (!section?.trim()) return true;
+    return tableSection !== undefined && matchesSection(tableSection, section);
+  });
+}
+
+/**
+ * Validates a section name and room; returns an error message or null.
+ */
+export function validateSection(input: { name: string; room?: string | null }): string | null {
+  const name = input.name.trim();
+  if (!name) return 'Section name is required';
+  if (name.length > 50) return 'Section name must be 50 characters or fewer';
+  if (input.room && input.room.trim().length > 50) return 'Room name must be 50 characters or fewer';
+  return null;
+}
@@ -0,0 +1,220 @@
+/**
+ * Guest Profiles
+ *
+ * A profile keeps what a restaurant knows about a guest: visit and no-show
+ * history, free-text host notes, and structured notes stored as short label
+ * lists (allergies, dietary needs, seating preferences and tags such as VIP).
+ * A visit is a seated reservation.
+ *
+ * Profiles are keyed by email, but emails typed with different casing create
+ * separate profiles. Such duplicates are grouped by normalised email and
+ * merged into the profile with the most history.
+ *
+ * Pure helpers only; reading, updating and merging profiles lives in ./guests.
+ */
+
+import { reliabilityScore } from './reliability';
+
+export const NOTE_LIST_FIELDS = ['allergies', 'dietaryRestrictions', 'seatingPreferences', 'tags'] as const;
+
+export type NoteListField = typeof NOTE_LIST_FIELDS[number];
+
+export type GuestNotes = Record<NoteListField, string[]>;
+
+/** Labels allowed per list */
+export const MAX_NOTE_ITEMS = 20;
+
+/** Characters allowed per label */
+export const MAX_NOTE_LENGTH = 60;
+
+/** Tags offered in the dashboard; any other label is accepted too */
+export const SUGGESTED_TAGS = ['VIP', 'Regular', 'Industry', 'Press', 'Birthday', 'Anniversary'];
+
+export interface MergeableProfile {
+  id: string;
+  email: string;
+  name: string;
+  defaultDeliveryAddress: string | null;
+  visitCount: number | null;
+  seatedCount: number | null;
+  noShowCount: number | null;
+  preferences: string | null;
+  allergies: string[] | null;
+  dietaryRestrictions: string[] | null;
+  seatingPreferences: string[] | null;
+  tags: string[] | null;
+  lastVisitAt: Date | null;
+  createdAt: Date | null;
+}
+
+export interface MergedProfileFields extends GuestNotes {
+  email: string;
+  name: string;
+  defaultDeliveryAddress: string | null;
+  visitCount: number;
+  seatedCount: number;
+  noShowCount: number;
+  reliabilityScore: number;
+  preferences: string | null;
+  lastVisitAt: Date | null;
+}
+
+export interface TimelineReservation {
+  id: string;
+  startTime: Date;
+  partySize: number;
+  status: string;
+  seatedAt: Date | null;
+  tableNumber: string | null;
+}
+
+export interface TimelineOrder {
+  id: string;
+  createdAt: Date | null;
+  status: string;
+  total: number;
+  itemCount: number;
+}
+
+export type TimelineEntry =
+  | { kind: 'reservation'; id: string; at: Date; status: string; partySize: number; tableNumber: string | null }
+  | { kind: 'order'; id: string; at: Date; status: string; total: number; itemCount: number };
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Trims labels and drops blanks and case-insensitive repeats, keeping the
+ * first spelling.
+ */
+export function normalizeNoteList(values: readonly string[] | null | undefined): string[] {
+  const seen = new Set<string>();
+  const labels: string[] = [];
+  for (const value of values || []) {
+    const label = value.trim().replace(/\s+/g, ' ');
+    const key = label.toLowerCase();
+    if (!label || seen.has(key)) continue;
+    seen.add(key);
+    labels.push(label);
+  }
+  return labels;
+}
+
+/** Splits a comma or newline separated form field into labels */
+export function parseNoteList(input: string): string[] {
+  return normalizeNoteList(input.split(/[,\n]/));
+}
+
+/**
+ * Returns an error message for notes that are too long, or null.
+ */
+export function validateGuestNotes(notes: Partial<GuestNotes>): string | null {
+  for (const field of NOTE_LIST_FIELDS) {
+    const labels = notes[field];
+    if (!labels) continue;
+    if (labels.length > MAX_NOTE_ITEMS) {
+      return `At most ${MAX_NOTE_ITEMS} ${noteListLabel(field).toLowerCase()} can be stored`;
+    }
+    const tooLong = labels.find(label => label.length > MAX_NOTE_LENGTH);
+    if (tooLong) {
+      return `"${tooLong.slice(0, 20)}…" is longer than ${MAX_NOTE_LENGTH} characters`;
+    }
+  }
+  return null;
+}
+
+export function noteListLabel(field: NoteListField): string {
+  switch (field) {
+    case 'allergies': return 'Allergies';
+    case 'dietaryRestrictions': return 'Dietary needs';
+    case 'seatingPreferences': return 'Seating preferences';
+    case 'tags': return 'Tags';
+  }
+}
+
+/**
+ * Groups profiles whose emails match once normalised. Only groups with more
+ * than one profile are returned.
+ */
+export function findDuplicateGroups<T extends { email: string }>(profiles: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const profile of profiles) {
+    const key = normalizeEmail(profile.email);
+    groups.set(key, [...(groups.get(key) || []), profile]);
+  }
+  return [...groups.values()].filter(group => group.length > 1);
+}
+
+/**
+ * The profile a merge keeps: the one with the most visits, then the oldest.
+ */
+export function choosePrimaryProfile<T extends MergeableProfile>(profiles: T[]): T {
+  if (profiles.length === 0) throw new Error('No profiles to merge');
+  return [...profiles].sort((a, b) =>
+    (b.visitCount || 0) - (a.visitCount || 0) ||
+    (a.createdAt?.getTime() ?? Infinity) - (b.createdAt?.getTime() ?? Infinity)
+  )[0];
+}
+
+/**
+ * Fields of the surviving profile after merging duplicates into primary.
+ * Histories are summed, note lists combined and host notes appended; the
+ * primary's name and delivery address win when set.
+ */
+export function mergeProfileFields(primary: MergeableProfile, duplicates: MergeableProfile[]): MergedProfileFields {
+  const all = [primary, ...duplicates];
+  const sum = (field: 'visitCount' | 'seatedCount' | 'noShowCount') =>
+    all.reduce((total, p) => total + (p[field] || 0), 0);
+
+  const seatedCount = sum('seatedCount');
+  const noShowCount = sum('noShowCount');
+  const lastVisits = all.map(p => p.lastVisitAt?.getTime()).filter((t): t is number => t !== undefined);
+  const notes = [...new Set(all.map(p => p.preferences?.trim()).filter((n): n is string => !!n))];
+
+  const lists = {} as GuestNotes;
+  for (const field of NOTE_LIST_FIELDS) {
+    lists[field] = normalizeNoteList(all.flatMap(p => p[field] || []));
+  }
+
+  return {
+    email: normalizeEmail(primary.email),
+    name: primary.name,
+    defaultDeliveryAddress: primary.defaultDeliveryAddress || duplicates.find(p => p.defaultDeliveryAddress)?.defaultDeliveryAddress || null,
+    visitCount: sum('visitCount'),
+    seatedCount,
+    noShowCount,
+    reliabilityScore: reliabilityScore({ seatedCount, noShowCount }),
+    preferences: notes.length > 0 ? notes.join('\n\n') : null,
+    lastVisitAt: lastVisits.length > 0 ? new Date(Math.max(...lastVisits)) : null,
+    ...lists,
+  };
+}
+
+/**
+ * Reservations and delivery orders as one timeline, newest first. Seated
+ * reservations are reported as 'seated' rather than 'confirmed'.
+ */
+export function buildVisitTimeline(reservations: TimelineReservation[], orders: TimelineOrder[]): TimelineEntry[] {
+  const entries: TimelineEntry[] = [
+    ...reservations.map(r => ({
+      kind: 'reservation' as const,
+      id: r.id,
+      at: r.startTime,
+      status: r.status === 'confirmed' && r.seatedAt ? 'seated' : r.status,
+      partySize: r.partySize,
+      tableNumber: r.tableNumber,
+    })),
+    ...orders
+      .filter(o => o.createdAt)
+      .map(o => ({
+        kind: 'order' as const,
+        id: o.id,
+        at: o.createdAt!,
+        status: o.status,
+        total: o.total,
+        itemCount: o.itemCount,
+      })),
+  ];
+  return entries.sort((a, b) => b.at.getTime() - a.at.getTime());
+}
@@ -0,0 +1,179 @@
+import { db, guestProfiles, orderItems, orders, restaurantReservations, restaurantTables, users, and, desc, eq, inArray, sql } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import {
+  buildVisitTimeline,
+  choosePrimaryProfile,
+  GuestNotes,
+  mergeProfileFields,
+  normalizeEmail,
+  normalizeNoteList,
+  NOTE_LIST_FIELDS,
+  TimelineEntry,
+  TimelineOrder,
+  validateGuestNotes,
+} from './guest-profile';
+
+/** Reservations and orders shown on a guest's timeline */
+const TIMELINE_LIMIT = 50;
+
+export type GuestProfile = InferSelectModel<typeof guestProfiles>;
+
+export interface GuestDetails {
+  profile: GuestProfile;
+  /** Other profiles for the same email, candidates for merging */
+  duplicates: GuestProfile[];
+  timeline: TimelineEntry[];
+}
+
+function emailMatches(column: any, email: string) {
+  return sql`lower(${column}) = ${normalizeEmail(email)}`;
+}
+
+async function findProfilesByEmail(restaurantId: string, email: string): Promise<GuestProfile[]> {
+  return db.query.guestProfiles.findMany({
+    where: and(eq(guestProfiles.restaurantId, restaurantId), emailMatches(guestProfiles.email, email)),
+  });
+}
+
+/**
+ * The guest's profile, matching the email regardless of case. When duplicates
+ * exist the one with the most history is returned.
+ */
+export async function findGuestProfile(restaurantId: string, email: string): Promise<GuestProfile | null> {
+  const profiles = await findProfilesByEmail(restaurantId, email);
+  return profiles.length > 0 ? choosePrimaryProfile(profiles) : null;
+}
+
+/**
+ * Profile, duplicates and visit timeline for the guest behind an email.
+ * The timeline covers reservations at the restaurant and delivery orders from
+ * it placed by a user with the same email. Returns null without a profile.
+ */
+export async function getGuestDetails(restaurantId: string, email: string): Promise<GuestDetails | null> {
+  const profiles = await findProfilesByEmail(restaurantId, email);
+  if (profiles.length === 0) return null;
+  const profile = choosePrimaryProfile(profiles);
+
+  const [reservations, tables, guestOrders]: [
+    InferSelectModel<typeof restaurantReservations>[],
+    InferSelectModel<typeof restaurantTables>[],
+    TimelineOrder[],
+  ] = await Promise.all([
+    db.query.restaurantReservations.findMany({
+      where: and(
+        eq(restaurantReservations.restaurantId, restaurantId),
+        eq(restaurantReservations.isVerified, true),
+        emailMatches(restaurantReservations.guestEmail, email)
+      ),
+      orderBy: (r: any, { desc }: any) => [desc(r.startTime)],
+      limit: TIMELINE_LIMIT,
+    }),
+    db.query.restaurantTables.findMany({
+      where: eq(restaurantTables.restaurantId, restaurantId),
+    }),
+    db
+      .select({
+        id: orders.id,
+        createdAt: orders.createdAt,
+        status: orders.status,
+        total: orders.total,
+        itemCount: sql<number>`(select coalesce(sum(${orderItems.quantity}), 0) from ${orderItems} where ${orderItems.orderId} = ${orders.id})`.mapWith(Number),
+      })
+      .from(orders)
+      .innerJoin(users, eq(users.id, orders.userId))
+      .where(and(eq(orders.storeId, restaurantId), emailMatches(users.email, email)))
+      .orderBy(desc(orders.createdAt))
+      .limit(TIMELINE_LIMIT),
+  ]);
+
+  const numbers = new Map(tables.map(t => [t.id, t.tableNumber]));
+  const timeline = buildVisitTimeline(
+    reservations.map(r => {
+      const tableIds = r.combinedTableIds?.length ? r.combinedTableIds : r.tableId ? [r.tableId] : [];
+      return {
+        id: r.id,
+        startTime: r.startTime,
+        partySize: r.partySize,
+        status: r.status || 'confirmed',
+        seatedAt: r.seatedAt,
+        tableNumber: tableIds.map(id => numbers.get(id)).filter(Boolean).join('+') || null,
+      };
+    }),
+    guestOrders
+  ).slice(0, TIMELINE_LIMIT);
+
+  return {
+    profile,
+    duplicates: profiles.filter(p => p.id !== profile.id),
+    timeline,
+  };
+}
+
+/**
+ * Replaces a guest's structured notes and, when given, the free-text host
+ * notes. Labels are trimmed and de-duplicated. Returns null if the profile
+ * does not belong to the restaurant.
+ */
+export async function updateGuestNotes(
+  profileId: string,
+  restaurantId: string,
+  input: Partial<GuestNotes> & { preferences?: string | null }
+): Promise<GuestProfile | null> {
+  const notes: Partial<GuestNotes> = {};
+  for (const field of NOTE_LIST_FIELDS) {
+    if (input[field] !== undefined) notes[field] = normalizeNoteList(input[field]);
+  }
+
+  const error = validateGuestNotes(notes);
+  if (error) throw new Error(error);
+
+  const [profile] = await db.update(guestProfiles)
+    .set({
+      ...notes,
+      ...(input.preferences !== undefined ? { preferences: input.preferences?.trim() || null } : {}),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(guestProfiles.id, profileId), eq(guestProfiles.restaurantId, restaurantId)))
+    .returning();
+
+  return profile || null;
+}
+
+/**
+ * Merges profiles whose emails differ only in case into the one with the
+ * most history and deletes the others, both in one batch. The survivor's
+ * email is stored in lower case. Returns the merged profile.
+ */
+export async function mergeGuestProfiles(restaurantId: string, profileIds: string[]): Promise<GuestProfile> {
+  const ids = [...new Set(profileIds)];
+  if (ids.length < 2) {
+    throw new Error('Select at least two profiles to merge');
+  }
+
+  const profiles: GuestProfile[] = await db.query.guestProfiles.findMany({
+    where: and(eq(guestProfiles.restaurantId, restaurantId), inArray(guestProfiles.id, ids)),
+  });
+  if (profiles.length !== ids.length) {
+    throw new Error('Guest profile not found');
+  }
+  if (new Set(profiles.map(p => normalizeEmail(p.email))).size > 1) {
+    throw new Error('Only profiles with the same email can be merged');
+  }
+
+  const primary = choosePrimaryProfile(profiles);
+  const duplicates = profiles.filter(p => p.id !== primary.id);
+  const fields = mergeProfileFields(primary, duplicates);
+
+  // One batch so a failed update cannot leave the duplicates deleted and
+  // their history lost. Duplicates go first: one of them may already hold
+  // the lower-case email
+  const [, [merged]]: [unknown, GuestProfile[]] = await db.batch([
+    db.delete(guestProfiles).where(inArray(guestProfiles.id, duplicates.map(p => p.id))),
+    db.update(guestProfiles)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(eq(guestProfiles.id, primary.id))
+      .returning(),
+  ]);
+
+  return merged;
+}
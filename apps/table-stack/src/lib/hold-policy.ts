@@ -0,0 +1,133 @@
+/**
+ * Booking Holds
+ *
+ * A hold sets specific tables aside for one slot for a few minutes, between
+ * a guest or agent seeing the slot free and booking it. Live holds count as
+ * occupied wherever bookings do; the holder books the held tables by
+ * presenting the hold's token.
+ *
+ * Checking that tables are free and writing the booking are separate
+ * statements (the Neon HTTP driver has no interactive transactions), so two
+ * callers could both see a table free and both book it. Every write that
+ * claims tables - holds and bookings alike - therefore checks and writes
+ * under a short lock on each table it claims. Two claims on the same table
+ * share that table's lock whether it is booked alone or inside a
+ * combination, so only one of them can be between its check and its write.
+ * Locks are taken all-or-nothing, which leaves no lock order to get wrong; a
+ * caller that cannot get them retries briefly and then gives up.
+ *
+ * Pure helpers only; the Redis lock store and the booking_holds table live
+ * in ./booking-holds.
+ */
+
+export const DEFAULT_HOLD_MINUTES = 5;
+export const MAX_HOLD_MINUTES = 15;
+
+/** Outlasts any check-and-write, and frees the tables if a caller dies */
+export const TABLE_LOCK_TTL_MS = 10_000;
+const TABLE_LOCK_ATTEMPTS = 5;
+const TABLE_LOCK_RETRY_MS = 100;
+
+export interface TableLockStore {
+  /** Takes every key for `owner`, or none of them when any is taken */
+  acquire(keys: string[], owner: string, ttlMs: number): Promise<boolean>;
+  /** Frees whichever of the keys `owner` still holds */
+  release(keys: string[], owner: string): Promise<void>;
+}
+
+export class TablesBusyError extends Error {
+  constructor() {
+    super('Someone else is booking these tables right now. Please try again.');
+    this.name = 'TablesBusyError';
+  }
+}
+
+export interface HeldTables {
+  tableId: string | null;
+  combinedTableIds: string[] | null;
+}
+
+export interface HoldState extends HeldTables {
+  restaurantId: string;
+  partySize: number;
+  startTime: Date;
+  status: string;
+  expiresAt: Date;
+}
+
+export interface HeldBooking {
+  restaurantId: string;
+  startTime: Date;
+  partySize: number;
+  /** Tables the booking names, if any */
+  tableIds?: string[];
+}
+
+/** Every table a hold or booking occupies */
+export function heldTableIds(tables: HeldTables): string[] {
+  if (tables.combinedTableIds?.length) return tables.combinedTableIds;
+  return tables.tableId ? [tables.tableId] : [];
+}
+
+export function tableLockKeys(tableIds: string[]): string[] {
+  return Array.from(new Set(tableIds)).sort().map(id => `table-lock:${id}`);
+}
+
+export function validateHoldMinutes(minutes: number): string | null {
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_HOLD_MINUTES) {
+    return `Holds last between 1 and ${MAX_HOLD_MINUTES} minutes`;
+  }
+  return null;
+}
+
+export function isHoldLive(hold: Pick<HoldState, 'status' | 'expiresAt'>, now: Date): boolean {
+  return hold.status === 'held' && hold.expiresAt > now;
+}
+
+/**
+ * Why a hold cannot be used for a booking, or null when it can. The booking
+ * must be at the held restaurant and time, for no more guests than were held
+ * for, and on the held tables if it names any.
+ */
+export function holdMismatch(hold: HoldState, booking: HeldBooking, now: Date): string | null {
+  if (!isHoldLive(hold, now)) return 'This hold has expired. Please check availability again.';
+  if (hold.restaurantId !== booking.restaurantId) return 'This hold is for a different restaurant';
+  if (hold.startTime.getTime() !== booking.startTime.getTime()) return 'This hold is for a different time';
+  if (booking.partySize > hold.partySize) return `This hold is for at most ${hold.partySize} guests`;
+
+  if (booking.tableIds?.length) {
+    const held = heldTableIds(hold);
+    const sameTables = booking.tableIds.length === held.length && booking.tableIds.every(id => held.includes(id));
+    if (!sameTables) return 'This hold is for different tables';
+  }
+  return null;
+}
+
+/**
+ * Runs `critical` while holding the lock on every table in `tableIds`.
+ * Throws TablesBusyError when another caller keeps any of them locked.
+ */
+export async function withTableLocks<T>(
+  store: TableLockStore,
+  tableIds: string[],
+  critical: () => Promise<T>,
+  options: { attempts?: number; retryMs?: number } = {}
+): Promise<T> {
+  const keys = tableLockKeys(tableIds);
+  if (keys.length === 0) return critical();
+
+  const owner = crypto.randomUUID();
+  const attempts = options.attempts ?? TABLE_LOCK_ATTEMPTS;
+  const retryMs = options.retryMs ?? TABLE_LOCK_RETRY_MS;
+
+  for (let attempt = 1; !(await store.acquire(keys, owner, TABLE_LOCK_TTL_MS)); attempt++) {
+    if (attempt >= attempts) throw new TablesBusyError();
+    await new Promise(resolve => setTimeout(resolve, retryMs * attempt));
+  }
+
+  try {
+    return await critical();
+  } finally {
+    await store.release(keys, owner);
+  }
+}
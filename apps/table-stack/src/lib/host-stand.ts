@@ -0,0 +1,125 @@
+/**
+ * Host Stand
+ *
+ * Walk-ins and arrivals for the host stand view.
+ *
+ * A walk-in is seated onto one vacant table or a combination of vacant
+ * tables and recorded as a reservation starting at the moment it is seated,
+ * lasting the restaurant's turn time for the party. A name and email are
+ * optional; a walk-in given an email is tied to that guest's profile, one
+ * without is recorded under a generic name.
+ *
+ * Arrivals are the confirmed reservations the host is still expecting: not
+ * yet seated, not yet over, and starting within the arrivals window. Parties
+ * past their start time are shown as late until their reservation ends or the
+ * no-show check flags them.
+ *
+ * Pure helpers only; seating walk-ins lives in ./walk-ins.
+ */
+
+import { MAX_COMBINED_TABLES } from './table-combinations';
+import { currentStatus, TABLE_STATUS_LABELS } from './table-lifecycle';
+
+/** Name recorded for walk-ins who do not give one */
+export const WALK_IN_GUEST_NAME = 'Walk-in';
+
+/** How far ahead the host stand lists arrivals */
+export const ARRIVALS_WINDOW_MINUTES = 120;
+
+export const MAX_WALK_IN_PARTY_SIZE = 50;
+
+const MAX_GUEST_NAME_LENGTH = 100;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const MINUTE = 60_000;
+
+export interface WalkInInput {
+  partySize: number;
+  tableIds: string[];
+  guestName?: string | null;
+  guestEmail?: string | null;
+}
+
+export interface WalkInTable {
+  id: string;
+  tableNumber: string;
+  maxCapacity: number;
+  status: string | null;
+}
+
+export interface ArrivalReservation {
+  id: string;
+  status: string | null;
+  isVerified: boolean | null;
+  seatedAt: Date | null;
+  startTime: Date;
+  endTime: Date;
+}
+
+export type Arrival<T extends ArrivalReservation> = T & {
+  /** Minutes until the party is due; negative once they are late */
+  minutesUntil: number;
+  isLate: boolean;
+};
+
+export function validateWalkIn(input: WalkInInput): string | null {
+  if (!Number.isInteger(input.partySize) || input.partySize < 1 || input.partySize > MAX_WALK_IN_PARTY_SIZE) {
+    return `Party size must be between 1 and ${MAX_WALK_IN_PARTY_SIZE}`;
+  }
+  if (input.tableIds.length === 0) return 'Choose a table for the party';
+  if (new Set(input.tableIds).size !== input.tableIds.length) return 'A table was chosen twice';
+  if (input.tableIds.length > MAX_COMBINED_TABLES) {
+    return `At most ${MAX_COMBINED_TABLES} tables can be combined`;
+  }
+  if ((input.guestName?.trim().length ?? 0) > MAX_GUEST_NAME_LENGTH) {
+    return `Guest name must be at most ${MAX_GUEST_NAME_LENGTH} characters`;
+  }
+  const email = input.guestEmail?.trim();
+  if (email && !EMAIL_PATTERN.test(email)) return 'Guest email is not a valid email address';
+  return null;
+}
+
+/** The name and email a walk-in is recorded under */
+export function walkInGuest(input: Pick<WalkInInput, 'guestName' | 'guestEmail'>): { guestName: string; guestEmail: string } {
+  return {
+    guestName: input.guestName?.trim() || WALK_IN_GUEST_NAME,
+    guestEmail: input.guestEmail?.trim().toLowerCase() || '',
+  };
+}
+
+/**
+ * Why a walk-in cannot sit at these tables right now, or null when it can.
+ * Every table must be vacant; a single table must also be big enough, while
+ * combinations are checked like any other combination.
+ */
+export function walkInTableError(tables: WalkInTable[], partySize: number): string | null {
+  const busy = tables.find(table => currentStatus(table.status) !== 'vacant');
+  if (busy) {
+    return `Table ${busy.tableNumber} is ${TABLE_STATUS_LABELS[currentStatus(busy.status)].toLowerCase()}`;
+  }
+  if (tables.length === 1 && tables[0].maxCapacity < partySize) {
+    return `Table ${tables[0].tableNumber} seats at most ${tables[0].maxCapacity}`;
+  }
+  return null;
+}
+
+/**
+ * Reservations the host is still expecting, soonest first: confirmed and
+ * verified, not seated, not over, and starting within `windowMinutes`.
+ */
+export function upcomingArrivals<T extends ArrivalReservation>(
+  reservations: T[],
+  now: Date,
+  windowMinutes: number = ARRIVALS_WINDOW_MINUTES
+): Arrival<T>[] {
+  const horizon = now.getTime() + windowMinutes * MINUTE;
+  return reservations
+    .filter(r => r.status === 'confirmed' && r.isVerified && !r.seatedAt)
+    .filter(r => r.endTime.getTime() > now.getTime() && r.startTime.getTime() <= horizon)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+    .map(r => {
+      const minutesUntil = Math.ceil((r.startTime.getTime() - now.getTime()) / MINUTE);
+      return { ...r, minutesUntil, isLate: minutesUntil < 0 };
+    });
+}
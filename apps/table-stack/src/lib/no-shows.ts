@@ -0,0 +1,187 @@
+import { db, guestProfiles, restaurants, restaurantReservations, and, eq, gte, isNotNull, isNull, lte, or, sql } from "@repo/database";
+import { addMinutes, subHours } from 'date-fns';
+import { NotifyService } from './notifications';
+import { captureNoShowDeposit } from './deposit-settlement';
+import { publishReservationEvent } from './reservation-events';
+import { DepositPolicy, reliabilityScore, requiredDeposit } from './reliability';
+import { findGuestProfile } from './guests';
+import { normalizeEmail } from './guest-profile';
+
+/** Reservations that started longer ago than this are never flagged */
+const NO_SHOW_LOOKBACK_HOURS = 12;
+
+/** A party may be seated this long before its reservation starts */
+const EARLY_SEATING_MINUTES = 30;
+
+/**
+ * Adds a seating or a no-show to a guest's history and recomputes their
+ * reliability score. A seating also counts as a visit. Guests without a
+ * profile get one, unless they are walk-ins who left no email.
+ */
+async function recordGuestOutcome(
+  restaurantId: string,
+  guest: { guestEmail: string; guestName: string },
+  outcome: 'seated' | 'noshow'
+) {
+  if (!guest.guestEmail) return;
+
+  const now = new Date();
+  const seated = outcome === 'seated' ? 1 : 0;
+  const noShows = outcome === 'noshow' ? 1 : 0;
+  const profile = await findGuestProfile(restaurantId, guest.guestEmail);
+
+  if (!profile) {
+    await db.insert(guestProfiles).values({
+      restaurantId,
+      email: normalizeEmail(guest.guestEmail),
+      name: guest.guestName,
+      visitCount: seated,
+      seatedCount: seated,
+      noShowCount: noShows,
+      reliabilityScore: reliabilityScore({ seatedCount: seated, noShowCount: noShows }),
+      lastVisitAt: seated ? now : null,
+    }).onConflictDoNothing();
+    return;
+  }
+
+  const seatedCount = (profile.seatedCount || 0) + seated;
+  const noShowCount = (profile.noShowCount || 0) + noShows;
+
+  await db.update(guestProfiles)
+    .set({
+      seatedCount,
+      noShowCount,
+      reliabilityScore: reliabilityScore({ seatedCount, noShowCount }),
+      ...(seated ? { visitCount: (profile.visitCount || 0) + 1, lastVisitAt: now } : {}),
+      updatedAt: now,
+    })
+    .where(eq(guestProfiles.id, profile.id));
+}
+
+/**
+ * Marks a confirmed reservation as seated. Returns the reservation, or null
+ * if it was already seated or is not confirmed.
+ */
+export async function markReservationSeated(reservationId: string, restaurantId: string) {
+  const [reservation] = await db.update(restaurantReservations)
+    .set({ seatedAt: new Date() })
+    .where(and(
+      eq(restaurantReservations.id, reservationId),
+      eq(restaurantReservations.restaurantId, restaurantId),
+      eq(restaurantReservations.status, 'confirmed'),
+      isNull(restaurantReservations.seatedAt)
+    ))
+    .returning();
+  if (!reservation) return null;
+
+  await recordGuestOutcome(restaurantId, reservation, 'seated');
+  await NotifyService.broadcast(restaurantId, 'reservation.seated', {
+    id: reservation.id,
+    tableId: reservation.tableId,
+    seatedAt: reservation.seatedAt,
+  });
+
+  return reservation;
+}
+
+/**
+ * Seats the reservation currently holding a table, if any. Called when a
+ * host marks the table occupied.
+ */
+export async function seatReservationAtTable(restaurantId: string, tableId: string) {
+  const now = new Date();
+  const reservation = await db.query.restaurantReservations.findFirst({
+    where: and(
+      eq(restaurantReservations.restaurantId, restaurantId),
+      eq(restaurantReservations.status, 'confirmed'),
+      eq(restaurantReservations.isVerified, true),
+      isNull(restaurantReservations.seatedAt),
+      or(
+        eq(restaurantReservations.tableId, tableId),
+        sql`${restaurantReservations.combinedTableIds} @> ${JSON.stringify([tableId])}::jsonb`
+      ),
+      lte(restaurantReservations.startTime, addMinutes(now, EARLY_SEATING_MINUTES)),
+      gte(restaurantReservations.endTime, now)
+    ),
+    orderBy: (res: any, { asc }: any) => [asc(res.startTime)],
+  });
+  if (!reservation) return null;
+
+  return markReservationSeated(reservation.id, restaurantId);
+}
+
+/**
+ * Flags confirmed reservations that were never seated within their
+ * restaurant's grace period as no-shows and updates each guest's
+ * reliability. Restaurants without a grace period are skipped. Returns the
+ * number of reservations flagged.
+ */
+export async function detectNoShows(): Promise<number> {
+  const candidates = await db
+    .select({
+      id: restaurantReservations.id,
+      restaurantId: restaurantReservations.restaurantId,
+      timezone: restaurants.timezone,
+    })
+    .from(restaurantReservations)
+    .innerJoin(restaurants, eq(restaurants.id, restaurantReservations.restaurantId))
+    .where(
+      and(
+        eq(restaurantReservations.status, 'confirmed'),
+        eq(restaurantReservations.isVerified, true),
+        isNull(restaurantReservations.seatedAt),
+        isNotNull(restaurants.noShowGraceMinutes),
+        gte(restaurantReservations.startTime, subHours(new Date(), NO_SHOW_LOOKBACK_HOURS)),
+        sql`${restaurantReservations.startTime} + make_interval(mins => ${restaurants.noShowGraceMinutes}) < now()`
+      )
+    );
+
+  let flagged = 0;
+  for (const { id, restaurantId, timezone } of candidates) {
+    // Guarded so a seating recorded since the query above wins
+    const [reservation] = await db.update(restaurantReservations)
+      .set({ status: 'noshow' })
+      .where(and(
+        eq(restaurantReservations.id, id),
+        eq(restaurantReservations.status, 'confirmed'),
+        isNull(restaurantReservations.seatedAt)
+      ))
+      .returning();
+    if (!reservation) continue;
+
+    flagged++;
+    await recordGuestOutcome(restaurantId, reservation, 'noshow');
+    await publishReservationEvent({ id: restaurantId, timezone }, { type: 'RESERVATION_NO_SHOW', reservations: [reservation] });
+    if (reservation.depositStatus === 'held') {
+      try {
+        await captureNoShowDeposit(reservation);
+      } catch (error) {
+        console.error(`Failed to capture no-show deposit for ${reservation.id}:`, error);
+      }
+    }
+    await NotifyService.broadcast(restaurantId, 'reservation.noshow', {
+      id: reservation.id,
+      guestName: reservation.guestName,
+      startTime: reservation.startTime,
+    });
+  }
+
+  return flagged;
+}
+
+/**
+ * Deposit in cents the restaurant's policy requires from a guest, or 0.
+ */
+export async function getRequiredDeposit(
+  restaurant: { id: string; depositNoShowThreshold?: number | null; noShowDepositAmount?: number | null },
+  guestEmail: string
+): Promise<number> {
+  const policy: DepositPolicy = {
+    noShowThreshold: restaurant.depositNoShowThreshold ?? null,
+    amount: restaurant.noShowDepositAmount ?? null,
+  };
+  if (!policy.noShowThreshold) return 0;
+
+  const profile = await findGuestProfile(restaurant.id, guestEmail);
+  return requiredDeposit(policy, profile);
+}
@@ -1,4 +1,5 @@
 import { resend } from './resend';
+import { escapeHtml } from './email-templates';
 import { getAblyClient } from '@repo/shared';
 import { withNervousSystemTracing, injectTracingHeaders } from '@repo/shared/tracing';
 
@@ -6,6 +7,8 @@ export interface NotifyOptions {
   to: string;
   subject: string;
   html: string;
+  from?: string;
+  replyTo?: string;
 }
 
 export class NotifyService {
@@ -70,18 +73,19 @@ export class NotifyService {
     }
   }
 
-  static async sendNotification({ to, subject, html }: NotifyOptions) {
+  static async sendNotification({ to, subject, html, from, replyTo }: NotifyOptions) {
     // Email is always sent
     await resend.emails.send({
-      from: 'TableStack <notifications@tablestack.io>',
+      from: from ?? 'TableStack <notifications@tablestack.io>',
       to,
       subject,
       html,
+      replyTo,
     }).catch(err => console.error('Email notification failed:', err));
   }
 
   static async sendClaimInvitation(ownerEmail: string, restaurantName: string, claimToken: string) {
-    const claimUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'https://table-stack.vercel.app'}/onboarding?token=${claimToken}`;
+    const claimUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'https://table-stack.vercel.app'}/claim/${claimToken}`;
     await this.sendNotification({
       to: ownerEmail,
       subject: `Claim your restaurant: ${restaurantName} on TableStack`,
@@ -96,6 +100,46 @@ export class NotifyService {
     });
   }
 
+  static async sendClaimDecision(email: string, restaurantName: string, approved: boolean, note: string | null) {
+    const dashboardUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'https://table-stack.vercel.app'}/dashboard`;
+    // Restaurant names and admin notes are free text
+    const name = escapeHtml(restaurantName);
+    const noteHtml = note ? `<p>${escapeHtml(note)}</p>` : '';
+    await this.sendNotification({
+      to: email,
+      subject: approved
+        ? `Your claim for ${restaurantName} was approved`
+        : `Your claim for ${restaurantName} was not approved`,
+      html: approved
+        ? `
+        <h1>Welcome to TableStack</h1>
+        <p>You now manage <strong>${name}</strong>. Its existing bookings are waiting for you in the dashboard.</p>
+        ${noteHtml}
+        <p><a href="${dashboardUrl}">Open Dashboard</a></p>
+      `
+        : `
+        <h1>Claim not approved</h1>
+        <p>We could not confirm that you manage <strong>${name}</strong>.</p>
+        ${noteHtml}
+        <p>If you think this is a mistake, reply to this email.</p>
+      `,
+    });
+  }
+
+  static async sendStaffInvitation(email: string, placeName: string, roleLabel: string) {
+    const signInUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'https://table-stack.vercel.app'}/dashboard`;
+    await this.sendNotification({
+      to: email,
+      subject: `You've been invited to ${placeName} on TableStack`,
+      html: `
+        <h1>You're invited</h1>
+        <p>You've been added to <strong>${placeName}</strong> as <strong>${roleLabel}</strong>.</p>
+        <p>Sign in with this email address to get started:</p>
+        <p><a href="${signInUrl}">Open TableStack</a></p>
+      `,
+    });
+  }
+
   static async notifyOwner(ownerEmail: string, reservation: { guestName: string; partySize: number; startTime: Date }, isShadow = false) {
     const subject = isShadow 
       ? `Booking Request: ${reservation.partySize} guests - TableStack`
@@ -124,13 +168,14 @@ export class NotifyService {
     });
   }
 
-  static async notifyGuestNext(guestEmail: string, guestName: string) {
+  static async notifyGuestNext(guestEmail: string, guestName: string, responseMinutes?: number) {
     await this.sendNotification({
       to: guestEmail,
       subject: "You are next! - TableStack",
       html: `
         <h1>Hi ${guestName},</h1>
         <p>Your table is almost ready! Please head to the host stand.</p>
+        ${responseMinutes ? `<p>We'll hold your table for ${responseMinutes} minutes before offering it to the next party.</p>` : ''}
         <p>See you soon!</p>
       `,
     });
@@ -0,0 +1,263 @@
+/**
+ * Operations Report
+ *
+ * Reporting for a date range in the restaurant's timezone:
+ * - covers per service period, from honoured reservations (confirmed and
+ *   already started; no-shows and cancellations are counted separately)
+ * - average turn time by party size, from seating (or the booked start) to
+ *   the booked end
+ * - measured turns from table status history: seated until the party left,
+ *   and the time spent in each status along the way
+ * - no-show and cancellation rates over all verified reservations
+ * - table utilisation: time each table was occupied as a share of the hours
+ *   the restaurant was in service
+ * - delivery order volume and revenue
+ *
+ * Every figure can be compared with the preceding range of the same length.
+ *
+ * Pure helpers only; loading the data lives in ./analytics.
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+import { ServiceSchedule, servicePeriodAt, servicePeriodsForDate } from './service-schedule';
+import { StatusChange, summarizeTableTurns, TableTurnSummary } from './table-lifecycle';
+
+const MINUTE = 60_000;
+
+/** Longest range the dashboard will report on */
+export const MAX_REPORT_DAYS = 366;
+
+/** Party size buckets turn times are grouped into */
+export const PARTY_SIZE_BUCKETS = [
+  { label: '1-2', min: 1, max: 2 },
+  { label: '3-4', min: 3, max: 4 },
+  { label: '5-6', min: 5, max: 6 },
+  { label: '7+', min: 7, max: Infinity },
+];
+
+/** Label for covers booked outside any service period */
+export const OUTSIDE_SERVICE = 'Outside service';
+
+/** Inclusive local dates, 'yyyy-MM-dd' */
+export interface ReportRange {
+  from: string;
+  to: string;
+}
+
+export interface ReportReservation {
+  startTime: Date;
+  endTime: Date;
+  partySize: number;
+  status: string;
+  seatedAt: Date | null;
+  tableId: string | null;
+  combinedTableIds: string[] | null;
+}
+
+export interface ReportOrder {
+  createdAt: Date | null;
+  status: string;
+  total: number;
+}
+
+export interface ServiceCovers {
+  service: string;
+  reservations: number;
+  covers: number;
+}
+
+export interface TurnTime {
+  partySize: string;
+  reservations: number;
+  averageMinutes: number;
+}
+
+export interface OperationsReport {
+  range: ReportRange;
+  reservations: number;
+  covers: number;
+  coversByService: ServiceCovers[];
+  turnTimes: TurnTime[];
+  measuredTurns: TableTurnSummary;
+  /** Shares of all verified reservations, 0-1 */
+  noShowRate: number;
+  cancellationRate: number;
+  /** Share of service time each table was occupied, 0-1, by table id */
+  tableUtilisation: Record<string, number>;
+  /** Across all tables */
+  averageUtilisation: number;
+  delivery: {
+    orders: number;
+    cancelled: number;
+    revenue: number;
+    averageOrderValue: number;
+    /** Orders (excluding cancelled) per local date, one entry per day */
+    byDay: { date: string; orders: number }[];
+  };
+}
+
+export interface ReportInput {
+  range: ReportRange;
+  timezone: string;
+  schedule: ServiceSchedule;
+  /** Verified reservations starting within the range */
+  reservations: ReportReservation[];
+  tableIds: string[];
+  /** Orders created within the range */
+  orders: ReportOrder[];
+  /** Table status changes within the range */
+  statusChanges?: StatusChange[];
+  now?: Date;
+}
+
+/**
+ * Returns an error message for an unusable range, or null.
+ */
+export function validateReportRange(range: ReportRange): string | null {
+  const pattern = /^\d{4}-\d{2}-\d{2}$/;
+  if (!pattern.test(range.from) || !pattern.test(range.to)) return 'Dates must be yyyy-MM-dd';
+  const days = rangeLength(range);
+  if (days < 1) return 'The end date must not be before the start date';
+  if (days > MAX_REPORT_DAYS) return `Ranges are limited to ${MAX_REPORT_DAYS} days`;
+  return null;
+}
+
+/** Days in the range, counting both ends */
+export function rangeLength(range: ReportRange): number {
+  return differenceInCalendarDays(parseISO(range.to), parseISO(range.from)) + 1;
+}
+
+/** The range of the same length ending the day before this one starts */
+export function previousRange(range: ReportRange): ReportRange {
+  const from = parseISO(range.from);
+  return {
+    from: format(addDays(from, -rangeLength(range)), 'yyyy-MM-dd'),
+    to: format(addDays(from, -1), 'yyyy-MM-dd'),
+  };
+}
+
+/** The last `days` days up to and including `today` */
+export function trailingRange(today: string, days: number): ReportRange {
+  return { from: format(addDays(parseISO(today), 1 - days), 'yyyy-MM-dd'), to: today };
+}
+
+/** UTC instants bounding the range: start of `from` to the end of `to` */
+export function rangeBounds(range: ReportRange, timezone: string): { start: Date; end: Date } {
+  return {
+    start: fromZonedTime(`${range.from}T00:00:00`, timezone),
+    end: fromZonedTime(`${format(addDays(parseISO(range.to), 1), 'yyyy-MM-dd')}T00:00:00`, timezone),
+  };
+}
+
+function datesIn(range: ReportRange): string[] {
+  const from = parseISO(range.from);
+  return Array.from({ length: rangeLength(range) }, (_, i) => format(addDays(from, i), 'yyyy-MM-dd'));
+}
+
+function minutesBetween(startTime: string, endTime: string): number {
+  const [sh, sm] = startTime.split(':').map(Number);
+  const [eh, em] = endTime.split(':').map(Number);
+  return Math.max(0, eh * 60 + em - (sh * 60 + sm));
+}
+
+/** Minutes the restaurant is in service across the range */
+export function serviceMinutes(range: ReportRange, schedule: ServiceSchedule): number {
+  return datesIn(range).reduce((total, date) =>
+    total + servicePeriodsForDate(date, schedule).reduce((sum, p) => sum + minutesBetween(p.startTime, p.endTime), 0), 0);
+}
+
+export function serviceLabel(period: { name?: string; startTime: string; endTime: string } | null): string {
+  if (!period) return OUTSIDE_SERVICE;
+  return period.name?.trim() || `${period.startTime}–${period.endTime}`;
+}
+
+/**
+ * Relative change from previous to current, e.g. 0.25 for +25%. Null when
+ * there is nothing to compare with.
+ */
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return (current - previous) / previous;
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Computes the report for one range.
+ */
+export function buildOperationsReport(input: ReportInput): OperationsReport {
+  const now = input.now ?? new Date();
+  const { start, end } = rangeBounds(input.range, input.timezone);
+
+  const honoured = input.reservations.filter(r => r.status === 'confirmed' && r.startTime <= now);
+  const noShows = input.reservations.filter(r => r.status === 'noshow').length;
+  const cancellations = input.reservations.filter(r => r.status === 'cancelled').length;
+  const total = input.reservations.length;
+
+  const services = new Map<string, ServiceCovers>();
+  for (const r of honoured) {
+    const service = serviceLabel(servicePeriodAt(r.startTime, input.timezone, input.schedule).period);
+    const entry = services.get(service) || { service, reservations: 0, covers: 0 };
+    entry.reservations += 1;
+    entry.covers += r.partySize;
+    services.set(service, entry);
+  }
+
+  const turnTimes: TurnTime[] = [];
+  for (const bucket of PARTY_SIZE_BUCKETS) {
+    const visits = honoured.filter(r => r.partySize >= bucket.min && r.partySize <= bucket.max);
+    if (visits.length === 0) continue;
+    const minutes = visits.reduce((sum, r) => sum + (r.endTime.getTime() - (r.seatedAt ?? r.startTime).getTime()) / MINUTE, 0);
+    turnTimes.push({ partySize: bucket.label, reservations: visits.length, averageMinutes: Math.round(minutes / visits.length) });
+  }
+
+  const openMinutes = serviceMinutes(input.range, input.schedule);
+  const occupied = new Map<string, number>(input.tableIds.map(id => [id, 0]));
+  for (const r of honoured) {
+    const from = Math.max((r.seatedAt ?? r.startTime).getTime(), start.getTime());
+    const to = Math.min(r.endTime.getTime(), end.getTime(), now.getTime());
+    if (to <= from) continue;
+    const tableIds = r.combinedTableIds?.length ? r.combinedTableIds : r.tableId ? [r.tableId] : [];
+    for (const id of tableIds) {
+      if (occupied.has(id)) occupied.set(id, occupied.get(id)! + (to - from) / MINUTE);
+    }
+  }
+  const tableUtilisation: Record<string, number> = {};
+  for (const [id, minutes] of occupied) {
+    tableUtilisation[id] = openMinutes > 0 ? round(Math.min(1, minutes / openMinutes), 3) : 0;
+  }
+  const shares = Object.values(tableUtilisation);
+
+  const delivered = input.orders.filter(o => o.status !== 'cancelled');
+  const revenue = delivered.reduce((sum, o) => sum + o.total, 0);
+  const byDay = new Map(datesIn(input.range).map(date => [date, 0]));
+  for (const order of delivered) {
+    if (!order.createdAt) continue;
+    const date = format(toZonedTime(order.createdAt, input.timezone), 'yyyy-MM-dd');
+    if (byDay.has(date)) byDay.set(date, byDay.get(date)! + 1);
+  }
+
+  return {
+    range: input.range,
+    reservations: total,
+    covers: honoured.reduce((sum, r) => sum + r.partySize, 0),
+    coversByService: [...services.values()].sort((a, b) => b.covers - a.covers),
+    turnTimes,
+    measuredTurns: summarizeTableTurns(input.statusChanges || []),
+    noShowRate: total > 0 ? round(noShows / total, 3) : 0,
+    cancellationRate: total > 0 ? round(cancellations / total, 3) : 0,
+    tableUtilisation,
+    averageUtilisation: shares.length > 0 ? round(shares.reduce((a, b) => a + b, 0) / shares.length, 3) : 0,
+    delivery: {
+      orders: delivered.length,
+      cancelled: input.orders.length - delivered.length,
+      revenue: round(revenue, 2),
+      averageOrderValue: delivered.length > 0 ? round(revenue / delivered.length, 2) : 0,
+      byDay: [...byDay].map(([date, orders]) => ({ date, orders })),
+    },
+  };
+}
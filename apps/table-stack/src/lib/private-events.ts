@@ -0,0 +1,184 @@
+/**
+ * Private Events
+ *
+ * A private event buys out one section or the whole venue for a time window.
+ * While it runs, every table in scope is blocked exactly like a reservation
+ * holding it, so no availability search, hold or booking path offers those
+ * tables. Tables are worked out from the current floor each time, so a table
+ * added to a bought-out section is blocked too. Event guests are catered for
+ * separately and do not count towards cover pacing.
+ *
+ * Events carry a minimum spend and a deposit schedule: instalments in cents,
+ * each due on a date in the restaurant's timezone, marked paid by staff as the
+ * money comes in. Deposits count towards the minimum spend, so they cannot
+ * add up to more than it.
+ *
+ * Pure helpers only; storage and availability blocking live in ./buyouts and
+ * ./availability.
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+import { fromZonedTime } from 'date-fns-tz';
+import { BookedWindow } from './slot-grid';
+
+export const EVENT_SCOPES = ['venue', 'section'] as const;
+export type EventScope = typeof EVENT_SCOPES[number];
+
+/** Longest buyout, in hours */
+export const MAX_EVENT_HOURS = 24;
+
+const MAX_EVENT_NAME_LENGTH = 100;
+const MAX_INSTALMENTS = 12;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const HOUR = 60 * 60_000;
+
+export interface DepositInstalment {
+  amount: number;
+  dueDate: string;
+  paidAt?: string | null;
+}
+
+export interface PrivateEventInput {
+  name: string;
+  scope: EventScope;
+  sectionId?: string | null;
+  startTime: Date;
+  endTime: Date;
+  guestCount: number;
+  minimumSpend: number;
+  depositSchedule: DepositInstalment[];
+  contactName: string;
+  contactEmail: string;
+  contactPhone?: string | null;
+  notes?: string | null;
+}
+
+/** What a stored event needs to block tables */
+export interface EventBlock {
+  id: string;
+  scope: string;
+  sectionId: string | null;
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface DepositSummary {
+  total: number;
+  paid: number;
+  outstanding: number;
+  /** Unpaid instalments due before today */
+  overdue: DepositInstalment[];
+  /** The earliest unpaid instalment, if any */
+  nextDue: DepositInstalment | null;
+}
+
+export function isEventScope(value: unknown): value is EventScope {
+  return typeof value === 'string' && (EVENT_SCOPES as readonly string[]).includes(value);
+}
+
+export function validatePrivateEvent(input: PrivateEventInput, now: Date): string | null {
+  const name = input.name.trim();
+  if (!name) return 'Event name is required';
+  if (name.length > MAX_EVENT_NAME_LENGTH) return `Event name must be at most ${MAX_EVENT_NAME_LENGTH} characters`;
+
+  if (!isEventScope(input.scope)) return 'Choose a section or the whole venue';
+  if (input.scope === 'section' && !input.sectionId) return 'Choose the section to book';
+
+  if (isNaN(input.startTime.getTime()) || isNaN(input.endTime.getTime())) return 'Event times are invalid';
+  if (input.endTime <= input.startTime) return 'Event must end after it starts';
+  if (input.endTime.getTime() - input.startTime.getTime() > MAX_EVENT_HOURS * HOUR) {
+    return `Events can last at most ${MAX_EVENT_HOURS} hours`;
+  }
+  if (input.endTime <= now) return 'Event has already ended';
+
+  if (!Number.isInteger(input.guestCount) || input.guestCount < 1) return 'Guest count must be at least 1';
+  if (!Number.isInteger(input.minimumSpend) || input.minimumSpend < 0) return 'Minimum spend cannot be negative';
+
+  if (!input.contactName.trim()) return 'Contact name is required';
+  if (!EMAIL_PATTERN.test(input.contactEmail.trim())) return 'Contact email is not a valid email address';
+
+  return validateDepositSchedule(input.depositSchedule, input.minimumSpend);
+}
+
+export function validateDepositSchedule(schedule: DepositInstalment[], minimumSpend: number): string | null {
+  if (schedule.length > MAX_INSTALMENTS) return `At most ${MAX_INSTALMENTS} deposit instalments`;
+  for (const instalment of schedule) {
+    if (!Number.isInteger(instalment.amount) || instalment.amount <= 0) return 'Deposit amounts must be positive';
+    if (!DATE_PATTERN.test(instalment.dueDate) || isNaN(Date.parse(instalment.dueDate))) {
+      return 'Deposit due dates must be dates (yyyy-MM-dd)';
+    }
+  }
+  const total = schedule.reduce((sum, i) => sum + i.amount, 0);
+  if (minimumSpend > 0 && total > minimumSpend) return 'Deposits cannot add up to more than the minimum spend';
+  return null;
+}
+
+/** Instalments in due date order */
+export function sortDepositSchedule(schedule: DepositInstalment[]): DepositInstalment[] {
+  return [...schedule].sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+/**
+ * The instants an event runs between, from its local date and "HH:mm" times.
+ * An end time at or before the start time is on the next day, for events
+ * running past midnight.
+ */
+export function eventWindow(date: string, startTime: string, endTime: string, timezone: string): { startTime: Date; endTime: Date } {
+  const endDate = endTime <= startTime ? format(addDays(parseISO(date), 1), 'yyyy-MM-dd') : date;
+  return {
+    startTime: fromZonedTime(`${date}T${startTime}:00`, timezone),
+    endTime: fromZonedTime(`${endDate}T${endTime}:00`, timezone),
+  };
+}
+
+/**
+ * The tables an event blocks: every table for a venue buyout, the section's
+ * tables for a section buyout. A section event whose section was deleted
+ * blocks nothing.
+ */
+export function eventTableIds(
+  event: Pick<EventBlock, 'scope' | 'sectionId'>,
+  tables: { id: string; sectionId: string | null }[]
+): string[] {
+  if (event.scope === 'venue') return tables.map(t => t.id);
+  if (!event.sectionId) return [];
+  return tables.filter(t => t.sectionId === event.sectionId).map(t => t.id);
+}
+
+/**
+ * Events as bookings holding their tables, for the availability checks.
+ */
+export function eventBookedWindows(
+  events: EventBlock[],
+  tables: { id: string; sectionId: string | null }[]
+): BookedWindow[] {
+  return events
+    .map(event => ({
+      privateEventId: event.id,
+      tableId: null,
+      combinedTableIds: eventTableIds(event, tables),
+      startTime: event.startTime,
+      endTime: event.endTime,
+      partySize: 0,
+    }))
+    .filter(window => window.combinedTableIds.length > 0);
+}
+
+/** Deposit totals and what is due, as of `today` (yyyy-MM-dd) */
+export function summarizeDeposits(schedule: DepositInstalment[], today: string): DepositSummary {
+  const sorted = sortDepositSchedule(schedule);
+  const unpaid = sorted.filter(i => !i.paidAt);
+  const total = sorted.reduce((sum, i) => sum + i.amount, 0);
+  const paid = sorted.filter(i => i.paidAt).reduce((sum, i) => sum + i.amount, 0);
+
+  return {
+    total,
+    paid,
+    outstanding: total - paid,
+    overdue: unpaid.filter(i => i.dueDate < today),
+    nextDue: unpaid[0] ?? null,
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Recurrence Rules
+ *
+ * Standing reservations ("every Friday at 7pm", "first Monday of the month")
+ * are stored as an RFC 5545 RRULE anchored at a first date and a local time.
+ * The supported subset is what restaurants actually sell:
+ *
+ *   FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY (weekly only),
+ *   BYMONTHDAY (monthly only, negative counts from month end), COUNT, UNTIL
+ *
+ * Dates are calendar dates (yyyy-MM-dd) in the restaurant's timezone, so an
+ * occurrence stays at 19:00 local across DST changes. UNTIL is read as a
+ * local date; its time part, if any, is ignored. COUNT includes skipped
+ * (exception) dates, as in RFC 5545.
+ *
+ * Pure helpers only; booking occurrences lives in ./reservation-series.
+ */
+
+import { addDays, addMonths, format, getDaysInMonth, isValid, parseISO } from 'date-fns';
+import { fromZonedTime } from 'date-fns-tz';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export const WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+export type WeekdayCode = typeof WEEKDAY_CODES[number];
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: WeekdayCode[];
+  byMonthDay: number[];
+  count: number | null;
+  until: string | null;
+}
+
+export interface SeriesAnchor {
+  firstDate: string;
+  exceptionDates?: string[] | null;
+  endDate?: string | null;
+}
+
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const WEEKDAY_NAMES: Record<WeekdayCode, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+/** True for a real calendar date in yyyy-MM-dd form */
+export function isCalendarDate(date: string): boolean {
+  if (!DATE_PATTERN.test(date)) return false;
+  const parsed = parseISO(date);
+  return isValid(parsed) && format(parsed, 'yyyy-MM-dd') === date;
+}
+
+/** Monday-based weekday code of a calendar date */
+function weekdayOf(date: string): WeekdayCode {
+  return WEEKDAY_CODES[(parseISO(date).getDay() + 6) % 7];
+}
+
+function parse(value: string): { rule?: RecurrenceRule; error?: string } {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  if (!body) return { error: 'Recurrence rule is required' };
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, val] = part.split('=');
+    if (!key || val === undefined) return { error: `Malformed recurrence rule part "${part}"` };
+    parts.set(key.trim().toUpperCase(), val.trim().toUpperCase());
+  }
+
+  const supported = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL', 'WKST']);
+  for (const key of parts.keys()) {
+    if (!supported.has(key)) return { error: `Unsupported recurrence rule part ${key}` };
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    return { error: 'FREQ must be DAILY, WEEKLY or MONTHLY' };
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 52) {
+    return { error: 'INTERVAL must be a whole number between 1 and 52' };
+  }
+
+  const byDay = parts.get('BYDAY')?.split(',') ?? [];
+  if (byDay.length > 0 && freq !== 'WEEKLY') return { error: 'BYDAY is only supported with FREQ=WEEKLY' };
+  if (byDay.some(d => !WEEKDAY_CODES.includes(d as WeekdayCode))) {
+    return { error: 'BYDAY must list weekdays as MO, TU, WE, TH, FR, SA or SU' };
+  }
+
+  const byMonthDay = parts.get('BYMONTHDAY')?.split(',').map(Number) ?? [];
+  if (byMonthDay.length > 0 && freq !== 'MONTHLY') return { error: 'BYMONTHDAY is only supported with FREQ=MONTHLY' };
+  if (byMonthDay.some(d => !Number.isInteger(d) || d === 0 || d < -31 || d > 31)) {
+    return { error: 'BYMONTHDAY must be between 1 and 31, or -1 to -31 from the end of the month' };
+  }
+
+  let count: number | null = null;
+  if (parts.has('COUNT')) {
+    count = Number(parts.get('COUNT'));
+    if (!Number.isInteger(count) || count < 1) return { error: 'COUNT must be a positive whole number' };
+  }
+
+  let until: string | null = null;
+  if (parts.has('UNTIL')) {
+    const match = parts.get('UNTIL')!.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+    until = match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+    if (!until || !isCalendarDate(until)) return { error: 'UNTIL must be a date such as 20261231' };
+  }
+  if (count !== null && until !== null) return { error: 'COUNT and UNTIL cannot both be set' };
+
+  return {
+    rule: {
+      freq,
+      interval,
+      byDay: WEEKDAY_CODES.filter(d => byDay.includes(d)),
+      byMonthDay: [...new Set(byMonthDay)],
+      count,
+      until,
+    },
+  };
+}
+
+/**
+ * Returns an error message for an unsupported or malformed rule, or null.
+ */
+export function validateRecurrenceRule(value: string): string | null {
+  return parse(value).error ?? null;
+}
+
+/**
+ * Parses a rule ("FREQ=WEEKLY;BYDAY=FR", optionally prefixed "RRULE:").
+ * Throws on rules that fail validateRecurrenceRule.
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  const { rule, error } = parse(value);
+  if (!rule) throw new Error(error);
+  return rule;
+}
+
+/**
+ * Dates of period `index` (0-based, already multiplied by INTERVAL) together
+ * with the period's first day, which bounds the search.
+ */
+function periodDates(rule: RecurrenceRule, firstDate: string, index: number): { start: string; dates: string[] } {
+  const first = parseISO(firstDate);
+
+  if (rule.freq === 'DAILY') {
+    const date = format(addDays(first, index), 'yyyy-MM-dd');
+    return { start: date, dates: [date] };
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const weekStart = addDays(first, index * 7 - WEEKDAY_CODES.indexOf(weekdayOf(firstDate)));
+    const days = rule.byDay.length > 0 ? rule.byDay : [weekdayOf(firstDate)];
+    return {
+      start: format(weekStart, 'yyyy-MM-dd'),
+      dates: days.map(d => format(addDays(weekStart, WEEKDAY_CODES.indexOf(d)), 'yyyy-MM-dd')),
+    };
+  }
+
+  const monthStart = addMonths(new Date(first.getFullYear(), first.getMonth(), 1), index);
+  const daysInMonth = getDaysInMonth(monthStart);
+  const monthDays = rule.byMonthDay.length > 0 ? rule.byMonthDay : [first.getDate()];
+  const dates = monthDays
+    .map(d => (d > 0 ? d : daysInMonth + d + 1))
+    // Days the month does not have (the 31st in April) are skipped, per RFC 5545
+    .filter(d => d >= 1 && d <= daysInMonth)
+    .sort((a, b) => a - b)
+    .map(d => format(new Date(monthStart.getFullYear(), monthStart.getMonth(), d), 'yyyy-MM-dd'));
+  return { start: format(monthStart, 'yyyy-MM-dd'), dates };
+}
+
+/**
+ * Local occurrence dates of a series between `from` and `to` (inclusive),
+ * in order. Exception dates are skipped; the series ends at the earliest of
+ * its end date, the rule's UNTIL and the rule's COUNT.
+ */
+export function expandOccurrences(
+  rule: RecurrenceRule,
+  anchor: SeriesAnchor,
+  from: string,
+  to: string
+): string[] {
+  const exceptions = new Set(anchor.exceptionDates ?? []);
+  const last = [to, anchor.endDate, rule.until]
+    .filter((d): d is string => !!d)
+    .sort()[0];
+
+  const occurrences: string[] = [];
+  let seen = 0;
+
+  for (let period = 0; ; period++) {
+    const { start, dates } = periodDates(rule, anchor.firstDate, period * rule.interval);
+    if (start > last) break;
+
+    for (const date of dates) {
+      if (date < anchor.firstDate) continue;
+      if (date > last) return occurrences;
+      if (rule.count !== null && seen >= rule.count) return occurrences;
+      seen++;
+      if (date >= from && !exceptions.has(date)) occurrences.push(date);
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * The instant an occurrence starts, given its local date and "HH:mm" time.
+ */
+export function occurrenceStart(date: string, time: string, timezone: string): Date {
+  return fromZonedTime(`${date}T${time}:00`, timezone);
+}
+
+/**
+ * Short human description, e.g. "Every Friday" or "Every 2 weeks on
+ * Monday, Thursday".
+ */
+export function describeRecurrence(rule: RecurrenceRule, firstDate: string): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq];
+  const every = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  let text = every;
+  if (rule.freq === 'WEEKLY') {
+    const days = (rule.byDay.length > 0 ? rule.byDay : [weekdayOf(firstDate)]).map(d => WEEKDAY_NAMES[d]);
+    text = rule.interval === 1 ? `Every ${days.join(', ')}` : `${every} on ${days.join(', ')}`;
+  } else if (rule.freq === 'MONTHLY') {
+    const days = rule.byMonthDay.length > 0 ? rule.byMonthDay : [parseISO(firstDate).getDate()];
+    text = `${every} on ${days.map(d => (d === -1 ? 'the last day' : `day ${d}`)).join(', ')}`;
+  }
+
+  if (rule.count !== null) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${rule.until}`;
+  return text;
+}
@@ -0,0 +1,48 @@
+/**
+ * Guest Reliability
+ *
+ * Every resolved reservation is either honoured (the party was seated) or a
+ * no-show. A guest's reliability score is the share of honoured reservations
+ * as a percentage, smoothed with a couple of assumed honoured visits so that a
+ * single missed booking does not brand a new guest as unreliable.
+ *
+ * Restaurants can require a deposit from guests whose no-show count reaches a
+ * threshold.
+ *
+ * Pure helpers only; recording seatings and no-shows lives in ./no-shows.
+ */
+
+/** Honoured visits assumed for every guest before any history */
+export const RELIABILITY_PRIOR_VISITS = 2;
+
+export interface ReliabilityHistory {
+  seatedCount: number | null;
+  noShowCount: number | null;
+}
+
+export interface DepositPolicy {
+  /** No-shows at which a deposit becomes required; null disables the policy */
+  noShowThreshold: number | null;
+  /** Deposit in cents */
+  amount: number | null;
+}
+
+/**
+ * Reliability score from 0 (never shows up) to 100 (always shows up).
+ */
+export function reliabilityScore(history: ReliabilityHistory): number {
+  const seated = history.seatedCount || 0;
+  const noShows = history.noShowCount || 0;
+  const honoured = seated + RELIABILITY_PRIOR_VISITS;
+
+  return Math.round((100 * honoured) / (honoured + noShows));
+}
+
+/**
+ * Deposit in cents a guest must pay before a reservation is confirmed, or 0.
+ * Guests without a profile have no no-shows and never need one.
+ */
+export function requiredDeposit(policy: DepositPolicy, history: ReliabilityHistory | null | undefined): number {
+  if (!policy.noShowThreshold || !policy.amount || policy.amount <= 0) return 0;
+  return (history?.noShowCount || 0) >= policy.noShowThreshold ? policy.amount : 0;
+}
@@ -0,0 +1,136 @@
+import { db, restaurants, restaurantReservations, eq } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import { QStashService } from '@repo/shared';
+import { NotifyService } from './notifications';
+import { EmailTemplate, isReminderCurrent, reminderSchedule, renderEmail } from './email-templates';
+
+type Restaurant = InferSelectModel<typeof restaurants>;
+type Reservation = InferSelectModel<typeof restaurantReservations>;
+
+export interface ReminderMessage {
+  reservationId: string;
+  startTime: string;
+  leadHours: number;
+}
+
+const appUrl = () => process.env.NEXT_PUBLIC_APP_URL || 'https://table-stack.vercel.app';
+
+/**
+ * Renders a template in the restaurant's language and branding and sends it
+ * to the guest. Walk-ins who left no email are skipped.
+ */
+export async function sendReservationEmail(template: EmailTemplate, reservation: Reservation, restaurant: Restaurant) {
+  if (!reservation.guestEmail) return;
+
+  const email = renderEmail(template, {
+    restaurant,
+    reservation,
+    actionUrl: actionUrlFor(template, reservation, restaurant),
+  });
+
+  await NotifyService.sendNotification({ to: reservation.guestEmail, ...email });
+}
+
+function actionUrlFor(template: EmailTemplate, reservation: Reservation, restaurant: Restaurant): string {
+  if (template === 'thank_you') return `${appUrl()}/book/${restaurant.slug}`;
+  if (template === 'verification') return `${appUrl()}/verify/${reservation.verificationToken}`;
+  return `${appUrl()}/book/manage/${reservation.id}`;
+}
+
+/**
+ * Asks the guest to confirm a new booking; the confirmation email follows
+ * once they do.
+ */
+export async function sendVerificationEmail(reservation: Reservation, restaurant: Restaurant) {
+  await sendReservationEmail('verification', reservation, restaurant);
+}
+
+/**
+ * Confirmation email plus the 24h and 2h reminders.
+ */
+export async function sendConfirmationEmail(reservation: Reservation, restaurant: Restaurant) {
+  await sendReservationEmail('confirmation', reservation, restaurant);
+  await scheduleReminders(reservation);
+}
+
+/**
+ * Tells the guest about a new time or party size and moves the reminders.
+ */
+export async function sendModificationEmail(reservation: Reservation, restaurant: Restaurant) {
+  await sendReservationEmail('modification', reservation, restaurant);
+  await scheduleReminders(reservation);
+}
+
+export async function sendCancellationEmail(reservation: Reservation, restaurant: Restaurant) {
+  await cancelReminders(reservation);
+  await sendReservationEmail('cancellation', reservation, restaurant);
+}
+
+/**
+ * Replaces any scheduled reminders with ones for the reservation's current
+ * start time. Never throws: a booking must not fail because QStash is down.
+ */
+export async function scheduleReminders(reservation: Reservation) {
+  try {
+    await cancelScheduledMessages(reservation.reminderMessageIds);
+
+    const messageIds: string[] = [];
+    for (const { leadHours, sendAt } of reminderSchedule(reservation.startTime)) {
+      const message: ReminderMessage = {
+        reservationId: reservation.id,
+        startTime: reservation.startTime.toISOString(),
+        leadHours,
+      };
+      const messageId = await QStashService.publishAt({
+        url: `${appUrl()}/api/webhooks/reminder`,
+        body: message,
+        notBefore: sendAt,
+      });
+      if (messageId) messageIds.push(messageId);
+    }
+
+    await db.update(restaurantReservations)
+      .set({ reminderMessageIds: messageIds.length > 0 ? messageIds : null })
+      .where(eq(restaurantReservations.id, reservation.id));
+  } catch (error) {
+    console.error('Failed to schedule reservation reminders:', error);
+  }
+}
+
+export async function cancelReminders(reservation: Reservation) {
+  if (!reservation.reminderMessageIds?.length) return;
+
+  try {
+    await cancelScheduledMessages(reservation.reminderMessageIds);
+    await db.update(restaurantReservations)
+      .set({ reminderMessageIds: null })
+      .where(eq(restaurantReservations.id, reservation.id));
+  } catch (error) {
+    console.error('Failed to cancel reservation reminders:', error);
+  }
+}
+
+/**
+ * Sends a reminder QStash has delivered, unless the reservation has changed
+ * since it was scheduled. Cancelling the message is best effort, so this is
+ * the check that keeps stale reminders from reaching guests.
+ */
+export async function sendDueReminder(message: ReminderMessage): Promise<'sent' | 'stale'> {
+  const reservation = await db.query.restaurantReservations.findFirst({
+    where: eq(restaurantReservations.id, message.reservationId),
+    with: { restaurant: true },
+  });
+
+  if (!reservation || !isReminderCurrent(message.startTime, reservation)) {
+    return 'stale';
+  }
+
+  await sendReservationEmail('reminder', reservation, reservation.restaurant);
+  return 'sent';
+}
+
+async function cancelScheduledMessages(messageIds: string[] | null) {
+  for (const messageId of messageIds ?? []) {
+    await QStashService.cancelMessage(messageId);
+  }
+}
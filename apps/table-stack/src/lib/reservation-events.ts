@@ -0,0 +1,72 @@
+import { restaurantReservations } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import { CachedRestaurant, invalidateAvailability } from './availability-cache';
+import { AvailabilityEvent } from './availability-events';
+import { emitWebhookEvent } from './webhooks';
+import { reservationEventData, reservationModifiedEventData } from './webhook-events';
+
+type Reservation = InferSelectModel<typeof restaurantReservations>;
+
+/**
+ * A change to a restaurant's bookings. Every writer that creates, cancels,
+ * moves or flags reservations reports it here once the write is done, and
+ * what follows from it - dropping the cached availability it touches and
+ * notifying webhook subscribers - is decided in one place rather than at
+ * each call site.
+ *
+ * Imported reservations are history brought over from another system and
+ * no-shows have no webhook event, so neither is sent to partners.
+ */
+export type ReservationEvent =
+  | {
+      type: 'RESERVATION_CREATED' | 'RESERVATION_IMPORTED' | 'RESERVATION_CANCELLED' | 'RESERVATION_NO_SHOW';
+      reservations: Reservation[];
+    }
+  | { type: 'RESERVATION_MODIFIED'; previous: Reservation; current: Reservation };
+
+function availabilityEventFor(event: ReservationEvent): AvailabilityEvent {
+  switch (event.type) {
+    case 'RESERVATION_MODIFIED':
+      return event;
+    case 'RESERVATION_CREATED':
+    case 'RESERVATION_IMPORTED':
+      return { type: 'RESERVATION_CREATED', reservations: event.reservations };
+    // The rest of a no-show's window is free again, as for a cancellation
+    case 'RESERVATION_CANCELLED':
+    case 'RESERVATION_NO_SHOW':
+      return { type: 'RESERVATION_CANCELLED', reservations: event.reservations };
+  }
+}
+
+/**
+ * Reports a change to a restaurant's bookings. `webhooksQueued` is set by
+ * writers that queued the event's webhooks in the same batch as the change.
+ * Never throws for a failed side effect; each logs its own failure.
+ */
+export async function publishReservationEvent(
+  restaurant: CachedRestaurant,
+  event: ReservationEvent,
+  options: { webhooksQueued?: boolean } = {}
+) {
+  if (event.type !== 'RESERVATION_MODIFIED' && event.reservations.length === 0) return;
+
+  await invalidateAvailability(restaurant, availabilityEventFor(event));
+  if (options.webhooksQueued) return;
+
+  switch (event.type) {
+    case 'RESERVATION_CREATED':
+      for (const reservation of event.reservations) {
+        await emitWebhookEvent(restaurant.id, 'reservation.created', reservationEventData(reservation));
+      }
+      break;
+    case 'RESERVATION_CANCELLED':
+      // Expired and deleted reservations keep their last status in the row
+      for (const reservation of event.reservations) {
+        await emitWebhookEvent(restaurant.id, 'reservation.cancelled', reservationEventData({ ...reservation, status: 'cancelled' }));
+      }
+      break;
+    case 'RESERVATION_MODIFIED':
+      await emitWebhookEvent(restaurant.id, 'reservation.modified', reservationModifiedEventData(event.previous, event.current));
+      break;
+  }
+}
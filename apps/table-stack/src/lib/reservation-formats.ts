@@ -0,0 +1,591 @@
+/**
+ * Reservation Import/Export Formats
+ *
+ * Restaurants moving from another system bring their bookings as CSV or as
+ * an iCalendar (.ics) feed. Both are read into ImportRows, which are then
+ * checked against the restaurant's tables and existing bookings before
+ * anything is written.
+ *
+ * CSV headers are matched loosely ("Guest Name", "guest_name", "name" all
+ * work) and a start may be one column or separate date and time columns.
+ * Times without an offset are read in the restaurant's timezone. iCalendar
+ * events use DTSTART/DTEND (UTC, TZID or floating), ATTENDEE for the guest
+ * and the X-PARTY-SIZE / X-TABLE properties written by our own export, with
+ * fallbacks for "party of 4" and "Table 12" in the summary and location.
+ *
+ * Pure helpers only; reading and writing reservations lives in
+ * ./reservation-import.
+ */
+
+import { addMinutes, isValid, parseISO } from 'date-fns';
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import type { BookedWindow } from './slot-grid';
+
+export type ImportFormat = 'csv' | 'ics';
+export type ImportedStatus = 'confirmed' | 'cancelled' | 'noshow';
+
+export interface ImportRow {
+  /** CSV line or iCalendar event number, for error reporting */
+  line: number;
+  externalId: string | null;
+  guestName: string;
+  guestEmail: string;
+  partySize: number;
+  startTime: Date;
+  endTime: Date | null;
+  tableNumber: string | null;
+  status: ImportedStatus;
+}
+
+export interface ImportIssue {
+  line: number;
+  kind: 'invalid' | 'conflict' | 'duplicate';
+  message: string;
+}
+
+export interface ImportTable {
+  id: string;
+  tableNumber: string;
+  maxCapacity: number;
+}
+
+export interface ExistingBooking extends BookedWindow {
+  /** Null for booking holds and private events, which only block tables */
+  guestEmail: string | null;
+}
+
+export interface AcceptedRow extends ImportRow {
+  tableId: string | null;
+  combinedTableIds: string[] | null;
+  endTime: Date;
+}
+
+export interface ExportableReservation {
+  id: string;
+  guestName: string;
+  guestEmail: string;
+  partySize: number;
+  startTime: Date;
+  endTime: Date;
+  status: string | null;
+  /** Combined tables are joined with "+", e.g. "5+6" */
+  tableNumber: string | null;
+}
+
+/** Largest file the importer reads, in rows */
+export const MAX_IMPORT_ROWS = 5000;
+
+export const RESERVATION_CSV_COLUMNS = [
+  'id',
+  'guest_name',
+  'guest_email',
+  'party_size',
+  'start_time',
+  'end_time',
+  'table',
+  'status',
+] as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const CSV_ALIASES: Record<string, string[]> = {
+  id: ['id', 'external_id', 'reference', 'booking_id', 'reservation_id', 'confirmation'],
+  guest_name: ['guest_name', 'name', 'guest', 'customer', 'customer_name'],
+  guest_email: ['guest_email', 'email', 'customer_email', 'e_mail'],
+  party_size: ['party_size', 'party', 'covers', 'guests', 'pax', 'size', 'people'],
+  start_time: ['start_time', 'start', 'starts_at', 'datetime', 'date_time'],
+  date: ['date', 'booking_date', 'reservation_date'],
+  time: ['time', 'booking_time', 'reservation_time'],
+  end_time: ['end_time', 'end', 'ends_at'],
+  table: ['table', 'table_number', 'table_no'],
+  status: ['status', 'state'],
+};
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180: quoted cells may hold
+ * commas, doubled quotes and line breaks). Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  // Spreadsheet apps execute cells starting with these as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows as CSV with CRLF line endings.
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map(r => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function headerKey(header: string): string | null {
+  const normalized = header.trim().toLowerCase().replace(/[\s\-.]+/g, '_');
+  for (const [key, aliases] of Object.entries(CSV_ALIASES)) {
+    if (aliases.includes(normalized)) return key;
+  }
+  return null;
+}
+
+/**
+ * Reads a local or offset date-time. Values without an offset are taken in
+ * `timezone`.
+ */
+export function parseDateTime(value: string, timezone: string): Date | null {
+  const text = value.trim().replace(' ', 'T');
+  if (!/^\d{4}-\d{2}-\d{2}T\d{1,2}:\d{2}/.test(text)) return null;
+
+  const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(text);
+  const normalized = text.replace(/T(\d):/, 'T0$1:');
+  const date = hasOffset ? parseISO(normalized) : fromZonedTime(normalized, timezone);
+  return isValid(date) ? date : null;
+}
+
+function parseStatus(value: string | undefined): ImportedStatus | null {
+  const text = (value || '').trim().toLowerCase().replace(/[\s_-]+/g, '');
+  if (!text || ['confirmed', 'booked', 'seated', 'completed', 'done', 'finished', 'arrived'].includes(text)) return 'confirmed';
+  if (['cancelled', 'canceled'].includes(text)) return 'cancelled';
+  if (['noshow', 'missed'].includes(text)) return 'noshow';
+  return null;
+}
+
+/**
+ * Common checks for a row read from either format.
+ */
+function validateRow(row: Partial<ImportRow>, issues: ImportIssue[], line: number): row is ImportRow {
+  const before = issues.length;
+  if (!row.guestName) issues.push({ line, kind: 'invalid', message: 'Guest name is missing' });
+  if (!row.guestEmail || !EMAIL_PATTERN.test(row.guestEmail)) {
+    issues.push({ line, kind: 'invalid', message: 'Guest email is missing or invalid' });
+  }
+  if (!row.partySize || !Number.isInteger(row.partySize) || row.partySize < 1 || row.partySize > 100) {
+    issues.push({ line, kind: 'invalid', message: 'Party size must be a whole number between 1 and 100' });
+  }
+  if (!row.startTime) issues.push({ line, kind: 'invalid', message: 'Start time is missing or unreadable' });
+  if (row.startTime && row.endTime && row.endTime <= row.startTime) {
+    issues.push({ line, kind: 'invalid', message: 'End time must be after the start time' });
+  }
+  if (!row.status) issues.push({ line, kind: 'invalid', message: 'Status must be confirmed, cancelled or no-show' });
+  return issues.length === before;
+}
+
+/**
+ * Reads reservations from CSV. The first row must be a header.
+ */
+export function rowsFromCsv(text: string, timezone: string): { rows: ImportRow[]; issues: ImportIssue[] } {
+  const [header, ...records] = parseCsv(text);
+  const rows: ImportRow[] = [];
+  const issues: ImportIssue[] = [];
+
+  if (!header) return { rows, issues: [{ line: 1, kind: 'invalid', message: 'The file is empty' }] };
+
+  const columns = header.map(headerKey);
+  const has = (key: string) => columns.includes(key);
+  if (!has('guest_name') || !has('guest_email') || !has('party_size') || !(has('start_time') || (has('date') && has('time')))) {
+    return {
+      rows,
+      issues: [{
+        line: 1,
+        kind: 'invalid',
+        message: 'The header must name guest, email, party size and either a start time or date and time columns',
+      }],
+    };
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { rows, issues: [{ line: 1, kind: 'invalid', message: `Import at most ${MAX_IMPORT_ROWS} rows at a time` }] };
+  }
+
+  records.forEach((record, index) => {
+    const line = index + 2;
+    const get = (key: string) => {
+      const i = columns.indexOf(key);
+      return i >= 0 ? (record[i] ?? '').trim() : '';
+    };
+
+    const start = get('start_time') || (get('date') && get('time') ? `${get('date')}T${get('time')}` : '');
+    const row: Partial<ImportRow> = {
+      line,
+      externalId: get('id') || null,
+      guestName: get('guest_name'),
+      guestEmail: get('guest_email').toLowerCase(),
+      partySize: Number(get('party_size')),
+      startTime: start ? parseDateTime(start, timezone) ?? undefined : undefined,
+      endTime: get('end_time') ? parseDateTime(get('end_time'), timezone) : null,
+      tableNumber: get('table').replace(/^#/, '') || null,
+      status: parseStatus(get('status')) ?? undefined,
+    };
+
+    if (validateRow(row, issues, line)) rows.push(row);
+  });
+
+  return { rows, issues };
+}
+
+// ============================================================================
+// ICALENDAR
+// ============================================================================
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+function escapeIcsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function parseIcsProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter
+  let quoted = false;
+  let split = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) {
+      split = i;
+      break;
+    }
+  }
+  if (split < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, split).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(split + 1) };
+}
+
+/**
+ * Splits an iCalendar file into its VEVENTs, each a list of properties.
+ * Folded lines are unfolded first.
+ */
+export function parseIcsEvents(text: string): IcsProperty[][] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsProperty[][] = [];
+  let current: IcsProperty[] | null = null;
+
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      current = [];
+    } else if (upper === 'END:VEVENT') {
+      if (current) events.push(current);
+      current = null;
+    } else if (current && line.trim()) {
+      const property = parseIcsProperty(line);
+      if (property) current.push(property);
+    }
+  }
+  return events;
+}
+
+function parseIcsDateTime(property: IcsProperty | undefined, timezone: string): Date | null {
+  if (!property) return null;
+  const match = property.value.trim().match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?(Z?)$/i);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const local = `${y}-${mo}-${d}T${h}:${mi}:${s || '00'}`;
+  const date = utc ? parseISO(`${local}Z`) : fromZonedTime(local, property.params.TZID || timezone);
+  return isValid(date) ? date : null;
+}
+
+function parseIcsDuration(value: string | undefined): number | null {
+  const match = value?.trim().match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/i);
+  if (!match) return null;
+  const minutes = Number(match[1] || 0) * 1440 + Number(match[2] || 0) * 60 + Number(match[3] || 0);
+  return minutes > 0 ? minutes : null;
+}
+
+/**
+ * Reads reservations from an iCalendar file, one per VEVENT.
+ */
+export function rowsFromIcs(text: string, timezone: string): { rows: ImportRow[]; issues: ImportIssue[] } {
+  const events = parseIcsEvents(text);
+  const rows: ImportRow[] = [];
+  const issues: ImportIssue[] = [];
+
+  if (events.length === 0) return { rows, issues: [{ line: 1, kind: 'invalid', message: 'No events found in the calendar' }] };
+  if (events.length > MAX_IMPORT_ROWS) {
+    return { rows, issues: [{ line: 1, kind: 'invalid', message: `Import at most ${MAX_IMPORT_ROWS} events at a time` }] };
+  }
+
+  events.forEach((properties, index) => {
+    const line = index + 1;
+    const prop = (name: string) => properties.find(p => p.name === name);
+    const text = (name: string) => {
+      const p = prop(name);
+      return p ? unescapeIcsText(p.value).trim() : '';
+    };
+
+    const summary = text('SUMMARY');
+    const description = text('DESCRIPTION');
+    const attendee = prop('ATTENDEE');
+    const partyMatch = `${summary}\n${description}`.match(/party of (\d+)|(\d+)\s*(?:guests|people|pax|covers)/i);
+    const tableMatch = text('LOCATION').match(/table\s*#?\s*([\w-]+)/i);
+
+    const startTime = parseIcsDateTime(prop('DTSTART'), timezone);
+    const duration = parseIcsDuration(text('DURATION'));
+    const endTime = parseIcsDateTime(prop('DTEND'), timezone) ?? (startTime && duration ? addMinutes(startTime, duration) : null);
+
+    const icsStatus = text('STATUS').toUpperCase();
+    const row: Partial<ImportRow> = {
+      line,
+      externalId: text('UID') || null,
+      guestName: text('X-GUEST-NAME') || attendee?.params.CN || summary.replace(/\s*[-–(]\s*party of \d+\)?\s*$/i, '').trim(),
+      guestEmail: (text('X-GUEST-EMAIL') || attendee?.value.replace(/^mailto:/i, '') || '').trim().toLowerCase(),
+      partySize: Number(text('X-PARTY-SIZE') || partyMatch?.[1] || partyMatch?.[2]),
+      startTime: startTime ?? undefined,
+      endTime,
+      tableNumber: text('X-TABLE') || tableMatch?.[1] || null,
+      status: icsStatus === 'CANCELLED'
+        ? 'cancelled'
+        : parseStatus(text('X-RESERVATION-STATUS')) ?? undefined,
+    };
+
+    if (prop('DTSTART') && !startTime && /^\d{8}$/.test(prop('DTSTART')!.value.trim())) {
+      issues.push({ line, kind: 'invalid', message: 'All-day events have no start time' });
+      return;
+    }
+    if (validateRow(row, issues, line)) rows.push(row);
+  });
+
+  return { rows, issues };
+}
+
+function icsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Folds a content line at 75 octets, per RFC 5545 */
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > 75) {
+    parts.push(rest.slice(0, 75));
+    rest = ` ${rest.slice(75)}`;
+  }
+  parts.push(rest);
+  return parts.join('\r\n');
+}
+
+/**
+ * Serializes reservations as an iCalendar feed. Times are written in UTC;
+ * party size, table and status ride along as X- properties so the file
+ * imports back without loss.
+ */
+export function reservationsToIcs(
+  reservations: ExportableReservation[],
+  restaurant: { name: string; slug?: string | null },
+  generatedAt = new Date()
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TableStack//Reservations//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(`${restaurant.name} reservations`)}`,
+  ];
+
+  for (const r of reservations) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${r.id}@${restaurant.slug || 'tablestack'}`,
+      `DTSTAMP:${icsDateTime(generatedAt)}`,
+      `DTSTART:${icsDateTime(r.startTime)}`,
+      `DTEND:${icsDateTime(r.endTime)}`,
+      `SUMMARY:${escapeIcsText(`${r.guestName} - party of ${r.partySize}`)}`,
+      `ATTENDEE;CN="${r.guestName.replace(/"/g, "'")}":mailto:${r.guestEmail}`,
+      `STATUS:${r.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+      `X-GUEST-NAME:${escapeIcsText(r.guestName)}`,
+      `X-GUEST-EMAIL:${r.guestEmail}`,
+      `X-PARTY-SIZE:${r.partySize}`,
+      `X-RESERVATION-STATUS:${r.status || 'confirmed'}`,
+    );
+    if (r.tableNumber) {
+      lines.push(`LOCATION:${escapeIcsText(`Table ${r.tableNumber}`)}`, `X-TABLE:${escapeIcsText(r.tableNumber)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Serializes reservations as CSV using RESERVATION_CSV_COLUMNS, with times
+ * in UTC. The file imports back without loss.
+ */
+export function reservationsToCsv(reservations: ExportableReservation[]): string {
+  return toCsv([
+    [...RESERVATION_CSV_COLUMNS],
+    ...reservations.map(r => [
+      r.id,
+      r.guestName,
+      r.guestEmail,
+      r.partySize,
+      r.startTime.toISOString(),
+      r.endTime.toISOString(),
+      r.tableNumber,
+      r.status || 'confirmed',
+    ]),
+  ]);
+}
+
+/**
+ * File name for an export, e.g. "bistro-reservations-2026-10-01-to-2026-10-31.csv".
+ */
+export function exportFileName(slug: string, from: Date, to: Date, timezone: string, format: ImportFormat): string {
+  const day = (d: Date) => formatInTimeZone(d, timezone, 'yyyy-MM-dd');
+  return `${slug}-reservations-${day(from)}-to-${day(to)}.${format}`;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function overlaps(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date): boolean {
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * Checks imported rows against the restaurant's tables and bookings.
+ *
+ * - Unknown tables and parties larger than their table are rejected;
+ *   combined tables ("5+6") are checked against their total seats.
+ * - A row matching an existing booking's guest email and start time is a
+ *   duplicate (re-importing the same file is harmless).
+ * - A live (not cancelled) row whose table is already held - by an existing
+ *   booking, hold or private event, or an earlier row of the same file - is
+ *   a conflict.
+ *
+ * Rows without an end time get `defaultDurationMinutes`.
+ */
+export function checkImportRows(
+  rows: ImportRow[],
+  tables: ImportTable[],
+  existing: ExistingBooking[],
+  defaultDurationMinutes: number
+): { accepted: AcceptedRow[]; issues: ImportIssue[] } {
+  const byNumber = new Map(tables.map(t => [t.tableNumber.trim().toLowerCase(), t]));
+  const existingKeys = new Set(
+    existing.filter(b => b.guestEmail).map(b => `${b.guestEmail!.toLowerCase()}|${b.startTime.getTime()}`)
+  );
+  const held: { tableIds: string[]; startTime: Date; endTime: Date }[] = existing.map(b => ({
+    tableIds: b.combinedTableIds?.length ? b.combinedTableIds : b.tableId ? [b.tableId] : [],
+    startTime: b.startTime,
+    endTime: b.endTime,
+  }));
+
+  const accepted: AcceptedRow[] = [];
+  const issues: ImportIssue[] = [];
+  const seenKeys = new Set<string>();
+
+  for (const row of rows) {
+    const key = `${row.guestEmail}|${row.startTime.getTime()}`;
+    if (existingKeys.has(key) || seenKeys.has(key)) {
+      issues.push({ line: row.line, kind: 'duplicate', message: `${row.guestName} at ${row.startTime.toISOString()} is already booked` });
+      continue;
+    }
+
+    const numbers = row.tableNumber ? row.tableNumber.split('+').map(n => n.trim().toLowerCase()).filter(Boolean) : [];
+    const rowTables = numbers.map(n => byNumber.get(n));
+    const missing = numbers.filter((_, i) => !rowTables[i]);
+    if (missing.length > 0) {
+      issues.push({ line: row.line, kind: 'invalid', message: `Table ${missing.join(', ')} does not exist` });
+      continue;
+    }
+
+    const found = rowTables as ImportTable[];
+    const capacity = found.reduce((sum, t) => sum + t.maxCapacity, 0);
+    if (found.length > 0 && row.partySize > capacity) {
+      issues.push({
+        line: row.line,
+        kind: 'invalid',
+        message: `Party of ${row.partySize} does not fit table ${row.tableNumber} (seats ${capacity})`,
+      });
+      continue;
+    }
+
+    const endTime = row.endTime ?? addMinutes(row.startTime, defaultDurationMinutes);
+    const tableIds = found.map(t => t.id);
+    if (tableIds.length > 0 && row.status !== 'cancelled') {
+      const clash = held.find(h =>
+        h.tableIds.some(id => tableIds.includes(id)) && overlaps(row.startTime, endTime, h.startTime, h.endTime)
+      );
+      if (clash) {
+        issues.push({
+          line: row.line,
+          kind: 'conflict',
+          message: `Table ${row.tableNumber} is already booked from ${clash.startTime.toISOString()} to ${clash.endTime.toISOString()}`,
+        });
+        continue;
+      }
+      held.push({ tableIds, startTime: row.startTime, endTime });
+    }
+
+    seenKeys.add(key);
+    accepted.push({
+      ...row,
+      tableId: tableIds.length === 1 ? tableIds[0] : null,
+      combinedTableIds: tableIds.length > 1 ? tableIds : null,
+      endTime,
+    });
+  }
+
+  return { accepted, issues };
+}
@@ -0,0 +1,281 @@
+import { db, guestProfiles, restaurantReservations, restaurantTables, and, eq, gte, inArray, lte, ne, sql } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import { addMinutes } from 'date-fns';
+import { publishReservationEvent } from './reservation-events';
+import { getOverlappingBookings, getServiceSchedule, SlotGridRestaurant, turnTimeFor } from './availability';
+import { lockTables } from './booking-holds';
+import { heldTableIds, TablesBusyError } from './hold-policy';
+import { BookedWindow } from './slot-grid';
+import { reliabilityScore } from './reliability';
+import {
+  AcceptedRow,
+  checkImportRows,
+  ExistingBooking,
+  ExportableReservation,
+  ImportFormat,
+  ImportIssue,
+  ImportRow,
+  rowsFromCsv,
+  rowsFromIcs,
+} from './reservation-formats';
+
+/** Rows written per insert statement */
+const INSERT_CHUNK_SIZE = 500;
+
+type RestaurantTable = InferSelectModel<typeof restaurantTables>;
+type GuestProfile = InferSelectModel<typeof guestProfiles>;
+type Reservation = InferSelectModel<typeof restaurantReservations>;
+
+export interface ImportSummary {
+  /** Rows read from the file */
+  total: number;
+  /** Rows written, or that would be written on a dry run */
+  imported: number;
+  guestsUpserted: number;
+  issues: ImportIssue[];
+  dryRun: boolean;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/**
+ * Adds imported history to guest profiles: a seated visit for every past
+ * confirmed booking, and no-shows. Reliability scores are recomputed from the
+ * combined history.
+ */
+async function upsertImportedGuests(restaurantId: string, rows: AcceptedRow[], now: Date): Promise<number> {
+  const guests = new Map<string, { name: string; seated: number; noShows: number; lastVisitAt: Date | null }>();
+  for (const row of rows) {
+    const guest = guests.get(row.guestEmail) || { name: row.guestName, seated: 0, noShows: 0, lastVisitAt: null };
+    guest.name = row.guestName;
+    if (row.status === 'confirmed' && row.startTime < now) {
+      guest.seated++;
+      if (!guest.lastVisitAt || row.startTime > guest.lastVisitAt) guest.lastVisitAt = row.startTime;
+    }
+    if (row.status === 'noshow') guest.noShows++;
+    guests.set(row.guestEmail, guest);
+  }
+  if (guests.size === 0) return 0;
+
+  const emails = [...guests.keys()];
+  const existing: GuestProfile[] = [];
+  for (const batch of chunk(emails, INSERT_CHUNK_SIZE)) {
+    existing.push(...await db.query.guestProfiles.findMany({
+      where: and(eq(guestProfiles.restaurantId, restaurantId), inArray(guestProfiles.email, batch)),
+    }));
+  }
+  const profiles = new Map(existing.map(p => [p.email, p]));
+
+  const values = emails.map(email => {
+    const guest = guests.get(email)!;
+    const profile = profiles.get(email);
+    const seatedCount = (profile?.seatedCount || 0) + guest.seated;
+    const noShowCount = (profile?.noShowCount || 0) + guest.noShows;
+    return {
+      restaurantId,
+      email,
+      name: guest.name,
+      visitCount: guest.seated,
+      seatedCount: guest.seated,
+      noShowCount: guest.noShows,
+      reliabilityScore: reliabilityScore({ seatedCount, noShowCount }),
+      lastVisitAt: guest.lastVisitAt,
+    };
+  });
+
+  for (const batch of chunk(values, INSERT_CHUNK_SIZE)) {
+    await db.insert(guestProfiles).values(batch).onConflictDoUpdate({
+      target: [guestProfiles.restaurantId, guestProfiles.email],
+      set: {
+        visitCount: sql`${guestProfiles.visitCount} + excluded.visit_count`,
+        seatedCount: sql`${guestProfiles.seatedCount} + excluded.seated_count`,
+        noShowCount: sql`${guestProfiles.noShowCount} + excluded.no_show_count`,
+        reliabilityScore: sql`excluded.reliability_score`,
+        lastVisitAt: sql`greatest(${guestProfiles.lastVisitAt}, excluded.last_visit_at)`,
+        updatedAt: new Date(),
+      },
+    });
+  }
+
+  return guests.size;
+}
+
+/**
+ * Imports reservations from a CSV or iCalendar file. Every row is checked
+ * against the restaurant's tables and bookings first; rows with problems are
+ * reported and skipped while the rest are written. With `dryRun` nothing is
+ * written, so the owner can review the report before committing.
+ *
+ * Imported bookings are verified. Past confirmed bookings are marked seated
+ * so the no-show sweep does not flag them. Rows without an end time follow
+ * the restaurant's turn time rules.
+ */
+export async function importReservations(
+  restaurant: SlotGridRestaurant,
+  content: string,
+  format: ImportFormat,
+  options: { dryRun?: boolean } = {}
+): Promise<ImportSummary> {
+  const timezone = restaurant.timezone || 'UTC';
+  const dryRun = options.dryRun ?? false;
+  const parsed = format === 'ics' ? rowsFromIcs(content, timezone) : rowsFromCsv(content, timezone);
+  const total = parsed.rows.length + new Set(parsed.issues.map(i => i.line)).size;
+
+  if (parsed.rows.length === 0) {
+    return { total, imported: 0, guestsUpserted: 0, issues: parsed.issues, dryRun };
+  }
+
+  // The schedule is loaded once rather than per row as getTurnTimeMinutes would
+  const schedule = await getServiceSchedule(restaurant);
+  const rows: ImportRow[] = parsed.rows.map(row => row.endTime ? row : {
+    ...row,
+    endTime: addMinutes(row.startTime, turnTimeFor(restaurant, schedule, row.startTime, row.partySize)),
+  });
+  const duration = restaurant.defaultDurationMinutes || 90;
+
+  const tables: RestaurantTable[] = await db.query.restaurantTables.findMany({
+    where: eq(restaurantTables.restaurantId, restaurant.id),
+  });
+  const check = async (batch: ImportRow[]) => {
+    const from = new Date(Math.min(...batch.map(r => r.startTime.getTime())));
+    const to = new Date(Math.max(...batch.map(r => r.endTime!.getTime())));
+    return checkImportRows(batch, tables, await loadExistingBookings(restaurant.id, from, to), duration);
+  };
+  const byLine = (a: ImportIssue, b: ImportIssue) => a.line - b.line;
+
+  const preview = await check(rows);
+  const issues = [...parsed.issues, ...preview.issues];
+  if (dryRun || preview.accepted.length === 0) {
+    const { accepted } = preview;
+    return { total, imported: accepted.length, guestsUpserted: new Set(accepted.map(r => r.guestEmail)).size, issues: issues.sort(byLine), dryRun };
+  }
+
+  // Bookings made since the preview may have taken some of the tables, so
+  // each chunk is checked again and written under the locks of the tables it
+  // uses. Locking chunk by chunk keeps every lock well inside its TTL.
+  const now = new Date();
+  const accepted: AcceptedRow[] = [];
+  for (const batch of chunk(preview.accepted, INSERT_CHUNK_SIZE)) {
+    const tableIds = [...new Set(batch.flatMap(row => heldTableIds(row)))];
+    const result = await lockTables(tableIds, async () => {
+      const checked = await check(batch);
+      return { ...checked, imported: await insertImportedRows(restaurant.id, checked.accepted, format, now) };
+    }).catch(error => {
+      if (!(error instanceof TablesBusyError)) throw error;
+      return {
+        accepted: [],
+        issues: batch.map((row): ImportIssue => ({
+          line: row.line,
+          kind: 'conflict',
+          message: `${row.guestName} at ${row.startTime.toISOString()} was skipped while its tables were being booked; import the file again to add it`,
+        })),
+        imported: [],
+      };
+    });
+
+    accepted.push(...result.accepted);
+    issues.push(...result.issues);
+    await publishReservationEvent(restaurant, { type: 'RESERVATION_IMPORTED', reservations: result.imported });
+  }
+
+  const guestsUpserted = await upsertImportedGuests(restaurant.id, accepted, now);
+  return { total, imported: accepted.length, guestsUpserted, issues: issues.sort(byLine), dryRun };
+}
+
+/**
+ * Everything overlapping [from, to] that an imported row could clash with:
+ * existing reservations (with their guest emails, to spot duplicates) plus
+ * live booking holds and private events.
+ */
+async function loadExistingBookings(restaurantId: string, from: Date, to: Date): Promise<ExistingBooking[]> {
+  const [reservations, blocked]: [ExistingBooking[], BookedWindow[]] = await Promise.all([
+    db
+      .select({
+        tableId: restaurantReservations.tableId,
+        combinedTableIds: restaurantReservations.combinedTableIds,
+        startTime: restaurantReservations.startTime,
+        endTime: restaurantReservations.endTime,
+        partySize: restaurantReservations.partySize,
+        guestEmail: restaurantReservations.guestEmail,
+      })
+      .from(restaurantReservations)
+      .where(and(
+        eq(restaurantReservations.restaurantId, restaurantId),
+        ne(restaurantReservations.status, 'cancelled'),
+        lte(restaurantReservations.startTime, to),
+        gte(restaurantReservations.endTime, from)
+      )),
+    getOverlappingBookings(restaurantId, from, to),
+  ]);
+  return [...reservations, ...blocked.map(b => ({ ...b, guestEmail: null }))];
+}
+
+async function insertImportedRows(
+  restaurantId: string,
+  accepted: AcceptedRow[],
+  format: ImportFormat,
+  now: Date
+): Promise<Reservation[]> {
+  const inserted: Reservation[] = [];
+  for (const batch of chunk(accepted, INSERT_CHUNK_SIZE)) {
+    inserted.push(...await db.insert(restaurantReservations).values(batch.map(row => ({
+      restaurantId,
+      tableId: row.tableId,
+      combinedTableIds: row.combinedTableIds,
+      guestName: row.guestName,
+      guestEmail: row.guestEmail,
+      partySize: row.partySize,
+      startTime: row.startTime,
+      endTime: row.endTime,
+      status: row.status,
+      isVerified: true,
+      seatedAt: row.status === 'confirmed' && row.startTime < now ? row.startTime : null,
+      metadata: { importedFrom: format, externalId: row.externalId },
+    }))).returning());
+  }
+  return inserted;
+}
+
+/**
+ * Reservations starting in [from, to], soonest first, optionally limited to
+ * one status. Unverified holds are left out.
+ */
+export async function getReservationsForExport(
+  restaurantId: string,
+  options: { from: Date; to: Date; status?: string | null }
+): Promise<ExportableReservation[]> {
+  const [reservations, tables]: [InferSelectModel<typeof restaurantReservations>[], RestaurantTable[]] = await Promise.all([
+    db.query.restaurantReservations.findMany({
+      where: and(
+        eq(restaurantReservations.restaurantId, restaurantId),
+        eq(restaurantReservations.isVerified, true),
+        gte(restaurantReservations.startTime, options.from),
+        lte(restaurantReservations.startTime, options.to),
+        options.status ? eq(restaurantReservations.status, options.status) : undefined
+      ),
+      orderBy: (r: any, { asc }: any) => [asc(r.startTime)],
+    }),
+    db.query.restaurantTables.findMany({
+      where: eq(restaurantTables.restaurantId, restaurantId),
+    }),
+  ]);
+
+  const numbers = new Map(tables.map(t => [t.id, t.tableNumber]));
+  return reservations.map(r => {
+    const tableIds = r.combinedTableIds?.length ? r.combinedTableIds : r.tableId ? [r.tableId] : [];
+    return {
+      id: r.id,
+      guestName: r.guestName,
+      guestEmail: r.guestEmail,
+      partySize: r.partySize,
+      startTime: r.startTime,
+      endTime: r.endTime,
+      status: r.status,
+      tableNumber: tableIds.map(id => numbers.get(id)).filter(Boolean).join('+') || null,
+    };
+  });
+}
@@ -0,0 +1,389 @@
+import { db, reservationSeries, restaurants, restaurantReservations, restaurantTables, and, eq, gt, gte, isNull } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import { addDays, addMinutes, format, parseISO, subDays } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { NotifyService } from './notifications';
+import { publishReservationEvent } from './reservation-events';
+import { sendConfirmationEmail } from './reservation-emails';
+import {
+  getAvailableTables,
+  getServiceSchedule,
+  turnTimeFor,
+  validateCombinationForRestaurant,
+} from './availability';
+import { isOpenAt, TIME_PATTERN } from './service-schedule';
+import { parseCombinationId, pickBestTables } from './table-combinations';
+import { getRequiredDeposit } from './no-shows';
+import { bookTables, BookingOutcome } from './bookings';
+import { TablesBusyError } from './hold-policy';
+import {
+  describeRecurrence,
+  expandOccurrences,
+  isCalendarDate,
+  occurrenceStart,
+  parseRecurrenceRule,
+  validateRecurrenceRule,
+} from './recurrence';
+
+/** Occurrences are booked this many days ahead; the cleanup cron rolls it forward */
+export const SERIES_HORIZON_DAYS = 90;
+
+type Restaurant = InferSelectModel<typeof restaurants>;
+type ReservationSeries = InferSelectModel<typeof reservationSeries>;
+type Reservation = InferSelectModel<typeof restaurantReservations>;
+
+export interface SkippedOccurrence {
+  date: string;
+  reason: 'closed' | 'table_unavailable' | 'fully_booked' | 'pacing_limit';
+}
+
+export interface SeriesBookingResult {
+  booked: Reservation[];
+  skipped: SkippedOccurrence[];
+}
+
+function localDate(instant: Date, timezone: string): string {
+  return formatInTimeZone(instant, timezone, 'yyyy-MM-dd');
+}
+
+/**
+ * Books every occurrence of a series from the day after its last booked
+ * date (or today) through `through`. Occurrences that cannot be seated -
+ * closed days, a fixed table already taken, no table free, pacing - are
+ * skipped and reported rather than failing the series.
+ */
+async function bookOccurrences(
+  series: ReservationSeries,
+  restaurant: Restaurant,
+  through: string
+): Promise<SeriesBookingResult> {
+  const timezone = restaurant.timezone || 'UTC';
+  const now = new Date();
+  const today = localDate(now, timezone);
+  const from = series.materializedThrough && series.materializedThrough >= today
+    ? format(addDays(parseISO(series.materializedThrough), 1), 'yyyy-MM-dd')
+    : today;
+
+  const booked: Reservation[] = [];
+  const skipped: SkippedOccurrence[] = [];
+  if (from > through) return { booked, skipped };
+
+  const schedule = await getServiceSchedule(restaurant);
+  const dates = expandOccurrences(parseRecurrenceRule(series.rrule), series, from, through);
+  const fixedTableIds = series.combinedTableIds?.length
+    ? series.combinedTableIds
+    : series.tableId ? [series.tableId] : [];
+
+  for (const date of dates) {
+    const start = occurrenceStart(date, series.startTime, timezone);
+    if (start <= now) continue;
+
+    if (!isOpenAt(start, timezone, schedule)) {
+      skipped.push({ date, reason: 'closed' });
+      continue;
+    }
+
+    const duration = turnTimeFor(restaurant, schedule, start, series.partySize);
+    const end = addMinutes(start, duration);
+    let tableId: string | null = null;
+    let combinedTableIds: string[] | null = null;
+
+    if (fixedTableIds.length > 0) {
+      tableId = series.tableId;
+      combinedTableIds = series.combinedTableIds?.length ? series.combinedTableIds : null;
+    } else {
+      const best = pickBestTables(await getAvailableTables(restaurant.id, start, series.partySize, duration), series.partySize);
+      if (!best) {
+        skipped.push({ date, reason: 'fully_booked' });
+        continue;
+      }
+      if (best.isCombined) combinedTableIds = best.combinedTableIds;
+      else tableId = best.id;
+    }
+
+    // A table still busy after the lock wait counts as taken for this date
+    const outcome = await bookTables(restaurant, {
+      restaurantId: restaurant.id,
+      tableId,
+      combinedTableIds,
+      guestName: series.guestName,
+      guestEmail: series.guestEmail,
+      partySize: series.partySize,
+      startTime: start,
+      endTime: end,
+      status: 'confirmed',
+      isVerified: true,
+      depositAmount: 0,
+      depositStatus: null,
+      seriesId: series.id,
+      occurrenceDate: date,
+    }).catch((error): BookingOutcome => {
+      if (error instanceof TablesBusyError) return { conflicts: fixedTableIds };
+      throw error;
+    });
+
+    if (outcome.conflicts) {
+      skipped.push({ date, reason: fixedTableIds.length > 0 ? 'table_unavailable' : 'fully_booked' });
+      continue;
+    }
+    if (outcome.paced) {
+      skipped.push({ date, reason: 'pacing_limit' });
+      continue;
+    }
+    booked.push(outcome.reservation);
+  }
+
+  await db.update(reservationSeries)
+    .set({ materializedThrough: through, updatedAt: new Date() })
+    .where(eq(reservationSeries.id, series.id));
+
+  // Occurrences are confirmed as booked, so each gets its confirmation and reminders
+  for (const reservation of booked) {
+    await sendConfirmationEmail(reservation, restaurant);
+  }
+
+  return { booked, skipped };
+}
+
+/**
+ * Creates a standing reservation and books its occurrences for the next
+ * SERIES_HORIZON_DAYS. `tableId` may be a single table, a combination
+ * ("id1+id2") or omitted to assign the best table per occurrence.
+ *
+ * Guests who would owe a deposit cannot hold a series: occurrences are
+ * confirmed without payment.
+ */
+export async function createReservationSeries(input: {
+  restaurantId: string;
+  tableId?: string | null;
+  guestName: string;
+  guestEmail: string;
+  partySize: number;
+  firstDate: string;
+  time: string;
+  rrule: string;
+  endDate?: string | null;
+  exceptionDates?: string[] | null;
+}): Promise<SeriesBookingResult & { series: ReservationSeries; description: string }> {
+  const ruleError = validateRecurrenceRule(input.rrule);
+  if (ruleError) throw new Error(ruleError);
+  if (!isCalendarDate(input.firstDate)) throw new Error("First date must be yyyy-MM-dd");
+  if (!TIME_PATTERN.test(input.time)) throw new Error("Time must be HH:mm");
+  if (input.endDate && (!isCalendarDate(input.endDate) || input.endDate < input.firstDate)) {
+    throw new Error("End date must be yyyy-MM-dd and not before the first date");
+  }
+  if ((input.exceptionDates || []).some(d => !isCalendarDate(d))) {
+    throw new Error("Exception dates must be yyyy-MM-dd");
+  }
+  if (!Number.isInteger(input.partySize) || input.partySize < 1) throw new Error("Party size must be at least 1");
+
+  const restaurant = await db.query.restaurants.findFirst({
+    where: eq(restaurants.id, input.restaurantId),
+  });
+  if (!restaurant) throw new Error("Restaurant not found");
+
+  const timezone = restaurant.timezone || 'UTC';
+  if (input.firstDate < localDate(new Date(), timezone)) throw new Error("First date is in the past");
+
+  if ((await getRequiredDeposit(restaurant, input.guestEmail)) > 0) {
+    throw new Error("This guest must pay a deposit per booking and cannot hold a standing reservation");
+  }
+
+  const tableIds = input.tableId ? parseCombinationId(input.tableId) : [];
+  if (tableIds.length > 1) {
+    const validation = await validateCombinationForRestaurant(
+      restaurant.id,
+      tableIds,
+      input.partySize,
+      occurrenceStart(input.firstDate, input.time, timezone)
+    );
+    if (!validation.valid) throw new Error(validation.error);
+  } else if (tableIds.length === 1) {
+    const table = await db.query.restaurantTables.findFirst({
+      where: and(eq(restaurantTables.id, tableIds[0]), eq(restaurantTables.restaurantId, restaurant.id)),
+    });
+    if (!table) throw new Error("Table not found");
+    if (table.maxCapacity < input.partySize) throw new Error(`Table ${table.tableNumber} seats at most ${table.maxCapacity}`);
+  }
+
+  const [series] = await db.insert(reservationSeries).values({
+    restaurantId: restaurant.id,
+    tableId: tableIds.length === 1 ? tableIds[0] : null,
+    combinedTableIds: tableIds.length > 1 ? tableIds : null,
+    guestName: input.guestName,
+    guestEmail: input.guestEmail,
+    partySize: input.partySize,
+    rrule: input.rrule.trim().replace(/^RRULE:/i, ''),
+    firstDate: input.firstDate,
+    startTime: input.time,
+    endDate: input.endDate || null,
+    exceptionDates: [...new Set(input.exceptionDates || [])].sort(),
+  }).returning();
+
+  const result = await bookOccurrences(series, restaurant, localDate(addDays(new Date(), SERIES_HORIZON_DAYS), timezone));
+
+  if (result.booked.length > 0) {
+    await NotifyService.notifyOwner(restaurant.ownerEmail, {
+      guestName: series.guestName,
+      partySize: series.partySize,
+      startTime: result.booked[0].startTime,
+    });
+    await NotifyService.broadcast(restaurant.id, 'NEW_RESERVATION', {
+      seriesId: series.id,
+      reservationIds: result.booked.map(r => r.id),
+    });
+  }
+
+  return {
+    series,
+    description: `${describeRecurrence(parseRecurrenceRule(series.rrule), series.firstDate)} at ${series.startTime}`,
+    ...result,
+  };
+}
+
+/**
+ * Rolls every active series forward to the booking horizon. Called from the
+ * cleanup cron; returns the number of occurrences booked.
+ */
+export async function extendReservationSeries(now = new Date()): Promise<number> {
+  const active = await db.query.reservationSeries.findMany({
+    where: eq(reservationSeries.status, 'active'),
+    with: {
+      restaurant: true,
+    },
+  });
+
+  let bookedCount = 0;
+  for (const series of active) {
+    const through = localDate(addDays(now, SERIES_HORIZON_DAYS), series.restaurant.timezone || 'UTC');
+    if (series.materializedThrough && series.materializedThrough >= through) continue;
+    if (series.endDate && series.materializedThrough && series.materializedThrough >= series.endDate) continue;
+
+    const { booked } = await bookOccurrences(series, series.restaurant, through);
+    bookedCount += booked.length;
+    if (booked.length > 0) {
+      await NotifyService.broadcast(series.restaurantId, 'NEW_RESERVATION', {
+        seriesId: series.id,
+        reservationIds: booked.map(r => r.id),
+      });
+    }
+  }
+  return bookedCount;
+}
+
+/**
+ * Cancels a series. With `fromDate` the series ends the day before and only
+ * occurrences on or after that date are cancelled; without it the whole
+ * series stops. Occurrences already started are left alone. Returns the
+ * cancelled reservations, or null when the series does not exist.
+ */
+export async function cancelReservationSeries(
+  seriesId: string,
+  options: { fromDate?: string | null; restaurantId?: string } = {}
+): Promise<{ series: ReservationSeries; cancelled: Reservation[] } | null> {
+  const existing = await db.query.reservationSeries.findFirst({
+    where: and(
+      eq(reservationSeries.id, seriesId),
+      options.restaurantId ? eq(reservationSeries.restaurantId, options.restaurantId) : undefined
+    ),
+  });
+  if (!existing) return null;
+
+  if (options.fromDate && !isCalendarDate(options.fromDate)) throw new Error("From date must be yyyy-MM-dd");
+  const endsWholeSeries = !options.fromDate || options.fromDate <= existing.firstDate;
+
+  const [series] = await db.update(reservationSeries)
+    .set(endsWholeSeries
+      ? { status: 'cancelled', updatedAt: new Date() }
+      : { endDate: format(subDays(parseISO(options.fromDate!), 1), 'yyyy-MM-dd'), updatedAt: new Date() })
+    .where(eq(reservationSeries.id, seriesId))
+    .returning();
+
+  const cancelled = await db.update(restaurantReservations)
+    .set({ status: 'cancelled' })
+    .where(and(
+      eq(restaurantReservations.seriesId, seriesId),
+      eq(restaurantReservations.status, 'confirmed'),
+      isNull(restaurantReservations.seatedAt),
+      gt(restaurantReservations.startTime, new Date()),
+      endsWholeSeries ? undefined : gte(restaurantReservations.occurrenceDate, options.fromDate!)
+    ))
+    .returning();
+
+  if (cancelled.length > 0) {
+    await NotifyService.broadcast(series.restaurantId, 'RESERVATION_CANCELLED', {
+      seriesId,
+      reservationIds: cancelled.map((r: Reservation) => r.id),
+    });
+    await publishSeriesCancellations(series.restaurantId, cancelled);
+  }
+
+  return { series, cancelled };
+}
+
+/**
+ * Skips one date of a series: the date becomes an exception so it is never
+ * re-booked, and its occurrence is cancelled if already booked. Returns the
+ * cancelled occurrence, if any.
+ */
+export async function skipSeriesOccurrence(
+  seriesId: string,
+  date: string,
+  restaurantId?: string
+): Promise<{ series: ReservationSeries; cancelled: Reservation | null } | null> {
+  if (!isCalendarDate(date)) throw new Error("Date must be yyyy-MM-dd");
+
+  const series = await recordSeriesException(seriesId, date, restaurantId);
+  if (!series) return null;
+
+  const [cancelled] = await db.update(restaurantReservations)
+    .set({ status: 'cancelled' })
+    .where(and(
+      eq(restaurantReservations.seriesId, seriesId),
+      eq(restaurantReservations.occurrenceDate, date),
+      eq(restaurantReservations.status, 'confirmed'),
+      isNull(restaurantReservations.seatedAt)
+    ))
+    .returning();
+
+  if (cancelled) {
+    await NotifyService.broadcast(series.restaurantId, 'RESERVATION_CANCELLED', {
+      id: cancelled.id,
+      seriesId,
+    });
+    await publishSeriesCancellations(series.restaurantId, [cancelled]);
+  }
+
+  return { series, cancelled: cancelled || null };
+}
+
+async function publishSeriesCancellations(restaurantId: string, cancelled: Reservation[]) {
+  const restaurant = await db.query.restaurants.findFirst({
+    where: eq(restaurants.id, restaurantId),
+  });
+  if (restaurant) {
+    await publishReservationEvent(restaurant, { type: 'RESERVATION_CANCELLED', reservations: cancelled });
+  }
+}
+
+/**
+ * Adds a date to a series' exceptions. Called when a single occurrence is
+ * cancelled so the horizon roll-forward does not book it again.
+ */
+export async function recordSeriesException(seriesId: string, date: string, restaurantId?: string) {
+  const series = await db.query.reservationSeries.findFirst({
+    where: and(
+      eq(reservationSeries.id, seriesId),
+      restaurantId ? eq(reservationSeries.restaurantId, restaurantId) : undefined
+    ),
+  });
+  if (!series) return null;
+
+  const exceptionDates = [...new Set([...(series.exceptionDates || []), date])].sort();
+  const [updated] = await db.update(reservationSeries)
+    .set({ exceptionDates, updatedAt: new Date() })
+    .where(eq(reservationSeries.id, seriesId))
+    .returning();
+  return updated as ReservationSeries;
+}
+
@@ -0,0 +1,155 @@
+/**
+ * Service Schedule
+ *
+ * A restaurant's week is a set of service periods per weekday (e.g. lunch
+ * 11:30-14:00 and dinner 17:30-22:00). Dated exceptions override the week:
+ * either a full closure (holidays, private events) or special hours.
+ *
+ * Period times are "HH:mm" in the restaurant's timezone. The end time is the
+ * last bookable seating, matching the legacy openingTime/closingTime check.
+ *
+ * Pure helpers only; loading from the database lives in ./availability.
+ */
+
+import { format, parseISO } from 'date-fns';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+
+export const WEEKDAYS = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface ServicePeriod {
+  name?: string;
+  startTime: string;
+  endTime: string;
+}
+
+export type WeeklySchedule = Partial<Record<Weekday, ServicePeriod[]>>;
+
+export interface ScheduleException {
+  date: string;
+  isClosed: boolean;
+  periods?: ServicePeriod[] | null;
+  reason?: string | null;
+}
+
+export interface ServiceSchedule {
+  weekly: WeeklySchedule;
+  exceptions: ScheduleException[];
+}
+
+/** Restaurant fields the schedule is derived from */
+export interface ScheduleSource {
+  openingTime: string | null;
+  closingTime: string | null;
+  daysOpen: string | null;
+  serviceSchedule?: WeeklySchedule | null;
+}
+
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * The weekly schedule for a restaurant. Restaurants that never configured
+ * service periods get one period per open day from their legacy fields.
+ */
+export function weeklyScheduleFor(source: ScheduleSource): WeeklySchedule {
+  if (source.serviceSchedule) return source.serviceSchedule;
+
+  const openDays = source.daysOpen?.split(',').map(d => d.trim().toLowerCase()) || [];
+  const period: ServicePeriod = {
+    startTime: source.openingTime || '00:00',
+    endTime: source.closingTime || '23:59',
+  };
+
+  const weekly: WeeklySchedule = {};
+  for (const day of WEEKDAYS) {
+    if (openDays.includes(day)) weekly[day] = [period];
+  }
+  return weekly;
+}
+
+/**
+ * Service periods for a calendar date (yyyy-MM-dd), applying any exception.
+ * An empty list means the restaurant is closed that day.
+ */
+export function servicePeriodsForDate(date: string, schedule: ServiceSchedule): ServicePeriod[] {
+  const exception = schedule.exceptions.find(e => e.date === date);
+  if (exception) {
+    return exception.isClosed ? [] : exception.periods || [];
+  }
+
+  // A calendar date has the same weekday in every timezone
+  const weekday = format(parseISO(date), 'eeee').toLowerCase() as Weekday;
+  return schedule.weekly[weekday] || [];
+}
+
+/**
+ * The service period an instant falls into, evaluated in the restaurant's
+ * timezone, together with the local weekday. `period` is null outside service.
+ */
+export function servicePeriodAt(
+  instant: Date,
+  timezone: string,
+  schedule: ServiceSchedule
+): { weekday: Weekday; period: ServicePeriod | null } {
+  const local = toZonedTime(instant, timezone);
+  const date = format(local, 'yyyy-MM-dd');
+  const time = format(local, 'HH:mm');
+
+  const period = servicePeriodsForDate(date, schedule).find(p => time >= p.startTime && time <= p.endTime);
+  return { weekday: format(local, 'eeee').toLowerCase() as Weekday, period: period || null };
+}
+
+/**
+ * End of the shift an instant belongs to: the service period it falls in,
+ * or the next one later that day. Null when service is over for the day.
+ */
+export function shiftEndAfter(instant: Date, timezone: string, schedule: ServiceSchedule): Date | null {
+  const local = toZonedTime(instant, timezone);
+  const date = format(local, 'yyyy-MM-dd');
+  const time = format(local, 'HH:mm');
+
+  const period = servicePeriodsForDate(date, schedule)
+    .filter(p => p.endTime >= time)
+    .sort((a, b) => a.endTime.localeCompare(b.endTime))[0];
+  return period ? fromZonedTime(`${date}T${period.endTime}:00`, timezone) : null;
+}
+
+/**
+ * True when an instant falls inside service, evaluated in the restaurant's
+ * timezone.
+ */
+export function isOpenAt(instant: Date, timezone: string, schedule: ServiceSchedule): boolean {
+  return servicePeriodAt(instant, timezone, schedule).period !== null;
+}
+
+/**
+ * Returns an error message for an invalid list of periods, or null.
+ * Periods must be well-formed, start before they end and not overlap.
+ */
+export function validateServicePeriods(periods: ServicePeriod[]): string | null {
+  for (const period of periods) {
+    if (!TIME_PATTERN.test(period.startTime) || !TIME_PATTERN.test(period.endTime)) {
+      return `Invalid time in period ${period.name || `${period.startTime}-${period.endTime}`}`;
+    }
+    if (period.startTime >= period.endTime) {
+      return `Period ${period.name || `${period.startTime}-${period.endTime}`} must start before it ends`;
+    }
+  }
+
+  const sorted = [...periods].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].startTime <= sorted[i - 1].endTime) {
+      return 'Service periods on the same day must not overlap';
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,136 @@
+/**
+ * Slot Grid & Cover Pacing
+ *
+ * Builds the list of bookable start times for a service day and enforces
+ * cover pacing: a cap on how many new guests may be seated within each
+ * pacing window (e.g. at most 20 covers per 15 minutes) so the kitchen is not
+ * hit by every ticket at once.
+ *
+ * Pure helpers only; the database-backed grid lives in ./availability.
+ */
+
+import { fromZonedTime } from 'date-fns-tz';
+
+/** Supported intervals between bookable slots, in minutes */
+export const SLOT_INTERVALS = [15, 30] as const;
+export type SlotInterval = typeof SLOT_INTERVALS[number];
+
+export const DEFAULT_SLOT_INTERVAL: SlotInterval = 15;
+export const DEFAULT_PACING_WINDOW_MINUTES = 15;
+
+/** A reservation reduced to what the grid needs */
+export interface BookedWindow {
+  tableId: string | null;
+  combinedTableIds: string[] | null;
+  startTime: Date;
+  endTime: Date;
+  partySize: number;
+  /** Set when the window is a private event buying out the tables */
+  privateEventId?: string;
+}
+
+export interface PacingPolicy {
+  maxCovers: number | null;
+  windowMinutes: number;
+}
+
+export function isSlotInterval(value: number): value is SlotInterval {
+  return (SLOT_INTERVALS as readonly number[]).includes(value);
+}
+
+/**
+ * Returns every slot start between opening and closing time (inclusive) on
+ * `date` (yyyy-MM-dd), interpreted in the restaurant's timezone.
+ */
+export function generateServiceSlots(
+  date: string,
+  openingTime: string,
+  closingTime: string,
+  interval: number,
+  timezone: string
+): Date[] {
+  const slots: Date[] = [];
+  const [openH, openM] = openingTime.split(':').map(Number);
+  const [closeH, closeM] = closingTime.split(':').map(Number);
+  const close = closeH * 60 + closeM;
+
+  for (let minutes = openH * 60 + openM; minutes <= close; minutes += interval) {
+    const time = `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+    slots.push(fromZonedTime(`${date} ${time}`, timezone));
+  }
+
+  return slots;
+}
+
+/**
+ * Tables held by any booking overlapping [start, end). Mirrors the SQL
+ * OVERLAPS predicate used when the bookings were loaded.
+ */
+export function occupiedTableIdsBetween(bookings: BookedWindow[], start: Date, end: Date): Set<string> {
+  const occupied = new Set<string>();
+
+  for (const booking of bookings) {
+    if (booking.startTime < end && booking.endTime > start) {
+      if (booking.tableId) occupied.add(booking.tableId);
+      booking.combinedTableIds?.forEach(id => occupied.add(id));
+    }
+  }
+
+  return occupied;
+}
+
+/**
+ * The pacing window containing `time`. Windows are aligned to the epoch so
+ * every caller agrees on the boundaries.
+ */
+export function pacingWindowFor(time: Date, windowMinutes: number): { start: Date; end: Date } {
+  const windowMs = windowMinutes * 60 * 1000;
+  const start = new Date(Math.floor(time.getTime() / windowMs) * windowMs);
+  return { start, end: new Date(start.getTime() + windowMs) };
+}
+
+/** Number of guests whose bookings start within [start, end) */
+export function coversStartingBetween(bookings: BookedWindow[], start: Date, end: Date): number {
+  return bookings
+    .filter(b => b.startTime >= start && b.startTime < end)
+    .reduce((sum, b) => sum + b.partySize, 0);
+}
+
+/**
+ * True when seating `partySize` more guests at `startTime` would push the
+ * pacing window over its cover limit.
+ */
+export function exceedsCoverPacing(
+  bookings: BookedWindow[],
+  startTime: Date,
+  partySize: number,
+  policy: PacingPolicy
+): boolean {
+  if (!policy.maxCovers) return false;
+
+  const window = pacingWindowFor(startTime, policy.windowMinutes);
+  return coversStartingBetween(bookings, window.start, window.end) + partySize > policy.maxCovers;
+}
+
+/**
+ * Why a booking of `tableIds` over [startTime, endTime) cannot be written
+ * against `bookings`: the tables it shares with an overlapping booking, or
+ * the pacing limit when `policy` is given and the party would exceed it.
+ * Table conflicts are reported before pacing. Returns null when the booking
+ * can go ahead.
+ */
+export function bookingRefusal(
+  bookings: BookedWindow[],
+  tableIds: string[],
+  startTime: Date,
+  endTime: Date,
+  partySize: number,
+  policy: PacingPolicy | null
+): { conflicts: string[] } | { paced: true } | null {
+  const occupied = occupiedTableIdsBetween(bookings, startTime, endTime);
+  const conflicts = tableIds.filter(id => occupied.has(id));
+  if (conflicts.length > 0) return { conflicts };
+
+  if (policy && exceedsCoverPacing(bookings, startTime, partySize, policy)) return { paced: true };
+  return null;
+}
@@ -0,0 +1,114 @@
+/**
+ * Staff Roles
+ *
+ * Everyone operating a restaurant has one of four roles:
+ * - owner: everything, including billing, API keys, webhooks and managers
+ * - manager: runs the restaurant (settings, floor plan, menu, staff) but
+ *   cannot connect payouts, regenerate API keys or appoint owners/managers
+ * - host: the front of house; reservations, waitlist, guests and seating
+ * - kitchen: menu stock, delivery orders and the day's bookings
+ *
+ * The restaurant's `ownerId` and the owner of its organisation are owners.
+ * Invited staff hold a role for one restaurant or for every restaurant in an
+ * organisation; when a user has several memberships the strongest role wins.
+ *
+ * Pure helpers only; loading memberships lives in ./staff.
+ */
+
+export const STAFF_ROLES = ['owner', 'manager', 'host', 'kitchen'] as const;
+export type StaffRole = typeof STAFF_ROLES[number];
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  host: 'Host',
+  kitchen: 'Kitchen',
+};
+
+/** Roles allowed to perform each dashboard or API operation */
+export const PERMISSIONS = {
+  'dashboard:view': ['owner', 'manager', 'host', 'kitchen'],
+  'reservations:view': ['owner', 'manager', 'host', 'kitchen'],
+  // Create, edit, cancel, import and export reservations; run the waitlist
+  'reservations:manage': ['owner', 'manager', 'host'],
+  'guests:manage': ['owner', 'manager', 'host'],
+  // Private events and buyouts: minimum spends and deposit schedules
+  'events:manage': ['owner', 'manager'],
+  // Seat parties, set table status and close sections for a shift
+  'floor:operate': ['owner', 'manager', 'host'],
+  // Add, move and remove tables and sections
+  'floor:edit': ['owner', 'manager'],
+  'menu:view': ['owner', 'manager', 'host', 'kitchen'],
+  'menu:stock': ['owner', 'manager', 'kitchen'],
+  'menu:manage': ['owner', 'manager'],
+  // Delivery order status and courier handoff
+  'orders:manage': ['owner', 'manager', 'kitchen'],
+  'settings:manage': ['owner', 'manager'],
+  'analytics:view': ['owner', 'manager'],
+  'staff:manage': ['owner', 'manager'],
+  'organisation:manage': ['owner'],
+  'billing:manage': ['owner'],
+  'api-keys:manage': ['owner'],
+  // Partner webhook endpoints and their signing secrets
+  'webhooks:manage': ['owner'],
+} as const satisfies Record<string, readonly StaffRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+/** Strongest first */
+const ROLE_RANK: Record<StaffRole, number> = { owner: 0, manager: 1, host: 2, kitchen: 3 };
+
+export function isStaffRole(value: unknown): value is StaffRole {
+  return typeof value === 'string' && (STAFF_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * True when the role may perform the operation.
+ */
+export function can(role: StaffRole | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return (PERMISSIONS[permission] as readonly StaffRole[]).includes(role);
+}
+
+/**
+ * The strongest of a user's roles, or null when they have none.
+ */
+export function strongestRole(roles: (StaffRole | null | undefined)[]): StaffRole | null {
+  return roles
+    .filter(isStaffRole)
+    .sort((a, b) => ROLE_RANK[a] - ROLE_RANK[b])[0] ?? null;
+}
+
+/**
+ * Roles the actor may give to others. Owners appoint anyone; managers only
+ * hosts and kitchen staff.
+ */
+export function assignableRoles(actor: StaffRole | null): StaffRole[] {
+  if (actor === 'owner') return [...STAFF_ROLES];
+  if (actor === 'manager') return ['host', 'kitchen'];
+  return [];
+}
+
+/**
+ * Whether the actor may change or remove a member holding `current`, and give
+ * them `next` if set. Managers cannot touch owners or other managers.
+ */
+export function canManageMember(actor: StaffRole | null, current: StaffRole, next?: StaffRole): boolean {
+  const allowed = assignableRoles(actor);
+  return allowed.includes(current) && (next === undefined || allowed.includes(next));
+}
+
+export function normalizeStaffEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Returns an error message for an invalid invite, or null.
+ */
+export function validateStaffInvite(invite: { email: string; role: string }, actor: StaffRole | null): string | null {
+  const email = normalizeStaffEmail(invite.email);
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return 'Enter a valid email address';
+  if (!isStaffRole(invite.role)) return 'Unknown role';
+  if (!assignableRoles(actor).includes(invite.role)) return `You cannot invite staff as ${ROLE_LABELS[invite.role]}`;
+  return null;
+}
@@ -0,0 +1,191 @@
+import { db, organisations, restaurants, staffMembers, and, eq, inArray, or } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import { NotifyService } from './notifications';
+import { isStaffRole, normalizeStaffEmail, ROLE_LABELS, StaffRole, strongestRole } from './staff-roles';
+
+export type StaffMember = InferSelectModel<typeof staffMembers>;
+export type Organisation = InferSelectModel<typeof organisations>;
+type Restaurant = InferSelectModel<typeof restaurants>;
+
+/** The fields needed to work out who may operate a restaurant */
+export type StaffedRestaurant = Pick<Restaurant, 'id' | 'name' | 'ownerId' | 'organisationId'>;
+
+export interface StaffInvite {
+  email: string;
+  role: StaffRole;
+  /** Every restaurant in the organisation instead of just this one */
+  organisationWide: boolean;
+}
+
+export class DuplicateInviteError extends Error {
+  constructor(email: string) {
+    super(`${email} has already been invited`);
+    this.name = 'DuplicateInviteError';
+  }
+}
+
+function membershipScope(restaurant: StaffedRestaurant) {
+  return or(
+    eq(staffMembers.restaurantId, restaurant.id),
+    restaurant.organisationId ? eq(staffMembers.organisationId, restaurant.organisationId) : undefined
+  );
+}
+
+/**
+ * The user's role at the restaurant, or null when they have no access.
+ */
+export async function getStaffRole(restaurant: StaffedRestaurant, userId: string): Promise<StaffRole | null> {
+  if (restaurant.ownerId === userId) return 'owner';
+
+  const [organisation, memberships]: [Organisation | undefined, StaffMember[]] = await Promise.all([
+    restaurant.organisationId
+      ? db.query.organisations.findFirst({ where: eq(organisations.id, restaurant.organisationId) })
+      : Promise.resolve(undefined),
+    db.query.staffMembers.findMany({
+      where: and(eq(staffMembers.userId, userId), eq(staffMembers.status, 'active'), membershipScope(restaurant)),
+    }),
+  ]);
+
+  if (organisation?.ownerId === userId) return 'owner';
+  return strongestRole(memberships.map(m => (isStaffRole(m.role) ? m.role : null)));
+}
+
+/**
+ * Activates invites sent to any of the user's verified email addresses.
+ */
+export async function acceptStaffInvites(userId: string, emails: string[]): Promise<number> {
+  const normalized = emails.map(normalizeStaffEmail);
+  if (normalized.length === 0) return 0;
+
+  const accepted = await db.update(staffMembers)
+    .set({ userId, status: 'active', acceptedAt: new Date() })
+    .where(and(eq(staffMembers.status, 'invited'), inArray(staffMembers.email, normalized)))
+    .returning({ id: staffMembers.id });
+
+  return accepted.length;
+}
+
+/**
+ * Restaurants the user owns, owns through an organisation, or works at.
+ */
+export async function getAccessibleRestaurants(userId: string): Promise<Restaurant[]> {
+  const [ownedOrganisations, memberships]: [Organisation[], StaffMember[]] = await Promise.all([
+    db.query.organisations.findMany({ where: eq(organisations.ownerId, userId) }),
+    db.query.staffMembers.findMany({
+      where: and(eq(staffMembers.userId, userId), eq(staffMembers.status, 'active')),
+    }),
+  ]);
+
+  const organisationIds = [
+    ...ownedOrganisations.map(o => o.id),
+    ...memberships.flatMap(m => (m.organisationId ? [m.organisationId] : [])),
+  ];
+  const restaurantIds = memberships.flatMap(m => (m.restaurantId ? [m.restaurantId] : []));
+
+  return db.query.restaurants.findMany({
+    where: or(
+      eq(restaurants.ownerId, userId),
+      organisationIds.length > 0 ? inArray(restaurants.organisationId, organisationIds) : undefined,
+      restaurantIds.length > 0 ? inArray(restaurants.id, restaurantIds) : undefined
+    ),
+    orderBy: (restaurant: any, { asc }: any) => [asc(restaurant.name)],
+  });
+}
+
+/**
+ * Staff of this restaurant, including organisation-wide members.
+ */
+export async function listStaff(restaurant: StaffedRestaurant): Promise<StaffMember[]> {
+  return db.query.staffMembers.findMany({
+    where: membershipScope(restaurant),
+    orderBy: (member: any, { asc }: any) => [asc(member.email)],
+  });
+}
+
+/**
+ * Invites someone by email and sends them a sign-in link. Throws when the
+ * email already has a membership at this scope.
+ */
+export async function inviteStaff(restaurant: StaffedRestaurant, invite: StaffInvite, invitedBy: string): Promise<StaffMember> {
+  if (invite.organisationWide && !restaurant.organisationId) {
+    throw new Error('This restaurant is not part of an organisation');
+  }
+
+  const email = normalizeStaffEmail(invite.email);
+  const [member] = await db.insert(staffMembers).values({
+    organisationId: invite.organisationWide ? restaurant.organisationId : null,
+    restaurantId: invite.organisationWide ? null : restaurant.id,
+    email,
+    role: invite.role,
+    invitedBy,
+  }).onConflictDoNothing().returning();
+
+  if (!member) throw new DuplicateInviteError(email);
+
+  let placeName = restaurant.name;
+  if (invite.organisationWide && restaurant.organisationId) {
+    const organisation = await db.query.organisations.findFirst({
+      where: eq(organisations.id, restaurant.organisationId),
+    });
+    placeName = organisation?.name ?? placeName;
+  }
+  await NotifyService.sendStaffInvitation(email, placeName, ROLE_LABELS[invite.role]);
+
+  return member;
+}
+
+/**
+ * A membership of this restaurant (directly or through its organisation).
+ */
+export async function findStaffMember(restaurant: StaffedRestaurant, memberId: string): Promise<StaffMember | undefined> {
+  return db.query.staffMembers.findFirst({
+    where: and(eq(staffMembers.id, memberId), membershipScope(restaurant)),
+  });
+}
+
+/**
+ * Puts the restaurant in one of the user's organisations, or in a new one
+ * when given a name.
+ */
+export async function joinOrganisation(
+  restaurant: StaffedRestaurant,
+  userId: string,
+  target: { organisationId: string } | { name: string }
+): Promise<Organisation> {
+  let organisation: Organisation | undefined;
+
+  if ('organisationId' in target) {
+    organisation = await db.query.organisations.findFirst({
+      where: and(eq(organisations.id, target.organisationId), eq(organisations.ownerId, userId)),
+    });
+    if (!organisation) throw new Error('Organisation not found');
+  } else {
+    [organisation] = await db.insert(organisations).values({ name: target.name, ownerId: userId }).returning();
+  }
+
+  await db.update(restaurants)
+    .set({ organisationId: organisation!.id })
+    .where(eq(restaurants.id, restaurant.id));
+
+  return organisation!;
+}
+
+/**
+ * Organisations the user owns.
+ */
+export async function getOwnedOrganisations(userId: string): Promise<Organisation[]> {
+  return db.query.organisations.findMany({
+    where: eq(organisations.ownerId, userId),
+    orderBy: (organisation: any, { asc }: any) => [asc(organisation.name)],
+  });
+}
+
+/**
+ * Takes the restaurant out of its organisation. Organisation-wide staff lose
+ * access; restaurant-level memberships are kept.
+ */
+export async function leaveOrganisation(restaurant: StaffedRestaurant): Promise<void> {
+  await db.update(restaurants)
+    .set({ organisationId: null })
+    .where(eq(restaurants.id, restaurant.id));
+}
@@ -0,0 +1,170 @@
+/**
+ * Stripe
+ *
+ * Webhook signature verification and the handful of PaymentIntent calls the
+ * deposit lifecycle needs. There is no Stripe SDK on the edge runtime, so
+ * signatures are checked with Web Crypto and the API is called with fetch.
+ *
+ * Locally, point STRIPE_WEBHOOK_SECRET at any value and sign fixture events
+ * with signStripePayload; no live Stripe account is involved.
+ */
+
+const STRIPE_API_BASE = 'https://api.stripe.com/v1';
+
+/** Signatures older than this are rejected to stop replays */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  data: { object: any };
+}
+
+export class StripeSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StripeSignatureError';
+  }
+}
+
+async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Builds a `Stripe-Signature` header for a payload, as Stripe would.
+ */
+export async function signStripePayload(payload: string, secret: string, timestamp: number): Promise<string> {
+  return `t=${timestamp},v1=${await hmacSha256Hex(secret, `${timestamp}.${payload}`)}`;
+}
+
+/**
+ * Verifies a webhook's `Stripe-Signature` header against the raw request body
+ * and returns the parsed event. Throws StripeSignatureError when the header is
+ * missing, malformed, stale or matches none of its v1 signatures.
+ */
+export async function verifyStripeSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  now: Date = new Date(),
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS
+): Promise<StripeEvent> {
+  if (!header) throw new StripeSignatureError('Missing Stripe-Signature header');
+
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const [key, value] = part.split('=', 2);
+    if (key === 't') timestamp = parseInt(value, 10);
+    if (key === 'v1' && value) signatures.push(value);
+  }
+
+  if (timestamp === null || isNaN(timestamp) || signatures.length === 0) {
+    throw new StripeSignatureError('Malformed Stripe-Signature header');
+  }
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    throw new StripeSignatureError('Signature timestamp outside tolerance');
+  }
+
+  const expected = await hmacSha256Hex(secret, `${timestamp}.${payload}`);
+  if (!signatures.some(signature => constantTimeEqual(signature, expected))) {
+    throw new StripeSignatureError('No matching signature');
+  }
+
+  return JSON.parse(payload) as StripeEvent;
+}
+
+async function stripeRequest(path: string, params: Record<string, string | number>, idempotencyKey: string) {
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) throw new Error('STRIPE_SECRET_KEY is not configured');
+
+  const body = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) body.set(key, String(value));
+
+  const response = await fetch(`${STRIPE_API_BASE}${path}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${secretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      // Stripe replays the original response for a repeated key, so retried
+      // settlements never refund or capture twice
+      'Idempotency-Key': idempotencyKey,
+    },
+    body,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(`Stripe ${path} failed: ${data?.error?.message || response.status}`);
+  }
+  return data;
+}
+
+export interface DepositCheckoutInput {
+  reservationId: string;
+  /** Cents */
+  amount: number;
+  description: string;
+  guestEmail: string;
+  returnUrl: string;
+  expiresAt: Date;
+}
+
+/**
+ * Opens a hosted Checkout page for a reservation deposit. The card is only
+ * authorised (capture_method=manual) and the PaymentIntent carries the
+ * reservation id in metadata for the checkout webhook.
+ */
+export async function createDepositCheckout(input: DepositCheckoutInput): Promise<{ id: string; url: string }> {
+  const session = await stripeRequest('/checkout/sessions', {
+    mode: 'payment',
+    'line_items[0][quantity]': 1,
+    'line_items[0][price_data][currency]': 'usd',
+    'line_items[0][price_data][unit_amount]': input.amount,
+    'line_items[0][price_data][product_data][name]': input.description,
+    'payment_intent_data[capture_method]': 'manual',
+    'payment_intent_data[metadata][reservationId]': input.reservationId,
+    'metadata[reservationId]': input.reservationId,
+    ...(input.guestEmail ? { customer_email: input.guestEmail } : {}),
+    success_url: input.returnUrl,
+    cancel_url: input.returnUrl,
+    expires_at: Math.floor(input.expiresAt.getTime() / 1000),
+  }, `deposit_checkout_${input.reservationId}`);
+  return { id: session.id, url: session.url };
+}
+
+/** Refunds part or all of a captured PaymentIntent. */
+export function refundPaymentIntent(paymentIntentId: string, amount: number, idempotencyKey: string) {
+  return stripeRequest('/refunds', { payment_intent: paymentIntentId, amount }, idempotencyKey);
+}
+
+/** Captures part or all of an authorised PaymentIntent, releasing the rest. */
+export function capturePaymentIntent(paymentIntentId: string, amount: number, idempotencyKey: string) {
+  return stripeRequest(`/payment_intents/${paymentIntentId}/capture`, { amount_to_capture: amount }, idempotencyKey);
+}
+
+/** Cancels an authorised PaymentIntent, releasing the hold in full. */
+export function cancelPaymentIntent(paymentIntentId: string, idempotencyKey: string) {
+  return stripeRequest(`/payment_intents/${paymentIntentId}/cancel`, {}, idempotencyKey);
+}
@@ -0,0 +1,346 @@
+/**
+ * Table Combination Engine
+ *
+ * Large parties often need several pushed-together tables. Each table declares
+ * the neighbours it can be joined with (`combinableWith`), which forms an
+ * undirected adjacency graph. The engine searches connected groups of free
+ * tables in that graph and ranks them by wasted seats, so a party of 10 gets
+ * 4+4+2 before 4+4+4.
+ *
+ * This module is pure (no database access) so it can be shared by the edge
+ * availability route, the MCP tools and the reserve route.
+ */
+
+export interface CombinableTable {
+  id: string;
+  tableNumber: string;
+  maxCapacity: number;
+  xPos?: number | null;
+  yPos?: number | null;
+  combinableWith?: string[] | null;
+  sectionId?: string | null;
+}
+
+export interface TableCombination<T extends CombinableTable = CombinableTable> {
+  id: string;
+  tableNumber: string;
+  combinedTableIds: string[];
+  maxCapacity: number;
+  wastedSeats: number;
+  isCombined: true;
+  tables: T[];
+}
+
+/** A single free table or a combination, as offered to a party */
+export type TableOption<T extends CombinableTable = CombinableTable> = (T & { isCombined: false }) | TableCombination<T>;
+
+export type AdjacencyGraph = Map<string, Set<string>>;
+
+/** Upper bound on how many tables may be pushed together for one party */
+export const MAX_COMBINED_TABLES = 4;
+
+/** Default number of combinations returned to callers */
+export const DEFAULT_COMBINATION_LIMIT = 10;
+
+/**
+ * Floor plan distance under which two tables are treated as neighbours for
+ * restaurants that have not declared any adjacency yet.
+ */
+export const LEGACY_ADJACENCY_DISTANCE = 120;
+
+/**
+ * Builds an undirected adjacency graph from the tables' declared neighbours.
+ * An edge declared on either side is enough. Neighbours that are not part of
+ * `tables` are ignored.
+ *
+ * If no table declares any neighbour, falls back to floor plan proximity so
+ * existing restaurants keep getting two- (and more-) table suggestions. Only
+ * tables in the same section count as near, since each room has its own
+ * coordinates.
+ */
+export function buildAdjacencyGraph(tables: CombinableTable[]): AdjacencyGraph {
+  const graph: AdjacencyGraph = new Map();
+  const known = new Set(tables.map(t => t.id));
+
+  for (const table of tables) {
+    graph.set(table.id, new Set());
+  }
+
+  const hasDeclaredEdges = tables.some(t => (t.combinableWith?.length ?? 0) > 0);
+
+  if (hasDeclaredEdges) {
+    for (const table of tables) {
+      for (const neighbourId of table.combinableWith || []) {
+        if (neighbourId === table.id || !known.has(neighbourId)) continue;
+        graph.get(table.id)!.add(neighbourId);
+        graph.get(neighbourId)!.add(table.id);
+      }
+    }
+    return graph;
+  }
+
+  for (let i = 0; i < tables.length; i++) {
+    for (let j = i + 1; j < tables.length; j++) {
+      const t1 = tables[i];
+      const t2 = tables[j];
+      if ((t1.sectionId ?? null) !== (t2.sectionId ?? null)) continue;
+      const distance = Math.sqrt(
+        Math.pow((t1.xPos || 0) - (t2.xPos || 0), 2) +
+        Math.pow((t1.yPos || 0) - (t2.yPos || 0), 2)
+      );
+
+      if (distance < LEGACY_ADJACENCY_DISTANCE) {
+        graph.get(t1.id)!.add(t2.id);
+        graph.get(t2.id)!.add(t1.id);
+      }
+    }
+  }
+
+  return graph;
+}
+
+function toCombination<T extends CombinableTable>(tables: T[], partySize: number): TableCombination<T> {
+  const maxCapacity = tables.reduce((sum, t) => sum + t.maxCapacity, 0);
+  return {
+    id: tables.map(t => t.id).join('+'),
+    tableNumber: tables.map(t => t.tableNumber).join('+'),
+    combinedTableIds: tables.map(t => t.id),
+    maxCapacity,
+    wastedSeats: maxCapacity - partySize,
+    isCombined: true,
+    tables,
+  };
+}
+
+/**
+ * Finds connected groups of 2..maxTables candidate tables that seat the party.
+ *
+ * Only "minimal" groups are returned: dropping any one table would leave the
+ * party without enough seats. Results are ordered by wasted seats, then by
+ * number of tables.
+ */
+export function findTableCombinations<T extends CombinableTable>(
+  candidates: T[],
+  partySize: number,
+  graph: AdjacencyGraph,
+  options: { maxTables?: number; limit?: number } = {}
+): TableCombination<T>[] {
+  const maxTables = options.maxTables ?? MAX_COMBINED_TABLES;
+  const limit = options.limit ?? DEFAULT_COMBINATION_LIMIT;
+
+  const order = new Map(candidates.map((t, i) => [t.id, i]));
+  const byId = new Map(candidates.map(t => [t.id, t]));
+  const seen = new Set<string>();
+  const results: TableCombination<T>[] = [];
+
+  // Grow connected groups one neighbour at a time. Each group is visited once
+  // thanks to the sorted-key dedupe, and growth stops as soon as it fits.
+  let frontier: string[][] = candidates.map(t => [t.id]);
+
+  for (let size = 2; size <= maxTables && frontier.length > 0; size++) {
+    const next: string[][] = [];
+
+    for (const group of frontier) {
+      const members = new Set(group);
+
+      for (const memberId of group) {
+        for (const neighbourId of graph.get(memberId) || []) {
+          if (members.has(neighbourId) || !byId.has(neighbourId)) continue;
+
+          const expanded = [...group, neighbourId].sort((a, b) => order.get(a)! - order.get(b)!);
+          const key = expanded.join('+');
+          if (seen.has(key)) continue;
+          seen.add(key);
+
+          const tables = expanded.map(id => byId.get(id)!);
+          const capacity = tables.reduce((sum, t) => sum + t.maxCapacity, 0);
+
+          if (capacity >= partySize) {
+            const isMinimal = tables.every(t => capacity - t.maxCapacity < partySize);
+            if (isMinimal) {
+              results.push(toCombination(tables, partySize));
+            }
+          } else {
+            next.push(expanded);
+          }
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  return results
+    .sort((a, b) =>
+      a.wastedSeats - b.wastedSeats ||
+      a.combinedTableIds.length - b.combinedTableIds.length ||
+      a.id.localeCompare(b.id)
+    )
+    .slice(0, limit);
+}
+
+/**
+ * True when a table can be booked. Inactive and out-of-service tables never
+ * can. A table's live status (seated, dirty, ...) only says something about
+ * a party sitting down now (`live`); for a later window the reservations
+ * overlapping it decide.
+ */
+export function isBookableTable(table: { status?: string | null; isActive?: boolean | null }, live: boolean): boolean {
+  if (table.isActive === false || table.status === 'out_of_service') return false;
+  return !live || !table.status || table.status === 'vacant';
+}
+
+/**
+ * Picks the tables that can seat a party given the set of occupied table IDs:
+ * every free single table that fits or, when none does, adjacent
+ * combinations of free tables ranked by wasted seats. `live` applies the
+ * tables' current status, for a party sitting down now.
+ *
+ * Adjacency is built from every table passed in so that declared edges are
+ * honoured even when a neighbour is currently taken.
+ */
+export function selectTablesForParty<T extends CombinableTable & { status?: string | null; isActive?: boolean | null }>(
+  allTables: T[],
+  occupiedTableIds: Set<string>,
+  partySize: number,
+  options: { live?: boolean } = {}
+): TableOption<T>[] {
+  const vacantTables = allTables.filter(t =>
+    isBookableTable(t, options.live ?? false) && !occupiedTableIds.has(t.id)
+  );
+
+  const individualTables = vacantTables.filter(t => t.maxCapacity >= partySize);
+
+  if (individualTables.length > 0) {
+    return individualTables.map(t => ({ ...t, isCombined: false as const }));
+  }
+
+  return findTableCombinations(vacantTables, partySize, buildAdjacencyGraph(allTables));
+}
+
+/**
+ * The option to book out of `selectTablesForParty`'s results: the first
+ * combination, or single table whose minimum the party meets, falling back
+ * to the first option so a small party can still take a large table.
+ * Returns null when there is nothing to book.
+ */
+export function pickBestTables<T extends CombinableTable & { minCapacity?: number | null }>(
+  options: TableOption<T>[],
+  partySize: number
+): TableOption<T> | null {
+  const best = options.find(t => t.isCombined || (t.minCapacity ?? 1) <= partySize) || options[0];
+  return best ?? null;
+}
+
+/**
+ * The table IDs an option books.
+ */
+export function tableIdsOf(option: TableOption): string[] {
+  return option.isCombined ? option.combinedTableIds : [option.id];
+}
+
+/**
+ * Checks that a caller-supplied set of table IDs forms a usable combination:
+ * every table belongs to the restaurant, the group is connected in the
+ * adjacency graph and it seats the party.
+ */
+export function validateTableCombination(
+  allTables: CombinableTable[],
+  tableIds: string[],
+  partySize: number
+): { valid: boolean; error?: string } {
+  const uniqueIds = Array.from(new Set(tableIds));
+
+  if (uniqueIds.length < 2) {
+    return { valid: false, error: 'A combination needs at least two tables' };
+  }
+
+  if (uniqueIds.length > MAX_COMBINED_TABLES) {
+    return { valid: false, error: `At most ${MAX_COMBINED_TABLES} tables can be combined` };
+  }
+
+  const byId = new Map(allTables.map(t => [t.id, t]));
+  const missing = uniqueIds.filter(id => !byId.has(id));
+  if (missing.length > 0) {
+    return { valid: false, error: `Unknown table(s): ${missing.join(', ')}` };
+  }
+
+  const capacity = uniqueIds.reduce((sum, id) => sum + byId.get(id)!.maxCapacity, 0);
+  if (capacity < partySize) {
+    return { valid: false, error: `Combined capacity ${capacity} is too small for a party of ${partySize}` };
+  }
+
+  const graph = buildAdjacencyGraph(allTables);
+  const group = new Set(uniqueIds);
+  const visited = new Set<string>([uniqueIds[0]]);
+  const queue = [uniqueIds[0]];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const neighbourId of graph.get(current) || []) {
+      if (group.has(neighbourId) && !visited.has(neighbourId)) {
+        visited.add(neighbourId);
+        queue.push(neighbourId);
+      }
+    }
+  }
+
+  if (visited.size !== group.size) {
+    return { valid: false, error: 'Tables in a combination must be adjacent to each other' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * True when a reservation being modified can stay on its current tables:
+ * none is taken by another booking and together they still seat the party.
+ */
+export function canKeepTables(
+  allTables: CombinableTable[],
+  occupiedTableIds: Set<string>,
+  tableIds: string[],
+  partySize: number
+): boolean {
+  if (tableIds.length === 0 || tableIds.some(id => occupiedTableIds.has(id))) return false;
+  if (tableIds.length > 1) return validateTableCombination(allTables, tableIds, partySize).valid;
+
+  const table = allTables.find(t => t.id === tableIds[0]);
+  return !!table && table.maxCapacity >= partySize;
+}
+
+/**
+ * The tables a reservation being moved ends up on: its current ones when
+ * `canKeepTables` allows, otherwise the best free single table or
+ * combination. Returns null when nothing seats the party. `live` is as for
+ * `selectTablesForParty`.
+ */
+export function reassignedTables<T extends CombinableTable & { status?: string | null; isActive?: boolean | null; minCapacity?: number | null }>(
+  current: { tableId: string | null; combinedTableIds: string[] | null },
+  allTables: T[],
+  occupiedTableIds: Set<string>,
+  partySize: number,
+  options: { live?: boolean } = {}
+): { tableId: string | null; combinedTableIds: string[] | null } | null {
+  const currentTableIds = current.combinedTableIds?.length
+    ? current.combinedTableIds
+    : current.tableId ? [current.tableId] : [];
+
+  if (canKeepTables(allTables, occupiedTableIds, currentTableIds, partySize)) {
+    return { tableId: current.tableId, combinedTableIds: current.combinedTableIds };
+  }
+
+  const best = pickBestTables(selectTablesForParty(allTables, occupiedTableIds, partySize, options), partySize);
+  if (!best) return null;
+
+  return best.isCombined
+    ? { tableId: null, combinedTableIds: best.combinedTableIds }
+    : { tableId: best.id, combinedTableIds: null };
+}
+
+/**
+ * Splits a combination ID ("a+b+c") into its table IDs.
+ */
+export function parseCombinationId(tableId: string): string[] {
+  return tableId.split('+').map(id => id.trim()).filter(Boolean);
+}
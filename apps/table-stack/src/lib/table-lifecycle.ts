@@ -0,0 +1,187 @@
+/**
+ * Table Lifecycle
+ *
+ * A table moves through a fixed cycle over a visit:
+ *
+ *   vacant -> seated -> ordered -> paying -> dirty -> vacant
+ *
+ * with a few shortcuts hosts need on a real floor: a party seated by mistake
+ * goes straight back to vacant, a party can pay without ordering through the
+ * table (bar seats) or leave before paying (dirty), and vacant or dirty
+ * tables can be taken out of service until they are vacant again. Any other
+ * move is refused.
+ *
+ * Each restaurant sets a timer per status. Seated, ordered and paying tables
+ * past theirs are flagged on the floor plan for a server to check on; dirty
+ * tables past theirs are reset to vacant by the cleanup cron.
+ *
+ * Every transition is recorded, and turns are measured from that history: a
+ * turn starts when a table is seated and ends when it is left dirty. A party
+ * seated by mistake and set straight back to vacant is not a turn.
+ *
+ * Pure helpers only; status changes and the history table live in
+ * ./table-status.
+ */
+
+export const TABLE_STATUSES = ['vacant', 'seated', 'ordered', 'paying', 'dirty', 'out_of_service'] as const;
+export type TableStatus = typeof TABLE_STATUSES[number];
+
+export const TABLE_STATUS_LABELS: Record<TableStatus, string> = {
+  vacant: 'Vacant',
+  seated: 'Seated',
+  ordered: 'Ordered',
+  paying: 'Paying',
+  dirty: 'Dirty',
+  out_of_service: 'Out of service',
+};
+
+const TRANSITIONS: Record<TableStatus, TableStatus[]> = {
+  vacant: ['seated', 'out_of_service'],
+  seated: ['ordered', 'paying', 'dirty', 'vacant'],
+  ordered: ['paying', 'dirty'],
+  paying: ['dirty'],
+  dirty: ['vacant', 'out_of_service'],
+  out_of_service: ['vacant'],
+};
+
+/** Statuses in which a party is at the table */
+export const OCCUPIED_STATUSES: TableStatus[] = ['seated', 'ordered', 'paying'];
+
+export type TimedStatus = 'seated' | 'ordered' | 'paying' | 'dirty';
+export type TableStatusTimers = Record<TimedStatus, number>;
+
+export const TIMED_STATUSES: TimedStatus[] = ['seated', 'ordered', 'paying', 'dirty'];
+
+export const DEFAULT_TABLE_STATUS_TIMERS: TableStatusTimers = {
+  seated: 15,
+  ordered: 75,
+  paying: 15,
+  dirty: 20,
+};
+
+export const MAX_STATUS_TIMER_MINUTES = 240;
+
+const MINUTE = 60_000;
+
+export function isTableStatus(value: unknown): value is TableStatus {
+  return typeof value === 'string' && (TABLE_STATUSES as readonly string[]).includes(value);
+}
+
+/** A stored status; tables created before statuses were enforced read as vacant */
+export function currentStatus(status: string | null): TableStatus {
+  return isTableStatus(status) ? status : 'vacant';
+}
+
+export function isOccupied(status: string | null): boolean {
+  return OCCUPIED_STATUSES.includes(currentStatus(status));
+}
+
+export function nextStatuses(from: TableStatus): TableStatus[] {
+  return TRANSITIONS[from];
+}
+
+/**
+ * Why a table cannot move from `from` to `to`, or null when it can.
+ */
+export function transitionError(from: TableStatus, to: TableStatus): string | null {
+  if (from === to) return `Table is already ${TABLE_STATUS_LABELS[to].toLowerCase()}`;
+  if (!TRANSITIONS[from].includes(to)) {
+    return `A ${TABLE_STATUS_LABELS[from].toLowerCase()} table cannot be set to ${TABLE_STATUS_LABELS[to].toLowerCase()}`;
+  }
+  return null;
+}
+
+/** A restaurant's timers, with defaults for any it has not set */
+export function resolveStatusTimers(timers: Partial<TableStatusTimers> | null | undefined): TableStatusTimers {
+  return { ...DEFAULT_TABLE_STATUS_TIMERS, ...timers };
+}
+
+export function validateStatusTimers(timers: Partial<TableStatusTimers>): string | null {
+  for (const status of TIMED_STATUSES) {
+    const minutes = timers[status];
+    if (minutes === undefined) continue;
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_STATUS_TIMER_MINUTES) {
+      return `${TABLE_STATUS_LABELS[status]} timer must be between 1 and ${MAX_STATUS_TIMER_MINUTES} minutes`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a table has been in its status longer than the restaurant's timer
+ * for it. Vacant and out-of-service tables have no timer.
+ */
+export function isStatusOverdue(
+  table: { status: string | null; statusChangedAt: Date | null },
+  timers: TableStatusTimers,
+  now: Date
+): boolean {
+  const status = currentStatus(table.status);
+  if (!(TIMED_STATUSES as TableStatus[]).includes(status) || !table.statusChangedAt) return false;
+  return now.getTime() - table.statusChangedAt.getTime() >= timers[status as TimedStatus] * MINUTE;
+}
+
+export interface StatusChange {
+  tableId: string;
+  fromStatus: string;
+  toStatus: string;
+  changedAt: Date;
+}
+
+export interface TableTurnSummary {
+  /** Completed turns: seated until the table was left dirty */
+  turns: number;
+  averageTurnMinutes: number;
+  /** Average minutes spent in each timed status, over every visit to it */
+  averageStatusMinutes: Partial<Record<TimedStatus, number>>;
+}
+
+/**
+ * Measured turns from status history. Time in a status runs until the
+ * table's next change; a turn still in progress at the end of the history is
+ * not counted.
+ */
+export function summarizeTableTurns(changes: StatusChange[]): TableTurnSummary {
+  const byTable = new Map<string, StatusChange[]>();
+  for (const change of changes) {
+    byTable.set(change.tableId, [...(byTable.get(change.tableId) || []), change]);
+  }
+
+  const turnMinutes: number[] = [];
+  const statusMinutes = new Map<TimedStatus, number[]>();
+
+  for (const history of byTable.values()) {
+    history.sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+    let turnStart: Date | null = null;
+
+    history.forEach((change, i) => {
+      const next = history[i + 1];
+      if (next && (TIMED_STATUSES as string[]).includes(change.toStatus)) {
+        const status = change.toStatus as TimedStatus;
+        statusMinutes.set(status, [...(statusMinutes.get(status) || []), (next.changedAt.getTime() - change.changedAt.getTime()) / MINUTE]);
+      }
+
+      if (change.toStatus === 'seated' && !isOccupied(change.fromStatus)) {
+        turnStart = change.changedAt;
+      } else if (turnStart && !isOccupied(change.toStatus)) {
+        if (change.toStatus === 'dirty') turnMinutes.push((change.changedAt.getTime() - turnStart.getTime()) / MINUTE);
+        turnStart = null;
+      }
+    });
+  }
+
+  const averageStatusMinutes: Partial<Record<TimedStatus, number>> = {};
+  for (const [status, minutes] of statusMinutes) {
+    averageStatusMinutes[status] = average(minutes);
+  }
+
+  return {
+    turns: turnMinutes.length,
+    averageTurnMinutes: average(turnMinutes),
+    averageStatusMinutes,
+  };
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+}
@@ -0,0 +1,204 @@
+import { db, restaurants, restaurantTables, tableStatusHistory, and, eq, isNull, lt } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import { subMinutes } from 'date-fns';
+import { NotifyService } from './notifications';
+import { invalidateAvailability } from './availability-cache';
+import { promoteWaitlistForTable } from './waitlist-queue';
+import {
+  currentStatus,
+  isStatusOverdue,
+  resolveStatusTimers,
+  TableStatus,
+  transitionError,
+} from './table-lifecycle';
+
+type RestaurantTable = InferSelectModel<typeof restaurantTables>;
+
+/** Changes made by timers rather than staff */
+export const SYSTEM_ACTOR = 'system';
+
+export class TableTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TableTransitionError';
+  }
+}
+
+/**
+ * Moves a table to `to`, records the transition and announces it: a
+ * `table-status-update` broadcast for the floor plan and a
+ * TABLE_STATUS_CHANGED nervous system event. A table becoming vacant also
+ * publishes TABLE_VACATED and is offered to the waitlist, whoever freed it.
+ * Throws TableTransitionError for
+ * an unknown table or a move the lifecycle does not allow, including when
+ * someone else changed the table first.
+ */
+export async function changeTableStatus(
+  restaurant: { id: string; timezone: string | null },
+  tableId: string,
+  to: TableStatus,
+  change: { changedBy: string; reason?: string },
+  now: Date = new Date()
+): Promise<RestaurantTable> {
+  const table: RestaurantTable | undefined = await db.query.restaurantTables.findFirst({
+    where: and(eq(restaurantTables.id, tableId), eq(restaurantTables.restaurantId, restaurant.id)),
+  });
+  if (!table) throw new TableTransitionError('Table not found');
+
+  const from = currentStatus(table.status);
+  const error = transitionError(from, to);
+  if (error) throw new TableTransitionError(error);
+
+  // Guarded on the status read above so two hosts cannot both move the table
+  const [updated]: RestaurantTable[] = await db.update(restaurantTables)
+    .set({ status: to, statusChangedAt: now, updatedAt: now })
+    .where(and(
+      eq(restaurantTables.id, tableId),
+      table.status === null ? isNull(restaurantTables.status) : eq(restaurantTables.status, table.status)
+    ))
+    .returning();
+  if (!updated) throw new TableTransitionError('The table was changed by someone else. Refresh and try again.');
+
+  await db.insert(tableStatusHistory).values({
+    restaurantId: restaurant.id,
+    tableId,
+    fromStatus: from,
+    toStatus: to,
+    changedBy: change.changedBy,
+    reason: change.reason || null,
+    changedAt: now,
+  });
+
+  await NotifyService.broadcast(restaurant.id, 'table-status-update', {
+    restaurantId: restaurant.id,
+    tableId,
+    status: to,
+    updatedAt: now.toISOString(),
+  });
+
+  const previousStatusMinutes = table.statusChangedAt
+    ? Math.max(0, Math.floor((now.getTime() - table.statusChangedAt.getTime()) / 60_000))
+    : undefined;
+  await publishStatusChanged(restaurant.id, updated, from, to, { ...change, previousStatusMinutes, changedAt: now });
+
+  await invalidateAvailability(restaurant, { type: 'TABLE_STATUS_CHANGED' });
+
+  if (to === 'vacant') {
+    await publishTableVacated(restaurant.id, updated, {
+      vacatedAt: now,
+      turnoverTimeMinutes: from === 'dirty' ? previousStatusMinutes : undefined,
+    });
+    await promoteWaitlistForTable(restaurant.id, tableId)
+      .catch(err => console.error('Waitlist promotion failed:', err));
+  }
+
+  return updated;
+}
+
+// Nervous System Event, validated against the event registry
+async function publishTableVacated(
+  restaurantId: string,
+  table: RestaurantTable,
+  change: { vacatedAt: Date; turnoverTimeMinutes?: number }
+) {
+  const { TableVacatedEventSchema } = await import('@repo/mcp-protocol');
+  const event = TableVacatedEventSchema.safeParse({
+    eventType: 'TABLE_VACATED',
+    version: 'v1',
+    timestamp: new Date().toISOString(),
+    publisher: { service: 'table-stack', version: '0.1.0' },
+    payload: {
+      restaurantId,
+      tableId: table.id,
+      tableName: table.tableNumber,
+      vacatedAt: change.vacatedAt.toISOString(),
+      turnoverTimeMinutes: change.turnoverTimeMinutes,
+    },
+  });
+
+  if (event.success) {
+    const { RealtimeService } = await import('@repo/shared');
+    await RealtimeService.publishNervousSystemEvent('TABLE_VACATED', event.data)
+      .catch(err => console.error('Nervous System Event failed:', err));
+  } else {
+    console.error('TABLE_VACATED event failed validation:', event.error.message);
+  }
+}
+
+// Nervous System Event, validated against the event registry
+async function publishStatusChanged(
+  restaurantId: string,
+  table: RestaurantTable,
+  from: TableStatus,
+  to: TableStatus,
+  change: { changedBy: string; reason?: string; previousStatusMinutes?: number; changedAt: Date }
+) {
+  const { TableStatusChangedEventSchema } = await import('@repo/mcp-protocol');
+  const event = TableStatusChangedEventSchema.safeParse({
+    eventType: 'TABLE_STATUS_CHANGED',
+    version: 'v1',
+    timestamp: new Date().toISOString(),
+    publisher: { service: 'table-stack', version: '0.1.0' },
+    payload: {
+      restaurantId,
+      tableId: table.id,
+      tableName: table.tableNumber,
+      previousStatus: from,
+      newStatus: to,
+      changedAt: change.changedAt.toISOString(),
+      previousStatusMinutes: change.previousStatusMinutes,
+      changedBy: change.changedBy,
+      reason: change.reason,
+    },
+  });
+
+  if (event.success) {
+    const { RealtimeService } = await import('@repo/shared');
+    await RealtimeService.publishNervousSystemEvent('TABLE_STATUS_CHANGED', event.data)
+      .catch(err => console.error('Nervous System Event failed:', err));
+  } else {
+    console.error('TABLE_STATUS_CHANGED event failed validation:', event.error.message);
+  }
+}
+
+/**
+ * Resets dirty tables to vacant once their restaurant's dirty timer has run
+ * out, which offers them to the waitlist. Returns the tables reset.
+ */
+export async function resetDirtyTables(now: Date = new Date()): Promise<{ id: string; restaurantId: string }[]> {
+  const candidates = await db
+    .select({
+      id: restaurantTables.id,
+      status: restaurantTables.status,
+      statusChangedAt: restaurantTables.statusChangedAt,
+      restaurantId: restaurants.id,
+      timezone: restaurants.timezone,
+      tableStatusTimers: restaurants.tableStatusTimers,
+    })
+    .from(restaurantTables)
+    .innerJoin(restaurants, eq(restaurants.id, restaurantTables.restaurantId))
+    .where(and(
+      eq(restaurantTables.status, 'dirty'),
+      // No timer is shorter than a minute
+      lt(restaurantTables.statusChangedAt, subMinutes(now, 1))
+    ));
+
+  const reset: { id: string; restaurantId: string }[] = [];
+  for (const table of candidates) {
+    if (!isStatusOverdue(table, resolveStatusTimers(table.tableStatusTimers), now)) continue;
+    try {
+      await changeTableStatus(
+        { id: table.restaurantId, timezone: table.timezone },
+        table.id,
+        'vacant',
+        { changedBy: SYSTEM_ACTOR, reason: 'Dirty timer ran out' },
+        now
+      );
+      reset.push({ id: table.id, restaurantId: table.restaurantId });
+    } catch (error) {
+      // A host got to the table first
+      if (!(error instanceof TableTransitionError)) throw error;
+    }
+  }
+  return reset;
+}
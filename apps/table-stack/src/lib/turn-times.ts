@@ -0,0 +1,84 @@
+/**
+ * Turn Times
+ *
+ * How long a table is held for a reservation depends on the party and the
+ * service: a couple at lunch turns faster than a party of eight on a Saturday
+ * night. Restaurants configure rules keyed by party size range, optionally
+ * narrowed to service periods (by name) and weekdays. The most specific
+ * matching rule wins; with no match the restaurant's default duration applies.
+ *
+ * Pure helpers only; the schedule-aware lookup lives in ./availability.
+ */
+
+import { Weekday } from './service-schedule';
+
+export interface TurnTimeRule {
+  minPartySize: number;
+  maxPartySize: number;
+  durationMinutes: number;
+  /** Service period names (e.g. "Dinner") this rule applies to; all if empty */
+  servicePeriods?: string[];
+  /** Lowercase weekdays (e.g. "saturday") this rule applies to; all if empty */
+  days?: string[];
+}
+
+export interface TurnTimeContext {
+  partySize: number;
+  weekday: Weekday;
+  servicePeriod?: string | null;
+}
+
+export const DEFAULT_TURN_TIME_MINUTES = 90;
+
+function specificity(rule: TurnTimeRule): number {
+  return (rule.servicePeriods?.length ? 2 : 0) + (rule.days?.length ? 1 : 0);
+}
+
+function matches(rule: TurnTimeRule, context: TurnTimeContext): boolean {
+  if (context.partySize < rule.minPartySize || context.partySize > rule.maxPartySize) return false;
+  if (rule.days?.length && !rule.days.includes(context.weekday)) return false;
+
+  if (rule.servicePeriods?.length) {
+    const period = context.servicePeriod?.toLowerCase();
+    if (!period || !rule.servicePeriods.some(p => p.toLowerCase() === period)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Picks the turn time for a booking. Among matching rules, those naming a
+ * service period beat those naming weekdays, which beat catch-all rules;
+ * ties go to the narrower party size range, then to the earlier rule.
+ */
+export function resolveTurnTime(
+  rules: TurnTimeRule[] | null | undefined,
+  defaultMinutes: number | null | undefined,
+  context: TurnTimeContext
+): number {
+  const fallback = defaultMinutes || DEFAULT_TURN_TIME_MINUTES;
+
+  const best = (rules || [])
+    .filter(rule => matches(rule, context))
+    .sort((a, b) =>
+      specificity(b) - specificity(a) ||
+      (a.maxPartySize - a.minPartySize) - (b.maxPartySize - b.minPartySize)
+    )[0];
+
+  return best ? best.durationMinutes : fallback;
+}
+
+/**
+ * Returns an error message for an invalid rule set, or null.
+ */
+export function validateTurnTimeRules(rules: TurnTimeRule[]): string | null {
+  for (const rule of rules) {
+    if (rule.minPartySize < 1 || rule.maxPartySize < rule.minPartySize) {
+      return `Invalid party size range ${rule.minPartySize}-${rule.maxPartySize}`;
+    }
+    if (rule.durationMinutes < 15 || rule.durationMinutes > 480) {
+      return 'Turn times must be between 15 and 480 minutes';
+    }
+  }
+  return null;
+}
@@ -0,0 +1,261 @@
+import { db, restaurants, restaurantReservations, restaurantTables, restaurantWaitlist, and, eq, gte, lt, sql } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import { addHours, addMinutes, subDays } from 'date-fns';
+import { NotifyService } from './notifications';
+import {
+  findConflictingTableIds,
+  getActiveTables,
+  getOverlappingBookings,
+  getServiceSchedule,
+  SlotGridRestaurant,
+  turnTimeFor,
+} from './availability';
+import { ServiceSchedule } from './service-schedule';
+import { averageTurnMinutes, quoteWait, selectPartyForTable, WaitQuote } from './waitlist';
+import { emitWebhookEvent } from './webhooks';
+import { waitlistEventData } from './webhook-events';
+
+/** Bookings further out than this do not affect a wait quote */
+const QUOTE_HORIZON_HOURS = 6;
+
+/** Days of past reservations used as turn time history */
+const TURN_HISTORY_DAYS = 28;
+
+export const DEFAULT_WAITLIST_RESPONSE_MINUTES = 10;
+
+type WaitlistRestaurant = SlotGridRestaurant & { waitlistResponseMinutes?: number | null };
+type WaitlistEntry = InferSelectModel<typeof restaurantWaitlist>;
+
+/**
+ * Builds a turn time estimator from the last few weeks of reservations for
+ * similar party sizes (within one guest), falling back to the configured
+ * turn time rules when there is no history.
+ */
+async function getTurnEstimator(restaurant: WaitlistRestaurant, now: Date) {
+  const [schedule, history]: [ServiceSchedule, { partySize: number; startTime: Date; endTime: Date }[]] = await Promise.all([
+    getServiceSchedule(restaurant),
+    db
+      .select({
+        partySize: restaurantReservations.partySize,
+        startTime: restaurantReservations.startTime,
+        endTime: restaurantReservations.endTime,
+      })
+      .from(restaurantReservations)
+      .where(
+        and(
+          eq(restaurantReservations.restaurantId, restaurant.id),
+          eq(restaurantReservations.status, 'confirmed'),
+          gte(restaurantReservations.startTime, subDays(now, TURN_HISTORY_DAYS)),
+          lt(restaurantReservations.endTime, now)
+        )
+      ),
+  ]);
+
+  return (partySize: number) =>
+    averageTurnMinutes(history.filter(r => Math.abs(r.partySize - partySize) <= 1)) ??
+    turnTimeFor(restaurant, schedule, now, partySize);
+}
+
+async function getWaitingQueue(restaurantId: string): Promise<WaitlistEntry[]> {
+  return db
+    .select()
+    .from(restaurantWaitlist)
+    .where(
+      and(
+        eq(restaurantWaitlist.restaurantId, restaurantId),
+        eq(restaurantWaitlist.status, 'waiting')
+      )
+    )
+    .orderBy(restaurantWaitlist.queuedAt);
+}
+
+/**
+ * Quotes every waiting party in queue order. A party's quote assumes only the
+ * parties ahead of it are seated first.
+ */
+export async function getWaitlistQuotes(
+  restaurant: WaitlistRestaurant
+): Promise<(WaitlistEntry & WaitQuote)[]> {
+  const now = new Date();
+  const [queue, tables, bookings, turnMinutesFor] = await Promise.all([
+    getWaitingQueue(restaurant.id),
+    getActiveTables(restaurant.id),
+    getOverlappingBookings(restaurant.id, now, addHours(now, QUOTE_HORIZON_HOURS)),
+    getTurnEstimator(restaurant, now),
+  ]);
+
+  return queue.map((entry, i) => ({
+    ...entry,
+    ...quoteWait({
+      now,
+      tables,
+      bookings,
+      partiesAhead: queue.slice(0, i),
+      partySize: entry.partySize,
+      turnMinutesFor,
+    }),
+  }));
+}
+
+/**
+ * Adds a party to the back of the waitlist with a quoted wait.
+ */
+export async function joinWaitlist(
+  restaurant: WaitlistRestaurant,
+  guest: { guestName: string; guestEmail: string; partySize: number }
+) {
+  const now = new Date();
+  const [queue, tables, bookings, turnMinutesFor] = await Promise.all([
+    getWaitingQueue(restaurant.id),
+    getActiveTables(restaurant.id),
+    getOverlappingBookings(restaurant.id, now, addHours(now, QUOTE_HORIZON_HOURS)),
+    getTurnEstimator(restaurant, now),
+  ]);
+
+  const quote = quoteWait({
+    now,
+    tables,
+    bookings,
+    partiesAhead: queue,
+    partySize: guest.partySize,
+    turnMinutesFor,
+  });
+
+  const [entry] = await db.insert(restaurantWaitlist).values({
+    restaurantId: restaurant.id,
+    guestName: guest.guestName,
+    guestEmail: guest.guestEmail,
+    partySize: guest.partySize,
+    status: 'waiting',
+    quotedWaitMinutes: quote.quotedWaitMinutes,
+  }).returning();
+
+  await NotifyService.broadcast(restaurant.id, 'restaurantWaitlist-updated', {
+    id: entry.id,
+    guestName: entry.guestName,
+    partySize: entry.partySize,
+    status: entry.status,
+    position: quote.position,
+    quotedWaitMinutes: quote.quotedWaitMinutes,
+  });
+  await emitWebhookEvent(restaurant.id, 'waitlist.updated', {
+    ...waitlistEventData(entry),
+    quotedWaitMinutes: quote.quotedWaitMinutes,
+  });
+
+  return { entry, ...quote };
+}
+
+/**
+ * Offers a vacated table to the first waiting party it fits, unless a party
+ * has already been notified for it or an upcoming reservation needs it
+ * within that party's turn time. Returns the notified entry, if any.
+ */
+export async function promoteWaitlistForTable(
+  restaurantId: string,
+  tableId: string,
+  excludeEntryIds: string[] = []
+) {
+  const [restaurant, table] = await Promise.all([
+    db.query.restaurants.findFirst({ where: eq(restaurants.id, restaurantId) }),
+    db.query.restaurantTables.findFirst({
+      where: and(eq(restaurantTables.id, tableId), eq(restaurantTables.restaurantId, restaurantId)),
+    }),
+  ]);
+  if (!restaurant || !table || table.status !== 'vacant' || !table.isActive) return null;
+
+  const pending = await db.query.restaurantWaitlist.findFirst({
+    where: and(
+      eq(restaurantWaitlist.notifiedTableId, tableId),
+      eq(restaurantWaitlist.status, 'notified')
+    ),
+  });
+  if (pending) return null;
+
+  const now = new Date();
+  const turnMinutesFor = await getTurnEstimator(restaurant, now);
+  let queue = (await getWaitingQueue(restaurantId)).filter(p => !excludeEntryIds.includes(p.id));
+
+  // Parties are tried in queue order; one whose turn would run into a
+  // booking on this table is skipped in favour of the next fitting party.
+  let party = selectPartyForTable(queue, table);
+  while (party) {
+    const end = addMinutes(now, turnMinutesFor(party.partySize));
+    const conflicts = await findConflictingTableIds(restaurantId, [tableId], now, end);
+    if (conflicts.length === 0) break;
+
+    const skipped = party;
+    queue = queue.filter(p => p.id !== skipped.id);
+    party = selectPartyForTable(queue, table);
+  }
+  if (!party) return null;
+
+  // Guarded on status so concurrent vacate events cannot notify twice
+  const [entry] = await db.update(restaurantWaitlist)
+    .set({ status: 'notified', notifiedAt: now, notifiedTableId: tableId, updatedAt: now })
+    .where(and(eq(restaurantWaitlist.id, party.id), eq(restaurantWaitlist.status, 'waiting')))
+    .returning();
+  if (!entry) return null;
+
+  const responseMinutes = restaurant.waitlistResponseMinutes || DEFAULT_WAITLIST_RESPONSE_MINUTES;
+  await NotifyService.notifyGuestNext(entry.guestEmail, entry.guestName, responseMinutes);
+  await NotifyService.broadcast(restaurantId, 'restaurantWaitlist-updated', {
+    id: entry.id,
+    guestName: entry.guestName,
+    partySize: entry.partySize,
+    status: entry.status,
+    tableId,
+    tableNumber: table.tableNumber,
+    respondBy: addMinutes(now, responseMinutes).toISOString(),
+  });
+  await emitWebhookEvent(restaurantId, 'waitlist.updated', waitlistEventData(entry));
+
+  return entry;
+}
+
+/**
+ * Sends parties that did not respond to a notification within the
+ * restaurant's response window to the back of the queue, then offers their
+ * tables to the next party in line. Returns the number of parties requeued.
+ */
+export async function requeueExpiredNotifications(): Promise<number> {
+  const expired = await db
+    .select({
+      id: restaurantWaitlist.id,
+      restaurantId: restaurantWaitlist.restaurantId,
+      notifiedTableId: restaurantWaitlist.notifiedTableId,
+    })
+    .from(restaurantWaitlist)
+    .innerJoin(restaurants, eq(restaurants.id, restaurantWaitlist.restaurantId))
+    .where(
+      and(
+        eq(restaurantWaitlist.status, 'notified'),
+        sql`${restaurantWaitlist.notifiedAt} + make_interval(mins => coalesce(${restaurants.waitlistResponseMinutes}, ${DEFAULT_WAITLIST_RESPONSE_MINUTES})) < now()`
+      )
+    );
+
+  let requeued = 0;
+  for (const { id, restaurantId, notifiedTableId } of expired) {
+    const now = new Date();
+    const [entry] = await db.update(restaurantWaitlist)
+      .set({ status: 'waiting', queuedAt: now, notifiedAt: null, notifiedTableId: null, updatedAt: now })
+      .where(and(eq(restaurantWaitlist.id, id), eq(restaurantWaitlist.status, 'notified')))
+      .returning();
+    if (!entry) continue;
+
+    requeued++;
+    await NotifyService.broadcast(restaurantId, 'restaurantWaitlist-updated', {
+      id: entry.id,
+      status: entry.status,
+      requeued: true,
+    });
+    await emitWebhookEvent(restaurantId, 'waitlist.updated', waitlistEventData(entry));
+
+    // The party that just timed out is not offered the same table again
+    if (notifiedTableId) {
+      await promoteWaitlistForTable(restaurantId, notifiedTableId, [id]);
+    }
+  }
+
+  return requeued;
+}
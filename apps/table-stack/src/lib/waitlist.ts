@@ -0,0 +1,160 @@
+/**
+ * Waitlist
+ *
+ * Quotes an estimated wait for a party joining the waitlist and picks which
+ * waiting party a vacated table should go to.
+ *
+ * The quote simulates the queue: every table that fits the party becomes free
+ * either now, when its seated reservation is expected to end, or after the
+ * next booking that would overlap a walk-in's turn. Parties ahead of the new
+ * one take the earliest-free fitting table in queue order, then the new party
+ * takes the next one. Only single tables are considered; parties that no
+ * single table can seat are not quoted.
+ *
+ * Pure helpers only; the database-backed queue lives in ./waitlist-queue.
+ */
+
+import { BookedWindow } from './slot-grid';
+import { currentStatus, isOccupied } from './table-lifecycle';
+
+export interface WaitlistTable {
+  id: string;
+  minCapacity: number;
+  maxCapacity: number;
+  status: string | null;
+}
+
+export interface QueuedParty {
+  id: string;
+  partySize: number;
+}
+
+export interface WaitQuoteInput {
+  now: Date;
+  tables: WaitlistTable[];
+  /** Reservations overlapping the quoting horizon, including seated ones */
+  bookings: BookedWindow[];
+  /** Parties already waiting, in queue order */
+  partiesAhead: QueuedParty[];
+  partySize: number;
+  /** Expected turn time for a party of the given size, in minutes */
+  turnMinutesFor: (partySize: number) => number;
+}
+
+export interface WaitQuote {
+  /** 1-based position in the queue */
+  position: number;
+  /** Estimated minutes until seated, or null when no single table fits */
+  quotedWaitMinutes: number | null;
+}
+
+/** Quotes are rounded up to this many minutes */
+export const QUOTE_ROUNDING_MINUTES = 5;
+
+/** Time assumed to reset a dirty table */
+export const DIRTY_TABLE_RESET_MINUTES = 5;
+
+const MINUTE = 60 * 1000;
+
+export function tableFitsParty(table: WaitlistTable, partySize: number): boolean {
+  return partySize >= (table.minCapacity || 1) && partySize <= table.maxCapacity;
+}
+
+function holdsTable(booking: BookedWindow, tableId: string): boolean {
+  return booking.tableId === tableId || (booking.combinedTableIds?.includes(tableId) ?? false);
+}
+
+/**
+ * Earliest start at or after `from` at which a table is free for `turnMinutes`
+ * without running into any of its bookings.
+ */
+export function nextFreeStart(
+  tableId: string,
+  bookings: BookedWindow[],
+  from: Date,
+  turnMinutes: number
+): Date {
+  const windows = bookings
+    .filter(b => holdsTable(b, tableId))
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  let start = from.getTime();
+  for (const window of windows) {
+    const end = start + turnMinutes * MINUTE;
+    if (window.startTime.getTime() < end && window.endTime.getTime() > start) {
+      start = window.endTime.getTime();
+    }
+  }
+  return new Date(start);
+}
+
+/**
+ * When a table can next be handed to a walk-in, ignoring bookings: vacant
+ * tables now, dirty tables after a reset, tables with a party at them when
+ * their seated reservation ends (or after half a turn if none is on record).
+ */
+function releaseTime(table: WaitlistTable, input: WaitQuoteInput): Date {
+  const now = input.now.getTime();
+
+  if (table.status === 'dirty') return new Date(now + DIRTY_TABLE_RESET_MINUTES * MINUTE);
+  if (!isOccupied(table.status)) return input.now;
+
+  const seated = input.bookings.find(b =>
+    holdsTable(b, table.id) && b.startTime.getTime() <= now && b.endTime.getTime() > now
+  );
+  if (seated) return seated.endTime;
+
+  return new Date(now + (input.turnMinutesFor(table.maxCapacity) / 2) * MINUTE);
+}
+
+/**
+ * Quotes the wait for a party joining behind `partiesAhead`.
+ */
+export function quoteWait(input: WaitQuoteInput): WaitQuote {
+  const position = input.partiesAhead.length + 1;
+  const tables = input.tables.filter(t => currentStatus(t.status) !== 'out_of_service');
+  const fitting = tables.filter(t => tableFitsParty(t, input.partySize));
+  if (fitting.length === 0) return { position, quotedWaitMinutes: null };
+
+  const freeAt = new Map(tables.map(t => [t.id, releaseTime(t, input)]));
+
+  const seat = (partySize: number): Date | null => {
+    const turn = input.turnMinutesFor(partySize);
+    let best: { id: string; start: Date } | null = null;
+
+    for (const table of tables) {
+      if (!tableFitsParty(table, partySize)) continue;
+      const start = nextFreeStart(table.id, input.bookings, freeAt.get(table.id)!, turn);
+      if (!best || start < best.start) best = { id: table.id, start };
+    }
+
+    if (best) freeAt.set(best.id, new Date(best.start.getTime() + turn * MINUTE));
+    return best?.start ?? null;
+  };
+
+  for (const party of input.partiesAhead) seat(party.partySize);
+  const seatedAt = seat(input.partySize)!;
+
+  const minutes = Math.max(0, (seatedAt.getTime() - input.now.getTime()) / MINUTE);
+  return {
+    position,
+    quotedWaitMinutes: Math.ceil(minutes / QUOTE_ROUNDING_MINUTES) * QUOTE_ROUNDING_MINUTES,
+  };
+}
+
+/**
+ * The first waiting party, in queue order, that fits a vacated table.
+ */
+export function selectPartyForTable<T extends QueuedParty>(queue: T[], table: WaitlistTable): T | null {
+  return queue.find(party => tableFitsParty(table, party.partySize)) || null;
+}
+
+/**
+ * Average booked duration, in minutes, of past reservations; null when there
+ * is no history.
+ */
+export function averageTurnMinutes(history: { startTime: Date; endTime: Date }[]): number | null {
+  if (history.length === 0) return null;
+  const total = history.reduce((sum, r) => sum + (r.endTime.getTime() - r.startTime.getTime()), 0);
+  return Math.round(total / history.length / MINUTE);
+}
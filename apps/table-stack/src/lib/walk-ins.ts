@@ -0,0 +1,118 @@
+import { db, restaurants, restaurantReservations, restaurantTables, and, eq, inArray } from "@repo/database";
+import type { InferSelectModel } from "@repo/database";
+import { addMinutes } from 'date-fns';
+import { NotifyService } from './notifications';
+import { findConflictingTableIds, getTurnTimeMinutes, validateCombinationForRestaurant } from './availability';
+import { publishReservationEvent } from './reservation-events';
+import { lockTables } from './booking-holds';
+import { findGuestProfile } from './guests';
+import { markReservationSeated } from './no-shows';
+import { changeTableStatus, TableTransitionError } from './table-status';
+import { validateWalkIn, WalkInInput, walkInGuest, walkInTableError } from './host-stand';
+
+type Restaurant = InferSelectModel<typeof restaurants>;
+type Reservation = InferSelectModel<typeof restaurantReservations>;
+type RestaurantTable = InferSelectModel<typeof restaurantTables>;
+
+export class WalkInError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WalkInError';
+  }
+}
+
+/**
+ * Seats a walk-in: records a reservation starting now for the restaurant's
+ * turn time, marks its tables seated and counts the visit on the guest's
+ * profile when an email was given. Throws WalkInError when the input is
+ * invalid or the tables are not free for the whole turn.
+ */
+export async function seatWalkIn(
+  restaurant: Restaurant,
+  input: WalkInInput,
+  seatedBy: string,
+  now: Date = new Date()
+): Promise<Reservation> {
+  const invalid = validateWalkIn(input);
+  if (invalid) throw new WalkInError(invalid);
+
+  const { partySize, tableIds } = input;
+  const tables: RestaurantTable[] = await db.query.restaurantTables.findMany({
+    where: and(eq(restaurantTables.restaurantId, restaurant.id), inArray(restaurantTables.id, tableIds)),
+  });
+  if (tables.length !== tableIds.length) throw new WalkInError('Table not found');
+
+  const tableError = walkInTableError(tables, partySize);
+  if (tableError) throw new WalkInError(tableError);
+
+  if (tableIds.length > 1) {
+    const validation = await validateCombinationForRestaurant(restaurant.id, tableIds, partySize, now);
+    if (!validation.valid) throw new WalkInError(validation.error || 'Invalid table combination');
+  }
+
+  // A returning guest who only gave their email keeps the name on file
+  let { guestName, guestEmail } = walkInGuest(input);
+  if (guestEmail && !input.guestName?.trim()) {
+    guestName = (await findGuestProfile(restaurant.id, guestEmail))?.name || guestName;
+  }
+
+  const endTime = addMinutes(now, await getTurnTimeMinutes(restaurant, now, partySize));
+
+  // Checked and written under the table locks, like any booking
+  const reservation: Reservation = await lockTables(tableIds, async () => {
+    const conflicts = await findConflictingTableIds(restaurant.id, tableIds, now, endTime);
+    if (conflicts.length > 0) {
+      const booked = tables.filter(t => conflicts.includes(t.id)).map(t => t.tableNumber).join(', ');
+      throw new WalkInError(`Table ${booked} is booked before this party would finish`);
+    }
+
+    const [created] = await db.insert(restaurantReservations).values({
+      restaurantId: restaurant.id,
+      tableId: tableIds.length === 1 ? tableIds[0] : null,
+      combinedTableIds: tableIds.length > 1 ? tableIds : null,
+      guestName,
+      guestEmail,
+      partySize,
+      startTime: now,
+      endTime,
+      status: 'confirmed',
+      isVerified: true,
+      isWalkIn: true,
+    }).returning();
+    return created;
+  });
+
+  const seatedTableIds: string[] = [];
+  try {
+    for (const tableId of tableIds) {
+      await changeTableStatus(restaurant, tableId, 'seated', { changedBy: seatedBy, reason: 'Walk-in' }, now);
+      seatedTableIds.push(tableId);
+    }
+  } catch (error) {
+    // Another host took a table between the check above and now: undo the
+    // seating so neither the tables nor the reservation are left half-made.
+    // The reservation goes first so the freed tables are offered to the
+    // waitlist without it in the way.
+    await db.delete(restaurantReservations).where(eq(restaurantReservations.id, reservation.id));
+    for (const tableId of seatedTableIds) {
+      await changeTableStatus(restaurant, tableId, 'vacant', { changedBy: seatedBy, reason: 'Walk-in not seated' })
+        .catch(err => console.error('Failed to undo walk-in seating:', err));
+    }
+    if (error instanceof TableTransitionError) throw new WalkInError(error.message);
+    throw error;
+  }
+
+  const seated = (await markReservationSeated(reservation.id, restaurant.id)) ?? reservation;
+
+  await publishReservationEvent(restaurant, { type: 'RESERVATION_CREATED', reservations: [seated] });
+  await NotifyService.broadcast(restaurant.id, 'reservation.created', {
+    id: seated.id,
+    guestName: seated.guestName,
+    partySize: seated.partySize,
+    startTime: seated.startTime,
+    tableId: seated.tableId,
+    isWalkIn: true,
+  });
+
+  return seated;
+}
@@ -0,0 +1,195 @@
+/**
+ * Webhook Events
+ *
+ * Restaurants register partner endpoints for the events they care about.
+ * Every event is first written to the webhook_deliveries outbox, one row per
+ * subscribed endpoint - for bookings and moves in the same batch as the
+ * reservation itself - and then sent by the cleanup cron. Failed sends are
+ * retried with exponential backoff until MAX_DELIVERY_ATTEMPTS; after that
+ * the delivery is marked failed and can be resent from the dashboard.
+ *
+ * Each request carries the JSON envelope below, signed the same way as other
+ * table-stack webhooks: HMAC-SHA256 over `${timestamp}.${body}` with the
+ * subscription's secret, sent in the x-signature and x-timestamp headers.
+ *
+ * Reservation events come from ./reservation-events, so every booking
+ * writer notifies partners the same way.
+ *
+ * webhook_deliveries is its own outbox rather than the shared one in
+ * @repo/shared/outbox. That outbox carries saga state only: its event types
+ * and payloads (which require an executionId) are closed to saga steps, and
+ * its relay claims every pending row and writes saga keys to Redis, so
+ * partner deliveries there would be consumed as saga events. It also
+ * publishes inside an interactive transaction, which the Neon HTTP driver
+ * does not offer. A delivery here additionally needs a row per subscription,
+ * its own backoff and a log the dashboard can resend from.
+ *
+ * Pure helpers only; subscriptions and sending live in ./webhooks.
+ */
+
+export const WEBHOOK_EVENTS = [
+  'reservation.created',
+  'reservation.modified',
+  'reservation.cancelled',
+  'waitlist.updated',
+  'delivery.status_changed',
+] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'reservation.created': 'Reservation created',
+  'reservation.modified': 'Reservation changed',
+  'reservation.cancelled': 'Reservation cancelled',
+  'waitlist.updated': 'Waitlist changed',
+  'delivery.status_changed': 'Delivery status changed',
+};
+
+export const MAX_DELIVERY_ATTEMPTS = 10;
+
+/** Delay before the first retry; doubled for each one after */
+const BASE_RETRY_DELAY_MS = 60_000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60_000;
+
+/** Error messages and response bodies are cut to this length in the log */
+const MAX_ERROR_LENGTH = 500;
+
+export interface WebhookEnvelope {
+  id: string;
+  type: WebhookEvent;
+  restaurantId: string;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+export function buildEnvelope(
+  eventId: string,
+  type: WebhookEvent,
+  restaurantId: string,
+  data: Record<string, unknown>,
+  now: Date = new Date()
+): WebhookEnvelope {
+  return { id: eventId, type, restaurantId, createdAt: now.toISOString(), data };
+}
+
+/**
+ * The reservation fields partners receive. Guest contact details are left
+ * out; partners with the reservations:read scope can fetch them.
+ */
+export function reservationEventData(reservation: {
+  id: string;
+  status: string | null;
+  guestName: string;
+  partySize: number;
+  startTime: Date;
+  endTime: Date;
+  tableId: string | null;
+  combinedTableIds?: string[] | null;
+  isVerified?: boolean | null;
+}): Record<string, unknown> {
+  return {
+    id: reservation.id,
+    status: reservation.status,
+    // Unverified bookings are removed if the guest does not confirm in time
+    isVerified: reservation.isVerified ?? false,
+    guestName: reservation.guestName,
+    partySize: reservation.partySize,
+    startTime: reservation.startTime.toISOString(),
+    endTime: reservation.endTime.toISOString(),
+    tableIds: reservation.combinedTableIds?.length
+      ? reservation.combinedTableIds
+      : reservation.tableId ? [reservation.tableId] : [],
+  };
+}
+
+/**
+ * A moved or resized reservation as partners receive it: the reservation
+ * now, plus the time, party size and tables it had before.
+ */
+export function reservationModifiedEventData(
+  previous: Parameters<typeof reservationEventData>[0],
+  current: Parameters<typeof reservationEventData>[0]
+): Record<string, unknown> {
+  const { startTime, endTime, partySize, tableIds } = reservationEventData(previous);
+  return { ...reservationEventData(current), previous: { startTime, endTime, partySize, tableIds } };
+}
+
+export function waitlistEventData(entry: {
+  id: string;
+  status: string | null;
+  guestName: string;
+  partySize: number;
+  notifiedTableId?: string | null;
+}): Record<string, unknown> {
+  return {
+    id: entry.id,
+    status: entry.status,
+    guestName: entry.guestName,
+    partySize: entry.partySize,
+    tableId: entry.notifiedTableId ?? null,
+  };
+}
+
+/**
+ * A new signing secret, e.g. "whsec_" followed by 64 hex characters.
+ */
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return 'whsec_' + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * How long to wait after the given number of failed attempts.
+ */
+export function retryDelayMs(failedAttempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(failedAttempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * The state of a delivery after an attempt. `attempts` counts the attempt
+ * just made.
+ */
+export function afterAttempt(
+  attempts: number,
+  succeeded: boolean,
+  now: Date = new Date()
+): { status: DeliveryStatus; nextAttemptAt: Date | null } {
+  if (succeeded) return { status: 'delivered', nextAttemptAt: null };
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) return { status: 'failed', nextAttemptAt: null };
+  return { status: 'pending', nextAttemptAt: new Date(now.getTime() + retryDelayMs(attempts)) };
+}
+
+export function truncateError(message: string): string {
+  return message.length > MAX_ERROR_LENGTH ? `${message.slice(0, MAX_ERROR_LENGTH - 1)}…` : message;
+}
+
+/**
+ * Returns an error message for an invalid subscription, or null. Endpoints
+ * must use HTTPS; plain HTTP is accepted for localhost when `allowLocalhost`.
+ */
+export function validateSubscriptionInput(
+  input: { url: string; events: string[] },
+  options: { allowLocalhost?: boolean } = {}
+): string | null {
+  let url: URL;
+  try {
+    url = new URL(input.url.trim());
+  } catch {
+    return 'Enter a valid URL';
+  }
+
+  const isLocal = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+  if (isLocal && !options.allowLocalhost) return 'Endpoint must be publicly reachable';
+  if (url.protocol !== 'https:' && !(isLocal && url.protocol === 'http:')) return 'Endpoint must use HTTPS';
+  if (url.username || url.password) return 'Endpoint must not contain credentials';
+
+  if (input.events.length === 0) return 'Choose at least one event';
+  const unknown = input.events.find(event => !isWebhookEvent(event));
+  if (unknown) return `Unknown event: ${unknown}`;
+  return null;
+}
@@ -0,0 +1,252 @@
+import { db, webhookSubscriptions, webhookDeliveries, and, desc, eq, lte, sql } from "@repo/database";
+import type { InferInsertModel, InferSelectModel } from "@repo/database";
+import { signPayload } from './auth';
+import {
+  afterAttempt,
+  buildEnvelope,
+  generateWebhookSecret,
+  truncateError,
+  WebhookEvent,
+} from './webhook-events';
+
+/** A claimed delivery is left alone by other senders for this long */
+const CLAIM_TIMEOUT_MS = 2 * 60_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export type WebhookSubscription = InferSelectModel<typeof webhookSubscriptions>;
+export type WebhookDelivery = InferSelectModel<typeof webhookDeliveries>;
+type NewWebhookDelivery = InferInsertModel<typeof webhookDeliveries>;
+
+export class WebhookSubscriptionPausedError extends Error {
+  constructor() {
+    super('Resume the subscription before redelivering');
+    this.name = 'WebhookSubscriptionPausedError';
+  }
+}
+
+export async function listWebhookSubscriptions(restaurantId: string): Promise<WebhookSubscription[]> {
+  return db.query.webhookSubscriptions.findMany({
+    where: eq(webhookSubscriptions.restaurantId, restaurantId),
+    orderBy: (subscription: any, { asc }: any) => [asc(subscription.createdAt)],
+  });
+}
+
+export async function createWebhookSubscription(
+  restaurantId: string,
+  input: { url: string; description: string | null; events: WebhookEvent[] },
+  createdBy: string
+): Promise<WebhookSubscription> {
+  const [subscription] = await db.insert(webhookSubscriptions).values({
+    restaurantId,
+    url: input.url.trim(),
+    description: input.description?.trim() || null,
+    events: input.events,
+    secret: generateWebhookSecret(),
+    createdBy,
+  }).returning();
+  return subscription;
+}
+
+export async function setWebhookSubscriptionActive(restaurantId: string, subscriptionId: string, isActive: boolean): Promise<void> {
+  await db.update(webhookSubscriptions)
+    .set({ isActive })
+    .where(and(eq(webhookSubscriptions.id, subscriptionId), eq(webhookSubscriptions.restaurantId, restaurantId)));
+}
+
+export async function deleteWebhookSubscription(restaurantId: string, subscriptionId: string): Promise<void> {
+  await db.delete(webhookSubscriptions)
+    .where(and(eq(webhookSubscriptions.id, subscriptionId), eq(webhookSubscriptions.restaurantId, restaurantId)));
+}
+
+/**
+ * The restaurant's most recent deliveries, newest first.
+ */
+export async function listWebhookDeliveries(
+  restaurantId: string,
+  limit: number = 50
+): Promise<(WebhookDelivery & { subscription: WebhookSubscription })[]> {
+  return db.query.webhookDeliveries.findMany({
+    where: eq(webhookDeliveries.restaurantId, restaurantId),
+    with: { subscription: true },
+    orderBy: [desc(webhookDeliveries.createdAt)],
+    limit,
+  });
+}
+
+/**
+ * The delivery rows queuing an event for every active subscription to it,
+ * for the caller to write along with the change the event reports. Empty
+ * when nobody subscribes.
+ */
+export async function webhookDeliveriesFor(
+  restaurantId: string,
+  type: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<NewWebhookDelivery[]> {
+  const subscriptions: WebhookSubscription[] = await db.query.webhookSubscriptions.findMany({
+    where: and(
+      eq(webhookSubscriptions.restaurantId, restaurantId),
+      eq(webhookSubscriptions.isActive, true),
+      sql`${webhookSubscriptions.events} @> ${JSON.stringify([type])}::jsonb`
+    ),
+  });
+  if (subscriptions.length === 0) return [];
+
+  const envelope = buildEnvelope(crypto.randomUUID(), type, restaurantId, data);
+  return subscriptions.map(subscription => ({
+    subscriptionId: subscription.id,
+    restaurantId,
+    eventId: envelope.id,
+    eventType: type,
+    payload: { ...envelope },
+  }));
+}
+
+/**
+ * Runs `write` and queues `deliveries` in one batch, so an event is queued
+ * exactly when the change it reports is written. Resolves to the result of
+ * `write`.
+ */
+export async function writeWithWebhookDeliveries<T>(write: PromiseLike<T>, deliveries: NewWebhookDelivery[]): Promise<T> {
+  if (deliveries.length === 0) return write;
+  const [result] = await db.batch([write, db.insert(webhookDeliveries).values(deliveries)]);
+  return result;
+}
+
+/**
+ * Queues an event for every active subscription to it, for changes already
+ * written. Sending is left to sendDueWebhookDeliveries in the cleanup cron,
+ * so a slow partner endpoint never holds up the request that raised the
+ * event. Never throws: a webhook problem must not fail the booking,
+ * waitlist or delivery update that raised the event.
+ */
+export async function emitWebhookEvent(
+  restaurantId: string,
+  type: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const deliveries = await webhookDeliveriesFor(restaurantId, type, data);
+    if (deliveries.length > 0) await db.insert(webhookDeliveries).values(deliveries);
+  } catch (error) {
+    console.error(`Failed to queue webhook event ${type}:`, error);
+  }
+}
+
+/**
+ * Sends deliveries that are queued or whose retry is due, oldest first.
+ * Returns the number delivered.
+ */
+export async function sendDueWebhookDeliveries(limit: number = 50): Promise<number> {
+  const due: { id: string }[] = await db
+    .select({ id: webhookDeliveries.id })
+    .from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.status, 'pending'), lte(webhookDeliveries.nextAttemptAt, new Date())))
+    .orderBy(webhookDeliveries.nextAttemptAt)
+    .limit(limit);
+
+  let delivered = 0;
+  for (const { id } of due) {
+    if (await attemptDelivery(id)) delivered++;
+  }
+  return delivered;
+}
+
+/**
+ * Sends a logged event again as a new delivery with the same event id, so
+ * the original attempts stay in the log.
+ */
+export async function redeliverWebhook(restaurantId: string, deliveryId: string): Promise<WebhookDelivery> {
+  const original = await db.query.webhookDeliveries.findFirst({
+    where: and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.restaurantId, restaurantId)),
+    with: { subscription: true },
+  });
+  if (!original) throw new Error('Delivery not found');
+  if (!original.subscription.isActive) throw new WebhookSubscriptionPausedError();
+
+  const [delivery] = await db.insert(webhookDeliveries).values({
+    subscriptionId: original.subscriptionId,
+    restaurantId,
+    eventId: original.eventId,
+    eventType: original.eventType,
+    payload: original.payload,
+  }).returning();
+
+  await attemptDelivery(delivery.id);
+  return delivery;
+}
+
+/**
+ * Makes one attempt at a due delivery and records the outcome. Returns true
+ * when the endpoint accepted it.
+ */
+async function attemptDelivery(deliveryId: string): Promise<boolean> {
+  const now = new Date();
+
+  // Claimed by pushing the next attempt forward, so an overlapping cron run
+  // or redelivery cannot send it twice
+  const [delivery]: WebhookDelivery[] = await db.update(webhookDeliveries)
+    .set({ nextAttemptAt: new Date(now.getTime() + CLAIM_TIMEOUT_MS) })
+    .where(and(
+      eq(webhookDeliveries.id, deliveryId),
+      eq(webhookDeliveries.status, 'pending'),
+      lte(webhookDeliveries.nextAttemptAt, now)
+    ))
+    .returning();
+  if (!delivery) return false;
+
+  const subscription: WebhookSubscription | undefined = await db.query.webhookSubscriptions.findFirst({
+    where: eq(webhookSubscriptions.id, delivery.subscriptionId),
+  });
+  if (!subscription?.isActive) {
+    await db.update(webhookDeliveries)
+      .set({ status: 'failed', nextAttemptAt: null, errorMessage: 'Subscription paused' })
+      .where(eq(webhookDeliveries.id, delivery.id));
+    return false;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const { signature, timestamp } = await signPayload(body, subscription.secret);
+
+  let responseStatus: number | null = null;
+  let errorMessage: string | null = null;
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-signature': signature,
+        'x-timestamp': timestamp.toString(),
+        'x-webhook-event': delivery.eventType,
+        'x-webhook-delivery': delivery.id,
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      errorMessage = truncateError(`HTTP ${response.status}${text ? `: ${text}` : ''}`);
+    }
+  } catch (error) {
+    errorMessage = truncateError(error instanceof Error ? error.message : String(error));
+  }
+
+  const finishedAt = new Date();
+  const attempts = delivery.attempts + 1;
+  const next = afterAttempt(attempts, errorMessage === null, finishedAt);
+  await db.update(webhookDeliveries)
+    .set({
+      status: next.status,
+      attempts,
+      nextAttemptAt: next.nextAttemptAt,
+      lastAttemptAt: finishedAt,
+      responseStatus,
+      errorMessage,
+      deliveredAt: next.status === 'delivered' ? finishedAt : null,
+    })
+    .where(eq(webhookDeliveries.id, delivery.id));
+
+  return next.status === 'delivered';
+}
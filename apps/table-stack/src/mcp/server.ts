@@ -10,10 +10,24 @@ import {
   DISCOVER_RESTAURANT_TOOL,
   TOOL_METADATA
 } from "@repo/mcp-protocol";
-import { db, restaurants, restaurantTables, restaurantReservations, eq, gte, or, and } from "@repo/database";
-import { sql } from 'drizzle-orm';
+import { db, restaurants, eq } from "@repo/database";
 import { addMinutes, parseISO } from 'date-fns';
-import { toZonedTime, format } from 'date-fns-tz';
+import {
+  getAvailableTables,
+  validateCombinationForRestaurant,
+  getServiceSchedule,
+  isRestaurantOpenAt,
+  getTurnTimeMinutes,
+  turnTimeFor,
+} from "../lib/availability";
+import { isOpenAt } from "../lib/service-schedule";
+import { parseCombinationId } from "../lib/table-combinations";
+import { getRequiredDeposit } from "../lib/no-shows";
+import { openDepositCheckout } from "../lib/deposit-settlement";
+import { BookingHold, findHoldForBooking, HoldUnavailableError } from "../lib/booking-holds";
+import { TablesBusyError } from "../lib/hold-policy";
+import { bookTables } from "../lib/bookings";
+import { sendConfirmationEmail } from "../lib/reservation-emails";
 
 const server = new Server(
   {
@@ -27,103 +41,6 @@ const server = new Server(
   }
 );
 
-async function getAvailableTables(restaurantId: string, startTime: Date, partySize: number, duration: number) {
-  const endTime = addMinutes(startTime, duration);
-
-  const occupiedTableIdsResult = await db
-    .select({ tableId: restaurantReservations.tableId })
-    .from(restaurantReservations)
-    .where(
-      and(
-        eq(restaurantReservations.restaurantId, restaurantId),
-        or(
-          eq(restaurantReservations.status, 'confirmed'),
-          and(
-            eq(restaurantReservations.isVerified, false),
-            gte(restaurantReservations.createdAt, new Date(Date.now() - 15 * 60 * 1000))
-          )
-        ),
-        sql`(${restaurantReservations.startTime}, ${restaurantReservations.endTime}) OVERLAPS (${sql.placeholder(startTime.toISOString())}::timestamptz, ${sql.placeholder(endTime.toISOString())}::timestamptz)`
-      )
-    );
-
-  const occupiedTableIds = occupiedTableIdsResult.map((r: { tableId: string | null }) => r.tableId).filter(Boolean) as string[];
-
-  const occupiedCombinedTableIdsResult = await db
-    .select({ combinedTableIds: restaurantReservations.combinedTableIds })
-    .from(restaurantReservations)
-    .where(
-      and(
-        eq(restaurantReservations.restaurantId, restaurantId),
-        or(
-          eq(restaurantReservations.status, 'confirmed'),
-          and(
-            eq(restaurantReservations.isVerified, false),
-            gte(restaurantReservations.createdAt, new Date(Date.now() - 15 * 60 * 1000))
-          )
-        ),
-        sql`(${restaurantReservations.startTime}, ${restaurantReservations.endTime}) OVERLAPS (${sql.placeholder(startTime.toISOString())}::timestamptz, ${sql.placeholder(endTime.toISOString())}::timestamptz)`
-      )
-    );
-
-  occupiedCombinedTableIdsResult.forEach((r: { combinedTableIds: string[] | null }) => {
-    if (r.combinedTableIds) {
-      occupiedTableIds.push(...(r.combinedTableIds as string[]));
-    }
-  });
-
-  const allTables = await db
-    .select()
-    .from(restaurantTables)
-    .where(
-      and(
-        eq(restaurantTables.restaurantId, restaurantId),
-        eq(restaurantTables.isActive, true),
-        eq(restaurantTables.status, 'vacant')
-      )
-    );
-
-  const availableIndividualTables = allTables.filter((t: any) => 
-    !occupiedTableIds.includes(t.id) && t.maxCapacity >= partySize
-  );
-
-  if (availableIndividualTables.length > 0) {
-    return availableIndividualTables.map((t: any) => ({ ...t, isCombined: false }));
-  }
-
-  const vacantTables = allTables.filter((t: any) => !occupiedTableIds.includes(t.id));
-  const suggestedCombos: any[] = [];
-
-  for (let i = 0; i < vacantTables.length; i++) {
-    for (let j = i + 1; j < vacantTables.length; j++) {
-      const t1 = vacantTables[i];
-      const t2 = vacantTables[j];
-      const combinedCapacity = t1.maxCapacity + t2.maxCapacity;
-      
-      if (combinedCapacity >= partySize) {
-        const distance = Math.sqrt(
-          Math.pow((t1.xPos || 0) - (t2.xPos || 0), 2) + 
-          Math.pow((t1.yPos || 0) - (t2.yPos || 0), 2)
-        );
-
-        if (distance < 120) {
-          suggestedCombos.push({
-            id: `${t1.id}+${t2.id}`,
-            tableNumber: `${t1.tableNumber}+${t2.tableNumber}`,
-            combinedTableIds: [t1.id, t2.id],
-            maxCapacity: combinedCapacity,
-            isCombined: true,
-            table1: t1,
-            table2: t2,
-          });
-        }
-      }
-    }
-  }
-
-  return suggestedCombos;
-}
-
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
     tools: [
@@ -145,7 +62,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   try {
     switch (name) {
       case "check_availability": {
-        const { restaurantId, date, partySize } = args as any;
+        const { restaurantId, date, partySize, section } = args as any;
         
         const restaurant = await db.query.restaurants.findFirst({
           where: eq(restaurants.id, restaurantId),
@@ -157,36 +74,32 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
         const requestedDate = parseISO(date);
         const timezone = restaurant.timezone || 'UTC';
-        const restaurantTime = toZonedTime(requestedDate, timezone);
-        
-        const dayOfWeek = format(restaurantTime, 'eeee', { timeZone: timezone }).toLowerCase();
-        const openDays = restaurant.daysOpen?.split(',').map((d: string) => d.trim().toLowerCase()) || [];
-        
-        if (!openDays.includes(dayOfWeek)) {
-          return { content: [{ type: "text", text: JSON.stringify({ message: 'Restaurant is closed on this day', availableTables: [] }) }] };
-        }
+        const schedule = await getServiceSchedule(restaurant);
 
-        const timeStr = format(restaurantTime, 'HH:mm', { timeZone: timezone });
-        if (timeStr < (restaurant.openingTime || '00:00') || timeStr > (restaurant.closingTime || '23:59')) {
+        if (!isOpenAt(requestedDate, timezone, schedule)) {
           return { content: [{ type: "text", text: JSON.stringify({ message: 'Restaurant is closed at this time', availableTables: [] }) }] };
         }
 
-        const duration = restaurant.defaultDurationMinutes || 90;
-        const availableTables = await getAvailableTables(restaurantId, requestedDate, partySize, duration);
+        const duration = turnTimeFor(restaurant, schedule, requestedDate, partySize);
+        const availableTables = await getAvailableTables(restaurantId, requestedDate, partySize, duration, { section });
 
         const suggestedSlots: any[] = [];
         if (availableTables.length === 0) {
           const offsets = [-30, 30, -60, 60];
           for (const offset of offsets) {
             const suggestedTime = addMinutes(requestedDate, offset);
-            const suggestedZonedTime = toZonedTime(suggestedTime, timezone);
-            const suggestedTimeStr = format(suggestedZonedTime, 'HH:mm', { timeZone: timezone });
-            
-            if (suggestedTimeStr < (restaurant.openingTime || '00:00') || suggestedTimeStr > (restaurant.closingTime || '23:59')) {
+
+            if (!isOpenAt(suggestedTime, timezone, schedule)) {
               continue;
             }
 
-            const tables = await getAvailableTables(restaurantId, suggestedTime, partySize, duration);
+            const tables = await getAvailableTables(
+              restaurantId,
+              suggestedTime,
+              partySize,
+              turnTimeFor(restaurant, schedule, suggestedTime, partySize),
+              { section }
+            );
             if (tables.length > 0) {
               suggestedSlots.push({
                 time: suggestedTime.toISOString(),
@@ -211,7 +124,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case "book_tablestack_reservation": {
-        const { restaurantId, tableId, guestName, guestEmail, partySize, startTime, is_confirmed } = args as any;
+        const { restaurantId, tableId, guestName, guestEmail, partySize, startTime, holdToken, is_confirmed } = args as any;
 
         if (!is_confirmed) {
           return {
@@ -229,24 +142,86 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
 
         const start = parseISO(startTime);
-        const duration = restaurant.defaultDurationMinutes || 90;
+        const duration = await getTurnTimeMinutes(restaurant, start, partySize);
         const end = addMinutes(start, duration);
 
-        const isCombined = tableId.includes('+');
-        const tableIds = isCombined ? tableId.split('+') : [tableId];
-
-        const [newReservation] = await db.insert(restaurantReservations).values({
-          restaurantId,
-          tableId: isCombined ? null : tableId,
-          combinedTableIds: isCombined ? tableIds : null,
-          guestName,
-          guestEmail,
-          partySize,
-          startTime: start,
-          endTime: end,
-          status: 'confirmed',
-          isVerified: true, // Auto-verify for MCP calls?
-        }).returning();
+        if (!(await isRestaurantOpenAt(restaurant, start))) {
+          return { content: [{ type: "text", text: "Restaurant is closed at this time" }], isError: true };
+        }
+
+        const tableIds = parseCombinationId(tableId);
+        const isCombined = tableIds.length > 1;
+
+        let hold: BookingHold | null = null;
+        if (holdToken) {
+          try {
+            hold = await findHoldForBooking(holdToken, { restaurantId, startTime: start, partySize, tableIds });
+          } catch (error) {
+            if (error instanceof HoldUnavailableError) {
+              return { content: [{ type: "text", text: error.message }], isError: true };
+            }
+            throw error;
+          }
+        }
+
+        if (isCombined) {
+          const validation = await validateCombinationForRestaurant(restaurantId, tableIds, partySize, start);
+          if (!validation.valid) {
+            return { content: [{ type: "text", text: validation.error }], isError: true };
+          }
+        }
+
+        const depositAmount = await getRequiredDeposit(restaurant, guestEmail);
+
+        let outcome;
+        try {
+          outcome = await bookTables(restaurant, {
+            restaurantId,
+            tableId: isCombined ? null : tableId,
+            combinedTableIds: isCombined ? tableIds : null,
+            guestName,
+            guestEmail,
+            partySize,
+            startTime: start,
+            endTime: end,
+            status: 'confirmed',
+            isVerified: depositAmount === 0,
+            depositAmount,
+            depositStatus: depositAmount > 0 ? 'pending' : null,
+          }, { hold });
+        } catch (error) {
+          if (error instanceof TablesBusyError) {
+            return { content: [{ type: "text", text: error.message }], isError: true };
+          }
+          throw error;
+        }
+
+        if (outcome.conflicts) {
+          return { content: [{ type: "text", text: "Table is no longer available" }], isError: true };
+        }
+
+        if (outcome.paced) {
+          return { content: [{ type: "text", text: "Too many guests are already arriving around this time. Please choose another slot." }], isError: true };
+        }
+
+        const newReservation = outcome.reservation;
+
+        if (depositAmount > 0) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                status: "pending_deposit",
+                message: "The guest must pay a deposit before this reservation is confirmed",
+                booking_id: newReservation.id,
+                deposit_amount: depositAmount,
+                deposit_checkout_url: await openDepositCheckout(newReservation, restaurant),
+              })
+            }]
+          };
+        }
+
+        await sendConfirmationEmail(newReservation, restaurant);
 
         return {
           content: [{
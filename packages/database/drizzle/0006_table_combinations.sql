@@ -0,0 +1,7 @@
+-- Add adjacency graph for N-table combinations
+-- Each table lists the neighbouring tables it can be pushed together with.
+-- Edges are treated as undirected by the combination engine.
+
+ALTER TABLE "restaurant_tables" ADD COLUMN IF NOT EXISTS "combinable_with" jsonb DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN "restaurant_tables"."combinable_with" IS 'IDs of neighbouring tables this table can be joined with';
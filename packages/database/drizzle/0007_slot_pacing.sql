@@ -0,0 +1,11 @@
+-- Add slot grid interval and cover pacing to restaurants
+-- pacing_max_covers caps the number of new guests whose reservations start
+-- within each pacing window. NULL disables pacing.
+
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "slot_interval_minutes" integer DEFAULT 15;
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "pacing_max_covers" integer;
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "pacing_window_minutes" integer DEFAULT 15;
+
+COMMENT ON COLUMN "restaurants"."slot_interval_minutes" IS 'Default interval between bookable slots (15 or 30 minutes)';
+COMMENT ON COLUMN "restaurants"."pacing_max_covers" IS 'Maximum new covers per pacing window; NULL means unlimited';
+COMMENT ON COLUMN "restaurants"."pacing_window_minutes" IS 'Length of the cover pacing window in minutes';
@@ -0,0 +1,22 @@
+-- Structured weekly service schedule and dated closure exceptions
+-- service_schedule holds multiple service periods per weekday, e.g.
+-- {"monday": [{"name": "Lunch", "startTime": "11:30", "endTime": "14:00"}, ...]}
+-- NULL keeps the legacy opening_time / closing_time / days_open behaviour.
+
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "service_schedule" jsonb;
+
+COMMENT ON COLUMN "restaurants"."service_schedule" IS 'Weekly service periods keyed by weekday; NULL uses opening/closing time';
+
+CREATE TABLE IF NOT EXISTS "restaurant_schedule_exceptions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"restaurant_id" uuid NOT NULL REFERENCES "restaurants"("id") ON DELETE CASCADE,
+	"date" text NOT NULL,
+	"is_closed" boolean DEFAULT true NOT NULL,
+	"periods" jsonb,
+	"reason" text,
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "schedule_exception_restaurant_date_idx" ON "restaurant_schedule_exceptions" ("restaurant_id", "date");
+
+COMMENT ON TABLE "restaurant_schedule_exceptions" IS 'Holidays, one-off closures and special hours overriding the weekly schedule';
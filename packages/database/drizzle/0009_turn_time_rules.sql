@@ -0,0 +1,8 @@
+-- Party-size and service-aware turn times
+-- Each rule: {"minPartySize": 1, "maxPartySize": 2, "durationMinutes": 75,
+--             "servicePeriods": ["Dinner"], "days": ["saturday"]}
+-- Bookings matching no rule keep using default_duration_minutes.
+
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "turn_time_rules" jsonb DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN "restaurants"."turn_time_rules" IS 'Turn time rules keyed by party size range, service period and weekday';
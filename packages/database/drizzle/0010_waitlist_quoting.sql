@@ -0,0 +1,17 @@
+-- Waitlist wait-time quotes and automatic promotion
+-- queued_at orders the queue. A party notified for a vacated table that does
+-- not respond within waitlist_response_minutes is requeued at the back.
+
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "waitlist_response_minutes" integer DEFAULT 10;
+
+ALTER TABLE "restaurant_waitlist" ADD COLUMN IF NOT EXISTS "quoted_wait_minutes" integer;
+ALTER TABLE "restaurant_waitlist" ADD COLUMN IF NOT EXISTS "queued_at" timestamp DEFAULT now() NOT NULL;
+ALTER TABLE "restaurant_waitlist" ADD COLUMN IF NOT EXISTS "notified_at" timestamp;
+ALTER TABLE "restaurant_waitlist" ADD COLUMN IF NOT EXISTS "notified_table_id" uuid;
+
+UPDATE "restaurant_waitlist" SET "queued_at" = "created_at" WHERE "created_at" IS NOT NULL;
+
+COMMENT ON COLUMN "restaurants"."waitlist_response_minutes" IS 'Minutes a notified waitlist party has to respond before being requeued';
+COMMENT ON COLUMN "restaurant_waitlist"."quoted_wait_minutes" IS 'Estimated wait quoted when the party joined';
+COMMENT ON COLUMN "restaurant_waitlist"."queued_at" IS 'Queue position timestamp; reset when the party is requeued';
+COMMENT ON COLUMN "restaurant_waitlist"."notified_table_id" IS 'Table the party was notified for';
@@ -0,0 +1,21 @@
+-- No-show detection, guest reliability and deposit policy
+-- Confirmed reservations not seated within no_show_grace_minutes of their
+-- start are flagged 'noshow' by the cleanup cron. Guests reaching
+-- deposit_no_show_threshold no-shows must pay no_show_deposit_amount (cents)
+-- before their reservation is confirmed.
+
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "no_show_grace_minutes" integer;
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "deposit_no_show_threshold" integer;
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "no_show_deposit_amount" integer DEFAULT 0;
+
+ALTER TABLE "restaurant_reservations" ADD COLUMN IF NOT EXISTS "seated_at" timestamp with time zone;
+
+ALTER TABLE "guest_profiles" ADD COLUMN IF NOT EXISTS "seated_count" integer DEFAULT 0;
+ALTER TABLE "guest_profiles" ADD COLUMN IF NOT EXISTS "no_show_count" integer DEFAULT 0;
+ALTER TABLE "guest_profiles" ADD COLUMN IF NOT EXISTS "reliability_score" integer DEFAULT 100;
+
+COMMENT ON COLUMN "restaurants"."no_show_grace_minutes" IS 'Minutes after start before an unseated reservation is a no-show; NULL disables detection';
+COMMENT ON COLUMN "restaurants"."deposit_no_show_threshold" IS 'No-shows after which a guest must pay a deposit; NULL disables the policy';
+COMMENT ON COLUMN "restaurants"."no_show_deposit_amount" IS 'Deposit required from unreliable guests, in cents';
+COMMENT ON COLUMN "restaurant_reservations"."seated_at" IS 'When the party was seated; NULL until they arrive';
+COMMENT ON COLUMN "guest_profiles"."reliability_score" IS 'Share of honoured reservations (0-100), smoothed for new guests';
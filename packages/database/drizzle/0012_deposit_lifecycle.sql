@@ -0,0 +1,20 @@
+-- Stripe deposit lifecycle
+-- deposit_status tracks a reservation's deposit from 'pending' (required,
+-- unpaid) through 'held' (authorised, capture_method=manual) or 'paid' to
+-- 'released', 'refunded' or 'partially_refunded'. Cancellations at least
+-- cancellation_window_hours before the reservation are refunded in full;
+-- later ones get late_cancellation_refund_percent back.
+
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "cancellation_window_hours" integer DEFAULT 24;
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "late_cancellation_refund_percent" integer DEFAULT 0;
+
+ALTER TABLE "restaurant_reservations" ADD COLUMN IF NOT EXISTS "deposit_status" text;
+ALTER TABLE "restaurant_reservations" ADD COLUMN IF NOT EXISTS "refunded_amount" integer DEFAULT 0;
+
+UPDATE "restaurant_reservations" SET "deposit_status" = 'pending'
+WHERE "deposit_amount" > 0 AND "deposit_status" IS NULL AND "is_verified" = false;
+
+COMMENT ON COLUMN "restaurants"."cancellation_window_hours" IS 'Hours before a reservation after which cancellations are only partially refunded';
+COMMENT ON COLUMN "restaurants"."late_cancellation_refund_percent" IS 'Share of the deposit refunded for late cancellations (0-100)';
+COMMENT ON COLUMN "restaurant_reservations"."deposit_status" IS 'pending, held, paid, released, refunded or partially_refunded; NULL without a deposit';
+COMMENT ON COLUMN "restaurant_reservations"."refunded_amount" IS 'Deposit returned to the guest, in cents';
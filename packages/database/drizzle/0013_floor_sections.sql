@@ -0,0 +1,27 @@
+-- Floor plan rooms, sections and table geometry
+-- Tables belong to an optional named section (patio, bar, private room);
+-- sections sharing a "room" share a floor plan canvas. Hosts can disable a
+-- section for a shift: a disabled section's tables are left out of
+-- availability until it is re-enabled or disabled_until passes.
+
+CREATE TABLE IF NOT EXISTS "restaurant_sections" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"restaurant_id" uuid NOT NULL REFERENCES "restaurants"("id") ON DELETE CASCADE,
+	"name" text NOT NULL,
+	"room" text,
+	"sort_order" integer DEFAULT 0,
+	"is_enabled" boolean DEFAULT true NOT NULL,
+	"disabled_until" timestamp with time zone,
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "section_restaurant_name_idx" ON "restaurant_sections" ("restaurant_id", "name");
+
+ALTER TABLE "restaurant_tables" ADD COLUMN IF NOT EXISTS "section_id" uuid REFERENCES "restaurant_sections"("id") ON DELETE SET NULL;
+ALTER TABLE "restaurant_tables" ADD COLUMN IF NOT EXISTS "rotation" integer DEFAULT 0;
+ALTER TABLE "restaurant_tables" ADD COLUMN IF NOT EXISTS "width" integer DEFAULT 96;
+ALTER TABLE "restaurant_tables" ADD COLUMN IF NOT EXISTS "height" integer DEFAULT 96;
+
+COMMENT ON TABLE "restaurant_sections" IS 'Named areas of the floor that can be filtered on and closed per shift';
+COMMENT ON COLUMN "restaurant_sections"."disabled_until" IS 'When a disabled section reopens automatically; NULL keeps it closed until re-enabled';
+COMMENT ON COLUMN "restaurant_tables"."rotation" IS 'Clockwise rotation on the floor plan, in degrees';
@@ -0,0 +1,36 @@
+-- Standing (recurring) reservations
+-- A series stores an RFC 5545 recurrence rule anchored at a local first date
+-- and time, plus skipped dates and an optional end date. Occurrences are
+-- booked as ordinary restaurant_reservations rows a rolling horizon ahead so
+-- they hold tables in availability; the cleanup cron extends the horizon.
+
+CREATE TABLE IF NOT EXISTS "reservation_series" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"restaurant_id" uuid NOT NULL REFERENCES "restaurants"("id") ON DELETE CASCADE,
+	"table_id" uuid REFERENCES "restaurant_tables"("id") ON DELETE SET NULL,
+	"combined_table_ids" jsonb,
+	"guest_name" text NOT NULL,
+	"guest_email" text NOT NULL,
+	"party_size" integer NOT NULL,
+	"rrule" text NOT NULL,
+	"first_date" text NOT NULL,
+	"start_time" text NOT NULL,
+	"end_date" text,
+	"exception_dates" jsonb DEFAULT '[]'::jsonb,
+	"status" text DEFAULT 'active' NOT NULL,
+	"materialized_through" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "reservation_series_restaurant_status_idx" ON "reservation_series" ("restaurant_id", "status");
+
+ALTER TABLE "restaurant_reservations" ADD COLUMN IF NOT EXISTS "series_id" uuid REFERENCES "reservation_series"("id") ON DELETE SET NULL;
+ALTER TABLE "restaurant_reservations" ADD COLUMN IF NOT EXISTS "occurrence_date" text;
+
+CREATE INDEX IF NOT EXISTS "reservation_series_occurrence_idx" ON "restaurant_reservations" ("series_id", "occurrence_date");
+
+COMMENT ON TABLE "reservation_series" IS 'Recurring bookings whose occurrences are materialized as reservations';
+COMMENT ON COLUMN "reservation_series"."rrule" IS 'RFC 5545 RRULE (FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY, BYMONTHDAY, COUNT, UNTIL)';
+COMMENT ON COLUMN "reservation_series"."exception_dates" IS 'Local dates (yyyy-MM-dd) skipped by the series';
+COMMENT ON COLUMN "reservation_series"."materialized_through" IS 'Last local date for which occurrences have been booked';
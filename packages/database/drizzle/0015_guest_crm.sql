@@ -0,0 +1,29 @@
+-- Guest CRM: structured notes, visit tracking and duplicate detection
+-- Allergies, dietary needs, seating preferences and tags (VIP, Regular, ...)
+-- are stored as JSON string lists beside the free-text preferences notes.
+-- visit_count now counts seated visits, so it is rebuilt from seated_count and
+-- last_visit_at from the latest seating. Profiles whose emails differ only in
+-- case are found through the lower(email) index and merged from the dashboard.
+
+ALTER TABLE "guest_profiles" ADD COLUMN IF NOT EXISTS "allergies" jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE "guest_profiles" ADD COLUMN IF NOT EXISTS "dietary_restrictions" jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE "guest_profiles" ADD COLUMN IF NOT EXISTS "seating_preferences" jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE "guest_profiles" ADD COLUMN IF NOT EXISTS "tags" jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE "guest_profiles" ADD COLUMN IF NOT EXISTS "last_visit_at" timestamp;
+
+UPDATE "guest_profiles" SET "visit_count" = COALESCE("seated_count", 0);
+
+UPDATE "guest_profiles" gp SET "last_visit_at" = latest."seated_at"
+FROM (
+	SELECT "restaurant_id", lower("guest_email") AS "email", max("seated_at") AS "seated_at"
+	FROM "restaurant_reservations"
+	WHERE "seated_at" IS NOT NULL
+	GROUP BY "restaurant_id", lower("guest_email")
+) latest
+WHERE latest."restaurant_id" = gp."restaurant_id" AND latest."email" = lower(gp."email");
+
+CREATE INDEX IF NOT EXISTS "guest_profiles_restaurant_lower_email_idx" ON "guest_profiles" ("restaurant_id", lower("email"));
+
+COMMENT ON COLUMN "guest_profiles"."visit_count" IS 'Seated visits';
+COMMENT ON COLUMN "guest_profiles"."preferences" IS 'Free-text host notes';
+COMMENT ON COLUMN "guest_profiles"."tags" IS 'Host-assigned labels such as VIP or Regular';
@@ -0,0 +1,18 @@
+-- Menu item options
+-- Products gain size variants, modifier groups with min/max selections and
+-- price deltas, allergen flags and local-time availability windows (e.g. a
+-- breakfast menu). All are JSON so an item's options are edited as one unit.
+-- Order items record the product, the chosen variant and modifiers; price is
+-- the unit price including them.
+
+ALTER TABLE "restaurant_products" ADD COLUMN IF NOT EXISTS "variants" jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE "restaurant_products" ADD COLUMN IF NOT EXISTS "modifier_groups" jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE "restaurant_products" ADD COLUMN IF NOT EXISTS "allergens" jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE "restaurant_products" ADD COLUMN IF NOT EXISTS "availability" jsonb DEFAULT '[]'::jsonb;
+
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "product_id" uuid REFERENCES "restaurant_products"("id") ON DELETE SET NULL;
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "variant_name" text;
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "modifiers" jsonb;
+
+COMMENT ON COLUMN "restaurant_products"."availability" IS 'Local-time ordering windows [{days?, startTime, endTime}]; empty means always available';
+COMMENT ON COLUMN "order_items"."price" IS 'Unit price including the chosen variant and modifiers';
@@ -0,0 +1,30 @@
+-- Inventory holds
+-- Delivery checkouts hold stock for a few minutes so two carts cannot sell
+-- the last unit twice. inventory_levels.held_quantity is the running total of
+-- live holds and is adjusted in the same statement that claims a hold, so
+-- "available - held" stays correct without transactions. Holds are committed
+-- (decrementing available_quantity) when the order is placed, released when
+-- the cart changes or the order is cancelled, and expired lazily.
+-- low_stock_threshold triggers a merchant alert when an order takes stock
+-- to or below it.
+
+ALTER TABLE "inventory_levels" ADD COLUMN IF NOT EXISTS "held_quantity" integer NOT NULL DEFAULT 0;
+ALTER TABLE "inventory_levels" ADD COLUMN IF NOT EXISTS "low_stock_threshold" integer;
+
+CREATE TABLE IF NOT EXISTS "inventory_holds" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "product_id" uuid NOT NULL REFERENCES "restaurant_products"("id") ON DELETE CASCADE,
+  "checkout_id" text NOT NULL,
+  "order_id" uuid REFERENCES "orders"("id") ON DELETE SET NULL,
+  "quantity" integer NOT NULL,
+  "status" text DEFAULT 'held' NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "inventory_holds_checkout_idx" ON "inventory_holds" ("checkout_id");
+CREATE INDEX IF NOT EXISTS "inventory_holds_order_idx" ON "inventory_holds" ("order_id");
+CREATE INDEX IF NOT EXISTS "inventory_holds_status_expires_idx" ON "inventory_holds" ("status", "expires_at");
+
+COMMENT ON COLUMN "inventory_levels"."held_quantity" IS 'Units held by live checkouts; sellable stock is available_quantity - held_quantity';
+COMMENT ON TABLE "inventory_holds" IS 'Stock held during delivery checkout: held -> committed | released | expired';
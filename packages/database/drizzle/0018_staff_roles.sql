@@ -0,0 +1,40 @@
+-- Organisations and staff roles
+-- An organisation groups several restaurants under one owner. Staff are
+-- invited by email with a role (owner, manager, host, kitchen), either for a
+-- single restaurant or for every restaurant in an organisation, and become
+-- active when the invited user signs in. restaurants.owner_id keeps owner
+-- rights at its own restaurant.
+
+CREATE TABLE IF NOT EXISTS "organisations" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "name" text NOT NULL,
+  "owner_id" text NOT NULL,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "organisations_owner_id_idx" ON "organisations" ("owner_id");
+
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "organisation_id" uuid REFERENCES "organisations"("id") ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS "restaurants_organisation_idx" ON "restaurants" ("organisation_id");
+
+CREATE TABLE IF NOT EXISTS "staff_members" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "organisation_id" uuid REFERENCES "organisations"("id") ON DELETE CASCADE,
+  "restaurant_id" uuid REFERENCES "restaurants"("id") ON DELETE CASCADE,
+  "email" text NOT NULL,
+  "user_id" text,
+  "role" text NOT NULL,
+  "status" text DEFAULT 'invited' NOT NULL,
+  "invited_by" text NOT NULL,
+  "created_at" timestamp DEFAULT now(),
+  "accepted_at" timestamp,
+  CONSTRAINT "staff_members_one_scope" CHECK (("organisation_id" IS NULL) <> ("restaurant_id" IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "staff_members_restaurant_email_idx" ON "staff_members" ("restaurant_id", "email");
+CREATE UNIQUE INDEX IF NOT EXISTS "staff_members_organisation_email_idx" ON "staff_members" ("organisation_id", "email");
+CREATE INDEX IF NOT EXISTS "staff_members_user_idx" ON "staff_members" ("user_id");
+
+COMMENT ON TABLE "staff_members" IS 'Staff invited to one restaurant, or to every restaurant in an organisation';
+COMMENT ON COLUMN "staff_members"."role" IS 'owner, manager, host or kitchen';
+COMMENT ON COLUMN "staff_members"."status" IS 'invited -> active once the invited email signs in';
@@ -0,0 +1,40 @@
+-- Scoped API keys
+-- Restaurants can hold several named API keys, each with its own scopes and
+-- optional expiry. Keys are stored as SHA-256 hashes. Rotating a key issues
+-- a replacement and sets the old key's expires_at to the end of a grace
+-- window instead of revoking it outright.
+--
+-- Existing restaurants.api_key values are carried over as a "Default" key
+-- with every scope so current integrations keep working. restaurants.api_key
+-- is no longer used to authenticate requests.
+
+CREATE TABLE IF NOT EXISTS "api_keys" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "restaurant_id" uuid NOT NULL REFERENCES "restaurants"("id") ON DELETE CASCADE,
+  "name" text NOT NULL,
+  "key_hash" text NOT NULL,
+  "key_prefix" text NOT NULL,
+  "scopes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "expires_at" timestamp with time zone,
+  "last_used_at" timestamp with time zone,
+  "revoked_at" timestamp with time zone,
+  "created_by" text NOT NULL,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "api_keys_key_hash_idx" ON "api_keys" ("key_hash");
+CREATE INDEX IF NOT EXISTS "api_keys_restaurant_idx" ON "api_keys" ("restaurant_id");
+
+INSERT INTO "api_keys" ("restaurant_id", "name", "key_hash", "key_prefix", "scopes", "created_by")
+SELECT
+  "id",
+  'Default',
+  encode(sha256(convert_to("api_key", 'UTF8')), 'hex'),
+  left("api_key", 9),
+  '["restaurant:read","availability:read","reservations:read","reservations:write","inventory:read","deliveries:write"]'::jsonb,
+  "owner_id"
+FROM "restaurants"
+ON CONFLICT ("key_hash") DO NOTHING;
+
+COMMENT ON TABLE "api_keys" IS 'Named, scoped API keys; only the SHA-256 hash of each key is stored';
+COMMENT ON COLUMN "api_keys"."expires_at" IS 'Null = never expires; set to the end of the grace window when the key is rotated';
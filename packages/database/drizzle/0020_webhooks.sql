@@ -0,0 +1,48 @@
+-- Outbound webhooks
+-- Restaurants register partner endpoints per event type. Every event is
+-- written to webhook_deliveries (one row per subscription) before anything
+-- is sent, so a crash or a failing endpoint never loses it; the cleanup cron
+-- retries due rows with exponential backoff. The rows also serve as the
+-- delivery log shown in the dashboard.
+--
+-- The shared "outbox" table is not used: its relay drains every pending row
+-- into the saga cache.
+
+CREATE TABLE IF NOT EXISTS "webhook_subscriptions" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "restaurant_id" uuid NOT NULL REFERENCES "restaurants"("id") ON DELETE CASCADE,
+  "url" text NOT NULL,
+  "description" text,
+  "events" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "secret" text NOT NULL,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_by" text NOT NULL,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "webhook_subscriptions_restaurant_idx" ON "webhook_subscriptions" ("restaurant_id");
+
+CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "subscription_id" uuid NOT NULL REFERENCES "webhook_subscriptions"("id") ON DELETE CASCADE,
+  "restaurant_id" uuid NOT NULL REFERENCES "restaurants"("id") ON DELETE CASCADE,
+  "event_id" uuid NOT NULL,
+  "event_type" text NOT NULL,
+  "payload" jsonb NOT NULL,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "next_attempt_at" timestamp with time zone DEFAULT now(),
+  "last_attempt_at" timestamp with time zone,
+  "response_status" integer,
+  "error_message" text,
+  "created_at" timestamp DEFAULT now(),
+  "delivered_at" timestamp with time zone
+);
+
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_status_next_attempt_idx" ON "webhook_deliveries" ("status", "next_attempt_at");
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_restaurant_created_idx" ON "webhook_deliveries" ("restaurant_id", "created_at");
+
+COMMENT ON TABLE "webhook_subscriptions" IS 'Partner endpoints notified of restaurant events';
+COMMENT ON TABLE "webhook_deliveries" IS 'Webhook outbox and delivery log; one row per event per subscription';
+COMMENT ON COLUMN "webhook_deliveries"."event_id" IS 'Identifies the event; shared by manual redeliveries so receivers can deduplicate';
+COMMENT ON COLUMN "webhook_deliveries"."next_attempt_at" IS 'When a pending delivery is next due; pushed forward while an attempt is in flight';
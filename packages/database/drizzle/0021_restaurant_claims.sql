@@ -0,0 +1,29 @@
+-- Shadow restaurant claims
+-- Shadow listings are created when a guest books somewhere not yet on
+-- TableStack, and the listing's email is sent a claim link. A signed-in user
+-- whose verified email matches takes the listing over at once; any other
+-- claim (different email, already claimed, or competing with another claim)
+-- is queued here for a platform admin to approve or reject.
+--
+-- Reservations and waitlist entries belong to the restaurant row, so they
+-- carry over unchanged when ownership moves.
+
+CREATE TABLE IF NOT EXISTS "restaurant_claims" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "restaurant_id" uuid NOT NULL REFERENCES "restaurants"("id") ON DELETE CASCADE,
+  "claimant_id" text NOT NULL,
+  "claimant_email" text NOT NULL,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "reason" text,
+  "evidence" text,
+  "reviewed_by" text,
+  "review_note" text,
+  "reviewed_at" timestamp with time zone,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "restaurant_claims_restaurant_status_idx" ON "restaurant_claims" ("restaurant_id", "status");
+CREATE INDEX IF NOT EXISTS "restaurant_claims_status_created_idx" ON "restaurant_claims" ("status", "created_at");
+
+COMMENT ON TABLE "restaurant_claims" IS 'Requests to take over shadow listings; pending rows form the admin review queue';
+COMMENT ON COLUMN "restaurant_claims"."reason" IS 'Why the claim needs review: email_mismatch, already_claimed or competing_claim';
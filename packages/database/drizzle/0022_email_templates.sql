@@ -0,0 +1,15 @@
+-- Templated guest emails and reservation reminders
+-- Confirmation, reminder, modification, cancellation and thank-you emails are
+-- rendered from shared templates, in the restaurant's language and with its
+-- branding. Reminders are QStash messages scheduled 24 hours and 2 hours
+-- before the reservation; their ids are kept on the reservation so they can
+-- be cancelled and rescheduled when it changes.
+
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "email_branding" jsonb;
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "email_locale" text DEFAULT 'en';
+
+ALTER TABLE "restaurant_reservations" ADD COLUMN IF NOT EXISTS "reminder_message_ids" jsonb;
+
+COMMENT ON COLUMN "restaurants"."email_branding" IS 'Logo URL, accent colour, sender name, reply-to address and footer for guest emails';
+COMMENT ON COLUMN "restaurants"."email_locale" IS 'Language of guest emails: en, es, fr or de';
+COMMENT ON COLUMN "restaurant_reservations"."reminder_message_ids" IS 'QStash message ids of reminders still scheduled for this reservation';
@@ -0,0 +1,31 @@
+-- Booking holds
+-- A hold sets specific tables aside for one slot for a few minutes, so a
+-- guest or agent can go from an availability check to a booking without
+-- another booking taking the table in between. Live holds ('held' and not
+-- yet expired) count as occupied in every availability and conflict check;
+-- the caller presents the token to book the held tables or to let them go.
+--
+-- Expiry needs no job: a hold past expires_at stops blocking at once. The
+-- cleanup cron only marks such rows 'expired' for the record.
+
+CREATE TABLE IF NOT EXISTS "booking_holds" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "restaurant_id" uuid NOT NULL REFERENCES "restaurants"("id") ON DELETE CASCADE,
+  "token" uuid DEFAULT gen_random_uuid() NOT NULL,
+  "table_id" uuid REFERENCES "restaurant_tables"("id") ON DELETE CASCADE,
+  "combined_table_ids" jsonb,
+  "party_size" integer NOT NULL,
+  "start_time" timestamp with time zone NOT NULL,
+  "end_time" timestamp with time zone NOT NULL,
+  "status" text DEFAULT 'held' NOT NULL,
+  "reservation_id" uuid REFERENCES "restaurant_reservations"("id") ON DELETE SET NULL,
+  "expires_at" timestamp with time zone NOT NULL,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "booking_holds_token_idx" ON "booking_holds" ("token");
+CREATE INDEX IF NOT EXISTS "booking_holds_restaurant_status_expires_idx" ON "booking_holds" ("restaurant_id", "status", "expires_at");
+
+COMMENT ON TABLE "booking_holds" IS 'Short-lived table holds between an availability check and a booking';
+COMMENT ON COLUMN "booking_holds"."token" IS 'Secret the holder presents to book or release the held tables';
+COMMENT ON COLUMN "booking_holds"."status" IS 'held, converted (reservation_id set), released or expired';
@@ -0,0 +1,41 @@
+-- Table status lifecycle
+-- Tables move vacant -> seated -> ordered -> paying -> dirty -> vacant, and
+-- vacant or dirty tables can be taken out of service. Only those moves are
+-- accepted; every one is recorded in table_status_history so turn times can
+-- be measured rather than assumed from booked end times.
+--
+-- Each restaurant sets how long a table may stay seated, ordered or paying
+-- before the floor plan flags it, and how long a dirty table waits before it
+-- is reset to vacant (previously a fixed 20 minutes). Timers count from
+-- status_changed_at, not updated_at, so editing a table no longer restarts
+-- them.
+
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "table_status_timers" jsonb;
+
+ALTER TABLE "restaurant_tables" ADD COLUMN IF NOT EXISTS "status_changed_at" timestamp with time zone DEFAULT now();
+
+UPDATE "restaurant_tables" SET "status_changed_at" = COALESCE("updated_at", now());
+UPDATE "restaurant_tables" SET "status" = 'seated' WHERE "status" = 'occupied';
+-- Any other pre-lifecycle value (such as 'available', or NULL) would leave
+-- the table unbookable and stuck, so it starts the lifecycle as vacant
+UPDATE "restaurant_tables" SET "status" = 'vacant'
+WHERE "status" IS NULL OR "status" NOT IN ('vacant', 'seated', 'ordered', 'paying', 'dirty', 'out_of_service');
+
+CREATE TABLE IF NOT EXISTS "table_status_history" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "restaurant_id" uuid NOT NULL REFERENCES "restaurants"("id") ON DELETE CASCADE,
+  "table_id" uuid NOT NULL REFERENCES "restaurant_tables"("id") ON DELETE CASCADE,
+  "from_status" text NOT NULL,
+  "to_status" text NOT NULL,
+  "changed_by" text NOT NULL,
+  "reason" text,
+  "changed_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "table_status_history_restaurant_changed_at_idx" ON "table_status_history" ("restaurant_id", "changed_at");
+CREATE INDEX IF NOT EXISTS "table_status_history_table_changed_at_idx" ON "table_status_history" ("table_id", "changed_at");
+
+COMMENT ON COLUMN "restaurants"."table_status_timers" IS 'Minutes per table status: seated, ordered and paying flag the table; dirty resets it to vacant';
+COMMENT ON COLUMN "restaurant_tables"."status_changed_at" IS 'When the table entered its current status';
+COMMENT ON TABLE "table_status_history" IS 'Every table status transition, for measured turn times';
+COMMENT ON COLUMN "table_status_history"."changed_by" IS 'Clerk user id of the staff member, or system for timer resets';
@@ -0,0 +1,11 @@
+-- Walk-ins
+-- Hosts seat parties without a booking from the host stand. Each walk-in is
+-- recorded as a reservation starting when the party is seated, so it blocks
+-- its tables for the turn like any booking and counts towards covers.
+-- Walk-ins who give no email are stored with an empty guest_email and get no
+-- guest profile or emails.
+
+ALTER TABLE "restaurant_reservations" ADD COLUMN IF NOT EXISTS "is_walk_in" boolean DEFAULT false;
+
+COMMENT ON COLUMN "restaurant_reservations"."is_walk_in" IS 'Seated at the host stand without a booking';
+COMMENT ON COLUMN "restaurant_reservations"."guest_email" IS 'Empty for walk-ins who left no contact';
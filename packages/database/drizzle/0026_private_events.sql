@@ -0,0 +1,37 @@
+-- Private events and buyouts
+-- A private event reserves one section or the whole venue for a time window.
+-- Every table in scope is blocked for that window by all availability
+-- searches and booking checks, including the MCP tools, the same way a
+-- reservation blocks its tables. Tables are resolved from the section when
+-- availability is checked, so tables added to it later are blocked too.
+--
+-- Events carry a minimum spend and a deposit schedule of instalments, in
+-- cents, each with a due date and the date staff recorded it paid.
+
+CREATE TABLE IF NOT EXISTS "private_events" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "restaurant_id" uuid NOT NULL REFERENCES "restaurants"("id") ON DELETE CASCADE,
+  "name" text NOT NULL,
+  "scope" text NOT NULL,
+  "section_id" uuid REFERENCES "restaurant_sections"("id") ON DELETE SET NULL,
+  "start_time" timestamp with time zone NOT NULL,
+  "end_time" timestamp with time zone NOT NULL,
+  "guest_count" integer NOT NULL,
+  "minimum_spend" integer DEFAULT 0 NOT NULL,
+  "deposit_schedule" jsonb DEFAULT '[]'::jsonb,
+  "contact_name" text NOT NULL,
+  "contact_email" text NOT NULL,
+  "contact_phone" text,
+  "notes" text,
+  "status" text DEFAULT 'confirmed' NOT NULL,
+  "created_by" text,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "private_events_restaurant_start_idx" ON "private_events" ("restaurant_id", "start_time");
+
+COMMENT ON TABLE "private_events" IS 'Section or whole-venue buyouts blocking their tables for a time window';
+COMMENT ON COLUMN "private_events"."scope" IS 'venue or section';
+COMMENT ON COLUMN "private_events"."minimum_spend" IS 'Minimum spend in cents';
+COMMENT ON COLUMN "private_events"."deposit_schedule" IS 'Instalments: amount in cents, dueDate yyyy-MM-dd, paidAt when recorded paid';
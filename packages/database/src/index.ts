@@ -11,12 +11,25 @@ export const schema = {
 // Re-export all schema items for convenience
 export {
   users,
+  organisations,
   restaurants,
+  staffMembers,
+  apiKeys,
+  restaurantClaims,
+  webhookSubscriptions,
+  webhookDeliveries,
   restaurantTables,
+  tableStatusHistory,
   restaurantReservations,
+  reservationSeries,
+  bookingHolds,
+  privateEvents,
   restaurantWaitlist,
+  restaurantScheduleExceptions,
+  restaurantSections,
   restaurantProducts,
   inventoryLevels,
+  inventoryHolds,
   guestProfiles,
   drivers,
   orders,
@@ -28,12 +41,25 @@ export {
   outboxStatusEnum,
   // Relations
   usersRelations,
+  organisationsRelations,
   restaurantsRelations,
+  staffMembersRelations,
+  apiKeysRelations,
+  restaurantClaimsRelations,
+  webhookSubscriptionsRelations,
+  webhookDeliveriesRelations,
   restaurantTablesRelations,
+  tableStatusHistoryRelations,
   restaurantReservationsRelations,
+  reservationSeriesRelations,
+  bookingHoldsRelations,
+  privateEventsRelations,
   restaurantWaitlistRelations,
+  restaurantScheduleExceptionsRelations,
+  restaurantSectionsRelations,
   restaurantProductsRelations,
   inventoryLevelsRelations,
+  inventoryHoldsRelations,
   guestProfilesRelations,
   driversRelations,
   ordersRelations,
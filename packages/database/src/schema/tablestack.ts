@@ -1,5 +1,5 @@
 import { pgTable, uuid, text, integer, timestamp, boolean, uniqueIndex, index, jsonb, pgEnum, doublePrecision } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
 
 export const waitlistStatusEnum = pgEnum('waitlist_status', ['waiting', 'notified', 'seated']);
 export const userRoleEnum = pgEnum('user_role', ['shopper', 'merchant']);
@@ -28,12 +28,25 @@ export const users = pgTable('user', {
   };
 });
 
+// A group owning several restaurants; its owner has owner rights at every location
+export const organisations = pgTable('organisations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: text('name').notNull(),
+  ownerId: text('owner_id').notNull(), // Clerk user id
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    ownerIdIdx: index('organisations_owner_id_idx').on(table.ownerId),
+  };
+});
+
 export const restaurants = pgTable('restaurants', {
   id: uuid('id').primaryKey().defaultRandom(),
   name: text('name').notNull(),
   slug: text('slug').unique().notNull(),
   ownerEmail: text('owner_email').notNull(),
   ownerId: text('owner_id').notNull(),
+  organisationId: uuid('organisation_id').references(() => organisations.id, { onDelete: 'set null' }),
   timezone: text('timezone').default('UTC'),
   lat: text('lat'),
   lng: text('lng'),
@@ -43,6 +56,47 @@ export const restaurants = pgTable('restaurants', {
   closingTime: text('closing_time').default('22:00'),
   daysOpen: text('days_open').default('monday,tuesday,wednesday,thursday,friday,saturday,sunday'),
   defaultDurationMinutes: integer('default_duration_minutes').default(90),
+  // Bookable slot grid and kitchen pacing
+  slotIntervalMinutes: integer('slot_interval_minutes').default(15),
+  pacingMaxCovers: integer('pacing_max_covers'), // null = no pacing limit
+  pacingWindowMinutes: integer('pacing_window_minutes').default(15),
+  // Weekly service periods keyed by weekday; null falls back to openingTime/closingTime/daysOpen
+  serviceSchedule: jsonb('service_schedule').$type<Record<string, { name?: string; startTime: string; endTime: string }[]>>(),
+  // Turn times by party size range, optionally per service period / weekday
+  turnTimeRules: jsonb('turn_time_rules').$type<{
+    minPartySize: number;
+    maxPartySize: number;
+    durationMinutes: number;
+    servicePeriods?: string[];
+    days?: string[];
+  }[]>().default([]),
+  // Minutes a notified waitlist party has to respond before being requeued
+  waitlistResponseMinutes: integer('waitlist_response_minutes').default(10),
+  // No-show detection and deposit policy
+  noShowGraceMinutes: integer('no_show_grace_minutes'), // null = no-show detection off
+  depositNoShowThreshold: integer('deposit_no_show_threshold'), // null = deposits never required
+  noShowDepositAmount: integer('no_show_deposit_amount').default(0), // cents
+  // Deposit refunds: full refund when cancelled at least this long before the
+  // reservation, otherwise lateCancellationRefundPercent of the deposit
+  cancellationWindowHours: integer('cancellation_window_hours').default(24),
+  lateCancellationRefundPercent: integer('late_cancellation_refund_percent').default(0),
+  // Guest email look and language; null branding uses the TableStack defaults
+  emailBranding: jsonb('email_branding').$type<{
+    logoUrl?: string;
+    accentColor?: string;
+    senderName?: string;
+    replyTo?: string;
+    footer?: string;
+  }>(),
+  emailLocale: text('email_locale').default('en'),
+  // Minutes a table may stay in a status: seated, ordered and paying tables are
+  // flagged on the floor plan once over; dirty tables are reset to vacant
+  tableStatusTimers: jsonb('table_status_timers').$type<{
+    seated?: number;
+    ordered?: number;
+    paying?: number;
+    dirty?: number;
+  }>(),
   stripeAccountId: text('stripe_account_id'),
   isShadow: boolean('is_shadow').default(false),
   isClaimed: boolean('is_claimed').default(false),
@@ -52,6 +106,130 @@ export const restaurants = pgTable('restaurants', {
   return {
     slugIdx: uniqueIndex('slug_idx').on(table.slug),
     ownerIdIdx: index('owner_id_idx').on(table.ownerId),
+    organisationIdx: index('restaurants_organisation_idx').on(table.organisationId),
+  };
+});
+
+// Invited staff. A membership covers one restaurant, or every restaurant in an
+// organisation when organisationId is set instead.
+export const staffMembers = pgTable('staff_members', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organisationId: uuid('organisation_id').references(() => organisations.id, { onDelete: 'cascade' }),
+  restaurantId: uuid('restaurant_id').references(() => restaurants.id, { onDelete: 'cascade' }),
+  email: text('email').notNull(),
+  userId: text('user_id'), // Clerk user id, set when the invite is accepted
+  role: text('role').notNull(), // 'owner', 'manager', 'host', 'kitchen'
+  status: text('status').default('invited').notNull(), // 'invited', 'active'
+  invitedBy: text('invited_by').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  acceptedAt: timestamp('accepted_at'),
+}, (table) => {
+  return {
+    restaurantEmailIdx: uniqueIndex('staff_members_restaurant_email_idx').on(table.restaurantId, table.email),
+    organisationEmailIdx: uniqueIndex('staff_members_organisation_email_idx').on(table.organisationId, table.email),
+    userIdx: index('staff_members_user_idx').on(table.userId),
+  };
+});
+
+// Named API keys with scopes. Only a hash of each key is stored; keyPrefix is
+// kept so the dashboard can tell keys apart.
+export const apiKeys = pgTable('api_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  restaurantId: uuid('restaurant_id').references(() => restaurants.id, { onDelete: 'cascade' }).notNull(),
+  name: text('name').notNull(),
+  keyHash: text('key_hash').notNull(),
+  keyPrefix: text('key_prefix').notNull(),
+  scopes: jsonb('scopes').$type<string[]>().default([]).notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }), // null = never; set to the end of the grace window on rotation
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  createdBy: text('created_by').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    keyHashIdx: uniqueIndex('api_keys_key_hash_idx').on(table.keyHash),
+    restaurantIdx: index('api_keys_restaurant_idx').on(table.restaurantId),
+  };
+});
+
+// Requests to take over a shadow listing. Claims proven by the listing's
+// email are approved at once; the rest wait for a platform admin.
+export const restaurantClaims = pgTable('restaurant_claims', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  restaurantId: uuid('restaurant_id').references(() => restaurants.id, { onDelete: 'cascade' }).notNull(),
+  claimantId: text('claimant_id').notNull(), // Clerk user id
+  claimantEmail: text('claimant_email').notNull(),
+  status: text('status').default('pending').notNull(), // 'pending', 'approved', 'rejected'
+  reason: text('reason'), // Why the claim needs review: 'email_mismatch', 'already_claimed', 'competing_claim'
+  evidence: text('evidence'),
+  reviewedBy: text('reviewed_by'),
+  reviewNote: text('review_note'),
+  reviewedAt: timestamp('reviewed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    restaurantStatusIdx: index('restaurant_claims_restaurant_status_idx').on(table.restaurantId, table.status),
+    statusCreatedIdx: index('restaurant_claims_status_created_idx').on(table.status, table.createdAt),
+  };
+});
+
+// Partner endpoints notified of restaurant events. Payloads are signed with
+// the subscription's secret.
+export const webhookSubscriptions = pgTable('webhook_subscriptions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  restaurantId: uuid('restaurant_id').references(() => restaurants.id, { onDelete: 'cascade' }).notNull(),
+  url: text('url').notNull(),
+  description: text('description'),
+  events: jsonb('events').$type<string[]>().default([]).notNull(),
+  secret: text('secret').notNull(),
+  isActive: boolean('is_active').default(true).notNull(),
+  createdBy: text('created_by').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    restaurantIdx: index('webhook_subscriptions_restaurant_idx').on(table.restaurantId),
+  };
+});
+
+// Outbox of webhook deliveries, one row per event per subscription. Rows are
+// written before anything is sent and double as the delivery log.
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  subscriptionId: uuid('subscription_id').references(() => webhookSubscriptions.id, { onDelete: 'cascade' }).notNull(),
+  restaurantId: uuid('restaurant_id').references(() => restaurants.id, { onDelete: 'cascade' }).notNull(),
+  eventId: uuid('event_id').notNull(), // Shared by redeliveries so receivers can deduplicate
+  eventType: text('event_type').notNull(),
+  payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+  status: text('status').default('pending').notNull(), // 'pending', 'delivered', 'failed'
+  attempts: integer('attempts').default(0).notNull(),
+  nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }).defaultNow(),
+  lastAttemptAt: timestamp('last_attempt_at', { withTimezone: true }),
+  responseStatus: integer('response_status'),
+  errorMessage: text('error_message'),
+  createdAt: timestamp('created_at').defaultNow(),
+  deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+}, (table) => {
+  return {
+    statusNextAttemptIdx: index('webhook_deliveries_status_next_attempt_idx').on(table.status, table.nextAttemptAt),
+    restaurantCreatedIdx: index('webhook_deliveries_restaurant_created_idx').on(table.restaurantId, table.createdAt),
+  };
+});
+
+// Named areas of the floor (patio, bar, private room). Sections sharing a
+// room are drawn on the same floor plan canvas.
+export const restaurantSections = pgTable('restaurant_sections', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  restaurantId: uuid('restaurant_id').references(() => restaurants.id, { onDelete: 'cascade' }).notNull(),
+  name: text('name').notNull(),
+  room: text('room'), // null = the section is its own room
+  sortOrder: integer('sort_order').default(0),
+  isEnabled: boolean('is_enabled').default(true).notNull(),
+  // When a disabled section reopens on its own, e.g. at the end of the shift; null = until re-enabled
+  disabledUntil: timestamp('disabled_until', { withTimezone: true }),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    restaurantNameIdx: uniqueIndex('section_restaurant_name_idx').on(table.restaurantId, table.name),
   };
 });
 
@@ -62,30 +240,160 @@ export const restaurantTables = pgTable('restaurant_tables', {
   minCapacity: integer('min_capacity').notNull(),
   maxCapacity: integer('max_capacity').notNull(),
   isActive: boolean('is_active').default(true),
-  status: text('status').default('vacant'), // 'vacant', 'occupied', 'dirty'
+  status: text('status').default('vacant'), // 'vacant', 'seated', 'ordered', 'paying', 'dirty', 'out_of_service'
+  statusChangedAt: timestamp('status_changed_at', { withTimezone: true }).defaultNow(),
   xPos: integer('x_pos').default(0),
   yPos: integer('y_pos').default(0),
   tableType: text('table_type').default('square'), // 'square', 'round', 'booth'
+  sectionId: uuid('section_id').references(() => restaurantSections.id, { onDelete: 'set null' }),
+  rotation: integer('rotation').default(0), // degrees clockwise
+  width: integer('width').default(96), // floor plan px
+  height: integer('height').default(96),
+  // Neighbouring tables this one can be pushed together with (adjacency graph edges)
+  combinableWith: jsonb('combinable_with').$type<string[]>().default([]),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Every table status transition, oldest first per table. Time between a
+// table's consecutive rows is time spent in a status, which is what measured
+// turn times are built from.
+export const tableStatusHistory = pgTable('table_status_history', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  restaurantId: uuid('restaurant_id').references(() => restaurants.id, { onDelete: 'cascade' }).notNull(),
+  tableId: uuid('table_id').references(() => restaurantTables.id, { onDelete: 'cascade' }).notNull(),
+  fromStatus: text('from_status').notNull(),
+  toStatus: text('to_status').notNull(),
+  changedBy: text('changed_by').notNull(), // Clerk user id, or 'system' for timers
+  reason: text('reason'),
+  changedAt: timestamp('changed_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => {
+  return {
+    restaurantChangedAtIdx: index('table_status_history_restaurant_changed_at_idx').on(table.restaurantId, table.changedAt),
+    tableChangedAtIdx: index('table_status_history_table_changed_at_idx').on(table.tableId, table.changedAt),
+  };
+});
+
+// Standing bookings ("every Friday at 7pm"). Occurrences are materialized as
+// restaurant_reservations rows a rolling horizon ahead so they hold inventory.
+export const reservationSeries = pgTable('reservation_series', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  restaurantId: uuid('restaurant_id').references(() => restaurants.id, { onDelete: 'cascade' }).notNull(),
+  tableId: uuid('table_id').references(() => restaurantTables.id, { onDelete: 'set null' }), // null = assign per occurrence
+  combinedTableIds: jsonb('combined_table_ids').$type<string[]>(),
+  guestName: text('guest_name').notNull(),
+  guestEmail: text('guest_email').notNull(),
+  partySize: integer('party_size').notNull(),
+  rrule: text('rrule').notNull(), // RFC 5545 RRULE, e.g. 'FREQ=WEEKLY;BYDAY=FR'
+  firstDate: text('first_date').notNull(), // 'yyyy-MM-dd' in the restaurant's timezone
+  startTime: text('start_time').notNull(), // 'HH:mm' in the restaurant's timezone
+  endDate: text('end_date'), // inclusive; null = until cancelled or the rule's COUNT/UNTIL
+  exceptionDates: jsonb('exception_dates').$type<string[]>().default([]),
+  status: text('status').default('active').notNull(), // 'active', 'cancelled'
+  materializedThrough: text('materialized_through'), // last local date occurrences were booked for
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    restaurantStatusIdx: index('reservation_series_restaurant_status_idx').on(table.restaurantId, table.status),
+  };
+});
+
 export const restaurantReservations = pgTable('restaurant_reservations', {
   id: uuid('id').primaryKey().defaultRandom(),
   restaurantId: uuid('restaurant_id').references(() => restaurants.id, { onDelete: 'cascade' }).notNull(),
   tableId: uuid('table_id').references(() => restaurantTables.id),
   guestName: text('guest_name').notNull(),
-  guestEmail: text('guest_email').notNull(),
+  guestEmail: text('guest_email').notNull(), // '' for walk-ins who left no contact
   partySize: integer('party_size').notNull(),
   startTime: timestamp('start_time', { withTimezone: true }).notNull(),
   endTime: timestamp('end_time', { withTimezone: true }).notNull(),
   status: text('status').default('confirmed'), // 'confirmed', 'cancelled', 'noshow'
+  isWalkIn: boolean('is_walk_in').default(false), // seated at the host stand without a booking
   isVerified: boolean('is_verified').default(false),
   verificationToken: uuid('verification_token').defaultRandom(),
   depositAmount: integer('deposit_amount').default(0),
   stripePaymentIntentId: text('stripe_payment_intent_id'),
+  depositStatus: text('deposit_status'), // 'pending', 'held', 'paid', 'released', 'refunded', 'partially_refunded'
+  refundedAmount: integer('refunded_amount').default(0), // cents
   combinedTableIds: jsonb('combined_table_ids').$type<string[]>(),
+  seatedAt: timestamp('seated_at', { withTimezone: true }),
+  reminderMessageIds: jsonb('reminder_message_ids').$type<string[]>(), // scheduled QStash reminder messages
+  seriesId: uuid('series_id').references(() => reservationSeries.id, { onDelete: 'set null' }),
+  occurrenceDate: text('occurrence_date'), // series occurrence this row books, 'yyyy-MM-dd' local
   metadata: jsonb('metadata'),
   createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    seriesOccurrenceIdx: index('reservation_series_occurrence_idx').on(table.seriesId, table.occurrenceDate),
+  };
+});
+
+// Tables set aside for a slot between an availability check and the booking.
+// A hold blocks its tables like a reservation until it expires, is released
+// or is converted into the reservation it was taken for.
+export const bookingHolds = pgTable('booking_holds', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  restaurantId: uuid('restaurant_id').references(() => restaurants.id, { onDelete: 'cascade' }).notNull(),
+  token: uuid('token').defaultRandom().notNull(), // presented by the caller to book or release
+  tableId: uuid('table_id').references(() => restaurantTables.id, { onDelete: 'cascade' }),
+  combinedTableIds: jsonb('combined_table_ids').$type<string[]>(),
+  partySize: integer('party_size').notNull(),
+  startTime: timestamp('start_time', { withTimezone: true }).notNull(),
+  endTime: timestamp('end_time', { withTimezone: true }).notNull(),
+  status: text('status').default('held').notNull(), // 'held', 'converted', 'released', 'expired'
+  reservationId: uuid('reservation_id').references(() => restaurantReservations.id, { onDelete: 'set null' }), // set on conversion
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    tokenIdx: uniqueIndex('booking_holds_token_idx').on(table.token),
+    restaurantStatusExpiresIdx: index('booking_holds_restaurant_status_expires_idx').on(table.restaurantId, table.status, table.expiresAt),
+  };
+});
+
+// Private events and buyouts: a section or the whole venue reserved for a
+// time window. Every table in scope is blocked for that window wherever
+// availability is checked.
+export const privateEvents = pgTable('private_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  restaurantId: uuid('restaurant_id').references(() => restaurants.id, { onDelete: 'cascade' }).notNull(),
+  name: text('name').notNull(),
+  scope: text('scope').notNull(), // 'venue', 'section'
+  // The section bought out when scope is 'section'; a deleted section leaves past events without one
+  sectionId: uuid('section_id').references(() => restaurantSections.id, { onDelete: 'set null' }),
+  startTime: timestamp('start_time', { withTimezone: true }).notNull(),
+  endTime: timestamp('end_time', { withTimezone: true }).notNull(),
+  guestCount: integer('guest_count').notNull(),
+  minimumSpend: integer('minimum_spend').default(0).notNull(), // cents
+  // Instalments in cents, due on 'yyyy-MM-dd' dates; paidAt is set when staff record the payment
+  depositSchedule: jsonb('deposit_schedule').$type<{ amount: number; dueDate: string; paidAt?: string | null }[]>().default([]),
+  contactName: text('contact_name').notNull(),
+  contactEmail: text('contact_email').notNull(),
+  contactPhone: text('contact_phone'),
+  notes: text('notes'),
+  status: text('status').default('confirmed').notNull(), // 'confirmed', 'cancelled'
+  createdBy: text('created_by'), // Clerk user id
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    restaurantStartIdx: index('private_events_restaurant_start_idx').on(table.restaurantId, table.startTime),
+  };
+});
+
+export const restaurantScheduleExceptions = pgTable('restaurant_schedule_exceptions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  restaurantId: uuid('restaurant_id').references(() => restaurants.id, { onDelete: 'cascade' }).notNull(),
+  date: text('date').notNull(), // 'yyyy-MM-dd' in the restaurant's timezone
+  isClosed: boolean('is_closed').default(true).notNull(),
+  // Special hours replacing the weekly periods when the restaurant is open
+  periods: jsonb('periods').$type<{ name?: string; startTime: string; endTime: string }[]>(),
+  reason: text('reason'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    restaurantDateIdx: uniqueIndex('schedule_exception_restaurant_date_idx').on(table.restaurantId, table.date),
+  };
 });
 
 export const restaurantWaitlist = pgTable('restaurant_waitlist', {
@@ -95,6 +403,11 @@ export const restaurantWaitlist = pgTable('restaurant_waitlist', {
   guestEmail: text('guest_email').notNull(),
   partySize: integer('party_size').notNull(),
   status: waitlistStatusEnum('status').default('waiting').notNull(),
+  quotedWaitMinutes: integer('quoted_wait_minutes'),
+  // Queue order; reset when a notified party fails to respond in time
+  queuedAt: timestamp('queued_at').defaultNow().notNull(),
+  notifiedAt: timestamp('notified_at'),
+  notifiedTableId: uuid('notified_table_id'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
@@ -106,6 +419,19 @@ export const restaurantProducts = pgTable('restaurant_products', {
   description: text('description'),
   price: doublePrecision('price').notNull(),
   category: text('category').notNull(),
+  // Size variants; when present one must be chosen. Deltas adjust price.
+  variants: jsonb('variants').$type<{ id: string; name: string; priceDelta: number }[]>().default([]),
+  // Modifier groups ("Add-ons", "Bun") with selection limits
+  modifierGroups: jsonb('modifier_groups').$type<{
+    id: string;
+    name: string;
+    minSelections: number;
+    maxSelections: number;
+    options: { id: string; name: string; priceDelta: number; allergens?: string[] }[];
+  }[]>().default([]),
+  allergens: jsonb('allergens').$type<string[]>().default([]),
+  // Local-time windows the item can be ordered in; empty = always
+  availability: jsonb('availability').$type<{ days?: string[]; startTime: string; endTime: string }[]>().default([]),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
@@ -114,9 +440,31 @@ export const inventoryLevels = pgTable('inventory_levels', {
   id: uuid('id').primaryKey().defaultRandom(),
   productId: uuid('product_id').references(() => restaurantProducts.id, { onDelete: 'cascade' }).notNull(),
   availableQuantity: integer('available_quantity').notNull().default(0),
+  // Units held by in-flight checkouts; sellable = available - held
+  heldQuantity: integer('held_quantity').notNull().default(0),
+  lowStockThreshold: integer('low_stock_threshold'), // null = no alert
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Stock held for a delivery checkout until it expires, is committed to an
+// order (decrementing inventory) or is released
+export const inventoryHolds = pgTable('inventory_holds', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  productId: uuid('product_id').references(() => restaurantProducts.id, { onDelete: 'cascade' }).notNull(),
+  checkoutId: text('checkout_id').notNull(),
+  orderId: uuid('order_id').references(() => orders.id, { onDelete: 'set null' }), // set on commit
+  quantity: integer('quantity').notNull(),
+  status: text('status').default('held').notNull(), // 'held', 'committed', 'released', 'expired'
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    checkoutIdx: index('inventory_holds_checkout_idx').on(table.checkoutId),
+    orderIdx: index('inventory_holds_order_idx').on(table.orderId),
+    statusExpiresIdx: index('inventory_holds_status_expires_idx').on(table.status, table.expiresAt),
+  };
+});
+
 export const guestProfiles = pgTable('guest_profiles', {
   id: uuid('id').primaryKey().defaultRandom(),
   restaurantId: uuid('restaurant_id').references(() => restaurants.id, { onDelete: 'cascade' }).notNull(),
@@ -124,28 +472,133 @@ export const guestProfiles = pgTable('guest_profiles', {
   name: text('name').notNull(),
   defaultDeliveryAddress: text('default_delivery_address'),
   visitCount: integer('visit_count').default(0),
-  preferences: text('preferences'),
+  seatedCount: integer('seated_count').default(0),
+  noShowCount: integer('no_show_count').default(0),
+  reliabilityScore: integer('reliability_score').default(100), // 0-100
+  preferences: text('preferences'), // free-text host notes
+  // Structured guest notes, each a list of short labels
+  allergies: jsonb('allergies').$type<string[]>().default([]),
+  dietaryRestrictions: jsonb('dietary_restrictions').$type<string[]>().default([]),
+  seatingPreferences: jsonb('seating_preferences').$type<string[]>().default([]),
+  tags: jsonb('tags').$type<string[]>().default([]), // e.g. VIP, Regular
+  lastVisitAt: timestamp('last_visit_at'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 }, (table) => {
   return {
     restaurantEmailIdx: uniqueIndex('restaurant_email_idx').on(table.restaurantId, table.email),
+    restaurantLowerEmailIdx: index('guest_profiles_restaurant_lower_email_idx').on(table.restaurantId, sql`lower(${table.email})`),
   };
 });
 
-export const restaurantsRelations = relations(restaurants, ({ many }) => ({
+export const organisationsRelations = relations(organisations, ({ many }) => ({
+  restaurants: many(restaurants),
+  staff: many(staffMembers),
+}));
+
+export const restaurantsRelations = relations(restaurants, ({ one, many }) => ({
+  organisation: one(organisations, {
+    fields: [restaurants.organisationId],
+    references: [organisations.id],
+  }),
+  staff: many(staffMembers),
+  apiKeys: many(apiKeys),
+  webhookSubscriptions: many(webhookSubscriptions),
+  claims: many(restaurantClaims),
   tables: many(restaurantTables),
   restaurantReservations: many(restaurantReservations),
   restaurantWaitlist: many(restaurantWaitlist),
   guestProfiles: many(guestProfiles),
   restaurantProducts: many(restaurantProducts),
+  scheduleExceptions: many(restaurantScheduleExceptions),
+  sections: many(restaurantSections),
+  reservationSeries: many(reservationSeries),
+  bookingHolds: many(bookingHolds),
+  tableStatusHistory: many(tableStatusHistory),
+  privateEvents: many(privateEvents),
+}));
+
+export const staffMembersRelations = relations(staffMembers, ({ one }) => ({
+  organisation: one(organisations, {
+    fields: [staffMembers.organisationId],
+    references: [organisations.id],
+  }),
+  restaurant: one(restaurants, {
+    fields: [staffMembers.restaurantId],
+    references: [restaurants.id],
+  }),
+}));
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  restaurant: one(restaurants, {
+    fields: [apiKeys.restaurantId],
+    references: [restaurants.id],
+  }),
+}));
+
+export const restaurantClaimsRelations = relations(restaurantClaims, ({ one }) => ({
+  restaurant: one(restaurants, {
+    fields: [restaurantClaims.restaurantId],
+    references: [restaurants.id],
+  }),
+}));
+
+export const webhookSubscriptionsRelations = relations(webhookSubscriptions, ({ one, many }) => ({
+  restaurant: one(restaurants, {
+    fields: [webhookSubscriptions.restaurantId],
+    references: [restaurants.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  subscription: one(webhookSubscriptions, {
+    fields: [webhookDeliveries.subscriptionId],
+    references: [webhookSubscriptions.id],
+  }),
+}));
+
+export const restaurantSectionsRelations = relations(restaurantSections, ({ one, many }) => ({
+  restaurant: one(restaurants, {
+    fields: [restaurantSections.restaurantId],
+    references: [restaurants.id],
+  }),
+  tables: many(restaurantTables),
 }));
 
-export const restaurantTablesRelations = relations(restaurantTables, ({ one }) => ({
+export const restaurantTablesRelations = relations(restaurantTables, ({ one, many }) => ({
   restaurant: one(restaurants, {
     fields: [restaurantTables.restaurantId],
     references: [restaurants.id],
   }),
+  section: one(restaurantSections, {
+    fields: [restaurantTables.sectionId],
+    references: [restaurantSections.id],
+  }),
+  statusHistory: many(tableStatusHistory),
+}));
+
+export const tableStatusHistoryRelations = relations(tableStatusHistory, ({ one }) => ({
+  restaurant: one(restaurants, {
+    fields: [tableStatusHistory.restaurantId],
+    references: [restaurants.id],
+  }),
+  table: one(restaurantTables, {
+    fields: [tableStatusHistory.tableId],
+    references: [restaurantTables.id],
+  }),
+}));
+
+export const reservationSeriesRelations = relations(reservationSeries, ({ one, many }) => ({
+  restaurant: one(restaurants, {
+    fields: [reservationSeries.restaurantId],
+    references: [restaurants.id],
+  }),
+  table: one(restaurantTables, {
+    fields: [reservationSeries.tableId],
+    references: [restaurantTables.id],
+  }),
+  occurrences: many(restaurantReservations),
 }));
 
 export const restaurantReservationsRelations = relations(restaurantReservations, ({ one }) => ({
@@ -157,6 +610,39 @@ export const restaurantReservationsRelations = relations(restaurantReservations,
     fields: [restaurantReservations.tableId],
     references: [restaurantTables.id],
   }),
+  series: one(reservationSeries, {
+    fields: [restaurantReservations.seriesId],
+    references: [reservationSeries.id],
+  }),
+}));
+
+export const bookingHoldsRelations = relations(bookingHolds, ({ one }) => ({
+  restaurant: one(restaurants, {
+    fields: [bookingHolds.restaurantId],
+    references: [restaurants.id],
+  }),
+  reservation: one(restaurantReservations, {
+    fields: [bookingHolds.reservationId],
+    references: [restaurantReservations.id],
+  }),
+}));
+
+export const privateEventsRelations = relations(privateEvents, ({ one }) => ({
+  restaurant: one(restaurants, {
+    fields: [privateEvents.restaurantId],
+    references: [restaurants.id],
+  }),
+  section: one(restaurantSections, {
+    fields: [privateEvents.sectionId],
+    references: [restaurantSections.id],
+  }),
+}));
+
+export const restaurantScheduleExceptionsRelations = relations(restaurantScheduleExceptions, ({ one }) => ({
+  restaurant: one(restaurants, {
+    fields: [restaurantScheduleExceptions.restaurantId],
+    references: [restaurants.id],
+  }),
 }));
 
 export const restaurantWaitlistRelations = relations(restaurantWaitlist, ({ one }) => ({
@@ -184,6 +670,17 @@ export const inventoryLevelsRelations = relations(inventoryLevels, ({ one }) =>
   }),
 }));
 
+export const inventoryHoldsRelations = relations(inventoryHolds, ({ one }) => ({
+  product: one(restaurantProducts, {
+    fields: [inventoryHolds.productId],
+    references: [restaurantProducts.id],
+  }),
+  order: one(orders, {
+    fields: [inventoryHolds.orderId],
+    references: [orders.id],
+  }),
+}));
+
 export const guestProfilesRelations = relations(guestProfiles, ({ one }) => ({
   restaurant: one(restaurants, {
     fields: [guestProfiles.restaurantId],
@@ -291,9 +788,12 @@ export const orders = pgTable('orders', {
 export const orderItems = pgTable('order_items', {
   id: uuid('id').primaryKey().defaultRandom(),
   orderId: uuid('order_id').references(() => orders.id, { onDelete: 'cascade' }).notNull(),
+  productId: uuid('product_id').references(() => restaurantProducts.id, { onDelete: 'set null' }),
   name: text('name').notNull(),
   quantity: integer('quantity').notNull().default(1),
-  price: doublePrecision('price').notNull(),
+  price: doublePrecision('price').notNull(), // unit price including variant and modifiers
+  variantName: text('variant_name'),
+  modifiers: jsonb('modifiers').$type<{ group: string; option: string; priceDelta: number }[]>(),
   specialInstructions: text('special_instructions'),
   createdAt: timestamp('created_at').defaultNow(),
 }, (table) => {
@@ -70,7 +70,7 @@ export type {
 } from "./schemas/state-machine";
 
 import { MobilityRequestSchema, RouteEstimateSchema } from "./schemas/mobility";
-import { GetAvailabilitySchema, BookTableSchema, TableReservationSchema } from "./schemas/booking";
+import { GetAvailabilitySchema, GetAvailabilitySlotsSchema, BookTableSchema, HoldTableSchema, ReleaseTableHoldSchema, TableReservationSchema } from "./schemas/booking";
 import { CalculateQuoteSchema, GetDriverLocationSchema } from "./schemas/opendelivery";
 import { CommunicationSchema } from "./schemas/communication";
 import { WeatherSchema, WeatherDataSchema } from "./schemas/context";
@@ -87,10 +87,14 @@ import {
   GetTableLayoutSchema,
   GetReservationSchema,
   ListReservationsSchema,
+  GetGuestProfileSchema,
   CheckTableConflictsSchema,
   CreateReservationSchema,
   UpdateReservationSchema,
   CancelReservationSchema,
+  CreateReservationSeriesSchema,
+  CancelReservationSeriesSchema,
+  SkipSeriesOccurrenceSchema,
   AddToWaitlistSchema,
   UpdateWaitlistStatusSchema,
   ValidateReservationSchema,
@@ -129,6 +133,21 @@ export const TOOLS = {
       description: "Checks real-time table availability for a restaurant.",
       schema: GetAvailabilitySchema,
     },
+    getAvailabilitySlots: {
+      name: "getAvailabilitySlots",
+      description: "Lists every bookable time slot for a day, respecting cover pacing.",
+      schema: GetAvailabilitySlotsSchema,
+    },
+    holdTable: {
+      name: "holdTable",
+      description: "Holds tables for a slot for a few minutes while the user confirms, so no one else can book them. Returns a hold token for bookTable.",
+      schema: HoldTableSchema,
+    },
+    releaseTableHold: {
+      name: "releaseTableHold",
+      description: "Releases a hold from holdTable when the user decides not to book.",
+      schema: ReleaseTableHoldSchema,
+    },
     bookTable: {
       name: "bookTable",
       description: "Finalizes a reservation on TableStack. REQUIRES CONFIRMATION.",
@@ -161,6 +180,11 @@ export const TOOLS = {
       description: "List reservations for a restaurant with optional filters.",
       schema: ListReservationsSchema,
     },
+    getGuestProfile: {
+      name: "get_guest_profile",
+      description: "Read the allergies, dietary needs, seating preferences and visit history a restaurant has stored for a guest. Use before booking to pass dietary needs along.",
+      schema: GetGuestProfileSchema,
+    },
     checkTableConflicts: {
       name: "check_table_conflicts",
       description: "Check for conflicting reservations before booking.",
@@ -181,9 +205,24 @@ export const TOOLS = {
       description: "Cancel a reservation. REQUIRES CONFIRMATION.",
       schema: CancelReservationSchema,
     },
+    createReservationSeries: {
+      name: "create_reservation_series",
+      description: "Book a standing reservation that repeats on a schedule (e.g. every Friday at 19:00) using an RFC 5545 RRULE. Each date holds a table; dates that cannot be seated are reported as skipped. REQUIRES CONFIRMATION.",
+      schema: CreateReservationSeriesSchema,
+    },
+    cancelReservationSeries: {
+      name: "cancel_reservation_series",
+      description: "Cancel a standing reservation entirely, or from a given date onwards. REQUIRES CONFIRMATION.",
+      schema: CancelReservationSeriesSchema,
+    },
+    skipSeriesOccurrence: {
+      name: "skip_series_occurrence",
+      description: "Cancel a single date of a standing reservation, keeping the rest of the series. REQUIRES CONFIRMATION.",
+      schema: SkipSeriesOccurrenceSchema,
+    },
     addToWaitlist: {
       name: "add_to_waitlist",
-      description: "Add a party to the restaurant waitlist.",
+      description: "Add a party to the restaurant waitlist. Returns the queue position and an estimated wait in minutes.",
       schema: AddToWaitlistSchema,
     },
     updateWaitlistStatus: {
@@ -338,7 +377,8 @@ export const CHECK_AVAILABILITY_TOOL = {
     properties: {
       restaurantId: { type: "string" },
       date: { type: "string" },
-      partySize: { type: "number" }
+      partySize: { type: "number" },
+      section: { type: "string", description: "Only tables in this section or room, e.g. 'patio'." }
     },
     required: ["restaurantId", "date", "partySize"]
   }
@@ -355,7 +395,8 @@ export const BOOK_RESERVATION_TOOL = {
       guestName: { type: "string" },
       guestEmail: { type: "string" },
       partySize: { type: "number" },
-      startTime: { type: "string" }
+      startTime: { type: "string" },
+      holdToken: { type: "string", description: "Token from holdTable. Books the held tables, which no one else could take in the meantime." }
     },
     required: ["restaurantId", "tableId", "guestName", "guestEmail", "partySize", "startTime"]
   }
@@ -475,10 +516,14 @@ export const TOOL_METADATA = {
   get_table_layout: { requires_confirmation: false },
   get_reservation: { requires_confirmation: false },
   list_reservations: { requires_confirmation: false },
+  get_guest_profile: { requires_confirmation: false },
   check_table_conflicts: { requires_confirmation: false },
   create_reservation: { requires_confirmation: true },
   update_reservation: { requires_confirmation: true },
   cancel_reservation: { requires_confirmation: true },
+  create_reservation_series: { requires_confirmation: true },
+  cancel_reservation_series: { requires_confirmation: true },
+  skip_series_occurrence: { requires_confirmation: true },
   add_to_waitlist: { requires_confirmation: false },
   update_waitlist_status: { requires_confirmation: false },
   validate_reservation: { requires_confirmation: false },
@@ -727,6 +772,9 @@ export type ZodInfer<T extends zod.ZodType> = zod.infer<T>;
 export interface AllToolsMap {
   // TableStack
   getAvailability: typeof GetAvailabilitySchema;
+  getAvailabilitySlots: typeof GetAvailabilitySlotsSchema;
+  holdTable: typeof HoldTableSchema;
+  releaseTableHold: typeof ReleaseTableHoldSchema;
   bookTable: typeof BookTableSchema;
   getLiveOperationalState: typeof GetLiveOperationalStateSchema;
   // Table Management
@@ -734,10 +782,14 @@ export interface AllToolsMap {
   get_table_layout: typeof GetTableLayoutSchema;
   get_reservation: typeof GetReservationSchema;
   list_reservations: typeof ListReservationsSchema;
+  get_guest_profile: typeof GetGuestProfileSchema;
   check_table_conflicts: typeof CheckTableConflictsSchema;
   create_reservation: typeof CreateReservationSchema;
   update_reservation: typeof UpdateReservationSchema;
   cancel_reservation: typeof CancelReservationSchema;
+  create_reservation_series: typeof CreateReservationSeriesSchema;
+  cancel_reservation_series: typeof CancelReservationSeriesSchema;
+  skip_series_occurrence: typeof SkipSeriesOccurrenceSchema;
   add_to_waitlist: typeof AddToWaitlistSchema;
   update_waitlist_status: typeof UpdateWaitlistStatusSchema;
   validate_reservation: typeof ValidateReservationSchema;
@@ -3,7 +3,16 @@ import { z } from "zod";
 export const GetAvailabilitySchema = z.object({
   restaurantId: z.string().describe("The internal ID of the restaurant."),
   date: z.string().describe("ISO 8601 date (e.g., '2026-02-12')."),
-  partySize: z.number().describe("Number of guests.")
+  partySize: z.number().describe("Number of guests."),
+  section: z.string().optional().describe("Only tables in this section or room, e.g. 'patio' or 'bar'.")
+});
+
+export const GetAvailabilitySlotsSchema = z.object({
+  restaurantId: z.string().describe("The internal ID of the restaurant."),
+  date: z.string().describe("Service day in the restaurant's timezone (e.g., '2026-02-12')."),
+  partySize: z.number().describe("Number of guests."),
+  interval: z.union([z.literal(15), z.literal(30)]).optional().describe("Minutes between slots. Defaults to the restaurant setting."),
+  section: z.string().optional().describe("Only tables in this section or room, e.g. 'patio' or 'bar'.")
 });
 
 export const BookTableSchema = z.object({
@@ -12,7 +21,22 @@ export const BookTableSchema = z.object({
   guestName: z.string().describe("The name for the reservation."),
   guestEmail: z.string().describe("The email for the reservation."),
   partySize: z.number().describe("Number of guests."),
-  startTime: z.string().describe("ISO 8601 start time.")
+  startTime: z.string().describe("ISO 8601 start time."),
+  holdToken: z.string().optional().describe("Token from holdTable. Books the held tables, which no one else could take in the meantime.")
+});
+
+export const HoldTableSchema = z.object({
+  restaurantId: z.string().describe("The internal ID of the restaurant."),
+  tableId: z.string().optional().describe("Table to hold, or a combination 'id1+id2'. Omit to hold the best fit."),
+  partySize: z.number().describe("Number of guests."),
+  startTime: z.string().describe("ISO 8601 start time."),
+  section: z.string().optional().describe("Only tables in this section or room, e.g. 'patio' or 'bar'."),
+  holdMinutes: z.number().int().min(1).max(15).optional().describe("How long to hold the tables. Defaults to 5 minutes.")
+});
+
+export const ReleaseTableHoldSchema = z.object({
+  restaurantId: z.string().describe("The internal ID of the restaurant."),
+  holdToken: z.string().describe("Token from holdTable.")
 });
 
 export const TableReservationSchema = z.object({
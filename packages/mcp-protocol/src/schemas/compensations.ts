@@ -49,6 +49,24 @@ export const COMPENSATIONS: Record<string, CompensationDefinition> = {
     requiresConfirmation: false,
   },
 
+  "holdTable": {
+    toolName: "releaseTableHold",
+    parameterMapper: "identity",
+    requiresConfirmation: false,
+    customMapper: (originalParams, stepResult) => {
+      const holdToken = (stepResult as Record<string, unknown>)?.hold_token as string | undefined;
+      return holdToken ? { restaurantId: originalParams.restaurantId, holdToken } : {};
+    },
+  },
+
+  "releaseTableHold": {
+    // Released tables may be booked by someone else at once, so a hold
+    // cannot be restored; the agent can place a new one
+    toolName: "",
+    parameterMapper: "identity",
+    requiresConfirmation: false,
+  },
+
   "book_tablestack_reservation": {
     toolName: "cancel_reservation",
     parameterMapper: "use_booking_id",
@@ -67,6 +85,30 @@ export const COMPENSATIONS: Record<string, CompensationDefinition> = {
     },
   },
 
+  "create_reservation_series": {
+    toolName: "cancel_reservation_series",
+    parameterMapper: "identity",
+    requiresConfirmation: false,
+    customMapper: (_originalParams, stepResult) => {
+      return { seriesId: (stepResult as Record<string, unknown> | undefined)?.seriesId };
+    },
+  },
+
+  "cancel_reservation_series": {
+    // Cancelled occurrences release their tables to other guests; re-booking
+    // them is a new series, not an undo. Non-compensable.
+    toolName: "",
+    parameterMapper: "identity",
+    requiresConfirmation: false,
+  },
+
+  "skip_series_occurrence": {
+    // The skipped date's table may be re-booked immediately. Non-compensable.
+    toolName: "",
+    parameterMapper: "identity",
+    requiresConfirmation: false,
+  },
+
   "reserve_restaurant": {
     toolName: "cancel_reservation",
     parameterMapper: "use_reservation_id",
@@ -166,9 +208,11 @@ export const COMPENSATIONS: Record<string, CompensationDefinition> = {
  */
 export const IDEMPOTENT_TOOLS = new Set([
   "getAvailability",
+  "getAvailabilitySlots",
   "get_table_availability",
   "get_reservation",
   "list_reservations",
+  "get_guest_profile",
   "check_table_conflicts",
   "validate_reservation",
   "validate_fulfillment",
@@ -207,19 +207,27 @@ export const TableSeatedEventSchema = BaseEventSchema.extend({
   }),
 });
 
+// Table lifecycle: vacant -> seated -> ordered -> paying -> dirty -> vacant
+export const TableStatusSchema = z.enum(["vacant", "seated", "ordered", "paying", "dirty", "out_of_service"]);
+
 export const TableStatusChangedEventSchema = BaseEventSchema.extend({
   eventType: z.literal("TABLE_STATUS_CHANGED"),
   payload: z.object({
     restaurantId: z.string().uuid(),
     tableId: z.string().uuid(),
     tableName: z.string(),
-    previousStatus: z.enum(["available", "occupied", "reserved", "maintenance"]),
-    newStatus: z.enum(["available", "occupied", "reserved", "maintenance"]),
+    previousStatus: TableStatusSchema,
+    newStatus: TableStatusSchema,
     changedAt: z.string().datetime(),
+    // Time the table spent in previousStatus
+    previousStatusMinutes: z.number().int().nonnegative().optional(),
+    changedBy: z.string().optional(),
     reason: z.string().optional(),
   }),
 });
 
+export type TableStatusChangedEvent = z.infer<typeof TableStatusChangedEventSchema>;
+
 export const ReservationCreatedEventSchema = BaseEventSchema.extend({
   eventType: z.literal("RESERVATION_CREATED"),
   payload: z.object({
@@ -245,6 +253,27 @@ export const ReservationCancelledEventSchema = BaseEventSchema.extend({
   }),
 });
 
+const ReservationSnapshotSchema = z.object({
+  reservationTime: z.string().datetime(),
+  partySize: z.number().int().positive(),
+  tableId: z.string().uuid().nullable(),
+  combinedTableIds: z.array(z.string().uuid()).nullable(),
+});
+
+export const ReservationModifiedEventSchema = BaseEventSchema.extend({
+  eventType: z.literal("RESERVATION_MODIFIED"),
+  payload: z.object({
+    restaurantId: z.string().uuid(),
+    reservationId: z.string().uuid(),
+    modifiedAt: z.string().datetime(),
+    modifiedBy: z.enum(["guest", "restaurant", "system"]),
+    previous: ReservationSnapshotSchema,
+    current: ReservationSnapshotSchema,
+  }),
+});
+
+export type ReservationModifiedEvent = z.infer<typeof ReservationModifiedEventSchema>;
+
 // ============================================================================
 // DELIVERY FULFILLMENT EVENTS
 // Real-time delivery state changes
@@ -420,6 +449,7 @@ export const NervousSystemEventSchema = z.discriminatedUnion("eventType", [
   TableStatusChangedEventSchema,
   ReservationCreatedEventSchema,
   ReservationCancelledEventSchema,
+  ReservationModifiedEventSchema,
   // Delivery fulfillment
   DeliveryDispatchedEventSchema,
   DriverArrivedAtPickupEventSchema,
@@ -460,6 +490,7 @@ export const NervousSystemEventTypeSchema = z.enum([
   "TABLE_STATUS_CHANGED",
   "RESERVATION_CREATED",
   "RESERVATION_CANCELLED",
+  "RESERVATION_MODIFIED",
   "DELIVERY_DISPATCHED",
   "DRIVER_ARRIVED_AT_PICKUP",
   "DRIVER_PICKED_UP_ORDER",
@@ -514,6 +545,7 @@ export class EventSchemaRegistry {
       ["table_status_changed:v1", TableStatusChangedEventSchema],
       ["reservation_created:v1", ReservationCreatedEventSchema],
       ["reservation_cancelled:v1", ReservationCancelledEventSchema],
+      ["reservation_modified:v1", ReservationModifiedEventSchema],
       // Delivery fulfillment
       ["delivery_dispatched:v1", DeliveryDispatchedEventSchema],
       ["driver_arrived_at_pickup:v1", DriverArrivedAtPickupEventSchema],
@@ -46,6 +46,14 @@ export const ListReservationsSchema = z.object({
   offset: z.number().int().nonnegative().default(0).describe("Pagination offset"),
 });
 
+/**
+ * GetGuestProfileSchema - Retrieve a guest's stored dietary needs, allergies and seating preferences
+ */
+export const GetGuestProfileSchema = z.object({
+  restaurantId: z.string().uuid().describe("The internal ID of the restaurant"),
+  guestEmail: z.string().email().describe("Email the guest books with"),
+});
+
 /**
  * CheckTableConflictsSchema - Check for conflicting reservations
  */
@@ -105,6 +113,48 @@ export const CancelReservationSchema = z.object({
   refundDeposit: z.boolean().default(true).describe("Whether to refund any deposit"),
 });
 
+// ============================================================================
+// STANDING (RECURRING) RESERVATIONS
+// ============================================================================
+
+const LocalDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected yyyy-MM-dd");
+
+/**
+ * CreateReservationSeriesSchema - Book a standing reservation ("every Friday at 7pm")
+ * REQUIRES CONFIRMATION
+ */
+export const CreateReservationSeriesSchema = z.object({
+  restaurantId: z.string().uuid().describe("The internal ID of the restaurant"),
+  tableId: z.string().optional().describe("Table to hold on every date, or a combination 'id1+id2'. Omit to assign the best table per date"),
+  guestName: z.string().min(1).max(100).describe("Name for the reservation"),
+  guestEmail: z.string().email().describe("Email for the reservation"),
+  partySize: z.number().int().positive().max(100).describe("Number of guests"),
+  firstDate: LocalDateSchema.describe("First date of the series (yyyy-MM-dd, restaurant local time)"),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:mm").describe("Local start time on every date (HH:mm)"),
+  rrule: z.string().min(1).describe("RFC 5545 recurrence rule, e.g. 'FREQ=WEEKLY;BYDAY=FR'. Supports FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY (weekly), BYMONTHDAY (monthly), COUNT and UNTIL"),
+  endDate: LocalDateSchema.optional().describe("Last date the series may run (inclusive)"),
+  exceptionDates: z.array(LocalDateSchema).optional().describe("Dates to skip (yyyy-MM-dd)"),
+});
+
+/**
+ * CancelReservationSeriesSchema - Cancel a standing reservation, fully or from a date
+ * REQUIRES CONFIRMATION
+ */
+export const CancelReservationSeriesSchema = z.object({
+  seriesId: z.string().uuid().describe("The unique identifier of the reservation series"),
+  fromDate: LocalDateSchema.optional().describe("Cancel this date and every later one; omit to cancel the whole series"),
+  reason: z.string().max(200).optional().describe("Reason for cancellation"),
+});
+
+/**
+ * SkipSeriesOccurrenceSchema - Cancel a single date of a standing reservation
+ * REQUIRES CONFIRMATION
+ */
+export const SkipSeriesOccurrenceSchema = z.object({
+  seriesId: z.string().uuid().describe("The unique identifier of the reservation series"),
+  date: LocalDateSchema.describe("The date to skip (yyyy-MM-dd, restaurant local time)"),
+});
+
 // ============================================================================
 // WAITLIST MANAGEMENT
 // ============================================================================
@@ -171,10 +221,14 @@ export type GetTableAvailability = z.infer<typeof GetTableAvailabilitySchema>;
 export type GetTableLayout = z.infer<typeof GetTableLayoutSchema>;
 export type GetReservation = z.infer<typeof GetReservationSchema>;
 export type ListReservations = z.infer<typeof ListReservationsSchema>;
+export type GetGuestProfile = z.infer<typeof GetGuestProfileSchema>;
 export type CheckTableConflicts = z.infer<typeof CheckTableConflictsSchema>;
 export type CreateReservation = z.infer<typeof CreateReservationSchema>;
 export type UpdateReservation = z.infer<typeof UpdateReservationSchema>;
 export type CancelReservation = z.infer<typeof CancelReservationSchema>;
+export type CreateReservationSeries = z.infer<typeof CreateReservationSeriesSchema>;
+export type CancelReservationSeries = z.infer<typeof CancelReservationSeriesSchema>;
+export type SkipSeriesOccurrence = z.infer<typeof SkipSeriesOccurrenceSchema>;
 export type AddToWaitlist = z.infer<typeof AddToWaitlistSchema>;
 export type UpdateWaitlistStatus = z.infer<typeof UpdateWaitlistStatusSchema>;
 export type ValidateReservation = z.infer<typeof ValidateReservationSchema>;
@@ -5,6 +5,7 @@ export * from './normalization';
 export * from './clients';
 export * from './idempotency';
 export * from './outbox';
+export * from './inventory';
 export * from './services';
 export * from './realtime';
 export * from './state-machine';
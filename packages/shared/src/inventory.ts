@@ -0,0 +1,260 @@
+/**
+ * Inventory Holds
+ *
+ * Holds stock while a delivery checkout is in flight, takes it off
+ * inventory when the order is placed and puts it back when the order is
+ * cancelled. Every change is a single conditional UPDATE on inventory_levels
+ * (the Neon HTTP driver has no interactive transactions), so two checkouts
+ * can never both claim the last unit.
+ *
+ * Orders that take a product to or below its low-stock threshold publish a
+ * `low_stock` event on the restaurant's merchant channel.
+ *
+ * @package @repo/shared
+ */
+
+import { db, inventoryHolds, inventoryLevels, orderItems, restaurantProducts, and, eq, inArray, isNotNull, lt, sql } from '@repo/database';
+import { RealtimeService } from './realtime';
+import {
+  aggregateStockLines,
+  crossesLowStock,
+  describeShortage,
+  HOLD_TTL_MINUTES,
+  sellableQuantity,
+  Shortage,
+  StockLine,
+} from './utils/inventory';
+
+export interface HoldResult {
+  expiresAt: Date;
+  /** Empty when every line was held */
+  shortages: Shortage[];
+}
+
+export class OutOfStockError extends Error {
+  shortage: Shortage;
+
+  constructor(shortage: Shortage) {
+    super(describeShortage(shortage));
+    this.name = 'OutOfStockError';
+    this.shortage = shortage;
+  }
+}
+
+interface LowStockAlert {
+  productId: string;
+  availableQuantity: number;
+  threshold: number;
+}
+
+/** Takes released or expired holds back out of held_quantity */
+async function unhold(lines: StockLine[]): Promise<void> {
+  for (const { productId, quantity } of aggregateStockLines(lines)) {
+    await db.update(inventoryLevels)
+      .set({ heldQuantity: sql`greatest(${inventoryLevels.heldQuantity} - ${quantity}, 0)` })
+      .where(eq(inventoryLevels.productId, productId));
+  }
+}
+
+/**
+ * Expires holds past their TTL. Runs lazily before stock is held or read.
+ */
+export async function releaseExpiredHolds(now: Date = new Date()): Promise<number> {
+  const expired: StockLine[] = await db.update(inventoryHolds)
+    .set({ status: 'expired' })
+    .where(and(eq(inventoryHolds.status, 'held'), lt(inventoryHolds.expiresAt, now)))
+    .returning({ productId: inventoryHolds.productId, quantity: inventoryHolds.quantity });
+
+  await unhold(expired);
+  return expired.length;
+}
+
+/**
+ * Releases everything a checkout holds, e.g. when the cart changes or is
+ * abandoned.
+ */
+export async function releaseCheckout(checkoutId: string): Promise<void> {
+  const released: StockLine[] = await db.update(inventoryHolds)
+    .set({ status: 'released' })
+    .where(and(eq(inventoryHolds.checkoutId, checkoutId), eq(inventoryHolds.status, 'held')))
+    .returning({ productId: inventoryHolds.productId, quantity: inventoryHolds.quantity });
+
+  await unhold(released);
+}
+
+/**
+ * Replaces a checkout's holds with the given lines for `ttlMinutes`. When any
+ * line cannot be held nothing is held and the shortages are returned.
+ * Products without an inventory row are not stock-tracked and always pass.
+ */
+export async function holdInventory(
+  checkoutId: string,
+  lines: StockLine[],
+  ttlMinutes: number = HOLD_TTL_MINUTES
+): Promise<HoldResult> {
+  const wanted = aggregateStockLines(lines);
+  const expiresAt = new Date(Date.now() + ttlMinutes * 60_000);
+
+  await releaseCheckout(checkoutId);
+  await releaseExpiredHolds();
+  if (wanted.length === 0) return { expiresAt, shortages: [] };
+
+  const levels: { productId: string; name: string; availableQuantity: number; heldQuantity: number }[] = await db
+    .select({
+      productId: inventoryLevels.productId,
+      name: restaurantProducts.name,
+      availableQuantity: inventoryLevels.availableQuantity,
+      heldQuantity: inventoryLevels.heldQuantity,
+    })
+    .from(inventoryLevels)
+    .innerJoin(restaurantProducts, eq(restaurantProducts.id, inventoryLevels.productId))
+    .where(inArray(inventoryLevels.productId, wanted.map(l => l.productId)));
+  const byId = new Map(levels.map(l => [l.productId, l]));
+  const tracked = wanted.filter(l => byId.has(l.productId));
+  if (tracked.length === 0) return { expiresAt, shortages: [] };
+
+  // Hold rows go in first so a crash mid-way can only over-release, never
+  // leave held_quantity stuck
+  const holds: { id: string; productId: string }[] = await db.insert(inventoryHolds)
+    .values(tracked.map(l => ({ productId: l.productId, checkoutId, quantity: l.quantity, expiresAt })))
+    .returning({ id: inventoryHolds.id, productId: inventoryHolds.productId });
+
+  const shortages: Shortage[] = [];
+  const unclaimed: string[] = [];
+  for (const line of tracked) {
+    const [claimed] = await db.update(inventoryLevels)
+      .set({ heldQuantity: sql`${inventoryLevels.heldQuantity} + ${line.quantity}` })
+      .where(and(
+        eq(inventoryLevels.productId, line.productId),
+        sql`${inventoryLevels.availableQuantity} - ${inventoryLevels.heldQuantity} >= ${line.quantity}`
+      ))
+      .returning({ productId: inventoryLevels.productId });
+
+    if (!claimed) {
+      const level = byId.get(line.productId)!;
+      unclaimed.push(holds.find(h => h.productId === line.productId)!.id);
+      shortages.push({ productId: line.productId, name: level.name, requested: line.quantity, available: sellableQuantity(level) });
+    }
+  }
+
+  if (shortages.length > 0) {
+    await db.update(inventoryHolds).set({ status: 'released' }).where(inArray(inventoryHolds.id, unclaimed));
+    await releaseCheckout(checkoutId);
+  }
+
+  return { expiresAt, shortages };
+}
+
+/**
+ * Takes an order's stock off inventory, converting the checkout's holds.
+ * Lines without a live hold (it expired, or there was no checkout) must still
+ * be sellable. Throws OutOfStockError if stock ran out, in which case
+ * nothing is taken and the checkout's holds are released. Call after the
+ * order row exists; committed holds reference it.
+ */
+export async function commitInventory(checkoutId: string | null, orderId: string, lines: StockLine[]): Promise<void> {
+  const wanted = new Map(aggregateStockLines(lines).map(l => [l.productId, l.quantity]));
+
+  const claimed: StockLine[] = checkoutId
+    ? await db.update(inventoryHolds)
+        .set({ status: 'committed', orderId })
+        .where(and(eq(inventoryHolds.checkoutId, checkoutId), eq(inventoryHolds.status, 'held')))
+        .returning({ productId: inventoryHolds.productId, quantity: inventoryHolds.quantity })
+    : [];
+  const held = new Map(aggregateStockLines(claimed).map(l => [l.productId, l.quantity]));
+
+  const productIds = [...new Set([...wanted.keys(), ...held.keys()])];
+  const taken: StockLine[] = [];
+  const alerts: LowStockAlert[] = [];
+
+  for (const productId of productIds) {
+    const quantity = wanted.get(productId) || 0;
+    const release = held.get(productId) || 0;
+    const remainingHeld = sql`greatest(${inventoryLevels.heldQuantity} - ${release}, 0)`;
+
+    const [level] = await db.update(inventoryLevels)
+      .set({
+        availableQuantity: sql`${inventoryLevels.availableQuantity} - ${quantity}`,
+        heldQuantity: remainingHeld,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(inventoryLevels.productId, productId),
+        sql`${inventoryLevels.availableQuantity} - ${remainingHeld} >= ${quantity}`
+      ))
+      .returning({ availableQuantity: inventoryLevels.availableQuantity, lowStockThreshold: inventoryLevels.lowStockThreshold });
+
+    if (level) {
+      taken.push({ productId, quantity });
+      if (crossesLowStock(level.availableQuantity + quantity, level.availableQuantity, level.lowStockThreshold)) {
+        alerts.push({ productId, availableQuantity: level.availableQuantity, threshold: level.lowStockThreshold! });
+      }
+      continue;
+    }
+
+    const current = await db.query.inventoryLevels.findFirst({ where: eq(inventoryLevels.productId, productId) });
+    if (!current) continue; // not stock-tracked
+
+    // Put back what was already taken and give up the remaining holds
+    for (const line of taken) {
+      await db.update(inventoryLevels)
+        .set({ availableQuantity: sql`${inventoryLevels.availableQuantity} + ${line.quantity}`, updatedAt: new Date() })
+        .where(eq(inventoryLevels.productId, line.productId));
+    }
+    await db.update(inventoryHolds)
+      .set({ status: 'released', orderId: null })
+      .where(and(eq(inventoryHolds.orderId, orderId), eq(inventoryHolds.status, 'committed')));
+    await unhold(claimed.filter(c => !taken.some(t => t.productId === c.productId)));
+
+    const product = await db.query.restaurantProducts.findFirst({ where: eq(restaurantProducts.id, productId) });
+    throw new OutOfStockError({
+      productId,
+      name: product?.name || 'An item',
+      requested: quantity,
+      available: sellableQuantity(current),
+    });
+  }
+
+  await publishLowStockAlerts(alerts);
+}
+
+/**
+ * Puts a cancelled order's items back into stock. Call once, after the order
+ * has moved to cancelled.
+ */
+export async function releaseOrderInventory(orderId: string): Promise<void> {
+  const items: { productId: string; quantity: number }[] = await db
+    .select({ productId: orderItems.productId, quantity: orderItems.quantity })
+    .from(orderItems)
+    .where(and(eq(orderItems.orderId, orderId), isNotNull(orderItems.productId)));
+
+  for (const { productId, quantity } of aggregateStockLines(items)) {
+    await db.update(inventoryLevels)
+      .set({ availableQuantity: sql`${inventoryLevels.availableQuantity} + ${quantity}`, updatedAt: new Date() })
+      .where(eq(inventoryLevels.productId, productId));
+  }
+
+  await db.update(inventoryHolds)
+    .set({ status: 'released' })
+    .where(and(eq(inventoryHolds.orderId, orderId), eq(inventoryHolds.status, 'committed')));
+}
+
+async function publishLowStockAlerts(alerts: LowStockAlert[]): Promise<void> {
+  if (alerts.length === 0) return;
+
+  const products: { id: string; name: string; restaurantId: string }[] = await db.query.restaurantProducts.findMany({
+    where: inArray(restaurantProducts.id, alerts.map(a => a.productId)),
+  });
+
+  for (const alert of alerts) {
+    const product = products.find(p => p.id === alert.productId);
+    if (!product) continue;
+    await RealtimeService.publish(`merchant:${product.restaurantId}`, 'low_stock', {
+      productId: product.id,
+      name: product.name,
+      availableQuantity: alert.availableQuantity,
+      threshold: alert.threshold,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
@@ -408,6 +408,75 @@ export class QStashService {
     }
   }
 
+  /**
+   * Publish a message to any URL for delivery at a specific time
+   * Unlike publish(), there is no fetch fallback: a delayed call cannot be
+   * emulated in-process, so callers get null when QStash is not configured
+   *
+   * @param options - Publish options
+   * @param options.notBefore - Earliest delivery time
+   * @returns Message ID if scheduled, null otherwise
+   */
+  static async publishAt(options: {
+    url: string;
+    body: unknown;
+    notBefore: Date;
+    headers?: Record<string, string>;
+  }): Promise<string | null> {
+    const client = this.getClient();
+
+    if (!client || !this.config?.enabled) {
+      console.warn("[QStashService] QStash not configured, cannot schedule message");
+      return null;
+    }
+
+    try {
+      const result = await client.publish({
+        url: options.url,
+        body: typeof options.body === 'string' ? options.body : JSON.stringify(options.body),
+        headers: {
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+        notBefore: Math.floor(options.notBefore.getTime() / 1000),
+      });
+
+      const messageId = "messageId" in result ? result.messageId : undefined;
+      console.log(
+        `[QStashService] Scheduled message to ${options.url} at ${options.notBefore.toISOString()}${messageId ? ` [message: ${messageId}]` : ''}`
+      );
+
+      return messageId || null;
+    } catch (error) {
+      console.error("[QStashService] Failed to schedule message:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Cancel a scheduled message that has not been delivered yet
+   *
+   * @param messageId - ID returned by publishAt()
+   * @returns true if QStash accepted the cancellation
+   */
+  static async cancelMessage(messageId: string): Promise<boolean> {
+    const client = this.getClient();
+
+    if (!client || !this.config?.enabled) {
+      return false;
+    }
+
+    try {
+      await client.messages.delete(messageId);
+      console.log(`[QStashService] Cancelled message ${messageId}`);
+      return true;
+    } catch (error) {
+      // Already delivered or expired messages can no longer be cancelled
+      console.warn(`[QStashService] Failed to cancel message ${messageId}:`, error);
+      return false;
+    }
+  }
+
   /**
    * Fallback for generic publish when QStash is not configured
    */
@@ -0,0 +1,66 @@
+/**
+ * Inventory holds shared by OpenDelivery (checkout) and TableStack (stock
+ * management and the external inventory API).
+ *
+ * A checkout holds stock for HOLD_TTL_MINUTES. Held units count against what
+ * can be sold but are only taken off available stock when the order is
+ * placed. Products without an inventory row are not stock-tracked.
+ *
+ * Pure helpers only; holding, committing and releasing stock lives in
+ * ../inventory.
+ */
+
+export const HOLD_TTL_MINUTES = 10;
+
+export interface StockLine {
+  productId: string;
+  quantity: number;
+}
+
+export interface StockLevel {
+  availableQuantity: number;
+  heldQuantity: number;
+}
+
+export interface Shortage {
+  productId: string;
+  name: string;
+  requested: number;
+  /** Units that could still be sold */
+  available: number;
+}
+
+/**
+ * Sums quantities per product so a product ordered on several lines (in
+ * different sizes, say) is held once.
+ */
+export function aggregateStockLines(lines: StockLine[]): StockLine[] {
+  const totals = new Map<string, number>();
+  for (const line of lines) {
+    if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+      throw new Error('Quantities must be whole numbers of at least 1');
+    }
+    totals.set(line.productId, (totals.get(line.productId) || 0) + line.quantity);
+  }
+  return [...totals].map(([productId, quantity]) => ({ productId, quantity }));
+}
+
+/** Units that can still be sold once live holds are set aside */
+export function sellableQuantity(level: StockLevel): number {
+  return Math.max(0, level.availableQuantity - level.heldQuantity);
+}
+
+/**
+ * Whether taking stock from `before` to `after` crosses the low-stock
+ * threshold. Alerts fire once, on the order that crosses it.
+ */
+export function crossesLowStock(before: number, after: number, threshold: number | null | undefined): boolean {
+  if (threshold === null || threshold === undefined) return false;
+  return before > threshold && after <= threshold;
+}
+
+export function describeShortage(shortage: Shortage): string {
+  return shortage.available === 0
+    ? `${shortage.name} is sold out`
+    : `Only ${shortage.available} ${shortage.name} left`;
+}
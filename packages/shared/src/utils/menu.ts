@@ -0,0 +1,293 @@
+/**
+ * Menu item options shared by TableStack (menu editing) and OpenDelivery
+ * (menu display and ordering).
+ *
+ * An item may have:
+ * - size variants, one of which must be picked, each adjusting the base price
+ * - modifier groups ("Add-ons", "Bun") with min/max selections, whose options
+ *   adjust the price and may add allergens
+ * - allergen flags from the 14 major allergens
+ * - availability windows in the restaurant's local time (a breakfast menu);
+ *   items without windows are always available
+ *
+ * Prices are in dollars, matching restaurant_products.price.
+ */
+
+export const ALLERGENS = [
+  'gluten',
+  'crustaceans',
+  'eggs',
+  'fish',
+  'peanuts',
+  'soy',
+  'milk',
+  'tree_nuts',
+  'celery',
+  'mustard',
+  'sesame',
+  'sulphites',
+  'lupin',
+  'molluscs',
+] as const;
+export type Allergen = typeof ALLERGENS[number];
+
+export const MENU_WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+export type MenuWeekday = typeof MENU_WEEKDAYS[number];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface MenuVariant {
+  id: string;
+  name: string;
+  priceDelta: number;
+}
+
+export interface ModifierOption {
+  id: string;
+  name: string;
+  priceDelta: number;
+  allergens?: Allergen[];
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  minSelections: number;
+  maxSelections: number;
+  options: ModifierOption[];
+}
+
+export interface AvailabilityWindow {
+  /** Weekdays the window applies to; omitted means every day */
+  days?: MenuWeekday[];
+  startTime: string;
+  /** Exclusive; earlier than startTime for windows past midnight */
+  endTime: string;
+}
+
+export interface MenuItemOptions {
+  variants: MenuVariant[];
+  modifierGroups: ModifierGroup[];
+  allergens: Allergen[];
+  availability: AvailabilityWindow[];
+}
+
+export interface MenuItemForPricing {
+  name: string;
+  price: number;
+  variants?: MenuVariant[] | null;
+  modifierGroups?: ModifierGroup[] | null;
+  allergens?: Allergen[] | null;
+}
+
+/** What the guest picked for one order line */
+export interface ItemSelection {
+  variantId?: string | null;
+  modifierOptionIds?: string[];
+}
+
+export interface SelectedModifier {
+  group: string;
+  option: string;
+  priceDelta: number;
+}
+
+export interface PricedSelection {
+  /** Base price plus variant and modifier deltas */
+  unitPrice: number;
+  variantName: string | null;
+  modifiers: SelectedModifier[];
+  /** Item allergens plus those added by the chosen modifiers */
+  allergens: Allergen[];
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function duplicateOf(values: string[]): string | undefined {
+  return values.find((value, i) => values.indexOf(value) !== i);
+}
+
+function isAllergen(value: unknown): value is Allergen {
+  return typeof value === 'string' && (ALLERGENS as readonly string[]).includes(value);
+}
+
+/**
+ * Returns an error message for invalid options, or null.
+ */
+export function validateMenuOptions(options: Partial<MenuItemOptions>): string | null {
+  const variants = options.variants || [];
+  const groups = options.modifierGroups || [];
+
+  for (const allergen of options.allergens || []) {
+    if (!isAllergen(allergen)) return `Unknown allergen "${allergen}"`;
+  }
+
+  const duplicateVariant = duplicateOf(variants.map(v => v.id));
+  if (duplicateVariant) return `Variant id "${duplicateVariant}" is used twice`;
+  for (const variant of variants) {
+    if (!variant.name?.trim()) return 'Every variant needs a name';
+    if (!Number.isFinite(variant.priceDelta)) return `Variant "${variant.name}" has an invalid price`;
+  }
+
+  const duplicateGroup = duplicateOf(groups.map(g => g.id));
+  if (duplicateGroup) return `Modifier group id "${duplicateGroup}" is used twice`;
+  const duplicateOption = duplicateOf(groups.flatMap(g => g.options.map(o => o.id)));
+  if (duplicateOption) return `Modifier option id "${duplicateOption}" is used twice`;
+
+  for (const group of groups) {
+    if (!group.name?.trim()) return 'Every modifier group needs a name';
+    if (group.options.length === 0) return `"${group.name}" has no options`;
+    if (!Number.isInteger(group.minSelections) || !Number.isInteger(group.maxSelections) || group.minSelections < 0) {
+      return `"${group.name}" needs whole-number selection limits`;
+    }
+    if (group.maxSelections < Math.max(1, group.minSelections)) {
+      return `"${group.name}" allows fewer selections than it requires`;
+    }
+    if (group.minSelections > group.options.length) {
+      return `"${group.name}" requires more selections than it has options`;
+    }
+    for (const option of group.options) {
+      if (!option.name?.trim()) return `Every option in "${group.name}" needs a name`;
+      if (!Number.isFinite(option.priceDelta)) return `"${option.name}" has an invalid price`;
+      const unknown = (option.allergens || []).find(a => !isAllergen(a));
+      if (unknown) return `Unknown allergen "${unknown}"`;
+    }
+  }
+
+  for (const window of options.availability || []) {
+    if (!TIME_PATTERN.test(window.startTime) || !TIME_PATTERN.test(window.endTime)) {
+      return 'Availability times must be HH:mm';
+    }
+    if (window.startTime === window.endTime) return 'Availability windows cannot be empty';
+    const unknownDay = (window.days || []).find(d => !(MENU_WEEKDAYS as readonly string[]).includes(d));
+    if (unknownDay) return `Unknown weekday "${unknownDay}"`;
+  }
+
+  return null;
+}
+
+/**
+ * Prices one order line and checks the selection against the item's
+ * variants and modifier groups. Throws with a guest-facing message when a
+ * required choice is missing or an option is unknown.
+ */
+export function priceSelection(item: MenuItemForPricing, selection: ItemSelection = {}): PricedSelection {
+  const variants = item.variants || [];
+  const groups = item.modifierGroups || [];
+  const optionIds = [...new Set(selection.modifierOptionIds || [])];
+
+  let variant: MenuVariant | null = null;
+  if (variants.length > 0) {
+    variant = variants.find(v => v.id === selection.variantId) || null;
+    if (!variant) throw new Error(`Choose a size for ${item.name}`);
+  } else if (selection.variantId) {
+    throw new Error(`${item.name} has no sizes`);
+  }
+
+  const modifiers: SelectedModifier[] = [];
+  const allergens = new Set<Allergen>(item.allergens || []);
+  const matched = new Set<string>();
+
+  for (const group of groups) {
+    const chosen = group.options.filter(o => optionIds.includes(o.id));
+    if (chosen.length < group.minSelections) {
+      throw new Error(group.minSelections === 1
+        ? `Choose an option for "${group.name}" on ${item.name}`
+        : `Choose at least ${group.minSelections} options for "${group.name}" on ${item.name}`);
+    }
+    if (chosen.length > group.maxSelections) {
+      throw new Error(`Choose at most ${group.maxSelections} options for "${group.name}" on ${item.name}`);
+    }
+    for (const option of chosen) {
+      matched.add(option.id);
+      modifiers.push({ group: group.name, option: option.name, priceDelta: option.priceDelta });
+      for (const allergen of option.allergens || []) allergens.add(allergen);
+    }
+  }
+
+  if (matched.size !== optionIds.length) {
+    throw new Error(`Unknown option selected for ${item.name}`);
+  }
+
+  const unitPrice = item.price + (variant?.priceDelta || 0) + modifiers.reduce((sum, m) => sum + m.priceDelta, 0);
+
+  return {
+    unitPrice: roundCents(Math.max(0, unitPrice)),
+    variantName: variant?.name || null,
+    modifiers,
+    allergens: ALLERGENS.filter(a => allergens.has(a)),
+  };
+}
+
+/**
+ * Short description of a priced line, e.g. "Large · Bacon, No onion".
+ */
+export function describeSelection(selection: Pick<PricedSelection, 'variantName' | 'modifiers'>): string {
+  const parts: string[] = [];
+  if (selection.variantName) parts.push(selection.variantName);
+  if (selection.modifiers.length > 0) parts.push(selection.modifiers.map(m => m.option).join(', '));
+  return parts.join(' · ');
+}
+
+/**
+ * Local weekday and "HH:mm" of an instant in a timezone.
+ */
+export function localDayAndTime(at: Date, timezone: string): { day: MenuWeekday; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    day: get('weekday').toLowerCase() as MenuWeekday,
+    time: `${get('hour')}:${get('minute')}`,
+  };
+}
+
+/**
+ * Whether an item can be ordered at a local weekday and time. Windows past
+ * midnight belong to the day they start on.
+ */
+export function isAvailableAt(windows: AvailabilityWindow[] | null | undefined, day: MenuWeekday, time: string): boolean {
+  if (!windows || windows.length === 0) return true;
+
+  const previousDay = MENU_WEEKDAYS[(MENU_WEEKDAYS.indexOf(day) + 6) % 7];
+  const appliesTo = (window: AvailabilityWindow, d: MenuWeekday) => !window.days?.length || window.days.includes(d);
+
+  return windows.some(window => {
+    if (window.startTime < window.endTime) {
+      return appliesTo(window, day) && time >= window.startTime && time < window.endTime;
+    }
+    return (appliesTo(window, day) && time >= window.startTime) ||
+      (appliesTo(window, previousDay) && time < window.endTime);
+  });
+}
+
+/**
+ * Whether an item can be ordered at an instant in the restaurant's timezone.
+ */
+export function isItemAvailable(windows: AvailabilityWindow[] | null | undefined, at: Date, timezone: string): boolean {
+  const { day, time } = localDayAndTime(at, timezone);
+  return isAvailableAt(windows, day, time);
+}
+
+/**
+ * Human-readable availability, e.g. "07:00–11:00 (weekdays)". Empty for
+ * items available all day.
+ */
+export function describeAvailability(windows: AvailabilityWindow[] | null | undefined): string {
+  return (windows || []).map(window => {
+    const days = window.days?.length ? window.days : null;
+    const weekdays = MENU_WEEKDAYS.slice(0, 5);
+    const label = !days ? '' :
+      days.length === 5 && weekdays.every(d => days.includes(d)) ? ' (weekdays)' :
+      ` (${days.map(d => d.slice(0, 3)).map(d => d[0].toUpperCase() + d.slice(1)).join(', ')})`;
+    return `${window.startTime}–${window.endTime}${label}`;
+  }).join(', ');
+}